@@ -6,7 +6,22 @@
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import * as fc from 'fast-check';
-import { trackCampaignEmail, extractEmail, buildMinimalPayload, API_TIMEOUT_MS, getCachedUrl, resetUrlCache, trackMonitoringHit } from './index';
+import {
+  trackCampaignEmail,
+  extractEmail,
+  buildMinimalPayload,
+  API_TIMEOUT_MS,
+  getCachedUrl,
+  resetUrlCache,
+  trackMonitoringHit,
+  extractHeaders,
+  getForwardHeaders,
+  resetWorkerConfigCache,
+  parseAuthenticationResults,
+  getForwardDestinations,
+  forwardToAll,
+  reportForwardFailures,
+} from './index';
 import type { Env } from './index';
 
 // Mock fetch globally
@@ -504,3 +519,182 @@ describe('Worker Connection Optimization', () => {
     });
   });
 });
+
+describe('Forwarded headers', () => {
+  let mockEnv: Env;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resetWorkerConfigCache();
+    mockEnv = {
+      VPS_API_URL: 'https://example.com/api/webhook/email',
+      VPS_API_TOKEN: 'test-token',
+      DEFAULT_FORWARD_TO: 'test@example.com',
+      WORKER_NAME: 'test-worker',
+      DEBUG_LOGGING: 'false',
+      SEB: {} as SendEmail,
+    };
+  });
+
+  describe('extractHeaders', () => {
+    it('should return configured headers keyed by lowercase name', () => {
+      const messageHeaders = new Headers({
+        'List-Id': '<news.example.com>',
+        'X-Mailer': 'BulkMailer 2.0',
+        'Subject': 'Hello',
+      });
+
+      const headers = extractHeaders(messageHeaders, ['List-Id', 'Reply-To', 'X-Mailer']);
+
+      expect(headers).toEqual({ 'list-id': '<news.example.com>', 'x-mailer': 'BulkMailer 2.0' });
+    });
+
+    it('should return undefined when no configured header is present', () => {
+      expect(extractHeaders(new Headers({ 'Subject': 'Hello' }), ['List-Id'])).toBeUndefined();
+    });
+
+    it('should truncate long header values', () => {
+      const headers = extractHeaders(new Headers({ 'List-Unsubscribe': 'x'.repeat(5000) }), ['List-Unsubscribe']);
+      expect(headers!['list-unsubscribe'].length).toBe(1000);
+    });
+  });
+
+  describe('buildMinimalPayload', () => {
+    it('should include headers only when present', () => {
+      const withHeaders = buildMinimalPayload('a@b.com', 'c@d.com', 'Hi', 'id-1', 'w', { precedence: 'bulk' });
+      expect(withHeaders.headers).toEqual({ precedence: 'bulk' });
+
+      const withoutHeaders = buildMinimalPayload('a@b.com', 'c@d.com', 'Hi', 'id-1', 'w', {});
+      expect(withoutHeaders).not.toHaveProperty('headers');
+    });
+  });
+
+  describe('getForwardHeaders', () => {
+    it('should fetch the header list for this worker and cache it', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve({ workerName: 'test-worker', forwardHeaders: ['List-Id', 'Precedence'] }),
+      });
+
+      expect(await getForwardHeaders(mockEnv)).toEqual(['List-Id', 'Precedence']);
+      expect(await getForwardHeaders(mockEnv)).toEqual(['List-Id', 'Precedence']);
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(mockFetch.mock.calls[0][0]).toBe('https://example.com/api/webhook/config?workerName=test-worker');
+    });
+
+    it('should fall back to no headers when VPS is unreachable', async () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      mockFetch.mockRejectedValueOnce(new Error('Network error'));
+
+      expect(await getForwardHeaders(mockEnv)).toEqual([]);
+      // The failed lookup is cached so later emails are not delayed
+      expect(await getForwardHeaders(mockEnv)).toEqual([]);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+
+      consoleSpy.mockRestore();
+    });
+  });
+});
+
+describe('Authentication-Results parsing', () => {
+  it('should extract spf/dkim/dmarc verdicts', () => {
+    const header = 'mx.google.com; dkim=pass header.i=@shop.com header.s=s1 header.b=abc; ' +
+      'spf=softfail (google.com: domain of transitioning a@shop.com does not designate 1.2.3.4 as permitted sender) ' +
+      'smtp.mailfrom=a@shop.com; dmarc=fail (p=REJECT sp=REJECT dis=NONE) header.from=shop.com';
+
+    expect(parseAuthenticationResults(header, 'mx.google.com')).toEqual({ spf: 'softfail', dkim: 'pass', dmarc: 'fail' });
+  });
+
+  it('should use the first verdict of each method', () => {
+    const header = 'mx.example.net; dkim=fail header.d=esp.com; dkim=pass header.d=shop.com; spf=pass smtp.mailfrom=shop.com';
+    expect(parseAuthenticationResults(header, 'mx.example.net')).toEqual({ spf: 'pass', dkim: 'fail' });
+  });
+
+  it('should ignore a forged Authentication-Results header below the receiving MTA one', () => {
+    // Headers.get joins repeated headers with ", ", topmost first
+    const header = 'mx.cloudflare.net; dkim=fail header.d=shop.com; spf=fail smtp.mailfrom=shop.com, ' +
+      'attacker.example; dkim=pass header.d=shop.com; spf=pass; dmarc=pass header.from=shop.com';
+
+    expect(parseAuthenticationResults(header, 'mx.cloudflare.net')).toEqual({ spf: 'fail', dkim: 'fail' });
+  });
+
+  it('should only trust the instance written by the configured authserv-id', () => {
+    const forgedFirst = 'attacker.example; dmarc=pass header.from=shop.com, mx.cloudflare.net 1; dmarc=fail header.from=shop.com';
+    expect(parseAuthenticationResults(forgedFirst, 'MX.Cloudflare.net')).toEqual({ dmarc: 'fail' });
+    expect(parseAuthenticationResults('attacker.example; dmarc=pass', 'mx.cloudflare.net')).toBeUndefined();
+  });
+
+  it('should trust no header when the authserv-id is not configured', () => {
+    expect(parseAuthenticationResults('attacker.example; spf=pass; dkim=pass; dmarc=pass')).toBeUndefined();
+    expect(parseAuthenticationResults('mx.cloudflare.net; dmarc=pass', ' ')).toBeUndefined();
+  });
+
+  it('should ignore method names inside comments and unknown verdicts', () => {
+    const header = 'mx.example.net; spf=pass (spf=fail in comment) smtp.mailfrom=a.com; dmarc=bogus';
+    expect(parseAuthenticationResults(header, 'mx.example.net')).toEqual({ spf: 'pass' });
+  });
+
+  it('should return undefined for missing or unrecognized headers', () => {
+    expect(parseAuthenticationResults(null, 'mx.example.net')).toBeUndefined();
+    expect(parseAuthenticationResults('mx.example.net; none', 'mx.example.net')).toBeUndefined();
+  });
+
+  it('should only add auth to the payload when verdicts exist', () => {
+    expect(buildMinimalPayload('a@b.com', 'c@d.com', 'Hi', 'id-1', 'w', undefined, { dmarc: 'fail' }).auth)
+      .toEqual({ dmarc: 'fail' });
+    expect(buildMinimalPayload('a@b.com', 'c@d.com', 'Hi', 'id-1', 'w', undefined, {})).not.toHaveProperty('auth');
+  });
+});
+
+describe('Multi-destination forwarding', () => {
+  const mockEnv: Env = {
+    VPS_API_URL: 'https://example.com/api/webhook/email',
+    VPS_API_TOKEN: 'test-token',
+    DEFAULT_FORWARD_TO: 'test@example.com',
+    WORKER_NAME: 'test-worker',
+    DEBUG_LOGGING: 'false',
+    SEB: {} as SendEmail,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should normalize forward destinations', () => {
+    expect(getForwardDestinations('a@x.com', 'default@x.com')).toEqual(['a@x.com']);
+    expect(getForwardDestinations(['a@x.com', 'b@x.com', 'a@x.com'], 'default@x.com')).toEqual(['a@x.com', 'b@x.com']);
+    expect(getForwardDestinations(undefined, 'default@x.com')).toEqual(['default@x.com']);
+    expect(getForwardDestinations([], 'default@x.com')).toEqual(['default@x.com']);
+  });
+
+  it('should keep forwarding after a destination fails', async () => {
+    const forward = vi.fn()
+      .mockRejectedValueOnce(new Error('destination address not verified'))
+      .mockResolvedValueOnce(undefined);
+
+    const result = await forwardToAll({ forward }, ['a@x.com', 'b@x.com']);
+
+    expect(forward).toHaveBeenCalledTimes(2);
+    expect(result.delivered).toEqual(['b@x.com']);
+    expect(result.failures).toEqual([{ forwardTo: 'a@x.com', error: 'destination address not verified' }]);
+  });
+
+  it('should report failures to the VPS forward-report endpoint', async () => {
+    mockFetch.mockResolvedValueOnce({ ok: true });
+
+    await reportForwardFailures({
+      messageId: 'id-1',
+      workerName: 'test-worker',
+      from: 'a@b.com',
+      to: 'c@d.com',
+      subject: 'Hi',
+      delivered: ['b@x.com'],
+      failures: [{ forwardTo: 'a@x.com', error: 'failed' }],
+    }, mockEnv);
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(mockFetch.mock.calls[0][0]).toBe('https://example.com/api/webhook/forward-report');
+    expect(JSON.parse(mockFetch.mock.calls[0][1].body).failures).toEqual([{ forwardTo: 'a@x.com', error: 'failed' }]);
+  });
+});
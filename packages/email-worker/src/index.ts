@@ -27,6 +27,11 @@ export interface Env {
   VPS_API_BASE_URL?: string;
   /** KV namespace for caching monitoring hits when VPS API is unavailable (optional) */
   MONITORING_CACHE?: KVNamespace;
+  /**
+   * authserv-id of the receiving MTA's Authentication-Results header (e.g. "mx.cloudflare.net")
+   * When unset, no Authentication-Results header is trusted and no auth verdicts are sent
+   */
+  AUTHSERV_ID?: string;
 }
 
 /** 
@@ -57,15 +62,40 @@ interface EmailWebhookPayload {
   messageId: string;
   timestamp: number;
   workerName?: string;
+  /** Selected headers keyed by lowercase header name */
+  headers?: Record<string, string>;
+  /** SPF/DKIM/DMARC verdicts parsed from Authentication-Results */
+  auth?: EmailAuthResults;
+}
+
+/** Authentication verdict (RFC 8601 result value) */
+type AuthVerdict = 'pass' | 'fail' | 'softfail' | 'neutral' | 'none' | 'policy' | 'temperror' | 'permerror';
+
+/** SPF/DKIM/DMARC verdicts, methods not reported are omitted */
+interface EmailAuthResults {
+  spf?: AuthVerdict;
+  dkim?: AuthVerdict;
+  dmarc?: AuthVerdict;
+}
+
+/** Worker runtime configuration returned from VPS API */
+interface WorkerConfigResponse {
+  forwardHeaders?: string[];
 }
 
 /** Filter decision returned from VPS API */
 interface FilterDecision {
-  action: 'forward' | 'drop';
-  forwardTo?: string;
+  action: 'forward' | 'drop' | 'reject';
+  /** Forward destination, or a list when the email goes to several addresses */
+  forwardTo?: string | string[];
   reason?: string;
+  /** SMTP rejection reason, set when action is reject */
+  rejectReason?: string;
 }
 
+/** Rejection reason used when VPS does not provide one */
+const DEFAULT_REJECT_REASON = 'Message rejected by recipient policy';
+
 /** Campaign tracking payload sent to VPS API */
 interface CampaignTrackPayload {
   sender: string;
@@ -98,6 +128,15 @@ const MAX_SYNC_BATCH_SIZE = 50;
 /** TTL for cached monitoring hits (24 hours in seconds) */
 const CACHE_TTL_SECONDS = 24 * 60 * 60;
 
+/** How long the header list fetched from VPS API is reused (5 minutes) */
+const WORKER_CONFIG_TTL_MS = 5 * 60 * 1000;
+
+/** Timeout for fetching worker config, kept short since it blocks the email flow */
+const WORKER_CONFIG_TIMEOUT_MS = 2000;
+
+/** Maximum length of a forwarded header value */
+const MAX_HEADER_VALUE_LENGTH = 1000;
+
 /**
  * Build minimal webhook payload by excluding null/undefined fields
  * Optimized for minimal payload size (Requirements: 9.1, 9.2)
@@ -107,7 +146,9 @@ export function buildMinimalPayload(
   to: string,
   subject: string,
   messageId: string,
-  workerName?: string
+  workerName?: string,
+  headers?: Record<string, string>,
+  auth?: EmailAuthResults
 ): EmailWebhookPayload {
   // Build payload with only defined fields
   const payload: EmailWebhookPayload = {
@@ -122,10 +163,39 @@ export function buildMinimalPayload(
   if (workerName) {
     payload.workerName = workerName;
   }
+
+  // Only add headers if at least one configured header was present
+  if (headers && Object.keys(headers).length > 0) {
+    payload.headers = headers;
+  }
+
+  // Only add auth verdicts if any method was reported
+  if (auth && Object.keys(auth).length > 0) {
+    payload.auth = auth;
+  }
   
   return payload;
 }
 
+/**
+ * Read the configured headers from the message
+ * Keys are lowercased, missing headers are skipped and long values truncated
+ */
+export function extractHeaders(
+  messageHeaders: Headers,
+  headerNames: string[]
+): Record<string, string> | undefined {
+  let headers: Record<string, string> | undefined;
+  for (const name of headerNames) {
+    const value = messageHeaders.get(name);
+    if (value !== null) {
+      headers = headers || {};
+      headers[name.toLowerCase()] = value.substring(0, MAX_HEADER_VALUE_LENGTH);
+    }
+  }
+  return headers;
+}
+
 /** Cached URL object to avoid repeated parsing (Requirements: 11.3) */
 let cachedApiUrl: { urlString: string; parsed: URL } | null = null;
 
@@ -150,6 +220,123 @@ export function resetUrlCache(): void {
   cachedApiUrl = null;
 }
 
+/** Verdicts accepted from Authentication-Results */
+const AUTH_VERDICTS: AuthVerdict[] = ['pass', 'fail', 'softfail', 'neutral', 'none', 'policy', 'temperror', 'permerror'];
+
+/**
+ * Split a header value that joins several Authentication-Results instances with ", "
+ * (as Headers.get does) into the individual instances, topmost first.
+ * A new instance starts at a comma followed by an authserv-id and ";".
+ */
+export function splitAuthenticationResults(header: string): string[] {
+  // Drop comments like "(google.com: domain of x designates y as permitted sender)"
+  return header
+    .replace(/\([^)]*\)/g, ' ')
+    .split(/,\s*(?=[^\s;=,]+(?:\s+\d+)?\s*;)/)
+    .map((instance) => instance.trim())
+    .filter((instance) => instance.length > 0);
+}
+
+/**
+ * Parse the receiving MTA's Authentication-Results header into SPF/DKIM/DMARC verdicts
+ * e.g. "mx.example.net; spf=pass smtp.mailfrom=a.com; dkim=fail header.d=a.com; dmarc=fail header.from=a.com"
+ * Senders can add their own Authentication-Results headers, so only the first instance whose
+ * authserv-id equals authservId is trusted. Without a configured authserv-id nothing is
+ * trusted, since a forged header may be the only one present.
+ * The first verdict of each method in that instance is used.
+ * Returns undefined when the header is missing, untrusted or has no recognizable results.
+ */
+export function parseAuthenticationResults(header: string | null, authservId?: string): EmailAuthResults | undefined {
+  const expectedId = authservId?.trim().toLowerCase();
+  if (!header || !expectedId) {
+    return undefined;
+  }
+
+  const trusted = splitAuthenticationResults(header).find(
+    (instance) => instance.split(';')[0].trim().split(/\s+/)[0].toLowerCase() === expectedId
+  );
+  if (!trusted) {
+    return undefined;
+  }
+
+  const results: EmailAuthResults = {};
+  const methodRegex = /\b(spf|dkim|dmarc)\s*=\s*([a-z]+)/gi;
+  let match: RegExpExecArray | null;
+  while ((match = methodRegex.exec(trusted)) !== null) {
+    const method = match[1].toLowerCase() as keyof EmailAuthResults;
+    const verdict = match[2].toLowerCase() as AuthVerdict;
+    if (!AUTH_VERDICTS.includes(verdict)) {
+      continue;
+    }
+    if (!results[method]) {
+      results[method] = verdict;
+    }
+  }
+
+  return Object.keys(results).length > 0 ? results : undefined;
+}
+
+/** Cached header list from VPS API, refreshed after WORKER_CONFIG_TTL_MS */
+let cachedForwardHeaders: { headers: string[]; fetchedAt: number } | null = null;
+
+/**
+ * Reset the worker config cache (for testing purposes)
+ */
+export function resetWorkerConfigCache(): void {
+  cachedForwardHeaders = null;
+}
+
+/**
+ * Get the headers this worker should forward in its webhook payload
+ * Fetched from VPS API and cached; on failure the previous list (or none) is reused
+ * until the next refresh so an unreachable VPS doesn't delay every email
+ */
+export async function getForwardHeaders(env: Env): Promise<string[]> {
+  const now = Date.now();
+  if (cachedForwardHeaders && now - cachedForwardHeaders.fetchedAt < WORKER_CONFIG_TTL_MS) {
+    return cachedForwardHeaders.headers;
+  }
+
+  const previous = cachedForwardHeaders?.headers ?? [];
+  cachedForwardHeaders = { headers: previous, fetchedAt: now };
+
+  const baseUrl = getVpsApiBaseUrl(env);
+  if (!baseUrl) {
+    return previous;
+  }
+
+  const configUrl = `${baseUrl}/api/webhook/config?workerName=${encodeURIComponent(env.WORKER_NAME || '')}`;
+  try {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), WORKER_CONFIG_TIMEOUT_MS);
+
+    const response = await fetch(configUrl, {
+      method: 'GET',
+      headers: {
+        'Authorization': `Bearer ${env.VPS_API_TOKEN}`,
+        'Connection': 'keep-alive', // Requirements: 11.1 - HTTP keep-alive
+      },
+      signal: controller.signal,
+    });
+
+    clearTimeout(timeoutId);
+
+    if (!response.ok) {
+      console.error(`Worker config API returned ${response.status}`);
+      return previous;
+    }
+
+    const config = await response.json() as WorkerConfigResponse;
+    const headers = Array.isArray(config.forwardHeaders) ? config.forwardHeaders : [];
+    cachedForwardHeaders = { headers, fetchedAt: now };
+    debugLog(env, () => `[DEBUG] Forward headers: ${headers.join(', ') || '(none)'}`);
+    return headers;
+  } catch (error: any) {
+    console.error(`Worker config fetch error (non-blocking): ${error.message || error}`);
+    return previous;
+  }
+}
+
 /**
  * Extract sender email from the "from" header
  * Handles formats like "Name <email@example.com>" or plain "email@example.com"
@@ -507,6 +694,89 @@ async function getFilterDecision(
   }
 }
 
+/** A forward destination that could not be delivered */
+interface ForwardFailure {
+  forwardTo: string;
+  error: string;
+}
+
+/** Report sent to VPS API when some forward destinations failed */
+interface ForwardReportPayload {
+  messageId: string;
+  workerName?: string;
+  from: string;
+  to: string;
+  subject: string;
+  delivered: string[];
+  failures: ForwardFailure[];
+}
+
+/**
+ * Normalize the decision's forward destination(s) into a list
+ * Falls back to the default address when the decision has none
+ */
+export function getForwardDestinations(forwardTo: string | string[] | undefined, defaultForwardTo: string): string[] {
+  const destinations = (Array.isArray(forwardTo) ? forwardTo : [forwardTo])
+    .filter((address): address is string => !!address);
+  return destinations.length > 0 ? [...new Set(destinations)] : [defaultForwardTo];
+}
+
+/**
+ * Forward an email to every destination
+ * A failing destination does not stop delivery to the others
+ */
+export async function forwardToAll(
+  message: Pick<ForwardableEmailMessage, 'forward'>,
+  destinations: string[]
+): Promise<{ delivered: string[]; failures: ForwardFailure[] }> {
+  const delivered: string[] = [];
+  const failures: ForwardFailure[] = [];
+  for (const forwardTo of destinations) {
+    try {
+      await message.forward(forwardTo);
+      delivered.push(forwardTo);
+    } catch (error: any) {
+      failures.push({ forwardTo, error: error?.message || String(error) });
+    }
+  }
+  return { delivered, failures };
+}
+
+/**
+ * Report failed forward destinations to VPS API for logging
+ * Errors are logged but never thrown
+ */
+export async function reportForwardFailures(report: ForwardReportPayload, env: Env): Promise<void> {
+  const baseUrl = getVpsApiBaseUrl(env);
+  if (!baseUrl) {
+    return;
+  }
+
+  try {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), 3000);
+
+    const response = await fetch(`${baseUrl}/api/webhook/forward-report`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${env.VPS_API_TOKEN}`,
+        'Connection': 'keep-alive', // Requirements: 11.1 - HTTP keep-alive
+      },
+      body: JSON.stringify(report),
+      signal: controller.signal,
+    });
+
+    clearTimeout(timeoutId);
+
+    if (!response.ok) {
+      console.error(`Forward report API returned ${response.status}`);
+    }
+  } catch (error) {
+    console.error('Forward report error (non-blocking):', error);
+  }
+}
+
 export default {
   /**
    * HTTP handler for health check endpoint
@@ -620,8 +890,13 @@ export default {
       debugLog(env, `[DEBUG] Message-ID: ${messageId}`);
     }
 
+    // Read only the headers configured for this worker on VPS
+    const forwardHeaders = await getForwardHeaders(env);
+    const headers = forwardHeaders.length > 0 ? extractHeaders(message.headers, forwardHeaders) : undefined;
+    const auth = parseAuthenticationResults(message.headers.get('authentication-results'), env.AUTHSERV_ID);
+
     // Build minimal webhook payload (Requirements: 9.1, 9.2)
-    const payload = buildMinimalPayload(from, to, subject, messageId, env.WORKER_NAME);
+    const payload = buildMinimalPayload(from, to, subject, messageId, env.WORKER_NAME, headers, auth);
 
     // Campaign analytics and signal monitoring are now handled by VPS API
     // in the main webhook endpoint, eliminating redundant API calls
@@ -638,9 +913,29 @@ export default {
 
     // Execute the filter decision
     if (decision.action === 'forward') {
-      const forwardTo = decision.forwardTo || env.DEFAULT_FORWARD_TO;
-      debugLog(env, `[DEBUG] Action: FORWARD to ${forwardTo}`);
-      await message.forward(forwardTo);
+      const destinations = getForwardDestinations(decision.forwardTo, env.DEFAULT_FORWARD_TO);
+      debugLog(env, `[DEBUG] Action: FORWARD to ${destinations.join(', ')}`);
+      const { delivered, failures } = await forwardToAll(message, destinations);
+      if (failures.length > 0) {
+        console.error(`Forward failed for ${failures.map((f) => f.forwardTo).join(', ')}`);
+        await reportForwardFailures({
+          messageId,
+          workerName: env.WORKER_NAME,
+          from,
+          to,
+          subject,
+          delivered,
+          failures,
+        }, env);
+        // Nothing was delivered: fail the message as a single-destination forward would
+        if (delivered.length === 0) {
+          throw new Error(`Forward failed: ${failures[0].error}`);
+        }
+      }
+    } else if (decision.action === 'reject') {
+      const rejectReason = decision.rejectReason || DEFAULT_REJECT_REASON;
+      debugLog(env, `[DEBUG] Action: REJECT (reason: ${rejectReason})`);
+      message.setReject(rejectReason);
     } else {
       debugLog(env, `[DEBUG] Action: DROP (reason: ${decision.reason || 'no reason'})`);
     }
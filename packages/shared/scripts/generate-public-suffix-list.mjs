@@ -0,0 +1,64 @@
+#!/usr/bin/env node
+/**
+ * Regenerate src/utils/public-suffix-list.ts from the Public Suffix List
+ *
+ * Usage:
+ *   node scripts/generate-public-suffix-list.mjs [path-to-public_suffix_list.dat]
+ *
+ * Without a path the list is downloaded from publicsuffix.org.
+ * Only the ICANN section is kept; internationalized rules are added in both
+ * their Unicode and punycode forms, since mail hosts may arrive in either.
+ */
+
+import { readFileSync, writeFileSync } from 'fs';
+import { domainToASCII } from 'url';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+
+const LIST_URL = 'https://publicsuffix.org/list/public_suffix_list.dat';
+const OUTPUT = join(dirname(fileURLToPath(import.meta.url)), '../src/utils/public-suffix-list.ts');
+
+const source = process.argv[2] ? readFileSync(process.argv[2], 'utf-8') : await (await fetch(LIST_URL)).text();
+
+const start = source.indexOf('// ===BEGIN ICANN DOMAINS===');
+const end = source.indexOf('// ===END ICANN DOMAINS===');
+if (start === -1 || end === -1) {
+  throw new Error('ICANN section not found in the list');
+}
+
+const rules = new Set();
+for (const line of source.slice(start, end).split('\n')) {
+  const rule = line.trim().split(/\s/)[0];
+  if (!rule || rule.startsWith('//')) {
+    continue;
+  }
+  rules.add(rule);
+  // Convert label by label so the "*." and "!" markers survive
+  const prefix = rule.startsWith('!') ? '!' : '';
+  const ascii = rule
+    .slice(prefix.length)
+    .split('.')
+    .map((label) => (label === '*' ? label : domainToASCII(label)))
+    .join('.');
+  if (ascii && !ascii.split('.').includes('')) {
+    rules.add(prefix + ascii);
+  }
+}
+
+// Lists downloaded from publicsuffix.org carry a VERSION line; distro copies may not
+const version = source.match(/^\/\/ VERSION: (.+)$/m)?.[1] ?? `retrieved ${new Date().toISOString().slice(0, 10)}`;
+const output = `/**
+ * Public Suffix List rules (ICANN section), generated by scripts/generate-public-suffix-list.mjs
+ * Source: ${LIST_URL} (${version})
+ *
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at https://mozilla.org/MPL/2.0/.
+ */
+
+/** One rule per line, in the list's own syntax ("*." wildcards and "!" exceptions) */
+export const PUBLIC_SUFFIX_RULES = \`${[...rules].join('\n')}\`;
+`;
+
+writeFileSync(OUTPUT, output);
+console.log(`Wrote ${rules.size} rules to ${OUTPUT}`);
@@ -31,15 +31,44 @@ export interface ForwardConfig {
   forwardRules: ForwardRule[]; // Custom forwarding rules based on recipient
 }
 
+/**
+ * Match mode for forward rule recipient patterns
+ */
+export type ForwardMatchMode = 'exact' | 'contains' | 'regex';
+
 /**
  * Custom forwarding rule based on recipient
  */
 export interface ForwardRule {
   id: string;
+  workerId?: string;          // Worker the rule belongs to, undefined for global rules
   recipientPattern: string;   // Pattern to match recipient email
-  matchMode: 'exact' | 'contains' | 'regex';
+  matchMode: ForwardMatchMode;
   forwardTo: string;          // Forwarding address for matched emails
   enabled: boolean;
+  sortOrder: number;          // Evaluation order within the worker, ascending
+}
+
+/**
+ * DTO for creating a forward rule
+ */
+export interface CreateForwardRuleDTO {
+  workerId?: string;
+  recipientPattern: string;
+  matchMode: ForwardMatchMode;
+  forwardTo: string;
+  enabled?: boolean;
+}
+
+/**
+ * DTO for updating a forward rule
+ */
+export interface UpdateForwardRuleDTO {
+  workerId?: string | null;
+  recipientPattern?: string;
+  matchMode?: ForwardMatchMode;
+  forwardTo?: string;
+  enabled?: boolean;
 }
 
 /**
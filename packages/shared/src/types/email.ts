@@ -1,5 +1,28 @@
 import type { RuleCategory } from './filter-rule.js';
 
+/**
+ * Authentication verdict from an Authentication-Results header (RFC 8601)
+ */
+export type AuthVerdict =
+  | 'pass'
+  | 'fail'
+  | 'softfail'
+  | 'neutral'
+  | 'none'
+  | 'policy'
+  | 'temperror'
+  | 'permerror';
+
+/**
+ * SPF/DKIM/DMARC verdicts parsed by the worker
+ * Methods missing from the Authentication-Results header are omitted
+ */
+export interface EmailAuthResults {
+  spf?: AuthVerdict;
+  dkim?: AuthVerdict;
+  dmarc?: AuthVerdict;
+}
+
 /**
  * Incoming email to be processed
  */
@@ -9,6 +32,10 @@ export interface IncomingEmail {
   senderEmail: string;
   subject: string;
   receivedAt: Date;
+  /** Selected email headers, keyed by lowercase header name */
+  headers?: Record<string, string>;
+  /** SPF/DKIM/DMARC verdicts */
+  auth?: EmailAuthResults;
 }
 
 /**
@@ -23,15 +50,28 @@ export interface EmailWebhookPayload {
   timestamp: number;
   /** Worker name for routing to correct configuration */
   workerName?: string;
+  /** Headers the worker is configured to forward, keyed by lowercase header name */
+  headers?: Record<string, string>;
+  /** SPF/DKIM/DMARC verdicts parsed from Authentication-Results */
+  auth?: EmailAuthResults;
 }
 
+/**
+ * Action the worker takes on an email
+ * forward delivers it, drop discards it silently, reject bounces it via SMTP
+ */
+export type FilterAction = 'forward' | 'drop' | 'reject';
+
 /**
  * Filter decision returned from VPS API to Cloudflare Worker
  */
 export interface FilterDecision {
-  action: 'forward' | 'drop';
-  forwardTo?: string;
+  action: FilterAction;
+  /** Forward destination, or a list when the email goes to several addresses */
+  forwardTo?: string | string[];
   reason?: string;
+  /** SMTP rejection reason, set when action is reject */
+  rejectReason?: string;
 }
 
 /**
@@ -5,13 +5,78 @@ export type RuleCategory = 'whitelist' | 'blacklist' | 'dynamic';
 
 /**
  * Match type - what field to match against
+ * recipient/recipientDomain match the envelope recipient (useful for catch-all domains)
+ * header matches a forwarded email header, with the pattern written as "Header-Name: pattern"
+ * spf/dkim/dmarc match the authentication verdict (e.g. "fail"), empty when not reported
  */
-export type MatchType = 'sender' | 'subject' | 'domain';
+export type MatchType =
+  | 'sender'
+  | 'subject'
+  | 'domain'
+  | 'recipient'
+  | 'recipientDomain'
+  | 'header'
+  | 'spf'
+  | 'dkim'
+  | 'dmarc';
 
 /**
  * Match mode - how to perform the match
+ * domainTree matches a domain and all its subdomains
  */
-export type MatchMode = 'exact' | 'contains' | 'startsWith' | 'endsWith' | 'regex';
+export type MatchMode = 'exact' | 'contains' | 'startsWith' | 'endsWith' | 'regex' | 'domainTree';
+
+/**
+ * Logical operator used to combine conditions in a group
+ */
+export type ConditionOperator = 'and' | 'or';
+
+/**
+ * A single field condition - the same triple a simple rule uses
+ */
+export interface RuleCondition {
+  matchType: MatchType;
+  matchMode: MatchMode;
+  pattern: string;
+}
+
+/**
+ * Action taken when a blocking (blacklist/dynamic) rule matches
+ * drop discards silently, reject bounces the message back to the sender with a reason
+ */
+export type RuleAction = 'drop' | 'reject';
+
+/**
+ * Rule mode
+ * active rules decide what happens to an email, shadow rules are only evaluated
+ * to report what they would have done and never change the decision
+ */
+export type RuleMode = 'active' | 'shadow';
+
+/**
+ * A group of conditions combined with AND/OR
+ * Groups can be nested to build arbitrary condition trees
+ */
+export interface RuleConditionGroup {
+  operator: ConditionOperator;
+  conditions: RuleConditionNode[];
+}
+
+/**
+ * A node in a condition tree: either a leaf condition or a nested group
+ */
+export type RuleConditionNode = RuleCondition | RuleConditionGroup;
+
+/**
+ * A weekly window during which a rule is active
+ * days use Date.getDay() numbering (0 = Sunday), start/end are "HH:mm" in the rule's timezone.
+ * A window whose end is not after its start runs past midnight into the next day.
+ */
+export interface RuleTimeWindow {
+  days: number[];
+  start: string;
+  end: string;
+}
 
 /**
  * Filter rule interface
@@ -23,6 +88,40 @@ export interface FilterRule {
   matchType: MatchType;
   matchMode: MatchMode;
   pattern: string;
+  /**
+   * Optional condition tree for compound rules.
+   * When set, it replaces matchType/matchMode/pattern for matching;
+   * those fields then only describe the rule for listing and de-duplication.
+   */
+  conditions?: RuleConditionGroup;
+  /**
+   * Optional NOT-exceptions (blacklist only).
+   * The rule does not match when any exception matches.
+   */
+  exceptions?: RuleConditionNode[];
+  /** Action for blocking rules, defaults to drop */
+  action?: RuleAction;
+  /** SMTP rejection reason sent to the sender when action is reject */
+  rejectReason?: string;
+  /** Destinations for matched email (whitelist only), replacing the default forward address */
+  forwardTo?: string[];
+  /**
+   * Evaluation order within the category, lower values are checked first.
+   * When several rules match, the one with the lowest priority gets the hit.
+   */
+  priority?: number;
+  /** The rule is ignored before this time */
+  activeFrom?: Date;
+  /** The rule is ignored from this time on, and the scheduler disables it once expired */
+  activeUntil?: Date;
+  /** Weekly windows the rule is active in, active at any time when unset */
+  timeWindows?: RuleTimeWindow[];
+  /** IANA timezone the time windows are in, defaults to UTC */
+  timezone?: string;
+  /** Rule mode, defaults to active */
+  mode?: RuleMode;
+  /** Compare normalized text (see normalizeText), so look-alike and invisible characters do not evade the rule */
+  normalize?: boolean;
   tags?: string[];  // Optional tags for organization
   enabled: boolean;
   createdAt: Date;
@@ -38,6 +137,20 @@ export interface CreateRuleDTO {
   matchType: MatchType;
   matchMode: MatchMode;
   pattern: string;
+  conditions?: RuleConditionGroup;
+  exceptions?: RuleConditionNode[];
+  action?: RuleAction;
+  rejectReason?: string;
+  forwardTo?: string[];
+  priority?: number;
+  /** ISO 8601 timestamp */
+  activeFrom?: string;
+  /** ISO 8601 timestamp */
+  activeUntil?: string;
+  timeWindows?: RuleTimeWindow[];
+  timezone?: string;
+  mode?: RuleMode;
+  normalize?: boolean;
   tags?: string[];
   enabled?: boolean;
 }
@@ -50,6 +163,18 @@ export interface UpdateRuleDTO {
   matchType?: MatchType;
   matchMode?: MatchMode;
   pattern?: string;
+  conditions?: RuleConditionGroup | null;
+  exceptions?: RuleConditionNode[] | null;
+  action?: RuleAction;
+  rejectReason?: string | null;
+  forwardTo?: string[] | null;
+  priority?: number;
+  activeFrom?: string | null;
+  activeUntil?: string | null;
+  timeWindows?: RuleTimeWindow[] | null;
+  timezone?: string | null;
+  mode?: RuleMode;
+  normalize?: boolean;
   tags?: string[];
   enabled?: boolean;
 }
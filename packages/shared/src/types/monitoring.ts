@@ -65,6 +65,7 @@ export interface MonitoringRule {
   name: string;                        // Rule name for display
   subjectPattern: string;              // Subject matching pattern
   matchMode: SubjectMatchMode;         // Match mode: 'contains' or 'regex'
+  normalize: boolean;                  // Match against the normalized subject (see normalizeText)
   expectedIntervalMinutes: number;     // Expected appearance interval (minutes)
   deadAfterMinutes: number;            // Death threshold (minutes)
   tags: string[];                      // Tags for categorization
@@ -82,6 +83,7 @@ export interface CreateMonitoringRuleDTO {
   name: string;
   subjectPattern: string;
   matchMode?: SubjectMatchMode;        // Default: 'contains'
+  normalize?: boolean;                 // Default: false
   expectedIntervalMinutes: number;
   deadAfterMinutes: number;
   tags?: string[];
@@ -98,6 +100,7 @@ export interface UpdateMonitoringRuleDTO {
   name?: string;
   subjectPattern?: string;
   matchMode?: SubjectMatchMode;
+  normalize?: boolean;
   expectedIntervalMinutes?: number;
   deadAfterMinutes?: number;
   tags?: string[];
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { getPublicSuffix, getRegistrableDomain, isPublicSuffix, matchesDomainTree } from './domain.js';
+
+describe('Public Suffix Domains', () => {
+  describe('getRegistrableDomain', () => {
+    it('should resolve hosts under single and multi-label suffixes', () => {
+      expect(getRegistrableDomain('shop.com')).toBe('shop.com');
+      expect(getRegistrableDomain('mail.news.shop.com')).toBe('shop.com');
+      expect(getRegistrableDomain('mail.shop.co.uk')).toBe('shop.co.uk');
+      expect(getRegistrableDomain('em.taobao.com.cn')).toBe('taobao.com.cn');
+      expect(getRegistrableDomain('Mail.Shop.COM.')).toBe('shop.com');
+      expect(getRegistrableDomain('promo@mail.shop.com.au')).toBe('shop.com.au');
+    });
+
+    it('should apply wildcard and exception rules', () => {
+      // *.ck with !www.ck
+      expect(getPublicSuffix('shop.foo.ck')).toBe('foo.ck');
+      expect(getRegistrableDomain('mail.shop.foo.ck')).toBe('shop.foo.ck');
+      expect(getRegistrableDomain('mail.www.ck')).toBe('www.ck');
+    });
+
+    it('should handle internationalized suffixes in both forms', () => {
+      expect(getRegistrableDomain('shop.公司.cn')).toBe('shop.公司.cn');
+      expect(getRegistrableDomain('shop.xn--55qx5d.cn')).toBe('shop.xn--55qx5d.cn');
+    });
+
+    it('should treat an unlisted TLD as its own suffix', () => {
+      expect(getPublicSuffix('mail.shop.internal')).toBe('internal');
+      expect(getRegistrableDomain('mail.shop.internal')).toBe('shop.internal');
+    });
+
+    it('should return null for public suffixes and malformed hosts', () => {
+      for (const host of ['com', 'co.uk', 'foo.ck', '', 'shop..com', '.com']) {
+        expect(getRegistrableDomain(host)).toBeNull();
+      }
+      expect(isPublicSuffix('co.uk')).toBe(true);
+      expect(isPublicSuffix('shop.co.uk')).toBe(false);
+      expect(isPublicSuffix('shop..com')).toBe(false);
+    });
+
+    it('should be idempotent and keep the host suffix', () => {
+      const label = fc.stringOf(fc.constantFrom('a', 'b', '1', '-'), { minLength: 1, maxLength: 5 });
+      const suffix = fc.constantFrom('com', 'co.uk', 'com.cn', 'github.io', 'example');
+      fc.assert(
+        fc.property(fc.array(label, { minLength: 1, maxLength: 4 }), suffix, (labels, tld) => {
+          const host = `${labels.join('.')}.${tld}`;
+          const registrable = getRegistrableDomain(host);
+          expect(registrable).not.toBeNull();
+          expect(getRegistrableDomain(registrable!)).toBe(registrable);
+          expect(host === registrable || host.endsWith(`.${registrable}`)).toBe(true);
+        })
+      );
+    });
+  });
+
+  describe('matchesDomainTree', () => {
+    it('should match the domain and its subdomains only', () => {
+      expect(matchesDomainTree('shop.com', 'shop.com')).toBe(true);
+      expect(matchesDomainTree('mail.shop.com', 'shop.com')).toBe(true);
+      expect(matchesDomainTree('promo@a.b.shop.com', 'shop.com')).toBe(true);
+      expect(matchesDomainTree('SHOP.com.', 'Shop.COM')).toBe(true);
+      expect(matchesDomainTree('evilshop.com', 'shop.com')).toBe(false);
+      expect(matchesDomainTree('shop.com.evil.net', 'shop.com')).toBe(false);
+      expect(matchesDomainTree('shop.com', 'mail.shop.com')).toBe(false);
+      expect(matchesDomainTree('shop.com', '')).toBe(false);
+    });
+  });
+});
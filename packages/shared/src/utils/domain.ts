@@ -0,0 +1,112 @@
+/**
+ * Registrable-domain logic backed by the Public Suffix List
+ *
+ * "shop.com" and "shop.co.uk" are registrable domains: one label below a
+ * public suffix ("com", "co.uk"). Filter rules and merchant grouping both use
+ * this to decide what a domain is, so "mail.shop.com" belongs to "shop.com"
+ * while "evilshop.com" does not.
+ */
+
+import { PUBLIC_SUFFIX_RULES } from './public-suffix-list.js';
+
+interface SuffixRules {
+  /** Plain and wildcard ("*.ck") rules */
+  rules: Set<string>;
+  /** Exception rules, without the leading "!" */
+  exceptions: Set<string>;
+}
+
+let suffixRules: SuffixRules | null = null;
+
+/**
+ * Parse the bundled list on first use
+ */
+function getSuffixRules(): SuffixRules {
+  if (!suffixRules) {
+    const rules = new Set<string>();
+    const exceptions = new Set<string>();
+    for (const rule of PUBLIC_SUFFIX_RULES.split('\n')) {
+      if (rule.startsWith('!')) {
+        exceptions.add(rule.slice(1));
+      } else {
+        rules.add(rule);
+      }
+    }
+    suffixRules = { rules, exceptions };
+  }
+  return suffixRules;
+}
+
+/**
+ * Lowercase a host and drop its trailing dot; an email address yields its host part
+ */
+export function normalizeHost(value: string): string {
+  const atIndex = value.lastIndexOf('@');
+  const host = (atIndex === -1 ? value : value.substring(atIndex + 1)).trim().toLowerCase();
+  return host.endsWith('.') ? host.slice(0, -1) : host;
+}
+
+/**
+ * Split a host into labels, returns null for hosts with empty labels
+ */
+function toLabels(host: string): string[] | null {
+  const labels = normalizeHost(host).split('.');
+  return labels.some((label) => label === '') ? null : labels;
+}
+
+/**
+ * Number of trailing labels forming the public suffix
+ * Longest matching rule wins, exceptions beat wildcards, and an unlisted TLD is its own suffix
+ */
+function publicSuffixLength(labels: string[]): number {
+  const { rules, exceptions } = getSuffixRules();
+  for (let i = 0; i < labels.length; i++) {
+    const candidate = labels.slice(i).join('.');
+    if (exceptions.has(candidate)) {
+      return labels.length - i - 1;
+    }
+    if (rules.has(candidate) || (i + 1 < labels.length && rules.has(`*.${labels.slice(i + 1).join('.')}`))) {
+      return labels.length - i;
+    }
+  }
+  return 1;
+}
+
+/**
+ * Public suffix of a host, e.g. "mail.shop.co.uk" -> "co.uk"
+ * Returns null for malformed hosts
+ */
+export function getPublicSuffix(host: string): string | null {
+  const labels = toLabels(host);
+  return labels ? labels.slice(-publicSuffixLength(labels)).join('.') : null;
+}
+
+/**
+ * Registrable domain of a host, e.g. "mail.shop.co.uk" -> "shop.co.uk"
+ * Returns null for public suffixes themselves and malformed hosts
+ */
+export function getRegistrableDomain(host: string): string | null {
+  const labels = toLabels(host);
+  if (!labels) {
+    return null;
+  }
+  const suffixLength = publicSuffixLength(labels);
+  return labels.length > suffixLength ? labels.slice(-suffixLength - 1).join('.') : null;
+}
+
+/**
+ * Check if a host is a public suffix ("com", "co.uk"), which no domain tree may be rooted at
+ */
+export function isPublicSuffix(host: string): boolean {
+  return toLabels(host) !== null && getRegistrableDomain(host) === null;
+}
+
+/**
+ * Check if a host (or an email address's host) is the pattern domain or one of its subdomains
+ * e.g. "shop.com" matches "shop.com" and "mail.shop.com", but not "evilshop.com"
+ */
+export function matchesDomainTree(value: string, pattern: string): boolean {
+  const host = normalizeHost(value);
+  const root = normalizeHost(pattern);
+  return root !== '' && (host === root || host.endsWith(`.${root}`));
+}
@@ -1,2 +1,6 @@
 // Utility exports
 export * from './matcher.js';
+export * from './schedule.js';
+export * from './safe-regex.js';
+export * from './normalize.js';
+export * from './domain.js';
@@ -9,8 +9,22 @@ import {
   matchesRuleWebhook,
   findMatchingRule,
   findMatchingRuleWebhook,
+  matchesConditionWebhook,
+  describeConditions,
+  parseHeaderPattern,
+  findForwardRule,
+  sortRulesByPriority,
 } from './matcher.js';
-import type { FilterRule, IncomingEmail, EmailWebhookPayload, MatchType, MatchMode, RuleCategory } from '../types/index.js';
+import type {
+  FilterRule,
+  IncomingEmail,
+  EmailWebhookPayload,
+  MatchType,
+  MatchMode,
+  RuleCategory,
+  RuleConditionGroup,
+  ForwardRule,
+} from '../types/index.js';
 
 // Arbitraries for generating test data
 const emailArbitrary = fc.record({
@@ -123,6 +137,164 @@ describe('Matcher Utils', () => {
         { numRuns: 100 }
       );
     });
+
+    it('should return to for recipient matchType', () => {
+      fc.assert(
+        fc.property(webhookPayloadArbitrary, (payload) => {
+          expect(getWebhookFieldValue(payload, 'recipient')).toBe(payload.to);
+        }),
+        { numRuns: 100 }
+      );
+    });
+
+    it('should return recipient domain for recipientDomain matchType', () => {
+      fc.assert(
+        fc.property(webhookPayloadArbitrary, (payload) => {
+          expect(getWebhookFieldValue(payload, 'recipientDomain')).toBe(extractDomain(payload.to));
+        }),
+        { numRuns: 100 }
+      );
+    });
+
+    it('should match catch-all aliases by recipient', () => {
+      const payload: EmailWebhookPayload = {
+        from: 'someone@example.org',
+        to: 'test-signup@catchall.example.com',
+        subject: 'Welcome',
+        messageId: 'msg-789',
+        timestamp: Date.now(),
+      };
+      const rule: FilterRule = {
+        id: 'alias-rule',
+        category: 'blacklist',
+        matchType: 'recipient',
+        matchMode: 'regex',
+        pattern: '^test-',
+        enabled: true,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
+      expect(matchesRuleWebhook(payload, rule)).toBe(true);
+      expect(matchesRuleWebhook({ ...payload, to: 'me@catchall.example.com' }, rule)).toBe(false);
+    });
+
+    it('should return the named header for header matchType', () => {
+      const payload: EmailWebhookPayload = {
+        from: 'news@lists.example.org',
+        to: 'me@example.com',
+        subject: 'Weekly digest',
+        messageId: 'msg-901',
+        timestamp: Date.now(),
+        headers: { 'list-id': '<weekly.lists.example.org>' },
+      };
+      expect(getWebhookFieldValue(payload, 'header', 'List-Id')).toBe('<weekly.lists.example.org>');
+      expect(getWebhookFieldValue(payload, 'header', 'Reply-To')).toBe('');
+      expect(getWebhookFieldValue({ ...payload, headers: undefined }, 'header', 'List-Id')).toBe('');
+    });
+  });
+
+  describe('authentication rules', () => {
+    const payload: EmailWebhookPayload = {
+      from: 'billing@bank.example.com',
+      to: 'me@example.com',
+      subject: 'Verify your account',
+      messageId: 'msg-903',
+      timestamp: Date.now(),
+      auth: { spf: 'softfail', dkim: 'none', dmarc: 'fail' },
+    };
+
+    const spoofedProtectedDomain: RuleConditionGroup = {
+      operator: 'and',
+      conditions: [
+        { matchType: 'dmarc', matchMode: 'exact', pattern: 'fail' },
+        {
+          operator: 'or',
+          conditions: [
+            { matchType: 'domain', matchMode: 'endsWith', pattern: 'bank.example.com' },
+            { matchType: 'domain', matchMode: 'exact', pattern: 'paypal.com' },
+          ],
+        },
+      ],
+    };
+
+    it('should return verdicts for spf/dkim/dmarc matchTypes', () => {
+      expect(getWebhookFieldValue(payload, 'spf')).toBe('softfail');
+      expect(getWebhookFieldValue(payload, 'dkim')).toBe('none');
+      expect(getWebhookFieldValue(payload, 'dmarc')).toBe('fail');
+    });
+
+    it('should return empty string when verdicts were not reported', () => {
+      expect(getWebhookFieldValue({ ...payload, auth: undefined }, 'dmarc')).toBe('');
+      expect(getWebhookFieldValue({ ...payload, auth: { spf: 'pass' } }, 'dkim')).toBe('');
+    });
+
+    it('should match dmarc failures from protected domains', () => {
+      expect(matchesConditionWebhook(payload, spoofedProtectedDomain)).toBe(true);
+      expect(matchesConditionWebhook({ ...payload, auth: { dmarc: 'pass' } }, spoofedProtectedDomain)).toBe(false);
+      expect(matchesConditionWebhook({ ...payload, from: 'a@other.com' }, spoofedProtectedDomain)).toBe(false);
+      expect(matchesConditionWebhook({ ...payload, auth: undefined }, spoofedProtectedDomain)).toBe(false);
+    });
+  });
+
+  describe('header rules', () => {
+    const payload: EmailWebhookPayload = {
+      from: 'news@lists.example.org',
+      to: 'me@example.com',
+      subject: 'Weekly digest',
+      messageId: 'msg-902',
+      timestamp: Date.now(),
+      headers: { 'list-id': 'Weekly News <weekly.lists.example.org>', precedence: 'bulk' },
+    };
+
+    function headerRule(pattern: string, matchMode: MatchMode = 'contains'): FilterRule {
+      return {
+        id: 'header-rule',
+        category: 'blacklist',
+        matchType: 'header',
+        matchMode,
+        pattern,
+        enabled: true,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
+    }
+
+    it('should parse header patterns', () => {
+      expect(parseHeaderPattern('List-Id: <weekly.lists.example.org>')).toEqual({
+        headerName: 'list-id',
+        pattern: '<weekly.lists.example.org>',
+      });
+      expect(parseHeaderPattern('X-Mailer:Foo: Bar')).toEqual({ headerName: 'x-mailer', pattern: 'Foo: Bar' });
+      expect(parseHeaderPattern('no header name')).toBeNull();
+      expect(parseHeaderPattern('Bad Name: value')).toBeNull();
+    });
+
+    it('should match on the named header value', () => {
+      expect(matchesRuleWebhook(payload, headerRule('List-Id: weekly.lists.example.org'))).toBe(true);
+      expect(matchesRuleWebhook(payload, headerRule('list-id: other.example.org'))).toBe(false);
+      expect(matchesRuleWebhook(payload, headerRule('Precedence: bulk', 'exact'))).toBe(true);
+    });
+
+    it('should not match when the header was not forwarded', () => {
+      expect(matchesRuleWebhook(payload, headerRule('Reply-To: example'))).toBe(false);
+      expect(matchesRuleWebhook({ ...payload, headers: undefined }, headerRule('List-Id: weekly'))).toBe(false);
+    });
+
+    it('should not match malformed header patterns', () => {
+      expect(matchesRuleWebhook(payload, headerRule('weekly.lists.example.org'))).toBe(false);
+    });
+
+    it('should support header conditions in compound rules', () => {
+      const conditions: RuleConditionGroup = {
+        operator: 'and',
+        conditions: [
+          { matchType: 'header', matchMode: 'contains', pattern: 'List-Id: weekly' },
+          { matchType: 'subject', matchMode: 'contains', pattern: 'digest' },
+        ],
+      };
+      expect(matchesConditionWebhook(payload, conditions)).toBe(true);
+      expect(matchesConditionWebhook({ ...payload, subject: 'Hello' }, conditions)).toBe(false);
+    });
   });
 
 
@@ -327,6 +499,20 @@ describe('Matcher Utils', () => {
         );
       });
     });
+
+    describe('domainTree mode', () => {
+      it('should match the domain and its subdomains in senders and domains', () => {
+        expect(matchPattern('promo@mail.shop.com', 'shop.com', 'domainTree')).toBe(true);
+        expect(matchPattern('mail.shop.com', 'shop.com', 'domainTree')).toBe(true);
+        expect(matchPattern('shop.com', 'Shop.com', 'domainTree')).toBe(true);
+      });
+
+      it('should NOT match look-alike registrations', () => {
+        expect(matchPattern('evilshop.com', 'shop.com', 'domainTree')).toBe(false);
+        expect(matchPattern('shop.com.evil.net', 'shop.com', 'domainTree')).toBe(false);
+        expect(matchPattern('evilshop.com', 'shop.com', 'endsWith')).toBe(true);
+      });
+    });
   });
 
 
@@ -572,4 +758,199 @@ describe('Matcher Utils', () => {
       expect(result.rule?.id).toBe('rule-1');
     });
   });
+
+  describe('compound rules', () => {
+    const payload: EmailWebhookPayload = {
+      from: 'orders@mail.shop.com',
+      to: 'user@example.com',
+      subject: 'Your order has shipped',
+      messageId: 'msg-456',
+      timestamp: Date.now(),
+    };
+
+    const shopOrders: RuleConditionGroup = {
+      operator: 'and',
+      conditions: [
+        { matchType: 'domain', matchMode: 'endsWith', pattern: 'shop.com' },
+        { matchType: 'subject', matchMode: 'contains', pattern: 'order' },
+      ],
+    };
+
+    function compoundRule(overrides: Partial<FilterRule>): FilterRule {
+      return {
+        id: 'compound-rule',
+        category: 'blacklist',
+        matchType: 'domain',
+        matchMode: 'endsWith',
+        pattern: 'unused',
+        enabled: true,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        ...overrides,
+      };
+    }
+
+    it('should require every condition of an AND group', () => {
+      expect(matchesConditionWebhook(payload, shopOrders)).toBe(true);
+      expect(matchesConditionWebhook({ ...payload, subject: 'Weekly newsletter' }, shopOrders)).toBe(false);
+    });
+
+    it('should require at least one condition of an OR group', () => {
+      const senders: RuleConditionGroup = {
+        operator: 'or',
+        conditions: [
+          { matchType: 'sender', matchMode: 'exact', pattern: 'a@example.com' },
+          { matchType: 'sender', matchMode: 'exact', pattern: 'orders@mail.shop.com' },
+        ],
+      };
+      expect(matchesConditionWebhook(payload, senders)).toBe(true);
+      expect(matchesConditionWebhook({ ...payload, from: 'b@example.com' }, senders)).toBe(false);
+    });
+
+    it('should evaluate nested groups', () => {
+      const nested: RuleConditionGroup = {
+        operator: 'and',
+        conditions: [
+          { matchType: 'domain', matchMode: 'endsWith', pattern: 'shop.com' },
+          {
+            operator: 'or',
+            conditions: [
+              { matchType: 'subject', matchMode: 'contains', pattern: 'invoice' },
+              { matchType: 'subject', matchMode: 'contains', pattern: 'shipped' },
+            ],
+          },
+        ],
+      };
+      expect(matchesConditionWebhook(payload, nested)).toBe(true);
+      expect(describeConditions(nested)).toBe(
+        'domain endsWith shop.com AND (subject contains invoice OR subject contains shipped)'
+      );
+    });
+
+    it('should use the condition tree instead of the single pattern', () => {
+      const rule = compoundRule({ conditions: shopOrders });
+      expect(matchesRuleWebhook(payload, rule)).toBe(true);
+      expect(matchesRuleWebhook({ ...payload, subject: 'Hello' }, rule)).toBe(false);
+    });
+
+    it('should not match when an exception matches', () => {
+      const rule = compoundRule({
+        matchType: 'domain',
+        matchMode: 'endsWith',
+        pattern: 'shop.com',
+        exceptions: [{ matchType: 'subject', matchMode: 'contains', pattern: 'shipped' }],
+      });
+      expect(matchesRuleWebhook(payload, rule)).toBe(false);
+      expect(matchesRuleWebhook({ ...payload, subject: 'Big sale' }, rule)).toBe(true);
+    });
+
+    it('should keep single-condition rules unchanged', () => {
+      fc.assert(
+        fc.property(webhookPayloadArbitrary, ruleArbitrary, (p, rule) => {
+          const expected = rule.enabled && matchPattern(getWebhookFieldValue(p, rule.matchType), rule.pattern, rule.matchMode);
+          expect(matchesRuleWebhook(p, rule)).toBe(expected);
+        }),
+        { numRuns: 100 }
+      );
+    });
+  });
+
+  describe('normalized rules', () => {
+    const payload = (subject: string): EmailWebhookPayload => ({
+      from: 'promo@shop.com',
+      to: 'user@example.com',
+      subject,
+      messageId: 'msg-1',
+      timestamp: 0,
+    });
+    const rule = (overrides: Partial<FilterRule>): FilterRule => ({
+      id: 'n1',
+      category: 'blacklist',
+      matchType: 'subject',
+      matchMode: 'contains',
+      pattern: 'free gift',
+      enabled: true,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      ...overrides,
+    });
+    const evasive = '🎁 Ｆrее\u200B gіft   inside';
+
+    it('should only match evasive variants when the rule opts in', () => {
+      expect(matchesRuleWebhook(payload(evasive), rule({}))).toBe(false);
+      expect(matchesRuleWebhook(payload(evasive), rule({ normalize: true }))).toBe(true);
+      expect(matchesRuleWebhook(payload(evasive), rule({ normalize: true, matchMode: 'regex', pattern: '^free gift\\b' }))).toBe(true);
+    });
+
+    it('should normalize conditions and exceptions of compound rules', () => {
+      const compound = rule({
+        normalize: true,
+        conditions: { operator: 'and', conditions: [{ matchType: 'subject', matchMode: 'startsWith', pattern: 'Free  Gift' }] },
+        exceptions: [{ matchType: 'subject', matchMode: 'endsWith', pattern: 'ѕhipped' }],
+      });
+      expect(matchesRuleWebhook(payload(evasive), compound)).toBe(true);
+      expect(matchesRuleWebhook(payload('Frее gift shipped'), compound)).toBe(false);
+    });
+
+    it('should leave plain ASCII matching unchanged', () => {
+      fc.assert(
+        fc.property(fc.stringOf(fc.constantFrom('a', 'B', 'c', '.', '1'), { maxLength: 8 }), fc.stringOf(fc.constantFrom('a', 'B', 'c', '.', '1'), { maxLength: 4 }), matchModeArbitrary, (value, pattern, mode) => {
+          expect(matchPattern(value, pattern, mode, true)).toBe(matchPattern(value, pattern, mode));
+        })
+      );
+    });
+  });
+
+  describe('findForwardRule', () => {
+    const forwardRule = (overrides: Partial<ForwardRule>): ForwardRule => ({
+      id: 'fr',
+      recipientPattern: 'kids@family.com',
+      matchMode: 'exact',
+      forwardTo: 'parent@gmail.com',
+      enabled: true,
+      sortOrder: 0,
+      ...overrides,
+    });
+
+    it('should return the first matching rule in order', () => {
+      const rules = [
+        forwardRule({ id: 'a', recipientPattern: 'shop', matchMode: 'contains', forwardTo: 'shop@gmail.com' }),
+        forwardRule({ id: 'b', recipientPattern: '^shop-.*@family\\.com$', matchMode: 'regex' }),
+      ];
+      expect(findForwardRule('shop-mum@family.com', rules)?.id).toBe('a');
+      expect(findForwardRule('shop-mum@family.com', rules.slice().reverse())?.id).toBe('b');
+    });
+
+    it('should match exact patterns case-insensitively', () => {
+      expect(findForwardRule('Kids@Family.com', [forwardRule({})])?.id).toBe('fr');
+      expect(findForwardRule('kids2@family.com', [forwardRule({})])).toBeUndefined();
+    });
+
+    it('should skip disabled rules', () => {
+      const rules = [forwardRule({ id: 'off', enabled: false }), forwardRule({ id: 'on', matchMode: 'contains', recipientPattern: '@family.com' })];
+      expect(findForwardRule('kids@family.com', rules)?.id).toBe('on');
+    });
+  });
+
+  describe('sortRulesByPriority', () => {
+    it('should order rules by ascending priority and keep ties stable', () => {
+      fc.assert(
+        fc.property(fc.array(fc.tuple(ruleArbitrary, fc.option(fc.integer({ min: 0, max: 5 }), { nil: undefined }))), (pairs) => {
+          const rules = pairs.map(([rule, priority], index) => ({ ...rule, id: String(index), priority }));
+          const sorted = sortRulesByPriority(rules);
+
+          expect(sorted).toHaveLength(rules.length);
+          for (let i = 1; i < sorted.length; i++) {
+            const prev = sorted[i - 1].priority ?? 0;
+            const curr = sorted[i].priority ?? 0;
+            expect(prev).toBeLessThanOrEqual(curr);
+            if (prev === curr) {
+              expect(Number(sorted[i - 1].id)).toBeLessThan(Number(sorted[i].id));
+            }
+          }
+        }),
+        { numRuns: 100 }
+      );
+    });
+  });
 });
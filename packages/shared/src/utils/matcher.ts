@@ -1,4 +1,17 @@
-import type { FilterRule, MatchType, MatchMode, IncomingEmail, EmailWebhookPayload } from '../types/index.js';
+import type {
+  FilterRule,
+  MatchType,
+  MatchMode,
+  IncomingEmail,
+  EmailWebhookPayload,
+  RuleCondition,
+  RuleConditionGroup,
+  RuleConditionNode,
+  ForwardRule,
+} from '../types/index.js';
+import { testRegex } from './safe-regex.js';
+import { normalizeText } from './normalize.js';
+import { matchesDomainTree } from './domain.js';
 
 /**
  * Extract domain from email address
@@ -11,10 +24,49 @@ export function extractDomain(email: string): string {
   return email.substring(atIndex + 1).toLowerCase();
 }
 
+/**
+ * Valid email header field name (RFC 5322 token characters)
+ */
+const HEADER_NAME_REGEX = /^[A-Za-z0-9!#$%&'*+.^_`|~-]+$/;
+
+/**
+ * Check if a string is a valid email header name
+ */
+export function isValidHeaderName(name: string): boolean {
+  return HEADER_NAME_REGEX.test(name);
+}
+
+/**
+ * Split a header rule pattern ("List-Id: pattern") into its header name and value pattern
+ * The header name is lowercased; returns null when the pattern has no valid header name
+ */
+export function parseHeaderPattern(pattern: string): { headerName: string; pattern: string } | null {
+  const colonIndex = pattern.indexOf(':');
+  if (colonIndex === -1) {
+    return null;
+  }
+  const headerName = pattern.substring(0, colonIndex).trim();
+  if (!isValidHeaderName(headerName)) {
+    return null;
+  }
+  return { headerName: headerName.toLowerCase(), pattern: pattern.substring(colonIndex + 1).trim() };
+}
+
+/**
+ * Look up a header value case-insensitively, returns empty string when absent
+ */
+function getHeaderValue(headers: Record<string, string> | undefined, headerName: string | undefined): string {
+  if (!headers || !headerName) {
+    return '';
+  }
+  return headers[headerName.toLowerCase()] ?? '';
+}
+
 /**
  * Get the value from email based on matchType
+ * For the header matchType, headerName selects which header to read
  */
-export function getEmailFieldValue(email: IncomingEmail, matchType: MatchType): string {
+export function getEmailFieldValue(email: IncomingEmail, matchType: MatchType, headerName?: string): string {
   switch (matchType) {
     case 'sender':
       return email.sender;
@@ -22,6 +74,16 @@ export function getEmailFieldValue(email: IncomingEmail, matchType: MatchType):
       return email.subject;
     case 'domain':
       return extractDomain(email.senderEmail);
+    case 'recipient':
+      return email.recipient;
+    case 'recipientDomain':
+      return extractDomain(email.recipient);
+    case 'header':
+      return getHeaderValue(email.headers, headerName);
+    case 'spf':
+    case 'dkim':
+    case 'dmarc':
+      return email.auth?.[matchType] ?? '';
     default:
       // Exhaustive check
       const _exhaustive: never = matchType;
@@ -31,8 +93,9 @@ export function getEmailFieldValue(email: IncomingEmail, matchType: MatchType):
 
 /**
  * Get the value from webhook payload based on matchType
+ * For the header matchType, headerName selects which header to read
  */
-export function getWebhookFieldValue(payload: EmailWebhookPayload, matchType: MatchType): string {
+export function getWebhookFieldValue(payload: EmailWebhookPayload, matchType: MatchType, headerName?: string): string {
   switch (matchType) {
     case 'sender':
       return payload.from;
@@ -40,6 +103,16 @@ export function getWebhookFieldValue(payload: EmailWebhookPayload, matchType: Ma
       return payload.subject;
     case 'domain':
       return extractDomain(payload.from);
+    case 'recipient':
+      return payload.to;
+    case 'recipientDomain':
+      return extractDomain(payload.to);
+    case 'header':
+      return getHeaderValue(payload.headers, headerName);
+    case 'spf':
+    case 'dkim':
+    case 'dmarc':
+      return payload.auth?.[matchType] ?? '';
     default:
       // Exhaustive check
       const _exhaustive: never = matchType;
@@ -49,8 +122,16 @@ export function getWebhookFieldValue(payload: EmailWebhookPayload, matchType: Ma
 
 /**
  * Check if a value matches a pattern using the specified match mode
+ * With normalize, the value is compared in its normalizeText form, and so is
+ * the pattern unless it is a regex
  */
-export function matchPattern(value: string, pattern: string, matchMode: MatchMode): boolean {
+export function matchPattern(value: string, pattern: string, matchMode: MatchMode, normalize = false): boolean {
+  if (normalize) {
+    value = normalizeText(value);
+    if (matchMode !== 'regex') {
+      pattern = normalizeText(pattern);
+    }
+  }
   const lowerValue = value.toLowerCase();
   const lowerPattern = pattern.toLowerCase();
   
@@ -63,14 +144,11 @@ export function matchPattern(value: string, pattern: string, matchMode: MatchMod
       return lowerValue.startsWith(lowerPattern);
     case 'endsWith':
       return lowerValue.endsWith(lowerPattern);
+    case 'domainTree':
+      return matchesDomainTree(lowerValue, lowerPattern);
     case 'regex':
-      try {
-        const regex = new RegExp(pattern, 'i');
-        return regex.test(value);
-      } catch {
-        // Invalid regex pattern - return false
-        return false;
-      }
+      // Linear-time engine (native for legacy unsupported patterns); invalid patterns never match
+      return testRegex(pattern, value);
     default:
       // Exhaustive check
       const _exhaustive: never = matchMode;
@@ -78,6 +156,114 @@ export function matchPattern(value: string, pattern: string, matchMode: MatchMod
   }
 }
 
+/**
+ * Check if a condition tree node is a group (as opposed to a leaf condition)
+ */
+export function isConditionGroup(node: RuleConditionNode): node is RuleConditionGroup {
+  return Array.isArray((node as RuleConditionGroup).conditions);
+}
+
+/**
+ * Collect the leaf conditions of a condition tree
+ */
+export function conditionLeaves(node: RuleConditionNode): RuleCondition[] {
+  return isConditionGroup(node) ? node.conditions.flatMap(conditionLeaves) : [node];
+}
+
+/**
+ * Resolves the value of a field; headerName is only used by the header matchType
+ */
+type FieldValueResolver = (matchType: MatchType, headerName?: string) => string;
+
+/**
+ * Match a single matchType/matchMode/pattern triple using a field value resolver
+ * Header patterns are split into the header name and the pattern applied to its value
+ */
+function matchField(
+  matchType: MatchType,
+  matchMode: MatchMode,
+  pattern: string,
+  getValue: FieldValueResolver,
+  normalize = false
+): boolean {
+  if (matchType === 'header') {
+    const parsed = parseHeaderPattern(pattern);
+    if (!parsed) {
+      return false;
+    }
+    return matchPattern(getValue(matchType, parsed.headerName), parsed.pattern, matchMode, normalize);
+  }
+  return matchPattern(getValue(matchType), pattern, matchMode, normalize);
+}
+
+/**
+ * Evaluate a condition tree node using a field value resolver
+ * AND groups require every child to match, OR groups require at least one
+ */
+function evaluateConditionNode(node: RuleConditionNode, getValue: FieldValueResolver, normalize = false): boolean {
+  if (isConditionGroup(node)) {
+    if (node.operator === 'and') {
+      return node.conditions.every((child) => evaluateConditionNode(child, getValue, normalize));
+    }
+    return node.conditions.some((child) => evaluateConditionNode(child, getValue, normalize));
+  }
+  return matchField(node.matchType, node.matchMode, node.pattern, getValue, normalize);
+}
+
+/**
+ * Check if an email matches a condition tree node
+ */
+export function matchesCondition(email: IncomingEmail, node: RuleConditionNode, normalize = false): boolean {
+  return evaluateConditionNode(node, (matchType, headerName) => getEmailFieldValue(email, matchType, headerName), normalize);
+}
+
+/**
+ * Check if a webhook payload matches a condition tree node
+ */
+export function matchesConditionWebhook(payload: EmailWebhookPayload, node: RuleConditionNode, normalize = false): boolean {
+  return evaluateConditionNode(
+    node,
+    (matchType, headerName) => getWebhookFieldValue(payload, matchType, headerName),
+    normalize
+  );
+}
+
+/**
+ * Build a human-readable description of a condition tree
+ * e.g. "domain endsWith shop.com AND subject contains order"
+ * Nested groups are wrapped in parentheses
+ */
+export function describeConditions(node: RuleConditionNode): string {
+  if (!isConditionGroup(node)) {
+    return `${node.matchType} ${node.matchMode} ${node.pattern}`;
+  }
+  const joiner = node.operator === 'and' ? ' AND ' : ' OR ';
+  return node.conditions
+    .map((child) => (isConditionGroup(child) ? `(${describeConditions(child)})` : describeConditions(child)))
+    .join(joiner);
+}
+
+/**
+ * Evaluate a rule's match logic using a field value resolver
+ * Compound rules use their condition tree, simple rules use matchType/matchMode/pattern.
+ * Any matching exception cancels the match. Rules with normalize compare normalized text throughout.
+ */
+function evaluateRule(rule: FilterRule, getValue: FieldValueResolver): boolean {
+  const normalize = rule.normalize ?? false;
+  const matched = rule.conditions
+    ? evaluateConditionNode(rule.conditions, getValue, normalize)
+    : matchField(rule.matchType, rule.matchMode, rule.pattern, getValue, normalize);
+  if (!matched) {
+    return false;
+  }
+
+  if (rule.exceptions && rule.exceptions.some((exception) => evaluateConditionNode(exception, getValue, normalize))) {
+    return false;
+  }
+
+  return true;
+}
+
 /**
  * Check if an email matches a filter rule
  * Returns true if the email matches the rule's criteria
@@ -88,8 +274,7 @@ export function matchesRule(email: IncomingEmail, rule: FilterRule): boolean {
     return false;
   }
 
-  const fieldValue = getEmailFieldValue(email, rule.matchType);
-  return matchPattern(fieldValue, rule.pattern, rule.matchMode);
+  return evaluateRule(rule, (matchType, headerName) => getEmailFieldValue(email, matchType, headerName));
 }
 
 /**
@@ -102,8 +287,23 @@ export function matchesRuleWebhook(payload: EmailWebhookPayload, rule: FilterRul
     return false;
   }
 
-  const fieldValue = getWebhookFieldValue(payload, rule.matchType);
-  return matchPattern(fieldValue, rule.pattern, rule.matchMode);
+  return evaluateRule(rule, (matchType, headerName) => getWebhookFieldValue(payload, matchType, headerName));
+}
+
+/**
+ * Compare two rules by evaluation order (lower priority first)
+ * Rules without a priority are treated as priority 0
+ */
+export function compareRulePriority(a: FilterRule, b: FilterRule): number {
+  return (a.priority ?? 0) - (b.priority ?? 0);
+}
+
+/**
+ * Sort rules into evaluation order without modifying the input
+ * The sort is stable, so rules with equal priority keep their relative order
+ */
+export function sortRulesByPriority<T extends FilterRule>(rules: T[]): T[] {
+  return [...rules].sort(compareRulePriority);
 }
 
 /**
@@ -139,3 +339,13 @@ export function findMatchingRuleWebhook(payload: EmailWebhookPayload, rules: Fil
   }
   return { matched: false };
 }
+
+/**
+ * Find the first enabled forward rule whose pattern matches the recipient
+ * Rules are evaluated in the given order; returns undefined if none match
+ */
+export function findForwardRule(recipient: string, forwardRules: ForwardRule[]): ForwardRule | undefined {
+  return forwardRules.find(
+    (rule) => rule.enabled && matchPattern(recipient, rule.recipientPattern, rule.matchMode)
+  );
+}
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { normalizeText, foldConfusables, stripInvisible } from './normalize.js';
+
+describe('Text Normalization', () => {
+  describe('normalizeText', () => {
+    it('should fold evasive subject variants onto the same text', () => {
+      const variants = [
+        'Free Sale',
+        'Ｆｒｅｅ\u3000Ｓａｌｅ',
+        'Fr\u200Bee\u200D S\u00ADale',
+        'Frее Ѕаlе',
+        '🔥🔥 Free   Sale 🔥',
+        '\u{1D405}\u{1D42B}\u{1D41E}\u{1D41E} Sale',
+        'Free\tSale\uFE0F',
+      ];
+      for (const variant of variants) {
+        expect(normalizeText(variant)).toBe('Free Sale');
+      }
+    });
+
+    it('should keep plain text and letter case unchanged', () => {
+      fc.assert(
+        fc.property(fc.stringOf(fc.constantFrom('a', 'Z', '1', '#', '.', '@'), { maxLength: 20 }), (words) => {
+          expect(normalizeText(words)).toBe(words);
+        })
+      );
+      expect(normalizeText('Ihr Bestellstatus: Größe 42')).toBe('Ihr Bestellstatus: Größe 42');
+    });
+
+    it('should be idempotent', () => {
+      fc.assert(
+        fc.property(fc.fullUnicodeString({ maxLength: 20 }), (value) => {
+          const normalized = normalizeText(value);
+          expect(normalizeText(normalized)).toBe(normalized);
+        }),
+        { numRuns: 500 }
+      );
+    });
+  });
+
+  describe('foldConfusables', () => {
+    it('should map Cyrillic and Greek look-alikes to Latin', () => {
+      expect(foldConfusables('РаураІ')).toBe('PaypaI');
+      expect(foldConfusables('ΑΡΡΛΕ')).toBe('APPΛE');
+    });
+  });
+
+  describe('stripInvisible', () => {
+    it('should remove zero-width characters, bidi controls and emoji', () => {
+      expect(stripInvisible('a\u200Bb\u2060c\u202Ed\uFEFF')).toBe('abcd');
+      expect(stripInvisible('👍🏽 ok 🇺🇸')).toBe(' ok ');
+    });
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Text normalization for homoglyph-resistant matching
+ *
+ * Spam subjects dodge plain contains/exact rules with fullwidth letters,
+ * zero-width characters, look-alike Cyrillic/Greek letters and emoji padding.
+ * normalizeText folds all of these onto a canonical form:
+ *   1. NFKC (fullwidth, mathematical and circled letters, ligatures)
+ *   2. strip invisible characters and emoji
+ *   3. fold confusable letters onto their Latin look-alikes
+ *   4. collapse whitespace runs into one space and trim
+ * Letter case is kept, so plain ASCII text normalizes to itself.
+ */
+
+/**
+ * Zero-width and formatting characters, bidi controls, fillers, variation selectors
+ * and tag characters (all default-ignorable), emoji with their modifiers,
+ * regional indicators and the keycap mark
+ */
+const INVISIBLE_REGEX =
+  /\p{Default_Ignorable_Code_Point}|\p{Extended_Pictographic}|\p{Emoji_Modifier}|\p{Regional_Indicator}|\u20E3/gu;
+
+const WHITESPACE_REGEX = /\s+/g;
+
+/**
+ * Letters that render like a Latin letter, paired with that Latin letter
+ * Each entry is "<look-alikes><latin>"; NFKC already handles fullwidth and
+ * mathematical forms, so only letters from other scripts are listed
+ */
+const CONFUSABLE_GROUPS = [
+  // Lowercase
+  'аɑαa', 'Ьb', 'сϲc', 'ԁd', 'еєe', 'ɡg', 'һh', 'іıιi', 'јϳj', 'кκk', 'ӏl', 'ոn', 'оοo', 'рρp', 'ԛq',
+  'ѕs', 'υu', 'νѵv', 'ԝw', 'хχx', 'уүy',
+  // Uppercase
+  'АΑA', 'ВΒB', 'СϹC', 'ЕΕE', 'ԌG', 'НΗH', 'ІΙӀI', 'ЈJ', 'КΚK', 'МΜM', 'ΝN', 'ОΟO', 'РΡP', 'ԚQ',
+  'ЅS', 'ТΤT', 'ԜW', 'ХΧX', 'УҮΥY', 'ΖZ',
+];
+
+const CONFUSABLES = new Map<string, string>();
+for (const group of CONFUSABLE_GROUPS) {
+  const latin = group[group.length - 1];
+  for (const char of group.slice(0, -1)) {
+    CONFUSABLES.set(char, latin);
+  }
+}
+
+const CONFUSABLE_REGEX = new RegExp(`[${[...CONFUSABLES.keys()].join('')}]`, 'g');
+
+/**
+ * Replace confusable letters with their Latin look-alikes
+ */
+export function foldConfusables(value: string): string {
+  return value.replace(CONFUSABLE_REGEX, (char) => CONFUSABLES.get(char) ?? char);
+}
+
+/**
+ * Remove invisible characters and emoji
+ */
+export function stripInvisible(value: string): string {
+  return value.replace(INVISIBLE_REGEX, '');
+}
+
+/**
+ * Normalize text for homoglyph-resistant matching and grouping
+ * e.g. "Ｆree ѕale 🔥" (fullwidth F, Cyrillic ѕ) -> "Free sale"
+ */
+export function normalizeText(value: string): string {
+  return foldConfusables(stripInvisible(value.normalize('NFKC'))).replace(WHITESPACE_REGEX, ' ').trim();
+}
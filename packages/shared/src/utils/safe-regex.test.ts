@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { SafeRegex, analyzeRegex, compileRegex, testRegex, UnsupportedRegexError, MAX_REGEX_PROGRAM_SIZE } from './safe-regex.js';
+
+// Regex fragments combined into random patterns, covering the supported syntax
+const atomArbitrary = fc.constantFrom(
+  'a', 'B', 'k', '1', '.', '\\.', '\\d', '\\W', '\\s', '\\w', '[a-c]', '[^b]', '[\\d_]', '[K-M]', '(?:ab|c)', '(x|y)', '\\u0041', '\\x62', ' '
+);
+const quantifierArbitrary = fc.constantFrom('', '', '*', '+', '?', '{2}', '{1,3}', '{2,}', '*?', '+?');
+const patternArbitrary = fc
+  .tuple(
+    fc.constantFrom('', '^', '\\b'),
+    fc.array(fc.tuple(atomArbitrary, quantifierArbitrary).map(([atom, quantifier]) => atom + quantifier), { minLength: 1, maxLength: 5 }),
+    fc.constantFrom('', '$', '\\b', '|b')
+  )
+  .map(([start, items, end]) => start + items.join('') + end);
+const subjectArbitrary = fc.stringOf(fc.constantFrom('a', 'A', 'b', 'c', 'k', 'K', 'x', 'y', '1', '2', '.', '_', ' ', 'ſ', 'K', '\n'), { maxLength: 12 });
+
+describe('Safe Regex', () => {
+  describe('SafeRegex', () => {
+    it('should agree with case-insensitive RegExp on supported patterns', () => {
+      fc.assert(
+        fc.property(patternArbitrary, subjectArbitrary, (pattern, subject) => {
+          expect(new SafeRegex(pattern).test(subject)).toBe(new RegExp(pattern, 'i').test(subject));
+        }),
+        { numRuns: 2000 }
+      );
+    });
+
+    it('should run catastrophic patterns in linear time', () => {
+      const start = performance.now();
+      expect(new SafeRegex('^(a+)+$').test('a'.repeat(5000) + '!')).toBe(false);
+      expect(new SafeRegex('(a|aa)*b').test('a'.repeat(5000))).toBe(false);
+      expect(new SafeRegex('(.*a){12}').test('a'.repeat(2000))).toBe(true);
+      expect(performance.now() - start).toBeLessThan(2000);
+    });
+
+    it('should keep matching large accepted patterns on long values', () => {
+      const pattern = '\\w{1,200}\\w{1,200}x';
+      const value = 'a'.repeat(300) + 'x';
+      expect(analyzeRegex(pattern).safe).toBe(true);
+      expect(new RegExp(pattern, 'i').test(value)).toBe(true);
+      expect(new SafeRegex(pattern).test(value)).toBe(true);
+      expect(testRegex(pattern, 'b' + value)).toBe(true);
+    });
+
+    it('should throw for invalid and unsupported patterns', () => {
+      expect(() => new SafeRegex('[')).toThrow(SyntaxError);
+      expect(() => new SafeRegex('(a)\\1')).toThrow(UnsupportedRegexError);
+      expect(() => new SafeRegex('a(?=b)')).toThrow(UnsupportedRegexError);
+      expect(() => new SafeRegex('(?<!a)b')).toThrow(UnsupportedRegexError);
+      expect(() => new SafeRegex(`a{${MAX_REGEX_PROGRAM_SIZE}}`)).toThrow('Pattern is too large');
+    });
+
+    it('should support named groups and special classes', () => {
+      expect(new SafeRegex('(?<id>\\d+)-x').test('order 42-X')).toBe(true);
+      expect(new SafeRegex('[]').test('anything')).toBe(false);
+      expect(new SafeRegex('^[^]$').test('\n')).toBe(true);
+      expect(new SafeRegex('a{,2}').test('a{,2}')).toBe(true);
+    });
+  });
+
+  describe('testRegex', () => {
+    it('should never match invalid patterns', () => {
+      expect(testRegex('(', '(')).toBe(false);
+      expect(testRegex('^Invoice \\d+', 'invoice 12')).toBe(true);
+    });
+
+    it('should never match stored patterns the linear engine cannot run', () => {
+      expect(testRegex('(a)\\1', 'xAa')).toBe(false);
+      expect(testRegex('invoice(?! paid)', 'Invoice due')).toBe(false);
+      expect(compileRegex('^Invoice \\d+')).toBeInstanceOf(SafeRegex);
+      expect(() => compileRegex('invoice(?! paid)')).toThrow(UnsupportedRegexError);
+      expect(() => compileRegex('(')).toThrow(SyntaxError);
+    });
+  });
+
+  describe('analyzeRegex', () => {
+    it('should accept common linear patterns', () => {
+      for (const pattern of ['^Order #\\d+$', '.*sale.*', '(newsletter|digest)', '\\d+\\.\\d+', '[a-z]+@shop\\.com$', '(ab|cd)+']) {
+        expect(analyzeRegex(pattern)).toEqual({ safe: true });
+      }
+    });
+
+    it('should reject super-linear patterns', () => {
+      for (const pattern of ['(a+)+$', '(\\w*)*x', '(.*a){12}', '(a|ab)*c', '(\\d|\\w)+$', '(a?|b)+']) {
+        const analysis = analyzeRegex(pattern);
+        expect(analysis.safe).toBe(false);
+        expect(analysis.reason).toMatch(/^Unsafe regular expression/);
+      }
+    });
+
+    it('should reject invalid and unsupported patterns with the reason', () => {
+      expect(analyzeRegex('(unclosed').safe).toBe(false);
+      expect(analyzeRegex('(a)\\1').reason).toBe('Backreferences are not supported');
+      expect(analyzeRegex('foo(?!bar)').reason).toBe('Lookahead and lookbehind assertions are not supported');
+    });
+
+    it('should flag only the patterns the linear engine cannot run as unsupported', () => {
+      expect(analyzeRegex('(a)\\1').unsupported).toBe(true);
+      expect(analyzeRegex('foo(?!bar)').unsupported).toBe(true);
+      expect(analyzeRegex('(unclosed').unsupported).toBeUndefined();
+      expect(analyzeRegex('(a+)+$').unsupported).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,700 @@
+/**
+ * ReDoS-safe regular expressions
+ *
+ * Rule patterns come from admins and run against every email, so a single
+ * catastrophic pattern such as (a+)+$ could stall the process on a backtracking
+ * engine. This module provides:
+ * - analyzeRegex: static analysis used when rules are created, rejecting
+ *   patterns that are super-linear on a backtracking engine or that use
+ *   constructs the linear engine cannot run
+ * - SafeRegex: a linear-time matcher (Thompson NFA simulation) for the
+ *   JavaScript regex subset used by rules, always case-insensitive, whose
+ *   steps are bounded by program size × input length
+ */
+
+/** Maximum NFA size; counted repetitions like a{1000} are expanded */
+export const MAX_REGEX_PROGRAM_SIZE = 2000;
+
+/**
+ * NFA steps allowed per state and input position; the simulation visits each state
+ * at most once while following epsilon transitions and once while testing a character
+ */
+export const REGEX_STEPS_PER_STATE = 2;
+
+/**
+ * Thrown when a syntactically valid pattern uses a construct the linear engine cannot run
+ */
+export class UnsupportedRegexError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnsupportedRegexError';
+  }
+}
+
+/**
+ * Thrown when a test runs past its step budget, instead of reporting a non-match
+ */
+export class RegexStepLimitError extends Error {
+  constructor(readonly pattern: string, readonly steps: number) {
+    super(`Regular expression ${pattern} exceeded ${steps} steps`);
+    this.name = 'RegexStepLimitError';
+  }
+}
+
+/**
+ * Result of analyzing a regex pattern
+ */
+export interface RegexAnalysis {
+  safe: boolean;
+  /** Why the pattern is rejected, set when safe is false */
+  reason?: string;
+  /** Set when the linear engine cannot run the pattern at all, so it never matches */
+  unsupported?: boolean;
+}
+
+type CharTest = (code: number) => boolean;
+
+type AssertionKind = 'start' | 'end' | 'wordBoundary' | 'notWordBoundary';
+
+type RegexNode =
+  | { type: 'char'; test: CharTest }
+  | { type: 'seq'; items: RegexNode[] }
+  | { type: 'alt'; options: RegexNode[] }
+  | { type: 'repeat'; node: RegexNode; min: number; max: number }
+  | { type: 'assert'; kind: AssertionKind };
+
+const isDigit: CharTest = (code) => code >= 48 && code <= 57;
+const isWordChar: CharTest = (code) =>
+  isDigit(code) || (code >= 65 && code <= 90) || (code >= 97 && code <= 122) || code === 95;
+const WHITESPACE = new Set([
+  0x09, 0x0a, 0x0b, 0x0c, 0x0d, 0x20, 0xa0, 0x1680, 0x2028, 0x2029, 0x202f, 0x205f, 0x3000, 0xfeff,
+]);
+const isWhitespace: CharTest = (code) => WHITESPACE.has(code) || (code >= 0x2000 && code <= 0x200a);
+const isLineTerminator: CharTest = (code) => code === 0x0a || code === 0x0d || code === 0x2028 || code === 0x2029;
+
+const not = (test: CharTest): CharTest => (code) => !test(code);
+
+/** Character class escapes, by the letter after the backslash */
+const ESCAPE_CLASSES: Partial<Record<string, CharTest>> = {
+  d: isDigit,
+  D: not(isDigit),
+  w: isWordChar,
+  W: not(isWordChar),
+  s: isWhitespace,
+  S: not(isWhitespace),
+};
+
+/**
+ * Canonicalize a character for case-insensitive matching, as RegExp does without the u flag:
+ * upper case, unless that takes more than one character or maps non-ASCII onto ASCII
+ */
+function canonicalize(code: number): number {
+  if (code < 128) {
+    return code >= 97 && code <= 122 ? code - 32 : code;
+  }
+  const upper = String.fromCharCode(code).toUpperCase();
+  if (upper.length !== 1 || upper.charCodeAt(0) < 128) {
+    return code;
+  }
+  return upper.charCodeAt(0);
+}
+
+/**
+ * Characters that canonicalize to the same character as code, code included
+ */
+function caseVariants(code: number): number[] {
+  const canonical = canonicalize(code);
+  const variants = [code];
+  for (const candidate of [canonical, String.fromCharCode(canonical).toLowerCase().charCodeAt(0)]) {
+    if (!variants.includes(candidate) && canonicalize(candidate) === canonical) {
+      variants.push(candidate);
+    }
+  }
+  return variants;
+}
+
+/**
+ * Recursive descent parser for the JavaScript regex syntax (without the u flag)
+ * The pattern has already been checked by the native RegExp constructor
+ */
+class RegexParser {
+  private pos = 0;
+
+  constructor(private source: string) {}
+
+  parse(): RegexNode {
+    const node = this.parseAlternation();
+    if (this.pos < this.source.length) {
+      throw new SyntaxError(`Unexpected "${this.source[this.pos]}" at position ${this.pos}`);
+    }
+    return node;
+  }
+
+  private peek(offset = 0): string {
+    return this.source[this.pos + offset] ?? '';
+  }
+
+  private parseAlternation(): RegexNode {
+    const options = [this.parseSequence()];
+    while (this.peek() === '|') {
+      this.pos++;
+      options.push(this.parseSequence());
+    }
+    return options.length === 1 ? options[0] : { type: 'alt', options };
+  }
+
+  private parseSequence(): RegexNode {
+    const items: RegexNode[] = [];
+    while (this.pos < this.source.length && this.peek() !== '|' && this.peek() !== ')') {
+      items.push(this.parseQuantified(this.parseAtom()));
+    }
+    return items.length === 1 ? items[0] : { type: 'seq', items };
+  }
+
+  private parseQuantified(atom: RegexNode): RegexNode {
+    let min: number;
+    let max: number;
+    const char = this.peek();
+    if (char === '*') {
+      [min, max] = [0, Infinity];
+      this.pos++;
+    } else if (char === '+') {
+      [min, max] = [1, Infinity];
+      this.pos++;
+    } else if (char === '?') {
+      [min, max] = [0, 1];
+      this.pos++;
+    } else if (char === '{') {
+      const match = /^\{(\d+)(,(\d*))?\}/.exec(this.source.substring(this.pos));
+      if (!match) {
+        return atom;
+      }
+      min = Number(match[1]);
+      max = match[2] === undefined ? min : match[3] === '' ? Infinity : Number(match[3]);
+      this.pos += match[0].length;
+    } else {
+      return atom;
+    }
+    // Lazy quantifiers match the same strings, only the preferred match differs
+    if (this.peek() === '?') {
+      this.pos++;
+    }
+    return { type: 'repeat', node: atom, min, max };
+  }
+
+  private parseAtom(): RegexNode {
+    const char = this.source[this.pos++];
+    switch (char) {
+      case '^':
+        return { type: 'assert', kind: 'start' };
+      case '$':
+        return { type: 'assert', kind: 'end' };
+      case '.':
+        return { type: 'char', test: not(isLineTerminator) };
+      case '[':
+        return { type: 'char', test: this.parseClass() };
+      case '(':
+        return this.parseGroup();
+      case '\\':
+        return this.parseEscape();
+      default:
+        return this.literal(char.charCodeAt(0));
+    }
+  }
+
+  private literal(code: number): RegexNode {
+    const canonical = canonicalize(code);
+    return { type: 'char', test: (c) => c === code || canonicalize(c) === canonical };
+  }
+
+  private parseGroup(): RegexNode {
+    if (this.peek() === '?') {
+      const next = this.peek(1);
+      if (next === ':') {
+        this.pos += 2;
+      } else if (next === '<' && this.peek(2) !== '=' && this.peek(2) !== '!') {
+        // Named capturing group, captures are not used
+        const end = this.source.indexOf('>', this.pos);
+        this.pos = end + 1;
+      } else {
+        throw new UnsupportedRegexError('Lookahead and lookbehind assertions are not supported');
+      }
+    }
+    const node = this.parseAlternation();
+    if (this.peek() !== ')') {
+      throw new SyntaxError('Unterminated group');
+    }
+    this.pos++;
+    return node;
+  }
+
+  private parseEscape(): RegexNode {
+    const char = this.source[this.pos];
+    switch (char) {
+      case 'b':
+        this.pos++;
+        return { type: 'assert', kind: 'wordBoundary' };
+      case 'B':
+        this.pos++;
+        return { type: 'assert', kind: 'notWordBoundary' };
+      case 'k':
+        if (/\(\?<[^=!]/.test(this.source)) {
+          throw new UnsupportedRegexError('Backreferences are not supported');
+        }
+        break;
+      default:
+        if (char >= '1' && char <= '9') {
+          throw new UnsupportedRegexError('Backreferences are not supported');
+        }
+    }
+    const test = this.parseEscapeClass();
+    if (test) {
+      return { type: 'char', test };
+    }
+    return this.literal(this.parseEscapeCode());
+  }
+
+  /**
+   * Parse \d \D \w \W \s \S, returns null for other escapes without consuming them
+   */
+  private parseEscapeClass(): CharTest | null {
+    const test = ESCAPE_CLASSES[this.source[this.pos]];
+    if (test) {
+      this.pos++;
+    }
+    return test ?? null;
+  }
+
+  /**
+   * Parse a character escape after the backslash and return its character code
+   */
+  private parseEscapeCode(): number {
+    const char = this.source[this.pos++];
+    const controls: Record<string, number> = { t: 0x09, n: 0x0a, v: 0x0b, f: 0x0c, r: 0x0d, '0': 0x00 };
+    if (char in controls) {
+      return controls[char];
+    }
+    const hexLength = char === 'x' ? 2 : char === 'u' ? 4 : 0;
+    if (hexLength > 0) {
+      const hex = this.source.substring(this.pos, this.pos + hexLength);
+      if (new RegExp(`^[0-9a-fA-F]{${hexLength}}$`).test(hex)) {
+        this.pos += hexLength;
+        return parseInt(hex, 16);
+      }
+    }
+    if (char === 'c' && /^[A-Za-z]$/.test(this.peek())) {
+      return this.source.charCodeAt(this.pos++) % 32;
+    }
+    // Identity escape
+    return char.charCodeAt(0);
+  }
+
+  private parseClass(): CharTest {
+    const negate = this.peek() === '^';
+    if (negate) {
+      this.pos++;
+    }
+    const tests: CharTest[] = [];
+    while (this.peek() !== ']') {
+      if (this.pos >= this.source.length) {
+        throw new SyntaxError('Unterminated character class');
+      }
+      let low: number;
+      if (this.peek() === '\\') {
+        this.pos++;
+        const escapeClass = this.parseEscapeClass();
+        if (escapeClass) {
+          tests.push(escapeClass);
+          continue;
+        }
+        low = this.peek() === 'b' ? (this.pos++, 0x08) : this.parseEscapeCode();
+      } else {
+        low = this.source.charCodeAt(this.pos++);
+      }
+
+      let high = low;
+      if (this.peek() === '-' && this.peek(1) !== ']' && this.peek(1) !== '') {
+        this.pos++;
+        if (this.peek() === '\\') {
+          this.pos++;
+          const escapeClass = this.parseEscapeClass();
+          if (escapeClass) {
+            // [a-\d] is a literal dash between a and a class
+            tests.push(escapeClass, (code) => code === 45);
+          } else {
+            high = this.peek() === 'b' ? (this.pos++, 0x08) : this.parseEscapeCode();
+          }
+        } else {
+          high = this.source.charCodeAt(this.pos++);
+        }
+      }
+      const [from, to] = [low, high];
+      tests.push((code) => code >= from && code <= to);
+    }
+    this.pos++;
+
+    // Remember each character's result, class tests run once per character per state
+    const memo = new Map<number, boolean>();
+    return (code) => {
+      let result = memo.get(code);
+      if (result === undefined) {
+        result = caseVariants(code).some((variant) => tests.some((test) => test(variant))) !== negate;
+        memo.set(code, result);
+      }
+      return result;
+    };
+  }
+}
+
+/**
+ * Parse a pattern into a syntax tree
+ * Throws SyntaxError for invalid patterns and UnsupportedRegexError for
+ * backreferences and lookaround assertions
+ */
+function parseRegex(pattern: string): RegexNode {
+  // Let the native engine report syntax errors with its usual messages
+  new RegExp(pattern);
+  return new RegexParser(pattern).parse();
+}
+
+type NfaState =
+  | { op: 'char'; test: CharTest; out: number }
+  | { op: 'split'; out: number; alt: number }
+  | { op: 'assert'; kind: AssertionKind; out: number }
+  | { op: 'match' };
+
+/**
+ * Compile a syntax tree into an NFA, building backwards from the match state
+ */
+class NfaCompiler {
+  readonly states: NfaState[] = [{ op: 'match' }];
+
+  compile(node: RegexNode, next: number): number {
+    switch (node.type) {
+      case 'char':
+        return this.push({ op: 'char', test: node.test, out: next });
+      case 'assert':
+        return this.push({ op: 'assert', kind: node.kind, out: next });
+      case 'seq': {
+        let start = next;
+        for (let i = node.items.length - 1; i >= 0; i--) {
+          start = this.compile(node.items[i], start);
+        }
+        return start;
+      }
+      case 'alt': {
+        let start = this.compile(node.options[node.options.length - 1], next);
+        for (let i = node.options.length - 2; i >= 0; i--) {
+          start = this.push({ op: 'split', out: this.compile(node.options[i], next), alt: start });
+        }
+        return start;
+      }
+      case 'repeat': {
+        let start = next;
+        if (node.max === Infinity) {
+          const loop = this.push({ op: 'split', out: -1, alt: next });
+          (this.states[loop] as { out: number }).out = this.compile(node.node, loop);
+          start = loop;
+        } else {
+          for (let i = node.min; i < node.max; i++) {
+            start = this.push({ op: 'split', out: this.compile(node.node, start), alt: next });
+          }
+        }
+        for (let i = 0; i < node.min; i++) {
+          start = this.compile(node.node, start);
+        }
+        return start;
+      }
+    }
+  }
+
+  private push(state: NfaState): number {
+    if (this.states.length >= MAX_REGEX_PROGRAM_SIZE) {
+      throw new UnsupportedRegexError('Pattern is too large');
+    }
+    this.states.push(state);
+    return this.states.length - 1;
+  }
+}
+
+function assertionHolds(kind: AssertionKind, value: string, pos: number): boolean {
+  switch (kind) {
+    case 'start':
+      return pos === 0;
+    case 'end':
+      return pos === value.length;
+    default: {
+      const before = pos > 0 && isWordChar(value.charCodeAt(pos - 1));
+      const after = pos < value.length && isWordChar(value.charCodeAt(pos));
+      return (before !== after) === (kind === 'wordBoundary');
+    }
+  }
+}
+
+/**
+ * Case-insensitive regular expression matched in linear time
+ * Supports the JavaScript syntax without backreferences and lookaround.
+ * The constructor throws like RegExp for invalid or unsupported patterns.
+ */
+export class SafeRegex {
+  private states: NfaState[];
+  private start: number;
+  /** Generation marks so each state is added at most once per position */
+  private marks: Uint32Array;
+  private generation = 0;
+
+  constructor(readonly source: string) {
+    const compiler = new NfaCompiler();
+    this.start = compiler.compile(parseRegex(source), 0);
+    this.states = compiler.states;
+    this.marks = new Uint32Array(this.states.length);
+  }
+
+  /**
+   * Test whether the pattern matches anywhere in the value
+   * The step budget scales with program size × input length, which bounds the
+   * simulation; running past it throws RegexStepLimitError rather than failing open
+   */
+  test(value: string): boolean {
+    const steps = this.states.length * (value.length + 1) * REGEX_STEPS_PER_STATE;
+    let budget = steps;
+    let current: number[] = [];
+    let matched = false;
+
+    // Follow epsilon transitions from a state, collecting char states into list
+    const add = (list: number[], state: number, pos: number): void => {
+      const stack = [state];
+      while (stack.length > 0) {
+        const index = stack.pop() as number;
+        if (this.marks[index] === this.generation) {
+          continue;
+        }
+        this.marks[index] = this.generation;
+        budget--;
+        const entry = this.states[index];
+        switch (entry.op) {
+          case 'match':
+            matched = true;
+            break;
+          case 'char':
+            list.push(index);
+            break;
+          case 'split':
+            stack.push(entry.alt, entry.out);
+            break;
+          case 'assert':
+            if (assertionHolds(entry.kind, value, pos)) {
+              stack.push(entry.out);
+            }
+            break;
+        }
+      }
+    };
+
+    this.nextGeneration();
+    add(current, this.start, 0);
+    for (let pos = 0; pos < value.length && !matched; pos++) {
+      if (budget < 0) {
+        throw new RegexStepLimitError(this.source, steps);
+      }
+      const code = value.charCodeAt(pos);
+      const next: number[] = [];
+      this.nextGeneration();
+      for (const index of current) {
+        const entry = this.states[index] as { test: CharTest; out: number };
+        budget--;
+        if (entry.test(code)) {
+          add(next, entry.out, pos + 1);
+        }
+      }
+      // Unanchored search: a match may start at any position
+      add(next, this.start, pos + 1);
+      current = next;
+    }
+    if (budget < 0) {
+      throw new RegexStepLimitError(this.source, steps);
+    }
+    return matched;
+  }
+
+  private nextGeneration(): void {
+    this.generation++;
+    if (this.generation === 0xffffffff) {
+      this.marks.fill(0);
+      this.generation = 1;
+    }
+  }
+}
+
+/**
+ * A compiled pattern that can be tested against values
+ */
+export interface RegexTester {
+  test(value: string): boolean;
+}
+
+/**
+ * Compile a stored rule pattern for matching, case-insensitive
+ * Patterns are never handed to the native engine, which has no time budget:
+ * rules stored before analyzeRegex was enforced may use backreferences or
+ * lookaround, which throw UnsupportedRegexError here and never match.
+ * Throws SyntaxError for invalid patterns.
+ */
+export function compileRegex(pattern: string): RegexTester {
+  return new SafeRegex(pattern);
+}
+
+/** Compiled patterns reused by testRegex */
+const regexCache = new Map<string, RegexTester | null>();
+const MAX_CACHED_REGEXES = 1000;
+
+/**
+ * Test a case-insensitive pattern against a value, compiled with compileRegex
+ * Invalid and unsupported patterns never match. Compiled patterns are cached.
+ */
+export function testRegex(pattern: string, value: string): boolean {
+  let regex = regexCache.get(pattern);
+  if (regex === undefined) {
+    try {
+      regex = compileRegex(pattern);
+    } catch {
+      regex = null;
+    }
+    if (regexCache.size >= MAX_CACHED_REGEXES) {
+      regexCache.clear();
+    }
+    regexCache.set(pattern, regex);
+  }
+  return regex ? regex.test(value) : false;
+}
+
+/**
+ * Whether a node can match without consuming characters
+ */
+function isNullable(node: RegexNode): boolean {
+  switch (node.type) {
+    case 'char':
+      return false;
+    case 'assert':
+      return true;
+    case 'seq':
+      return node.items.every(isNullable);
+    case 'alt':
+      return node.options.some(isNullable);
+    case 'repeat':
+      return node.min === 0 || isNullable(node.node);
+  }
+}
+
+/**
+ * Tests for the characters a node can start with
+ */
+function firstChars(node: RegexNode): CharTest[] {
+  switch (node.type) {
+    case 'char':
+      return [node.test];
+    case 'assert':
+      return [];
+    case 'seq': {
+      const tests: CharTest[] = [];
+      for (const item of node.items) {
+        tests.push(...firstChars(item));
+        if (!isNullable(item)) {
+          break;
+        }
+      }
+      return tests;
+    }
+    case 'alt':
+      return node.options.flatMap(firstChars);
+    case 'repeat':
+      return firstChars(node.node);
+  }
+}
+
+/** Character codes sampled when checking whether two branches can start alike */
+const SAMPLE_CODES = Array.from({ length: 256 }, (_, code) => code);
+
+function canStartAlike(a: RegexNode, b: RegexNode): boolean {
+  if (isNullable(a) || isNullable(b)) {
+    return true;
+  }
+  const testsA = firstChars(a);
+  const testsB = firstChars(b);
+  return SAMPLE_CODES.some((code) => testsA.some((test) => test(code)) && testsB.some((test) => test(code)));
+}
+
+function containsUnboundedRepeat(node: RegexNode): boolean {
+  switch (node.type) {
+    case 'repeat':
+      return node.max === Infinity || containsUnboundedRepeat(node.node);
+    case 'seq':
+      return node.items.some(containsUnboundedRepeat);
+    case 'alt':
+      return node.options.some(containsUnboundedRepeat);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Find a construct that makes backtracking super-linear, returns its description
+ */
+function findSuperLinear(node: RegexNode): string | null {
+  switch (node.type) {
+    case 'repeat': {
+      if (node.max > 1) {
+        if (containsUnboundedRepeat(node.node)) {
+          return 'nested quantifiers such as (a+)+ can take exponential time';
+        }
+        const body = node.node;
+        if (body.type === 'alt') {
+          for (let i = 0; i < body.options.length; i++) {
+            for (let j = i + 1; j < body.options.length; j++) {
+              if (canStartAlike(body.options[i], body.options[j])) {
+                return 'a repeated alternation whose branches overlap, such as (a|ab)*, can take exponential time';
+              }
+            }
+          }
+        }
+      }
+      return findSuperLinear(node.node);
+    }
+    case 'seq':
+      for (const item of node.items) {
+        const found = findSuperLinear(item);
+        if (found) return found;
+      }
+      return null;
+    case 'alt':
+      for (const option of node.options) {
+        const found = findSuperLinear(option);
+        if (found) return found;
+      }
+      return null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Statically analyze a regex pattern before it is stored in a rule
+ * Rejects invalid patterns, patterns the linear engine cannot run
+ * (backreferences, lookaround, oversized) and patterns that are
+ * super-linear on a backtracking engine
+ */
+export function analyzeRegex(pattern: string): RegexAnalysis {
+  let tree: RegexNode;
+  try {
+    tree = parseRegex(pattern);
+    new NfaCompiler().compile(tree, 0);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : 'Invalid regular expression';
+    return error instanceof UnsupportedRegexError ? { safe: false, reason, unsupported: true } : { safe: false, reason };
+  }
+  const superLinear = findSuperLinear(tree);
+  if (superLinear) {
+    return { safe: false, reason: `Unsafe regular expression: ${superLinear}` };
+  }
+  return { safe: true };
+}
@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  parseTimeOfDay,
+  isValidTimeZone,
+  isValidTimeWindow,
+  isWithinTimeWindows,
+  isRuleActiveAt,
+} from './schedule.js';
+import type { RuleTimeWindow } from '../types/index.js';
+
+// 2024-01-01 is a Monday
+const WEEKDAYS_9_TO_18: RuleTimeWindow = { days: [1, 2, 3, 4, 5], start: '09:00', end: '18:00' };
+
+describe('Schedule Utils', () => {
+  describe('parseTimeOfDay', () => {
+    it('should parse every valid HH:mm time to minutes since midnight', () => {
+      fc.assert(
+        fc.property(fc.integer({ min: 0, max: 23 }), fc.integer({ min: 0, max: 59 }), (hour, minute) => {
+          const value = `${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`;
+          expect(parseTimeOfDay(value)).toBe(hour * 60 + minute);
+        }),
+        { numRuns: 100 }
+      );
+    });
+
+    it('should reject malformed times', () => {
+      for (const value of ['24:00', '9:00', '09:60', '0900', '', 'ab:cd']) {
+        expect(parseTimeOfDay(value)).toBeNull();
+      }
+    });
+  });
+
+  describe('validation', () => {
+    it('should accept known timezones only', () => {
+      expect(isValidTimeZone('Asia/Shanghai')).toBe(true);
+      expect(isValidTimeZone('UTC')).toBe(true);
+      expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+    });
+
+    it('should validate window days and times', () => {
+      expect(isValidTimeWindow(WEEKDAYS_9_TO_18)).toBe(true);
+      expect(isValidTimeWindow({ days: [], start: '09:00', end: '18:00' })).toBe(false);
+      expect(isValidTimeWindow({ days: [7], start: '09:00', end: '18:00' })).toBe(false);
+      expect(isValidTimeWindow({ days: [1], start: '9am', end: '18:00' })).toBe(false);
+    });
+  });
+
+  describe('isWithinTimeWindows', () => {
+    it('should evaluate windows in the given timezone', () => {
+      // Monday 10:00 in Shanghai, Monday 02:00 in UTC
+      const at = new Date('2024-01-01T02:00:00Z');
+      expect(isWithinTimeWindows([WEEKDAYS_9_TO_18], at, 'Asia/Shanghai')).toBe(true);
+      expect(isWithinTimeWindows([WEEKDAYS_9_TO_18], at, 'UTC')).toBe(false);
+    });
+
+    it('should treat the end time as exclusive', () => {
+      expect(isWithinTimeWindows([WEEKDAYS_9_TO_18], new Date('2024-01-01T09:00:00Z'))).toBe(true);
+      expect(isWithinTimeWindows([WEEKDAYS_9_TO_18], new Date('2024-01-01T17:59:00Z'))).toBe(true);
+      expect(isWithinTimeWindows([WEEKDAYS_9_TO_18], new Date('2024-01-01T18:00:00Z'))).toBe(false);
+    });
+
+    it('should skip days not listed', () => {
+      // Sunday 10:00 UTC
+      expect(isWithinTimeWindows([WEEKDAYS_9_TO_18], new Date('2024-01-07T10:00:00Z'))).toBe(false);
+    });
+
+    it('should let overnight windows run into the next day', () => {
+      const fridayNight: RuleTimeWindow = { days: [5], start: '22:00', end: '06:00' };
+      expect(isWithinTimeWindows([fridayNight], new Date('2024-01-05T23:00:00Z'))).toBe(true);
+      expect(isWithinTimeWindows([fridayNight], new Date('2024-01-06T05:59:00Z'))).toBe(true);
+      expect(isWithinTimeWindows([fridayNight], new Date('2024-01-06T06:00:00Z'))).toBe(false);
+      expect(isWithinTimeWindows([fridayNight], new Date('2024-01-05T05:00:00Z'))).toBe(false);
+    });
+  });
+
+  describe('isRuleActiveAt', () => {
+    it('should treat rules without a schedule as always active', () => {
+      fc.assert(
+        fc.property(fc.date({ min: new Date('2000-01-01'), max: new Date('2100-01-01') }), (at) => {
+          expect(isRuleActiveAt({}, at)).toBe(true);
+        }),
+        { numRuns: 100 }
+      );
+    });
+
+    it('should be active from activeFrom up to, but not including, activeUntil', () => {
+      const rule = { activeFrom: new Date('2024-11-01T00:00:00Z'), activeUntil: new Date('2024-12-01T00:00:00Z') };
+      expect(isRuleActiveAt(rule, new Date('2024-10-31T23:59:59Z'))).toBe(false);
+      expect(isRuleActiveAt(rule, new Date('2024-11-01T00:00:00Z'))).toBe(true);
+      expect(isRuleActiveAt(rule, new Date('2024-11-30T23:59:59Z'))).toBe(true);
+      expect(isRuleActiveAt(rule, new Date('2024-12-01T00:00:00Z'))).toBe(false);
+    });
+
+    it('should require both the date range and a time window to match', () => {
+      const rule = {
+        activeUntil: new Date('2024-01-02T00:00:00Z'),
+        timeWindows: [WEEKDAYS_9_TO_18],
+        timezone: 'Asia/Shanghai',
+      };
+      expect(isRuleActiveAt(rule, new Date('2024-01-01T02:00:00Z'))).toBe(true);
+      expect(isRuleActiveAt(rule, new Date('2024-01-01T12:00:00Z'))).toBe(false);
+      expect(isRuleActiveAt(rule, new Date('2024-01-02T02:00:00Z'))).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,139 @@
+import type { FilterRule, RuleTimeWindow } from '../types/index.js';
+
+/**
+ * "HH:mm" in 24-hour time
+ */
+const TIME_OF_DAY_REGEX = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+const WEEKDAYS: Record<string, number> = {
+  Sun: 0,
+  Mon: 1,
+  Tue: 2,
+  Wed: 3,
+  Thu: 4,
+  Fri: 5,
+  Sat: 6,
+};
+
+/**
+ * Parse an "HH:mm" time into minutes since midnight
+ * @returns Minutes since midnight, or null if the value is not a valid time
+ */
+export function parseTimeOfDay(value: string): number | null {
+  const match = TIME_OF_DAY_REGEX.exec(value);
+  if (!match) {
+    return null;
+  }
+  return parseInt(match[1], 10) * 60 + parseInt(match[2], 10);
+}
+
+/**
+ * Weekday/hour/minute formatters by timezone, built once since schedules are
+ * evaluated for every scheduled rule on every email
+ */
+const localTimeFormatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Get the cached weekday/hour/minute formatter of a timezone
+ * Throws RangeError for unknown timezones, which are not cached
+ */
+function getLocalTimeFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = localTimeFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      weekday: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    });
+    localTimeFormatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Check if a string is an IANA timezone known to the runtime
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getLocalTimeFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check if a time window is well formed
+ */
+export function isValidTimeWindow(window: RuleTimeWindow): boolean {
+  return (
+    Array.isArray(window.days) &&
+    window.days.length > 0 &&
+    window.days.every((day) => Number.isInteger(day) && day >= 0 && day <= 6) &&
+    typeof window.start === 'string' &&
+    typeof window.end === 'string' &&
+    parseTimeOfDay(window.start) !== null &&
+    parseTimeOfDay(window.end) !== null
+  );
+}
+
+/**
+ * Get the weekday (0 = Sunday) and minutes since midnight of an instant in a timezone
+ */
+function getLocalTime(at: Date, timeZone: string): { day: number; minutes: number } {
+  const parts = getLocalTimeFormatter(timeZone).formatToParts(at);
+
+  const part = (type: string) => parts.find((p) => p.type === type)?.value ?? '';
+  return {
+    day: WEEKDAYS[part('weekday')] ?? 0,
+    minutes: (parseInt(part('hour'), 10) % 24) * 60 + parseInt(part('minute'), 10),
+  };
+}
+
+/**
+ * Check if an instant falls inside any of the weekly time windows
+ * A window whose end is not after its start covers the rest of its day
+ * and the beginning of the next one (e.g. Fri 22:00-06:00 ends Saturday morning).
+ */
+export function isWithinTimeWindows(windows: RuleTimeWindow[], at: Date, timeZone: string = 'UTC'): boolean {
+  const { day, minutes } = getLocalTime(at, timeZone);
+  const previousDay = (day + 6) % 7;
+
+  return windows.some((window) => {
+    const start = parseTimeOfDay(window.start);
+    const end = parseTimeOfDay(window.end);
+    if (start === null || end === null) {
+      return false;
+    }
+    if (end > start) {
+      return window.days.includes(day) && minutes >= start && minutes < end;
+    }
+    return (
+      (window.days.includes(day) && minutes >= start) ||
+      (window.days.includes(previousDay) && minutes < end)
+    );
+  });
+}
+
+/**
+ * Check if a rule's schedule makes it active at the given time
+ * Rules without activeFrom/activeUntil/timeWindows are always active.
+ * This does not look at the enabled flag.
+ */
+export function isRuleActiveAt(
+  rule: Pick<FilterRule, 'activeFrom' | 'activeUntil' | 'timeWindows' | 'timezone'>,
+  at: Date = new Date()
+): boolean {
+  if (rule.activeFrom && at.getTime() < rule.activeFrom.getTime()) {
+    return false;
+  }
+  if (rule.activeUntil && at.getTime() >= rule.activeUntil.getTime()) {
+    return false;
+  }
+  if (rule.timeWindows && rule.timeWindows.length > 0) {
+    return isWithinTimeWindows(rule.timeWindows, at, rule.timezone || 'UTC');
+  }
+  return true;
+}
@@ -21,6 +21,7 @@ describe('Security Configuration Validation', () => {
     scheduler: {
       heartbeatCron: '*/5 * * * *',
       cleanupCron: '0 3 * * *',
+      ruleExpiryCron: '* * * * *',
       hitLogRetentionHours: 72,
       alertRetentionDays: 90,
       runHeartbeatOnStart: false,
@@ -31,6 +31,8 @@ export interface Config {
     heartbeatCron: string;
     /** Cron expression for data cleanup (default: daily at 3 AM) */
     cleanupCron: string;
+    /** Cron expression for disabling expired filter rules (default: every minute) */
+    ruleExpiryCron: string;
     /** Hours to retain hit logs (default: 72, range: 48-72) */
     hitLogRetentionHours: number;
     /** Days to retain alerts (default: 90, range: 30-90) */
@@ -104,6 +106,7 @@ export const config: Config = {
   scheduler: {
     heartbeatCron: process.env.HEARTBEAT_CRON || '*/5 * * * *',
     cleanupCron: process.env.CLEANUP_CRON || '0 3 * * *',
+    ruleExpiryCron: process.env.RULE_EXPIRY_CRON || '* * * * *',
     hitLogRetentionHours: parseInt(process.env.HIT_LOG_RETENTION_HOURS || '72', 10),
     alertRetentionDays: parseInt(process.env.ALERT_RETENTION_DAYS || '90', 10),
     runHeartbeatOnStart: process.env.RUN_HEARTBEAT_ON_START === 'true',
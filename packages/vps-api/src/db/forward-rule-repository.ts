@@ -0,0 +1,188 @@
+import type { Database } from 'better-sqlite3';
+import type { ForwardRule, CreateForwardRuleDTO, UpdateForwardRuleDTO, ForwardMatchMode } from '@email-filter/shared';
+import { v4 as uuidv4 } from 'uuid';
+
+interface ForwardRuleRow {
+  id: string;
+  worker_id: string | null;
+  recipient_pattern: string;
+  match_mode: string;
+  forward_to: string;
+  enabled: number;
+  sort_order: number;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Repository for recipient-based forward rules
+ * Rules are ordered per worker (worker_id NULL = global rules)
+ */
+export class ForwardRuleRepository {
+  constructor(private db: Database) {}
+
+  /**
+   * Convert database row to ForwardRule
+   */
+  private rowToRule(row: ForwardRuleRow): ForwardRule {
+    return {
+      id: row.id,
+      workerId: row.worker_id || undefined,
+      recipientPattern: row.recipient_pattern,
+      matchMode: row.match_mode as ForwardMatchMode,
+      forwardTo: row.forward_to,
+      enabled: row.enabled === 1,
+      sortOrder: row.sort_order,
+    };
+  }
+
+  /**
+   * Get the next sort order at the end of a worker's (or the global) rule list
+   */
+  private nextSortOrder(workerId: string | null): number {
+    const row = this.db.prepare(
+      'SELECT MAX(sort_order) AS max_order FROM forward_rules WHERE worker_id IS ?'
+    ).get(workerId) as { max_order: number | null };
+    return row.max_order === null ? 0 : row.max_order + 1;
+  }
+
+  /**
+   * Get all forward rules, optionally filtered by worker
+   * workerId null returns only global rules
+   */
+  findAll(workerId?: string | null): ForwardRule[] {
+    let rows: ForwardRuleRow[];
+    if (workerId === undefined) {
+      rows = this.db.prepare(
+        'SELECT * FROM forward_rules ORDER BY worker_id IS NOT NULL, worker_id, sort_order'
+      ).all() as ForwardRuleRow[];
+    } else {
+      rows = this.db.prepare(
+        'SELECT * FROM forward_rules WHERE worker_id IS ? ORDER BY sort_order'
+      ).all(workerId) as ForwardRuleRow[];
+    }
+    return rows.map((row) => this.rowToRule(row));
+  }
+
+  /**
+   * Get enabled rules in evaluation order for a worker
+   * Worker-specific rules come first, followed by global rules
+   */
+  findEnabled(workerId?: string): ForwardRule[] {
+    let rows: ForwardRuleRow[];
+    if (workerId) {
+      rows = this.db.prepare(`
+        SELECT * FROM forward_rules
+        WHERE enabled = 1 AND (worker_id = ? OR worker_id IS NULL)
+        ORDER BY worker_id IS NULL, sort_order
+      `).all(workerId) as ForwardRuleRow[];
+    } else {
+      rows = this.db.prepare(
+        'SELECT * FROM forward_rules WHERE enabled = 1 AND worker_id IS NULL ORDER BY sort_order'
+      ).all() as ForwardRuleRow[];
+    }
+    return rows.map((row) => this.rowToRule(row));
+  }
+
+  /**
+   * Get a forward rule by ID
+   */
+  findById(id: string): ForwardRule | null {
+    const row = this.db.prepare('SELECT * FROM forward_rules WHERE id = ?').get(id) as ForwardRuleRow | undefined;
+    return row ? this.rowToRule(row) : null;
+  }
+
+  /**
+   * Create a forward rule at the end of its worker's list
+   */
+  create(dto: CreateForwardRuleDTO): ForwardRule {
+    const id = uuidv4();
+    const now = new Date().toISOString();
+    const workerId = dto.workerId || null;
+    const enabled = dto.enabled !== undefined ? dto.enabled : true;
+    const sortOrder = this.nextSortOrder(workerId);
+
+    this.db.prepare(`
+      INSERT INTO forward_rules (id, worker_id, recipient_pattern, match_mode, forward_to, enabled, sort_order, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(id, workerId, dto.recipientPattern, dto.matchMode, dto.forwardTo, enabled ? 1 : 0, sortOrder, now, now);
+
+    return {
+      id,
+      workerId: workerId || undefined,
+      recipientPattern: dto.recipientPattern,
+      matchMode: dto.matchMode,
+      forwardTo: dto.forwardTo,
+      enabled,
+      sortOrder,
+    };
+  }
+
+  /**
+   * Update a forward rule
+   * Moving a rule to another worker appends it to that worker's list
+   */
+  update(id: string, dto: UpdateForwardRuleDTO): ForwardRule | null {
+    const existing = this.findById(id);
+    if (!existing) {
+      return null;
+    }
+
+    const updates: string[] = [];
+    const values: (string | number | null)[] = [];
+
+    if (dto.workerId !== undefined && (dto.workerId || undefined) !== existing.workerId) {
+      updates.push('worker_id = ?', 'sort_order = ?');
+      values.push(dto.workerId, this.nextSortOrder(dto.workerId));
+    }
+    if (dto.recipientPattern !== undefined) {
+      updates.push('recipient_pattern = ?');
+      values.push(dto.recipientPattern);
+    }
+    if (dto.matchMode !== undefined) {
+      updates.push('match_mode = ?');
+      values.push(dto.matchMode);
+    }
+    if (dto.forwardTo !== undefined) {
+      updates.push('forward_to = ?');
+      values.push(dto.forwardTo);
+    }
+    if (dto.enabled !== undefined) {
+      updates.push('enabled = ?');
+      values.push(dto.enabled ? 1 : 0);
+    }
+
+    if (updates.length === 0) {
+      return existing;
+    }
+
+    updates.push('updated_at = ?');
+    values.push(new Date().toISOString(), id);
+    this.db.prepare(`UPDATE forward_rules SET ${updates.join(', ')} WHERE id = ?`).run(...values);
+
+    return this.findById(id);
+  }
+
+  /**
+   * Set the evaluation order of a worker's (or the global) rules
+   * ruleIds must list every rule in that scope exactly once
+   */
+  reorder(workerId: string | null, ruleIds: string[]): ForwardRule[] {
+    const now = new Date().toISOString();
+    const stmt = this.db.prepare(
+      'UPDATE forward_rules SET sort_order = ?, updated_at = ? WHERE id = ? AND worker_id IS ?'
+    );
+    this.db.transaction(() => {
+      ruleIds.forEach((id, index) => stmt.run(index, now, id, workerId));
+    })();
+    return this.findAll(workerId);
+  }
+
+  /**
+   * Delete a forward rule
+   */
+  delete(id: string): boolean {
+    const result = this.db.prepare('DELETE FROM forward_rules WHERE id = ?').run(id);
+    return result.changes > 0;
+  }
+}
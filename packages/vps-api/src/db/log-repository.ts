@@ -1,6 +1,6 @@
 import type { Database } from 'better-sqlite3';
 
-export type LogCategory = 'email_forward' | 'email_drop' | 'admin_action' | 'system';
+export type LogCategory = 'email_forward' | 'email_drop' | 'email_reject' | 'email_shadow' | 'admin_action' | 'system';
 export type LogLevel = 'info' | 'warn' | 'error';
 
 export interface SystemLog {
@@ -198,6 +198,8 @@ export class LogRepository {
     const result: Record<LogCategory, number> = {
       email_forward: 0,
       email_drop: 0,
+      email_reject: 0,
+      email_shadow: 0,
       admin_action: 0,
       system: 0,
     };
@@ -228,6 +230,53 @@ export class LogRepository {
     return result.changes;
   }
 
+  /**
+   * Get email processing logs (forward/drop/reject) in a time range, oldest first
+   *
+   * @param from - Start of the range (inclusive)
+   * @param to - End of the range (exclusive)
+   * @param workerName - Optional worker name filter
+   * @param limit - Maximum number of entries
+   */
+  findEmailLogsInRange(from: Date, to: Date, workerName?: string, limit?: number): SystemLog[] {
+    let query = `
+      SELECT * FROM system_logs
+      WHERE category IN ('email_forward', 'email_drop', 'email_reject')
+        AND created_at >= ? AND created_at < ?
+    `;
+    const params: (string | number)[] = [from.toISOString(), to.toISOString()];
+
+    if (workerName) {
+      query += ' AND worker_name = ?';
+      params.push(workerName);
+    }
+    query += ' ORDER BY created_at ASC';
+    if (limit) {
+      query += ' LIMIT ?';
+      params.push(limit);
+    }
+
+    const rows = this.db.prepare(query).all(...params) as LogRow[];
+    return rows.map(row => this.rowToLog(row));
+  }
+
+  /**
+   * Get the shadow match log entries of a rule, newest first
+   *
+   * @param ruleId - The shadow rule ID
+   * @param limit - Maximum number of entries
+   * @param onlyChanges - Only return emails whose outcome the rule would have changed
+   */
+  findShadowMatches(ruleId: string, limit: number = 50, onlyChanges: boolean = false): SystemLog[] {
+    let query = "SELECT * FROM system_logs WHERE category = 'email_shadow' AND json_extract(details, '$.ruleId') = ?";
+    if (onlyChanges) {
+      query += " AND json_extract(details, '$.wouldChange') = 1";
+    }
+    query += ' ORDER BY created_at DESC LIMIT ?';
+    const rows = this.db.prepare(query).all(ruleId, limit) as LogRow[];
+    return rows.map(row => this.rowToLog(row));
+  }
+
   /**
    * Create an admin action log entry
    * Used for logging administrator operations like rule/worker CRUD
@@ -279,14 +328,14 @@ export class LogRepository {
 
     params.push(limit);
 
-    // Query logs where category is email_drop and extract matchedRule from details JSON
+    // Query blocked (dropped or rejected) email logs and extract matchedRule from details JSON
     const stmt = this.db.prepare(`
       SELECT 
         json_extract(details, '$.matchedRule') as pattern,
         COUNT(*) as count,
         MAX(created_at) as last_seen
       FROM system_logs 
-      WHERE category = 'email_drop' 
+      WHERE category IN ('email_drop', 'email_reject')
         AND created_at >= ?
         AND json_extract(details, '$.matchedRule') IS NOT NULL
         ${workerFilter}
@@ -311,6 +360,51 @@ export class LogRepository {
     return results;
   }
 
+  /**
+   * Get recent emails forwarded by default, i.e. without matching any rule, newest first
+   * Whitelisted emails are left out since a rule already decided to forward them.
+   * @param hours - Time window in hours
+   * @param limit - Maximum number of emails returned
+   * @param workerName - Optional worker name filter
+   */
+  findDefaultForwarded(hours: number, limit: number, workerName?: string): { from: string; to: string; subject: string; workerName: string; createdAt: string }[] {
+    const cutoff = new Date(Date.now() - hours * 60 * 60 * 1000).toISOString();
+    const params: (string | number)[] = [cutoff];
+
+    let workerFilter = '';
+    if (workerName) {
+      workerFilter = ' AND worker_name = ?';
+      params.push(workerName);
+    }
+    params.push(limit);
+
+    const stmt = this.db.prepare(`
+      SELECT
+        json_extract(details, '$.from') as sender,
+        json_extract(details, '$.to') as recipient,
+        json_extract(details, '$.subject') as subject,
+        worker_name,
+        created_at
+      FROM system_logs
+      WHERE category = 'email_forward'
+        AND created_at >= ?
+        AND json_extract(details, '$.matchedRule') IS NULL
+        AND json_extract(details, '$.from') IS NOT NULL
+        ${workerFilter}
+      ORDER BY created_at DESC
+      LIMIT ?
+    `);
+
+    const rows = stmt.all(...params) as { sender: string; recipient: string | null; subject: string | null; worker_name: string; created_at: string }[];
+    return rows.map((row) => ({
+      from: String(row.sender),
+      to: row.recipient === null ? '' : String(row.recipient),
+      subject: row.subject === null ? '' : String(row.subject),
+      workerName: row.worker_name || 'global',
+      createdAt: row.created_at,
+    }));
+  }
+
   /**
    * Get worker breakdown for a specific pattern
    * @param pattern - The matched rule pattern
@@ -334,7 +428,7 @@ export class LogRepository {
         worker_name,
         COUNT(*) as count
       FROM system_logs 
-      WHERE category = 'email_drop' 
+      WHERE category IN ('email_drop', 'email_reject')
         AND created_at >= ?
         AND json_extract(details, '$.matchedRule') = ?
         ${workerFilter}
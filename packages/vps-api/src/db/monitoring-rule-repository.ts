@@ -21,6 +21,7 @@ interface MonitoringRuleRow {
   enabled: number;
   created_at: string;
   updated_at: string;
+  normalize: number;
 }
 
 /**
@@ -45,6 +46,7 @@ export class MonitoringRuleRepository {
       name: row.name,
       subjectPattern: row.subject_pattern,
       matchMode: (row.match_mode as SubjectMatchMode) || 'contains',
+      normalize: row.normalize === 1,
       expectedIntervalMinutes: row.expected_interval_minutes,
       deadAfterMinutes: row.dead_after_minutes,
       tags,
@@ -64,15 +66,16 @@ export class MonitoringRuleRepository {
     const enabled = dto.enabled !== undefined ? dto.enabled : true;
     const tags = dto.tags || [];
     const matchMode = dto.matchMode || 'contains';
+    const normalize = dto.normalize ?? false;
     const workerScope = dto.workerScope || 'global';
 
     const stmt = this.db.prepare(`
       INSERT INTO monitoring_rules (
-        id, merchant, name, subject_pattern, match_mode,
+        id, merchant, name, subject_pattern, match_mode, normalize,
         expected_interval_minutes, dead_after_minutes, 
         tags, worker_scope, enabled, created_at, updated_at
       )
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
 
     stmt.run(
@@ -81,6 +84,7 @@ export class MonitoringRuleRepository {
       dto.name,
       dto.subjectPattern,
       matchMode,
+      normalize ? 1 : 0,
       dto.expectedIntervalMinutes,
       dto.deadAfterMinutes,
       JSON.stringify(tags),
@@ -103,6 +107,7 @@ export class MonitoringRuleRepository {
       name: dto.name,
       subjectPattern: dto.subjectPattern,
       matchMode,
+      normalize,
       expectedIntervalMinutes: dto.expectedIntervalMinutes,
       deadAfterMinutes: dto.deadAfterMinutes,
       tags,
@@ -196,6 +201,10 @@ export class MonitoringRuleRepository {
       updates.push('match_mode = ?');
       params.push(dto.matchMode);
     }
+    if (dto.normalize !== undefined) {
+      updates.push('normalize = ?');
+      params.push(dto.normalize ? 1 : 0);
+    }
     if (dto.expectedIntervalMinutes !== undefined) {
       updates.push('expected_interval_minutes = ?');
       params.push(dto.expectedIntervalMinutes);
@@ -227,6 +236,52 @@ export class MonitoringRuleRepository {
     return this.getById(id);
   }
 
+  /**
+   * Write a rule back with its original ID, e.g. when reverting to an earlier version
+   * Recreates the rule (and a DEAD signal state) when it has been deleted,
+   * otherwise overwrites every field.
+   */
+  restore(rule: MonitoringRule): MonitoringRule {
+    const now = new Date().toISOString();
+    const createdAt = rule.createdAt ? new Date(rule.createdAt).toISOString() : now;
+
+    this.db.transaction(() => {
+      this.db.prepare(`
+        INSERT INTO monitoring_rules (
+          id, merchant, name, subject_pattern, match_mode, normalize,
+          expected_interval_minutes, dead_after_minutes,
+          tags, worker_scope, enabled, created_at, updated_at
+        )
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT(id) DO UPDATE SET
+          merchant = excluded.merchant, name = excluded.name, subject_pattern = excluded.subject_pattern,
+          match_mode = excluded.match_mode, normalize = excluded.normalize,
+          expected_interval_minutes = excluded.expected_interval_minutes, dead_after_minutes = excluded.dead_after_minutes,
+          tags = excluded.tags, worker_scope = excluded.worker_scope, enabled = excluded.enabled, updated_at = excluded.updated_at
+      `).run(
+        rule.id,
+        rule.merchant,
+        rule.name,
+        rule.subjectPattern,
+        rule.matchMode || 'contains',
+        rule.normalize ? 1 : 0,
+        rule.expectedIntervalMinutes,
+        rule.deadAfterMinutes,
+        JSON.stringify(rule.tags || []),
+        rule.workerScope || 'global',
+        rule.enabled ? 1 : 0,
+        createdAt,
+        now
+      );
+      this.db.prepare(`
+        INSERT OR IGNORE INTO signal_states (rule_id, state, last_seen_at, count_1h, count_12h, count_24h, updated_at)
+        VALUES (?, 'DEAD', NULL, 0, 0, 0, ?)
+      `).run(rule.id, now);
+    })();
+
+    return this.getById(rule.id)!;
+  }
+
   /**
    * Toggle rule enabled status
    */
@@ -309,7 +309,7 @@ describe('PreparedStatementManager', () => {
       manager.get('INSERT_SUBJECT_TRACKER');
       const now = new Date().toISOString();
       
-      const result = manager.run('INSERT_SUBJECT_TRACKER', 'hash123', 'Test Subject', now);
+      const result = manager.run('INSERT_SUBJECT_TRACKER', 'hash123', 'Test Subject', now, 'Test Subject');
       
       expect(result.changes).toBe(1);
     });
@@ -318,8 +318,8 @@ describe('PreparedStatementManager', () => {
       // Insert test data
       manager.get('INSERT_SUBJECT_TRACKER');
       const now = new Date().toISOString();
-      manager.run('INSERT_SUBJECT_TRACKER', 'hash123', 'Test Subject', now);
-      manager.run('INSERT_SUBJECT_TRACKER', 'hash123', 'Test Subject', now);
+      manager.run('INSERT_SUBJECT_TRACKER', 'hash123', 'Test Subject', now, 'Test Subject');
+      manager.run('INSERT_SUBJECT_TRACKER', 'hash123', 'Test Subject', now, 'Test Subject');
       
       // Count subjects
       manager.get('COUNT_SUBJECTS');
@@ -333,9 +333,9 @@ describe('PreparedStatementManager', () => {
       // Insert test data
       manager.get('INSERT_SUBJECT_TRACKER');
       const now = new Date();
-      manager.run('INSERT_SUBJECT_TRACKER', 'hash123', 'Test Subject', now.toISOString());
-      manager.run('INSERT_SUBJECT_TRACKER', 'hash123', 'Test Subject', new Date(now.getTime() + 1000).toISOString());
-      manager.run('INSERT_SUBJECT_TRACKER', 'hash123', 'Test Subject', new Date(now.getTime() + 2000).toISOString());
+      manager.run('INSERT_SUBJECT_TRACKER', 'hash123', 'Test Subject', now.toISOString(), 'Test Subject');
+      manager.run('INSERT_SUBJECT_TRACKER', 'hash123', 'Test Subject', new Date(now.getTime() + 1000).toISOString(), 'Test Subject');
+      manager.run('INSERT_SUBJECT_TRACKER', 'hash123', 'Test Subject', new Date(now.getTime() + 2000).toISOString(), 'Test Subject');
       
       // Get timestamps
       manager.get('GET_TIMESTAMPS');
@@ -350,8 +350,8 @@ describe('PreparedStatementManager', () => {
       manager.get('INSERT_SUBJECT_TRACKER');
       const oldTime = new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString();
       const newTime = new Date().toISOString();
-      manager.run('INSERT_SUBJECT_TRACKER', 'hash123', 'Old Subject', oldTime);
-      manager.run('INSERT_SUBJECT_TRACKER', 'hash123', 'New Subject', newTime);
+      manager.run('INSERT_SUBJECT_TRACKER', 'hash123', 'Old Subject', oldTime, 'Old Subject');
+      manager.run('INSERT_SUBJECT_TRACKER', 'hash123', 'New Subject', newTime, 'New Subject');
       
       // Cleanup old records
       manager.get('CLEANUP_SUBJECT_TRACKER');
@@ -15,8 +15,8 @@ import type { Statement } from 'better-sqlite3';
 export const SQL_STATEMENTS = {
   // Dynamic rule tracking statements
   INSERT_SUBJECT_TRACKER: `
-    INSERT INTO email_subject_tracker (subject_hash, subject, received_at)
-    VALUES (?, ?, ?)
+    INSERT INTO email_subject_tracker (subject_hash, subject, received_at, fingerprint)
+    VALUES (?, ?, ?, ?)
   `,
   COUNT_SUBJECTS: `
     SELECT COUNT(*) as count FROM email_subject_tracker
@@ -32,6 +32,19 @@ export const SQL_STATEMENTS = {
     DELETE FROM email_subject_tracker
     WHERE subject_hash = ? AND received_at < ?
   `,
+  FIND_CLUSTER_CANDIDATES: `
+    SELECT subject_hash, fingerprint FROM email_subject_tracker
+    WHERE received_at >= ? AND fingerprint IS NOT NULL
+    GROUP BY subject_hash
+    ORDER BY MAX(received_at) DESC
+    LIMIT ?
+  `,
+  GET_CLUSTER_MEMBERS: `
+    SELECT subject, fingerprint FROM email_subject_tracker
+    WHERE subject_hash = ? AND received_at >= ?
+    ORDER BY received_at DESC
+    LIMIT ?
+  `,
   
   // Dynamic rule lookup statements
   FIND_DYNAMIC_RULE_EXACT: `
@@ -0,0 +1,165 @@
+import type { Database } from 'better-sqlite3';
+import type { CreateRuleDTO, UpdateRuleDTO } from '@email-filter/shared';
+import type { RuleHistoryActor } from './rule-history-repository.js';
+
+/**
+ * Kind of staged change
+ */
+export type RuleDraftOperation = 'add' | 'update' | 'delete';
+
+/**
+ * Rule fields staged by a change: a full rule for add, the fields to change for update
+ */
+export type RuleDraftPayload = CreateRuleDTO | UpdateRuleDTO;
+
+/**
+ * A change staged in a worker's draft, applied when the draft is published
+ */
+export interface RuleDraftChange {
+  id: number;
+  /** Worker the draft belongs to, undefined for global rules */
+  workerId?: string;
+  operation: RuleDraftOperation;
+  /** Target rule of an update or delete */
+  ruleId?: string;
+  /** Rule fields of an add or update */
+  payload?: RuleDraftPayload;
+  createdById?: string;
+  createdBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * A worker (or the global scope) with unpublished changes
+ */
+export interface RuleDraftSummary {
+  workerId?: string;
+  changeCount: number;
+  updatedAt: Date;
+}
+
+interface RuleDraftChangeRow {
+  id: number;
+  worker_id: string;
+  operation: string;
+  rule_id: string | null;
+  payload: string | null;
+  created_by_id: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Repository for staged rule changes
+ * Drafts are stored per worker; the global scope uses an empty worker ID.
+ */
+export class RuleDraftRepository {
+  constructor(private db: Database) {}
+
+  private rowToChange(row: RuleDraftChangeRow): RuleDraftChange {
+    return {
+      id: row.id,
+      workerId: row.worker_id || undefined,
+      operation: row.operation as RuleDraftOperation,
+      ruleId: row.rule_id || undefined,
+      payload: row.payload ? JSON.parse(row.payload) : undefined,
+      createdById: row.created_by_id || undefined,
+      createdBy: row.created_by || undefined,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+
+  /**
+   * Stage a change
+   */
+  create(
+    workerId: string | undefined,
+    operation: RuleDraftOperation,
+    ruleId: string | undefined,
+    payload: RuleDraftPayload | undefined,
+    actor: RuleHistoryActor
+  ): RuleDraftChange {
+    const now = new Date().toISOString();
+    const result = this.db.prepare(`
+      INSERT INTO rule_draft_changes (worker_id, operation, rule_id, payload, created_by_id, created_by, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      workerId || '', operation, ruleId || null, payload ? JSON.stringify(payload) : null,
+      actor.userId || null, actor.username || null, now, now
+    );
+    return this.findById(Number(result.lastInsertRowid))!;
+  }
+
+  /**
+   * Replace the operation and fields of a staged change
+   */
+  replace(id: number, operation: RuleDraftOperation, payload: RuleDraftPayload | undefined): RuleDraftChange | null {
+    this.db.prepare(
+      'UPDATE rule_draft_changes SET operation = ?, payload = ?, updated_at = ? WHERE id = ?'
+    ).run(operation, payload ? JSON.stringify(payload) : null, new Date().toISOString(), id);
+    return this.findById(id);
+  }
+
+  /**
+   * Get a staged change by ID
+   */
+  findById(id: number): RuleDraftChange | null {
+    const row = this.db.prepare('SELECT * FROM rule_draft_changes WHERE id = ?').get(id) as RuleDraftChangeRow | undefined;
+    return row ? this.rowToChange(row) : null;
+  }
+
+  /**
+   * Get the changes staged for a worker, in the order they were staged
+   */
+  findByWorker(workerId?: string): RuleDraftChange[] {
+    const rows = this.db.prepare(
+      'SELECT * FROM rule_draft_changes WHERE worker_id = ? ORDER BY id ASC'
+    ).all(workerId || '') as RuleDraftChangeRow[];
+    return rows.map((row) => this.rowToChange(row));
+  }
+
+  /**
+   * Get the change staged for a rule in a worker's draft
+   */
+  findByRule(workerId: string | undefined, ruleId: string): RuleDraftChange | null {
+    const row = this.db.prepare(
+      'SELECT * FROM rule_draft_changes WHERE worker_id = ? AND rule_id = ? LIMIT 1'
+    ).get(workerId || '', ruleId) as RuleDraftChangeRow | undefined;
+    return row ? this.rowToChange(row) : null;
+  }
+
+  /**
+   * List the workers with staged changes
+   */
+  findSummaries(): RuleDraftSummary[] {
+    const rows = this.db.prepare(`
+      SELECT worker_id, COUNT(*) AS change_count, MAX(updated_at) AS updated_at
+      FROM rule_draft_changes
+      GROUP BY worker_id
+      ORDER BY worker_id ASC
+    `).all() as { worker_id: string; change_count: number; updated_at: string }[];
+    return rows.map((row) => ({
+      workerId: row.worker_id || undefined,
+      changeCount: row.change_count,
+      updatedAt: new Date(row.updated_at),
+    }));
+  }
+
+  /**
+   * Remove a staged change
+   */
+  delete(id: number): boolean {
+    return this.db.prepare('DELETE FROM rule_draft_changes WHERE id = ?').run(id).changes > 0;
+  }
+
+  /**
+   * Remove every change staged for a worker
+   * @returns Number of changes removed
+   */
+  deleteByWorker(workerId?: string): number {
+    return this.db.prepare('DELETE FROM rule_draft_changes WHERE worker_id = ?').run(workerId || '').changes;
+  }
+}
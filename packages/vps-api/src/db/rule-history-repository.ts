@@ -0,0 +1,148 @@
+import type { Database } from 'better-sqlite3';
+
+/**
+ * Kind of rule a history entry belongs to
+ */
+export type RuleHistoryType = 'filter' | 'monitoring';
+
+/**
+ * What produced a version
+ * baseline records the state a rule had before its first tracked change
+ */
+export type RuleHistoryAction = 'baseline' | 'create' | 'update' | 'toggle' | 'promote' | 'delete' | 'revert';
+
+/**
+ * JSON snapshot of a rule as returned by its repository
+ */
+export type RuleSnapshot = Record<string, unknown>;
+
+/**
+ * User who made a change; legacy API token requests have no user
+ */
+export interface RuleHistoryActor {
+  userId?: string;
+  username?: string;
+}
+
+/**
+ * One version of a rule
+ */
+export interface RuleHistoryEntry {
+  id: number;
+  ruleType: RuleHistoryType;
+  ruleId: string;
+  version: number;
+  action: RuleHistoryAction;
+  /** State before the change, null when the rule was created */
+  before: RuleSnapshot | null;
+  /** State after the change, null when the rule was deleted */
+  after: RuleSnapshot | null;
+  changedById?: string;
+  changedBy?: string;
+  createdAt: Date;
+}
+
+interface RuleHistoryRow {
+  id: number;
+  rule_type: string;
+  rule_id: string;
+  version: number;
+  action: string;
+  before_state: string | null;
+  after_state: string | null;
+  changed_by_id: string | null;
+  changed_by: string | null;
+  created_at: string;
+}
+
+/**
+ * Repository for versioned rule history
+ */
+export class RuleHistoryRepository {
+  constructor(private db: Database) {}
+
+  private rowToEntry(row: RuleHistoryRow): RuleHistoryEntry {
+    return {
+      id: row.id,
+      ruleType: row.rule_type as RuleHistoryType,
+      ruleId: row.rule_id,
+      version: row.version,
+      action: row.action as RuleHistoryAction,
+      before: row.before_state ? JSON.parse(row.before_state) : null,
+      after: row.after_state ? JSON.parse(row.after_state) : null,
+      changedById: row.changed_by_id || undefined,
+      changedBy: row.changed_by || undefined,
+      createdAt: new Date(row.created_at),
+    };
+  }
+
+  /**
+   * Record a change as the next version of the rule
+   * When a rule changed before history was kept, its previous state is first
+   * stored as a baseline version so it can still be reverted to.
+   *
+   * @returns The new version
+   */
+  record(
+    ruleType: RuleHistoryType,
+    ruleId: string,
+    action: RuleHistoryAction,
+    before: RuleSnapshot | null,
+    after: RuleSnapshot | null,
+    actor: RuleHistoryActor
+  ): RuleHistoryEntry {
+    const insert = this.db.prepare(`
+      INSERT INTO rule_history (rule_type, rule_id, version, action, before_state, after_state, changed_by_id, changed_by, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    const recordAll = this.db.transaction(() => {
+      let version = this.getLatestVersion(ruleType, ruleId);
+      if (version === 0 && before && action !== 'create') {
+        const baselineAt = typeof before.updatedAt === 'string' ? before.updatedAt : new Date().toISOString();
+        insert.run(ruleType, ruleId, ++version, 'baseline', null, JSON.stringify(before), null, null, baselineAt);
+      }
+      const result = insert.run(
+        ruleType, ruleId, ++version, action,
+        before ? JSON.stringify(before) : null,
+        after ? JSON.stringify(after) : null,
+        actor.userId || null, actor.username || null, new Date().toISOString()
+      );
+      return Number(result.lastInsertRowid);
+    });
+
+    const id = recordAll();
+    const row = this.db.prepare('SELECT * FROM rule_history WHERE id = ?').get(id) as RuleHistoryRow;
+    return this.rowToEntry(row);
+  }
+
+  /**
+   * Latest version number of a rule, 0 when it has no history
+   */
+  getLatestVersion(ruleType: RuleHistoryType, ruleId: string): number {
+    const row = this.db.prepare(
+      'SELECT MAX(version) AS version FROM rule_history WHERE rule_type = ? AND rule_id = ?'
+    ).get(ruleType, ruleId) as { version: number | null } | undefined;
+    return row?.version ?? 0;
+  }
+
+  /**
+   * Get the history of a rule, newest version first
+   */
+  findByRule(ruleType: RuleHistoryType, ruleId: string): RuleHistoryEntry[] {
+    const rows = this.db.prepare(
+      'SELECT * FROM rule_history WHERE rule_type = ? AND rule_id = ? ORDER BY version DESC'
+    ).all(ruleType, ruleId) as RuleHistoryRow[];
+    return rows.map((row) => this.rowToEntry(row));
+  }
+
+  /**
+   * Get one version of a rule
+   */
+  findVersion(ruleType: RuleHistoryType, ruleId: string, version: number): RuleHistoryEntry | null {
+    const row = this.db.prepare(
+      'SELECT * FROM rule_history WHERE rule_type = ? AND rule_id = ? AND version = ?'
+    ).get(ruleType, ruleId, version) as RuleHistoryRow | undefined;
+    return row ? this.rowToEntry(row) : null;
+  }
+}
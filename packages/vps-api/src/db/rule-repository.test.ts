@@ -6,6 +6,9 @@ import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
 import type { CreateRuleDTO, UpdateRuleDTO, RuleCategory, MatchType, MatchMode, FilterRule } from '@email-filter/shared';
 import { v4 as uuidv4 } from 'uuid';
+import { RuleRepository } from './rule-repository.js';
+import { RuleSetRepository } from './rule-set-repository.js';
+import { createTestDatabase } from '../test-utils/sql-js-database.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -308,3 +311,54 @@ describe('RuleRepository', () => {
     });
   });
 });
+
+describe('RuleRepository.findEnabled', () => {
+  const scopeArb = fc.constantFrom('global', 'set-a', 'set-b', 'w1', 'w2');
+  const ruleArb = fc.record({ scope: scopeArb, enabled: fc.boolean(), overridden: fc.boolean(), priority: fc.nat({ max: 5 }) });
+
+  it("should return a worker's global rules, attached rule set rules and own rules, minus its overrides", async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.array(ruleArb, { maxLength: 12 }), async (specs) => {
+        const db = await createTestDatabase();
+        const now = new Date().toISOString();
+        for (const id of ['w1', 'w2']) {
+          db.prepare('INSERT INTO worker_instances (id, name, default_forward_to, created_at, updated_at) VALUES (?, ?, ?, ?, ?)')
+            .run(id, id, 'a@example.com', now, now);
+        }
+        const ruleSets = new RuleSetRepository(db);
+        const setA = ruleSets.create({ name: 'set-a' });
+        const setB = ruleSets.create({ name: 'set-b' });
+        ruleSets.setWorkers(setA.id, ['w1']);
+        ruleSets.setWorkers(setB.id, ['w2']);
+
+        const rules = new RuleRepository(db);
+        const expected: string[] = [];
+        specs.forEach((spec, i) => {
+          const ruleSetId = spec.scope === 'set-a' ? setA.id : spec.scope === 'set-b' ? setB.id : undefined;
+          const workerId = spec.scope === 'w1' || spec.scope === 'w2' ? spec.scope : undefined;
+          const rule = rules.create(
+            { category: 'blacklist', matchType: 'sender', matchMode: 'contains', pattern: `p${i}`, enabled: spec.enabled, priority: spec.priority },
+            workerId,
+            ruleSetId
+          );
+          // Only inherited rules can be overridden
+          const inherited = spec.scope === 'global' || spec.scope === 'set-a';
+          if (spec.overridden && inherited) {
+            ruleSets.addOverride('w1', rule.id);
+          }
+          if (spec.enabled && ['global', 'set-a', 'w1'].includes(spec.scope) && !(spec.overridden && inherited)) {
+            expected.push(rule.id);
+          }
+        });
+
+        const effective = rules.findEnabled('w1');
+        expect(effective.map((rule) => rule.id).sort()).toEqual([...expected].sort());
+        expect(effective.map((rule) => rule.priority)).toEqual(effective.map((rule) => rule.priority).sort((a, b) => a! - b!));
+        expect(rules.findEnabled().map((rule) => rule.id).sort()).toEqual(
+          rules.findAll().filter((rule) => rule.enabled).map((rule) => rule.id).sort()
+        );
+      }),
+      { numRuns: 30 }
+    );
+  });
+});
@@ -1,5 +1,5 @@
 import type { Database } from 'better-sqlite3';
-import type { FilterRule, CreateRuleDTO, UpdateRuleDTO, RuleCategory, MatchType, MatchMode } from '@email-filter/shared';
+import type { FilterRule, CreateRuleDTO, UpdateRuleDTO, RuleCategory, MatchType, MatchMode, RuleAction, RuleMode } from '@email-filter/shared';
 import { v4 as uuidv4 } from 'uuid';
 
 interface RuleRow {
@@ -14,11 +14,25 @@ interface RuleRow {
   created_at: string;
   updated_at: string;
   last_hit_at: string | null;
+  conditions: string | null;
+  exceptions: string | null;
+  action: string | null;
+  reject_reason: string | null;
+  forward_to: string | null;
+  priority: number | null;
+  active_from: string | null;
+  active_until: string | null;
+  time_windows: string | null;
+  timezone: string | null;
+  mode: string | null;
+  normalize: number | null;
+  rule_set_id: string | null;
 }
 
-// Extend FilterRule to include workerId
+// Extend FilterRule to include workerId and the shared rule set it belongs to
 export interface FilterRuleWithWorker extends FilterRule {
   workerId?: string;
+  ruleSetId?: string;
 }
 
 /**
@@ -34,10 +48,23 @@ export class RuleRepository {
     return {
       id: row.id,
       workerId: row.worker_id || undefined,
+      ruleSetId: row.rule_set_id || undefined,
       category: row.category as RuleCategory,
       matchType: row.match_type as MatchType,
       matchMode: row.match_mode as MatchMode,
       pattern: row.pattern,
+      conditions: row.conditions ? JSON.parse(row.conditions) : undefined,
+      exceptions: row.exceptions ? JSON.parse(row.exceptions) : undefined,
+      action: (row.action as RuleAction) || 'drop',
+      rejectReason: row.reject_reason || undefined,
+      forwardTo: row.forward_to ? JSON.parse(row.forward_to) : undefined,
+      priority: row.priority ?? 0,
+      activeFrom: row.active_from ? new Date(row.active_from) : undefined,
+      activeUntil: row.active_until ? new Date(row.active_until) : undefined,
+      timeWindows: row.time_windows ? JSON.parse(row.time_windows) : undefined,
+      timezone: row.timezone || undefined,
+      mode: (row.mode as RuleMode) || 'active',
+      normalize: row.normalize === 1,
       tags: row.tags ? JSON.parse(row.tags) : undefined,
       enabled: row.enabled === 1,
       createdAt: new Date(row.created_at),
@@ -47,31 +74,44 @@ export class RuleRepository {
   }
 
   /**
-   * Check if a duplicate rule exists
+   * Check if a duplicate rule exists in the same scope (worker, rule set or global)
    */
-  findDuplicate(dto: CreateRuleDTO, workerId?: string): FilterRuleWithWorker | null {
+  findDuplicate(dto: CreateRuleDTO, workerId?: string, ruleSetId?: string): FilterRuleWithWorker | null {
     const stmt = this.db.prepare(`
       SELECT * FROM filter_rules 
       WHERE (worker_id = ? OR (worker_id IS NULL AND ? IS NULL))
+        AND (rule_set_id = ? OR (rule_set_id IS NULL AND ? IS NULL))
         AND category = ? 
         AND match_type = ? 
         AND match_mode = ? 
         AND pattern = ?
       LIMIT 1
     `);
-    const row = stmt.get(workerId || null, workerId || null, dto.category, dto.matchType, dto.matchMode, dto.pattern) as RuleRow | undefined;
+    const row = stmt.get(workerId || null, workerId || null, ruleSetId || null, ruleSetId || null, dto.category, dto.matchType, dto.matchMode, dto.pattern) as RuleRow | undefined;
     return row ? this.rowToRule(row) : null;
   }
 
+  /**
+   * Get the priority that places a new rule last in its category
+   */
+  private nextPriority(category: RuleCategory): number {
+    const row = this.db.prepare(
+      'SELECT MAX(priority) AS max_priority FROM filter_rules WHERE category = ?'
+    ).get(category) as { max_priority: number | null };
+    return row.max_priority === null ? 0 : row.max_priority + 1;
+  }
+
   /**
    * Create a new filter rule
+   * New rules are appended to the end of their category unless a priority is given
    * @param dto - Rule data
    * @param workerId - Optional worker ID to associate the rule with
+   * @param ruleSetId - Optional shared rule set to add the rule to, instead of a worker
    * @throws Error if duplicate rule exists
    */
-  create(dto: CreateRuleDTO, workerId?: string): FilterRuleWithWorker {
+  create(dto: CreateRuleDTO, workerId?: string, ruleSetId?: string): FilterRuleWithWorker {
     // Check for duplicate
-    const existing = this.findDuplicate(dto, workerId);
+    const existing = this.findDuplicate(dto, workerId, ruleSetId);
     if (existing) {
       throw new Error('DUPLICATE_RULE');
     }
@@ -80,13 +120,30 @@ export class RuleRepository {
     const now = new Date().toISOString();
     const enabled = dto.enabled !== undefined ? dto.enabled : true;
     const tags = dto.tags ? JSON.stringify(dto.tags) : null;
+    const conditions = dto.conditions ? JSON.stringify(dto.conditions) : null;
+    const exceptions = dto.exceptions && dto.exceptions.length > 0 ? JSON.stringify(dto.exceptions) : null;
+    const action = dto.action || 'drop';
+    const rejectReason = action === 'reject' ? dto.rejectReason || null : null;
+    const forwardTo = dto.forwardTo && dto.forwardTo.length > 0 ? dto.forwardTo : undefined;
+    const priority = dto.priority ?? this.nextPriority(dto.category);
+    const activeFrom = dto.activeFrom ? new Date(dto.activeFrom) : undefined;
+    const activeUntil = dto.activeUntil ? new Date(dto.activeUntil) : undefined;
+    const timeWindows = dto.timeWindows && dto.timeWindows.length > 0 ? dto.timeWindows : undefined;
+    const timezone = dto.timezone || undefined;
+    const mode = dto.mode || 'active';
+    const normalize = dto.normalize ?? false;
 
     const stmt = this.db.prepare(`
-      INSERT INTO filter_rules (id, worker_id, category, match_type, match_mode, pattern, tags, enabled, created_at, updated_at)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      INSERT INTO filter_rules (id, worker_id, category, match_type, match_mode, pattern, tags, enabled, created_at, updated_at, conditions, exceptions, action, reject_reason, forward_to, priority, active_from, active_until, time_windows, timezone, mode, normalize, rule_set_id)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
 
-    stmt.run(id, workerId || null, dto.category, dto.matchType, dto.matchMode, dto.pattern, tags, enabled ? 1 : 0, now, now);
+    stmt.run(
+      id, workerId || null, dto.category, dto.matchType, dto.matchMode, dto.pattern, tags, enabled ? 1 : 0, now, now,
+      conditions, exceptions, action, rejectReason, forwardTo ? JSON.stringify(forwardTo) : null, priority,
+      activeFrom ? activeFrom.toISOString() : null, activeUntil ? activeUntil.toISOString() : null,
+      timeWindows ? JSON.stringify(timeWindows) : null, timezone || null, mode, normalize ? 1 : 0, ruleSetId || null
+    );
 
     // Create associated stats record
     const statsStmt = this.db.prepare(`
@@ -98,10 +155,23 @@ export class RuleRepository {
     return {
       id,
       workerId,
+      ruleSetId,
       category: dto.category,
       matchType: dto.matchType,
       matchMode: dto.matchMode,
       pattern: dto.pattern,
+      conditions: dto.conditions,
+      exceptions: dto.exceptions && dto.exceptions.length > 0 ? dto.exceptions : undefined,
+      action,
+      rejectReason: rejectReason || undefined,
+      forwardTo,
+      priority,
+      activeFrom,
+      activeUntil,
+      timeWindows,
+      timezone,
+      mode,
+      normalize,
       tags: dto.tags,
       enabled,
       createdAt: new Date(now),
@@ -121,7 +191,7 @@ export class RuleRepository {
   /**
    * Get all rules with optional pagination and worker filter
    */
-  findAll(options?: { limit?: number; offset?: number; category?: RuleCategory; workerId?: string }): FilterRuleWithWorker[] {
+  findAll(options?: { limit?: number; offset?: number; category?: RuleCategory; workerId?: string; ruleSetId?: string }): FilterRuleWithWorker[] {
     let query = 'SELECT * FROM filter_rules WHERE 1=1';
     const params: (string | number)[] = [];
 
@@ -135,7 +205,12 @@ export class RuleRepository {
       params.push(options.workerId);
     }
 
-    query += ' ORDER BY created_at DESC';
+    if (options?.ruleSetId) {
+      query += ' AND rule_set_id = ?';
+      params.push(options.ruleSetId);
+    }
+
+    query += ' ORDER BY priority ASC, created_at DESC';
 
     if (options?.limit) {
       query += ' LIMIT ?';
@@ -153,19 +228,27 @@ export class RuleRepository {
 
   /**
    * Get all enabled rules, optionally filtered by worker
-   * @param workerId - If provided, returns rules for this worker + global rules (worker_id IS NULL)
+   * @param workerId - If provided, returns the worker's effective rules: global rules, rules of the
+   *   rule sets attached to it and its own rules, minus the inherited rules it overrides
    */
   findEnabled(workerId?: string): FilterRuleWithWorker[] {
     let query: string;
     let rows: RuleRow[];
 
     if (workerId) {
-      // Get rules specific to this worker OR global rules (worker_id IS NULL)
-      query = 'SELECT * FROM filter_rules WHERE enabled = 1 AND (worker_id = ? OR worker_id IS NULL) ORDER BY created_at DESC';
-      rows = this.db.prepare(query).all(workerId) as RuleRow[];
+      query = `
+        SELECT * FROM filter_rules
+        WHERE enabled = 1
+          AND (worker_id = ? OR (worker_id IS NULL AND (
+            rule_set_id IS NULL OR rule_set_id IN (SELECT rule_set_id FROM rule_set_workers WHERE worker_id = ?)
+          )))
+          AND id NOT IN (SELECT rule_id FROM rule_overrides WHERE worker_id = ?)
+        ORDER BY priority ASC, created_at DESC
+      `;
+      rows = this.db.prepare(query).all(workerId, workerId, workerId) as RuleRow[];
     } else {
       // Get all enabled rules
-      query = 'SELECT * FROM filter_rules WHERE enabled = 1 ORDER BY created_at DESC';
+      query = 'SELECT * FROM filter_rules WHERE enabled = 1 ORDER BY priority ASC, created_at DESC';
       rows = this.db.prepare(query).all() as RuleRow[];
     }
 
@@ -182,18 +265,27 @@ export class RuleRepository {
   }
 
   /**
-   * Get global rules (not associated with any worker)
+   * Get global rules (not associated with any worker or rule set)
    */
   findGlobal(): FilterRuleWithWorker[] {
-    const stmt = this.db.prepare('SELECT * FROM filter_rules WHERE worker_id IS NULL ORDER BY created_at DESC');
+    const stmt = this.db.prepare('SELECT * FROM filter_rules WHERE worker_id IS NULL AND rule_set_id IS NULL ORDER BY created_at DESC');
     const rows = stmt.all() as RuleRow[];
     return rows.map((row) => this.rowToRule(row));
   }
 
+  /**
+   * Get the rules of a shared rule set
+   */
+  findByRuleSet(ruleSetId: string): FilterRuleWithWorker[] {
+    const stmt = this.db.prepare('SELECT * FROM filter_rules WHERE rule_set_id = ? ORDER BY created_at DESC');
+    const rows = stmt.all(ruleSetId) as RuleRow[];
+    return rows.map((row) => this.rowToRule(row));
+  }
+
   /**
    * Update a rule
    */
-  update(id: string, dto: UpdateRuleDTO & { workerId?: string | null }): FilterRuleWithWorker | null {
+  update(id: string, dto: UpdateRuleDTO & { workerId?: string | null; ruleSetId?: string | null }): FilterRuleWithWorker | null {
     const existing = this.findById(id);
     if (!existing) {
       return null;
@@ -227,10 +319,62 @@ export class RuleRepository {
       updates.push('worker_id = ?');
       params.push(dto.workerId);
     }
+    if (dto.ruleSetId !== undefined) {
+      updates.push('rule_set_id = ?');
+      params.push(dto.ruleSetId);
+    }
     if (dto.tags !== undefined) {
       updates.push('tags = ?');
       params.push(dto.tags ? JSON.stringify(dto.tags) : null);
     }
+    if (dto.conditions !== undefined) {
+      updates.push('conditions = ?');
+      params.push(dto.conditions ? JSON.stringify(dto.conditions) : null);
+    }
+    if (dto.exceptions !== undefined) {
+      updates.push('exceptions = ?');
+      params.push(dto.exceptions && dto.exceptions.length > 0 ? JSON.stringify(dto.exceptions) : null);
+    }
+    if (dto.action !== undefined) {
+      updates.push('action = ?');
+      params.push(dto.action);
+    }
+    if (dto.rejectReason !== undefined) {
+      updates.push('reject_reason = ?');
+      params.push(dto.rejectReason || null);
+    }
+    if (dto.forwardTo !== undefined) {
+      updates.push('forward_to = ?');
+      params.push(dto.forwardTo && dto.forwardTo.length > 0 ? JSON.stringify(dto.forwardTo) : null);
+    }
+    if (dto.priority !== undefined) {
+      updates.push('priority = ?');
+      params.push(dto.priority);
+    }
+    if (dto.activeFrom !== undefined) {
+      updates.push('active_from = ?');
+      params.push(dto.activeFrom ? new Date(dto.activeFrom).toISOString() : null);
+    }
+    if (dto.activeUntil !== undefined) {
+      updates.push('active_until = ?');
+      params.push(dto.activeUntil ? new Date(dto.activeUntil).toISOString() : null);
+    }
+    if (dto.timeWindows !== undefined) {
+      updates.push('time_windows = ?');
+      params.push(dto.timeWindows && dto.timeWindows.length > 0 ? JSON.stringify(dto.timeWindows) : null);
+    }
+    if (dto.timezone !== undefined) {
+      updates.push('timezone = ?');
+      params.push(dto.timezone || null);
+    }
+    if (dto.mode !== undefined) {
+      updates.push('mode = ?');
+      params.push(dto.mode);
+    }
+    if (dto.normalize !== undefined) {
+      updates.push('normalize = ?');
+      params.push(dto.normalize ? 1 : 0);
+    }
 
     params.push(id);
 
@@ -240,6 +384,80 @@ export class RuleRepository {
     return this.findById(id);
   }
 
+  /**
+   * Write a rule back with its original ID, e.g. when reverting to an earlier version
+   * Recreates the rule when it has been deleted, otherwise overwrites every field;
+   * its hit statistics and last hit time are kept.
+   */
+  restore(rule: FilterRuleWithWorker): FilterRuleWithWorker {
+    const now = new Date().toISOString();
+    const toIso = (value?: Date | string) => (value ? new Date(value).toISOString() : null);
+
+    this.db.transaction(() => {
+      this.db.prepare(`
+        INSERT INTO filter_rules (id, worker_id, category, match_type, match_mode, pattern, tags, enabled, created_at, updated_at, conditions, exceptions, action, reject_reason, forward_to, priority, active_from, active_until, time_windows, timezone, mode, normalize, rule_set_id)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT(id) DO UPDATE SET
+          worker_id = excluded.worker_id, category = excluded.category, match_type = excluded.match_type,
+          match_mode = excluded.match_mode, pattern = excluded.pattern, tags = excluded.tags, enabled = excluded.enabled,
+          updated_at = excluded.updated_at, conditions = excluded.conditions, exceptions = excluded.exceptions,
+          action = excluded.action, reject_reason = excluded.reject_reason, forward_to = excluded.forward_to,
+          priority = excluded.priority, active_from = excluded.active_from, active_until = excluded.active_until,
+          time_windows = excluded.time_windows, timezone = excluded.timezone, mode = excluded.mode, normalize = excluded.normalize,
+          rule_set_id = excluded.rule_set_id
+      `).run(
+        rule.id, rule.workerId || null, rule.category, rule.matchType, rule.matchMode, rule.pattern,
+        rule.tags ? JSON.stringify(rule.tags) : null, rule.enabled ? 1 : 0, toIso(rule.createdAt) || now, now,
+        rule.conditions ? JSON.stringify(rule.conditions) : null,
+        rule.exceptions && rule.exceptions.length > 0 ? JSON.stringify(rule.exceptions) : null,
+        rule.action || 'drop', rule.action === 'reject' ? rule.rejectReason || null : null,
+        rule.forwardTo && rule.forwardTo.length > 0 ? JSON.stringify(rule.forwardTo) : null,
+        rule.priority ?? this.nextPriority(rule.category), toIso(rule.activeFrom), toIso(rule.activeUntil),
+        rule.timeWindows && rule.timeWindows.length > 0 ? JSON.stringify(rule.timeWindows) : null,
+        rule.timezone || null, rule.mode || 'active', rule.normalize ? 1 : 0, rule.ruleSetId || null
+      );
+      this.db.prepare(`
+        INSERT OR IGNORE INTO rule_stats (rule_id, total_processed, deleted_count, error_count, last_updated)
+        VALUES (?, 0, 0, 0, ?)
+      `).run(rule.id, now);
+    })();
+
+    return this.findById(rule.id)!;
+  }
+
+  /**
+   * Reorder rules within a category
+   * The given rules keep the positions they currently occupy in the category
+   * but take them in the given order; the category is then renumbered 0..n-1.
+   * This lets a filtered view (e.g. a single worker) reorder its own rules.
+   *
+   * @param category - Category the rules belong to
+   * @param ruleIds - IDs of rules in the category, in their new order
+   * @returns The category's rules in their new order
+   */
+  reorder(category: RuleCategory, ruleIds: string[]): FilterRuleWithWorker[] {
+    const now = new Date().toISOString();
+    const rows = this.db.prepare(
+      'SELECT id FROM filter_rules WHERE category = ? ORDER BY priority ASC, created_at DESC, id ASC'
+    ).all(category) as { id: string }[];
+    const order = rows.map((row) => row.id);
+
+    const moved = new Set(ruleIds);
+    const slots = order.map((id, index) => (moved.has(id) ? index : -1)).filter((index) => index !== -1);
+    slots.forEach((slot, i) => {
+      order[slot] = ruleIds[i];
+    });
+
+    const setPriority = this.db.prepare('UPDATE filter_rules SET priority = ? WHERE id = ?');
+    const touch = this.db.prepare('UPDATE filter_rules SET updated_at = ? WHERE id = ?');
+    this.db.transaction(() => {
+      order.forEach((id, index) => setPriority.run(index, id));
+      ruleIds.forEach((id) => touch.run(now, id));
+    })();
+
+    return this.findAll({ category });
+  }
+
   /**
    * Toggle rule enabled status
    */
@@ -258,6 +476,28 @@ export class RuleRepository {
     return this.findById(id);
   }
 
+  /**
+   * Disable enabled rules whose activeUntil has passed
+   * @param now - Reference time, defaults to the current time
+   * @returns The rules that were disabled
+   */
+  disableExpired(now: Date = new Date()): FilterRuleWithWorker[] {
+    const timestamp = now.toISOString();
+    const rows = this.db.prepare(
+      'SELECT * FROM filter_rules WHERE enabled = 1 AND active_until IS NOT NULL AND active_until <= ?'
+    ).all(timestamp) as RuleRow[];
+    if (rows.length === 0) {
+      return [];
+    }
+
+    const stmt = this.db.prepare('UPDATE filter_rules SET enabled = 0, updated_at = ? WHERE id = ?');
+    this.db.transaction(() => {
+      rows.forEach((row) => stmt.run(timestamp, row.id));
+    })();
+
+    return rows.map((row) => this.rowToRule({ ...row, enabled: 0, updated_at: timestamp }));
+  }
+
   /**
    * Delete a rule (cascade deletes stats)
    */
@@ -0,0 +1,66 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { Database } from 'better-sqlite3';
+import { RuleRepository } from './rule-repository.js';
+import { RuleSetRepository } from './rule-set-repository.js';
+import { createTestDatabase } from '../test-utils/sql-js-database.js';
+
+describe('RuleSetRepository', () => {
+  let db: Database;
+  let ruleSets: RuleSetRepository;
+  let rules: RuleRepository;
+
+  beforeEach(async () => {
+    db = await createTestDatabase();
+    const now = new Date().toISOString();
+    for (const id of ['w1', 'w2']) {
+      db.prepare('INSERT INTO worker_instances (id, name, default_forward_to, created_at, updated_at) VALUES (?, ?, ?, ?, ?)')
+        .run(id, id, 'a@example.com', now, now);
+    }
+    ruleSets = new RuleSetRepository(db);
+    rules = new RuleRepository(db);
+  });
+
+  it('should create, rename and delete rule sets, listed by name', () => {
+    const retail = ruleSets.create({ name: 'retail', description: 'Shop newsletters' });
+    const banks = ruleSets.create({ name: 'banks' });
+
+    expect(ruleSets.findAll().map((set) => set.name)).toEqual(['banks', 'retail']);
+    expect(ruleSets.findByName('retail')).toMatchObject({ id: retail.id, description: 'Shop newsletters', workerIds: [], ruleCount: 0 });
+
+    expect(ruleSets.update(retail.id, { name: 'shops', description: null })).toMatchObject({ name: 'shops', description: undefined });
+    expect(ruleSets.delete(banks.id)).toBe(true);
+    expect(ruleSets.delete(banks.id)).toBe(false);
+    expect(ruleSets.findAll().map((set) => set.name)).toEqual(['shops']);
+  });
+
+  it('should replace worker attachments and count the rules of each set', () => {
+    const retail = ruleSets.create({ name: 'retail' });
+    rules.create({ category: 'blacklist', matchType: 'sender', matchMode: 'contains', pattern: 'promo' }, undefined, retail.id);
+
+    ruleSets.setWorkers(retail.id, ['w1', 'w2']);
+    expect(ruleSets.findById(retail.id)).toMatchObject({ workerIds: ['w1', 'w2'], ruleCount: 1 });
+    expect(ruleSets.findByWorker('w2').map((set) => set.id)).toEqual([retail.id]);
+
+    ruleSets.setWorkers(retail.id, ['w1']);
+    expect(ruleSets.findWorkerIds(retail.id)).toEqual(['w1']);
+    expect(ruleSets.findByWorker('w2')).toEqual([]);
+  });
+
+  it('should add and remove overrides once and report the inheritance of every worker', () => {
+    const retail = ruleSets.create({ name: 'retail' });
+    ruleSets.setWorkers(retail.id, ['w1']);
+    const rule = rules.create({ category: 'blacklist', matchType: 'sender', matchMode: 'contains', pattern: 'promo' });
+
+    expect(ruleSets.addOverride('w2', rule.id)).toBe(true);
+    expect(ruleSets.addOverride('w2', rule.id)).toBe(false);
+    expect(ruleSets.findOverrides('w2')).toEqual([rule.id]);
+
+    const inheritance = ruleSets.findInheritance();
+    expect(inheritance.ruleSetIds).toEqual(new Map([['w1', new Set([retail.id])]]));
+    expect(inheritance.overrides).toEqual(new Map([['w2', new Set([rule.id])]]));
+
+    expect(ruleSets.removeOverride('w2', rule.id)).toBe(true);
+    expect(ruleSets.removeOverride('w2', rule.id)).toBe(false);
+    expect(ruleSets.findOverrides('w2')).toEqual([]);
+  });
+});
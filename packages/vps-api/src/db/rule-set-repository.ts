@@ -0,0 +1,220 @@
+import type { Database } from 'better-sqlite3';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * A named set of filter rules shared by the workers it is attached to
+ */
+export interface RuleSet {
+  id: string;
+  name: string;
+  description?: string;
+  /** Workers the set is attached to */
+  workerIds: string[];
+  ruleCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateRuleSetInput {
+  name: string;
+  description?: string;
+}
+
+export interface UpdateRuleSetInput {
+  name?: string;
+  description?: string | null;
+}
+
+/**
+ * Per-worker inheritance: the rule sets each worker is attached to and the
+ * inherited rules it overrides
+ */
+export interface WorkerRuleInheritance {
+  ruleSetIds: Map<string, Set<string>>;
+  overrides: Map<string, Set<string>>;
+}
+
+interface RuleSetRow {
+  id: string;
+  name: string;
+  description: string | null;
+  rule_count: number;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Repository for shared rule sets, their worker attachments and per-worker overrides
+ */
+export class RuleSetRepository {
+  constructor(private db: Database) {}
+
+  private rowToRuleSet(row: RuleSetRow, workerIds: string[]): RuleSet {
+    return {
+      id: row.id,
+      name: row.name,
+      description: row.description || undefined,
+      workerIds,
+      ruleCount: row.rule_count,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+
+  private selectSets(where: string, ...params: string[]): RuleSet[] {
+    const rows = this.db.prepare(`
+      SELECT s.*, (SELECT COUNT(*) FROM filter_rules r WHERE r.rule_set_id = s.id) AS rule_count
+      FROM rule_sets s
+      ${where}
+      ORDER BY s.name ASC
+    `).all(...params) as RuleSetRow[];
+    const workers = this.findAttachments();
+    return rows.map((row) => this.rowToRuleSet(row, workers.get(row.id) || []));
+  }
+
+  /**
+   * Worker IDs by rule set
+   */
+  private findAttachments(): Map<string, string[]> {
+    const rows = this.db.prepare(
+      'SELECT rule_set_id, worker_id FROM rule_set_workers ORDER BY created_at ASC'
+    ).all() as { rule_set_id: string; worker_id: string }[];
+    const attachments = new Map<string, string[]>();
+    for (const row of rows) {
+      attachments.set(row.rule_set_id, [...(attachments.get(row.rule_set_id) || []), row.worker_id]);
+    }
+    return attachments;
+  }
+
+  /**
+   * Get all rule sets, by name
+   */
+  findAll(): RuleSet[] {
+    return this.selectSets('');
+  }
+
+  /**
+   * Get a rule set by ID
+   */
+  findById(id: string): RuleSet | null {
+    return this.selectSets('WHERE s.id = ?', id)[0] || null;
+  }
+
+  /**
+   * Get a rule set by name
+   */
+  findByName(name: string): RuleSet | null {
+    return this.selectSets('WHERE s.name = ?', name)[0] || null;
+  }
+
+  /**
+   * Get the rule sets attached to a worker
+   */
+  findByWorker(workerId: string): RuleSet[] {
+    return this.selectSets('WHERE s.id IN (SELECT rule_set_id FROM rule_set_workers WHERE worker_id = ?)', workerId);
+  }
+
+  /**
+   * Create a rule set, attached to no worker
+   */
+  create(input: CreateRuleSetInput): RuleSet {
+    const id = uuidv4();
+    const now = new Date().toISOString();
+    this.db.prepare(
+      'INSERT INTO rule_sets (id, name, description, created_at, updated_at) VALUES (?, ?, ?, ?, ?)'
+    ).run(id, input.name, input.description || null, now, now);
+    return this.findById(id)!;
+  }
+
+  /**
+   * Update the name or description of a rule set
+   */
+  update(id: string, input: UpdateRuleSetInput): RuleSet | null {
+    const updates: string[] = ['updated_at = ?'];
+    const params: (string | null)[] = [new Date().toISOString()];
+    if (input.name !== undefined) {
+      updates.push('name = ?');
+      params.push(input.name);
+    }
+    if (input.description !== undefined) {
+      updates.push('description = ?');
+      params.push(input.description || null);
+    }
+    params.push(id);
+    this.db.prepare(`UPDATE rule_sets SET ${updates.join(', ')} WHERE id = ?`).run(...params);
+    return this.findById(id);
+  }
+
+  /**
+   * Delete a rule set (cascade deletes its worker attachments)
+   * Its rules are not deleted here.
+   */
+  delete(id: string): boolean {
+    return this.db.prepare('DELETE FROM rule_sets WHERE id = ?').run(id).changes > 0;
+  }
+
+  /**
+   * Replace the workers a rule set is attached to
+   */
+  setWorkers(id: string, workerIds: string[]): void {
+    const now = new Date().toISOString();
+    const insert = this.db.prepare('INSERT OR IGNORE INTO rule_set_workers (rule_set_id, worker_id, created_at) VALUES (?, ?, ?)');
+    this.db.transaction(() => {
+      this.db.prepare('DELETE FROM rule_set_workers WHERE rule_set_id = ?').run(id);
+      workerIds.forEach((workerId) => insert.run(id, workerId, now));
+      this.db.prepare('UPDATE rule_sets SET updated_at = ? WHERE id = ?').run(now, id);
+    })();
+  }
+
+  /**
+   * Disable an inherited rule for a worker
+   * @returns false when the override already existed
+   */
+  addOverride(workerId: string, ruleId: string): boolean {
+    return this.db.prepare(
+      'INSERT OR IGNORE INTO rule_overrides (worker_id, rule_id, created_at) VALUES (?, ?, ?)'
+    ).run(workerId, ruleId, new Date().toISOString()).changes > 0;
+  }
+
+  /**
+   * Re-enable an inherited rule for a worker
+   */
+  removeOverride(workerId: string, ruleId: string): boolean {
+    return this.db.prepare('DELETE FROM rule_overrides WHERE worker_id = ? AND rule_id = ?').run(workerId, ruleId).changes > 0;
+  }
+
+  /**
+   * Get the IDs of the inherited rules a worker overrides
+   */
+  findOverrides(workerId: string): string[] {
+    const rows = this.db.prepare(
+      'SELECT rule_id FROM rule_overrides WHERE worker_id = ? ORDER BY created_at ASC'
+    ).all(workerId) as { rule_id: string }[];
+    return rows.map((row) => row.rule_id);
+  }
+
+  /**
+   * Get the IDs of the workers a rule set is attached to
+   */
+  findWorkerIds(id: string): string[] {
+    return this.findAttachments().get(id) || [];
+  }
+
+  /**
+   * Get the rule set attachments and overrides of every worker
+   */
+  findInheritance(): WorkerRuleInheritance {
+    const inheritance: WorkerRuleInheritance = { ruleSetIds: new Map(), overrides: new Map() };
+    const add = (map: Map<string, Set<string>>, key: string, value: string) => {
+      map.set(key, (map.get(key) || new Set<string>()).add(value));
+    };
+
+    const attachments = this.db.prepare('SELECT rule_set_id, worker_id FROM rule_set_workers').all() as { rule_set_id: string; worker_id: string }[];
+    attachments.forEach((row) => add(inheritance.ruleSetIds, row.worker_id, row.rule_set_id));
+
+    const overrides = this.db.prepare('SELECT worker_id, rule_id FROM rule_overrides').all() as { worker_id: string; rule_id: string }[];
+    overrides.forEach((row) => add(inheritance.overrides, row.worker_id, row.rule_id));
+
+    return inheritance;
+  }
+}
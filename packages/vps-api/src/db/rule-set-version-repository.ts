@@ -0,0 +1,127 @@
+import type { Database } from 'better-sqlite3';
+import type { RuleHistoryActor, RuleSnapshot } from './rule-history-repository.js';
+import type { RuleDraftOperation } from './rule-draft-repository.js';
+
+/**
+ * What produced a published version
+ * baseline records the rules a worker had before its first publish
+ */
+export type RuleSetVersionAction = 'baseline' | 'publish' | 'rollback';
+
+/**
+ * A draft change as applied by a publish
+ */
+export interface AppliedRuleChange {
+  operation: RuleDraftOperation;
+  ruleId: string;
+  pattern: string;
+}
+
+/**
+ * One published version of a worker's rules
+ */
+export interface RuleSetVersion {
+  id: number;
+  /** Worker the version belongs to, undefined for global rules */
+  workerId?: string;
+  version: number;
+  action: RuleSetVersionAction;
+  /** Every rule of the worker once the version was published */
+  rules: RuleSnapshot[];
+  /** Draft changes applied by a publish */
+  changes?: AppliedRuleChange[];
+  /** Version a rollback restored */
+  rolledBackTo?: number;
+  publishedById?: string;
+  publishedBy?: string;
+  createdAt: Date;
+}
+
+interface RuleSetVersionRow {
+  id: number;
+  worker_id: string;
+  version: number;
+  action: string;
+  rules: string;
+  changes: string | null;
+  rolled_back_to: number | null;
+  published_by_id: string | null;
+  published_by: string | null;
+  created_at: string;
+}
+
+/**
+ * Repository for published rule set versions
+ * Versions are numbered per worker; the global scope uses an empty worker ID.
+ */
+export class RuleSetVersionRepository {
+  constructor(private db: Database) {}
+
+  private rowToVersion(row: RuleSetVersionRow): RuleSetVersion {
+    return {
+      id: row.id,
+      workerId: row.worker_id || undefined,
+      version: row.version,
+      action: row.action as RuleSetVersionAction,
+      rules: JSON.parse(row.rules),
+      changes: row.changes ? JSON.parse(row.changes) : undefined,
+      rolledBackTo: row.rolled_back_to ?? undefined,
+      publishedById: row.published_by_id || undefined,
+      publishedBy: row.published_by || undefined,
+      createdAt: new Date(row.created_at),
+    };
+  }
+
+  /**
+   * Store the next version of a worker's rules
+   */
+  create(
+    workerId: string | undefined,
+    action: RuleSetVersionAction,
+    rules: RuleSnapshot[],
+    details: { changes?: AppliedRuleChange[]; rolledBackTo?: number },
+    actor: RuleHistoryActor
+  ): RuleSetVersion {
+    const version = this.getLatestVersion(workerId) + 1;
+    const result = this.db.prepare(`
+      INSERT INTO rule_set_versions (worker_id, version, action, rules, changes, rolled_back_to, published_by_id, published_by, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      workerId || '', version, action, JSON.stringify(rules),
+      details.changes ? JSON.stringify(details.changes) : null, details.rolledBackTo ?? null,
+      actor.userId || null, actor.username || null, new Date().toISOString()
+    );
+    const row = this.db.prepare('SELECT * FROM rule_set_versions WHERE id = ?').get(Number(result.lastInsertRowid)) as RuleSetVersionRow;
+    return this.rowToVersion(row);
+  }
+
+  /**
+   * Latest version number of a worker's rules, 0 when nothing was published
+   */
+  getLatestVersion(workerId?: string): number {
+    const row = this.db.prepare(
+      'SELECT MAX(version) AS version FROM rule_set_versions WHERE worker_id = ?'
+    ).get(workerId || '') as { version: number | null } | undefined;
+    return row?.version ?? 0;
+  }
+
+  /**
+   * Get the published versions of a worker's rules, newest first
+   */
+  findByWorker(workerId?: string): RuleSetVersion[] {
+    const rows = this.db.prepare(
+      'SELECT * FROM rule_set_versions WHERE worker_id = ? ORDER BY version DESC'
+    ).all(workerId || '') as RuleSetVersionRow[];
+    return rows.map((row) => this.rowToVersion(row));
+  }
+
+  /**
+   * Get one published version of a worker's rules
+   */
+  findVersion(workerId: string | undefined, version: number): RuleSetVersion | null {
+    const row = this.db.prepare(
+      'SELECT * FROM rule_set_versions WHERE worker_id = ? AND version = ?'
+    ).get(workerId || '', version) as RuleSetVersionRow | undefined;
+    return row ? this.rowToVersion(row) : null;
+  }
+}
@@ -0,0 +1,106 @@
+import type { Database } from 'better-sqlite3';
+import type { MatchMode, MatchType } from '@email-filter/shared';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * A rule suggestion an admin dismissed, so it is never suggested again
+ */
+export interface RuleSuggestionDismissal {
+  id: string;
+  matchType: MatchType;
+  matchMode: MatchMode;
+  pattern: string;
+  dismissedBy?: string;
+  createdAt: Date;
+}
+
+export interface DismissRuleSuggestionInput {
+  matchType: MatchType;
+  matchMode: MatchMode;
+  pattern: string;
+}
+
+interface DismissalRow {
+  id: string;
+  match_type: string;
+  match_mode: string;
+  pattern: string;
+  dismissed_by: string | null;
+  created_at: string;
+}
+
+/**
+ * Key identifying a suggested rule: regex patterns as written, others lowercased
+ * since they match case-insensitively
+ */
+export function suggestionKey(input: DismissRuleSuggestionInput): string {
+  const pattern = input.matchMode === 'regex' ? input.pattern : input.pattern.toLowerCase();
+  return JSON.stringify([input.matchType, input.matchMode, pattern]);
+}
+
+/**
+ * Repository for dismissed rule suggestions
+ */
+export class RuleSuggestionRepository {
+  constructor(private db: Database) {}
+
+  private rowToDismissal(row: DismissalRow): RuleSuggestionDismissal {
+    return {
+      id: row.id,
+      matchType: row.match_type as MatchType,
+      matchMode: row.match_mode as MatchMode,
+      pattern: row.pattern,
+      dismissedBy: row.dismissed_by || undefined,
+      createdAt: new Date(row.created_at),
+    };
+  }
+
+  /**
+   * Get every dismissal, most recent first
+   */
+  findAll(): RuleSuggestionDismissal[] {
+    const rows = this.db.prepare('SELECT * FROM rule_suggestion_dismissals ORDER BY created_at DESC').all() as DismissalRow[];
+    return rows.map((row) => this.rowToDismissal(row));
+  }
+
+  /**
+   * Get the suggestion keys of every dismissal
+   */
+  findKeys(): Set<string> {
+    return new Set(this.findAll().map((dismissal) => suggestionKey(dismissal)));
+  }
+
+  /**
+   * Dismiss a suggestion, returning the existing dismissal when it was already dismissed
+   */
+  dismiss(input: DismissRuleSuggestionInput, dismissedBy?: string): RuleSuggestionDismissal {
+    const pattern = input.matchMode === 'regex' ? input.pattern : input.pattern.toLowerCase();
+    const existing = this.db.prepare(
+      'SELECT * FROM rule_suggestion_dismissals WHERE match_type = ? AND match_mode = ? AND pattern = ?'
+    ).get(input.matchType, input.matchMode, pattern) as DismissalRow | undefined;
+    if (existing) {
+      return this.rowToDismissal(existing);
+    }
+
+    const row: DismissalRow = {
+      id: uuidv4(),
+      match_type: input.matchType,
+      match_mode: input.matchMode,
+      pattern,
+      dismissed_by: dismissedBy || null,
+      created_at: new Date().toISOString(),
+    };
+    this.db.prepare(
+      `INSERT INTO rule_suggestion_dismissals (id, match_type, match_mode, pattern, dismissed_by, created_at)
+       VALUES (?, ?, ?, ?, ?, ?)`
+    ).run(row.id, row.match_type, row.match_mode, row.pattern, row.dismissed_by, row.created_at);
+    return this.rowToDismissal(row);
+  }
+
+  /**
+   * Undo a dismissal
+   */
+  delete(id: string): boolean {
+    return this.db.prepare('DELETE FROM rule_suggestion_dismissals WHERE id = ?').run(id).changes > 0;
+  }
+}
@@ -0,0 +1,199 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import type { RuleCategory } from '@email-filter/shared';
+import { runMigrations } from './run-migrations.js';
+import { createTestDatabase } from '../test-utils/sql-js-database.js';
+
+/**
+ * Rule and log tables as created before the CHECK constraints were widened
+ */
+const BASELINE_SCHEMA = `
+  CREATE TABLE worker_instances (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL UNIQUE,
+    domain TEXT,
+    default_forward_to TEXT NOT NULL,
+    worker_url TEXT,
+    enabled INTEGER NOT NULL DEFAULT 1,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE TABLE filter_rules (
+    id TEXT PRIMARY KEY,
+    worker_id TEXT,
+    category TEXT NOT NULL CHECK(category IN ('whitelist', 'blacklist', 'dynamic')),
+    match_type TEXT NOT NULL CHECK(match_type IN ('sender', 'subject', 'domain')),
+    match_mode TEXT NOT NULL CHECK(match_mode IN ('exact', 'contains', 'startsWith', 'endsWith', 'regex')),
+    pattern TEXT NOT NULL,
+    tags TEXT,
+    enabled INTEGER NOT NULL DEFAULT 1,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    last_hit_at TEXT,
+    FOREIGN KEY (worker_id) REFERENCES worker_instances(id) ON DELETE CASCADE,
+    UNIQUE(worker_id, category, match_type, match_mode, pattern)
+  );
+  CREATE INDEX idx_filter_rules_worker ON filter_rules(worker_id);
+  CREATE TABLE rule_stats (
+    rule_id TEXT PRIMARY KEY,
+    total_processed INTEGER NOT NULL DEFAULT 0,
+    deleted_count INTEGER NOT NULL DEFAULT 0,
+    error_count INTEGER NOT NULL DEFAULT 0,
+    last_updated TEXT NOT NULL,
+    FOREIGN KEY (rule_id) REFERENCES filter_rules(id) ON DELETE CASCADE
+  );
+  CREATE TABLE system_logs (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    category TEXT NOT NULL CHECK(category IN ('email_forward', 'email_drop', 'admin_action', 'system')),
+    level TEXT NOT NULL DEFAULT 'info' CHECK(level IN ('info', 'warn', 'error')),
+    message TEXT NOT NULL,
+    details TEXT,
+    worker_name TEXT DEFAULT 'global',
+    created_at TEXT NOT NULL
+  );
+  CREATE INDEX idx_logs_category ON system_logs(category);
+  CREATE INDEX idx_logs_created ON system_logs(created_at DESC);
+`;
+
+describe('runMigrations', () => {
+  describe('CHECK constraint rebuilds', () => {
+    it('should upgrade a baseline database keeping its rows, indexes and foreign keys', async () => {
+      const db = await createTestDatabase(BASELINE_SCHEMA);
+      const now = '2024-01-01T00:00:00.000Z';
+      db.pragma('foreign_keys = ON');
+      db.prepare('INSERT INTO worker_instances (id, name, default_forward_to, created_at, updated_at) VALUES (?, ?, ?, ?, ?)')
+        .run('w1', 'w1', 'a@example.com', now, now);
+      const insertRule = db.prepare(`
+        INSERT INTO filter_rules (id, worker_id, category, match_type, match_mode, pattern, created_at, updated_at)
+        VALUES (?, ?, 'blacklist', 'sender', 'contains', ?, ?, ?)
+      `);
+      insertRule.run('r1', null, 'spam', now, now);
+      insertRule.run('r2', 'w1', 'promo', now, now);
+      const insertStats = db.prepare('INSERT INTO rule_stats (rule_id, total_processed, deleted_count, last_updated) VALUES (?, ?, ?, ?)');
+      insertStats.run('r1', 10, 4, now);
+      insertStats.run('r2', 3, 1, now);
+      db.prepare("INSERT INTO system_logs (category, message, created_at) VALUES ('email_drop', 'dropped', ?)").run(now);
+
+      expect(runMigrations(db, true).errors).toBe(0);
+
+      expect(db.prepare('SELECT id, worker_id, pattern FROM filter_rules ORDER BY id').all()).toEqual([
+        { id: 'r1', worker_id: null, pattern: 'spam' },
+        { id: 'r2', worker_id: 'w1', pattern: 'promo' },
+      ]);
+      expect(db.prepare('SELECT rule_id, total_processed, deleted_count FROM rule_stats ORDER BY rule_id').all()).toEqual([
+        { rule_id: 'r1', total_processed: 10, deleted_count: 4 },
+        { rule_id: 'r2', total_processed: 3, deleted_count: 1 },
+      ]);
+      expect(db.prepare('SELECT COUNT(*) AS count FROM system_logs').get()).toEqual({ count: 1 });
+
+      const indexes = (db.prepare("SELECT name FROM sqlite_master WHERE type = 'index'").all() as { name: string }[]).map((row) => row.name);
+      expect(indexes).toEqual(expect.arrayContaining(['idx_filter_rules_worker', 'idx_logs_category', 'idx_logs_created']));
+
+      // The widened constraints accept the new values
+      db.prepare(`
+        INSERT INTO filter_rules (id, category, match_type, match_mode, pattern, created_at, updated_at)
+        VALUES ('r3', 'blacklist', 'recipientDomain', 'domainTree', 'example.com', ?, ?)
+      `).run(now, now);
+      db.prepare("INSERT INTO system_logs (category, message, created_at) VALUES ('email_shadow', 'shadow', ?)").run(now);
+
+      expect(db.pragma('foreign_keys', { simple: true })).toBe(1);
+      expect(db.pragma('foreign_key_check')).toEqual([]);
+      expect(db.prepare('PRAGMA foreign_key_list(filter_rules)').all()).toEqual([
+        expect.objectContaining({ table: 'worker_instances', from: 'worker_id', on_delete: 'CASCADE' }),
+      ]);
+      // Deleting a rule or worker still cascades to the rows that reference it
+      db.prepare("DELETE FROM filter_rules WHERE id = 'r1'").run();
+      db.prepare("DELETE FROM worker_instances WHERE id = 'w1'").run();
+      expect(db.prepare('SELECT id FROM filter_rules').all()).toEqual([{ id: 'r3' }]);
+      expect(db.prepare('SELECT rule_id FROM rule_stats').all()).toEqual([]);
+    });
+  });
+
+  describe('unsupported regex rules', () => {
+    it('should disable the rules whose regex patterns the linear engine cannot run', async () => {
+      const db = await createTestDatabase();
+      const now = '2024-01-01T00:00:00.000Z';
+      const insertRule = db.prepare(`
+        INSERT INTO filter_rules (id, category, match_type, match_mode, pattern, conditions, exceptions, enabled, created_at, updated_at)
+        VALUES (?, 'blacklist', ?, ?, ?, ?, ?, 1, ?, ?)
+      `);
+      insertRule.run('lookaround', 'subject', 'regex', 'invoice(?! paid)', null, null, now, now);
+      insertRule.run('header', 'header', 'regex', 'List-Id: (a)\\1', null, null, now, now);
+      insertRule.run('exception', 'sender', 'contains', 'shop', null, JSON.stringify([{ matchType: 'subject', matchMode: 'regex', pattern: '(?<=re: )order' }]), now, now);
+      insertRule.run('condition', 'subject', 'contains', 'compound', JSON.stringify({
+        operator: 'or',
+        conditions: [{ matchType: 'sender', matchMode: 'contains', pattern: 'a' }, { matchType: 'subject', matchMode: 'regex', pattern: '(x)\\1' }],
+      }), null, now, now);
+      insertRule.run('unsafe', 'subject', 'regex', '(a+)+$', null, null, now, now);
+      insertRule.run('safe', 'subject', 'regex', '^order #\\d+$', null, null, now, now);
+      insertRule.run('literal', 'subject', 'contains', 'a(?=b)', null, null, now, now);
+      db.prepare(`
+        INSERT INTO monitoring_rules (id, merchant, name, subject_pattern, match_mode, expected_interval_minutes, dead_after_minutes, created_at, updated_at)
+        VALUES ('m1', 'shop.com', 'Orders', 'order(?!ed)', 'regex', 60, 180, ?, ?)
+      `).run(now, now);
+
+      expect(runMigrations(db, true).errors).toBe(0);
+
+      expect(db.prepare('SELECT id FROM filter_rules WHERE enabled = 0 ORDER BY id').all()).toEqual([
+        { id: 'condition' },
+        { id: 'exception' },
+        { id: 'header' },
+        { id: 'lookaround' },
+      ]);
+      expect(db.prepare('SELECT enabled FROM monitoring_rules').get()).toEqual({ enabled: 0 });
+
+      // Nothing is left to disable on the next startup
+      expect(runMigrations(db, true).applied).toBe(0);
+    });
+  });
+
+  describe('filter_rules.priority', () => {
+    const ruleArb = fc.record({
+      category: fc.constantFrom<RuleCategory>('whitelist', 'blacklist', 'dynamic'),
+      createdAt: fc.integer({ min: 0, max: 1000 }),
+    });
+
+    it('should number existing rules per category, newest first', async () => {
+      await fc.assert(
+        fc.asyncProperty(fc.array(ruleArb, { maxLength: 15 }), async (specs) => {
+          const db = await createTestDatabase();
+          // A database from before the column was added
+          db.exec('ALTER TABLE filter_rules DROP COLUMN priority');
+          const insert = db.prepare(`
+            INSERT INTO filter_rules (id, category, match_type, match_mode, pattern, enabled, created_at, updated_at)
+            VALUES (?, ?, 'sender', 'contains', ?, 1, ?, ?)
+          `);
+          specs.forEach((spec, i) => {
+            const createdAt = new Date(Date.UTC(2024, 0, 1) + spec.createdAt * 60000).toISOString();
+            insert.run(`r${String(i).padStart(2, '0')}`, spec.category, `p${i}`, createdAt, createdAt);
+          });
+
+          expect(runMigrations(db, true).errors).toBe(0);
+
+          const rows = db.prepare('SELECT id, category, created_at, priority FROM filter_rules').all() as {
+            id: string;
+            category: RuleCategory;
+            created_at: string;
+            priority: number;
+          }[];
+          for (const category of ['whitelist', 'blacklist', 'dynamic']) {
+            const inCategory = rows.filter((row) => row.category === category);
+            const previousOrder = [...inCategory]
+              .sort((a, b) => b.created_at.localeCompare(a.created_at) || a.id.localeCompare(b.id))
+              .map((row) => row.id);
+            const byPriority = [...inCategory].sort((a, b) => a.priority - b.priority);
+            expect(byPriority.map((row) => row.priority)).toEqual(inCategory.map((_, i) => i));
+            expect(byPriority.map((row) => row.id)).toEqual(previousOrder);
+          }
+
+          // Running again leaves the numbering alone
+          db.prepare("UPDATE filter_rules SET priority = 7 WHERE category = 'whitelist'").run();
+          runMigrations(db, true);
+          const whitelist = db.prepare("SELECT priority FROM filter_rules WHERE category = 'whitelist'").all() as { priority: number }[];
+          expect(whitelist.every((row) => row.priority === 7)).toBe(true);
+        }),
+        { numRuns: 20 }
+      );
+    });
+  });
+});
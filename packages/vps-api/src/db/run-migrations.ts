@@ -8,6 +8,8 @@
  */
 
 import type Database from 'better-sqlite3';
+import type { MatchMode, MatchType, RuleCondition, RuleConditionNode } from '@email-filter/shared';
+import { analyzeRegex, conditionLeaves, parseHeaderPattern } from '@email-filter/shared';
 
 // ============================================
 // Helper Functions
@@ -419,6 +421,657 @@ function migrateSubjectStatsAddIgnored(db: Database.Database): MigrationResult {
   return { name, status: 'applied', message: 'Column is_ignored added successfully' };
 }
 
+/**
+ * Migration 24: Add conditions and exceptions columns to filter_rules for compound rules
+ */
+function migrateFilterRulesConditions(db: Database.Database): MigrationResult {
+  const name = 'filter_rules.conditions';
+  if (!tableExists(db, 'filter_rules')) {
+    return { name, status: 'skipped', message: 'Table does not exist' };
+  }
+  if (columnExists(db, 'filter_rules', 'conditions')) {
+    return { name, status: 'skipped', message: 'Column already exists' };
+  }
+  db.exec('ALTER TABLE filter_rules ADD COLUMN conditions TEXT');
+  db.exec('ALTER TABLE filter_rules ADD COLUMN exceptions TEXT');
+  return { name, status: 'applied', message: 'Columns added successfully' };
+}
+
+/**
+ * Match types allowed by the filter_rules CHECK constraint
+ */
+const FILTER_RULE_MATCH_TYPES = [
+  'sender',
+  'subject',
+  'domain',
+  'recipient',
+  'recipientDomain',
+  'header',
+  'spf',
+  'dkim',
+  'dmarc',
+];
+
+/**
+ * Match modes allowed by the filter_rules CHECK constraint
+ */
+const FILTER_RULE_MATCH_MODES = ['exact', 'contains', 'startsWith', 'endsWith', 'regex', 'domainTree'];
+
+/**
+ * Log categories allowed by the system_logs CHECK constraint
+ */
+const SYSTEM_LOG_CATEGORIES = ['email_forward', 'email_drop', 'email_reject', 'email_shadow', 'admin_action', 'system'];
+
+/**
+ * Get the stored CREATE TABLE statement of a table
+ */
+function getTableSql(db: Database.Database, tableName: string): string {
+  const table = db.prepare(
+    "SELECT sql FROM sqlite_master WHERE type='table' AND name=?"
+  ).get(tableName) as { sql: string };
+  return table.sql;
+}
+
+/**
+ * Rebuild a table so the IN-list CHECK constraint on one column allows the given values
+ *
+ * SQLite cannot alter a CHECK constraint in place, so the table is recreated
+ * from its current definition with the constraint swapped, existing rows are
+ * copied over and its indexes are recreated. Foreign keys are switched off
+ * during the rebuild so dependent rows (e.g. rule_stats) are not cascade-deleted.
+ */
+function rebuildTableCheckConstraint(
+  db: Database.Database,
+  tableName: string,
+  columnName: string,
+  allowedValues: string[]
+): void {
+  const allowed = allowedValues.map((value) => `'${value}'`).join(', ');
+  const newTable = `${tableName}_new`;
+  const createSql = getTableSql(db, tableName)
+    .replace(new RegExp(`^CREATE TABLE\\s+(IF NOT EXISTS\\s+)?["'\`]?${tableName}["'\`]?`, 'i'), `CREATE TABLE ${newTable}`)
+    .replace(new RegExp(`CHECK\\s*\\(\\s*${columnName}\\s+IN\\s*\\([^)]*\\)\\s*\\)`, 'i'), `CHECK(${columnName} IN (${allowed}))`);
+  const columns = (db.prepare(`PRAGMA table_info(${tableName})`).all() as { name: string }[])
+    .map((col) => col.name)
+    .join(', ');
+  const indexes = db.prepare(
+    "SELECT sql FROM sqlite_master WHERE type='index' AND tbl_name=? AND sql IS NOT NULL"
+  ).all(tableName) as { sql: string }[];
+
+  const foreignKeys = db.pragma('foreign_keys', { simple: true }) as number;
+  db.pragma('foreign_keys = OFF');
+  try {
+    db.transaction(() => {
+      db.exec(createSql);
+      db.exec(`INSERT INTO ${newTable} (${columns}) SELECT ${columns} FROM ${tableName}`);
+      db.exec(`DROP TABLE ${tableName}`);
+      db.exec(`ALTER TABLE ${newTable} RENAME TO ${tableName}`);
+      for (const index of indexes) {
+        db.exec(index.sql);
+      }
+    })();
+  } finally {
+    db.pragma(`foreign_keys = ${foreignKeys ? 'ON' : 'OFF'}`);
+  }
+}
+
+/**
+ * Migration 25: Allow recipient/recipientDomain match types on filter_rules
+ */
+function migrateFilterRulesRecipientMatchTypes(db: Database.Database): MigrationResult {
+  const name = 'filter_rules.match_type recipient';
+  if (!tableExists(db, 'filter_rules')) {
+    return { name, status: 'skipped', message: 'Table does not exist' };
+  }
+  const sql = getTableSql(db, 'filter_rules');
+  if (!sql.includes('CHECK(match_type') || sql.includes("'recipientDomain'")) {
+    return { name, status: 'skipped', message: 'Constraint already up to date' };
+  }
+  rebuildTableCheckConstraint(db, 'filter_rules', 'match_type', FILTER_RULE_MATCH_TYPES);
+  return { name, status: 'applied', message: 'Table rebuilt with recipient match types' };
+}
+
+/**
+ * Migration 26: Allow the header match type on filter_rules
+ */
+function migrateFilterRulesHeaderMatchType(db: Database.Database): MigrationResult {
+  const name = 'filter_rules.match_type header';
+  if (!tableExists(db, 'filter_rules')) {
+    return { name, status: 'skipped', message: 'Table does not exist' };
+  }
+  const sql = getTableSql(db, 'filter_rules');
+  if (!sql.includes('CHECK(match_type') || sql.includes("'header'")) {
+    return { name, status: 'skipped', message: 'Constraint already up to date' };
+  }
+  rebuildTableCheckConstraint(db, 'filter_rules', 'match_type', FILTER_RULE_MATCH_TYPES);
+  return { name, status: 'applied', message: 'Table rebuilt with header match type' };
+}
+
+/**
+ * Migration 27: Add forward_headers column to worker_instances
+ * Stores the JSON list of email headers the worker forwards in its webhook payload
+ */
+function migrateWorkerForwardHeaders(db: Database.Database): MigrationResult {
+  const name = 'worker_instances.forward_headers';
+  if (!tableExists(db, 'worker_instances')) {
+    return { name, status: 'skipped', message: 'Table does not exist' };
+  }
+  if (columnExists(db, 'worker_instances', 'forward_headers')) {
+    return { name, status: 'skipped', message: 'Column already exists' };
+  }
+  db.exec('ALTER TABLE worker_instances ADD COLUMN forward_headers TEXT');
+  return { name, status: 'applied', message: 'Column added successfully' };
+}
+
+/**
+ * Migration 28: Allow spf/dkim/dmarc authentication match types on filter_rules
+ */
+function migrateFilterRulesAuthMatchTypes(db: Database.Database): MigrationResult {
+  const name = 'filter_rules.match_type auth';
+  if (!tableExists(db, 'filter_rules')) {
+    return { name, status: 'skipped', message: 'Table does not exist' };
+  }
+  const sql = getTableSql(db, 'filter_rules');
+  if (!sql.includes('CHECK(match_type') || sql.includes("'dmarc'")) {
+    return { name, status: 'skipped', message: 'Constraint already up to date' };
+  }
+  rebuildTableCheckConstraint(db, 'filter_rules', 'match_type', FILTER_RULE_MATCH_TYPES);
+  return { name, status: 'applied', message: 'Table rebuilt with authentication match types' };
+}
+
+/**
+ * Migration 29: Add action and reject_reason columns to filter_rules
+ */
+function migrateFilterRulesAction(db: Database.Database): MigrationResult {
+  const name = 'filter_rules.action';
+  if (!tableExists(db, 'filter_rules')) {
+    return { name, status: 'skipped', message: 'Table does not exist' };
+  }
+  if (columnExists(db, 'filter_rules', 'action')) {
+    return { name, status: 'skipped', message: 'Column already exists' };
+  }
+  db.exec("ALTER TABLE filter_rules ADD COLUMN action TEXT NOT NULL DEFAULT 'drop' CHECK(action IN ('drop', 'reject'))");
+  db.exec('ALTER TABLE filter_rules ADD COLUMN reject_reason TEXT');
+  return { name, status: 'applied', message: 'Columns added successfully' };
+}
+
+/**
+ * Migration 30: Add total_rejected counter to global_stats
+ */
+function migrateGlobalStatsRejected(db: Database.Database): MigrationResult {
+  const name = 'global_stats.total_rejected';
+  if (!tableExists(db, 'global_stats')) {
+    return { name, status: 'skipped', message: 'Table does not exist' };
+  }
+  if (columnExists(db, 'global_stats', 'total_rejected')) {
+    return { name, status: 'skipped', message: 'Column already exists' };
+  }
+  db.exec('ALTER TABLE global_stats ADD COLUMN total_rejected INTEGER NOT NULL DEFAULT 0');
+  return { name, status: 'applied', message: 'Column added successfully' };
+}
+
+/**
+ * Migration 31: Allow the email_reject category on system_logs
+ */
+function migrateSystemLogsRejectCategory(db: Database.Database): MigrationResult {
+  const name = 'system_logs.category email_reject';
+  if (!tableExists(db, 'system_logs')) {
+    return { name, status: 'skipped', message: 'Table does not exist' };
+  }
+  const sql = getTableSql(db, 'system_logs');
+  if (!sql.includes('CHECK(category') || sql.includes("'email_reject'")) {
+    return { name, status: 'skipped', message: 'Constraint already up to date' };
+  }
+  rebuildTableCheckConstraint(db, 'system_logs', 'category', SYSTEM_LOG_CATEGORIES);
+  return { name, status: 'applied', message: 'Table rebuilt with email_reject category' };
+}
+
+/**
+ * Migration 32: Create forward_rules table for recipient-based forwarding
+ */
+function migrateCreateForwardRules(db: Database.Database): MigrationResult {
+  const name = 'forward_rules';
+  if (tableExists(db, 'forward_rules')) {
+    return { name, status: 'skipped', message: 'Table already exists' };
+  }
+  db.exec(`
+    CREATE TABLE forward_rules (
+      id TEXT PRIMARY KEY,
+      worker_id TEXT,
+      recipient_pattern TEXT NOT NULL,
+      match_mode TEXT NOT NULL CHECK(match_mode IN ('exact', 'contains', 'regex')),
+      forward_to TEXT NOT NULL,
+      enabled INTEGER NOT NULL DEFAULT 1,
+      sort_order INTEGER NOT NULL DEFAULT 0,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      FOREIGN KEY (worker_id) REFERENCES worker_instances(id) ON DELETE CASCADE
+    )
+  `);
+  db.exec('CREATE INDEX IF NOT EXISTS idx_forward_rules_worker ON forward_rules(worker_id, sort_order)');
+  return { name, status: 'applied', message: 'Table created successfully' };
+}
+
+/**
+ * Migration 33: Add forward_to column to filter_rules (whitelist destinations)
+ */
+function migrateFilterRulesForwardTo(db: Database.Database): MigrationResult {
+  const name = 'filter_rules.forward_to';
+  if (!tableExists(db, 'filter_rules')) {
+    return { name, status: 'skipped', message: 'Table does not exist' };
+  }
+  if (columnExists(db, 'filter_rules', 'forward_to')) {
+    return { name, status: 'skipped', message: 'Column already exists' };
+  }
+  db.exec('ALTER TABLE filter_rules ADD COLUMN forward_to TEXT');
+  return { name, status: 'applied', message: 'Column added successfully' };
+}
+
+/**
+ * Migration 34: Add priority column to filter_rules
+ * Existing rules are numbered per category in their previous order (newest first)
+ */
+function migrateFilterRulesPriority(db: Database.Database): MigrationResult {
+  const name = 'filter_rules.priority';
+  if (!tableExists(db, 'filter_rules')) {
+    return { name, status: 'skipped', message: 'Table does not exist' };
+  }
+  if (columnExists(db, 'filter_rules', 'priority')) {
+    return { name, status: 'skipped', message: 'Column already exists' };
+  }
+  db.exec('ALTER TABLE filter_rules ADD COLUMN priority INTEGER NOT NULL DEFAULT 0');
+
+  const rows = db.prepare(
+    'SELECT id, category FROM filter_rules ORDER BY category, created_at DESC, id'
+  ).all() as { id: string; category: string }[];
+  const update = db.prepare('UPDATE filter_rules SET priority = ? WHERE id = ?');
+  const counters = new Map<string, number>();
+  db.transaction(() => {
+    for (const row of rows) {
+      const priority = counters.get(row.category) ?? 0;
+      update.run(priority, row.id);
+      counters.set(row.category, priority + 1);
+    }
+  })();
+  return { name, status: 'applied', message: `Column added, ${rows.length} rules numbered` };
+}
+
+/**
+ * Migration 35: Add schedule columns to filter_rules (active period and weekly time windows)
+ */
+function migrateFilterRulesSchedule(db: Database.Database): MigrationResult {
+  const name = 'filter_rules.schedule';
+  if (!tableExists(db, 'filter_rules')) {
+    return { name, status: 'skipped', message: 'Table does not exist' };
+  }
+  if (columnExists(db, 'filter_rules', 'active_from')) {
+    return { name, status: 'skipped', message: 'Column already exists' };
+  }
+  db.exec('ALTER TABLE filter_rules ADD COLUMN active_from TEXT');
+  db.exec('ALTER TABLE filter_rules ADD COLUMN active_until TEXT');
+  db.exec('ALTER TABLE filter_rules ADD COLUMN time_windows TEXT');
+  db.exec('ALTER TABLE filter_rules ADD COLUMN timezone TEXT');
+  return { name, status: 'applied', message: 'Columns added successfully' };
+}
+
+/**
+ * Migration 36: Add mode column to filter_rules (active or shadow)
+ */
+function migrateFilterRulesMode(db: Database.Database): MigrationResult {
+  const name = 'filter_rules.mode';
+  if (!tableExists(db, 'filter_rules')) {
+    return { name, status: 'skipped', message: 'Table does not exist' };
+  }
+  if (columnExists(db, 'filter_rules', 'mode')) {
+    return { name, status: 'skipped', message: 'Column already exists' };
+  }
+  db.exec("ALTER TABLE filter_rules ADD COLUMN mode TEXT NOT NULL DEFAULT 'active' CHECK(mode IN ('active', 'shadow'))");
+  return { name, status: 'applied', message: 'Column added successfully' };
+}
+
+/**
+ * Migration 37: Allow the email_shadow category on system_logs
+ */
+function migrateSystemLogsShadowCategory(db: Database.Database): MigrationResult {
+  const name = 'system_logs.category email_shadow';
+  if (!tableExists(db, 'system_logs')) {
+    return { name, status: 'skipped', message: 'Table does not exist' };
+  }
+  const sql = getTableSql(db, 'system_logs');
+  if (!sql.includes('CHECK(category') || sql.includes("'email_shadow'")) {
+    return { name, status: 'skipped', message: 'Constraint already up to date' };
+  }
+  rebuildTableCheckConstraint(db, 'system_logs', 'category', SYSTEM_LOG_CATEGORIES);
+  return { name, status: 'applied', message: 'Table rebuilt with email_shadow category' };
+}
+
+/**
+ * Migration 38: Create shadow_rule_stats table for shadow mode matches
+ */
+function migrateCreateShadowRuleStats(db: Database.Database): MigrationResult {
+  const name = 'shadow_rule_stats';
+  if (tableExists(db, 'shadow_rule_stats')) {
+    return { name, status: 'skipped', message: 'Table already exists' };
+  }
+  db.exec(`
+    CREATE TABLE shadow_rule_stats (
+      rule_id TEXT PRIMARY KEY,
+      matched_count INTEGER NOT NULL DEFAULT 0,
+      would_change_count INTEGER NOT NULL DEFAULT 0,
+      last_matched_at TEXT,
+      FOREIGN KEY (rule_id) REFERENCES filter_rules(id) ON DELETE CASCADE
+    )
+  `);
+  return { name, status: 'applied', message: 'Table created successfully' };
+}
+
+/**
+ * Add a normalize flag column, shared by the rule tables that can opt into normalized matching
+ */
+function addNormalizeColumn(db: Database.Database, tableName: string): MigrationResult {
+  const name = `${tableName}.normalize`;
+  if (!tableExists(db, tableName)) {
+    return { name, status: 'skipped', message: 'Table does not exist' };
+  }
+  if (columnExists(db, tableName, 'normalize')) {
+    return { name, status: 'skipped', message: 'Column already exists' };
+  }
+  db.exec(`ALTER TABLE ${tableName} ADD COLUMN normalize INTEGER NOT NULL DEFAULT 0`);
+  return { name, status: 'applied', message: 'Column added successfully' };
+}
+
+/**
+ * Migration 39: Add normalize column to filter_rules
+ */
+function migrateFilterRulesNormalize(db: Database.Database): MigrationResult {
+  return addNormalizeColumn(db, 'filter_rules');
+}
+
+/**
+ * Migration 40: Add normalize column to watch_rules
+ */
+function migrateWatchRulesNormalize(db: Database.Database): MigrationResult {
+  return addNormalizeColumn(db, 'watch_rules');
+}
+
+/**
+ * Migration 41: Add normalize column to monitoring_rules
+ */
+function migrateMonitoringRulesNormalize(db: Database.Database): MigrationResult {
+  return addNormalizeColumn(db, 'monitoring_rules');
+}
+
+/**
+ * Migration 42: Allow the domainTree match mode on filter_rules
+ */
+function migrateFilterRulesDomainTreeMatchMode(db: Database.Database): MigrationResult {
+  const name = 'filter_rules.match_mode domainTree';
+  if (!tableExists(db, 'filter_rules')) {
+    return { name, status: 'skipped', message: 'Table does not exist' };
+  }
+  const sql = getTableSql(db, 'filter_rules');
+  if (!sql.includes('CHECK(match_mode') || sql.includes("'domainTree'")) {
+    return { name, status: 'skipped', message: 'Constraint already up to date' };
+  }
+  rebuildTableCheckConstraint(db, 'filter_rules', 'match_mode', FILTER_RULE_MATCH_MODES);
+  return { name, status: 'applied', message: 'Table rebuilt with domainTree match mode' };
+}
+
+/**
+ * Migration 43: Add fingerprint column to email_subject_tracker
+ * Stores the masked subject used to cluster near-duplicate subjects
+ */
+function migrateSubjectTrackerFingerprint(db: Database.Database): MigrationResult {
+  const name = 'email_subject_tracker.fingerprint';
+  if (!tableExists(db, 'email_subject_tracker')) {
+    return { name, status: 'skipped', message: 'Table does not exist' };
+  }
+  if (columnExists(db, 'email_subject_tracker', 'fingerprint')) {
+    return { name, status: 'skipped', message: 'Column already exists' };
+  }
+  db.exec('ALTER TABLE email_subject_tracker ADD COLUMN fingerprint TEXT');
+  return { name, status: 'applied', message: 'Column added successfully' };
+}
+
+/**
+ * Migration 44: Create rule_hit_rollups table for per-rule hit time series
+ */
+function migrateCreateRuleHitRollups(db: Database.Database): MigrationResult {
+  const name = 'rule_hit_rollups';
+  if (tableExists(db, 'rule_hit_rollups')) {
+    return { name, status: 'skipped', message: 'Table already exists' };
+  }
+  db.exec(`
+    CREATE TABLE rule_hit_rollups (
+      rule_id TEXT NOT NULL,
+      worker_id TEXT NOT NULL DEFAULT '',
+      granularity TEXT NOT NULL CHECK(granularity IN ('hour', 'day')),
+      bucket_start TEXT NOT NULL,
+      hits INTEGER NOT NULL DEFAULT 0,
+      blocked INTEGER NOT NULL DEFAULT 0,
+      PRIMARY KEY (rule_id, worker_id, granularity, bucket_start),
+      FOREIGN KEY (rule_id) REFERENCES filter_rules(id) ON DELETE CASCADE
+    );
+    CREATE INDEX IF NOT EXISTS idx_rule_hit_rollups_bucket ON rule_hit_rollups(granularity, bucket_start);
+  `);
+  return { name, status: 'applied', message: 'Table created successfully' };
+}
+
+/**
+ * Migration 45: Create rule_history table for versioned rule changes
+ */
+function migrateCreateRuleHistory(db: Database.Database): MigrationResult {
+  const name = 'rule_history';
+  if (tableExists(db, 'rule_history')) {
+    return { name, status: 'skipped', message: 'Table already exists' };
+  }
+  db.exec(`
+    CREATE TABLE rule_history (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      rule_type TEXT NOT NULL CHECK(rule_type IN ('filter', 'monitoring')),
+      rule_id TEXT NOT NULL,
+      version INTEGER NOT NULL,
+      action TEXT NOT NULL CHECK(action IN ('baseline', 'create', 'update', 'toggle', 'promote', 'delete', 'revert')),
+      before_state TEXT,
+      after_state TEXT,
+      changed_by_id TEXT,
+      changed_by TEXT,
+      created_at TEXT NOT NULL,
+      UNIQUE(rule_type, rule_id, version)
+    )
+  `);
+  return { name, status: 'applied', message: 'Table created successfully' };
+}
+
+/**
+ * Migration 46: Create rule_draft_changes and rule_set_versions tables for staged rule publishing
+ */
+function migrateCreateRuleDrafts(db: Database.Database): MigrationResult {
+  const name = 'rule_drafts';
+  if (tableExists(db, 'rule_draft_changes') && tableExists(db, 'rule_set_versions')) {
+    return { name, status: 'skipped', message: 'Tables already exist' };
+  }
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS rule_draft_changes (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      worker_id TEXT NOT NULL DEFAULT '',
+      operation TEXT NOT NULL CHECK(operation IN ('add', 'update', 'delete')),
+      rule_id TEXT,
+      payload TEXT,
+      created_by_id TEXT,
+      created_by TEXT,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS idx_rule_draft_changes_worker ON rule_draft_changes(worker_id);
+    CREATE TABLE IF NOT EXISTS rule_set_versions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      worker_id TEXT NOT NULL DEFAULT '',
+      version INTEGER NOT NULL,
+      action TEXT NOT NULL CHECK(action IN ('baseline', 'publish', 'rollback')),
+      rules TEXT NOT NULL,
+      changes TEXT,
+      rolled_back_to INTEGER,
+      published_by_id TEXT,
+      published_by TEXT,
+      created_at TEXT NOT NULL,
+      UNIQUE(worker_id, version)
+    );
+  `);
+  return { name, status: 'applied', message: 'Tables created successfully' };
+}
+
+/**
+ * Migration 47: Create rule_sets, rule_set_workers and rule_overrides tables for shared rule sets
+ */
+function migrateCreateRuleSets(db: Database.Database): MigrationResult {
+  const name = 'rule_sets';
+  if (tableExists(db, 'rule_sets') && tableExists(db, 'rule_set_workers') && tableExists(db, 'rule_overrides')) {
+    return { name, status: 'skipped', message: 'Tables already exist' };
+  }
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS rule_sets (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL UNIQUE,
+      description TEXT,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    );
+    CREATE TABLE IF NOT EXISTS rule_set_workers (
+      rule_set_id TEXT NOT NULL,
+      worker_id TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      PRIMARY KEY (rule_set_id, worker_id),
+      FOREIGN KEY (rule_set_id) REFERENCES rule_sets(id) ON DELETE CASCADE,
+      FOREIGN KEY (worker_id) REFERENCES worker_instances(id) ON DELETE CASCADE
+    );
+    CREATE INDEX IF NOT EXISTS idx_rule_set_workers_worker ON rule_set_workers(worker_id);
+    CREATE TABLE IF NOT EXISTS rule_overrides (
+      worker_id TEXT NOT NULL,
+      rule_id TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      PRIMARY KEY (worker_id, rule_id),
+      FOREIGN KEY (worker_id) REFERENCES worker_instances(id) ON DELETE CASCADE,
+      FOREIGN KEY (rule_id) REFERENCES filter_rules(id) ON DELETE CASCADE
+    );
+  `);
+  return { name, status: 'applied', message: 'Tables created successfully' };
+}
+
+/**
+ * Migration 48: Add rule_set_id column to filter_rules
+ * Rules in a shared rule set have no worker_id and apply to the workers the set is attached to
+ */
+function migrateFilterRulesRuleSetId(db: Database.Database): MigrationResult {
+  const name = 'filter_rules.rule_set_id';
+  if (!tableExists(db, 'filter_rules')) {
+    return { name, status: 'skipped', message: 'Table does not exist' };
+  }
+  if (columnExists(db, 'filter_rules', 'rule_set_id')) {
+    return { name, status: 'skipped', message: 'Column already exists' };
+  }
+  db.exec('ALTER TABLE filter_rules ADD COLUMN rule_set_id TEXT');
+  return { name, status: 'applied', message: 'Column added successfully' };
+}
+
+/**
+ * Migration 49: Create rule_suggestion_dismissals table for rule suggestions an admin dismissed
+ */
+function migrateCreateRuleSuggestionDismissals(db: Database.Database): MigrationResult {
+  const name = 'rule_suggestion_dismissals';
+  if (tableExists(db, 'rule_suggestion_dismissals')) {
+    return { name, status: 'skipped', message: 'Table already exists' };
+  }
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS rule_suggestion_dismissals (
+      id TEXT PRIMARY KEY,
+      match_type TEXT NOT NULL,
+      match_mode TEXT NOT NULL,
+      pattern TEXT NOT NULL,
+      dismissed_by TEXT,
+      created_at TEXT NOT NULL,
+      UNIQUE(match_type, match_mode, pattern)
+    )
+  `);
+  return { name, status: 'applied', message: 'Table created successfully' };
+}
+
+/**
+ * Whether a condition uses a regex the linear-time engine cannot run
+ * Header patterns are analyzed without their "Header-Name:" prefix
+ */
+function hasUnsupportedRegex(condition: Pick<RuleCondition, 'matchMode' | 'pattern'> & { matchType?: MatchType }): boolean {
+  if (condition.matchMode !== 'regex') {
+    return false;
+  }
+  const pattern = condition.matchType === 'header' ? parseHeaderPattern(condition.pattern)?.pattern ?? '' : condition.pattern;
+  return analyzeRegex(pattern).unsupported === true;
+}
+
+/**
+ * Migration 50: Disable rules whose regex patterns the linear-time engine cannot run
+ * Backreferences and lookaround were accepted before patterns were analyzed on creation.
+ * They no longer fall back to the native engine, which has no time budget, and never
+ * match; disabling the rules also keeps such an exception from widening its blacklist
+ * rule. GET /api/rules/regex-audit lists them for fixing. Runs on every startup, so
+ * rules re-enabled without fixing their pattern are disabled again.
+ */
+function migrateDisableUnsupportedRegexRules(db: Database.Database): MigrationResult {
+  const name = 'unsupported regex rules';
+  const disabled: { table: string; id: string }[] = [];
+
+  if (tableExists(db, 'filter_rules')) {
+    const rows = db.prepare(`
+      SELECT id, match_type, match_mode, pattern, conditions, exceptions
+      FROM filter_rules WHERE enabled = 1
+    `).all() as { id: string; match_type: MatchType; match_mode: MatchMode; pattern: string; conditions: string | null; exceptions: string | null }[];
+    for (const row of rows) {
+      const leaves = [
+        ...(row.conditions
+          ? conditionLeaves(JSON.parse(row.conditions) as RuleConditionNode)
+          : [{ matchType: row.match_type, matchMode: row.match_mode, pattern: row.pattern }]),
+        ...(row.exceptions ? (JSON.parse(row.exceptions) as RuleConditionNode[]).flatMap(conditionLeaves) : []),
+      ];
+      if (leaves.some(hasUnsupportedRegex)) {
+        disabled.push({ table: 'filter_rules', id: row.id });
+      }
+    }
+  }
+
+  const singlePatternTables = [
+    { table: 'watch_rules', columns: 'id, match_type, match_mode, pattern' },
+    { table: 'monitoring_rules', columns: 'id, match_mode, subject_pattern AS pattern' },
+    { table: 'forward_rules', columns: 'id, match_mode, recipient_pattern AS pattern' },
+  ];
+  for (const { table, columns } of singlePatternTables) {
+    if (!tableExists(db, table)) {
+      continue;
+    }
+    const rows = db.prepare(`SELECT ${columns} FROM ${table} WHERE enabled = 1 AND match_mode = 'regex'`)
+      .all() as { id: string; match_type?: MatchType; match_mode: MatchMode; pattern: string }[];
+    for (const row of rows) {
+      if (hasUnsupportedRegex({ matchType: row.match_type, matchMode: row.match_mode, pattern: row.pattern })) {
+        disabled.push({ table, id: row.id });
+      }
+    }
+  }
+
+  if (disabled.length === 0) {
+    return { name, status: 'skipped', message: 'No enabled rules with unsupported regex patterns' };
+  }
+  const disableAll = db.transaction(() => {
+    for (const { table, id } of disabled) {
+      db.prepare(`UPDATE ${table} SET enabled = 0 WHERE id = ?`).run(id);
+    }
+  });
+  disableAll();
+  return {
+    name,
+    status: 'applied',
+    message: `Disabled ${disabled.length} rule(s): ${disabled.map(({ table, id }) => `${table} ${id}`).join(', ')}`,
+  };
+}
+
 // ============================================
 // Migration Runner
 // ============================================
@@ -447,6 +1100,33 @@ const migrations: MigrationFn[] = [
   migrateCreateUserSettingsTable,
   migrateCreateSubjectStatsTable,
   migrateSubjectStatsAddIgnored,
+  migrateFilterRulesConditions,
+  migrateFilterRulesRecipientMatchTypes,
+  migrateFilterRulesHeaderMatchType,
+  migrateWorkerForwardHeaders,
+  migrateFilterRulesAuthMatchTypes,
+  migrateFilterRulesAction,
+  migrateGlobalStatsRejected,
+  migrateSystemLogsRejectCategory,
+  migrateCreateForwardRules,
+  migrateFilterRulesForwardTo,
+  migrateFilterRulesPriority,
+  migrateFilterRulesSchedule,
+  migrateFilterRulesMode,
+  migrateSystemLogsShadowCategory,
+  migrateCreateShadowRuleStats,
+  migrateFilterRulesNormalize,
+  migrateWatchRulesNormalize,
+  migrateMonitoringRulesNormalize,
+  migrateFilterRulesDomainTreeMatchMode,
+  migrateSubjectTrackerFingerprint,
+  migrateCreateRuleHitRollups,
+  migrateCreateRuleHistory,
+  migrateCreateRuleDrafts,
+  migrateCreateRuleSets,
+  migrateFilterRulesRuleSetId,
+  migrateCreateRuleSuggestionDismissals,
+  migrateDisableUnsupportedRegexRules,
 ];
 
 /**
@@ -7,7 +7,8 @@ CREATE TABLE IF NOT EXISTS worker_instances (
   worker_url TEXT,
   enabled INTEGER NOT NULL DEFAULT 1,
   created_at TEXT NOT NULL,
-  updated_at TEXT NOT NULL
+  updated_at TEXT NOT NULL,
+  forward_headers TEXT                    -- 随 webhook 转发的邮件头（JSON，可选）
 );
 
 CREATE INDEX IF NOT EXISTS idx_worker_instances_name ON worker_instances(name);
@@ -18,20 +19,64 @@ CREATE TABLE IF NOT EXISTS filter_rules (
   id TEXT PRIMARY KEY,
   worker_id TEXT,
   category TEXT NOT NULL CHECK(category IN ('whitelist', 'blacklist', 'dynamic')),
-  match_type TEXT NOT NULL CHECK(match_type IN ('sender', 'subject', 'domain')),
-  match_mode TEXT NOT NULL CHECK(match_mode IN ('exact', 'contains', 'startsWith', 'endsWith', 'regex')),
+  match_type TEXT NOT NULL CHECK(match_type IN ('sender', 'subject', 'domain', 'recipient', 'recipientDomain', 'header', 'spf', 'dkim', 'dmarc')),
+  match_mode TEXT NOT NULL CHECK(match_mode IN ('exact', 'contains', 'startsWith', 'endsWith', 'regex', 'domainTree')),
   pattern TEXT NOT NULL,
   tags TEXT,
   enabled INTEGER NOT NULL DEFAULT 1,
   created_at TEXT NOT NULL,
   updated_at TEXT NOT NULL,
   last_hit_at TEXT,
+  conditions TEXT,                        -- 组合条件树（JSON，可选）
+  exceptions TEXT,                        -- 例外条件（JSON，仅黑名单）
+  action TEXT NOT NULL DEFAULT 'drop' CHECK(action IN ('drop', 'reject')), -- 命中后动作：丢弃或退信
+  reject_reason TEXT,                     -- 退信原因（action = reject 时使用）
+  forward_to TEXT,                        -- 命中后的转发地址列表（JSON，仅白名单）
+  priority INTEGER NOT NULL DEFAULT 0,    -- 同类别内的匹配顺序（升序，小的先匹配）
+  active_from TEXT,                       -- 生效开始时间（可选）
+  active_until TEXT,                      -- 失效时间（可选，过期后由调度器自动禁用）
+  time_windows TEXT,                      -- 每周生效时间段（JSON，可选）
+  timezone TEXT,                          -- 时间段所用时区（IANA，默认 UTC）
+  mode TEXT NOT NULL DEFAULT 'active' CHECK(mode IN ('active', 'shadow')), -- 规则模式：生效或影子（仅观察）
+  normalize INTEGER NOT NULL DEFAULT 0,   -- 是否按规范化文本匹配（折叠同形字、去除不可见字符）
+  rule_set_id TEXT,                       -- 所属共享规则集（与 worker_id 互斥，都为空时为全局规则）
   FOREIGN KEY (worker_id) REFERENCES worker_instances(id) ON DELETE CASCADE,
   UNIQUE(worker_id, category, match_type, match_mode, pattern)
 );
 
 CREATE INDEX IF NOT EXISTS idx_filter_rules_worker ON filter_rules(worker_id);
 
+-- 共享规则集（可关联到多个 Worker）
+CREATE TABLE IF NOT EXISTS rule_sets (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL UNIQUE,
+  description TEXT,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+-- 规则集与 Worker 的关联
+CREATE TABLE IF NOT EXISTS rule_set_workers (
+  rule_set_id TEXT NOT NULL,
+  worker_id TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  PRIMARY KEY (rule_set_id, worker_id),
+  FOREIGN KEY (rule_set_id) REFERENCES rule_sets(id) ON DELETE CASCADE,
+  FOREIGN KEY (worker_id) REFERENCES worker_instances(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_rule_set_workers_worker ON rule_set_workers(worker_id);
+
+-- Worker 级覆盖：对该 Worker 停用继承的全局规则或规则集规则
+CREATE TABLE IF NOT EXISTS rule_overrides (
+  worker_id TEXT NOT NULL,
+  rule_id TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  PRIMARY KEY (worker_id, rule_id),
+  FOREIGN KEY (worker_id) REFERENCES worker_instances(id) ON DELETE CASCADE,
+  FOREIGN KEY (rule_id) REFERENCES filter_rules(id) ON DELETE CASCADE
+);
+
 -- 规则统计表
 CREATE TABLE IF NOT EXISTS rule_stats (
   rule_id TEXT PRIMARY KEY,
@@ -42,6 +87,85 @@ CREATE TABLE IF NOT EXISTS rule_stats (
   FOREIGN KEY (rule_id) REFERENCES filter_rules(id) ON DELETE CASCADE
 );
 
+-- 影子规则统计表（影子模式下的命中，不计入真实统计）
+CREATE TABLE IF NOT EXISTS shadow_rule_stats (
+  rule_id TEXT PRIMARY KEY,
+  matched_count INTEGER NOT NULL DEFAULT 0,       -- 命中次数
+  would_change_count INTEGER NOT NULL DEFAULT 0,  -- 会改变实际处理结果的次数
+  last_matched_at TEXT,
+  FOREIGN KEY (rule_id) REFERENCES filter_rules(id) ON DELETE CASCADE
+);
+
+-- 规则命中时间序列（按小时/按天汇总）
+CREATE TABLE IF NOT EXISTS rule_hit_rollups (
+  rule_id TEXT NOT NULL,
+  worker_id TEXT NOT NULL DEFAULT '',      -- 空字符串表示全局
+  granularity TEXT NOT NULL CHECK(granularity IN ('hour', 'day')),
+  bucket_start TEXT NOT NULL,              -- 桶起始时间 (UTC ISO)
+  hits INTEGER NOT NULL DEFAULT 0,         -- 命中次数
+  blocked INTEGER NOT NULL DEFAULT 0,      -- 其中被拦截（丢弃/拒收）的次数
+  PRIMARY KEY (rule_id, worker_id, granularity, bucket_start),
+  FOREIGN KEY (rule_id) REFERENCES filter_rules(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_rule_hit_rollups_bucket ON rule_hit_rollups(granularity, bucket_start);
+
+-- 规则变更历史（每次变更保存一个版本的完整快照）
+CREATE TABLE IF NOT EXISTS rule_history (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  rule_type TEXT NOT NULL CHECK(rule_type IN ('filter', 'monitoring')),
+  rule_id TEXT NOT NULL,                   -- 规则删除后仍保留历史，不设外键
+  version INTEGER NOT NULL,                -- 每条规则从 1 开始递增
+  action TEXT NOT NULL CHECK(action IN ('baseline', 'create', 'update', 'toggle', 'promote', 'delete', 'revert')),
+  before_state TEXT,                       -- 变更前快照 (JSON)，新建时为空
+  after_state TEXT,                        -- 变更后快照 (JSON)，删除时为空
+  changed_by_id TEXT,                      -- 操作用户 ID，旧版 API Token 为空
+  changed_by TEXT,                         -- 操作用户名
+  created_at TEXT NOT NULL,
+  UNIQUE(rule_type, rule_id, version)
+);
+
+-- 规则草稿（按 Worker 暂存的新增/修改/删除，发布前不生效）
+CREATE TABLE IF NOT EXISTS rule_draft_changes (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  worker_id TEXT NOT NULL DEFAULT '',      -- 空字符串表示全局规则
+  operation TEXT NOT NULL CHECK(operation IN ('add', 'update', 'delete')),
+  rule_id TEXT,                            -- 修改/删除的目标规则，新增时为空
+  payload TEXT,                            -- 新增/修改的规则字段 (JSON)，删除时为空
+  created_by_id TEXT,                      -- 操作用户 ID，旧版 API Token 为空
+  created_by TEXT,                         -- 操作用户名
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_rule_draft_changes_worker ON rule_draft_changes(worker_id);
+
+-- 规则集发布版本（每次发布/回滚保存该 Worker 全部规则的快照）
+CREATE TABLE IF NOT EXISTS rule_set_versions (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  worker_id TEXT NOT NULL DEFAULT '',      -- 空字符串表示全局规则
+  version INTEGER NOT NULL,                -- 每个 Worker 从 1 开始递增
+  action TEXT NOT NULL CHECK(action IN ('baseline', 'publish', 'rollback')),
+  rules TEXT NOT NULL,                     -- 该版本生效的全部规则 (JSON)
+  changes TEXT,                            -- 本次发布应用的草稿变更 (JSON)
+  rolled_back_to INTEGER,                  -- 回滚的目标版本
+  published_by_id TEXT,
+  published_by TEXT,
+  created_at TEXT NOT NULL,
+  UNIQUE(worker_id, version)
+);
+
+-- 已永久忽略的规则建议（从转发流量中挖掘的黑名单候选）
+CREATE TABLE IF NOT EXISTS rule_suggestion_dismissals (
+  id TEXT PRIMARY KEY,
+  match_type TEXT NOT NULL,
+  match_mode TEXT NOT NULL,
+  pattern TEXT NOT NULL,                   -- 小写形式，正则保持原样
+  dismissed_by TEXT,
+  created_at TEXT NOT NULL,
+  UNIQUE(match_type, match_mode, pattern)
+);
+
 
 
 -- 动态规则配置表
@@ -57,6 +181,22 @@ CREATE TABLE IF NOT EXISTS forward_config (
   updated_at TEXT NOT NULL
 );
 
+-- 收件人转发规则表（按收件人选择转发地址）
+CREATE TABLE IF NOT EXISTS forward_rules (
+  id TEXT PRIMARY KEY,
+  worker_id TEXT,                         -- 关联 Worker（NULL 为全局规则）
+  recipient_pattern TEXT NOT NULL,        -- 收件人匹配内容
+  match_mode TEXT NOT NULL CHECK(match_mode IN ('exact', 'contains', 'regex')),
+  forward_to TEXT NOT NULL,               -- 命中后的转发地址
+  enabled INTEGER NOT NULL DEFAULT 1,
+  sort_order INTEGER NOT NULL DEFAULT 0,  -- 匹配顺序（升序）
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  FOREIGN KEY (worker_id) REFERENCES worker_instances(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_forward_rules_worker ON forward_rules(worker_id, sort_order);
+
 -- 邮件主题追踪表（用于动态规则）
 CREATE TABLE IF NOT EXISTS email_subject_tracker (
   id INTEGER PRIMARY KEY AUTOINCREMENT,
@@ -64,6 +204,7 @@ CREATE TABLE IF NOT EXISTS email_subject_tracker (
   subject_hash TEXT NOT NULL,
   subject TEXT NOT NULL,
   received_at TEXT NOT NULL,
+  fingerprint TEXT,                       -- 屏蔽变量后的主题指纹，用于相似主题聚类
   FOREIGN KEY (worker_id) REFERENCES worker_instances(id) ON DELETE CASCADE
 );
 
@@ -77,7 +218,8 @@ CREATE TABLE IF NOT EXISTS global_stats (
   total_processed INTEGER NOT NULL DEFAULT 0,
   total_forwarded INTEGER NOT NULL DEFAULT 0,
   total_deleted INTEGER NOT NULL DEFAULT 0,
-  last_updated TEXT NOT NULL
+  last_updated TEXT NOT NULL,
+  total_rejected INTEGER NOT NULL DEFAULT 0
 );
 
 -- 初始化全局统计
@@ -93,7 +235,8 @@ CREATE TABLE IF NOT EXISTS watch_rules (
   pattern TEXT NOT NULL,
   enabled INTEGER NOT NULL DEFAULT 1,
   created_at TEXT NOT NULL,
-  updated_at TEXT NOT NULL
+  updated_at TEXT NOT NULL,
+  normalize INTEGER NOT NULL DEFAULT 0     -- 是否按规范化文本匹配
 );
 
 -- 监控统计表
@@ -107,7 +250,7 @@ CREATE TABLE IF NOT EXISTS watch_stats (
 -- 系统日志表
 CREATE TABLE IF NOT EXISTS system_logs (
   id INTEGER PRIMARY KEY AUTOINCREMENT,
-  category TEXT NOT NULL CHECK(category IN ('email_forward', 'email_drop', 'admin_action', 'system')),
+  category TEXT NOT NULL CHECK(category IN ('email_forward', 'email_drop', 'email_reject', 'email_shadow', 'admin_action', 'system')),
   level TEXT NOT NULL DEFAULT 'info' CHECK(level IN ('info', 'warn', 'error')),
   message TEXT NOT NULL,
   details TEXT,
@@ -133,7 +276,8 @@ CREATE TABLE IF NOT EXISTS monitoring_rules (
   worker_scope TEXT NOT NULL DEFAULT 'global',
   enabled INTEGER NOT NULL DEFAULT 1,
   created_at TEXT NOT NULL,
-  updated_at TEXT NOT NULL
+  updated_at TEXT NOT NULL,
+  normalize INTEGER NOT NULL DEFAULT 0     -- 是否按规范化主题匹配
 );
 
 CREATE INDEX IF NOT EXISTS idx_monitoring_rules_merchant ON monitoring_rules(merchant);
@@ -56,19 +56,29 @@ describe('Schema Completeness', () => {
   // Expected tables and their required columns
   const expectedTables: Record<string, string[]> = {
     // Core Tables
-    worker_instances: ['id', 'name', 'domain', 'default_forward_to', 'worker_url', 'enabled', 'created_at', 'updated_at'],
-    filter_rules: ['id', 'worker_id', 'category', 'match_type', 'match_mode', 'pattern', 'tags', 'enabled', 'created_at', 'updated_at', 'last_hit_at'],
+    worker_instances: ['id', 'name', 'domain', 'default_forward_to', 'worker_url', 'enabled', 'created_at', 'updated_at', 'forward_headers'],
+    filter_rules: ['id', 'worker_id', 'category', 'match_type', 'match_mode', 'pattern', 'tags', 'enabled', 'created_at', 'updated_at', 'last_hit_at', 'conditions', 'exceptions', 'action', 'reject_reason', 'forward_to', 'priority', 'active_from', 'active_until', 'time_windows', 'timezone', 'mode', 'normalize', 'rule_set_id'],
+    rule_sets: ['id', 'name', 'description', 'created_at', 'updated_at'],
+    rule_set_workers: ['rule_set_id', 'worker_id', 'created_at'],
+    rule_overrides: ['worker_id', 'rule_id', 'created_at'],
+    rule_suggestion_dismissals: ['id', 'match_type', 'match_mode', 'pattern', 'dismissed_by', 'created_at'],
     rule_stats: ['rule_id', 'total_processed', 'deleted_count', 'error_count', 'last_updated'],
+    shadow_rule_stats: ['rule_id', 'matched_count', 'would_change_count', 'last_matched_at'],
+    rule_hit_rollups: ['rule_id', 'worker_id', 'granularity', 'bucket_start', 'hits', 'blocked'],
+    rule_history: ['id', 'rule_type', 'rule_id', 'version', 'action', 'before_state', 'after_state', 'changed_by_id', 'changed_by', 'created_at'],
+    rule_draft_changes: ['id', 'worker_id', 'operation', 'rule_id', 'payload', 'created_by_id', 'created_by', 'created_at', 'updated_at'],
+    rule_set_versions: ['id', 'worker_id', 'version', 'action', 'rules', 'changes', 'rolled_back_to', 'published_by_id', 'published_by', 'created_at'],
     dynamic_config: ['key', 'value'],
     forward_config: ['id', 'default_forward_to', 'updated_at'],
-    email_subject_tracker: ['id', 'worker_id', 'subject_hash', 'subject', 'received_at'],
-    global_stats: ['id', 'total_processed', 'total_forwarded', 'total_deleted', 'last_updated'],
-    watch_rules: ['id', 'name', 'match_type', 'match_mode', 'pattern', 'enabled', 'created_at', 'updated_at'],
+    forward_rules: ['id', 'worker_id', 'recipient_pattern', 'match_mode', 'forward_to', 'enabled', 'sort_order', 'created_at', 'updated_at'],
+    email_subject_tracker: ['id', 'worker_id', 'subject_hash', 'subject', 'received_at', 'fingerprint'],
+    global_stats: ['id', 'total_processed', 'total_forwarded', 'total_deleted', 'last_updated', 'total_rejected'],
+    watch_rules: ['id', 'name', 'match_type', 'match_mode', 'pattern', 'enabled', 'created_at', 'updated_at', 'normalize'],
     watch_stats: ['rule_id', 'hit_count', 'last_hit_at'],
     system_logs: ['id', 'category', 'level', 'message', 'details', 'worker_name', 'created_at'],
 
     // Monitoring Tables (from monitoring-schema.sql)
-    monitoring_rules: ['id', 'merchant', 'name', 'subject_pattern', 'match_mode', 'expected_interval_minutes', 'dead_after_minutes', 'tags', 'worker_scope', 'enabled', 'created_at', 'updated_at'],
+    monitoring_rules: ['id', 'merchant', 'name', 'subject_pattern', 'match_mode', 'expected_interval_minutes', 'dead_after_minutes', 'tags', 'worker_scope', 'enabled', 'created_at', 'updated_at', 'normalize'],
     hit_logs: ['id', 'rule_id', 'sender', 'subject', 'recipient', 'received_at', 'created_at'],
     alerts: ['id', 'rule_id', 'alert_type', 'previous_state', 'current_state', 'gap_minutes', 'count_1h', 'count_12h', 'count_24h', 'message', 'worker_scope', 'sent_at', 'created_at'],
     heartbeat_logs: ['id', 'checked_at', 'rules_checked', 'state_changes', 'alerts_triggered', 'duration_ms'],
@@ -17,6 +17,7 @@ interface MonitoringRuleRow {
   name: string;
   subject_pattern: string;
   match_mode: string;
+  normalize: number;
   expected_interval_minutes: number;
   dead_after_minutes: number;
   enabled: number;
@@ -46,6 +47,7 @@ export class SignalStateRepository {
       name: row.name,
       subjectPattern: row.subject_pattern,
       matchMode: (row.match_mode as SubjectMatchMode) || 'contains',
+      normalize: row.normalize === 1,
       expectedIntervalMinutes: row.expected_interval_minutes,
       deadAfterMinutes: row.dead_after_minutes,
       tags,
@@ -64,7 +66,7 @@ export class SignalStateRepository {
       SELECT 
         ss.rule_id, ss.state, ss.last_seen_at, 
         ss.count_1h, ss.count_12h, ss.count_24h, ss.updated_at,
-        mr.id, mr.merchant, mr.name, mr.subject_pattern, mr.match_mode,
+        mr.id, mr.merchant, mr.name, mr.subject_pattern, mr.match_mode, mr.normalize,
         mr.expected_interval_minutes, mr.dead_after_minutes, mr.tags,
         mr.worker_scope, mr.enabled, mr.created_at, mr.updated_at as rule_updated_at
       FROM signal_states ss
@@ -89,6 +91,7 @@ export class SignalStateRepository {
       name: row.name,
       subjectPattern: row.subject_pattern,
       matchMode: (row.match_mode as SubjectMatchMode) || 'contains',
+      normalize: row.normalize === 1,
       expectedIntervalMinutes: row.expected_interval_minutes,
       deadAfterMinutes: row.dead_after_minutes,
       tags,
@@ -125,7 +128,7 @@ export class SignalStateRepository {
       SELECT 
         ss.rule_id, ss.state, ss.last_seen_at, 
         ss.count_1h, ss.count_12h, ss.count_24h, ss.updated_at,
-        mr.id, mr.merchant, mr.name, mr.subject_pattern, mr.match_mode,
+        mr.id, mr.merchant, mr.name, mr.subject_pattern, mr.match_mode, mr.normalize,
         mr.expected_interval_minutes, mr.dead_after_minutes, mr.tags,
         mr.worker_scope, mr.enabled, mr.created_at, mr.updated_at as rule_updated_at
       FROM signal_states ss
@@ -155,6 +158,7 @@ export class SignalStateRepository {
         name: row.name,
         subjectPattern: row.subject_pattern,
         matchMode: (row.match_mode as SubjectMatchMode) || 'contains',
+        normalize: row.normalize === 1,
         expectedIntervalMinutes: row.expected_interval_minutes,
         deadAfterMinutes: row.dead_after_minutes,
         tags,
@@ -191,7 +195,7 @@ export class SignalStateRepository {
       SELECT 
         ss.rule_id, ss.state, ss.last_seen_at, 
         ss.count_1h, ss.count_12h, ss.count_24h, ss.updated_at,
-        mr.id, mr.merchant, mr.name, mr.subject_pattern, mr.match_mode,
+        mr.id, mr.merchant, mr.name, mr.subject_pattern, mr.match_mode, mr.normalize,
         mr.expected_interval_minutes, mr.dead_after_minutes, mr.tags,
         mr.worker_scope, mr.enabled, mr.created_at, mr.updated_at as rule_updated_at
       FROM signal_states ss
@@ -222,6 +226,7 @@ export class SignalStateRepository {
         name: row.name,
         subjectPattern: row.subject_pattern,
         matchMode: (row.match_mode as SubjectMatchMode) || 'contains',
+        normalize: row.normalize === 1,
         expectedIntervalMinutes: row.expected_interval_minutes,
         deadAfterMinutes: row.dead_after_minutes,
         tags,
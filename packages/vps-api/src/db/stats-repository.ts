@@ -16,12 +16,77 @@ interface StatsRow {
   last_updated: string;
 }
 
+/**
+ * Stats of a shadow rule: how often it matched and how often it would have changed the outcome
+ */
+export interface ShadowRuleStats {
+  ruleId: string;
+  matchedCount: number;
+  wouldChangeCount: number;
+  lastMatchedAt?: Date;
+}
+
+interface ShadowStatsRow {
+  rule_id: string;
+  matched_count: number;
+  would_change_count: number;
+  last_matched_at: string | null;
+}
+
+/**
+ * Hits of a rule on one worker at one moment, to be rolled up into hour and day buckets
+ */
+export interface RuleHitEntry {
+  ruleId: string;
+  /** Worker the email went through, empty for global rules without a worker */
+  workerId: string;
+  timestamp: number;
+  hits: number;
+  blocked: number;
+}
+
+interface RollupRow {
+  rule_id: string;
+  bucket_start: string;
+  hits: number;
+  blocked: number;
+}
+
+/**
+ * Size of the buckets hits are rolled up into
+ */
+export type TimeseriesGranularity = 'hour' | 'day';
+
+/** Length of a bucket per granularity, in ms */
+export const TIMESERIES_BUCKET_MS: Record<TimeseriesGranularity, number> = {
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Hits of one rule in one bucket
+ */
+export interface TimeseriesPoint {
+  bucketStart: string;
+  hits: number;
+  blocked: number;
+}
+
+/**
+ * Start of the UTC bucket containing a timestamp, as an ISO string
+ */
+export function getBucketStart(timestamp: number, granularity: TimeseriesGranularity): string {
+  const size = TIMESERIES_BUCKET_MS[granularity];
+  return new Date(Math.floor(timestamp / size) * size).toISOString();
+}
+
 export interface OverallStats {
   totalRules: number;
   enabledRules: number;
   totalProcessed: number;
   totalForwarded: number;
   totalDeleted: number;
+  totalRejected: number;
   totalErrors: number;
 }
 
@@ -30,6 +95,7 @@ export interface WorkerStats {
   total: number;
   forwarded: number;
   dropped: number;
+  rejected: number;
 }
 
 /**
@@ -122,10 +188,15 @@ export class StatsRepository {
 
     // Get global stats
     const globalStmt = this.db.prepare(`
-      SELECT total_processed, total_forwarded, total_deleted
+      SELECT total_processed, total_forwarded, total_deleted, total_rejected
       FROM global_stats WHERE id = 1
     `);
-    const globalResult = globalStmt.get() as { total_processed: number; total_forwarded: number; total_deleted: number } | undefined;
+    const globalResult = globalStmt.get() as {
+      total_processed: number;
+      total_forwarded: number;
+      total_deleted: number;
+      total_rejected: number;
+    } | undefined;
 
     // Get error count from rule_stats
     const errorStmt = this.db.prepare(`
@@ -139,6 +210,7 @@ export class StatsRepository {
       totalProcessed: globalResult?.total_processed || 0,
       totalForwarded: globalResult?.total_forwarded || 0,
       totalDeleted: globalResult?.total_deleted || 0,
+      totalRejected: globalResult?.total_rejected || 0,
       totalErrors: errorResult.total_errors,
     };
   }
@@ -171,6 +243,20 @@ export class StatsRepository {
     `).run(now);
   }
 
+  /**
+   * Increment global rejected count (email bounced with an SMTP reject)
+   */
+  incrementGlobalRejected(): void {
+    const now = new Date().toISOString();
+    this.db.prepare(`
+      UPDATE global_stats 
+      SET total_processed = total_processed + 1, 
+          total_rejected = total_rejected + 1, 
+          last_updated = ?
+      WHERE id = 1
+    `).run(now);
+  }
+
   /**
    * Batch increment global forwarded count
    * Requirements: 3.3 - Combine similar operations into single database writes
@@ -207,6 +293,24 @@ export class StatsRepository {
     `).run(count, count, now);
   }
 
+  /**
+   * Batch increment global rejected count
+   * Requirements: 3.3 - Combine similar operations into single database writes
+   * 
+   * @param count - Number to increment by
+   */
+  incrementGlobalRejectedBatch(count: number): void {
+    if (count <= 0) return;
+    const now = new Date().toISOString();
+    this.db.prepare(`
+      UPDATE global_stats 
+      SET total_processed = total_processed + ?, 
+          total_rejected = total_rejected + ?, 
+          last_updated = ?
+      WHERE id = 1
+    `).run(count, count, now);
+  }
+
   /**
    * Batch increment processed count for a rule
    * Requirements: 3.3 - Combine similar operations into single database writes
@@ -241,6 +345,119 @@ export class StatsRepository {
     `).run(count, count, now, ruleId);
   }
 
+  /**
+   * Batch record shadow matches for a rule
+   * Shadow stats are kept apart from rule_stats so they never count as real hits.
+   * Nothing is recorded for a rule deleted while its match was queued.
+   *
+   * @param ruleId - The shadow rule ID
+   * @param matched - Number of emails the rule matched
+   * @param wouldChange - Number of those emails whose outcome it would have changed
+   */
+  incrementShadowBatch(ruleId: string, matched: number, wouldChange: number): void {
+    if (matched <= 0) return;
+    const now = new Date().toISOString();
+    this.db.prepare(`
+      INSERT INTO shadow_rule_stats (rule_id, matched_count, would_change_count, last_matched_at)
+      SELECT ?, ?, ?, ?
+      WHERE EXISTS (SELECT 1 FROM filter_rules WHERE id = ?)
+      ON CONFLICT(rule_id) DO UPDATE SET
+        matched_count = matched_count + excluded.matched_count,
+        would_change_count = would_change_count + excluded.would_change_count,
+        last_matched_at = excluded.last_matched_at
+    `).run(ruleId, matched, wouldChange, now, ruleId);
+  }
+
+  /**
+   * Get shadow stats for a rule, zeroed when it has not matched yet
+   */
+  findShadowStats(ruleId: string): ShadowRuleStats {
+    const row = this.db.prepare('SELECT * FROM shadow_rule_stats WHERE rule_id = ?').get(ruleId) as ShadowStatsRow | undefined;
+    return {
+      ruleId,
+      matchedCount: row?.matched_count ?? 0,
+      wouldChangeCount: row?.would_change_count ?? 0,
+      lastMatchedAt: row?.last_matched_at ? new Date(row.last_matched_at) : undefined,
+    };
+  }
+
+  /**
+   * Add rule hits to their hour and day buckets
+   * Entries falling into the same bucket are summed before writing.
+   */
+  recordRuleHitsBatch(entries: RuleHitEntry[]): void {
+    const buckets = new Map<string, { ruleId: string; workerId: string; granularity: TimeseriesGranularity; bucketStart: string; hits: number; blocked: number }>();
+    for (const entry of entries) {
+      for (const granularity of ['hour', 'day'] as const) {
+        const bucketStart = getBucketStart(entry.timestamp, granularity);
+        const key = [entry.ruleId, entry.workerId, granularity, bucketStart].join('|');
+        const bucket = buckets.get(key) || { ruleId: entry.ruleId, workerId: entry.workerId, granularity, bucketStart, hits: 0, blocked: 0 };
+        bucket.hits += entry.hits;
+        bucket.blocked += entry.blocked;
+        buckets.set(key, bucket);
+      }
+    }
+    if (buckets.size === 0) return;
+
+    // Hits of rules deleted while their hit was queued are dropped
+    const stmt = this.db.prepare(`
+      INSERT INTO rule_hit_rollups (rule_id, worker_id, granularity, bucket_start, hits, blocked)
+      SELECT ?, ?, ?, ?, ?, ?
+      WHERE EXISTS (SELECT 1 FROM filter_rules WHERE id = ?)
+      ON CONFLICT(rule_id, worker_id, granularity, bucket_start) DO UPDATE SET
+        hits = hits + excluded.hits,
+        blocked = blocked + excluded.blocked
+    `);
+    const upsertAll = this.db.transaction(() => {
+      for (const bucket of buckets.values()) {
+        stmt.run(bucket.ruleId, bucket.workerId, bucket.granularity, bucket.bucketStart, bucket.hits, bucket.blocked, bucket.ruleId);
+      }
+    });
+    upsertAll();
+  }
+
+  /**
+   * Get the stored buckets of a rule since a given time, summed over workers unless one is given
+   * Buckets without hits are not stored; see fillTimeseries
+   */
+  getRuleTimeseries(ruleId: string, granularity: TimeseriesGranularity, from: Date, workerId?: string): TimeseriesPoint[] {
+    const params: string[] = [ruleId, granularity, getBucketStart(from.getTime(), granularity)];
+    let workerFilter = '';
+    if (workerId !== undefined) {
+      workerFilter = 'AND worker_id = ?';
+      params.push(workerId);
+    }
+    const rows = this.db.prepare(`
+      SELECT rule_id, bucket_start, SUM(hits) as hits, SUM(blocked) as blocked
+      FROM rule_hit_rollups
+      WHERE rule_id = ? AND granularity = ? AND bucket_start >= ? ${workerFilter}
+      GROUP BY bucket_start
+      ORDER BY bucket_start
+    `).all(...params) as RollupRow[];
+    return rows.map((row) => ({ bucketStart: row.bucket_start, hits: row.hits, blocked: row.blocked }));
+  }
+
+  /**
+   * Get the stored day buckets of every rule since a given time, keyed by rule ID
+   */
+  getDailyHitsByRule(from: Date): Map<string, TimeseriesPoint[]> {
+    const rows = this.db.prepare(`
+      SELECT rule_id, bucket_start, SUM(hits) as hits, SUM(blocked) as blocked
+      FROM rule_hit_rollups
+      WHERE granularity = 'day' AND bucket_start >= ?
+      GROUP BY rule_id, bucket_start
+      ORDER BY bucket_start
+    `).all(getBucketStart(from.getTime(), 'day')) as RollupRow[];
+
+    const byRule = new Map<string, TimeseriesPoint[]>();
+    for (const row of rows) {
+      const points = byRule.get(row.rule_id) || [];
+      points.push({ bucketStart: row.bucket_start, hits: row.hits, blocked: row.blocked });
+      byRule.set(row.rule_id, points);
+    }
+    return byRule;
+  }
+
   /**
    * Initialize global stats table if not exists
    */
@@ -292,9 +509,10 @@ export class StatsRepository {
       SELECT 
         COUNT(*) as total,
         SUM(CASE WHEN category = 'email_forward' THEN 1 ELSE 0 END) as forwarded,
-        SUM(CASE WHEN category = 'email_drop' THEN 1 ELSE 0 END) as dropped
+        SUM(CASE WHEN category = 'email_drop' THEN 1 ELSE 0 END) as dropped,
+        SUM(CASE WHEN category = 'email_reject' THEN 1 ELSE 0 END) as rejected
       FROM system_logs
-      WHERE category IN ('email_forward', 'email_drop')
+      WHERE category IN ('email_forward', 'email_drop', 'email_reject')
     `;
     const params: string[] = [];
 
@@ -304,7 +522,12 @@ export class StatsRepository {
     }
 
     const logsStmt = this.db.prepare(logsQuery);
-    const logsResult = logsStmt.get(...params) as { total: number; forwarded: number; dropped: number } | undefined;
+    const logsResult = logsStmt.get(...params) as {
+      total: number;
+      forwarded: number;
+      dropped: number;
+      rejected: number;
+    } | undefined;
 
     // Get error count from rule_stats
     const errorStmt = this.db.prepare(`
@@ -318,6 +541,7 @@ export class StatsRepository {
       totalProcessed: logsResult?.total || 0,
       totalForwarded: logsResult?.forwarded || 0,
       totalDeleted: logsResult?.dropped || 0,
+      totalRejected: logsResult?.rejected || 0,
       totalErrors: errorResult.total_errors,
     };
   }
@@ -332,20 +556,22 @@ export class StatsRepository {
         worker_name,
         COUNT(*) as total,
         SUM(CASE WHEN category = 'email_forward' THEN 1 ELSE 0 END) as forwarded,
-        SUM(CASE WHEN category = 'email_drop' THEN 1 ELSE 0 END) as dropped
+        SUM(CASE WHEN category = 'email_drop' THEN 1 ELSE 0 END) as dropped,
+        SUM(CASE WHEN category = 'email_reject' THEN 1 ELSE 0 END) as rejected
       FROM system_logs
-      WHERE category IN ('email_forward', 'email_drop')
+      WHERE category IN ('email_forward', 'email_drop', 'email_reject')
       GROUP BY worker_name
       ORDER BY total DESC
     `);
 
-    const rows = stmt.all() as { worker_name: string; total: number; forwarded: number; dropped: number }[];
+    const rows = stmt.all() as { worker_name: string; total: number; forwarded: number; dropped: number; rejected: number }[];
 
     return rows.map(row => ({
       workerName: row.worker_name || 'global',
       total: row.total,
       forwarded: row.forwarded,
       dropped: row.dropped,
+      rejected: row.rejected,
     }));
   }
 
@@ -1,12 +1,15 @@
 import type { Database } from 'better-sqlite3';
 import { randomUUID } from 'crypto';
+import type { MatchType } from '@email-filter/shared';
 
 export interface WatchRule {
   id: string;
   name: string;
-  matchType: 'sender' | 'subject' | 'domain';
+  matchType: MatchType;
   matchMode: 'exact' | 'contains' | 'startsWith' | 'endsWith' | 'regex';
   pattern: string;
+  /** Match against normalized text (see normalizeText) */
+  normalize: boolean;
   enabled: boolean;
   createdAt: Date;
   updatedAt: Date;
@@ -32,13 +35,15 @@ interface WatchRuleRow {
   enabled: number;
   created_at: string;
   updated_at: string;
+  normalize: number;
 }
 
 export interface CreateWatchRuleDTO {
   name: string;
-  matchType: 'sender' | 'subject' | 'domain';
+  matchType: MatchType;
   matchMode: 'exact' | 'contains' | 'startsWith' | 'endsWith' | 'regex';
   pattern: string;
+  normalize?: boolean;
 }
 
 /**
@@ -54,6 +59,7 @@ export class WatchRepository {
       matchType: row.match_type as WatchRule['matchType'],
       matchMode: row.match_mode as WatchRule['matchMode'],
       pattern: row.pattern,
+      normalize: row.normalize === 1,
       enabled: row.enabled === 1,
       createdAt: new Date(row.created_at),
       updatedAt: new Date(row.updated_at),
@@ -67,12 +73,13 @@ export class WatchRepository {
   create(dto: CreateWatchRuleDTO): WatchRule {
     const id = randomUUID();
     const now = new Date().toISOString();
+    const normalize = dto.normalize ?? false;
 
     const stmt = this.db.prepare(`
-      INSERT INTO watch_rules (id, name, match_type, match_mode, pattern, enabled, created_at, updated_at)
-      VALUES (?, ?, ?, ?, ?, 1, ?, ?)
+      INSERT INTO watch_rules (id, name, match_type, match_mode, pattern, normalize, enabled, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, 1, ?, ?)
     `);
-    stmt.run(id, dto.name, dto.matchType, dto.matchMode, dto.pattern, now, now);
+    stmt.run(id, dto.name, dto.matchType, dto.matchMode, dto.pattern, normalize ? 1 : 0, now, now);
 
     // Initialize stats
     this.db.prepare(`
@@ -86,6 +93,7 @@ export class WatchRepository {
       matchType: dto.matchType,
       matchMode: dto.matchMode,
       pattern: dto.pattern,
+      normalize,
       enabled: true,
       createdAt: new Date(now),
       updatedAt: new Date(now),
@@ -159,6 +167,24 @@ export class WatchRepository {
     return { ...rule, enabled: !rule.enabled, updatedAt: new Date(now) };
   }
 
+  /**
+   * Update a rule's name, enabled status and normalize flag
+   */
+  update(id: string, dto: { name?: string; enabled?: boolean; normalize?: boolean }): WatchRule | null {
+    const rule = this.findById(id);
+    if (!rule) return null;
+
+    const now = new Date().toISOString();
+    const name = dto.name ?? rule.name;
+    const enabled = dto.enabled ?? rule.enabled;
+    const normalize = dto.normalize ?? rule.normalize;
+    this.db
+      .prepare('UPDATE watch_rules SET name = ?, enabled = ?, normalize = ?, updated_at = ? WHERE id = ?')
+      .run(name, enabled ? 1 : 0, normalize ? 1 : 0, now, id);
+
+    return { ...rule, name, enabled, normalize, updatedAt: new Date(now) };
+  }
+
   /**
    * Find rule by ID
    */
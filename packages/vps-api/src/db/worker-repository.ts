@@ -12,6 +12,8 @@ export interface WorkerInstance {
   defaultForwardTo: string;
   workerUrl: string | null;
   enabled: boolean;
+  /** Email headers the worker includes in its webhook payload (e.g. List-Id) */
+  forwardHeaders: string[];
   createdAt: string;
   updatedAt: string;
 }
@@ -21,6 +23,7 @@ export interface CreateWorkerInput {
   domain?: string;
   defaultForwardTo: string;
   workerUrl?: string;
+  forwardHeaders?: string[];
 }
 
 export interface UpdateWorkerInput {
@@ -29,6 +32,7 @@ export interface UpdateWorkerInput {
   defaultForwardTo?: string;
   workerUrl?: string;
   enabled?: boolean;
+  forwardHeaders?: string[];
 }
 
 export class WorkerRepository {
@@ -39,7 +43,7 @@ export class WorkerRepository {
    */
   findAll(): WorkerInstance[] {
     const rows = this.db.prepare(`
-      SELECT id, name, domain, default_forward_to, worker_url, enabled, created_at, updated_at
+      SELECT id, name, domain, default_forward_to, worker_url, enabled, created_at, updated_at, forward_headers
       FROM worker_instances
       ORDER BY created_at DESC
     `).all() as any[];
@@ -52,7 +56,7 @@ export class WorkerRepository {
    */
   findEnabled(): WorkerInstance[] {
     const rows = this.db.prepare(`
-      SELECT id, name, domain, default_forward_to, worker_url, enabled, created_at, updated_at
+      SELECT id, name, domain, default_forward_to, worker_url, enabled, created_at, updated_at, forward_headers
       FROM worker_instances
       WHERE enabled = 1
       ORDER BY created_at DESC
@@ -66,7 +70,7 @@ export class WorkerRepository {
    */
   findById(id: string): WorkerInstance | null {
     const row = this.db.prepare(`
-      SELECT id, name, domain, default_forward_to, worker_url, enabled, created_at, updated_at
+      SELECT id, name, domain, default_forward_to, worker_url, enabled, created_at, updated_at, forward_headers
       FROM worker_instances
       WHERE id = ?
     `).get(id) as any;
@@ -79,7 +83,7 @@ export class WorkerRepository {
    */
   findByName(name: string): WorkerInstance | null {
     const row = this.db.prepare(`
-      SELECT id, name, domain, default_forward_to, worker_url, enabled, created_at, updated_at
+      SELECT id, name, domain, default_forward_to, worker_url, enabled, created_at, updated_at, forward_headers
       FROM worker_instances
       WHERE name = ? AND enabled = 1
     `).get(name) as any;
@@ -92,7 +96,7 @@ export class WorkerRepository {
    */
   findByDomain(domain: string): WorkerInstance | null {
     const row = this.db.prepare(`
-      SELECT id, name, domain, default_forward_to, worker_url, enabled, created_at, updated_at
+      SELECT id, name, domain, default_forward_to, worker_url, enabled, created_at, updated_at, forward_headers
       FROM worker_instances
       WHERE domain = ? AND enabled = 1
     `).get(domain) as any;
@@ -108,9 +112,18 @@ export class WorkerRepository {
     const now = new Date().toISOString();
 
     this.db.prepare(`
-      INSERT INTO worker_instances (id, name, domain, default_forward_to, worker_url, enabled, created_at, updated_at)
-      VALUES (?, ?, ?, ?, ?, 1, ?, ?)
-    `).run(id, input.name, input.domain || null, input.defaultForwardTo, input.workerUrl || null, now, now);
+      INSERT INTO worker_instances (id, name, domain, default_forward_to, worker_url, enabled, created_at, updated_at, forward_headers)
+      VALUES (?, ?, ?, ?, ?, 1, ?, ?, ?)
+    `).run(
+      id,
+      input.name,
+      input.domain || null,
+      input.defaultForwardTo,
+      input.workerUrl || null,
+      now,
+      now,
+      input.forwardHeaders && input.forwardHeaders.length > 0 ? JSON.stringify(input.forwardHeaders) : null
+    );
 
     return this.findById(id)!;
   }
@@ -146,6 +159,10 @@ export class WorkerRepository {
       updates.push('enabled = ?');
       values.push(input.enabled ? 1 : 0);
     }
+    if (input.forwardHeaders !== undefined) {
+      updates.push('forward_headers = ?');
+      values.push(input.forwardHeaders.length > 0 ? JSON.stringify(input.forwardHeaders) : null);
+    }
 
     values.push(id);
 
@@ -184,6 +201,7 @@ export class WorkerRepository {
       defaultForwardTo: row.default_forward_to,
       workerUrl: row.worker_url,
       enabled: row.enabled === 1,
+      forwardHeaders: row.forward_headers ? JSON.parse(row.forward_headers) : [],
       createdAt: row.created_at,
       updatedAt: row.updated_at,
     };
@@ -5,6 +5,9 @@ import { initializeDatabase, closeDatabase, getDatabase } from './db/index.js';
 import {
   webhookRoutes,
   rulesRoutes,
+  ruleDraftRoutes,
+  ruleSetRoutes,
+  ruleSuggestionRoutes,
   statsRoutes,
   dynamicRoutes,
   forwardRoutes,
@@ -23,9 +26,11 @@ import {
   usersRoutes,
   cleanupSettingsRoutes,
   backupRoutes,
+  transferRoutes,
 } from './routes/index.js';
 import { SchedulerService } from './services/monitoring/index.js';
 import { UserService } from './services/user.service.js';
+import { RegexAuditService } from './services/regex-audit.service.js';
 
 // Scheduler instance
 let scheduler: SchedulerService | null = null;
@@ -57,6 +62,16 @@ async function start() {
       config.defaultAdminPassword
     );
 
+    // Stored regex patterns that fail the ReDoS analysis need fixing; unsupported ones never match
+    const regexAudit = new RegexAuditService(getDatabase()).audit();
+    if (regexAudit.length > 0) {
+      console.warn(`Found ${regexAudit.length} stored regex pattern(s) that fail the ReDoS analysis (see /api/rules/regex-audit):`);
+      for (const entry of regexAudit) {
+        const note = entry.unsupported ? ' (never matches)' : '';
+        console.warn(`  ${entry.source} ${entry.ruleId} /${entry.pattern}/: ${entry.reason}${note}`);
+      }
+    }
+
     // Create Fastify instance
     const fastify = Fastify({
       logger: {
@@ -108,6 +123,9 @@ async function start() {
     // Register API routes
     await fastify.register(webhookRoutes, { prefix: '/api/webhook' });
     await fastify.register(rulesRoutes, { prefix: '/api/rules' });
+    await fastify.register(ruleDraftRoutes, { prefix: '/api/rules/drafts' });
+    await fastify.register(ruleSetRoutes, { prefix: '/api/rule-sets' });
+    await fastify.register(ruleSuggestionRoutes, { prefix: '/api/rule-suggestions' });
     await fastify.register(statsRoutes, { prefix: '/api/stats' });
     await fastify.register(dynamicRoutes, { prefix: '/api/dynamic' });
     await fastify.register(forwardRoutes, { prefix: '/api/forward' });
@@ -125,6 +143,7 @@ async function start() {
     await fastify.register(usersRoutes, { prefix: '/api/admin/users' });
     await fastify.register(cleanupSettingsRoutes, { prefix: '/api/admin/cleanup' });
     await fastify.register(backupRoutes, { prefix: '/api/admin/backup' });
+    await fastify.register(transferRoutes, { prefix: '/api/transfer' });
 
     // Initialize and start scheduler for monitoring tasks
     // - Heartbeat checks every 5 minutes (Requirement 4.1)
@@ -23,6 +23,7 @@ interface UpdateConfigBody {
   heartbeatLogsRetentionDays?: number;
   subjectTrackerRetentionHours?: number;
   subjectStatsRetentionDays?: number;
+  ruleHitRollupRetentionDays?: number;
   cleanupHour?: number;
   autoCleanupEnabled?: boolean;
 }
@@ -205,6 +206,10 @@ export async function cleanupSettingsRoutes(fastify: FastifyInstance): Promise<v
             deletedCount: result.subjectStats.deletedCount,
             cutoffDate: result.subjectStats.cutoffDate.toISOString(),
           },
+          ruleHitRollups: {
+            deletedCount: result.ruleHitRollups.deletedCount,
+            cutoffDate: result.ruleHitRollups.cutoffDate.toISOString(),
+          },
           totalDeleted: result.totalDeleted,
           durationMs: result.durationMs,
           executedAt: result.executedAt.toISOString(),
@@ -204,7 +204,7 @@ export async function dynamicRoutes(fastify: FastifyInstance): Promise<void> {
 
   /**
    * GET /api/dynamic/tracker/stats
-   * Get subject tracker statistics
+   * Get subject tracker statistics, with the largest subject clusters of the current window
    */
   fastify.get('/tracker/stats', async (request: FastifyRequest, reply: FastifyReply) => {
     try {
@@ -213,7 +213,7 @@ export async function dynamicRoutes(fastify: FastifyInstance): Promise<void> {
       const dynamicService = new DynamicRuleService(db, ruleRepository);
 
       const stats = dynamicService.getSubjectTrackerStats();
-      return reply.send(stats);
+      return reply.send({ ...stats, clusters: dynamicService.getSubjectClusters() });
     } catch (error) {
       request.log.error(error, 'Error fetching subject tracker stats');
       return reply.status(500).send({ error: 'Internal error' });
@@ -1,15 +1,24 @@
 /**
  * Forward Configuration Routes
- * Manage email forwarding settings
+ * Manage email forwarding settings and recipient-based forward rules
  * 
  * Requirements: 4.4
  */
 
 import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import type { CreateForwardRuleDTO, UpdateForwardRuleDTO, ForwardMatchMode } from '@email-filter/shared';
+import { analyzeRegex } from '@email-filter/shared';
 import { getDatabase } from '../db/index.js';
+import { ForwardRuleRepository } from '../db/forward-rule-repository.js';
+import { getForwardRuleCache } from '../services/forward-rule-cache.instance.js';
+import { WorkerRepository } from '../db/worker-repository.js';
+import { LogRepository } from '../db/log-repository.js';
 import { authMiddleware } from '../middleware/auth.js';
 import { config } from '../config.js';
 
+const VALID_FORWARD_MATCH_MODES: ForwardMatchMode[] = ['exact', 'contains', 'regex'];
+const MAX_RECIPIENT_PATTERN_LENGTH = 200;
+
 /**
  * Forward configuration interface
  */
@@ -65,7 +74,7 @@ function updateForwardConfig(defaultForwardTo: string): ForwardConfigData {
 /**
  * Validate forward config update
  */
-function validateForwardConfig(body: unknown): { valid: boolean; error?: string; data?: { defaultForwardTo: string } } {
+export function validateForwardConfig(body: unknown): { valid: boolean; error?: string; data?: { defaultForwardTo: string } } {
   if (!body || typeof body !== 'object') {
     return { valid: false, error: 'Request body is required' };
   }
@@ -89,6 +98,156 @@ function validateForwardConfig(body: unknown): { valid: boolean; error?: string;
   return { valid: true, data: { defaultForwardTo: email } };
 }
 
+/**
+ * Validate a forward rule recipient pattern for its match mode
+ */
+function validateRecipientPattern(pattern: unknown, matchMode: ForwardMatchMode): string | null {
+  if (typeof pattern !== 'string' || pattern.trim().length === 0) {
+    return 'recipientPattern is required';
+  }
+  if (pattern.length > MAX_RECIPIENT_PATTERN_LENGTH) {
+    return `recipientPattern must be at most ${MAX_RECIPIENT_PATTERN_LENGTH} characters`;
+  }
+  if (matchMode === 'regex') {
+    const analysis = analyzeRegex(pattern);
+    if (!analysis.safe) {
+      return `recipientPattern is not a valid regular expression: ${analysis.reason}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Validate a forward destination address
+ */
+function validateForwardTo(forwardTo: unknown): string | null {
+  if (typeof forwardTo !== 'string' || !forwardTo.trim()) {
+    return 'forwardTo is required';
+  }
+  if (!forwardTo.includes('@')) {
+    return 'forwardTo must be a valid email address';
+  }
+  return null;
+}
+
+/**
+ * Validate worker reference, null/undefined means a global rule
+ */
+function validateWorkerId(workerId: unknown): string | null {
+  if (workerId === undefined || workerId === null) {
+    return null;
+  }
+  if (typeof workerId !== 'string') {
+    return 'workerId must be a string';
+  }
+  if (!new WorkerRepository(getDatabase()).findById(workerId)) {
+    return 'Worker not found';
+  }
+  return null;
+}
+
+/**
+ * Validate create forward rule request
+ */
+export function validateCreateForwardRule(body: unknown): { valid: boolean; error?: string; data?: CreateForwardRuleDTO } {
+  if (!body || typeof body !== 'object') {
+    return { valid: false, error: 'Request body is required' };
+  }
+
+  const data = body as Record<string, unknown>;
+
+  if (!data.matchMode || !VALID_FORWARD_MATCH_MODES.includes(data.matchMode as ForwardMatchMode)) {
+    return { valid: false, error: `Invalid matchMode. Must be one of: ${VALID_FORWARD_MATCH_MODES.join(', ')}` };
+  }
+  const matchMode = data.matchMode as ForwardMatchMode;
+
+  const error = validateRecipientPattern(data.recipientPattern, matchMode)
+    ?? validateForwardTo(data.forwardTo)
+    ?? validateWorkerId(data.workerId);
+  if (error) {
+    return { valid: false, error };
+  }
+
+  if (data.enabled !== undefined && typeof data.enabled !== 'boolean') {
+    return { valid: false, error: 'enabled must be a boolean' };
+  }
+
+  return {
+    valid: true,
+    data: {
+      workerId: (data.workerId as string | null) || undefined,
+      recipientPattern: (data.recipientPattern as string).trim(),
+      matchMode,
+      forwardTo: (data.forwardTo as string).trim(),
+      enabled: data.enabled as boolean | undefined,
+    },
+  };
+}
+
+/**
+ * Validate update forward rule request against the existing match mode
+ */
+function validateUpdateForwardRule(
+  body: unknown,
+  currentMatchMode: ForwardMatchMode
+): { valid: boolean; error?: string; data?: UpdateForwardRuleDTO } {
+  if (!body || typeof body !== 'object') {
+    return { valid: false, error: 'Request body is required' };
+  }
+
+  const data = body as Record<string, unknown>;
+  const dto: UpdateForwardRuleDTO = {};
+
+  if (data.matchMode !== undefined) {
+    if (!VALID_FORWARD_MATCH_MODES.includes(data.matchMode as ForwardMatchMode)) {
+      return { valid: false, error: `Invalid matchMode. Must be one of: ${VALID_FORWARD_MATCH_MODES.join(', ')}` };
+    }
+    dto.matchMode = data.matchMode as ForwardMatchMode;
+  }
+
+  if (data.recipientPattern !== undefined) {
+    const error = validateRecipientPattern(data.recipientPattern, dto.matchMode ?? currentMatchMode);
+    if (error) {
+      return { valid: false, error };
+    }
+    dto.recipientPattern = (data.recipientPattern as string).trim();
+  }
+
+  if (data.forwardTo !== undefined) {
+    const error = validateForwardTo(data.forwardTo);
+    if (error) {
+      return { valid: false, error };
+    }
+    dto.forwardTo = (data.forwardTo as string).trim();
+  }
+
+  if (data.workerId !== undefined) {
+    const error = validateWorkerId(data.workerId);
+    if (error) {
+      return { valid: false, error };
+    }
+    dto.workerId = (data.workerId as string | null) || null;
+  }
+
+  if (data.enabled !== undefined) {
+    if (typeof data.enabled !== 'boolean') {
+      return { valid: false, error: 'enabled must be a boolean' };
+    }
+    dto.enabled = data.enabled;
+  }
+
+  return { valid: true, data: dto };
+}
+
+interface ForwardRulesQuery {
+  workerId?: string;
+  global?: string;
+}
+
+interface ForwardRuleParams {
+  id: string;
+}
+
 /**
  * Register forward config routes
  */
@@ -132,4 +291,205 @@ export async function forwardRoutes(fastify: FastifyInstance): Promise<void> {
       return reply.status(500).send({ error: 'Internal error' });
     }
   });
+
+  /**
+   * GET /api/forward/rules
+   * List forward rules in evaluation order
+   * Filter by workerId, or global=true for global rules only
+   */
+  fastify.get('/rules', async (request: FastifyRequest<{ Querystring: ForwardRulesQuery }>, reply: FastifyReply) => {
+    try {
+      const { workerId, global } = request.query;
+      const repository = new ForwardRuleRepository(getDatabase());
+      const scope = global === 'true' ? null : workerId;
+      return reply.send({ rules: repository.findAll(scope) });
+    } catch (error) {
+      request.log.error(error, 'Error fetching forward rules');
+      return reply.status(500).send({ error: 'Internal error' });
+    }
+  });
+
+  /**
+   * POST /api/forward/rules
+   * Create a forward rule, appended to the end of its worker's list
+   */
+  fastify.post('/rules', async (request: FastifyRequest, reply: FastifyReply) => {
+    const validation = validateCreateForwardRule(request.body);
+    if (!validation.valid || !validation.data) {
+      return reply.status(400).send({ error: 'Invalid request', message: validation.error });
+    }
+
+    try {
+      const db = getDatabase();
+      const rule = new ForwardRuleRepository(db).create(validation.data);
+      getForwardRuleCache().invalidate(rule.workerId);
+
+      new LogRepository(db).createAdminLog('创建转发规则', {
+        action: 'create',
+        entityType: 'forwardRule',
+        entityId: rule.id,
+        rule: {
+          recipientPattern: rule.recipientPattern,
+          matchMode: rule.matchMode,
+          forwardTo: rule.forwardTo,
+          enabled: rule.enabled,
+          workerId: rule.workerId || null,
+        },
+      }, rule.workerId || 'global');
+
+      return reply.status(201).send(rule);
+    } catch (error) {
+      request.log.error(error, 'Error creating forward rule');
+      return reply.status(500).send({ error: 'Internal error' });
+    }
+  });
+
+  /**
+   * POST /api/forward/rules/reorder
+   * Set the evaluation order of a worker's rules (workerId null for global rules)
+   * ruleIds must contain every rule of that worker exactly once
+   */
+  fastify.post('/rules/reorder', async (request: FastifyRequest, reply: FastifyReply) => {
+    const body = (request.body || {}) as Record<string, unknown>;
+    const workerId = typeof body.workerId === 'string' && body.workerId ? body.workerId : null;
+    const ruleIds = body.ruleIds;
+
+    if (!Array.isArray(ruleIds) || !ruleIds.every((id) => typeof id === 'string')) {
+      return reply.status(400).send({ error: 'Invalid request', message: 'ruleIds must be an array of rule IDs' });
+    }
+
+    try {
+      const db = getDatabase();
+      const repository = new ForwardRuleRepository(db);
+      const currentIds = repository.findAll(workerId).map((rule) => rule.id);
+      const requested = new Set(ruleIds as string[]);
+      if (requested.size !== ruleIds.length || requested.size !== currentIds.length || !currentIds.every((id) => requested.has(id))) {
+        return reply.status(400).send({ error: 'Invalid request', message: 'ruleIds must list every rule of the worker exactly once' });
+      }
+
+      const rules = repository.reorder(workerId, ruleIds as string[]);
+      getForwardRuleCache().invalidate(workerId);
+
+      new LogRepository(db).createAdminLog('调整转发规则顺序', {
+        action: 'reorder',
+        entityType: 'forwardRule',
+        ruleIds,
+        workerId,
+      }, workerId || 'global');
+
+      return reply.send({ rules });
+    } catch (error) {
+      request.log.error(error, 'Error reordering forward rules');
+      return reply.status(500).send({ error: 'Internal error' });
+    }
+  });
+
+  /**
+   * GET /api/forward/rules/:id
+   * Get a single forward rule
+   */
+  fastify.get('/rules/:id', async (request: FastifyRequest<{ Params: ForwardRuleParams }>, reply: FastifyReply) => {
+    try {
+      const rule = new ForwardRuleRepository(getDatabase()).findById(request.params.id);
+      if (!rule) {
+        return reply.status(404).send({ error: 'Forward rule not found' });
+      }
+      return reply.send(rule);
+    } catch (error) {
+      request.log.error(error, 'Error fetching forward rule');
+      return reply.status(500).send({ error: 'Internal error' });
+    }
+  });
+
+  /**
+   * PUT /api/forward/rules/:id
+   * Update a forward rule
+   */
+  fastify.put('/rules/:id', async (request: FastifyRequest<{ Params: ForwardRuleParams }>, reply: FastifyReply) => {
+    try {
+      const db = getDatabase();
+      const repository = new ForwardRuleRepository(db);
+      const existing = repository.findById(request.params.id);
+      if (!existing) {
+        return reply.status(404).send({ error: 'Forward rule not found' });
+      }
+
+      const validation = validateUpdateForwardRule(request.body, existing.matchMode);
+      if (!validation.valid || !validation.data) {
+        return reply.status(400).send({ error: 'Invalid request', message: validation.error });
+      }
+      // Changing only the match mode to regex must still leave a valid pattern
+      if (validation.data.recipientPattern === undefined && validation.data.matchMode) {
+        const error = validateRecipientPattern(existing.recipientPattern, validation.data.matchMode);
+        if (error) {
+          return reply.status(400).send({ error: 'Invalid request', message: error });
+        }
+      }
+
+      const rule = repository.update(request.params.id, validation.data);
+      if (!rule) {
+        return reply.status(404).send({ error: 'Forward rule not found' });
+      }
+      getForwardRuleCache().invalidate(existing.workerId);
+      getForwardRuleCache().invalidate(rule.workerId);
+
+      new LogRepository(db).createAdminLog('更新转发规则', {
+        action: 'update',
+        entityType: 'forwardRule',
+        entityId: rule.id,
+        before: {
+          recipientPattern: existing.recipientPattern,
+          matchMode: existing.matchMode,
+          forwardTo: existing.forwardTo,
+          enabled: existing.enabled,
+          workerId: existing.workerId || null,
+        },
+        after: {
+          recipientPattern: rule.recipientPattern,
+          matchMode: rule.matchMode,
+          forwardTo: rule.forwardTo,
+          enabled: rule.enabled,
+          workerId: rule.workerId || null,
+        },
+      }, rule.workerId || 'global');
+
+      return reply.send(rule);
+    } catch (error) {
+      request.log.error(error, 'Error updating forward rule');
+      return reply.status(500).send({ error: 'Internal error' });
+    }
+  });
+
+  /**
+   * DELETE /api/forward/rules/:id
+   * Delete a forward rule
+   */
+  fastify.delete('/rules/:id', async (request: FastifyRequest<{ Params: ForwardRuleParams }>, reply: FastifyReply) => {
+    try {
+      const db = getDatabase();
+      const repository = new ForwardRuleRepository(db);
+      const rule = repository.findById(request.params.id);
+      if (!rule || !repository.delete(request.params.id)) {
+        return reply.status(404).send({ error: 'Forward rule not found' });
+      }
+      getForwardRuleCache().invalidate(rule.workerId);
+
+      new LogRepository(db).createAdminLog('删除转发规则', {
+        action: 'delete',
+        entityType: 'forwardRule',
+        entityId: rule.id,
+        deletedRule: {
+          recipientPattern: rule.recipientPattern,
+          matchMode: rule.matchMode,
+          forwardTo: rule.forwardTo,
+          workerId: rule.workerId || null,
+        },
+      }, rule.workerId || 'global');
+
+      return reply.status(204).send();
+    } catch (error) {
+      request.log.error(error, 'Error deleting forward rule');
+      return reply.status(500).send({ error: 'Internal error' });
+    }
+  });
 }
@@ -324,6 +324,7 @@ const HTML_TEMPLATE = `<!DOCTYPE html>
     <div id="rules-tab" class="tab-content hidden">
       <div class="card">
         <h2>过滤规则</h2>
+        <div id="regex-audit-warning" class="alert alert-error" style="display:none;"></div>
         <div class="filter-bar">
           <select id="rule-worker-filter" onchange="loadRules()">
             <option value="">全部 Worker</option>
@@ -336,18 +337,25 @@ const HTML_TEMPLATE = `<!DOCTYPE html>
             <option value="dynamic">动态规则</option>
           </select>
           <button class="btn btn-primary" onclick="showModal('add-rule-modal')">+ 添加规则</button>
+          <button class="btn btn-secondary" onclick="showRuleDrafts()">规则草稿</button>
+          <button class="btn btn-secondary" onclick="showRuleSets()">规则集</button>
+          <button class="btn btn-secondary" onclick="showRuleBulk()">批量操作</button>
+          <button class="btn btn-secondary" onclick="showRuleAnalysis()">规则分析</button>
+          <button class="btn btn-secondary" onclick="showRuleSuggestions()">规则建议</button>
         </div>
         <div class="table-wrapper">
         <table>
           <thead>
             <tr>
+              <th style="white-space:nowrap;" title="同类型内按顺序匹配，命中计入排在前面的规则">顺序</th>
               <th style="white-space:nowrap;">类型</th>
               <th style="white-space:nowrap;">字段</th>
               <th style="white-space:nowrap;">模式</th>
               <th style="min-width:200px;">规则内容</th>
               <th>标签</th>
-              <th style="white-space:nowrap;">Worker</th>
+              <th style="white-space:nowrap;" title="全局规则、共享规则集或 Worker 专属规则">来源</th>
               <th style="white-space:nowrap;">命中</th>
+              <th style="white-space:nowrap;" class="hide-mobile" title="近 14 天每日命中次数">趋势</th>
               <th style="white-space:nowrap;">状态</th>
               <th style="white-space:nowrap;">操作</th>
             </tr>
@@ -356,6 +364,38 @@ const HTML_TEMPLATE = `<!DOCTYPE html>
         </table>
         </div>
       </div>
+      <div class="card">
+        <h2>收件人转发规则</h2>
+        <p style="color:#666;margin-bottom:15px">按收件人选择转发地址，按顺序匹配，先匹配 Worker 规则再匹配全局规则；均未命中时使用默认转发地址</p>
+        <div class="filter-bar">
+          <select id="forward-rule-worker-filter" onchange="loadForwardRules()">
+            <option value="">全局规则</option>
+          </select>
+          <select id="forward-rule-match-mode">
+            <option value="exact">精确匹配</option>
+            <option value="contains">包含</option>
+            <option value="regex">正则表达式</option>
+          </select>
+          <input type="text" id="forward-rule-pattern" placeholder="收件人，如 kids@example.com">
+          <input type="email" id="forward-rule-forward-to" placeholder="转发到，如 parent@gmail.com">
+          <button class="btn btn-primary" onclick="addForwardRule()">+ 添加</button>
+        </div>
+        <div class="table-wrapper">
+        <table>
+          <thead>
+            <tr>
+              <th style="white-space:nowrap;">顺序</th>
+              <th style="white-space:nowrap;">模式</th>
+              <th style="min-width:200px;">收件人</th>
+              <th>转发到</th>
+              <th style="white-space:nowrap;">状态</th>
+              <th style="white-space:nowrap;">操作</th>
+            </tr>
+          </thead>
+          <tbody id="forward-rules-table"></tbody>
+        </table>
+        </div>
+      </div>
     </div>
 
     <!-- Dynamic Rules Tab -->
@@ -427,6 +467,7 @@ const HTML_TEMPLATE = `<!DOCTYPE html>
           </div>
         </div>
         <p style="color:#666;margin-bottom:15px">用于检测重复主题邮件的追踪数据，定期清理可释放磁盘空间</p>
+        <div id="tracker-clusters"></div>
       </div>
       <div class="card">
         <div style="display:flex;justify-content:space-between;align-items:center;margin-bottom:15px;">
@@ -487,6 +528,8 @@ const HTML_TEMPLATE = `<!DOCTYPE html>
             <option value="">全部类型</option>
             <option value="email_forward">📤 转发</option>
             <option value="email_drop">🚫 拦截</option>
+            <option value="email_reject">↩️ 退信</option>
+            <option value="email_shadow">👻 影子规则</option>
             <option value="admin_action">⚙️ 管理操作</option>
             <option value="system">🖥️ 系统</option>
           </select>
@@ -552,6 +595,7 @@ const HTML_TEMPLATE = `<!DOCTYPE html>
           <div class="stat-card"><div class="stat-value" id="stat-total">-</div><div class="stat-label">总处理数</div></div>
           <div class="stat-card"><div class="stat-value" id="stat-forwarded">-</div><div class="stat-label">已转发</div></div>
           <div class="stat-card"><div class="stat-value" id="stat-deleted">-</div><div class="stat-label">已拦截</div></div>
+          <div class="stat-card"><div class="stat-value" id="stat-rejected">-</div><div class="stat-label">已退信</div></div>
           <div class="stat-card"><div class="stat-value" id="stat-rules">-</div><div class="stat-label">规则数量</div></div>
           <div class="stat-card"><div class="stat-value" id="stat-workers">-</div><div class="stat-label">Worker 数量</div></div>
         </div>
@@ -1306,6 +1350,12 @@ const HTML_TEMPLATE = `<!DOCTYPE html>
               <input type="number" id="cleanup-subject-stats-days" min="1" max="365" placeholder="30">
             </div>
           </div>
+          <div class="form-row">
+            <div class="form-group">
+              <label>规则命中趋势保留天数 (7-365)</label>
+              <input type="number" id="cleanup-rule-hit-rollup-days" min="7" max="365" placeholder="90">
+            </div>
+          </div>
           <div class="form-row">
             <div class="form-group">
               <label>清理执行时间 (0-23时)</label>
@@ -1458,6 +1508,11 @@ const HTML_TEMPLATE = `<!DOCTYPE html>
           <input type="url" id="worker-url" placeholder="https://xxx.workers.dev">
           <p style="color:#888;font-size:12px;margin-top:5px">填写后可检测 Worker 是否在线</p>
         </div>
+        <div class="form-group">
+          <label>转发邮件头（可选，用逗号分隔）</label>
+          <input type="text" id="worker-forward-headers" placeholder="List-Id, Reply-To, X-Mailer, List-Unsubscribe, Precedence">
+          <p style="color:#888;font-size:12px;margin-top:5px">Worker 会把这些邮件头随 webhook 发送，供「邮件头」规则匹配</p>
+        </div>
         <button type="submit" class="btn btn-success">创建</button>
       </form>
     </div>
@@ -1489,6 +1544,11 @@ const HTML_TEMPLATE = `<!DOCTYPE html>
           <input type="url" id="edit-worker-url" placeholder="https://xxx.workers.dev">
           <p style="color:#888;font-size:12px;margin-top:5px">填写后可检测 Worker 是否在线</p>
         </div>
+        <div class="form-group">
+          <label>转发邮件头（可选，用逗号分隔）</label>
+          <input type="text" id="edit-worker-forward-headers" placeholder="List-Id, Reply-To, X-Mailer, List-Unsubscribe, Precedence">
+          <p style="color:#888;font-size:12px;margin-top:5px">Worker 会把这些邮件头随 webhook 发送，供「邮件头」规则匹配</p>
+        </div>
         <button type="submit" class="btn btn-primary">保存</button>
       </form>
     </div>
@@ -1513,6 +1573,8 @@ const HTML_TEMPLATE = `<!DOCTYPE html>
               <option value="sender">发件人</option>
               <option value="subject">主题</option>
               <option value="domain">发件域名</option>
+              <option value="recipient">收件人</option>
+              <option value="recipientDomain">收件域名</option>
             </select>
           </div>
           <div class="form-group">
@@ -1522,6 +1584,7 @@ const HTML_TEMPLATE = `<!DOCTYPE html>
               <option value="exact">精确匹配</option>
               <option value="startsWith">开头匹配</option>
               <option value="endsWith">结尾匹配</option>
+              <option value="domainTree">域名树（含子域名）</option>
               <option value="regex">正则表达式</option>
             </select>
           </div>
@@ -1530,6 +1593,12 @@ const HTML_TEMPLATE = `<!DOCTYPE html>
           <label>规则内容 *</label>
           <input type="text" id="watch-pattern" required placeholder="要匹配的内容">
         </div>
+        <div class="form-group">
+          <label style="display:flex;align-items:center;gap:6px;cursor:pointer;">
+            <input type="checkbox" id="watch-normalize">
+            <span>规范化匹配（忽略全角字符、零宽字符、形近字母和表情）</span>
+          </label>
+        </div>
         <button type="submit" class="btn btn-success">创建</button>
       </form>
     </div>
@@ -1546,6 +1615,189 @@ const HTML_TEMPLATE = `<!DOCTYPE html>
     </div>
   </div>
 
+  <!-- Shadow Report Modal -->
+  <div id="shadow-report-modal" class="modal hidden">
+    <div class="modal-content" style="max-width:800px;">
+      <div class="modal-header">
+        <h3>影子规则报告</h3>
+        <button class="modal-close" onclick="hideModal('shadow-report-modal')">&times;</button>
+      </div>
+      <div id="shadow-report-content"></div>
+    </div>
+  </div>
+
+  <!-- Rule History Modal -->
+  <div id="rule-history-modal" class="modal hidden">
+    <div class="modal-content" style="max-width:800px;">
+      <div class="modal-header">
+        <h3>规则变更历史</h3>
+        <button class="modal-close" onclick="hideModal('rule-history-modal')">&times;</button>
+      </div>
+      <div id="rule-history-content"></div>
+      <div id="rule-history-diff" style="margin-top:12px;"></div>
+    </div>
+  </div>
+
+  <!-- Rule Draft Modal -->
+  <div id="rule-draft-modal" class="modal hidden">
+    <div class="modal-content" style="max-width:900px;">
+      <div class="modal-header">
+        <h3>规则草稿</h3>
+        <button class="modal-close" onclick="hideModal('rule-draft-modal')">&times;</button>
+      </div>
+      <p class="text-muted" style="font-size:13px;">草稿中的变更暂不生效，发布时一次性应用并生成新版本，之后可回滚到任一已发布版本。</p>
+      <div class="filter-bar">
+        <select id="rule-draft-scope" onchange="loadRuleDraft()"></select>
+        <button class="btn btn-secondary" onclick="previewRuleDraft()">预览影响</button>
+        <button class="btn btn-success" onclick="publishRuleDraft()">发布</button>
+        <button class="btn btn-danger" onclick="discardRuleDraft()">丢弃草稿</button>
+      </div>
+      <div id="rule-draft-changes"></div>
+      <div id="rule-draft-preview" style="margin-top:12px;"></div>
+      <h4 style="font-size:14px;margin:16px 0 10px;">已发布版本</h4>
+      <div id="rule-draft-versions"></div>
+    </div>
+  </div>
+
+  <!-- Rule Set Modal -->
+  <div id="rule-set-modal" class="modal hidden">
+    <div class="modal-content" style="max-width:900px;">
+      <div class="modal-header">
+        <h3>共享规则集</h3>
+        <button class="modal-close" onclick="hideModal('rule-set-modal')">&times;</button>
+      </div>
+      <p class="text-muted" style="font-size:13px;">规则集中的规则对关联的 Worker 生效。每个 Worker 的有效规则 = 全局规则 + 关联规则集 + 专属规则，可在规则列表中按 Worker 停用继承的规则。</p>
+      <div class="filter-bar">
+        <input type="text" id="rule-set-name" placeholder="规则集名称" maxlength="100">
+        <input type="text" id="rule-set-description" placeholder="说明（可选）" maxlength="500">
+        <button class="btn btn-primary" onclick="createRuleSet()">+ 新建规则集</button>
+      </div>
+      <div id="rule-set-list"></div>
+    </div>
+  </div>
+
+  <!-- Rule Bulk Modal -->
+  <div id="rule-bulk-modal" class="modal hidden">
+    <div class="modal-content" style="max-width:800px;">
+      <div class="modal-header">
+        <h3>批量操作规则</h3>
+        <button class="modal-close" onclick="hideModal('rule-bulk-modal')">&times;</button>
+      </div>
+      <p class="text-muted" style="font-size:13px;">对同时满足以下所有条件的规则执行同一操作，至少填写一个条件。请先预览受影响的规则。</p>
+      <div class="form-row">
+        <div class="form-group">
+          <label>标签</label>
+          <input type="text" id="rule-bulk-tag" placeholder="例如 promo">
+        </div>
+        <div class="form-group">
+          <label>规则类型</label>
+          <select id="rule-bulk-category">
+            <option value="">不限</option>
+            <option value="whitelist">白名单</option>
+            <option value="blacklist">黑名单</option>
+            <option value="dynamic">动态规则</option>
+          </select>
+        </div>
+        <div class="form-group">
+          <label>来源</label>
+          <select id="rule-bulk-scope"></select>
+        </div>
+      </div>
+      <div class="form-row">
+        <div class="form-group">
+          <label>规则内容包含</label>
+          <input type="text" id="rule-bulk-search">
+        </div>
+        <div class="form-group">
+          <label>超过 N 天未命中</label>
+          <input type="number" id="rule-bulk-not-hit" min="1" placeholder="不限">
+        </div>
+      </div>
+      <div class="form-row">
+        <div class="form-group">
+          <label>操作</label>
+          <select id="rule-bulk-action" onchange="updateRuleBulkFields()">
+            <option value="enable">启用</option>
+            <option value="disable">禁用</option>
+            <option value="delete">删除</option>
+            <option value="retag">修改标签</option>
+            <option value="move">移动到 Worker</option>
+            <option value="changeCategory">修改类型</option>
+          </select>
+        </div>
+        <div class="form-group rule-bulk-field" data-action="retag">
+          <label>添加标签（逗号分隔）</label>
+          <input type="text" id="rule-bulk-add-tags">
+        </div>
+        <div class="form-group rule-bulk-field" data-action="retag">
+          <label>移除标签（逗号分隔）</label>
+          <input type="text" id="rule-bulk-remove-tags">
+        </div>
+        <div class="form-group rule-bulk-field" data-action="move">
+          <label>目标</label>
+          <select id="rule-bulk-target-worker"></select>
+        </div>
+        <div class="form-group rule-bulk-field" data-action="changeCategory">
+          <label>目标类型</label>
+          <select id="rule-bulk-target-category">
+            <option value="blacklist">黑名单</option>
+            <option value="whitelist">白名单</option>
+            <option value="dynamic">动态规则</option>
+          </select>
+        </div>
+      </div>
+      <div class="filter-bar">
+        <button class="btn btn-secondary" onclick="runRuleBulk(true)">预览</button>
+        <button class="btn btn-danger" onclick="runRuleBulk(false)">执行</button>
+      </div>
+      <div id="rule-bulk-result"></div>
+    </div>
+  </div>
+
+  <!-- Rule Analysis Modal -->
+  <div id="rule-analysis-modal" class="modal hidden">
+    <div class="modal-content" style="max-width:900px;">
+      <div class="modal-header">
+        <h3>规则分析</h3>
+        <button class="modal-close" onclick="hideModal('rule-analysis-modal')">&times;</button>
+      </div>
+      <p class="text-muted" style="font-size:13px;">检测重复规则、被其他规则完全覆盖而永远不会命中的规则、白名单与黑名单的冲突，以及长期未命中的规则。只有不改变邮件处理结果的问题才提供一键修复。</p>
+      <div class="filter-bar">
+        <label>超过 N 天未命中视为陈旧</label>
+        <input type="number" id="rule-analysis-stale-days" min="1" max="3650" value="90" style="width:100px;">
+        <button class="btn btn-secondary" onclick="loadRuleAnalysis()">重新分析</button>
+      </div>
+      <div id="rule-analysis-summary"></div>
+      <div id="rule-analysis-list"></div>
+    </div>
+  </div>
+
+  <!-- Rule Suggestions Modal -->
+  <div id="rule-suggestions-modal" class="modal hidden">
+    <div class="modal-content" style="max-width:1000px;">
+      <div class="modal-header">
+        <h3>规则建议</h3>
+        <button class="modal-close" onclick="hideModal('rule-suggestions-modal')">&times;</button>
+      </div>
+      <p class="text-muted" style="font-size:13px;">从未命中任何规则、按默认转发的邮件中挖掘高频发件域名和主题，按数量、发件人集中度和与现有黑名单的相似度排序。采纳后创建黑名单规则，忽略后不再建议。</p>
+      <div class="filter-bar">
+        <label>最近</label>
+        <select id="rule-suggestions-hours">
+          <option value="24">24 小时</option>
+          <option value="168" selected>7 天</option>
+          <option value="720">30 天</option>
+        </select>
+        <label>至少转发</label>
+        <input type="number" id="rule-suggestions-min-count" min="1" value="5" style="width:80px;">
+        <label>采纳到</label>
+        <select id="rule-suggestions-scope"></select>
+        <button class="btn btn-secondary" onclick="loadRuleSuggestions()">刷新</button>
+        <button class="btn btn-secondary" onclick="loadRuleSuggestionDismissals()">已忽略</button>
+      </div>
+      <div id="rule-suggestions-list"></div>
+    </div>
+  </div>
+
   <!-- Campaign Detail Modal -->
   <div id="campaign-detail-modal" class="modal hidden">
     <div class="modal-content" style="max-width:600px;">
@@ -1585,6 +1837,12 @@ const HTML_TEMPLATE = `<!DOCTYPE html>
               <option value="sender">发件人</option>
               <option value="subject">主题</option>
               <option value="domain">发件域名</option>
+              <option value="recipient">收件人</option>
+              <option value="recipientDomain">收件域名</option>
+              <option value="header">邮件头</option>
+              <option value="spf">SPF 结果</option>
+              <option value="dkim">DKIM 结果</option>
+              <option value="dmarc">DMARC 结果</option>
             </select>
           </div>
         </div>
@@ -1595,18 +1853,71 @@ const HTML_TEMPLATE = `<!DOCTYPE html>
             <option value="exact">精确匹配</option>
             <option value="startsWith">开头匹配</option>
             <option value="endsWith">结尾匹配</option>
+            <option value="domainTree">域名树（含子域名）</option>
             <option value="regex">正则表达式</option>
           </select>
         </div>
         <div class="form-group">
           <label>规则内容 *</label>
           <input type="text" id="rule-pattern" required placeholder="要匹配的内容">
+          <p style="color:#888;font-size:12px;margin-top:5px">匹配邮件头时格式为「头名称: 内容」，如 List-Id: news.example.com</p>
         </div>
         <div class="form-group">
           <label>标签（可选，用逗号分隔）</label>
           <input type="text" id="rule-tags" placeholder="例如：营销,广告,垃圾">
         </div>
+        <div class="form-group">
+          <label>规则模式</label>
+          <select id="rule-mode">
+            <option value="active">生效</option>
+            <option value="shadow">影子（仅观察命中，不影响投递）</option>
+          </select>
+        </div>
+        <div class="form-group">
+          <label style="display:flex;align-items:center;gap:6px;cursor:pointer;">
+            <input type="checkbox" id="rule-normalize">
+            <span>规范化匹配（忽略全角字符、零宽字符、形近字母和表情）</span>
+          </label>
+        </div>
+        <div class="form-group">
+          <label>转发到（可选，仅白名单，用逗号分隔多个地址）</label>
+          <input type="text" id="rule-forward-to" placeholder="留空则使用默认转发地址">
+        </div>
+        <div class="form-row">
+          <div class="form-group">
+            <label>拦截方式</label>
+            <select id="rule-action">
+              <option value="drop">静默丢弃</option>
+              <option value="reject">退信（SMTP 拒收）</option>
+            </select>
+          </div>
+          <div class="form-group">
+            <label>退信原因（可选）</label>
+            <input type="text" id="rule-reject-reason" maxlength="200" placeholder="仅退信时生效">
+          </div>
+        </div>
+        <div class="form-row">
+          <div class="form-group">
+            <label>生效时间（可选）</label>
+            <input type="datetime-local" id="rule-active-from">
+          </div>
+          <div class="form-group">
+            <label>失效时间（可选，到期自动禁用）</label>
+            <input type="datetime-local" id="rule-active-until">
+          </div>
+        </div>
+        <div class="form-row">
+          <div class="form-group">
+            <label>每周生效时段（可选）</label>
+            <input type="text" id="rule-time-windows" placeholder="如 1-5 09:00-18:00; 6 10:00-12:00（0 为周日）">
+          </div>
+          <div class="form-group">
+            <label>时区</label>
+            <input type="text" id="rule-timezone" placeholder="默认 UTC，如 Asia/Shanghai">
+          </div>
+        </div>
         <button type="submit" class="btn btn-success">创建</button>
+        <button type="button" class="btn btn-secondary" onclick="stageNewRule()">存入草稿</button>
       </form>
     </div>
   </div>
@@ -1640,6 +1951,12 @@ const HTML_TEMPLATE = `<!DOCTYPE html>
               <option value="sender">发件人</option>
               <option value="subject">主题</option>
               <option value="domain">发件域名</option>
+              <option value="recipient">收件人</option>
+              <option value="recipientDomain">收件域名</option>
+              <option value="header">邮件头</option>
+              <option value="spf">SPF 结果</option>
+              <option value="dkim">DKIM 结果</option>
+              <option value="dmarc">DMARC 结果</option>
             </select>
           </div>
         </div>
@@ -1650,18 +1967,71 @@ const HTML_TEMPLATE = `<!DOCTYPE html>
             <option value="exact">精确匹配</option>
             <option value="startsWith">开头匹配</option>
             <option value="endsWith">结尾匹配</option>
+            <option value="domainTree">域名树（含子域名）</option>
             <option value="regex">正则表达式</option>
           </select>
         </div>
         <div class="form-group">
           <label>规则内容 *</label>
           <input type="text" id="edit-rule-pattern" required placeholder="要匹配的内容">
+          <p style="color:#888;font-size:12px;margin-top:5px">匹配邮件头时格式为「头名称: 内容」，如 List-Id: news.example.com</p>
         </div>
         <div class="form-group">
           <label>标签（可选，用逗号分隔）</label>
           <input type="text" id="edit-rule-tags" placeholder="例如：营销,广告,垃圾">
         </div>
+        <div class="form-group">
+          <label>规则模式</label>
+          <select id="edit-rule-mode">
+            <option value="active">生效</option>
+            <option value="shadow">影子（仅观察命中，不影响投递）</option>
+          </select>
+        </div>
+        <div class="form-group">
+          <label style="display:flex;align-items:center;gap:6px;cursor:pointer;">
+            <input type="checkbox" id="edit-rule-normalize">
+            <span>规范化匹配（忽略全角字符、零宽字符、形近字母和表情）</span>
+          </label>
+        </div>
+        <div class="form-group">
+          <label>转发到（可选，仅白名单，用逗号分隔多个地址）</label>
+          <input type="text" id="edit-rule-forward-to" placeholder="留空则使用默认转发地址">
+        </div>
+        <div class="form-row">
+          <div class="form-group">
+            <label>拦截方式</label>
+            <select id="edit-rule-action">
+              <option value="drop">静默丢弃</option>
+              <option value="reject">退信（SMTP 拒收）</option>
+            </select>
+          </div>
+          <div class="form-group">
+            <label>退信原因（可选）</label>
+            <input type="text" id="edit-rule-reject-reason" maxlength="200" placeholder="仅退信时生效">
+          </div>
+        </div>
+        <div class="form-row">
+          <div class="form-group">
+            <label>生效时间（可选）</label>
+            <input type="datetime-local" id="edit-rule-active-from">
+          </div>
+          <div class="form-group">
+            <label>失效时间（可选，到期自动禁用）</label>
+            <input type="datetime-local" id="edit-rule-active-until">
+          </div>
+        </div>
+        <div class="form-row">
+          <div class="form-group">
+            <label>每周生效时段（可选）</label>
+            <input type="text" id="edit-rule-time-windows" placeholder="如 1-5 09:00-18:00; 6 10:00-12:00（0 为周日）">
+          </div>
+          <div class="form-group">
+            <label>时区</label>
+            <input type="text" id="edit-rule-timezone" placeholder="默认 UTC，如 Asia/Shanghai">
+          </div>
+        </div>
         <button type="submit" class="btn btn-primary">保存</button>
+        <button type="button" class="btn btn-secondary" onclick="stageRuleEdit()">存入草稿</button>
       </form>
     </div>
   </div>
@@ -1694,6 +2064,12 @@ const HTML_TEMPLATE = `<!DOCTYPE html>
           </select>
           <p style="color:#888;font-size:12px;margin-top:5px">包含匹配：主题包含指定文本即匹配；正则表达式：使用正则语法匹配</p>
         </div>
+        <div class="form-group">
+          <label style="display:flex;align-items:center;gap:6px;cursor:pointer;">
+            <input type="checkbox" id="monitoring-normalize">
+            <span>规范化匹配（忽略全角字符、零宽字符、形近字母和表情）</span>
+          </label>
+        </div>
         <div class="form-row">
           <div class="form-group">
             <label>预期间隔（分钟）*</label>
@@ -1750,6 +2126,12 @@ const HTML_TEMPLATE = `<!DOCTYPE html>
             <option value="regex">正则表达式</option>
           </select>
         </div>
+        <div class="form-group">
+          <label style="display:flex;align-items:center;gap:6px;cursor:pointer;">
+            <input type="checkbox" id="edit-monitoring-normalize">
+            <span>规范化匹配（忽略全角字符、零宽字符、形近字母和表情）</span>
+          </label>
+        </div>
         <div class="form-row">
           <div class="form-group">
             <label>预期间隔（分钟）*</label>
@@ -2220,7 +2602,7 @@ const HTML_TEMPLATE = `<!DOCTYPE html>
       resumeTabRefresh(name);
       
       if (name === 'workers') loadWorkers();
-      if (name === 'rules') loadRules();
+      if (name === 'rules') { loadRules(); loadForwardRules(); }
       if (name === 'dynamic') loadDynamicConfig();
       if (name === 'logs') loadLogs();
       if (name === 'stats') loadStats();
@@ -2285,6 +2667,7 @@ const HTML_TEMPLATE = `<!DOCTYPE html>
         workers = data.workers || [];
         renderWorkers();
         updateWorkerSelects();
+        loadRuleSets();
         // Update default worker dropdown in settings
         populateDefaultWorkerDropdown();
       } catch (e) {
@@ -2377,11 +2760,20 @@ const HTML_TEMPLATE = `<!DOCTYPE html>
     function updateWorkerSelects() {
       const options = '<option value="">全局规则</option>' + 
         workers.map(w => '<option value="' + w.id + '">' + escapeHtml(w.name) + '</option>').join('');
-      document.getElementById('rule-worker').innerHTML = options;
-      
-      const filterOptions = '<option value="">全部 Worker</option><option value="global">全局规则</option>' +
+      document.getElementById('rule-worker').innerHTML = '<option value="">全局规则</option>' + ruleSetOptions() +
         workers.map(w => '<option value="' + w.id + '">' + escapeHtml(w.name) + '</option>').join('');
-      document.getElementById('rule-worker-filter').innerHTML = filterOptions;
+      
+      const filterOptions = '<option value="">全部 Worker</option><option value="global">全局规则</option>' + ruleSetOptions() +
+        workers.map(w => '<option value="' + w.id + '">' + escapeHtml(w.name) + '（有效规则）</option>').join('');
+      const ruleWorkerFilter = document.getElementById('rule-worker-filter');
+      const ruleScope = ruleWorkerFilter.value;
+      ruleWorkerFilter.innerHTML = filterOptions;
+      ruleWorkerFilter.value = ruleScope;
+      if (ruleWorkerFilter.value !== ruleScope) ruleWorkerFilter.value = '';
+      const forwardRuleWorkerFilter = document.getElementById('forward-rule-worker-filter');
+      const forwardRuleScope = forwardRuleWorkerFilter.value;
+      forwardRuleWorkerFilter.innerHTML = options;
+      forwardRuleWorkerFilter.value = forwardRuleScope;
       
       // Update logs worker filter
       const logWorkerFilterOptions = '<option value="">全部实例</option>' +
@@ -2434,7 +2826,8 @@ const HTML_TEMPLATE = `<!DOCTYPE html>
         name: document.getElementById('worker-name').value,
         defaultForwardTo: document.getElementById('worker-forward').value,
         domain: document.getElementById('worker-domain').value || undefined,
-        workerUrl: document.getElementById('worker-url').value || undefined
+        workerUrl: document.getElementById('worker-url').value || undefined,
+        forwardHeaders: parseHeaderList(document.getElementById('worker-forward-headers').value)
       };
       try {
         const res = await fetch('/api/workers', { method: 'POST', headers: getHeaders(), body: JSON.stringify(body) });
@@ -2458,8 +2851,63 @@ const HTML_TEMPLATE = `<!DOCTYPE html>
       document.getElementById('edit-worker-forward').value = w.defaultForwardTo;
       document.getElementById('edit-worker-domain').value = w.domain || '';
       document.getElementById('edit-worker-url').value = w.workerUrl || '';
+      document.getElementById('edit-worker-forward-headers').value = (w.forwardHeaders || []).join(', ');
       showModal('edit-worker-modal');
     }
+
+    function parseHeaderList(value) {
+      return value.split(',').map(h => h.trim()).filter(h => h);
+    }
+
+    function parseAddressList(value) {
+      return value.split(/[,，\\s]+/).map(a => a.trim()).filter(a => a);
+    }
+
+    // Weekly windows are written as "days start-end", e.g. "1-5 09:00-18:00; 6 10:00-12:00"
+    function parseTimeWindows(value) {
+      const windows = [];
+      for (const segment of value.split(/[;；]/).map(s => s.trim()).filter(s => s)) {
+        const parts = segment.split(/\\s+/);
+        const times = (parts[1] || '').split('-');
+        if (parts.length !== 2 || times.length !== 2 || !times.every(t => /^([01][0-9]|2[0-3]):[0-5][0-9]$/.test(t))) return null;
+        const days = [];
+        for (const range of parts[0].split(',')) {
+          const bounds = range.split('-').map(d => parseInt(d, 10));
+          const from = bounds[0], to = bounds.length > 1 ? bounds[1] : bounds[0];
+          if (isNaN(from) || isNaN(to) || from < 0 || to > 6 || from > to) return null;
+          for (let d = from; d <= to; d++) days.push(d);
+        }
+        windows.push({ days: days, start: times[0], end: times[1] });
+      }
+      return windows;
+    }
+
+    function formatTimeWindows(windows) {
+      return (windows || []).map(w => w.days.join(',') + ' ' + w.start + '-' + w.end).join('; ');
+    }
+
+    function toDateTimeInput(value) {
+      if (!value) return '';
+      const d = new Date(value);
+      const pad = n => String(n).padStart(2, '0');
+      return d.getFullYear() + '-' + pad(d.getMonth() + 1) + '-' + pad(d.getDate()) + 'T' + pad(d.getHours()) + ':' + pad(d.getMinutes());
+    }
+
+    function readRuleSchedule(prefix) {
+      const windows = parseTimeWindows(document.getElementById(prefix + 'rule-time-windows').value);
+      if (windows === null) {
+        showAlert('每周生效时段格式错误，示例：1-5 09:00-18:00', 'error');
+        return null;
+      }
+      const from = document.getElementById(prefix + 'rule-active-from').value;
+      const until = document.getElementById(prefix + 'rule-active-until').value;
+      return {
+        activeFrom: from ? new Date(from).toISOString() : null,
+        activeUntil: until ? new Date(until).toISOString() : null,
+        timeWindows: windows.length > 0 ? windows : null,
+        timezone: document.getElementById(prefix + 'rule-timezone').value.trim() || null
+      };
+    }
     
     document.getElementById('edit-worker-form').addEventListener('submit', async (e) => {
       e.preventDefault();
@@ -2467,7 +2915,8 @@ const HTML_TEMPLATE = `<!DOCTYPE html>
       const body = {
         defaultForwardTo: document.getElementById('edit-worker-forward').value,
         domain: document.getElementById('edit-worker-domain').value || undefined,
-        workerUrl: document.getElementById('edit-worker-url').value || undefined
+        workerUrl: document.getElementById('edit-worker-url').value || undefined,
+        forwardHeaders: parseHeaderList(document.getElementById('edit-worker-forward-headers').value)
       };
       try {
         const res = await fetch('/api/workers/' + id, { method: 'PUT', headers: getHeaders(), body: JSON.stringify(body) });
@@ -2513,56 +2962,157 @@ const HTML_TEMPLATE = `<!DOCTYPE html>
       const category = document.getElementById('rule-category-filter').value;
       let url = '/api/rules?';
       if (workerId === 'global') url += 'global=true&';
-      else if (workerId) url += 'workerId=' + workerId + '&';
+      else if (workerId.startsWith('set:')) url += 'ruleSetId=' + workerId.slice(4) + '&';
+      // A worker shows its effective rules: global, attached rule sets and its own
+      else if (workerId) url = '/api/rule-sets/workers/' + workerId + '/effective?';
       if (category) url += 'category=' + category;
       
       try {
-        const res = await fetch(url, { headers: getHeaders() });
+        const [res, sparklineRes] = await Promise.all([
+          fetch(url, { headers: getHeaders() }),
+          fetch('/api/stats/rules/sparklines', { headers: getHeaders() })
+        ]);
         const data = await res.json();
-        currentRules = data.rules || [];
+        ruleSparklines = sparklineRes.ok ? (await sparklineRes.json()).sparklines || {} : {};
+        currentRules = (data.rules || []).filter(r => !category || r.category === category);
         renderRules(currentRules);
+        loadRegexAudit();
       } catch (e) { showAlert('加载规则失败', 'error'); }
     }
 
+    // Daily hits of each rule over the last 14 days, keyed by rule ID
+    let ruleSparklines = {};
+
+    function renderSparkline(values) {
+      if (!values || values.length === 0 || values.every(v => v === 0)) {
+        return '<span class="text-muted" title="近 14 天无命中">-</span>';
+      }
+      const width = 70, height = 18;
+      const max = Math.max(...values);
+      const step = values.length > 1 ? width / (values.length - 1) : 0;
+      const points = values.map((v, i) => (i * step).toFixed(1) + ',' + (height - 1 - (v / max) * (height - 2)).toFixed(1)).join(' ');
+      const total = values.reduce((sum, v) => sum + v, 0);
+      return '<svg width="' + width + '" height="' + height + '" style="vertical-align:middle;">' +
+        '<title>近 ' + values.length + ' 天命中 ' + total + ' 次，单日最高 ' + max + ' 次</title>' +
+        '<polyline points="' + points + '" fill="none" stroke="#4a90d9" stroke-width="1.5"/></svg>';
+    }
+
+    // Stored regex patterns that fail the ReDoS analysis, across all rule types
+    const REGEX_AUDIT_SOURCES = { filterRule: '过滤规则', watchRule: '关注规则', monitoringRule: '监控规则', forwardRule: '转发规则' };
+
+    async function loadRegexAudit() {
+      const box = document.getElementById('regex-audit-warning');
+      try {
+        const res = await fetch('/api/rules/regex-audit', { headers: getHeaders() });
+        const data = await res.json();
+        const entries = data.entries || [];
+        if (entries.length === 0) {
+          box.style.display = 'none';
+          return;
+        }
+        box.innerHTML = '⚠️ ' + entries.length + ' 条规则的正则表达式存在 ReDoS 风险或不受支持，请修改：' +
+          '<ul style="margin:6px 0 0 18px;">' + entries.map(e =>
+            '<li>[' + (REGEX_AUDIT_SOURCES[e.source] || e.source) + '] ' + escapeHtml(e.label) +
+            ' — <code>' + escapeHtml(e.pattern) + '</code>: ' + escapeHtml(e.reason) +
+            (e.unsupported ? '（不会匹配任何邮件，规则已停用）' : '') + '</li>'
+          ).join('') + '</ul>';
+        box.style.display = 'block';
+      } catch (e) { box.style.display = 'none'; }
+    }
+
     function renderRules(rules) {
       const tbody = document.getElementById('rules-table');
       if (rules.length === 0) {
-        tbody.innerHTML = '<tr><td colspan="9" style="text-align:center;color:#999;padding:30px;">暂无规则</td></tr>';
+        tbody.innerHTML = '<tr><td colspan="11" style="text-align:center;color:#999;padding:30px;">暂无规则</td></tr>';
         return;
       }
       tbody.innerHTML = rules.map(r => {
+        const sameCategory = rules.filter(x => x.category === r.category);
+        const pos = sameCategory.indexOf(r);
+        const orderHtml = '<div style="display:flex;align-items:center;gap:4px;white-space:nowrap;">' + ((r.priority || 0) + 1) +
+          (pos > 0 ? '<button class="btn btn-sm btn-secondary" title="上移" onclick="moveRule(\\'' + r.id + '\\', -1)">↑</button>' : '') +
+          (pos < sameCategory.length - 1 ? '<button class="btn btn-sm btn-secondary" title="下移" onclick="moveRule(\\'' + r.id + '\\', 1)">↓</button>' : '') +
+          '</div>';
         const cat = '<span class="category category-' + r.category + '">' + 
           (r.category === 'whitelist' ? '白名单' : r.category === 'blacklist' ? '黑名单' : '动态') + '</span>';
+        const rejectBadge = r.action === 'reject' ? ' <span class="tag" title="' + escapeHtml(r.rejectReason || '') + '">退信</span>' : '';
+        const shadowBadge = r.mode === 'shadow' ? ' <span class="tag" title="仅记录命中，不影响投递">影子</span>' : '';
+        const normalizeBadge = r.normalize ? ' <span class="tag" title="按规范化文本匹配">规范化</span>' : '';
         const status = r.enabled ? '<span class="status status-enabled">启用</span>' : '<span class="status status-disabled">禁用</span>';
-        const worker = r.workerId ? (workers.find(w => w.id === r.workerId)?.name || '未知') : '全局';
-        const matchType = {sender:'发件人',subject:'主题',domain:'域名'}[r.matchType] || r.matchType;
-        const matchMode = {exact:'精确',contains:'包含',startsWith:'开头',endsWith:'结尾',regex:'正则'}[r.matchMode] || r.matchMode;
+        const source = r.workerId ? (workers.find(w => w.id === r.workerId)?.name || '未知') :
+          r.ruleSetId ? '规则集: ' + (r.ruleSetName || ruleSets.find(s => s.id === r.ruleSetId)?.name || '未知') : '全局';
+        const overriddenBadge = r.overridden ? ' <span class="tag" title="该 Worker 已停用这条继承的规则">已停用</span>' : '';
+        const inherited = r.source && r.source !== 'worker';
+        const matchType = r.conditions ? '组合' : ({sender:'发件人',subject:'主题',domain:'域名',recipient:'收件人',recipientDomain:'收件域名',header:'邮件头',spf:'SPF',dkim:'DKIM',dmarc:'DMARC'}[r.matchType] || r.matchType);
+        const matchMode = r.conditions ? (r.conditions.operator === 'and' ? '全部满足' : '任一满足') : ({exact:'精确',contains:'包含',startsWith:'开头',endsWith:'结尾',regex:'正则',domainTree:'域名树'}[r.matchMode] || r.matchMode);
         const lastHit = r.lastHitAt ? new Date(r.lastHitAt).toLocaleString('zh-CN', {month:'2-digit',day:'2-digit',hour:'2-digit',minute:'2-digit'}) : '-';
         const tagsHtml = r.tags && r.tags.length > 0 ? r.tags.map(t => '<span class="tag">' + escapeHtml(t) + '</span>').join('') : '<span class="text-muted">-</span>';
-        const patternDisplay = '<span style="word-break:break-all;white-space:normal;">' + escapeHtml(r.pattern) + '</span>';
-        return '<tr><td style="white-space:nowrap;">' + cat + '</td><td style="white-space:nowrap;">' + matchType + '</td><td style="white-space:nowrap;">' + matchMode + '</td>' +
-          '<td>' + patternDisplay + '</td><td>' + tagsHtml + '</td><td style="white-space:nowrap;">' + escapeHtml(worker) + '</td>' +
-          '<td class="text-muted" style="white-space:nowrap;">' + lastHit + '</td><td style="white-space:nowrap;">' + status + '</td>' +
+        const exceptionsHtml = r.exceptions && r.exceptions.length > 0 ? '<div class="text-muted" style="font-size:12px;">例外 ' + r.exceptions.length + ' 条</div>' : '';
+        const forwardToHtml = r.forwardTo && r.forwardTo.length > 0 ? '<div class="text-muted" style="font-size:12px;">转发到 ' + escapeHtml(r.forwardTo.join(', ')) + '</div>' : '';
+        const formatScheduleTime = t => new Date(t).toLocaleString('zh-CN', {year:'numeric',month:'2-digit',day:'2-digit',hour:'2-digit',minute:'2-digit'});
+        const scheduleParts = [];
+        if (r.activeFrom || r.activeUntil) scheduleParts.push('生效 ' + (r.activeFrom ? formatScheduleTime(r.activeFrom) : '现在') + ' ~ ' + (r.activeUntil ? formatScheduleTime(r.activeUntil) : '长期'));
+        if (r.timeWindows && r.timeWindows.length > 0) scheduleParts.push('时段 ' + formatTimeWindows(r.timeWindows) + '（' + (r.timezone || 'UTC') + '）');
+        const scheduleHtml = scheduleParts.length > 0 ? '<div class="text-muted" style="font-size:12px;">' + escapeHtml(scheduleParts.join('，')) + '</div>' : '';
+        const patternDisplay = '<span style="word-break:break-all;white-space:normal;">' + escapeHtml(r.pattern) + '</span>' + exceptionsHtml + forwardToHtml + scheduleHtml;
+        return '<tr><td>' + orderHtml + '</td><td style="white-space:nowrap;">' + cat + rejectBadge + shadowBadge + normalizeBadge + '</td><td style="white-space:nowrap;">' + matchType + '</td><td style="white-space:nowrap;">' + matchMode + '</td>' +
+          '<td>' + patternDisplay + '</td><td>' + tagsHtml + '</td><td style="white-space:nowrap;">' + escapeHtml(source) + overriddenBadge + '</td>' +
+          '<td class="text-muted" style="white-space:nowrap;">' + lastHit + '</td><td class="hide-mobile">' + renderSparkline(ruleSparklines[r.id]) + '</td>' +
+          '<td style="white-space:nowrap;">' + status + '</td>' +
           '<td><div style="display:flex;flex-direction:column;gap:4px;">' +
             '<button class="btn btn-sm btn-primary" onclick=\\'editRule("' + r.id + '")\\'>编辑</button>' +
             '<button class="btn btn-sm btn-secondary" onclick="toggleRule(\\'' + r.id + '\\')">切换</button>' +
+            '<button class="btn btn-sm btn-secondary" onclick="showRuleHistory(\\'filter\\', \\'' + r.id + '\\')">历史</button>' +
+            (r.mode === 'shadow' ?
+              '<button class="btn btn-sm btn-secondary" onclick="showShadowReport(\\'' + r.id + '\\')">报告</button>' +
+              '<button class="btn btn-sm btn-success" onclick="promoteRule(\\'' + r.id + '\\')">转正</button>' : '') +
             '<button class="btn btn-sm btn-danger" onclick="deleteRule(\\'' + r.id + '\\')">删除</button>' +
+            (r.ruleSetId ? '' : '<button class="btn btn-sm btn-secondary" onclick="stageRuleDelete(\\'' + r.id + '\\')" title="发布草稿后才删除">草稿删除</button>') +
+            (inherited ? '<button class="btn btn-sm btn-secondary" onclick="toggleRuleOverride(\\'' + r.id + '\\', ' + !r.overridden + ')" title="只影响当前 Worker">' +
+              (r.overridden ? '对此 Worker 恢复' : '对此 Worker 停用') + '</button>' : '') +
           '</div></td></tr>';
       }).join('');
     }
 
-    document.getElementById('add-rule-form').addEventListener('submit', async (e) => {
-      e.preventDefault();
+    // Rule scope selects hold '' (global), a worker ID or 'set:' + rule set ID
+    function readRuleScope(value, none) {
+      if (value.startsWith('set:')) return { workerId: none, ruleSetId: value.slice(4) };
+      return { workerId: value || none, ruleSetId: none };
+    }
+
+    function ruleScopeValue(rule) {
+      return rule.ruleSetId ? 'set:' + rule.ruleSetId : (rule.workerId || '');
+    }
+
+    function readAddRuleForm() {
       const tagsInput = document.getElementById('rule-tags').value.trim();
       const tags = tagsInput ? tagsInput.split(',').map(t => t.trim()).filter(t => t) : undefined;
       const body = {
-        workerId: document.getElementById('rule-worker').value || undefined,
+        ...readRuleScope(document.getElementById('rule-worker').value, undefined),
         category: document.getElementById('rule-category').value,
         matchType: document.getElementById('rule-match-type').value,
         matchMode: document.getElementById('rule-match-mode').value,
         pattern: document.getElementById('rule-pattern').value,
         tags: tags
       };
+      const forwardTo = parseAddressList(document.getElementById('rule-forward-to').value);
+      if (body.category === 'whitelist' && forwardTo.length > 0) body.forwardTo = forwardTo;
+      if (body.category === 'blacklist' && document.getElementById('rule-action').value === 'reject') {
+        body.action = 'reject';
+        body.rejectReason = document.getElementById('rule-reject-reason').value.trim() || undefined;
+      }
+      const schedule = readRuleSchedule('');
+      if (!schedule) return null;
+      Object.assign(body, schedule);
+      body.mode = document.getElementById('rule-mode').value;
+      body.normalize = document.getElementById('rule-normalize').checked;
+      return body;
+    }
+
+    document.getElementById('add-rule-form').addEventListener('submit', async (e) => {
+      e.preventDefault();
+      const body = readAddRuleForm();
+      if (!body) return;
       try {
         const res = await fetch('/api/rules', { method: 'POST', headers: getHeaders(), body: JSON.stringify(body) });
         if (res.ok) {
@@ -2577,6 +3127,28 @@ const HTML_TEMPLATE = `<!DOCTYPE html>
       } catch (e) { showAlert('创建失败', 'error'); }
     });
 
+    async function moveRule(id, offset) {
+      const rule = currentRules.find(r => r.id === id);
+      if (!rule) return;
+      const sameCategory = currentRules.filter(r => r.category === rule.category);
+      const index = sameCategory.indexOf(rule);
+      const other = sameCategory[index + offset];
+      if (!other) return;
+      const ruleIds = offset < 0 ? [rule.id, other.id] : [other.id, rule.id];
+      try {
+        const res = await fetch('/api/rules/reorder', {
+          method: 'POST',
+          headers: getHeaders(),
+          body: JSON.stringify({ category: rule.category, ruleIds })
+        });
+        if (!res.ok) {
+          const data = await res.json();
+          showAlert(data.message || '调整顺序失败', 'error');
+        }
+        loadRules();
+      } catch (e) { showAlert('调整顺序失败', 'error'); }
+    }
+
     async function toggleRule(id) {
       try {
         const res = await fetch('/api/rules/' + id + '/toggle', { 
@@ -2595,65 +3167,212 @@ const HTML_TEMPLATE = `<!DOCTYPE html>
       }
     }
 
-    async function deleteRule(id) {
-      if (!confirm('确定删除此规则？')) return;
+    async function showShadowReport(id) {
       try {
-        await fetch('/api/rules/' + id, { 
-          method: 'DELETE', 
-          headers: { 'Authorization': 'Bearer ' + apiToken }
-        });
-        showAlert('删除成功');
-        loadRules();
-      } catch (e) { showAlert('删除失败', 'error'); }
-    }
-
-    let currentRules = [];
-    
-    async function editRule(id) {
-      const rule = currentRules.find(r => r.id === id);
-      if (!rule) {
-        // Fetch rule from API if not in cache
-        try {
-          const res = await fetch('/api/rules/' + id, { headers: getHeaders() });
-          if (!res.ok) { showAlert('获取规则失败', 'error'); return; }
-          const data = await res.json();
-          showEditRuleModal(data);
-        } catch (e) { showAlert('获取规则失败', 'error'); }
-        return;
+        const res = await fetch('/api/rules/shadow-report?ruleId=' + encodeURIComponent(id) + '&includeUnchanged=true&limit=50', { headers: getHeaders() });
+        const data = await res.json();
+        if (!res.ok) {
+          showAlert(data.message || '加载报告失败', 'error');
+          return;
+        }
+        const report = data.rules[0];
+        const actionNames = {forward:'转发',drop:'拦截',reject:'退信'};
+        const lastMatched = report.stats.lastMatchedAt ? new Date(report.stats.lastMatchedAt).toLocaleString('zh-CN') : '-';
+        const rows = report.emails.map(e =>
+          '<tr' + (e.wouldChange ? ' style="background:#fdf2f2;"' : '') + '><td style="white-space:nowrap;">' + new Date(e.createdAt).toLocaleString('zh-CN') + '</td>' +
+          '<td>' + escapeHtml(e.from || '') + '</td><td>' + escapeHtml(e.subject || '') + '</td>' +
+          '<td style="white-space:nowrap;">' + (actionNames[e.actualAction] || '-') + ' → ' + (actionNames[e.action] || '-') + '</td></tr>'
+        ).join('');
+        document.getElementById('shadow-report-content').innerHTML =
+          '<p><strong>' + escapeHtml(report.rule.pattern) + '</strong></p>' +
+          '<p class="text-muted">命中 ' + report.stats.matchedCount + ' 封，其中 ' + report.stats.wouldChangeCount + ' 封会改变处理结果；最近命中 ' + lastMatched + '</p>' +
+          '<table><thead><tr><th>时间</th><th>发件人</th><th>主题</th><th>实际 → 影子</th></tr></thead><tbody>' +
+          (rows || '<tr><td colspan="4" style="text-align:center;color:#999;">暂无命中</td></tr>') + '</tbody></table>';
+        showModal('shadow-report-modal');
+      } catch (e) {
+        showAlert('加载报告失败: ' + e.message, 'error');
       }
-      showEditRuleModal(rule);
     }
 
-    function showEditRuleModal(rule) {
-      document.getElementById('edit-rule-id').value = rule.id;
-      document.getElementById('edit-rule-worker').value = rule.workerId || '';
-      document.getElementById('edit-rule-category').value = rule.category;
-      document.getElementById('edit-rule-match-type').value = rule.matchType;
-      document.getElementById('edit-rule-match-mode').value = rule.matchMode;
-      document.getElementById('edit-rule-pattern').value = rule.pattern;
-      document.getElementById('edit-rule-tags').value = rule.tags ? rule.tags.join(', ') : '';
-      
-      // Update worker select options
-      const workerSelect = document.getElementById('edit-rule-worker');
-      workerSelect.innerHTML = '<option value="">全局规则（适用于所有 Worker）</option>' + 
-        workers.map(w => '<option value="' + w.id + '"' + (w.id === rule.workerId ? ' selected' : '') + '>' + escapeHtml(w.name) + '</option>').join('');
-      
-      showModal('edit-rule-modal');
+    // Rule change history, shared by filter and monitoring rules
+    const RULE_HISTORY_API = { filter: '/api/rules/', monitoring: '/api/monitoring/rules/' };
+    const RULE_HISTORY_ACTIONS = { baseline: '初始', create: '创建', update: '修改', toggle: '启用/禁用', promote: '转正', delete: '删除', revert: '回滚' };
+    const RULE_HISTORY_IGNORED_FIELDS = ['id', 'createdAt', 'updatedAt', 'lastHitAt'];
+
+    function changedRuleFields(before, after) {
+      const fields = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+      return [...fields].filter(f => !RULE_HISTORY_IGNORED_FIELDS.includes(f) &&
+        JSON.stringify((before || {})[f] ?? null) !== JSON.stringify((after || {})[f] ?? null));
     }
 
-    document.getElementById('edit-rule-form').addEventListener('submit', async (e) => {
-      e.preventDefault();
-      const id = document.getElementById('edit-rule-id').value;
+    async function showRuleHistory(type, id) {
+      try {
+        const res = await fetch(RULE_HISTORY_API[type] + id + '/history', { headers: getHeaders() });
+        const data = await res.json();
+        if (!res.ok) {
+          showAlert(data.message || '加载历史失败', 'error');
+          return;
+        }
+        const history = data.history || [];
+        const latest = history.length > 0 ? history[0].version : 0;
+        const rows = history.map(h => {
+          const fields = h.before && h.after ? changedRuleFields(h.before, h.after) : [];
+          const actions = (h.version > 1 ? '<button class="btn btn-sm btn-secondary" onclick="showRuleVersionDiff(\\'' + type + '\\', \\'' + id + '\\', ' + h.version + ')">对比</button> ' : '') +
+            (h.after && h.version !== latest ? '<button class="btn btn-sm btn-warning" onclick="revertRuleVersion(\\'' + type + '\\', \\'' + id + '\\', ' + h.version + ')">回滚到此版本</button>' : '');
+          return '<tr><td>v' + h.version + '</td><td style="white-space:nowrap;">' + new Date(h.createdAt).toLocaleString('zh-CN') + '</td>' +
+            '<td><span class="tag">' + (RULE_HISTORY_ACTIONS[h.action] || h.action) + '</span></td>' +
+            '<td>' + escapeHtml(h.changedBy || (h.action === 'baseline' ? '-' : 'API Token')) + '</td>' +
+            '<td class="text-muted" style="font-size:12px;">' + escapeHtml(fields.join(', ')) + '</td>' +
+            '<td style="white-space:nowrap;">' + actions + '</td></tr>';
+        }).join('');
+        document.getElementById('rule-history-content').innerHTML =
+          '<table><thead><tr><th>版本</th><th>时间</th><th>操作</th><th>操作人</th><th>变更字段</th><th></th></tr></thead><tbody>' +
+          (rows || '<tr><td colspan="6" style="text-align:center;color:#999;">暂无变更记录</td></tr>') + '</tbody></table>';
+        document.getElementById('rule-history-diff').innerHTML = '';
+        showModal('rule-history-modal');
+      } catch (e) {
+        showAlert('加载历史失败: ' + e.message, 'error');
+      }
+    }
+
+    async function showRuleVersionDiff(type, id, version) {
+      try {
+        const res = await fetch(RULE_HISTORY_API[type] + id + '/history/diff?from=' + (version - 1) + '&to=' + version, { headers: getHeaders() });
+        const data = await res.json();
+        if (!res.ok) {
+          showAlert(data.message || data.error || '加载对比失败', 'error');
+          return;
+        }
+        const formatValue = v => v === null || v === undefined ? '<span class="text-muted">-</span>' : '<code style="word-break:break-all;">' + escapeHtml(typeof v === 'string' ? v : JSON.stringify(v)) + '</code>';
+        const rows = data.changes.map(c => '<tr><td>' + escapeHtml(c.field) + '</td><td>' + formatValue(c.from) + '</td><td>' + formatValue(c.to) + '</td></tr>').join('');
+        document.getElementById('rule-history-diff').innerHTML =
+          '<p><strong>v' + data.from.version + ' → v' + data.to.version + '</strong></p>' +
+          '<table><thead><tr><th>字段</th><th>旧值</th><th>新值</th></tr></thead><tbody>' +
+          (rows || '<tr><td colspan="3" style="text-align:center;color:#999;">无差异</td></tr>') + '</tbody></table>';
+      } catch (e) {
+        showAlert('加载对比失败: ' + e.message, 'error');
+      }
+    }
+
+    async function revertRuleVersion(type, id, version) {
+      if (!confirm('确定将规则回滚到 v' + version + '？')) return;
+      try {
+        const res = await fetch(RULE_HISTORY_API[type] + id + '/history/' + version + '/revert', { method: 'POST', headers: { 'Authorization': 'Bearer ' + apiToken } });
+        const data = await res.json();
+        if (!res.ok) {
+          showAlert(data.message || '回滚失败', 'error');
+          return;
+        }
+        showAlert('已回滚到 v' + version);
+        if (type === 'filter') loadRules(); else loadMonitoringRules();
+        showRuleHistory(type, id);
+      } catch (e) {
+        showAlert('回滚失败: ' + e.message, 'error');
+      }
+    }
+
+    async function promoteRule(id) {
+      if (!confirm('确定将此影子规则转为生效？转正后命中的邮件将被实际处理。')) return;
+      try {
+        const res = await fetch('/api/rules/' + id + '/promote', { method: 'POST', headers: { 'Authorization': 'Bearer ' + apiToken } });
+        if (res.ok) {
+          showAlert('规则已转为生效');
+          loadRules();
+        } else {
+          const data = await res.json();
+          showAlert(data.message || '操作失败', 'error');
+        }
+      } catch (e) {
+        showAlert('操作失败: ' + e.message, 'error');
+      }
+    }
+
+    async function deleteRule(id) {
+      if (!confirm('确定删除此规则？')) return;
+      try {
+        await fetch('/api/rules/' + id, { 
+          method: 'DELETE', 
+          headers: { 'Authorization': 'Bearer ' + apiToken }
+        });
+        showAlert('删除成功');
+        loadRules();
+      } catch (e) { showAlert('删除失败', 'error'); }
+    }
+
+    let currentRules = [];
+    let editingRuleScope = 'global';
+    
+    async function editRule(id) {
+      const rule = currentRules.find(r => r.id === id);
+      if (!rule) {
+        // Fetch rule from API if not in cache
+        try {
+          const res = await fetch('/api/rules/' + id, { headers: getHeaders() });
+          if (!res.ok) { showAlert('获取规则失败', 'error'); return; }
+          const data = await res.json();
+          showEditRuleModal(data);
+        } catch (e) { showAlert('获取规则失败', 'error'); }
+        return;
+      }
+      showEditRuleModal(rule);
+    }
+
+    function showEditRuleModal(rule) {
+      editingRuleScope = ruleScopeValue(rule) || 'global';
+      document.getElementById('edit-rule-id').value = rule.id;
+      document.getElementById('edit-rule-category').value = rule.category;
+      document.getElementById('edit-rule-match-type').value = rule.matchType;
+      document.getElementById('edit-rule-match-mode').value = rule.matchMode;
+      document.getElementById('edit-rule-pattern').value = rule.pattern;
+      document.getElementById('edit-rule-tags').value = rule.tags ? rule.tags.join(', ') : '';
+      document.getElementById('edit-rule-action').value = rule.action || 'drop';
+      document.getElementById('edit-rule-reject-reason').value = rule.rejectReason || '';
+      document.getElementById('edit-rule-forward-to').value = rule.forwardTo ? rule.forwardTo.join(', ') : '';
+      document.getElementById('edit-rule-active-from').value = toDateTimeInput(rule.activeFrom);
+      document.getElementById('edit-rule-active-until').value = toDateTimeInput(rule.activeUntil);
+      document.getElementById('edit-rule-time-windows').value = formatTimeWindows(rule.timeWindows);
+      document.getElementById('edit-rule-timezone').value = rule.timezone || '';
+      document.getElementById('edit-rule-mode').value = rule.mode || 'active';
+      document.getElementById('edit-rule-normalize').checked = !!rule.normalize;
+      
+      // Update worker select options
+      const workerSelect = document.getElementById('edit-rule-worker');
+      workerSelect.innerHTML = '<option value="">全局规则（适用于所有 Worker）</option>' + ruleSetOptions() +
+        workers.map(w => '<option value="' + w.id + '">' + escapeHtml(w.name) + '</option>').join('');
+      workerSelect.value = ruleScopeValue(rule);
+      
+      showModal('edit-rule-modal');
+    }
+
+    function readEditRuleForm() {
       const tagsInput = document.getElementById('edit-rule-tags').value.trim();
       const tags = tagsInput ? tagsInput.split(',').map(t => t.trim()).filter(t => t) : [];
       const body = {
-        workerId: document.getElementById('edit-rule-worker').value || null,
+        ...readRuleScope(document.getElementById('edit-rule-worker').value, null),
         category: document.getElementById('edit-rule-category').value,
         matchType: document.getElementById('edit-rule-match-type').value,
         matchMode: document.getElementById('edit-rule-match-mode').value,
         pattern: document.getElementById('edit-rule-pattern').value,
         tags: tags
       };
+      const action = body.category === 'whitelist' ? 'drop' : document.getElementById('edit-rule-action').value;
+      body.action = action;
+      body.rejectReason = action === 'reject' ? (document.getElementById('edit-rule-reject-reason').value.trim() || null) : null;
+      const forwardTo = parseAddressList(document.getElementById('edit-rule-forward-to').value);
+      body.forwardTo = body.category === 'whitelist' && forwardTo.length > 0 ? forwardTo : null;
+      const schedule = readRuleSchedule('edit-');
+      if (!schedule) return null;
+      Object.assign(body, schedule);
+      body.mode = document.getElementById('edit-rule-mode').value;
+      body.normalize = document.getElementById('edit-rule-normalize').checked;
+      return body;
+    }
+
+    document.getElementById('edit-rule-form').addEventListener('submit', async (e) => {
+      e.preventDefault();
+      const id = document.getElementById('edit-rule-id').value;
+      const body = readEditRuleForm();
+      if (!body) return;
       try {
         const res = await fetch('/api/rules/' + id, { method: 'PUT', headers: getHeaders(), body: JSON.stringify(body) });
         if (res.ok) {
@@ -2667,6 +3386,690 @@ const HTML_TEMPLATE = `<!DOCTYPE html>
       } catch (e) { showAlert('更新失败', 'error'); }
     });
 
+    // Rule sets: named groups of rules shared by the workers they are attached to
+    let ruleSets = [];
+
+    function ruleSetOptions() {
+      return ruleSets.map(s => '<option value="set:' + s.id + '">规则集: ' + escapeHtml(s.name) + '</option>').join('');
+    }
+
+    async function loadRuleSets() {
+      try {
+        const res = await fetch('/api/rule-sets', { headers: getHeaders() });
+        if (!res.ok) return;
+        ruleSets = (await res.json()).ruleSets || [];
+        updateWorkerSelects();
+        renderRuleSets();
+      } catch (e) {}
+    }
+
+    function showRuleSets() {
+      showModal('rule-set-modal');
+      loadRuleSets();
+    }
+
+    function renderRuleSets() {
+      const box = document.getElementById('rule-set-list');
+      if (ruleSets.length === 0) {
+        box.innerHTML = '<p class="text-muted">暂无规则集</p>';
+        return;
+      }
+      box.innerHTML = '<div class="table-wrapper"><table><thead><tr><th>名称</th><th style="white-space:nowrap;">规则数</th><th>关联 Worker</th><th style="white-space:nowrap;">操作</th></tr></thead><tbody>' +
+        ruleSets.map(s => '<tr><td>' + escapeHtml(s.name) +
+          (s.description ? '<div class="text-muted" style="font-size:12px;">' + escapeHtml(s.description) + '</div>' : '') + '</td>' +
+          '<td>' + s.ruleCount + '</td>' +
+          '<td>' + (workers.length === 0 ? '<span class="text-muted">-</span>' : workers.map(w =>
+            '<label style="display:inline-flex;align-items:center;gap:4px;margin-right:10px;white-space:nowrap;">' +
+            '<input type="checkbox" class="rule-set-worker-' + s.id + '" value="' + w.id + '"' + (s.workerIds.includes(w.id) ? ' checked' : '') + '>' +
+            escapeHtml(w.name) + '</label>').join('')) + '</td>' +
+          '<td><div style="display:flex;flex-direction:column;gap:4px;">' +
+            '<button class="btn btn-sm btn-primary" onclick="saveRuleSetWorkers(\\'' + s.id + '\\')">保存关联</button>' +
+            '<button class="btn btn-sm btn-secondary" onclick="viewRuleSetRules(\\'' + s.id + '\\')">查看规则</button>' +
+            '<button class="btn btn-sm btn-secondary" onclick="editRuleSet(\\'' + s.id + '\\')">编辑</button>' +
+            '<button class="btn btn-sm btn-danger" onclick="deleteRuleSet(\\'' + s.id + '\\')">删除</button>' +
+          '</div></td></tr>').join('') +
+        '</tbody></table></div>';
+    }
+
+    async function createRuleSet() {
+      const name = document.getElementById('rule-set-name').value.trim();
+      if (!name) { showAlert('请输入规则集名称', 'error'); return; }
+      const description = document.getElementById('rule-set-description').value.trim() || undefined;
+      try {
+        const res = await fetch('/api/rule-sets', { method: 'POST', headers: getHeaders(), body: JSON.stringify({ name, description }) });
+        const data = await res.json();
+        if (!res.ok) { showAlert(data.message || '创建失败', 'error'); return; }
+        document.getElementById('rule-set-name').value = '';
+        document.getElementById('rule-set-description').value = '';
+        showAlert('规则集已创建，可在添加规则时选择该规则集');
+        loadRuleSets();
+      } catch (e) { showAlert('创建失败', 'error'); }
+    }
+
+    async function editRuleSet(id) {
+      const ruleSet = ruleSets.find(s => s.id === id);
+      if (!ruleSet) return;
+      const name = prompt('规则集名称:', ruleSet.name);
+      if (name === null || !name.trim()) return;
+      const description = prompt('说明（可留空）:', ruleSet.description || '');
+      if (description === null) return;
+      try {
+        const res = await fetch('/api/rule-sets/' + id, {
+          method: 'PUT', headers: getHeaders(), body: JSON.stringify({ name: name.trim(), description: description.trim() || null })
+        });
+        const data = await res.json();
+        if (!res.ok) { showAlert(data.message || '更新失败', 'error'); return; }
+        showAlert('规则集已更新');
+        loadRuleSets();
+        loadRules();
+      } catch (e) { showAlert('更新失败', 'error'); }
+    }
+
+    async function saveRuleSetWorkers(id) {
+      const workerIds = [...document.querySelectorAll('.rule-set-worker-' + id)].filter(c => c.checked).map(c => c.value);
+      try {
+        const res = await fetch('/api/rule-sets/' + id + '/workers', { method: 'PUT', headers: getHeaders(), body: JSON.stringify({ workerIds }) });
+        const data = await res.json();
+        if (!res.ok) { showAlert(data.message || '保存失败', 'error'); return; }
+        showAlert('关联 Worker 已保存');
+        loadRuleSets();
+        loadRules();
+      } catch (e) { showAlert('保存失败', 'error'); }
+    }
+
+    function viewRuleSetRules(id) {
+      hideModal('rule-set-modal');
+      document.getElementById('rule-worker-filter').value = 'set:' + id;
+      loadRules();
+    }
+
+    async function deleteRuleSet(id) {
+      const ruleSet = ruleSets.find(s => s.id === id);
+      if (!ruleSet || !confirm('确定删除规则集「' + ruleSet.name + '」及其中的 ' + ruleSet.ruleCount + ' 条规则？')) return;
+      try {
+        const res = await fetch('/api/rule-sets/' + id, { method: 'DELETE', headers: { 'Authorization': 'Bearer ' + apiToken } });
+        if (!res.ok) {
+          const data = await res.json();
+          showAlert(data.message || '删除失败', 'error');
+          return;
+        }
+        showAlert('规则集已删除');
+        if (document.getElementById('rule-worker-filter').value === 'set:' + id) document.getElementById('rule-worker-filter').value = '';
+        loadRuleSets();
+        loadRules();
+      } catch (e) { showAlert('删除失败', 'error'); }
+    }
+
+    // Disable or re-enable an inherited rule for the worker selected in the rule list
+    async function toggleRuleOverride(ruleId, overridden) {
+      const workerId = document.getElementById('rule-worker-filter').value;
+      if (!workerId || workerId === 'global' || workerId.startsWith('set:')) return;
+      try {
+        const res = await fetch('/api/rule-sets/workers/' + workerId + '/overrides/' + ruleId, {
+          method: overridden ? 'PUT' : 'DELETE',
+          headers: { 'Authorization': 'Bearer ' + apiToken }
+        });
+        const data = await res.json();
+        if (!res.ok) { showAlert(data.message || '操作失败', 'error'); return; }
+        showAlert(overridden ? '已对该 Worker 停用此规则' : '已对该 Worker 恢复此规则');
+        loadRules();
+      } catch (e) { showAlert('操作失败', 'error'); }
+    }
+
+    // Bulk operations on every rule matching a filter
+    const RULE_BULK_ACTIONS = { enable: '启用', disable: '禁用', delete: '删除', retag: '修改标签', move: '移动', changeCategory: '修改类型' };
+
+    function showRuleBulk() {
+      document.getElementById('rule-bulk-scope').innerHTML = '<option value="">不限</option><option value="global">全局规则</option>' + ruleSetOptions() +
+        workers.map(w => '<option value="' + w.id + '">' + escapeHtml(w.name) + '</option>').join('');
+      document.getElementById('rule-bulk-target-worker').innerHTML = '<option value="">全局规则</option>' +
+        workers.map(w => '<option value="' + w.id + '">' + escapeHtml(w.name) + '</option>').join('');
+      document.getElementById('rule-bulk-result').innerHTML = '';
+      updateRuleBulkFields();
+      showModal('rule-bulk-modal');
+    }
+
+    function updateRuleBulkFields() {
+      const action = document.getElementById('rule-bulk-action').value;
+      document.querySelectorAll('.rule-bulk-field').forEach(el => { el.style.display = el.dataset.action === action ? '' : 'none'; });
+    }
+
+    function readRuleBulkRequest(dryRun) {
+      const scope = document.getElementById('rule-bulk-scope').value;
+      const notHit = document.getElementById('rule-bulk-not-hit').value;
+      const filter = {
+        tag: document.getElementById('rule-bulk-tag').value.trim() || undefined,
+        category: document.getElementById('rule-bulk-category').value || undefined,
+        // 'global' selects the global rules, like a worker ID selects that worker's own rules
+        ...readRuleScope(scope, undefined),
+        search: document.getElementById('rule-bulk-search').value.trim() || undefined,
+        notHitInDays: notHit ? parseInt(notHit, 10) : undefined
+      };
+      const action = document.getElementById('rule-bulk-action').value;
+      const body = { filter, action, dryRun };
+      const splitTags = id => document.getElementById(id).value.split(',').map(t => t.trim()).filter(t => t);
+      if (action === 'retag') {
+        body.addTags = splitTags('rule-bulk-add-tags');
+        body.removeTags = splitTags('rule-bulk-remove-tags');
+      }
+      if (action === 'move') body.workerId = document.getElementById('rule-bulk-target-worker').value || null;
+      if (action === 'changeCategory') body.category = document.getElementById('rule-bulk-target-category').value;
+      return body;
+    }
+
+    async function runRuleBulk(dryRun) {
+      const body = readRuleBulkRequest(dryRun);
+      if (!dryRun && !confirm('确定对匹配的规则执行「' + RULE_BULK_ACTIONS[body.action] + '」？')) return;
+      const box = document.getElementById('rule-bulk-result');
+      try {
+        const res = await fetch('/api/rules/bulk', { method: 'POST', headers: getHeaders(), body: JSON.stringify(body) });
+        const data = await res.json();
+        const conflicts = data.conflicts || [];
+        const conflictHtml = conflicts.length > 0 ? '<div class="alert alert-error">' + conflicts.length + ' 条规则移动或修改类型后会与已有规则重复：' +
+          conflicts.map(c => '<code>' + escapeHtml(c.pattern) + '</code>').join('、') + '</div>' : '';
+        if (!res.ok) {
+          box.innerHTML = conflictHtml;
+          showAlert(data.message || '批量操作失败', 'error');
+          return;
+        }
+        box.innerHTML = conflictHtml + '<p>' + (data.dryRun ? '预览：' : '已完成：') + '匹配 ' + data.matched + ' 条规则，' +
+          (data.dryRun ? '将' : '已') + RULE_BULK_ACTIONS[data.action] + ' ' + data.changed + ' 条。</p>' +
+          (data.rules.length > 0 ? '<ul style="margin-left:18px;max-height:240px;overflow:auto;">' + data.rules.map(r =>
+            '<li>' + escapeHtml(r.pattern) + ' <span class="text-muted">(' + (r.workerId ? (workers.find(w => w.id === r.workerId)?.name || '未知') :
+              r.ruleSetId ? '规则集: ' + (ruleSets.find(s => s.id === r.ruleSetId)?.name || '未知') : '全局') + ')</span></li>').join('') + '</ul>' : '');
+        if (!data.dryRun) {
+          showAlert('批量操作完成');
+          loadRules();
+          loadRuleSets();
+        }
+      } catch (e) { showAlert('批量操作失败', 'error'); }
+    }
+
+    // Rule analysis: duplicate, shadowed, conflicting and stale rules with one-click fixes
+    const RULE_ANALYSIS_KINDS = {
+      duplicate: '重复规则',
+      shadowed: '被覆盖',
+      whitelistConflict: '白名单冲突',
+      overlap: '白名单例外',
+      neverHit: '从未命中',
+      stale: '长期未命中'
+    };
+    const RULE_ANALYSIS_FIXES = { delete: '删除', disable: '禁用' };
+    let ruleAnalysisStaleDays = 90;
+
+    function showRuleAnalysis() {
+      showModal('rule-analysis-modal');
+      loadRuleAnalysis();
+    }
+
+    function ruleAnalysisScope(r) {
+      if (r.workerId) return workers.find(w => w.id === r.workerId)?.name || '未知';
+      if (r.ruleSetId) return '规则集: ' + (ruleSets.find(s => s.id === r.ruleSetId)?.name || '未知');
+      return '全局';
+    }
+
+    async function loadRuleAnalysis() {
+      const days = parseInt(document.getElementById('rule-analysis-stale-days').value, 10) || 90;
+      const list = document.getElementById('rule-analysis-list');
+      list.innerHTML = '<p class="text-muted">分析中...</p>';
+      try {
+        const res = await fetch('/api/rules/analysis?staleDays=' + days, { headers: getHeaders() });
+        const data = await res.json();
+        if (!res.ok) { list.innerHTML = ''; showAlert(data.message || '规则分析失败', 'error'); return; }
+        ruleAnalysisStaleDays = data.staleDays;
+        document.getElementById('rule-analysis-summary').innerHTML = '<p>共 ' + data.totalRules + ' 条规则：' +
+          Object.keys(RULE_ANALYSIS_KINDS).map(k => RULE_ANALYSIS_KINDS[k] + ' ' + data.summary[k]).join('，') + '</p>';
+        if (data.findings.length === 0) { list.innerHTML = '<p class="text-muted">未发现问题</p>'; return; }
+        const matchModeLabels = {exact:'精确',contains:'包含',startsWith:'开头',endsWith:'结尾',regex:'正则',domainTree:'域名树'};
+        list.innerHTML = '<table><thead><tr><th>问题</th><th>规则</th><th>操作</th></tr></thead><tbody>' + data.findings.map(f =>
+          '<tr><td><span class="tag"' + (f.severity === 'warning' ? ' style="background:#fff3cd;"' : '') + ' title="' + escapeHtml(f.message) + '">' +
+            RULE_ANALYSIS_KINDS[f.kind] + '</span></td>' +
+          '<td>' + f.rules.map((r, i) => '<div' + (i > 0 ? ' class="text-muted"' : '') + '>' +
+            (r.category === 'whitelist' ? '白名单' : r.category === 'blacklist' ? '黑名单' : '动态') + ' · ' + r.matchType + ' ' +
+            (matchModeLabels[r.matchMode] || r.matchMode) + ' <code>' + escapeHtml(r.pattern) + '</code> (' + escapeHtml(ruleAnalysisScope(r)) + ')' +
+            (r.enabled ? '' : ' <span class="tag">已禁用</span>') + '</div>').join('') + '</td>' +
+          '<td>' + (f.fix ? '<button class="btn btn-sm btn-danger" onclick="applyRuleAnalysisFix(\\'' + escapeHtml(f.id) + '\\', \\'' + f.fix.action + '\\', ' +
+            f.fix.ruleIds.length + ')">一键' + RULE_ANALYSIS_FIXES[f.fix.action] + '</button>' : '<span class="text-muted">需人工处理</span>') + '</td></tr>'
+        ).join('') + '</tbody></table>';
+      } catch (e) { list.innerHTML = ''; showAlert('规则分析失败', 'error'); }
+    }
+
+    async function applyRuleAnalysisFix(findingId, action, count) {
+      if (!confirm('确定' + RULE_ANALYSIS_FIXES[action] + ' ' + count + ' 条规则？')) return;
+      try {
+        const res = await fetch('/api/rules/analysis/fixes', {
+          method: 'POST',
+          headers: getHeaders(),
+          body: JSON.stringify({ findingId, staleDays: ruleAnalysisStaleDays })
+        });
+        const data = await res.json();
+        if (!res.ok) { showAlert(data.message || '修复失败', 'error'); return; }
+        showAlert('已' + RULE_ANALYSIS_FIXES[action] + ' ' + data.result.changed + ' 条规则');
+        loadRuleAnalysis();
+        loadRules();
+      } catch (e) { showAlert('修复失败', 'error'); }
+    }
+
+    // Rule suggestions mined from emails forwarded by default
+    let ruleSuggestions = [];
+
+    function showRuleSuggestions() {
+      document.getElementById('rule-suggestions-scope').innerHTML = '<option value="">全局规则</option>' +
+        workers.map(w => '<option value="' + w.id + '">' + escapeHtml(w.name) + '</option>').join('');
+      showModal('rule-suggestions-modal');
+      loadRuleSuggestions();
+    }
+
+    async function loadRuleSuggestions() {
+      const hours = document.getElementById('rule-suggestions-hours').value;
+      const minCount = parseInt(document.getElementById('rule-suggestions-min-count').value, 10) || 5;
+      const list = document.getElementById('rule-suggestions-list');
+      list.innerHTML = '<p class="text-muted">分析中...</p>';
+      try {
+        const res = await fetch('/api/rule-suggestions?hours=' + hours + '&minCount=' + minCount, { headers: getHeaders() });
+        const data = await res.json();
+        if (!res.ok) { list.innerHTML = ''; showAlert(data.message || '获取规则建议失败', 'error'); return; }
+        ruleSuggestions = data.suggestions;
+        if (ruleSuggestions.length === 0) {
+          list.innerHTML = '<p class="text-muted">扫描了 ' + data.scannedEmails + ' 封默认转发的邮件，暂无建议</p>';
+          return;
+        }
+        list.innerHTML = '<p class="text-muted">扫描了 ' + data.scannedEmails + ' 封默认转发的邮件</p>' +
+          '<table><thead><tr><th>建议规则</th><th>转发量</th><th>主题统计</th><th>集中度</th><th>相似的黑名单</th><th>示例</th><th>操作</th></tr></thead><tbody>' +
+          ruleSuggestions.map((s, i) =>
+            '<tr><td><span class="tag">' + (s.kind === 'senderDomain' ? '发件域名' : '主题') + '</span> ' +
+              (s.matchMode === 'domainTree' ? '域名树' : s.matchMode === 'regex' ? '正则' : s.matchMode === 'contains' ? '包含' : '精确') +
+              ' <code>' + escapeHtml(s.pattern) + '</code></td>' +
+            '<td>' + s.forwardedCount + '<div class="text-muted" style="font-size:11px;">' +
+              s.workerBreakdown.map(w => escapeHtml(w.workerName) + ': ' + w.count).join(', ') + '</div></td>' +
+            '<td>' + s.trackedCount + '</td>' +
+            '<td title="' + escapeHtml(s.topSource) + '">' + Math.round(s.concentration * 100) + '%</td>' +
+            '<td>' + (s.similarTo ? '<code>' + escapeHtml(s.similarTo.pattern) + '</code> (' + Math.round(s.similarity * 100) + '%)' : '-') + '</td>' +
+            '<td style="font-size:12px;">' + s.samples.map(x => escapeHtml(x)).join('<br>') + '</td>' +
+            '<td><button class="btn btn-sm btn-primary" onclick="acceptRuleSuggestion(' + i + ')">采纳</button> ' +
+              '<button class="btn btn-sm btn-secondary" onclick="dismissRuleSuggestion(' + i + ')">忽略</button></td></tr>'
+          ).join('') + '</tbody></table>';
+      } catch (e) { list.innerHTML = ''; showAlert('获取规则建议失败', 'error'); }
+    }
+
+    async function acceptRuleSuggestion(index) {
+      const s = ruleSuggestions[index];
+      const workerId = document.getElementById('rule-suggestions-scope').value || undefined;
+      if (!confirm('确定创建黑名单规则 ' + s.pattern + '？')) return;
+      try {
+        const res = await fetch('/api/rule-suggestions/accept', {
+          method: 'POST',
+          headers: getHeaders(),
+          body: JSON.stringify({ matchType: s.matchType, matchMode: s.matchMode, pattern: s.pattern, normalize: s.normalize, workerId })
+        });
+        const data = await res.json();
+        if (!res.ok) { showAlert(data.message || '采纳失败', 'error'); return; }
+        showAlert('已创建黑名单规则');
+        loadRuleSuggestions();
+        loadRules();
+      } catch (e) { showAlert('采纳失败', 'error'); }
+    }
+
+    async function dismissRuleSuggestion(index) {
+      const s = ruleSuggestions[index];
+      try {
+        const res = await fetch('/api/rule-suggestions/dismiss', {
+          method: 'POST',
+          headers: getHeaders(),
+          body: JSON.stringify({ matchType: s.matchType, matchMode: s.matchMode, pattern: s.pattern })
+        });
+        const data = await res.json();
+        if (!res.ok) { showAlert(data.message || '忽略失败', 'error'); return; }
+        showAlert('已忽略，不会再建议此规则');
+        loadRuleSuggestions();
+      } catch (e) { showAlert('忽略失败', 'error'); }
+    }
+
+    async function loadRuleSuggestionDismissals() {
+      const list = document.getElementById('rule-suggestions-list');
+      try {
+        const res = await fetch('/api/rule-suggestions/dismissals', { headers: getHeaders() });
+        const data = await res.json();
+        if (!res.ok) { showAlert(data.message || '获取已忽略的建议失败', 'error'); return; }
+        list.innerHTML = data.dismissals.length === 0 ? '<p class="text-muted">没有已忽略的建议</p>' :
+          '<table><thead><tr><th>规则</th><th>忽略人</th><th>时间</th><th>操作</th></tr></thead><tbody>' + data.dismissals.map(d =>
+            '<tr><td>' + d.matchType + ' ' + d.matchMode + ' <code>' + escapeHtml(d.pattern) + '</code></td>' +
+            '<td>' + escapeHtml(d.dismissedBy || '-') + '</td>' +
+            '<td>' + new Date(d.createdAt).toLocaleString('zh-CN') + '</td>' +
+            '<td><button class="btn btn-sm btn-secondary" onclick="restoreRuleSuggestion(\\'' + d.id + '\\')">恢复</button></td></tr>'
+          ).join('') + '</tbody></table>';
+      } catch (e) { showAlert('获取已忽略的建议失败', 'error'); }
+    }
+
+    async function restoreRuleSuggestion(id) {
+      try {
+        const res = await fetch('/api/rule-suggestions/dismissals/' + id, { method: 'DELETE', headers: { 'Authorization': 'Bearer ' + apiToken } });
+        if (!res.ok) { const data = await res.json(); showAlert(data.message || '恢复失败', 'error'); return; }
+        showAlert('已恢复，该建议会重新出现');
+        loadRuleSuggestionDismissals();
+      } catch (e) { showAlert('恢复失败', 'error'); }
+    }
+
+    // Rule drafts: changes staged per worker and published together as a new version
+    const RULE_DRAFT_OPERATIONS = { add: '新增', update: '修改', delete: '删除' };
+    const RULE_SET_VERSION_ACTIONS = { baseline: '初始', publish: '发布', rollback: '回滚' };
+    let ruleDraftScope = 'global';
+
+    async function stageRuleChange(scope, change) {
+      try {
+        const res = await fetch('/api/rules/drafts/' + scope + '/changes', { method: 'POST', headers: getHeaders(), body: JSON.stringify(change) });
+        const data = await res.json();
+        if (!res.ok) {
+          showAlert(data.message || '存入草稿失败', 'error');
+          return false;
+        }
+        showAlert('已存入草稿，发布后生效');
+        return true;
+      } catch (e) {
+        showAlert('存入草稿失败: ' + e.message, 'error');
+        return false;
+      }
+    }
+
+    async function stageNewRule() {
+      const body = readAddRuleForm();
+      if (!body) return;
+      if (body.ruleSetId) {
+        showAlert('规则集中的规则不能存入草稿，请直接添加', 'error');
+        return;
+      }
+      const scope = body.workerId || 'global';
+      delete body.workerId;
+      delete body.ruleSetId;
+      if (await stageRuleChange(scope, { operation: 'add', rule: body })) {
+        hideModal('add-rule-modal');
+        document.getElementById('add-rule-form').reset();
+      }
+    }
+
+    async function stageRuleEdit() {
+      const body = readEditRuleForm();
+      if (!body) return;
+      if (editingRuleScope.startsWith('set:')) {
+        showAlert('规则集中的规则不能存入草稿，请直接保存', 'error');
+        return;
+      }
+      if ((body.workerId || (body.ruleSetId ? 'set:' + body.ruleSetId : 'global')) !== editingRuleScope) {
+        showAlert('草稿中不能更改规则关联的 Worker', 'error');
+        return;
+      }
+      delete body.workerId;
+      delete body.ruleSetId;
+      const id = document.getElementById('edit-rule-id').value;
+      if (await stageRuleChange(editingRuleScope, { operation: 'update', ruleId: id, rule: body })) {
+        hideModal('edit-rule-modal');
+      }
+    }
+
+    async function stageRuleDelete(id) {
+      const rule = currentRules.find(r => r.id === id);
+      if (!rule) return;
+      await stageRuleChange(rule.workerId || 'global', { operation: 'delete', ruleId: id });
+    }
+
+    async function showRuleDrafts() {
+      const ruleFilterScope = document.getElementById('rule-worker-filter').value;
+      ruleDraftScope = ruleFilterScope && !ruleFilterScope.startsWith('set:') ? ruleFilterScope : 'global';
+      let counts = {};
+      try {
+        const res = await fetch('/api/rules/drafts', { headers: getHeaders() });
+        const data = await res.json();
+        (data.drafts || []).forEach(d => { counts[d.workerId || 'global'] = d.changeCount; });
+      } catch (e) {}
+      const option = (id, name) => '<option value="' + id + '"' + (id === ruleDraftScope ? ' selected' : '') + '>' +
+        escapeHtml(name) + (counts[id] ? '（' + counts[id] + ' 项待发布）' : '') + '</option>';
+      document.getElementById('rule-draft-scope').innerHTML = option('global', '全局规则') + workers.map(w => option(w.id, w.name)).join('');
+      showModal('rule-draft-modal');
+      loadRuleDraft();
+    }
+
+    async function loadRuleDraft() {
+      ruleDraftScope = document.getElementById('rule-draft-scope').value || 'global';
+      document.getElementById('rule-draft-preview').innerHTML = '';
+      try {
+        const [draftRes, versionsRes] = await Promise.all([
+          fetch('/api/rules/drafts/' + ruleDraftScope, { headers: getHeaders() }),
+          fetch('/api/rules/drafts/' + ruleDraftScope + '/versions', { headers: getHeaders() })
+        ]);
+        const draft = await draftRes.json();
+        const versionsData = await versionsRes.json();
+        if (!draftRes.ok || !versionsRes.ok) {
+          showAlert(draft.message || versionsData.message || '加载草稿失败', 'error');
+          return;
+        }
+
+        const changeRows = draft.changes.map(c => {
+          const rule = currentRules.find(r => r.id === c.ruleId);
+          const pattern = (c.payload && c.payload.pattern) || (rule ? rule.pattern : c.ruleId);
+          const fields = c.operation === 'update' ? Object.keys(c.payload || {}).join(', ') : '';
+          return '<tr><td><span class="tag">' + RULE_DRAFT_OPERATIONS[c.operation] + '</span></td><td>' + escapeHtml(pattern || '') + '</td>' +
+            '<td class="text-muted" style="font-size:12px;">' + escapeHtml(fields) + '</td>' +
+            '<td>' + escapeHtml(c.createdBy || 'API Token') + '</td>' +
+            '<td><button class="btn btn-sm btn-secondary" onclick="discardDraftChange(' + c.id + ')">撤销</button></td></tr>';
+        }).join('');
+        document.getElementById('rule-draft-changes').innerHTML =
+          '<p class="text-muted">当前版本：' + (draft.publishedVersion ? 'v' + draft.publishedVersion : '尚未发布') + '</p>' +
+          '<table><thead><tr><th>操作</th><th>规则</th><th>修改字段</th><th>操作人</th><th></th></tr></thead><tbody>' +
+          (changeRows || '<tr><td colspan="5" style="text-align:center;color:#999;">草稿为空</td></tr>') + '</tbody></table>';
+
+        const versions = versionsData.versions || [];
+        const latest = versions.length > 0 ? versions[0].version : 0;
+        const versionRows = versions.map(v =>
+          '<tr><td>v' + v.version + '</td><td style="white-space:nowrap;">' + new Date(v.createdAt).toLocaleString('zh-CN') + '</td>' +
+          '<td><span class="tag">' + (RULE_SET_VERSION_ACTIONS[v.action] || v.action) + (v.rolledBackTo ? ' → v' + v.rolledBackTo : '') + '</span></td>' +
+          '<td>' + escapeHtml(v.publishedBy || (v.action === 'baseline' ? '-' : 'API Token')) + '</td>' +
+          '<td>' + v.ruleCount + ' 条规则' + (v.changes ? '，变更 ' + v.changes.length + ' 条' : '') + '</td>' +
+          '<td>' + (v.version !== latest ? '<button class="btn btn-sm btn-warning" onclick="rollbackRuleSet(' + v.version + ')">回滚到此版本</button>' : '') + '</td></tr>'
+        ).join('');
+        document.getElementById('rule-draft-versions').innerHTML =
+          '<table><thead><tr><th>版本</th><th>时间</th><th>操作</th><th>操作人</th><th>内容</th><th></th></tr></thead><tbody>' +
+          (versionRows || '<tr><td colspan="6" style="text-align:center;color:#999;">暂无发布记录</td></tr>') + '</tbody></table>';
+      } catch (e) {
+        showAlert('加载草稿失败: ' + e.message, 'error');
+      }
+    }
+
+    async function discardDraftChange(id) {
+      try {
+        const res = await fetch('/api/rules/drafts/' + ruleDraftScope + '/changes/' + id, { method: 'DELETE', headers: { 'Authorization': 'Bearer ' + apiToken } });
+        if (!res.ok) {
+          const data = await res.json();
+          showAlert(data.message || '撤销失败', 'error');
+        }
+        loadRuleDraft();
+      } catch (e) {
+        showAlert('撤销失败: ' + e.message, 'error');
+      }
+    }
+
+    async function discardRuleDraft() {
+      if (!confirm('确定丢弃草稿中的全部变更？')) return;
+      try {
+        const res = await fetch('/api/rules/drafts/' + ruleDraftScope, { method: 'DELETE', headers: { 'Authorization': 'Bearer ' + apiToken } });
+        const data = await res.json();
+        if (!res.ok) {
+          showAlert(data.message || '丢弃失败', 'error');
+          return;
+        }
+        showAlert('已丢弃 ' + data.discarded + ' 项变更');
+        loadRuleDraft();
+      } catch (e) {
+        showAlert('丢弃失败: ' + e.message, 'error');
+      }
+    }
+
+    async function previewRuleDraft() {
+      const container = document.getElementById('rule-draft-preview');
+      container.innerHTML = '<p class="text-muted">正在用最近 7 天的邮件回放草稿...</p>';
+      try {
+        const res = await fetch('/api/rules/drafts/' + ruleDraftScope + '/preview', { method: 'POST', headers: getHeaders(), body: JSON.stringify({ sampleLimit: 20 }) });
+        const data = await res.json();
+        if (!res.ok) {
+          container.innerHTML = '';
+          showAlert(data.message || '预览失败', 'error');
+          return;
+        }
+        const changeRows = data.changes.map(c => {
+          const rule = c.after || c.before;
+          const fields = c.stale ? '<span style="color:#dc3545;">规则已被删除或移走，发布会失败</span>' :
+            escapeHtml(c.fieldChanges.map(f => f.field).join(', '));
+          return '<tr><td><span class="tag">' + RULE_DRAFT_OPERATIONS[c.change.operation] + '</span></td>' +
+            '<td>' + escapeHtml(rule ? rule.pattern : c.change.ruleId) + '</td><td class="text-muted" style="font-size:12px;">' + fields + '</td></tr>';
+        }).join('');
+        const sim = data.simulation;
+        const directions = { forwardToDrop: '转发 → 拦截', dropToForward: '拦截 → 转发' };
+        const sampleRows = sim.samples.map(f =>
+          '<tr><td style="white-space:nowrap;">' + new Date(f.createdAt).toLocaleString('zh-CN') + '</td><td>' + escapeHtml(f.from) + '</td>' +
+          '<td>' + escapeHtml(f.subject) + '</td><td style="white-space:nowrap;">' + directions[f.direction] + '</td></tr>'
+        ).join('');
+        container.innerHTML =
+          '<table><thead><tr><th>操作</th><th>规则</th><th>变更字段</th></tr></thead><tbody>' +
+          (changeRows || '<tr><td colspan="3" style="text-align:center;color:#999;">草稿为空</td></tr>') + '</tbody></table>' +
+          '<p style="margin-top:10px;">回放 ' + sim.totalEmails + ' 封邮件：<strong>' + sim.forwardToDrop + '</strong> 封将由转发变为拦截，<strong>' +
+          sim.dropToForward + '</strong> 封将由拦截变为转发' + (sim.truncated ? '（邮件过多，仅回放了一部分）' : '') + '</p>' +
+          (sampleRows ? '<table><thead><tr><th>时间</th><th>发件人</th><th>主题</th><th>变化</th></tr></thead><tbody>' + sampleRows + '</tbody></table>' : '');
+      } catch (e) {
+        container.innerHTML = '';
+        showAlert('预览失败: ' + e.message, 'error');
+      }
+    }
+
+    async function publishRuleDraft() {
+      if (!confirm('确定发布草稿？全部变更将立即生效。')) return;
+      try {
+        const res = await fetch('/api/rules/drafts/' + ruleDraftScope + '/publish', { method: 'POST', headers: { 'Authorization': 'Bearer ' + apiToken } });
+        const data = await res.json();
+        if (!res.ok) {
+          showAlert(data.message || '发布失败', 'error');
+          return;
+        }
+        showAlert('已发布 v' + data.version + '，应用 ' + data.applied.length + ' 项变更');
+        loadRules();
+        loadRuleDraft();
+      } catch (e) {
+        showAlert('发布失败: ' + e.message, 'error');
+      }
+    }
+
+    async function rollbackRuleSet(version) {
+      if (!confirm('确定将规则回滚到 v' + version + '？之后新增的规则将被删除。')) return;
+      try {
+        const res = await fetch('/api/rules/drafts/' + ruleDraftScope + '/versions/' + version + '/rollback', { method: 'POST', headers: { 'Authorization': 'Bearer ' + apiToken } });
+        const data = await res.json();
+        if (!res.ok) {
+          showAlert(data.message || '回滚失败', 'error');
+          return;
+        }
+        showAlert('已回滚到 v' + version + '，生成 v' + data.version);
+        loadRules();
+        loadRuleDraft();
+      } catch (e) {
+        showAlert('回滚失败: ' + e.message, 'error');
+      }
+    }
+
+    // Forward Rules
+    let currentForwardRules = [];
+
+    async function loadForwardRules() {
+      if (!apiToken) return;
+      const workerId = document.getElementById('forward-rule-worker-filter').value;
+      const url = workerId ? '/api/forward/rules?workerId=' + encodeURIComponent(workerId) : '/api/forward/rules?global=true';
+      try {
+        const res = await fetch(url, { headers: getHeaders() });
+        const data = await res.json();
+        currentForwardRules = data.rules || [];
+        renderForwardRules(currentForwardRules);
+      } catch (e) { showAlert('加载转发规则失败', 'error'); }
+    }
+
+    function renderForwardRules(rules) {
+      const tbody = document.getElementById('forward-rules-table');
+      if (rules.length === 0) {
+        tbody.innerHTML = '<tr><td colspan="6" style="text-align:center;color:#999;padding:30px;">暂无转发规则</td></tr>';
+        return;
+      }
+      tbody.innerHTML = rules.map((r, idx) => {
+        const mode = {exact:'精确',contains:'包含',regex:'正则'}[r.matchMode] || r.matchMode;
+        const status = r.enabled ? '<span class="status status-enabled">启用</span>' : '<span class="status status-disabled">禁用</span>';
+        return '<tr><td>' + (idx + 1) + '</td><td style="white-space:nowrap;">' + mode + '</td>' +
+          '<td style="word-break:break-all;white-space:normal;">' + escapeHtml(r.recipientPattern) + '</td>' +
+          '<td>' + escapeHtml(r.forwardTo) + '</td><td style="white-space:nowrap;">' + status + '</td>' +
+          '<td><div style="display:flex;gap:4px;flex-wrap:wrap;">' +
+            (idx > 0 ? '<button class="btn btn-sm btn-secondary" onclick="moveForwardRule(' + idx + ', -1)">上移</button>' : '') +
+            (idx < rules.length - 1 ? '<button class="btn btn-sm btn-secondary" onclick="moveForwardRule(' + idx + ', 1)">下移</button>' : '') +
+            '<button class="btn btn-sm btn-secondary" onclick="toggleForwardRule(\\'' + r.id + '\\')">切换</button>' +
+            '<button class="btn btn-sm btn-danger" onclick="deleteForwardRule(\\'' + r.id + '\\')">删除</button>' +
+          '</div></td></tr>';
+      }).join('');
+    }
+
+    async function addForwardRule() {
+      const body = {
+        workerId: document.getElementById('forward-rule-worker-filter').value || undefined,
+        matchMode: document.getElementById('forward-rule-match-mode').value,
+        recipientPattern: document.getElementById('forward-rule-pattern').value.trim(),
+        forwardTo: document.getElementById('forward-rule-forward-to').value.trim()
+      };
+      try {
+        const res = await fetch('/api/forward/rules', { method: 'POST', headers: getHeaders(), body: JSON.stringify(body) });
+        if (res.ok) {
+          document.getElementById('forward-rule-pattern').value = '';
+          document.getElementById('forward-rule-forward-to').value = '';
+          showAlert('转发规则创建成功');
+          loadForwardRules();
+        } else {
+          const data = await res.json();
+          showAlert(data.message || '创建失败', 'error');
+        }
+      } catch (e) { showAlert('创建失败', 'error'); }
+    }
+
+    async function moveForwardRule(index, offset) {
+      const ids = currentForwardRules.map(r => r.id);
+      const target = index + offset;
+      [ids[index], ids[target]] = [ids[target], ids[index]];
+      try {
+        const res = await fetch('/api/forward/rules/reorder', {
+          method: 'POST',
+          headers: getHeaders(),
+          body: JSON.stringify({ workerId: document.getElementById('forward-rule-worker-filter').value || null, ruleIds: ids })
+        });
+        if (!res.ok) {
+          const data = await res.json();
+          showAlert(data.message || '调整顺序失败', 'error');
+        }
+        loadForwardRules();
+      } catch (e) { showAlert('调整顺序失败', 'error'); }
+    }
+
+    async function toggleForwardRule(id) {
+      const rule = currentForwardRules.find(r => r.id === id);
+      if (!rule) return;
+      try {
+        const res = await fetch('/api/forward/rules/' + id, { method: 'PUT', headers: getHeaders(), body: JSON.stringify({ enabled: !rule.enabled }) });
+        if (!res.ok) {
+          const data = await res.json();
+          showAlert(data.message || '切换失败', 'error');
+        }
+        loadForwardRules();
+      } catch (e) { showAlert('切换失败', 'error'); }
+    }
+
+    async function deleteForwardRule(id) {
+      if (!confirm('确定删除此转发规则？')) return;
+      try {
+        await fetch('/api/forward/rules/' + id, { method: 'DELETE', headers: { 'Authorization': 'Bearer ' + apiToken } });
+        showAlert('删除成功');
+        loadForwardRules();
+      } catch (e) { showAlert('删除失败', 'error'); }
+    }
+
     // Dynamic Rules
     async function loadDynamicConfig() {
       if (!apiToken) return;
@@ -2753,10 +4156,28 @@ const HTML_TEMPLATE = `<!DOCTYPE html>
             const oldest = data.oldestRecord ? new Date(data.oldestRecord).toLocaleString('zh-CN') : '-';
             statsEl.textContent = '共 ' + data.totalRecords + ' 条记录，最早: ' + oldest;
           }
+          renderTrackerClusters(data.clusters || []);
         }
       } catch (e) { console.error('Failed to load tracker stats'); }
     }
 
+    function renderTrackerClusters(clusters) {
+      const el = document.getElementById('tracker-clusters');
+      if (clusters.length === 0) {
+        el.innerHTML = '';
+        return;
+      }
+      el.innerHTML = '<h3 style="font-size:14px;margin-bottom:10px;">当前时间窗口内的相似主题聚类</h3>' +
+        '<div class="table-wrapper"><table><thead><tr><th>邮件数</th><th>主题模板</th><th class="hide-mobile">示例主题</th><th>将生成的规则</th></tr></thead><tbody>' +
+        clusters.map(c =>
+          '<tr><td>' + c.count + '</td>' +
+          '<td><code>' + escapeHtml(c.template) + '</code></td>' +
+          '<td class="hide-mobile" style="font-size:12px;color:#666;">' + c.members.map(m => escapeHtml(m)).join('<br>') + '</td>' +
+          '<td><span class="tag">' + (c.matchMode === 'regex' ? '正则' : '包含') + '</span> <code style="word-break:break-all;">' + escapeHtml(c.pattern) + '</code></td></tr>'
+        ).join('') +
+        '</tbody></table></div>';
+    }
+
     async function cleanupSubjectTracker() {
       const hours = document.getElementById('tracker-cleanup-hours').value || '1';
       const hoursText = hours === '0.5' ? '30分钟' : hours + '小时';
@@ -2862,6 +4283,8 @@ const HTML_TEMPLATE = `<!DOCTYPE html>
       const categoryLabels = {
         email_forward: '<span style="color:#27ae60">📤 转发</span>',
         email_drop: '<span style="color:#e74c3c">🚫 拦截</span>',
+        email_reject: '<span style="color:#e67e22">↩️ 退信</span>',
+        email_shadow: '<span style="color:#8e44ad">👻 影子</span>',
         admin_action: '<span style="color:#4a90d9">⚙️ 管理</span>',
         system: '<span style="color:#95a5a6">🖥️ 系统</span>'
       };
@@ -2985,7 +4408,7 @@ const HTML_TEMPLATE = `<!DOCTYPE html>
       const d = log.details || {};
       const time = new Date(log.createdAt).toLocaleString('zh-CN');
       const workerName = log.workerName || 'global';
-      const categoryNames = {email_forward:'转发',email_drop:'拦截',admin_action:'管理操作',system:'系统'};
+      const categoryNames = {email_forward:'转发',email_drop:'拦截',email_reject:'退信',email_shadow:'影子规则',admin_action:'管理操作',system:'系统'};
       
       let detailContent = '';
       if (log.category === 'admin_action' || log.category === 'system') {
@@ -3019,6 +4442,10 @@ const HTML_TEMPLATE = `<!DOCTYPE html>
           '<p><strong>发件人:</strong></p><p style="background:#f5f5f5;padding:8px;border-radius:4px;word-break:break-all;user-select:all">' + escapeHtml(d.from || '-') + '</p>' +
           '<p><strong>收件人:</strong></p><p style="background:#f5f5f5;padding:8px;border-radius:4px;word-break:break-all;user-select:all">' + escapeHtml(d.to || '-') + '</p>' +
           '<p><strong>命中规则:</strong></p><p style="background:#f5f5f5;padding:8px;border-radius:4px;word-break:break-all;user-select:all">' + escapeHtml(d.matchedRule || '-') + '</p>';
+        if (d.auth) {
+          detailContent += '<p><strong>发件认证:</strong> SPF=' + escapeHtml(d.auth.spf || '-') +
+            ' / DKIM=' + escapeHtml(d.auth.dkim || '-') + ' / DMARC=' + escapeHtml(d.auth.dmarc || '-') + '</p>';
+        }
       }
       
       const content = 
@@ -3033,10 +4460,12 @@ const HTML_TEMPLATE = `<!DOCTYPE html>
     }
 
     function renderLogCounts(counts) {
-      const total = (counts.email_forward || 0) + (counts.email_drop || 0) + (counts.admin_action || 0) + (counts.system || 0);
+      const total = (counts.email_forward || 0) + (counts.email_drop || 0) + (counts.email_reject || 0) + (counts.email_shadow || 0) + (counts.admin_action || 0) + (counts.system || 0);
       document.getElementById('log-counts').innerHTML = 
         '转发: ' + (counts.email_forward || 0) + ' | ' +
         '拦截: ' + (counts.email_drop || 0) + ' | ' +
+        '退信: ' + (counts.email_reject || 0) + ' | ' +
+        '影子: ' + (counts.email_shadow || 0) + ' | ' +
         '管理: ' + (counts.admin_action || 0) + ' | ' +
         '总计: ' + total;
     }
@@ -3078,6 +4507,7 @@ const HTML_TEMPLATE = `<!DOCTYPE html>
         document.getElementById('stat-total').textContent = overall.totalProcessed || 0;
         document.getElementById('stat-forwarded').textContent = overall.totalForwarded || 0;
         document.getElementById('stat-deleted').textContent = overall.totalDeleted || 0;
+        document.getElementById('stat-rejected').textContent = overall.totalRejected || 0;
         document.getElementById('stat-rules').textContent = (rules.rules || []).length;
         document.getElementById('stat-workers').textContent = (workersData.workers || []).length;
         
@@ -3134,15 +4564,15 @@ const HTML_TEMPLATE = `<!DOCTYPE html>
         tbody.innerHTML = '<tr><td colspan="7" style="text-align:center;color:#999">暂无监控规则</td></tr>';
         return;
       }
-      const matchTypeLabels = {sender:'发件人',subject:'主题',domain:'域名'};
-      const matchModeLabels = {exact:'精确',contains:'包含',startsWith:'开头',endsWith:'结尾',regex:'正则'};
+      const matchTypeLabels = {sender:'发件人',subject:'主题',domain:'域名',recipient:'收件人',recipientDomain:'收件域名'};
+      const matchModeLabels = {exact:'精确',contains:'包含',startsWith:'开头',endsWith:'结尾',regex:'正则',domainTree:'域名树'};
       tbody.innerHTML = rules.map(r => {
         const lastHit = r.lastHitAt ? new Date(r.lastHitAt).toLocaleString('zh-CN') : '-';
         const status = r.enabled ? '<span class="status status-enabled">启用</span>' : '<span class="status status-disabled">禁用</span>';
         return '<tr>' +
           '<td><strong>' + escapeHtml(r.name) + '</strong></td>' +
           '<td>' + (matchTypeLabels[r.matchType] || r.matchType) + '</td>' +
-          '<td>' + (matchModeLabels[r.matchMode] || r.matchMode) + '</td>' +
+          '<td>' + (matchModeLabels[r.matchMode] || r.matchMode) + (r.normalize ? ' <span class="tag" title="按规范化文本匹配">规范化</span>' : '') + '</td>' +
           '<td>' + escapeHtml(r.pattern) + '</td>' +
           '<td style="font-size:18px;font-weight:bold;color:#4a90d9">' + (r.hitCount || 0) + '</td>' +
           '<td style="font-size:12px;color:#666">' + lastHit + '</td>' +
@@ -3160,7 +4590,8 @@ const HTML_TEMPLATE = `<!DOCTYPE html>
         name: document.getElementById('watch-name').value,
         matchType: document.getElementById('watch-match-type').value,
         matchMode: document.getElementById('watch-match-mode').value,
-        pattern: document.getElementById('watch-pattern').value
+        pattern: document.getElementById('watch-pattern').value,
+        normalize: document.getElementById('watch-normalize').checked
       };
       try {
         const res = await fetch('/api/watch', { method: 'POST', headers: getHeaders(), body: JSON.stringify(body) });
@@ -3306,7 +4737,8 @@ const HTML_TEMPLATE = `<!DOCTYPE html>
       'alerts': '告警记录',
       'heartbeat_logs': '心跳日志',
       'email_subject_tracker': '主题追踪',
-      'subject_stats': '邮件主题统计'
+      'subject_stats': '邮件主题统计',
+      'rule_hit_rollups': '规则命中趋势'
     };
     
     /**
@@ -3328,6 +4760,7 @@ const HTML_TEMPLATE = `<!DOCTYPE html>
             document.getElementById('cleanup-heartbeat-days').value = config.heartbeatLogsRetentionDays;
             document.getElementById('cleanup-subject-tracker-hours').value = config.subjectTrackerRetentionHours;
             document.getElementById('cleanup-subject-stats-days').value = config.subjectStatsRetentionDays;
+            document.getElementById('cleanup-rule-hit-rollup-days').value = config.ruleHitRollupRetentionDays;
             document.getElementById('cleanup-hour').value = config.cleanupHour;
             document.getElementById('cleanup-auto-enabled').value = config.autoCleanupEnabled ? 'true' : 'false';
           }
@@ -3403,6 +4836,7 @@ const HTML_TEMPLATE = `<!DOCTYPE html>
         heartbeatLogsRetentionDays: parseInt(document.getElementById('cleanup-heartbeat-days').value, 10),
         subjectTrackerRetentionHours: parseInt(document.getElementById('cleanup-subject-tracker-hours').value, 10),
         subjectStatsRetentionDays: parseInt(document.getElementById('cleanup-subject-stats-days').value, 10),
+        ruleHitRollupRetentionDays: parseInt(document.getElementById('cleanup-rule-hit-rollup-days').value, 10),
         cleanupHour: parseInt(document.getElementById('cleanup-hour').value, 10),
         autoCleanupEnabled: document.getElementById('cleanup-auto-enabled').value === 'true'
       };
@@ -3427,6 +4861,9 @@ const HTML_TEMPLATE = `<!DOCTYPE html>
       if (config.subjectStatsRetentionDays < 1 || config.subjectStatsRetentionDays > 365) {
         errors.push('邮件主题统计保留天数必须在 1-365 之间');
       }
+      if (config.ruleHitRollupRetentionDays < 7 || config.ruleHitRollupRetentionDays > 365) {
+        errors.push('规则命中趋势保留天数必须在 7-365 之间');
+      }
       
       if (errors.length > 0) {
         showAlert(errors.join('；'), 'error');
@@ -3491,6 +4928,7 @@ const HTML_TEMPLATE = `<!DOCTYPE html>
             '<div>心跳日志: 删除 ' + result.heartbeatLogs.deletedCount + ' 条</div>' +
             '<div>主题追踪: 删除 ' + result.subjectTracker.deletedCount + ' 条</div>' +
             '<div>邮件主题统计: 删除 ' + result.subjectStats.deletedCount + ' 条</div>' +
+            '<div>规则命中趋势: 删除 ' + result.ruleHitRollups.deletedCount + ' 条</div>' +
             '<div style="margin-top:8px;font-weight:600;">总计删除 ' + result.totalDeleted + ' 条记录，耗时 ' + result.durationMs + 'ms</div>';
           resultEl.style.display = 'block';
           statusEl.innerHTML = '<span style="color:#27ae60;">✅ 清理完成</span>';
@@ -7367,7 +8805,7 @@ const HTML_TEMPLATE = `<!DOCTYPE html>
       tbody.innerHTML = displayRules.map(r => {
         const enabledStatus = r.enabled ? '<span class="status status-enabled">启用</span>' : '<span class="status status-disabled">禁用</span>';
         const tagsHtml = (r.tags || []).map(t => '<span class="tag">' + escapeHtml(t) + '</span>').join('');
-        const matchModeText = r.matchMode === 'regex' ? '正则' : '包含';
+        const matchModeText = (r.matchMode === 'regex' ? '正则' : '包含') + (r.normalize ? ' · 规范化' : '');
         const workerScope = r.workerScope || 'global';
         const scopeBadge = workerScope === 'global' 
           ? '<span class="tag" style="background:#e3f2fd;color:#1565c0;">🌐 全局</span>'
@@ -7385,6 +8823,7 @@ const HTML_TEMPLATE = `<!DOCTYPE html>
           '<td class="actions">' +
             '<button class="btn btn-sm btn-primary" onclick="editMonitoringRule(\\'' + r.id + '\\')">编辑</button>' +
             '<button class="btn btn-sm btn-' + (r.enabled ? 'warning' : 'success') + '" onclick="toggleMonitoringRule(\\'' + r.id + '\\')">' + (r.enabled ? '禁用' : '启用') + '</button>' +
+            '<button class="btn btn-sm btn-secondary" onclick="showRuleHistory(\\'monitoring\\', \\'' + r.id + '\\')">历史</button>' +
             '<button class="btn btn-sm btn-danger" onclick="deleteMonitoringRule(\\'' + r.id + '\\')">删除</button>' +
           '</td>' +
         '</tr>';
@@ -7726,6 +9165,7 @@ const HTML_TEMPLATE = `<!DOCTYPE html>
         name: document.getElementById('monitoring-name').value,
         subjectPattern: document.getElementById('monitoring-pattern').value,
         matchMode: document.getElementById('monitoring-match-mode').value,
+        normalize: document.getElementById('monitoring-normalize').checked,
         expectedIntervalMinutes: expectedIntervalMinutes,
         deadAfterMinutes: deadAfterMinutes,
         tags: tags,
@@ -7761,6 +9201,7 @@ const HTML_TEMPLATE = `<!DOCTYPE html>
       document.getElementById('edit-monitoring-name').value = rule.name;
       document.getElementById('edit-monitoring-pattern').value = rule.subjectPattern;
       document.getElementById('edit-monitoring-match-mode').value = rule.matchMode || 'contains';
+      document.getElementById('edit-monitoring-normalize').checked = !!rule.normalize;
       document.getElementById('edit-monitoring-interval').value = rule.expectedIntervalMinutes;
       document.getElementById('edit-monitoring-dead-after').value = rule.deadAfterMinutes;
       document.getElementById('edit-monitoring-tags').value = (rule.tags || []).join(', ');
@@ -7790,6 +9231,7 @@ const HTML_TEMPLATE = `<!DOCTYPE html>
         name: document.getElementById('edit-monitoring-name').value,
         subjectPattern: document.getElementById('edit-monitoring-pattern').value,
         matchMode: document.getElementById('edit-monitoring-match-mode').value,
+        normalize: document.getElementById('edit-monitoring-normalize').checked,
         expectedIntervalMinutes: expectedIntervalMinutes,
         deadAfterMinutes: deadAfterMinutes,
         tags: tags,
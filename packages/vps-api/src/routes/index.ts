@@ -5,6 +5,9 @@
 
 export { webhookRoutes } from './webhook.js';
 export { rulesRoutes } from './rules.js';
+export { ruleDraftRoutes } from './rule-drafts.js';
+export { ruleSetRoutes } from './rule-sets.js';
+export { ruleSuggestionRoutes } from './rule-suggestions.js';
 export { statsRoutes } from './stats.js';
 export { dynamicRoutes } from './dynamic.js';
 export { forwardRoutes } from './forward.js';
@@ -22,4 +25,5 @@ export { userSettingsRoutes } from './user-settings.js';
 export { usersRoutes } from './users.js';
 export { cleanupSettingsRoutes } from './cleanup-settings.js';
 export { backupRoutes } from './backup.js';
+export { transferRoutes } from './transfer.js';
 export { subjectRoutes } from './subjects.js';
@@ -19,7 +19,7 @@ interface GetLogsQuery {
   search?: string;
 }
 
-const VALID_CATEGORIES: LogCategory[] = ['email_forward', 'email_drop', 'admin_action', 'system'];
+const VALID_CATEGORIES: LogCategory[] = ['email_forward', 'email_drop', 'email_reject', 'email_shadow', 'admin_action', 'system'];
 const VALID_LEVELS: LogLevel[] = ['info', 'warn', 'error'];
 
 export async function logsRoutes(fastify: FastifyInstance): Promise<void> {
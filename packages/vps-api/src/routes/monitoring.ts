@@ -11,6 +11,7 @@ import type {
   UpdateMonitoringRuleDTO,
   AlertFilter,
   EmailMetadata,
+  SubjectMatchMode,
 } from '@email-filter/shared';
 import { getDatabase } from '../db/index.js';
 import { MonitoringRuleRepository } from '../db/monitoring-rule-repository.js';
@@ -23,7 +24,11 @@ import {
   HitProcessor,
   HeartbeatService,
 } from '../services/monitoring/index.js';
-import { authMiddleware } from '../middleware/auth.js';
+import { createAuthMiddleware, type AuthenticatedRequest } from '../middleware/auth.js';
+import { config } from '../config.js';
+import { UserService } from '../services/user.service.js';
+import { AuthService } from '../services/auth.service.js';
+import { RuleHistoryService, RuleRevertError, getHistoryActor } from '../services/rule-history.service.js';
 
 // ============================================================================
 // Request Type Definitions
@@ -33,6 +38,16 @@ interface RuleParams {
   id: string;
 }
 
+interface RuleVersionParams {
+  id: string;
+  version: string;
+}
+
+interface RuleDiffQuery {
+  from?: string;
+  to?: string;
+}
+
 interface StatusParams {
   ruleId: string;
 }
@@ -60,7 +75,22 @@ interface GetAlertsQuery {
 // Validation Helpers
 // ============================================================================
 
-function validateCreateRuleBody(body: unknown): { valid: boolean; error?: string; data?: CreateMonitoringRuleDTO } {
+const VALID_MATCH_MODES: SubjectMatchMode[] = ['exact', 'contains', 'startsWith', 'endsWith', 'regex'];
+
+/**
+ * Validate the optional matchMode and normalize fields shared by create and update
+ */
+function validateMatchOptions(data: Record<string, unknown>): string | null {
+  if (data.matchMode !== undefined && !VALID_MATCH_MODES.includes(data.matchMode as SubjectMatchMode)) {
+    return `matchMode must be one of: ${VALID_MATCH_MODES.join(', ')}`;
+  }
+  if (data.normalize !== undefined && typeof data.normalize !== 'boolean') {
+    return 'normalize must be a boolean';
+  }
+  return null;
+}
+
+export function validateCreateRuleBody(body: unknown): { valid: boolean; error?: string; data?: CreateMonitoringRuleDTO } {
   if (!body || typeof body !== 'object') {
     return { valid: false, error: 'Request body is required' };
   }
@@ -82,6 +112,10 @@ function validateCreateRuleBody(body: unknown): { valid: boolean; error?: string
   if (typeof data.deadAfterMinutes !== 'number' || !Number.isFinite(data.deadAfterMinutes) || data.deadAfterMinutes <= 0) {
     return { valid: false, error: 'deadAfterMinutes must be a positive number' };
   }
+  const matchOptionsError = validateMatchOptions(data);
+  if (matchOptionsError) {
+    return { valid: false, error: matchOptionsError };
+  }
 
   // Parse tags
   let tags: string[] = [];
@@ -99,6 +133,8 @@ function validateCreateRuleBody(body: unknown): { valid: boolean; error?: string
       merchant: data.merchant as string,
       name: data.name as string,
       subjectPattern: data.subjectPattern as string,
+      matchMode: data.matchMode as SubjectMatchMode | undefined,
+      normalize: data.normalize as boolean | undefined,
       expectedIntervalMinutes: data.expectedIntervalMinutes as number,
       deadAfterMinutes: data.deadAfterMinutes as number,
       tags,
@@ -134,6 +170,16 @@ function validateUpdateRuleBody(body: unknown): { valid: boolean; error?: string
     }
     updateData.subjectPattern = data.subjectPattern;
   }
+  const matchOptionsError = validateMatchOptions(data);
+  if (matchOptionsError) {
+    return { valid: false, error: matchOptionsError };
+  }
+  if (data.matchMode !== undefined) {
+    updateData.matchMode = data.matchMode as SubjectMatchMode;
+  }
+  if (data.normalize !== undefined) {
+    updateData.normalize = data.normalize as boolean;
+  }
   if (data.expectedIntervalMinutes !== undefined) {
     if (typeof data.expectedIntervalMinutes !== 'number' || !Number.isFinite(data.expectedIntervalMinutes) || data.expectedIntervalMinutes <= 0) {
       return { valid: false, error: 'expectedIntervalMinutes must be a positive number' };
@@ -220,7 +266,10 @@ function validateEmailHitBody(body: unknown): { valid: boolean; error?: string;
  */
 export async function monitoringRoutes(fastify: FastifyInstance): Promise<void> {
   // Apply auth middleware to all routes
-  fastify.addHook('preHandler', authMiddleware);
+  // It attaches the JWT user to requests so rule changes record who made them
+  const authDb = getDatabase();
+  const authService = new AuthService(new UserService(authDb), authDb, config.jwtSecret, config.jwtExpiry);
+  fastify.addHook('preHandler', createAuthMiddleware(authService));
 
   // ============================================================================
   // Rule Management API (Requirements: 1.1, 1.2, 1.3, 1.4)
@@ -244,6 +293,7 @@ export async function monitoringRoutes(fastify: FastifyInstance): Promise<void>
       const ruleService = new MonitoringRuleService(ruleRepo);
 
       const rule = ruleService.createRule(validation.data);
+      new RuleHistoryService(db).record('monitoring', rule.id, 'create', null, rule, getHistoryActor((request as AuthenticatedRequest).user));
       return reply.status(201).send(rule);
     } catch (error) {
       if (error instanceof RuleValidationError) {
@@ -336,10 +386,12 @@ export async function monitoringRoutes(fastify: FastifyInstance): Promise<void>
       const ruleRepo = new MonitoringRuleRepository(db);
       const ruleService = new MonitoringRuleService(ruleRepo);
 
+      const existingRule = ruleService.getRule(request.params.id);
       const rule = ruleService.updateRule(request.params.id, validation.data!);
       if (!rule) {
         return reply.status(404).send({ error: 'Rule not found' });
       }
+      new RuleHistoryService(db).record('monitoring', rule.id, 'update', existingRule, rule, getHistoryActor((request as AuthenticatedRequest).user));
 
       return reply.send(rule);
     } catch (error) {
@@ -368,10 +420,12 @@ export async function monitoringRoutes(fastify: FastifyInstance): Promise<void>
       const ruleRepo = new MonitoringRuleRepository(db);
       const ruleService = new MonitoringRuleService(ruleRepo);
 
+      const existingRule = ruleService.getRule(request.params.id);
       const deleted = ruleService.deleteRule(request.params.id);
       if (!deleted) {
         return reply.status(404).send({ error: 'Rule not found' });
       }
+      new RuleHistoryService(db).record('monitoring', request.params.id, 'delete', existingRule, null, getHistoryActor((request as AuthenticatedRequest).user));
 
       return reply.status(204).send();
     } catch (error) {
@@ -392,10 +446,12 @@ export async function monitoringRoutes(fastify: FastifyInstance): Promise<void>
       const ruleRepo = new MonitoringRuleRepository(db);
       const ruleService = new MonitoringRuleService(ruleRepo);
 
+      const existingRule = ruleService.getRule(request.params.id);
       const rule = ruleService.toggleRule(request.params.id);
       if (!rule) {
         return reply.status(404).send({ error: 'Rule not found' });
       }
+      new RuleHistoryService(db).record('monitoring', rule.id, 'toggle', existingRule, rule, getHistoryActor((request as AuthenticatedRequest).user));
 
       return reply.send(rule);
     } catch (error) {
@@ -404,6 +460,71 @@ export async function monitoringRoutes(fastify: FastifyInstance): Promise<void>
     }
   });
 
+  /**
+   * GET /api/monitoring/rules/:id/history
+   * List the versions of a monitoring rule, newest first
+   */
+  fastify.get('/rules/:id/history', async (request: FastifyRequest<{ Params: RuleParams }>, reply: FastifyReply) => {
+    try {
+      const history = new RuleHistoryService(getDatabase()).getHistory('monitoring', request.params.id);
+      return reply.send({ history });
+    } catch (error) {
+      request.log.error(error, 'Error fetching monitoring rule history');
+      return reply.status(500).send({ error: 'Internal error' });
+    }
+  });
+
+  /**
+   * GET /api/monitoring/rules/:id/history/diff
+   * Compare the monitoring rule after two versions
+   * Query params: to (default: latest version), from (default: the version before to)
+   */
+  fastify.get('/rules/:id/history/diff', async (request: FastifyRequest<{ Params: RuleParams; Querystring: RuleDiffQuery }>, reply: FastifyReply) => {
+    const from = request.query.from !== undefined ? Number(request.query.from) : undefined;
+    const to = request.query.to !== undefined ? Number(request.query.to) : undefined;
+    if ((from !== undefined && !Number.isInteger(from)) || (to !== undefined && !Number.isInteger(to))) {
+      return reply.status(400).send({ error: 'Invalid request', message: 'from and to must be version numbers' });
+    }
+
+    try {
+      const diff = new RuleHistoryService(getDatabase()).diffVersions('monitoring', request.params.id, from, to);
+      if (!diff) {
+        return reply.status(404).send({ error: 'Version not found' });
+      }
+      return reply.send(diff);
+    } catch (error) {
+      request.log.error(error, 'Error diffing monitoring rule versions');
+      return reply.status(500).send({ error: 'Internal error' });
+    }
+  });
+
+  /**
+   * POST /api/monitoring/rules/:id/history/:version/revert
+   * Restore the monitoring rule as it was after a version, recreating it if it was deleted
+   */
+  fastify.post('/rules/:id/history/:version/revert', async (request: FastifyRequest<{ Params: RuleVersionParams }>, reply: FastifyReply) => {
+    const version = Number(request.params.version);
+    if (!Number.isInteger(version) || version < 1) {
+      return reply.status(400).send({ error: 'Invalid request', message: 'version must be a positive integer' });
+    }
+
+    try {
+      const { rule, entry } = new RuleHistoryService(getDatabase()).revertMonitoringRule(
+        request.params.id,
+        version,
+        getHistoryActor((request as AuthenticatedRequest).user)
+      );
+      return reply.send({ rule, version: entry.version });
+    } catch (error) {
+      if (error instanceof RuleRevertError) {
+        const status = error.code === 'VERSION_NOT_FOUND' ? 404 : 400;
+        return reply.status(status).send({ error: 'Cannot revert rule', message: error.message, code: error.code });
+      }
+      request.log.error(error, 'Error reverting monitoring rule');
+      return reply.status(500).send({ error: 'Internal error' });
+    }
+  });
+
 
   // ============================================================================
   // Status Query API (Requirements: 2.5, 6.1, 6.2)
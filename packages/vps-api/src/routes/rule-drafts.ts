@@ -0,0 +1,404 @@
+/**
+ * Rule Draft Routes
+ * Stage filter rule changes per worker, preview them, publish them together
+ * and roll published versions back
+ *
+ * Workers are addressed by ID; "global" addresses the global rules.
+ */
+
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import type { CreateRuleDTO, UpdateRuleDTO } from '@email-filter/shared';
+import { getDatabase } from '../db/index.js';
+import { RuleRepository } from '../db/rule-repository.js';
+import { WorkerRepository } from '../db/worker-repository.js';
+import { LogRepository } from '../db/log-repository.js';
+import { config } from '../config.js';
+import { createAuthMiddleware, type AuthenticatedRequest } from '../middleware/auth.js';
+import { UserService } from '../services/user.service.js';
+import { AuthService } from '../services/auth.service.js';
+import { getHistoryActor } from '../services/rule-history.service.js';
+import { RuleDraftService, RuleDraftError, type StagedRuleChange } from '../services/rule-draft.service.js';
+import type { RuleDraftOperation } from '../db/rule-draft-repository.js';
+import {
+  validateCreateRule,
+  validateUpdateRule,
+  validateMergedRuleUpdate,
+  DEFAULT_SIMULATION_SAMPLE_LIMIT,
+  MAX_SIMULATION_SAMPLE_LIMIT,
+} from './rules.js';
+
+const VALID_OPERATIONS: RuleDraftOperation[] = ['add', 'update', 'delete'];
+
+/** Emails replayed by a preview when no range is given, in days */
+const DEFAULT_PREVIEW_DAYS = 7;
+
+/** Path segment addressing the global rules */
+const GLOBAL_SCOPE = 'global';
+
+interface DraftParams {
+  workerId: string;
+}
+
+interface DraftChangeParams {
+  workerId: string;
+  changeId: string;
+}
+
+interface DraftVersionParams {
+  workerId: string;
+  version: string;
+}
+
+/**
+ * Resolve the worker path segment; undefined workerId means the global rules
+ * @returns null when the worker does not exist
+ */
+function resolveScope(param: string): { workerId?: string } | null {
+  if (param === GLOBAL_SCOPE) {
+    return {};
+  }
+  return new WorkerRepository(getDatabase()).findById(param) ? { workerId: param } : null;
+}
+
+function sendDraftError(reply: FastifyReply, error: RuleDraftError, action: string): FastifyReply {
+  let status = 400;
+  if (error.code === 'CHANGE_NOT_FOUND' || error.code === 'RULE_NOT_FOUND' || error.code === 'VERSION_NOT_FOUND') {
+    status = 404;
+  } else if (error.code === 'RULE_DELETED' || error.code === 'STALE_CHANGE' || error.code === 'DUPLICATE_RULE') {
+    status = 409;
+  }
+  return reply.status(status).send({ error: `Cannot ${action}`, message: error.message, code: error.code });
+}
+
+/**
+ * Register rule draft routes
+ */
+export async function ruleDraftRoutes(fastify: FastifyInstance): Promise<void> {
+  // It attaches the JWT user to requests so staged and published changes record who made them
+  const authDb = getDatabase();
+  const authService = new AuthService(new UserService(authDb), authDb, config.jwtSecret, config.jwtExpiry);
+  fastify.addHook('preHandler', createAuthMiddleware(authService));
+
+  /**
+   * GET /api/rules/drafts
+   * List the workers with staged changes
+   */
+  fastify.get('/', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const drafts = new RuleDraftService(getDatabase()).listDrafts();
+      return reply.send({ drafts });
+    } catch (error) {
+      request.log.error(error, 'Error listing rule drafts');
+      return reply.status(500).send({ error: 'Internal error' });
+    }
+  });
+
+  /**
+   * GET /api/rules/drafts/:workerId
+   * Get the changes staged for a worker and its latest published version
+   */
+  fastify.get('/:workerId', async (request: FastifyRequest<{ Params: DraftParams }>, reply: FastifyReply) => {
+    const scope = resolveScope(request.params.workerId);
+    if (!scope) {
+      return reply.status(404).send({ error: 'Worker not found' });
+    }
+
+    try {
+      return reply.send(new RuleDraftService(getDatabase()).getDraft(scope.workerId));
+    } catch (error) {
+      request.log.error(error, 'Error fetching rule draft');
+      return reply.status(500).send({ error: 'Internal error' });
+    }
+  });
+
+  /**
+   * POST /api/rules/drafts/:workerId/changes
+   * Stage an add, update or delete; nothing changes for the worker until the draft is published
+   * Body: { operation, ruleId (update/delete), rule (add: full rule, update: fields to change) }
+   * A change to a rule that already has one staged is merged into it.
+   */
+  fastify.post('/:workerId/changes', async (request: FastifyRequest<{ Params: DraftParams }>, reply: FastifyReply) => {
+    const scope = resolveScope(request.params.workerId);
+    if (!scope) {
+      return reply.status(404).send({ error: 'Worker not found' });
+    }
+
+    const body = (request.body || {}) as Record<string, unknown>;
+    const operation = body.operation as RuleDraftOperation;
+    if (!VALID_OPERATIONS.includes(operation)) {
+      return reply.status(400).send({ error: 'Invalid request', message: `operation must be one of: ${VALID_OPERATIONS.join(', ')}` });
+    }
+    if (operation !== 'add' && (typeof body.ruleId !== 'string' || !body.ruleId)) {
+      return reply.status(400).send({ error: 'Invalid request', message: 'ruleId is required' });
+    }
+
+    const change: StagedRuleChange = { operation, ruleId: operation === 'add' ? undefined : (body.ruleId as string) };
+    const rule = (body.rule || {}) as Record<string, unknown>;
+    if (operation === 'add') {
+      const validation = validateCreateRule(rule);
+      if (!validation.valid || !validation.data) {
+        return reply.status(400).send({ error: 'Invalid request', message: validation.error });
+      }
+      if (Array.isArray(rule.tags)) {
+        validation.data.tags = rule.tags.filter((t): t is string => typeof t === 'string');
+      }
+      change.payload = validation.data;
+    } else if (operation === 'update') {
+      if (rule.workerId !== undefined) {
+        return reply.status(400).send({ error: 'Invalid request', message: 'Rules cannot be moved to another worker in a draft' });
+      }
+      const validation = validateUpdateRule(rule);
+      if (!validation.valid || !validation.data) {
+        return reply.status(400).send({ error: 'Invalid request', message: validation.error });
+      }
+      change.payload = validation.data;
+    }
+
+    try {
+      const db = getDatabase();
+      const draftService = new RuleDraftService(db);
+
+      if (operation === 'add') {
+        if (new RuleRepository(db).findDuplicate(change.payload as CreateRuleDTO, scope.workerId)) {
+          return reply.status(409).send({ error: 'Duplicate rule', message: '相同的规则已存在' });
+        }
+      } else if (operation === 'update') {
+        const prepared = draftService.prepareChange(scope.workerId, change);
+        const mergedError = validateMergedRuleUpdate(prepared.change.payload as UpdateRuleDTO, prepared.rule);
+        if (mergedError) {
+          return reply.status(400).send({ error: 'Invalid request', message: mergedError });
+        }
+      }
+
+      const staged = draftService.stageChange(scope.workerId, change, getHistoryActor((request as AuthenticatedRequest).user));
+      return reply.status(201).send(staged);
+    } catch (error) {
+      if (error instanceof RuleDraftError) {
+        return sendDraftError(reply, error, 'stage change');
+      }
+      request.log.error(error, 'Error staging rule change');
+      return reply.status(500).send({ error: 'Internal error' });
+    }
+  });
+
+  /**
+   * DELETE /api/rules/drafts/:workerId/changes/:changeId
+   * Discard one staged change
+   */
+  fastify.delete('/:workerId/changes/:changeId', async (request: FastifyRequest<{ Params: DraftChangeParams }>, reply: FastifyReply) => {
+    const scope = resolveScope(request.params.workerId);
+    if (!scope) {
+      return reply.status(404).send({ error: 'Worker not found' });
+    }
+    const changeId = Number(request.params.changeId);
+    if (!Number.isInteger(changeId)) {
+      return reply.status(400).send({ error: 'Invalid request', message: 'changeId must be an integer' });
+    }
+
+    try {
+      new RuleDraftService(getDatabase()).discardChange(scope.workerId, changeId);
+      return reply.status(204).send();
+    } catch (error) {
+      if (error instanceof RuleDraftError) {
+        return sendDraftError(reply, error, 'discard change');
+      }
+      request.log.error(error, 'Error discarding rule change');
+      return reply.status(500).send({ error: 'Internal error' });
+    }
+  });
+
+  /**
+   * DELETE /api/rules/drafts/:workerId
+   * Discard every change staged for a worker
+   */
+  fastify.delete('/:workerId', async (request: FastifyRequest<{ Params: DraftParams }>, reply: FastifyReply) => {
+    const scope = resolveScope(request.params.workerId);
+    if (!scope) {
+      return reply.status(404).send({ error: 'Worker not found' });
+    }
+
+    try {
+      const db = getDatabase();
+      const discarded = new RuleDraftService(db).discardDraft(scope.workerId);
+      if (discarded > 0) {
+        const logRepository = new LogRepository(db);
+        logRepository.createAdminLog('丢弃规则草稿', {
+          action: 'discard',
+          entityType: 'rule_draft',
+          workerId: scope.workerId || null,
+          discarded,
+        }, scope.workerId || 'global');
+      }
+      return reply.send({ discarded });
+    } catch (error) {
+      request.log.error(error, 'Error discarding rule draft');
+      return reply.status(500).send({ error: 'Internal error' });
+    }
+  });
+
+  /**
+   * POST /api/rules/drafts/:workerId/preview
+   * Show each staged change against the published rule and replay the emails
+   * logged in a time range against the draft
+   * Body: { from?, to?, sampleLimit? } - defaults to the last 7 days
+   */
+  fastify.post('/:workerId/preview', async (request: FastifyRequest<{ Params: DraftParams }>, reply: FastifyReply) => {
+    const scope = resolveScope(request.params.workerId);
+    if (!scope) {
+      return reply.status(404).send({ error: 'Worker not found' });
+    }
+
+    const body = (request.body || {}) as Record<string, unknown>;
+    const to = typeof body.to === 'string' ? new Date(body.to) : new Date();
+    const from = typeof body.from === 'string'
+      ? new Date(body.from)
+      : new Date(to.getTime() - DEFAULT_PREVIEW_DAYS * 24 * 60 * 60 * 1000);
+    if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+      return reply.status(400).send({ error: 'Invalid request', message: 'from and to must be ISO date strings' });
+    }
+    if (to.getTime() <= from.getTime()) {
+      return reply.status(400).send({ error: 'Invalid request', message: 'to must be after from' });
+    }
+    let sampleLimit = DEFAULT_SIMULATION_SAMPLE_LIMIT;
+    if (body.sampleLimit !== undefined) {
+      if (!Number.isInteger(body.sampleLimit) || (body.sampleLimit as number) < 0) {
+        return reply.status(400).send({ error: 'Invalid request', message: 'sampleLimit must be a non-negative integer' });
+      }
+      sampleLimit = Math.min(body.sampleLimit as number, MAX_SIMULATION_SAMPLE_LIMIT);
+    }
+
+    try {
+      const preview = new RuleDraftService(getDatabase()).preview(scope.workerId, { from, to, sampleLimit });
+      return reply.send(preview);
+    } catch (error) {
+      request.log.error(error, 'Error previewing rule draft');
+      return reply.status(500).send({ error: 'Internal error' });
+    }
+  });
+
+  /**
+   * POST /api/rules/drafts/:workerId/publish
+   * Apply every staged change in one transaction and store the result as a new version
+   */
+  fastify.post('/:workerId/publish', async (request: FastifyRequest<{ Params: DraftParams }>, reply: FastifyReply) => {
+    const scope = resolveScope(request.params.workerId);
+    if (!scope) {
+      return reply.status(404).send({ error: 'Worker not found' });
+    }
+
+    try {
+      const db = getDatabase();
+      const { version, applied } = new RuleDraftService(db).publish(
+        scope.workerId,
+        getHistoryActor((request as AuthenticatedRequest).user)
+      );
+
+      const logRepository = new LogRepository(db);
+      logRepository.createAdminLog('发布规则草稿', {
+        action: 'publish',
+        entityType: 'rule_set',
+        workerId: scope.workerId || null,
+        version: version.version,
+        changes: applied,
+      }, scope.workerId || 'global');
+
+      return reply.send({ version: version.version, applied });
+    } catch (error) {
+      if (error instanceof RuleDraftError) {
+        return sendDraftError(reply, error, 'publish draft');
+      }
+      request.log.error(error, 'Error publishing rule draft');
+      return reply.status(500).send({ error: 'Internal error' });
+    }
+  });
+
+  /**
+   * GET /api/rules/drafts/:workerId/versions
+   * List the published versions of a worker's rules, newest first
+   */
+  fastify.get('/:workerId/versions', async (request: FastifyRequest<{ Params: DraftParams }>, reply: FastifyReply) => {
+    const scope = resolveScope(request.params.workerId);
+    if (!scope) {
+      return reply.status(404).send({ error: 'Worker not found' });
+    }
+
+    try {
+      const versions = new RuleDraftService(getDatabase()).getVersions(scope.workerId).map(({ rules, ...version }) => ({
+        ...version,
+        ruleCount: rules.length,
+      }));
+      return reply.send({ versions });
+    } catch (error) {
+      request.log.error(error, 'Error fetching rule set versions');
+      return reply.status(500).send({ error: 'Internal error' });
+    }
+  });
+
+  /**
+   * GET /api/rules/drafts/:workerId/versions/:version
+   * Get a published version with the rules it had
+   */
+  fastify.get('/:workerId/versions/:version', async (request: FastifyRequest<{ Params: DraftVersionParams }>, reply: FastifyReply) => {
+    const scope = resolveScope(request.params.workerId);
+    if (!scope) {
+      return reply.status(404).send({ error: 'Worker not found' });
+    }
+    const versionNumber = Number(request.params.version);
+    if (!Number.isInteger(versionNumber) || versionNumber < 1) {
+      return reply.status(400).send({ error: 'Invalid request', message: 'version must be a positive integer' });
+    }
+
+    try {
+      const version = new RuleDraftService(getDatabase()).getVersion(scope.workerId, versionNumber);
+      if (!version) {
+        return reply.status(404).send({ error: 'Version not found' });
+      }
+      return reply.send(version);
+    } catch (error) {
+      request.log.error(error, 'Error fetching rule set version');
+      return reply.status(500).send({ error: 'Internal error' });
+    }
+  });
+
+  /**
+   * POST /api/rules/drafts/:workerId/versions/:version/rollback
+   * Return a worker's rules to a published version in one transaction
+   */
+  fastify.post('/:workerId/versions/:version/rollback', async (request: FastifyRequest<{ Params: DraftVersionParams }>, reply: FastifyReply) => {
+    const scope = resolveScope(request.params.workerId);
+    if (!scope) {
+      return reply.status(404).send({ error: 'Worker not found' });
+    }
+    const versionNumber = Number(request.params.version);
+    if (!Number.isInteger(versionNumber) || versionNumber < 1) {
+      return reply.status(400).send({ error: 'Invalid request', message: 'version must be a positive integer' });
+    }
+
+    try {
+      const db = getDatabase();
+      const { version, applied } = new RuleDraftService(db).rollback(
+        scope.workerId,
+        versionNumber,
+        getHistoryActor((request as AuthenticatedRequest).user)
+      );
+
+      const logRepository = new LogRepository(db);
+      logRepository.createAdminLog('回滚规则集', {
+        action: 'rollback',
+        entityType: 'rule_set',
+        workerId: scope.workerId || null,
+        rolledBackTo: versionNumber,
+        version: version.version,
+        changes: applied,
+      }, scope.workerId || 'global');
+
+      return reply.send({ version: version.version, applied });
+    } catch (error) {
+      if (error instanceof RuleDraftError) {
+        return sendDraftError(reply, error, 'roll back');
+      }
+      request.log.error(error, 'Error rolling back rule set');
+      return reply.status(500).send({ error: 'Internal error' });
+    }
+  });
+}
@@ -0,0 +1,344 @@
+/**
+ * Rule Set Routes
+ * Manage shared rule sets, attach them to workers and override inherited rules per worker
+ *
+ * Rules are added to a set through /api/rules with a ruleSetId.
+ */
+
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { getDatabase } from '../db/index.js';
+import { LogRepository } from '../db/log-repository.js';
+import { config } from '../config.js';
+import { createAuthMiddleware, type AuthenticatedRequest } from '../middleware/auth.js';
+import { UserService } from '../services/user.service.js';
+import { AuthService } from '../services/auth.service.js';
+import { getHistoryActor } from '../services/rule-history.service.js';
+import { RuleSetService, RuleSetError } from '../services/rule-set.service.js';
+
+/** Maximum length of a rule set name */
+const MAX_NAME_LENGTH = 100;
+
+/** Maximum length of a rule set description */
+const MAX_DESCRIPTION_LENGTH = 500;
+
+interface RuleSetParams {
+  id: string;
+}
+
+interface WorkerParams {
+  workerId: string;
+}
+
+interface OverrideParams {
+  workerId: string;
+  ruleId: string;
+}
+
+/**
+ * Validate the name and description of a rule set
+ * @param partial - Whether fields may be left out (update)
+ */
+function validateRuleSetInput(
+  body: Record<string, unknown>,
+  partial: boolean
+): { error?: string; data?: { name?: string; description?: string | null } } {
+  const data: { name?: string; description?: string | null } = {};
+
+  if (body.name !== undefined || !partial) {
+    if (typeof body.name !== 'string' || !body.name.trim()) {
+      return { error: 'name is required' };
+    }
+    if (body.name.trim().length > MAX_NAME_LENGTH) {
+      return { error: `name cannot exceed ${MAX_NAME_LENGTH} characters` };
+    }
+    data.name = body.name.trim();
+  }
+
+  if (body.description !== undefined && body.description !== null) {
+    if (typeof body.description !== 'string') {
+      return { error: 'description must be a string' };
+    }
+    if (body.description.length > MAX_DESCRIPTION_LENGTH) {
+      return { error: `description cannot exceed ${MAX_DESCRIPTION_LENGTH} characters` };
+    }
+    data.description = body.description;
+  } else if (body.description === null) {
+    data.description = null;
+  }
+
+  return { data };
+}
+
+/**
+ * Validate a list of worker IDs
+ */
+function validateWorkerIds(value: unknown): string[] | null {
+  if (!Array.isArray(value) || !value.every((item) => typeof item === 'string' && item)) {
+    return null;
+  }
+  return value as string[];
+}
+
+function sendRuleSetError(reply: FastifyReply, error: RuleSetError, action: string): FastifyReply {
+  let status = 400;
+  if (error.code === 'NOT_FOUND' || error.code === 'WORKER_NOT_FOUND' || error.code === 'RULE_NOT_FOUND') {
+    status = 404;
+  } else if (error.code === 'DUPLICATE_NAME') {
+    status = 409;
+  }
+  return reply.status(status).send({ error: `Cannot ${action}`, message: error.message, code: error.code });
+}
+
+/**
+ * Register rule set routes
+ */
+export async function ruleSetRoutes(fastify: FastifyInstance): Promise<void> {
+  // It attaches the JWT user to requests so rule deletions record who made them
+  const authDb = getDatabase();
+  const authService = new AuthService(new UserService(authDb), authDb, config.jwtSecret, config.jwtExpiry);
+  fastify.addHook('preHandler', createAuthMiddleware(authService));
+
+  /**
+   * GET /api/rule-sets
+   * List rule sets with the workers they are attached to
+   */
+  fastify.get('/', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const ruleSets = new RuleSetService(getDatabase()).listRuleSets();
+      return reply.send({ ruleSets });
+    } catch (error) {
+      request.log.error(error, 'Error listing rule sets');
+      return reply.status(500).send({ error: 'Internal error' });
+    }
+  });
+
+  /**
+   * POST /api/rule-sets
+   * Create a rule set
+   * Body: { name, description?, workerIds? }
+   */
+  fastify.post('/', async (request: FastifyRequest, reply: FastifyReply) => {
+    const body = (request.body || {}) as Record<string, unknown>;
+    const validation = validateRuleSetInput(body, false);
+    if (validation.error || !validation.data) {
+      return reply.status(400).send({ error: 'Invalid request', message: validation.error });
+    }
+    const workerIds = body.workerIds === undefined ? [] : validateWorkerIds(body.workerIds);
+    if (!workerIds) {
+      return reply.status(400).send({ error: 'Invalid request', message: 'workerIds must be an array of worker IDs' });
+    }
+
+    try {
+      const db = getDatabase();
+      const ruleSet = new RuleSetService(db).create({
+        name: validation.data.name!,
+        description: validation.data.description || undefined,
+        workerIds,
+      });
+
+      new LogRepository(db).createAdminLog('创建规则集', {
+        action: 'create',
+        entityType: 'ruleSet',
+        entityId: ruleSet.id,
+        name: ruleSet.name,
+        workerIds: ruleSet.workerIds,
+      }, 'global');
+
+      return reply.status(201).send(ruleSet);
+    } catch (error) {
+      if (error instanceof RuleSetError) {
+        return sendRuleSetError(reply, error, 'create rule set');
+      }
+      request.log.error(error, 'Error creating rule set');
+      return reply.status(500).send({ error: 'Internal error' });
+    }
+  });
+
+  /**
+   * GET /api/rule-sets/workers/:workerId/effective
+   * Get a worker's effective rules: global rules, rules of its attached sets and
+   * its own rules, each with its source and whether the worker overrides it
+   */
+  fastify.get('/workers/:workerId/effective', async (request: FastifyRequest<{ Params: WorkerParams }>, reply: FastifyReply) => {
+    try {
+      const effective = new RuleSetService(getDatabase()).getEffectiveRules(request.params.workerId);
+      return reply.send({ workerId: request.params.workerId, ...effective });
+    } catch (error) {
+      if (error instanceof RuleSetError) {
+        return sendRuleSetError(reply, error, 'get effective rules');
+      }
+      request.log.error(error, 'Error fetching effective rules');
+      return reply.status(500).send({ error: 'Internal error' });
+    }
+  });
+
+  /**
+   * PUT /api/rule-sets/workers/:workerId/overrides/:ruleId
+   * Disable an inherited (global or rule set) rule for one worker
+   */
+  fastify.put('/workers/:workerId/overrides/:ruleId', async (request: FastifyRequest<{ Params: OverrideParams }>, reply: FastifyReply) => {
+    try {
+      const db = getDatabase();
+      const { workerId, ruleId } = request.params;
+      const rule = new RuleSetService(db).setOverride(workerId, ruleId, true);
+
+      new LogRepository(db).createAdminLog('停用继承规则', {
+        action: 'override',
+        entityType: 'rule',
+        entityId: rule.id,
+        pattern: rule.pattern,
+        ruleSetId: rule.ruleSetId || null,
+      }, workerId);
+
+      return reply.send({ workerId, ruleId, overridden: true });
+    } catch (error) {
+      if (error instanceof RuleSetError) {
+        return sendRuleSetError(reply, error, 'override rule');
+      }
+      request.log.error(error, 'Error overriding rule');
+      return reply.status(500).send({ error: 'Internal error' });
+    }
+  });
+
+  /**
+   * DELETE /api/rule-sets/workers/:workerId/overrides/:ruleId
+   * Re-enable an inherited rule for one worker
+   */
+  fastify.delete('/workers/:workerId/overrides/:ruleId', async (request: FastifyRequest<{ Params: OverrideParams }>, reply: FastifyReply) => {
+    try {
+      const db = getDatabase();
+      const { workerId, ruleId } = request.params;
+      const rule = new RuleSetService(db).setOverride(workerId, ruleId, false);
+
+      new LogRepository(db).createAdminLog('恢复继承规则', {
+        action: 'removeOverride',
+        entityType: 'rule',
+        entityId: rule.id,
+        pattern: rule.pattern,
+        ruleSetId: rule.ruleSetId || null,
+      }, workerId);
+
+      return reply.send({ workerId, ruleId, overridden: false });
+    } catch (error) {
+      if (error instanceof RuleSetError) {
+        return sendRuleSetError(reply, error, 'remove override');
+      }
+      request.log.error(error, 'Error removing rule override');
+      return reply.status(500).send({ error: 'Internal error' });
+    }
+  });
+
+  /**
+   * GET /api/rule-sets/:id
+   * Get a rule set with its rules
+   */
+  fastify.get('/:id', async (request: FastifyRequest<{ Params: RuleSetParams }>, reply: FastifyReply) => {
+    try {
+      return reply.send(new RuleSetService(getDatabase()).getRuleSet(request.params.id));
+    } catch (error) {
+      if (error instanceof RuleSetError) {
+        return sendRuleSetError(reply, error, 'get rule set');
+      }
+      request.log.error(error, 'Error fetching rule set');
+      return reply.status(500).send({ error: 'Internal error' });
+    }
+  });
+
+  /**
+   * PUT /api/rule-sets/:id
+   * Rename a rule set or change its description
+   */
+  fastify.put('/:id', async (request: FastifyRequest<{ Params: RuleSetParams }>, reply: FastifyReply) => {
+    const validation = validateRuleSetInput((request.body || {}) as Record<string, unknown>, true);
+    if (validation.error || !validation.data) {
+      return reply.status(400).send({ error: 'Invalid request', message: validation.error });
+    }
+
+    try {
+      const db = getDatabase();
+      const ruleSet = new RuleSetService(db).update(request.params.id, validation.data);
+
+      new LogRepository(db).createAdminLog('更新规则集', {
+        action: 'update',
+        entityType: 'ruleSet',
+        entityId: ruleSet.id,
+        name: ruleSet.name,
+      }, 'global');
+
+      return reply.send(ruleSet);
+    } catch (error) {
+      if (error instanceof RuleSetError) {
+        return sendRuleSetError(reply, error, 'update rule set');
+      }
+      request.log.error(error, 'Error updating rule set');
+      return reply.status(500).send({ error: 'Internal error' });
+    }
+  });
+
+  /**
+   * PUT /api/rule-sets/:id/workers
+   * Attach a rule set to exactly the given workers
+   * Body: { workerIds }
+   */
+  fastify.put('/:id/workers', async (request: FastifyRequest<{ Params: RuleSetParams }>, reply: FastifyReply) => {
+    const workerIds = validateWorkerIds(((request.body || {}) as Record<string, unknown>).workerIds);
+    if (!workerIds) {
+      return reply.status(400).send({ error: 'Invalid request', message: 'workerIds must be an array of worker IDs' });
+    }
+
+    try {
+      const db = getDatabase();
+      const service = new RuleSetService(db);
+      const before = service.getRuleSet(request.params.id).workerIds;
+      const ruleSet = service.setWorkers(request.params.id, workerIds);
+
+      new LogRepository(db).createAdminLog('更新规则集关联 Worker', {
+        action: 'attach',
+        entityType: 'ruleSet',
+        entityId: ruleSet.id,
+        name: ruleSet.name,
+        before,
+        after: ruleSet.workerIds,
+      }, 'global');
+
+      return reply.send(ruleSet);
+    } catch (error) {
+      if (error instanceof RuleSetError) {
+        return sendRuleSetError(reply, error, 'attach rule set');
+      }
+      request.log.error(error, 'Error attaching rule set');
+      return reply.status(500).send({ error: 'Internal error' });
+    }
+  });
+
+  /**
+   * DELETE /api/rule-sets/:id
+   * Delete a rule set and its rules
+   */
+  fastify.delete('/:id', async (request: FastifyRequest<{ Params: RuleSetParams }>, reply: FastifyReply) => {
+    try {
+      const db = getDatabase();
+      const { ruleSet, rules } = new RuleSetService(db).delete(
+        request.params.id,
+        getHistoryActor((request as AuthenticatedRequest).user)
+      );
+
+      new LogRepository(db).createAdminLog('删除规则集', {
+        action: 'delete',
+        entityType: 'ruleSet',
+        entityId: ruleSet.id,
+        name: ruleSet.name,
+        workerIds: ruleSet.workerIds,
+        deletedRules: rules.length,
+      }, 'global');
+
+      return reply.status(204).send();
+    } catch (error) {
+      if (error instanceof RuleSetError) {
+        return sendRuleSetError(reply, error, 'delete rule set');
+      }
+      request.log.error(error, 'Error deleting rule set');
+      return reply.status(500).send({ error: 'Internal error' });
+    }
+  });
+}
@@ -0,0 +1,236 @@
+/**
+ * Rule Suggestion Routes
+ * Blacklist rule candidates mined from traffic that is still being forwarded,
+ * accepted as rules or dismissed for good
+ */
+
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { getDatabase } from '../db/index.js';
+import { LogRepository } from '../db/log-repository.js';
+import { WorkerRepository } from '../db/worker-repository.js';
+import { config } from '../config.js';
+import { createAuthMiddleware, type AuthenticatedRequest } from '../middleware/auth.js';
+import { UserService } from '../services/user.service.js';
+import { AuthService } from '../services/auth.service.js';
+import { getHistoryActor } from '../services/rule-history.service.js';
+import {
+  RuleSuggestionService,
+  DEFAULT_SUGGESTION_HOURS,
+  DEFAULT_SUGGESTION_MIN_COUNT,
+  DEFAULT_SUGGESTION_LIMIT,
+  type AcceptRuleSuggestionInput,
+} from '../services/rule-suggestion.service.js';
+import { validateCreateRule } from './rules.js';
+
+/** Maximum time window scanned for suggestions, in hours (30 days) */
+const MAX_SUGGESTION_HOURS = 720;
+
+/** Maximum number of suggestions returned */
+const MAX_SUGGESTION_LIMIT = 200;
+
+interface SuggestionsQuery {
+  hours?: string;
+  minCount?: string;
+  limit?: string;
+  workerName?: string;
+}
+
+interface DismissalParams {
+  id: string;
+}
+
+/**
+ * Parse a positive integer query option, null when invalid
+ */
+function parsePositiveInt(value: string | undefined, fallback: number, max: number): number | null {
+  if (value === undefined || value === '') {
+    return fallback;
+  }
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed >= 1 && parsed <= max ? parsed : null;
+}
+
+/**
+ * Validate the rule a suggestion stands for, with the same checks as a new blacklist rule
+ */
+function validateSuggestedRule(body: unknown): { error?: string; data?: AcceptRuleSuggestionInput } {
+  const data = (body || {}) as Record<string, unknown>;
+  const validation = validateCreateRule({
+    category: 'blacklist',
+    matchType: data.matchType,
+    matchMode: data.matchMode,
+    pattern: data.pattern,
+    normalize: data.normalize,
+  });
+  if (!validation.valid || !validation.data) {
+    return { error: validation.error };
+  }
+  if (data.workerId !== undefined && data.workerId !== null && typeof data.workerId !== 'string') {
+    return { error: 'workerId must be a string' };
+  }
+  return {
+    data: {
+      matchType: validation.data.matchType,
+      matchMode: validation.data.matchMode,
+      pattern: validation.data.pattern,
+      normalize: validation.data.normalize,
+      workerId: (data.workerId as string | null | undefined) || undefined,
+    },
+  };
+}
+
+/**
+ * Register rule suggestion routes
+ */
+export async function ruleSuggestionRoutes(fastify: FastifyInstance): Promise<void> {
+  // It attaches the JWT user to requests so accepted rules record who created them
+  const authDb = getDatabase();
+  const authService = new AuthService(new UserService(authDb), authDb, config.jwtSecret, config.jwtExpiry);
+  fastify.addHook('preHandler', createAuthMiddleware(authService));
+
+  /**
+   * GET /api/rule-suggestions
+   * Rank blacklist rule candidates from emails forwarded by default
+   * Query: hours? (default 168), minCount? (default 5), limit? (default 50), workerName?
+   */
+  fastify.get('/', async (request: FastifyRequest<{ Querystring: SuggestionsQuery }>, reply: FastifyReply) => {
+    const hours = parsePositiveInt(request.query.hours, DEFAULT_SUGGESTION_HOURS, MAX_SUGGESTION_HOURS);
+    const minCount = parsePositiveInt(request.query.minCount, DEFAULT_SUGGESTION_MIN_COUNT, Number.MAX_SAFE_INTEGER);
+    const limit = parsePositiveInt(request.query.limit, DEFAULT_SUGGESTION_LIMIT, MAX_SUGGESTION_LIMIT);
+    if (hours === null || minCount === null || limit === null) {
+      return reply.status(400).send({
+        error: 'Invalid request',
+        message: `hours (1-${MAX_SUGGESTION_HOURS}), minCount and limit (1-${MAX_SUGGESTION_LIMIT}) must be positive integers`,
+      });
+    }
+
+    try {
+      const result = new RuleSuggestionService(getDatabase()).suggest(hours, {
+        minCount,
+        limit,
+        workerName: request.query.workerName || undefined,
+      });
+      return reply.send({ hours, ...result });
+    } catch (error) {
+      request.log.error(error, 'Error mining rule suggestions');
+      return reply.status(500).send({ error: 'Internal error' });
+    }
+  });
+
+  /**
+   * POST /api/rule-suggestions/accept
+   * Create the blacklist rule a suggestion stands for
+   * Body: { matchType, matchMode, pattern, normalize?, workerId? (global when unset) }
+   */
+  fastify.post('/accept', async (request: FastifyRequest, reply: FastifyReply) => {
+    const validation = validateSuggestedRule(request.body);
+    if (validation.error || !validation.data) {
+      return reply.status(400).send({ error: 'Invalid request', message: validation.error });
+    }
+    const input = validation.data;
+
+    try {
+      const db = getDatabase();
+      if (input.workerId && !new WorkerRepository(db).findById(input.workerId)) {
+        return reply.status(404).send({ error: 'Not found', message: `Worker ${input.workerId} not found` });
+      }
+
+      const rule = new RuleSuggestionService(db).accept(input, getHistoryActor((request as AuthenticatedRequest).user));
+
+      new LogRepository(db).createAdminLog('采纳规则建议', {
+        action: 'create',
+        entityType: 'rule',
+        entityId: rule.id,
+        rule: {
+          category: rule.category,
+          matchType: rule.matchType,
+          matchMode: rule.matchMode,
+          pattern: rule.pattern,
+          normalize: rule.normalize ?? false,
+          workerId: input.workerId || null,
+        },
+      }, input.workerId || 'global');
+
+      return reply.status(201).send(rule);
+    } catch (error: any) {
+      if (error.message === 'DUPLICATE_RULE') {
+        return reply.status(409).send({ error: 'Duplicate rule', message: '相同的规则已存在' });
+      }
+      request.log.error(error, 'Error accepting rule suggestion');
+      return reply.status(500).send({ error: 'Internal error' });
+    }
+  });
+
+  /**
+   * POST /api/rule-suggestions/dismiss
+   * Dismiss a suggestion so it is never suggested again
+   * Body: { matchType, matchMode, pattern }
+   */
+  fastify.post('/dismiss', async (request: FastifyRequest, reply: FastifyReply) => {
+    const validation = validateSuggestedRule(request.body);
+    if (validation.error || !validation.data) {
+      return reply.status(400).send({ error: 'Invalid request', message: validation.error });
+    }
+    const { matchType, matchMode, pattern } = validation.data;
+
+    try {
+      const db = getDatabase();
+      const dismissal = new RuleSuggestionService(db).dismiss(
+        { matchType, matchMode, pattern },
+        getHistoryActor((request as AuthenticatedRequest).user)
+      );
+
+      new LogRepository(db).createAdminLog('忽略规则建议', {
+        action: 'dismiss',
+        entityType: 'ruleSuggestion',
+        entityId: dismissal.id,
+        matchType,
+        matchMode,
+        pattern,
+      }, 'global');
+
+      return reply.status(201).send(dismissal);
+    } catch (error) {
+      request.log.error(error, 'Error dismissing rule suggestion');
+      return reply.status(500).send({ error: 'Internal error' });
+    }
+  });
+
+  /**
+   * GET /api/rule-suggestions/dismissals
+   * List dismissed suggestions
+   */
+  fastify.get('/dismissals', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const dismissals = new RuleSuggestionService(getDatabase()).listDismissals();
+      return reply.send({ dismissals });
+    } catch (error) {
+      request.log.error(error, 'Error listing dismissed rule suggestions');
+      return reply.status(500).send({ error: 'Internal error' });
+    }
+  });
+
+  /**
+   * DELETE /api/rule-suggestions/dismissals/:id
+   * Undo a dismissal so the suggestion can come back
+   */
+  fastify.delete('/dismissals/:id', async (request: FastifyRequest<{ Params: DismissalParams }>, reply: FastifyReply) => {
+    try {
+      const db = getDatabase();
+      if (!new RuleSuggestionService(db).restore(request.params.id)) {
+        return reply.status(404).send({ error: 'Not found', message: 'Dismissal not found' });
+      }
+
+      new LogRepository(db).createAdminLog('恢复规则建议', {
+        action: 'restore',
+        entityType: 'ruleSuggestion',
+        entityId: request.params.id,
+      }, 'global');
+
+      return reply.status(204).send();
+    } catch (error) {
+      request.log.error(error, 'Error restoring rule suggestion');
+      return reply.status(500).send({ error: 'Internal error' });
+    }
+  });
+}
@@ -6,23 +6,336 @@
  */
 
 import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
-import type { CreateRuleDTO, UpdateRuleDTO, RuleCategory } from '@email-filter/shared';
-import { RuleRepository } from '../db/rule-repository.js';
+import type {
+  CreateRuleDTO,
+  UpdateRuleDTO,
+  RuleCategory,
+  RuleCondition,
+  RuleConditionGroup,
+  RuleConditionNode,
+  RuleAction,
+  RuleMode,
+  RuleTimeWindow,
+} from '@email-filter/shared';
+import {
+  isConditionGroup,
+  describeConditions,
+  parseHeaderPattern,
+  isValidTimeWindow,
+  isValidTimeZone,
+  analyzeRegex,
+  getRegistrableDomain,
+} from '@email-filter/shared';
+import { RuleRepository, type FilterRuleWithWorker } from '../db/rule-repository.js';
 import { StatsRepository } from '../db/stats-repository.js';
 import { LogRepository } from '../db/log-repository.js';
 import { getDatabase } from '../db/index.js';
-import { authMiddleware } from '../middleware/auth.js';
+import { config } from '../config.js';
+import { createAuthMiddleware, type AuthenticatedRequest } from '../middleware/auth.js';
+import { UserService } from '../services/user.service.js';
+import { AuthService } from '../services/auth.service.js';
 import { getRuleCache } from '../services/rule-cache.instance.js';
+import { RuleSimulationService, type RuleChangeSet } from '../services/rule-simulation.service.js';
+import { RegexAuditService } from '../services/regex-audit.service.js';
+import { RuleHistoryService, RuleRevertError, getHistoryActor } from '../services/rule-history.service.js';
+import { RuleSetService } from '../services/rule-set.service.js';
+import {
+  RuleBulkService,
+  RuleBulkError,
+  type RuleBulkAction,
+  type RuleBulkFilter,
+  type RuleBulkOperation,
+} from '../services/rule-bulk.service.js';
+import { RuleAnalysisService, RuleAnalysisError, DEFAULT_STALE_DAYS } from '../services/rule-analysis.service.js';
+import { WorkerRepository } from '../db/worker-repository.js';
 
 // Valid values for validation
 const VALID_CATEGORIES: RuleCategory[] = ['whitelist', 'blacklist', 'dynamic'];
-const VALID_MATCH_TYPES = ['sender', 'subject', 'domain'];
-const VALID_MATCH_MODES = ['exact', 'contains', 'startsWith', 'endsWith', 'regex'];
+const VALID_MATCH_TYPES = [
+  'sender',
+  'subject',
+  'domain',
+  'recipient',
+  'recipientDomain',
+  'header',
+  'spf',
+  'dkim',
+  'dmarc',
+];
+const VALID_MATCH_MODES = ['exact', 'contains', 'startsWith', 'endsWith', 'regex', 'domainTree'];
+/** Match types holding an address or domain, the only ones a domainTree pattern applies to */
+const DOMAIN_TREE_MATCH_TYPES = ['sender', 'domain', 'recipient', 'recipientDomain'];
+const VALID_OPERATORS = ['and', 'or'];
+const VALID_ACTIONS: RuleAction[] = ['drop', 'reject'];
+const VALID_MODES: RuleMode[] = ['active', 'shadow'];
+
+/** Maximum length of a per-rule SMTP rejection reason */
+const MAX_REJECT_REASON_LENGTH = 200;
+
+/** Maximum number of forward destinations on a whitelist rule */
+const MAX_FORWARD_DESTINATIONS = 10;
+
+/** Maximum nesting depth of a compound rule condition tree */
+const MAX_CONDITION_DEPTH = 5;
+
+/** Maximum number of weekly time windows on a rule */
+const MAX_TIME_WINDOWS = 20;
+
+/** Default and maximum number of emails listed per rule in the shadow report */
+const DEFAULT_SHADOW_REPORT_LIMIT = 20;
+const MAX_SHADOW_REPORT_LIMIT = 200;
+
+/** Maximum number of days without a hit the rule analysis accepts for stale rules */
+const MAX_ANALYSIS_STALE_DAYS = 3650;
+
+/** Default and maximum number of flipped emails returned by a simulation */
+export const DEFAULT_SIMULATION_SAMPLE_LIMIT = 100;
+export const MAX_SIMULATION_SAMPLE_LIMIT = 1000;
+
+/**
+ * Validate that header rules use the "Header-Name: pattern" format
+ * Returns an error message, or null when the pattern is valid for the match type
+ */
+function validateHeaderPattern(matchType: unknown, pattern: string): string | null {
+  if (matchType !== 'header') {
+    return null;
+  }
+  const parsed = parseHeaderPattern(pattern);
+  if (!parsed || parsed.pattern === '') {
+    return 'header patterns must be written as "Header-Name: pattern"';
+  }
+  return null;
+}
+
+/**
+ * Validate a domainTree pattern: an address field and a domain below a public suffix
+ * ("shop.com", "shop.co.uk"), since a bare suffix like "co.uk" would match every domain under it
+ * Returns an error message, or null when the pattern is valid
+ */
+export function validateDomainTreePattern(matchType: unknown, pattern: string): string | null {
+  if (!DOMAIN_TREE_MATCH_TYPES.includes(matchType as string)) {
+    return `domainTree only applies to matchType: ${DOMAIN_TREE_MATCH_TYPES.join(', ')}`;
+  }
+  if (getRegistrableDomain(pattern) === null) {
+    return 'domainTree pattern must be a registrable domain such as shop.com, not a public suffix';
+  }
+  return null;
+}
+
+/**
+ * Validate a rule pattern for its match type and mode
+ * Header rules need a header name, regex patterns must pass the ReDoS analysis
+ * and domainTree patterns must name a registrable domain
+ * Returns an error message, or null when the pattern is valid
+ */
+function validateRulePattern(matchType: unknown, matchMode: unknown, pattern: string): string | null {
+  const headerError = validateHeaderPattern(matchType, pattern);
+  if (headerError) {
+    return headerError;
+  }
+  if (matchMode === 'regex') {
+    const analysis = analyzeRegex(matchType === 'header' ? parseHeaderPattern(pattern)?.pattern ?? '' : pattern);
+    if (!analysis.safe) {
+      return `pattern is not a valid regular expression: ${analysis.reason}`;
+    }
+  }
+  if (matchMode === 'domainTree') {
+    return validateDomainTreePattern(matchType, pattern);
+  }
+  return null;
+}
+
+/**
+ * Validate a rejection reason: a single line of limited length
+ * Returns an error message, or null when the reason is valid
+ */
+function validateRejectReason(value: unknown): string | null {
+  if (typeof value !== 'string') {
+    return 'rejectReason must be a string';
+  }
+  if (value.length > MAX_REJECT_REASON_LENGTH) {
+    return `rejectReason cannot exceed ${MAX_REJECT_REASON_LENGTH} characters`;
+  }
+  if (/[\r\n]/.test(value)) {
+    return 'rejectReason must be a single line';
+  }
+  return null;
+}
+
+/**
+ * Validate whitelist forward destinations: a list of distinct email addresses
+ */
+function validateForwardDestinations(value: unknown): { error?: string; forwardTo?: string[] } {
+  if (!Array.isArray(value) || !value.every((item) => typeof item === 'string')) {
+    return { error: 'forwardTo must be an array of email addresses' };
+  }
+  const forwardTo = [...new Set(value.map((item: string) => item.trim()).filter((item) => item))];
+  if (forwardTo.length > MAX_FORWARD_DESTINATIONS) {
+    return { error: `forwardTo cannot contain more than ${MAX_FORWARD_DESTINATIONS} addresses` };
+  }
+  const invalid = forwardTo.find((address) => !address.includes('@'));
+  if (invalid) {
+    return { error: `forwardTo contains an invalid email address: ${invalid}` };
+  }
+  return { forwardTo };
+}
+
+/**
+ * Check that a priority is a non-negative integer
+ */
+function isValidPriority(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+/**
+ * Schedule fields shared by the create and update DTOs
+ */
+type RuleSchedule = Pick<UpdateRuleDTO, 'activeFrom' | 'activeUntil' | 'timeWindows' | 'timezone'>;
+
+/**
+ * Validate a rule's schedule: active period, weekly time windows and their timezone
+ * Dates are normalized to ISO 8601; null (or an empty string) clears a field
+ */
+function validateSchedule(data: Record<string, unknown>): { error?: string; schedule?: RuleSchedule } {
+  const schedule: RuleSchedule = {};
+
+  for (const field of ['activeFrom', 'activeUntil'] as const) {
+    const value = data[field];
+    if (value === undefined) {
+      continue;
+    }
+    if (value === null || value === '') {
+      schedule[field] = null;
+      continue;
+    }
+    if (typeof value !== 'string' || isNaN(Date.parse(value))) {
+      return { error: `${field} must be an ISO 8601 date` };
+    }
+    schedule[field] = new Date(value).toISOString();
+  }
+
+  if (data.timeWindows !== undefined) {
+    if (data.timeWindows === null) {
+      schedule.timeWindows = null;
+    } else {
+      const windows = data.timeWindows;
+      if (
+        !Array.isArray(windows) ||
+        !windows.every((window) => window && typeof window === 'object' && isValidTimeWindow(window as RuleTimeWindow))
+      ) {
+        return { error: 'timeWindows must be a list of { days, start, end } with days 0-6 (0 = Sunday) and HH:mm times' };
+      }
+      if (windows.length > MAX_TIME_WINDOWS) {
+        return { error: `timeWindows cannot contain more than ${MAX_TIME_WINDOWS} windows` };
+      }
+      schedule.timeWindows = (windows as RuleTimeWindow[]).map((window) => ({
+        days: [...new Set(window.days)].sort((a, b) => a - b),
+        start: window.start,
+        end: window.end,
+      }));
+    }
+  }
+
+  if (data.timezone !== undefined) {
+    if (data.timezone === null || data.timezone === '') {
+      schedule.timezone = null;
+    } else if (typeof data.timezone !== 'string' || !isValidTimeZone(data.timezone)) {
+      return { error: 'timezone must be an IANA timezone such as Asia/Shanghai' };
+    } else {
+      schedule.timezone = data.timezone;
+    }
+  }
+
+  return { schedule };
+}
+
+/**
+ * Check that an active period ends after it starts
+ * Returns an error message, or null when the period is valid or open-ended
+ */
+function validateActivePeriod(activeFrom?: string | Date | null, activeUntil?: string | Date | null): string | null {
+  if (activeFrom && activeUntil && new Date(activeFrom).getTime() >= new Date(activeUntil).getTime()) {
+    return 'activeUntil must be later than activeFrom';
+  }
+  return null;
+}
+
+/**
+ * Validate a condition tree node (leaf condition or nested group)
+ * Returns an error message, or null when the node is valid
+ */
+function validateConditionNode(node: unknown, depth: number): string | null {
+  if (!node || typeof node !== 'object') {
+    return 'each condition must be an object';
+  }
+  if (depth > MAX_CONDITION_DEPTH) {
+    return `conditions cannot be nested more than ${MAX_CONDITION_DEPTH} levels deep`;
+  }
+
+  const data = node as Record<string, unknown>;
+  if (data.conditions !== undefined) {
+    if (!VALID_OPERATORS.includes(data.operator as string)) {
+      return `condition group operator must be one of: ${VALID_OPERATORS.join(', ')}`;
+    }
+    if (!Array.isArray(data.conditions) || data.conditions.length === 0) {
+      return 'condition group must contain at least one condition';
+    }
+    for (const child of data.conditions) {
+      const error = validateConditionNode(child, depth + 1);
+      if (error) return error;
+    }
+    return null;
+  }
+
+  if (!VALID_MATCH_TYPES.includes(data.matchType as string)) {
+    return `condition matchType must be one of: ${VALID_MATCH_TYPES.join(', ')}`;
+  }
+  if (!VALID_MATCH_MODES.includes(data.matchMode as string)) {
+    return `condition matchMode must be one of: ${VALID_MATCH_MODES.join(', ')}`;
+  }
+  if (typeof data.pattern !== 'string' || data.pattern.trim() === '') {
+    return 'condition pattern is required and must be a non-empty string';
+  }
+  return validateRulePattern(data.matchType, data.matchMode, data.pattern);
+}
+
+/**
+ * Validate the root of a compound rule condition tree
+ */
+function validateConditions(value: unknown): { error?: string; conditions?: RuleConditionGroup } {
+  if (!value || typeof value !== 'object' || !Array.isArray((value as Record<string, unknown>).conditions)) {
+    return { error: 'conditions must be a condition group with operator and conditions' };
+  }
+  const error = validateConditionNode(value, 1);
+  return error ? { error } : { conditions: value as RuleConditionGroup };
+}
+
+/**
+ * Validate blacklist NOT-exceptions
+ */
+function validateExceptions(value: unknown): { error?: string; exceptions?: RuleConditionNode[] } {
+  if (!Array.isArray(value)) {
+    return { error: 'exceptions must be an array of conditions' };
+  }
+  for (const node of value) {
+    const error = validateConditionNode(node, 1);
+    if (error) return { error: `invalid exception: ${error}` };
+  }
+  return { exceptions: value as RuleConditionNode[] };
+}
+
+/**
+ * Find the first leaf condition of a tree
+ * Used to fill matchType/matchMode on compound rules for listing
+ */
+function firstLeafCondition(node: RuleConditionNode): RuleCondition {
+  return isConditionGroup(node) ? firstLeafCondition(node.conditions[0]) : node;
+}
 
 /**
  * Validate CreateRuleDTO
  */
-function validateCreateRule(body: unknown): { valid: boolean; error?: string; data?: CreateRuleDTO } {
+export function validateCreateRule(body: unknown): { valid: boolean; error?: string; data?: CreateRuleDTO } {
   if (!body || typeof body !== 'object') {
     return { valid: false, error: 'Request body is required' };
   }
@@ -32,6 +345,109 @@ function validateCreateRule(body: unknown): { valid: boolean; error?: string; da
   if (!data.category || !VALID_CATEGORIES.includes(data.category as RuleCategory)) {
     return { valid: false, error: `category must be one of: ${VALID_CATEGORIES.join(', ')}` };
   }
+
+  let exceptions: RuleConditionNode[] | undefined;
+  if (data.exceptions !== undefined && data.exceptions !== null) {
+    if (data.category !== 'blacklist') {
+      return { valid: false, error: 'exceptions are only supported for blacklist rules' };
+    }
+    const result = validateExceptions(data.exceptions);
+    if (result.error) {
+      return { valid: false, error: result.error };
+    }
+    exceptions = result.exceptions;
+  }
+
+  if (data.action !== undefined && !VALID_ACTIONS.includes(data.action as RuleAction)) {
+    return { valid: false, error: `action must be one of: ${VALID_ACTIONS.join(', ')}` };
+  }
+  if (data.action === 'reject' && data.category === 'whitelist') {
+    return { valid: false, error: 'reject action is only supported for blacklist and dynamic rules' };
+  }
+  if (data.rejectReason !== undefined && data.rejectReason !== null) {
+    const error = validateRejectReason(data.rejectReason);
+    if (error) {
+      return { valid: false, error };
+    }
+  }
+  const action = data.action as RuleAction | undefined;
+  const rejectReason = action === 'reject' && data.rejectReason ? (data.rejectReason as string).trim() || undefined : undefined;
+
+  let forwardTo: string[] | undefined;
+  if (data.forwardTo !== undefined && data.forwardTo !== null) {
+    if (data.category !== 'whitelist') {
+      return { valid: false, error: 'forwardTo is only supported for whitelist rules' };
+    }
+    const result = validateForwardDestinations(data.forwardTo);
+    if (result.error) {
+      return { valid: false, error: result.error };
+    }
+    forwardTo = result.forwardTo;
+  }
+
+  if (data.priority !== undefined && !isValidPriority(data.priority)) {
+    return { valid: false, error: 'priority must be a non-negative integer' };
+  }
+  const priority = data.priority as number | undefined;
+
+  const scheduleResult = validateSchedule(data);
+  if (scheduleResult.error || !scheduleResult.schedule) {
+    return { valid: false, error: scheduleResult.error };
+  }
+  const schedule = {
+    activeFrom: scheduleResult.schedule.activeFrom || undefined,
+    activeUntil: scheduleResult.schedule.activeUntil || undefined,
+    timeWindows: scheduleResult.schedule.timeWindows || undefined,
+    timezone: scheduleResult.schedule.timezone || undefined,
+  };
+  const periodError = validateActivePeriod(schedule.activeFrom, schedule.activeUntil);
+  if (periodError) {
+    return { valid: false, error: periodError };
+  }
+  if (schedule.activeUntil && new Date(schedule.activeUntil).getTime() <= Date.now()) {
+    return { valid: false, error: 'activeUntil must be in the future' };
+  }
+
+  if (data.mode !== undefined && !VALID_MODES.includes(data.mode as RuleMode)) {
+    return { valid: false, error: `mode must be one of: ${VALID_MODES.join(', ')}` };
+  }
+  if (data.mode === 'shadow' && data.category === 'dynamic') {
+    return { valid: false, error: 'shadow mode is only supported for whitelist and blacklist rules' };
+  }
+  const mode = data.mode as RuleMode | undefined;
+  if (data.normalize !== undefined && typeof data.normalize !== 'boolean') {
+    return { valid: false, error: 'normalize must be a boolean' };
+  }
+  const normalize = data.normalize as boolean | undefined;
+
+  // Compound rule: the condition tree drives matching, the triple is derived for listing
+  if (data.conditions !== undefined && data.conditions !== null) {
+    const result = validateConditions(data.conditions);
+    if (result.error || !result.conditions) {
+      return { valid: false, error: result.error };
+    }
+    const leaf = firstLeafCondition(result.conditions);
+    return {
+      valid: true,
+      data: {
+        category: data.category as RuleCategory,
+        matchType: leaf.matchType,
+        matchMode: leaf.matchMode,
+        pattern: describeConditions(result.conditions),
+        conditions: result.conditions,
+        exceptions,
+        action,
+        rejectReason,
+        forwardTo,
+        priority,
+        ...schedule,
+        mode,
+        normalize,
+        enabled: data.enabled !== undefined ? Boolean(data.enabled) : true,
+      },
+    };
+  }
+
   if (!data.matchType || !VALID_MATCH_TYPES.includes(data.matchType as string)) {
     return { valid: false, error: `matchType must be one of: ${VALID_MATCH_TYPES.join(', ')}` };
   }
@@ -41,6 +457,10 @@ function validateCreateRule(body: unknown): { valid: boolean; error?: string; da
   if (typeof data.pattern !== 'string' || data.pattern.trim() === '') {
     return { valid: false, error: 'pattern is required and must be a non-empty string' };
   }
+  const patternError = validateRulePattern(data.matchType, data.matchMode, data.pattern);
+  if (patternError) {
+    return { valid: false, error: patternError };
+  }
 
   return {
     valid: true,
@@ -49,6 +469,14 @@ function validateCreateRule(body: unknown): { valid: boolean; error?: string; da
       matchType: data.matchType as CreateRuleDTO['matchType'],
       matchMode: data.matchMode as CreateRuleDTO['matchMode'],
       pattern: data.pattern as string,
+      exceptions,
+      action,
+      rejectReason,
+      forwardTo,
+      priority,
+      ...schedule,
+      mode,
+      normalize,
       enabled: data.enabled !== undefined ? Boolean(data.enabled) : true,
     },
   };
@@ -57,7 +485,7 @@ function validateCreateRule(body: unknown): { valid: boolean; error?: string; da
 /**
  * Validate UpdateRuleDTO
  */
-function validateUpdateRule(body: unknown): { valid: boolean; error?: string; data?: UpdateRuleDTO } {
+export function validateUpdateRule(body: unknown): { valid: boolean; error?: string; data?: UpdateRuleDTO } {
   if (!body || typeof body !== 'object') {
     return { valid: false, error: 'Request body is required' };
   }
@@ -99,16 +527,257 @@ function validateUpdateRule(body: unknown): { valid: boolean; error?: string; da
       updateData.tags = [];
     }
   }
+  if (data.conditions !== undefined) {
+    if (data.conditions === null) {
+      updateData.conditions = null;
+    } else {
+      const result = validateConditions(data.conditions);
+      if (result.error || !result.conditions) {
+        return { valid: false, error: result.error };
+      }
+      const leaf = firstLeafCondition(result.conditions);
+      updateData.conditions = result.conditions;
+      updateData.matchType = leaf.matchType;
+      updateData.matchMode = leaf.matchMode;
+      updateData.pattern = describeConditions(result.conditions);
+    }
+  }
+  if (data.exceptions !== undefined) {
+    if (data.exceptions === null) {
+      updateData.exceptions = null;
+    } else {
+      const result = validateExceptions(data.exceptions);
+      if (result.error) {
+        return { valid: false, error: result.error };
+      }
+      updateData.exceptions = result.exceptions;
+    }
+  }
+  if (data.action !== undefined) {
+    if (!VALID_ACTIONS.includes(data.action as RuleAction)) {
+      return { valid: false, error: `action must be one of: ${VALID_ACTIONS.join(', ')}` };
+    }
+    updateData.action = data.action as RuleAction;
+  }
+  if (data.rejectReason !== undefined) {
+    if (data.rejectReason === null) {
+      updateData.rejectReason = null;
+    } else {
+      const error = validateRejectReason(data.rejectReason);
+      if (error) {
+        return { valid: false, error };
+      }
+      updateData.rejectReason = (data.rejectReason as string).trim() || null;
+    }
+  }
+  if (data.forwardTo !== undefined) {
+    if (data.forwardTo === null) {
+      updateData.forwardTo = null;
+    } else {
+      const result = validateForwardDestinations(data.forwardTo);
+      if (result.error) {
+        return { valid: false, error: result.error };
+      }
+      updateData.forwardTo = result.forwardTo;
+    }
+  }
+  if (data.priority !== undefined) {
+    if (!isValidPriority(data.priority)) {
+      return { valid: false, error: 'priority must be a non-negative integer' };
+    }
+    updateData.priority = data.priority;
+  }
+
+  const scheduleResult = validateSchedule(data);
+  if (scheduleResult.error) {
+    return { valid: false, error: scheduleResult.error };
+  }
+  Object.assign(updateData, scheduleResult.schedule);
+
+  if (data.mode !== undefined) {
+    if (!VALID_MODES.includes(data.mode as RuleMode)) {
+      return { valid: false, error: `mode must be one of: ${VALID_MODES.join(', ')}` };
+    }
+    updateData.mode = data.mode as RuleMode;
+  }
+
+  if (data.normalize !== undefined) {
+    if (typeof data.normalize !== 'boolean') {
+      return { valid: false, error: 'normalize must be a boolean' };
+    }
+    updateData.normalize = data.normalize;
+  }
 
   return { valid: true, data: updateData };
 }
 
+/**
+ * Check an update once merged with the stored rule: the fields a request leaves
+ * out keep their stored values, so combinations are only known after merging
+ */
+export function validateMergedRuleUpdate(data: UpdateRuleDTO | undefined, existingRule: FilterRuleWithWorker | null): string | null {
+  // Exceptions are only meaningful on blacklist rules
+  const effectiveCategory = data?.category ?? existingRule?.category;
+  const effectiveExceptions = data?.exceptions !== undefined
+    ? data.exceptions
+    : existingRule?.exceptions;
+  if (effectiveExceptions && effectiveExceptions.length > 0 && effectiveCategory !== 'blacklist') {
+    return 'exceptions are only supported for blacklist rules';
+  }
+
+  // Whitelist rules always forward, so they cannot reject
+  const effectiveAction = data?.action ?? existingRule?.action;
+  if (effectiveAction === 'reject' && effectiveCategory === 'whitelist') {
+    return 'reject action is only supported for blacklist and dynamic rules';
+  }
+
+  // Only whitelist rules forward, so only they can carry destinations
+  const effectiveForwardTo = data?.forwardTo !== undefined
+    ? data.forwardTo
+    : existingRule?.forwardTo;
+  if (effectiveForwardTo && effectiveForwardTo.length > 0 && effectiveCategory !== 'whitelist') {
+    return 'forwardTo is only supported for whitelist rules';
+  }
+
+  // Dynamic rules are created automatically and always enforced
+  const effectiveMode = data?.mode ?? existingRule?.mode;
+  if (effectiveMode === 'shadow' && effectiveCategory === 'dynamic') {
+    return 'shadow mode is only supported for whitelist and blacklist rules';
+  }
+
+  // The active period must still end after it starts once merged with the stored one
+  const periodError = validateActivePeriod(
+    data?.activeFrom !== undefined ? data.activeFrom : existingRule?.activeFrom,
+    data?.activeUntil !== undefined ? data.activeUntil : existingRule?.activeUntil
+  );
+  if (periodError) {
+    return periodError;
+  }
+
+  // Header rules need a header name in their pattern and regex patterns must be safe
+  // once merged with the stored rule (compound rules validate per condition)
+  const effectiveConditions = data?.conditions !== undefined
+    ? data.conditions
+    : existingRule?.conditions;
+  if (!effectiveConditions) {
+    const patternError = validateRulePattern(
+      data?.matchType ?? existingRule?.matchType,
+      data?.matchMode ?? existingRule?.matchMode,
+      data?.pattern ?? existingRule?.pattern ?? ''
+    );
+    if (patternError) {
+      return patternError;
+    }
+  }
+
+  return null;
+}
+
+const VALID_BULK_ACTIONS: RuleBulkAction[] = ['enable', 'disable', 'delete', 'retag', 'move', 'changeCategory'];
+
+/**
+ * Check that a value is an array of non-empty strings
+ */
+function isTagList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string' && item.trim() !== '');
+}
+
+/**
+ * Validate a bulk operation request: the filter selecting the rules and the operation applied to them
+ * At least one filter criterion is required so a request cannot silently target every rule.
+ */
+export function validateBulkRequest(body: unknown): { error?: string; filter?: RuleBulkFilter; operation?: RuleBulkOperation; dryRun?: boolean } {
+  if (!body || typeof body !== 'object') {
+    return { error: 'Request body is required' };
+  }
+  const data = body as Record<string, unknown>;
+  const rawFilter = (data.filter || {}) as Record<string, unknown>;
+
+  const filter: RuleBulkFilter = {};
+  for (const field of ['tag', 'workerId', 'ruleSetId', 'search'] as const) {
+    const value = rawFilter[field];
+    if (value === undefined || value === null || value === '') {
+      continue;
+    }
+    if (typeof value !== 'string') {
+      return { error: `filter.${field} must be a string` };
+    }
+    filter[field] = value;
+  }
+  if (rawFilter.ruleIds !== undefined && rawFilter.ruleIds !== null) {
+    if (!Array.isArray(rawFilter.ruleIds) || !rawFilter.ruleIds.every((id) => typeof id === 'string' && id)) {
+      return { error: 'filter.ruleIds must be an array of rule IDs' };
+    }
+    filter.ruleIds = rawFilter.ruleIds as string[];
+  }
+  if (rawFilter.category !== undefined && rawFilter.category !== null && rawFilter.category !== '') {
+    if (!VALID_CATEGORIES.includes(rawFilter.category as RuleCategory)) {
+      return { error: `filter.category must be one of: ${VALID_CATEGORIES.join(', ')}` };
+    }
+    filter.category = rawFilter.category as RuleCategory;
+  }
+  if (rawFilter.notHitInDays !== undefined && rawFilter.notHitInDays !== null) {
+    if (!Number.isInteger(rawFilter.notHitInDays) || (rawFilter.notHitInDays as number) < 1) {
+      return { error: 'filter.notHitInDays must be a positive integer' };
+    }
+    filter.notHitInDays = rawFilter.notHitInDays as number;
+  }
+  if (Object.keys(filter).length === 0) {
+    return { error: 'filter must contain at least one of: ruleIds, tag, category, workerId, ruleSetId, search, notHitInDays' };
+  }
+
+  const action = data.action as RuleBulkAction;
+  if (!VALID_BULK_ACTIONS.includes(action)) {
+    return { error: `action must be one of: ${VALID_BULK_ACTIONS.join(', ')}` };
+  }
+  const operation: RuleBulkOperation = { action };
+  if (action === 'retag') {
+    if ((data.addTags !== undefined && !isTagList(data.addTags)) || (data.removeTags !== undefined && !isTagList(data.removeTags))) {
+      return { error: 'addTags and removeTags must be arrays of tags' };
+    }
+    operation.addTags = ((data.addTags as string[] | undefined) || []).map((tag) => tag.trim());
+    operation.removeTags = ((data.removeTags as string[] | undefined) || []).map((tag) => tag.trim());
+    if (operation.addTags.length === 0 && operation.removeTags.length === 0) {
+      return { error: 'retag requires addTags or removeTags' };
+    }
+  }
+  if (action === 'move') {
+    if (data.workerId !== null && typeof data.workerId !== 'string') {
+      return { error: 'move requires workerId (null for global rules)' };
+    }
+    operation.workerId = (data.workerId as string | null) || null;
+  }
+  if (action === 'changeCategory') {
+    if (!VALID_CATEGORIES.includes(data.category as RuleCategory)) {
+      return { error: `changeCategory requires category, one of: ${VALID_CATEGORIES.join(', ')}` };
+    }
+    operation.category = data.category as RuleCategory;
+  }
+  if (data.dryRun !== undefined && typeof data.dryRun !== 'boolean') {
+    return { error: 'dryRun must be a boolean' };
+  }
+
+  return { filter, operation, dryRun: data.dryRun === true };
+}
+
+/**
+ * Parse the staleDays option of the rule analysis, null when invalid
+ */
+function parseStaleDays(value: string | undefined): number | null {
+  if (value === undefined || value === '') {
+    return DEFAULT_STALE_DAYS;
+  }
+  const days = Number(value);
+  return Number.isInteger(days) && days >= 1 && days <= MAX_ANALYSIS_STALE_DAYS ? days : null;
+}
+
 // Request type definitions
 interface GetRulesQuery {
   limit?: string;
   offset?: string;
   category?: string;
   workerId?: string;
+  ruleSetId?: string;
   global?: string;
 }
 
@@ -116,12 +785,35 @@ interface RuleParams {
   id: string;
 }
 
+interface RuleVersionParams {
+  id: string;
+  version: string;
+}
+
+interface RuleDiffQuery {
+  from?: string;
+  to?: string;
+}
+
+interface RuleAnalysisQuery {
+  staleDays?: string;
+}
+
+interface ShadowReportQuery {
+  ruleId?: string;
+  limit?: string;
+  includeUnchanged?: string;
+}
+
 /**
  * Register rules routes
  */
 export async function rulesRoutes(fastify: FastifyInstance): Promise<void> {
   // Apply auth middleware to all routes in this plugin
-  fastify.addHook('preHandler', authMiddleware);
+  // It attaches the JWT user to requests so rule changes record who made them
+  const authDb = getDatabase();
+  const authService = new AuthService(new UserService(authDb), authDb, config.jwtSecret, config.jwtExpiry);
+  fastify.addHook('preHandler', createAuthMiddleware(authService));
 
   /**
    * GET /api/rules
@@ -134,9 +826,9 @@ export async function rulesRoutes(fastify: FastifyInstance): Promise<void> {
       const db = getDatabase();
       const ruleRepository = new RuleRepository(db);
 
-      const { limit, offset, category, workerId } = request.query;
+      const { limit, offset, category, workerId, ruleSetId } = request.query;
       const isGlobal = request.query.global === 'true';
-      const options: { limit?: number; offset?: number; category?: RuleCategory; workerId?: string } = {};
+      const options: { limit?: number; offset?: number; category?: RuleCategory; workerId?: string; ruleSetId?: string } = {};
 
       if (limit) {
         const limitNum = parseInt(limit, 10);
@@ -156,10 +848,13 @@ export async function rulesRoutes(fastify: FastifyInstance): Promise<void> {
       if (workerId) {
         options.workerId = workerId;
       }
+      if (ruleSetId) {
+        options.ruleSetId = ruleSetId;
+      }
 
       let rules;
       if (isGlobal) {
-        // Get only global rules (worker_id IS NULL)
+        // Get only global rules (worker_id and rule_set_id IS NULL)
         rules = ruleRepository.findGlobal();
         if (options.category) {
           rules = rules.filter((r) => r.category === options.category);
@@ -184,6 +879,136 @@ export async function rulesRoutes(fastify: FastifyInstance): Promise<void> {
     }
   });
 
+  /**
+   * GET /api/rules/shadow-report
+   * List the emails each shadow rule would have affected, with its shadow stats
+   * By default only emails whose outcome would have changed are listed;
+   * includeUnchanged=true lists every email the rule matched
+   */
+  fastify.get('/shadow-report', async (request: FastifyRequest<{ Querystring: ShadowReportQuery }>, reply: FastifyReply) => {
+    try {
+      const db = getDatabase();
+      const ruleRepository = new RuleRepository(db);
+      const statsRepository = new StatsRepository(db);
+      const logRepository = new LogRepository(db);
+
+      const { ruleId } = request.query;
+      const includeUnchanged = request.query.includeUnchanged === 'true';
+      const limitNum = parseInt(request.query.limit || '', 10);
+      const limit = !isNaN(limitNum) && limitNum > 0
+        ? Math.min(limitNum, MAX_SHADOW_REPORT_LIMIT)
+        : DEFAULT_SHADOW_REPORT_LIMIT;
+
+      let shadowRules;
+      if (ruleId) {
+        const rule = ruleRepository.findById(ruleId);
+        if (!rule) {
+          return reply.status(404).send({ error: 'Rule not found' });
+        }
+        shadowRules = [rule];
+      } else {
+        shadowRules = ruleRepository.findAll().filter((rule) => rule.mode === 'shadow');
+      }
+
+      const rules = shadowRules.map((rule) => ({
+        rule,
+        stats: statsRepository.findShadowStats(rule.id),
+        emails: logRepository.findShadowMatches(rule.id, limit, !includeUnchanged).map((log) => ({
+          from: log.details?.from,
+          to: log.details?.to,
+          subject: log.details?.subject,
+          workerName: log.workerName,
+          action: log.details?.action,
+          actualAction: log.details?.actualAction,
+          wouldChange: log.details?.wouldChange,
+          createdAt: log.createdAt,
+        })),
+      }));
+
+      return reply.send({ rules });
+    } catch (error) {
+      request.log.error(error, 'Error fetching shadow report');
+      return reply.status(500).send({ error: 'Internal error' });
+    }
+  });
+
+  /**
+   * GET /api/rules/regex-audit
+   * List stored regex patterns that fail the ReDoS analysis, across filter,
+   * watch, monitoring and forward rules
+   */
+  fastify.get('/regex-audit', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const entries = new RegexAuditService(getDatabase()).audit();
+      return reply.send({ entries, total: entries.length });
+    } catch (error) {
+      request.log.error(error, 'Error auditing regex patterns');
+      return reply.status(500).send({ error: 'Internal error' });
+    }
+  });
+
+  /**
+   * GET /api/rules/analysis
+   * Report duplicate, shadowed and stale rules and whitelist/blacklist conflicts,
+   * each with a one-click fix where one is safe
+   * Query: staleDays? (days without a hit before a rule is reported, default 90)
+   */
+  fastify.get('/analysis', async (request: FastifyRequest<{ Querystring: RuleAnalysisQuery }>, reply: FastifyReply) => {
+    const staleDays = parseStaleDays(request.query.staleDays);
+    if (staleDays === null) {
+      return reply.status(400).send({ error: 'Invalid request', message: `staleDays must be an integer between 1 and ${MAX_ANALYSIS_STALE_DAYS}` });
+    }
+
+    try {
+      return reply.send(new RuleAnalysisService(getDatabase()).analyze(staleDays));
+    } catch (error) {
+      request.log.error(error, 'Error analyzing rules');
+      return reply.status(500).send({ error: 'Internal error' });
+    }
+  });
+
+  /**
+   * POST /api/rules/analysis/fixes
+   * Apply the fix of an analysis finding
+   * Body: { findingId, staleDays? } (staleDays as used for the report the finding came from)
+   */
+  fastify.post('/analysis/fixes', async (request: FastifyRequest, reply: FastifyReply) => {
+    const body = (request.body || {}) as Record<string, unknown>;
+    if (typeof body.findingId !== 'string' || !body.findingId) {
+      return reply.status(400).send({ error: 'Invalid request', message: 'findingId is required' });
+    }
+    const staleDays = parseStaleDays(body.staleDays === undefined ? undefined : String(body.staleDays));
+    if (staleDays === null) {
+      return reply.status(400).send({ error: 'Invalid request', message: `staleDays must be an integer between 1 and ${MAX_ANALYSIS_STALE_DAYS}` });
+    }
+
+    try {
+      const db = getDatabase();
+      const { finding, result } = new RuleAnalysisService(db).applyFix(body.findingId, {
+        staleDays,
+        actor: getHistoryActor((request as AuthenticatedRequest).user),
+      });
+
+      new LogRepository(db).createAdminLog('应用规则分析修复', {
+        action: 'analysisFix',
+        entityType: 'rule',
+        findingId: finding.id,
+        kind: finding.kind,
+        fixAction: finding.fix!.action,
+        ruleIds: result.rules.map((rule) => rule.id),
+      }, 'global');
+
+      return reply.send({ finding, result });
+    } catch (error) {
+      if (error instanceof RuleAnalysisError) {
+        const status = error.code === 'NOT_FOUND' ? 404 : 400;
+        return reply.status(status).send({ error: 'Cannot apply fix', message: error.message, code: error.code });
+      }
+      request.log.error(error, 'Error applying rule analysis fix');
+      return reply.status(500).send({ error: 'Internal error' });
+    }
+  });
+
   /**
    * GET /api/rules/:id
    * Get a single rule by ID
@@ -223,16 +1048,25 @@ export async function rulesRoutes(fastify: FastifyInstance): Promise<void> {
       const db = getDatabase();
       const ruleRepository = new RuleRepository(db);
 
-      // Extract workerId and tags from request body
+      // Extract workerId, ruleSetId and tags from request body
       const body = request.body as Record<string, unknown>;
       const workerId = typeof body.workerId === 'string' ? body.workerId : undefined;
-      
+      const ruleSetId = typeof body.ruleSetId === 'string' && body.ruleSetId ? body.ruleSetId : undefined;
+      const ruleSetService = new RuleSetService(db);
+      if (workerId && ruleSetId) {
+        return reply.status(400).send({ error: 'Invalid request', message: 'workerId and ruleSetId cannot both be set' });
+      }
+      if (ruleSetId && !ruleSetService.exists(ruleSetId)) {
+        return reply.status(400).send({ error: 'Invalid request', message: 'Rule set not found' });
+      }
+
       // Add tags to validation data if provided
       if (Array.isArray(body.tags)) {
         validation.data.tags = body.tags.filter((t): t is string => typeof t === 'string');
       }
 
-      const rule = ruleRepository.create(validation.data, workerId);
+      const rule = ruleRepository.create(validation.data, workerId, ruleSetId);
+      new RuleHistoryService(db).record('filter', rule.id, 'create', null, rule, getHistoryActor((request as AuthenticatedRequest).user));
       
       // Invalidate cache for this worker (Requirement 4.4)
       const ruleCache = getRuleCache();
@@ -241,6 +1075,8 @@ export async function rulesRoutes(fastify: FastifyInstance): Promise<void> {
       if (!workerId) {
         ruleCache.invalidate(undefined);
       }
+      // Rule set rules are part of every attached worker's rule set
+      ruleSetService.invalidateRuleSetCaches(ruleSetId);
       
       // Log admin action (Requirement 5.1)
       const logRepository = new LogRepository(db);
@@ -253,8 +1089,21 @@ export async function rulesRoutes(fastify: FastifyInstance): Promise<void> {
           matchType: rule.matchType,
           matchMode: rule.matchMode,
           pattern: rule.pattern,
+          conditions: rule.conditions || null,
+          exceptions: rule.exceptions || null,
+          action: rule.action,
+          rejectReason: rule.rejectReason || null,
+          forwardTo: rule.forwardTo || null,
+          priority: rule.priority,
+          activeFrom: rule.activeFrom || null,
+          activeUntil: rule.activeUntil || null,
+          timeWindows: rule.timeWindows || null,
+          timezone: rule.timezone || null,
+          mode: rule.mode,
+          normalize: rule.normalize ?? false,
           enabled: rule.enabled,
           workerId: workerId || null,
+          ruleSetId: ruleSetId || null,
         },
       }, workerId || 'global');
       
@@ -268,6 +1117,204 @@ export async function rulesRoutes(fastify: FastifyInstance): Promise<void> {
     }
   });
 
+  /**
+   * POST /api/rules/reorder
+   * Reorder rules within a category; matching checks them in this order
+   * ruleIds may be a subset (e.g. one worker's rules), which swap among their own positions
+   */
+  fastify.post('/reorder', async (request: FastifyRequest, reply: FastifyReply) => {
+    const body = (request.body || {}) as Record<string, unknown>;
+    if (!VALID_CATEGORIES.includes(body.category as RuleCategory)) {
+      return reply.status(400).send({ error: 'Invalid request', message: `category must be one of: ${VALID_CATEGORIES.join(', ')}` });
+    }
+    const category = body.category as RuleCategory;
+    const ruleIds = body.ruleIds;
+    if (!Array.isArray(ruleIds) || ruleIds.length === 0 || !ruleIds.every((id) => typeof id === 'string')) {
+      return reply.status(400).send({ error: 'Invalid request', message: 'ruleIds must be a non-empty array of rule IDs' });
+    }
+    if (new Set(ruleIds).size !== ruleIds.length) {
+      return reply.status(400).send({ error: 'Invalid request', message: 'ruleIds must not contain duplicates' });
+    }
+
+    try {
+      const db = getDatabase();
+      const ruleRepository = new RuleRepository(db);
+
+      for (const id of ruleIds as string[]) {
+        const rule = ruleRepository.findById(id);
+        if (!rule || rule.category !== category) {
+          return reply.status(400).send({ error: 'Invalid request', message: `Rule ${id} is not a ${category} rule` });
+        }
+      }
+
+      const rules = ruleRepository.reorder(category, ruleIds as string[]);
+
+      // Order affects every worker that sees these rules
+      getRuleCache().invalidateAll();
+
+      const logRepository = new LogRepository(db);
+      logRepository.createAdminLog('调整规则顺序', {
+        action: 'reorder',
+        entityType: 'rule',
+        category,
+        ruleIds,
+      });
+
+      return reply.send({ rules });
+    } catch (error) {
+      request.log.error(error, 'Error reordering rules');
+      return reply.status(500).send({ error: 'Internal error' });
+    }
+  });
+
+  /**
+   * POST /api/rules/simulate
+   * Replay the emails logged in a time range against proposed rule changes
+   * Nothing is saved; the response lists the emails that flip between forwarded and dropped
+   */
+  fastify.post('/simulate', async (request: FastifyRequest, reply: FastifyReply) => {
+    const body = (request.body || {}) as Record<string, unknown>;
+
+    const from = typeof body.from === 'string' ? new Date(body.from) : null;
+    const to = typeof body.to === 'string' ? new Date(body.to) : new Date();
+    if (!from || isNaN(from.getTime()) || isNaN(to.getTime())) {
+      return reply.status(400).send({ error: 'Invalid request', message: 'from (and optional to) must be ISO date strings' });
+    }
+    if (to.getTime() <= from.getTime()) {
+      return reply.status(400).send({ error: 'Invalid request', message: 'to must be after from' });
+    }
+    if (body.workerName !== undefined && typeof body.workerName !== 'string') {
+      return reply.status(400).send({ error: 'Invalid request', message: 'workerName must be a string' });
+    }
+    let sampleLimit = DEFAULT_SIMULATION_SAMPLE_LIMIT;
+    if (body.sampleLimit !== undefined) {
+      if (!Number.isInteger(body.sampleLimit) || (body.sampleLimit as number) < 0) {
+        return reply.status(400).send({ error: 'Invalid request', message: 'sampleLimit must be a non-negative integer' });
+      }
+      sampleLimit = Math.min(body.sampleLimit as number, MAX_SIMULATION_SAMPLE_LIMIT);
+    }
+
+    const changes = (body.changes || {}) as Record<string, unknown>;
+    const add = changes.add ?? [];
+    const update = changes.update ?? [];
+    const remove = changes.delete ?? [];
+    if (!Array.isArray(add) || !Array.isArray(update) || !Array.isArray(remove)) {
+      return reply.status(400).send({ error: 'Invalid request', message: 'changes.add, changes.update and changes.delete must be arrays' });
+    }
+    if (!remove.every((id) => typeof id === 'string')) {
+      return reply.status(400).send({ error: 'Invalid request', message: 'changes.delete must be an array of rule IDs' });
+    }
+
+    const changeSet: RuleChangeSet = { add: [], update: [], delete: remove as string[] };
+    for (const [index, item] of add.entries()) {
+      const validation = validateCreateRule(item);
+      if (!validation.valid || !validation.data) {
+        return reply.status(400).send({ error: 'Invalid request', message: `changes.add[${index}]: ${validation.error}` });
+      }
+      const workerId = (item as Record<string, unknown>).workerId;
+      changeSet.add.push({ ...validation.data, workerId: typeof workerId === 'string' ? workerId : undefined });
+    }
+    for (const [index, item] of update.entries()) {
+      const id = item && typeof item === 'object' ? (item as Record<string, unknown>).id : undefined;
+      if (typeof id !== 'string') {
+        return reply.status(400).send({ error: 'Invalid request', message: `changes.update[${index}]: id is required` });
+      }
+      const fields = { ...(item as Record<string, unknown>) };
+      delete fields.id;
+      const validation = validateUpdateRule(fields);
+      if (!validation.valid || !validation.data) {
+        return reply.status(400).send({ error: 'Invalid request', message: `changes.update[${index}]: ${validation.error}` });
+      }
+      const workerId = fields.workerId;
+      changeSet.update.push({
+        ...validation.data,
+        id,
+        workerId: workerId === undefined ? undefined : typeof workerId === 'string' && workerId ? workerId : null,
+      });
+    }
+
+    try {
+      const db = getDatabase();
+      const ruleRepository = new RuleRepository(db);
+
+      for (const id of changeSet.delete) {
+        if (!ruleRepository.findById(id)) {
+          return reply.status(404).send({ error: 'Not found', message: `Rule ${id} not found` });
+        }
+      }
+      // Updates are validated against the stored rule, as PUT /:id does
+      for (const [index, item] of changeSet.update.entries()) {
+        const existingRule = ruleRepository.findById(item.id);
+        if (!existingRule) {
+          return reply.status(404).send({ error: 'Not found', message: `Rule ${item.id} not found` });
+        }
+        const mergedError = validateMergedRuleUpdate(item, existingRule);
+        if (mergedError) {
+          return reply.status(400).send({ error: 'Invalid request', message: `changes.update[${index}]: ${mergedError}` });
+        }
+      }
+
+      const result = new RuleSimulationService(db).simulate(changeSet, {
+        from,
+        to,
+        workerName: body.workerName as string | undefined,
+        sampleLimit,
+      });
+      return reply.send(result);
+    } catch (error) {
+      request.log.error(error, 'Error simulating rule changes');
+      return reply.status(500).send({ error: 'Internal error' });
+    }
+  });
+
+  /**
+   * POST /api/rules/bulk
+   * Enable, disable, delete, re-tag, move or re-categorize every rule matching a filter
+   * Body: { filter: { ruleIds?, tag?, category?, workerId? ('global' or worker ID), ruleSetId?, search?, notHitInDays? },
+   *         action, addTags?/removeTags? (retag), workerId? (move, null for global), category? (changeCategory), dryRun? }
+   * A dry run returns the rules that would change; a real run applies them in one transaction.
+   */
+  fastify.post('/bulk', async (request: FastifyRequest, reply: FastifyReply) => {
+    const validation = validateBulkRequest(request.body);
+    if (validation.error || !validation.filter || !validation.operation) {
+      return reply.status(400).send({ error: 'Invalid request', message: validation.error });
+    }
+    const { filter, operation, dryRun } = validation;
+
+    try {
+      const db = getDatabase();
+      if (operation.action === 'move' && operation.workerId && !new WorkerRepository(db).findById(operation.workerId)) {
+        return reply.status(404).send({ error: 'Not found', message: `Worker ${operation.workerId} not found` });
+      }
+
+      const result = new RuleBulkService(db).run(filter, operation, {
+        dryRun: dryRun === true,
+        actor: getHistoryActor((request as AuthenticatedRequest).user),
+      });
+
+      if (!result.dryRun && result.changed > 0) {
+        new LogRepository(db).createAdminLog('批量操作规则', {
+          action: 'bulk',
+          entityType: 'rule',
+          bulkAction: operation.action,
+          filter,
+          operation,
+          matched: result.matched,
+          changed: result.changed,
+          ruleIds: result.rules.map((rule) => rule.id),
+        }, 'global');
+      }
+
+      return reply.send(result);
+    } catch (error) {
+      if (error instanceof RuleBulkError) {
+        return reply.status(409).send({ error: 'Conflict', message: error.message, code: error.code, conflicts: error.conflicts });
+      }
+      request.log.error(error, 'Error applying bulk rule operation');
+      return reply.status(500).send({ error: 'Internal error' });
+    }
+  });
+
   /**
    * PUT /api/rules/:id
    * Update an existing rule
@@ -286,18 +1333,39 @@ export async function rulesRoutes(fastify: FastifyInstance): Promise<void> {
 
       // Get existing rule to know which worker's cache to invalidate
       const existingRule = ruleRepository.findById(request.params.id);
+
+      const mergedError = validateMergedRuleUpdate(validation.data, existingRule);
+      if (mergedError) {
+        return reply.status(400).send({ error: 'Invalid request', message: mergedError });
+      }
       
-      // Extract workerId from request body
+      // Extract workerId and ruleSetId from request body; a rule belongs to a worker or a rule set, not both
       const body = request.body as Record<string, unknown>;
       const updateData = { ...validation.data } as any;
       if (body.workerId !== undefined) {
         updateData.workerId = body.workerId || null;
       }
+      if (body.ruleSetId !== undefined) {
+        updateData.ruleSetId = body.ruleSetId || null;
+      }
+      if (updateData.workerId && updateData.ruleSetId) {
+        return reply.status(400).send({ error: 'Invalid request', message: 'workerId and ruleSetId cannot both be set' });
+      }
+      const ruleSetService = new RuleSetService(db);
+      if (updateData.ruleSetId) {
+        if (typeof updateData.ruleSetId !== 'string' || !ruleSetService.exists(updateData.ruleSetId)) {
+          return reply.status(400).send({ error: 'Invalid request', message: 'Rule set not found' });
+        }
+        updateData.workerId = null;
+      } else if (updateData.workerId) {
+        updateData.ruleSetId = null;
+      }
 
       const rule = ruleRepository.update(request.params.id, updateData);
       if (!rule) {
         return reply.status(404).send({ error: 'Rule not found' });
       }
+      new RuleHistoryService(db).record('filter', rule.id, 'update', existingRule, rule, getHistoryActor((request as AuthenticatedRequest).user));
 
       // Invalidate cache for affected workers (Requirement 4.4)
       const ruleCache = getRuleCache();
@@ -311,6 +1379,8 @@ export async function rulesRoutes(fastify: FastifyInstance): Promise<void> {
       if (!existingRule?.workerId || !rule.workerId) {
         ruleCache.invalidate(undefined);
       }
+      ruleSetService.invalidateRuleSetCaches(existingRule?.ruleSetId);
+      ruleSetService.invalidateRuleSetCaches(rule.ruleSetId);
 
       // Log admin action (Requirement 5.2)
       const logRepository = new LogRepository(db);
@@ -323,16 +1393,36 @@ export async function rulesRoutes(fastify: FastifyInstance): Promise<void> {
           matchType: existingRule.matchType,
           matchMode: existingRule.matchMode,
           pattern: existingRule.pattern,
+          action: existingRule.action,
+          forwardTo: existingRule.forwardTo || null,
+          priority: existingRule.priority,
+          activeFrom: existingRule.activeFrom || null,
+          activeUntil: existingRule.activeUntil || null,
+          timeWindows: existingRule.timeWindows || null,
+          timezone: existingRule.timezone || null,
+          mode: existingRule.mode,
+          normalize: existingRule.normalize ?? false,
           enabled: existingRule.enabled,
           workerId: existingRule.workerId || null,
+          ruleSetId: existingRule.ruleSetId || null,
         } : null,
         after: {
           category: rule.category,
           matchType: rule.matchType,
           matchMode: rule.matchMode,
           pattern: rule.pattern,
+          action: rule.action,
+          forwardTo: rule.forwardTo || null,
+          priority: rule.priority,
+          activeFrom: rule.activeFrom || null,
+          activeUntil: rule.activeUntil || null,
+          timeWindows: rule.timeWindows || null,
+          timezone: rule.timezone || null,
+          mode: rule.mode,
+          normalize: rule.normalize ?? false,
           enabled: rule.enabled,
           workerId: rule.workerId || null,
+          ruleSetId: rule.ruleSetId || null,
         },
       }, rule.workerId || 'global');
 
@@ -369,12 +1459,15 @@ export async function rulesRoutes(fastify: FastifyInstance): Promise<void> {
 
       // Invalidate cache for this worker (Requirement 4.4)
       if (rule) {
+        new RuleHistoryService(db).record('filter', rule.id, 'delete', rule, null, getHistoryActor((request as AuthenticatedRequest).user));
+
         const ruleCache = getRuleCache();
         ruleCache.invalidate(rule.workerId);
         // Also invalidate global cache if this was a global rule
         if (!rule.workerId) {
           ruleCache.invalidate(undefined);
         }
+        new RuleSetService(db).invalidateRuleSetCaches(rule.ruleSetId);
         
         // Log admin action (Requirement 5.3)
         const logRepository = new LogRepository(db);
@@ -389,6 +1482,7 @@ export async function rulesRoutes(fastify: FastifyInstance): Promise<void> {
             pattern: rule.pattern,
             enabled: rule.enabled,
             workerId: rule.workerId || null,
+            ruleSetId: rule.ruleSetId || null,
           },
         }, rule.workerId || 'global');
       }
@@ -411,10 +1505,12 @@ export async function rulesRoutes(fastify: FastifyInstance): Promise<void> {
       const db = getDatabase();
       const ruleRepository = new RuleRepository(db);
 
+      const existingRule = ruleRepository.findById(request.params.id);
       const rule = ruleRepository.toggle(request.params.id);
       if (!rule) {
         return reply.status(404).send({ error: 'Rule not found' });
       }
+      new RuleHistoryService(db).record('filter', rule.id, 'toggle', existingRule, rule, getHistoryActor((request as AuthenticatedRequest).user));
 
       // Invalidate cache for this worker (Requirement 4.4)
       const ruleCache = getRuleCache();
@@ -423,6 +1519,7 @@ export async function rulesRoutes(fastify: FastifyInstance): Promise<void> {
       if (!rule.workerId) {
         ruleCache.invalidate(undefined);
       }
+      new RuleSetService(db).invalidateRuleSetCaches(rule.ruleSetId);
 
       return reply.send(rule);
     } catch (error) {
@@ -430,4 +1527,135 @@ export async function rulesRoutes(fastify: FastifyInstance): Promise<void> {
       return reply.status(500).send({ error: 'Internal error' });
     }
   });
+
+  /**
+   * POST /api/rules/:id/promote
+   * Switch a shadow rule to active so it starts deciding what happens to email
+   */
+  fastify.post('/:id/promote', async (request: FastifyRequest<{ Params: RuleParams }>, reply: FastifyReply) => {
+    try {
+      const db = getDatabase();
+      const ruleRepository = new RuleRepository(db);
+
+      const existingRule = ruleRepository.findById(request.params.id);
+      if (!existingRule) {
+        return reply.status(404).send({ error: 'Rule not found' });
+      }
+      if (existingRule.mode !== 'shadow') {
+        return reply.status(400).send({ error: 'Invalid request', message: 'Rule is not in shadow mode' });
+      }
+
+      const rule = ruleRepository.update(existingRule.id, { mode: 'active' });
+      if (!rule) {
+        return reply.status(404).send({ error: 'Rule not found' });
+      }
+      new RuleHistoryService(db).record('filter', rule.id, 'promote', existingRule, rule, getHistoryActor((request as AuthenticatedRequest).user));
+
+      // Invalidate cache for this worker (Requirement 4.4)
+      const ruleCache = getRuleCache();
+      ruleCache.invalidate(rule.workerId);
+      if (!rule.workerId) {
+        ruleCache.invalidate(undefined);
+      }
+      new RuleSetService(db).invalidateRuleSetCaches(rule.ruleSetId);
+
+      const logRepository = new LogRepository(db);
+      logRepository.createAdminLog('影子规则转为生效', {
+        action: 'promote',
+        entityType: 'rule',
+        entityId: rule.id,
+        rule: {
+          category: rule.category,
+          matchType: rule.matchType,
+          matchMode: rule.matchMode,
+          pattern: rule.pattern,
+          workerId: rule.workerId || null,
+          ruleSetId: rule.ruleSetId || null,
+        },
+        shadowStats: new StatsRepository(db).findShadowStats(rule.id),
+      }, rule.workerId || 'global');
+
+      return reply.send(rule);
+    } catch (error) {
+      request.log.error(error, 'Error promoting rule');
+      return reply.status(500).send({ error: 'Internal error' });
+    }
+  });
+
+  /**
+   * GET /api/rules/:id/history
+   * List the versions of a rule, newest first; available after the rule is deleted
+   */
+  fastify.get('/:id/history', async (request: FastifyRequest<{ Params: RuleParams }>, reply: FastifyReply) => {
+    try {
+      const history = new RuleHistoryService(getDatabase()).getHistory('filter', request.params.id);
+      return reply.send({ history });
+    } catch (error) {
+      request.log.error(error, 'Error fetching rule history');
+      return reply.status(500).send({ error: 'Internal error' });
+    }
+  });
+
+  /**
+   * GET /api/rules/:id/history/diff
+   * Compare the rule after two versions
+   * Query params: to (default: latest version), from (default: the version before to)
+   */
+  fastify.get('/:id/history/diff', async (request: FastifyRequest<{ Params: RuleParams; Querystring: RuleDiffQuery }>, reply: FastifyReply) => {
+    const from = request.query.from !== undefined ? Number(request.query.from) : undefined;
+    const to = request.query.to !== undefined ? Number(request.query.to) : undefined;
+    if ((from !== undefined && !Number.isInteger(from)) || (to !== undefined && !Number.isInteger(to))) {
+      return reply.status(400).send({ error: 'Invalid request', message: 'from and to must be version numbers' });
+    }
+
+    try {
+      const diff = new RuleHistoryService(getDatabase()).diffVersions('filter', request.params.id, from, to);
+      if (!diff) {
+        return reply.status(404).send({ error: 'Version not found' });
+      }
+      return reply.send(diff);
+    } catch (error) {
+      request.log.error(error, 'Error diffing rule versions');
+      return reply.status(500).send({ error: 'Internal error' });
+    }
+  });
+
+  /**
+   * POST /api/rules/:id/history/:version/revert
+   * Restore the rule as it was after a version, recreating it if it was deleted
+   */
+  fastify.post('/:id/history/:version/revert', async (request: FastifyRequest<{ Params: RuleVersionParams }>, reply: FastifyReply) => {
+    const version = Number(request.params.version);
+    if (!Number.isInteger(version) || version < 1) {
+      return reply.status(400).send({ error: 'Invalid request', message: 'version must be a positive integer' });
+    }
+
+    try {
+      const db = getDatabase();
+      const { rule, entry } = new RuleHistoryService(db).revertFilterRule(
+        request.params.id,
+        version,
+        getHistoryActor((request as AuthenticatedRequest).user)
+      );
+
+      const logRepository = new LogRepository(db);
+      logRepository.createAdminLog('回滚规则', {
+        action: 'revert',
+        entityType: 'rule',
+        entityId: rule.id,
+        revertedTo: version,
+        version: entry.version,
+        recreated: entry.before === null,
+      }, rule.workerId || 'global');
+
+      return reply.send({ rule, version: entry.version });
+    } catch (error) {
+      if (error instanceof RuleRevertError) {
+        const status = error.code === 'VERSION_NOT_FOUND' ? 404 : error.code === 'DUPLICATE_RULE' ? 409 : 400;
+        return reply.status(status).send({ error: 'Cannot revert rule', message: error.message, code: error.code });
+      }
+      request.log.error(error, 'Error reverting rule');
+      return reply.status(500).send({ error: 'Internal error' });
+    }
+  });
 }
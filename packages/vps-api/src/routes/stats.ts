@@ -7,15 +7,31 @@
 
 import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { StatsService } from '../services/stats.service.js';
-import { StatsRepository } from '../db/stats-repository.js';
+import { StatsRepository, type TimeseriesGranularity } from '../db/stats-repository.js';
 import { LogRepository } from '../db/log-repository.js';
+import { RuleRepository } from '../db/rule-repository.js';
 import { getDatabase } from '../db/index.js';
 import { authMiddleware } from '../middleware/auth.js';
+import {
+  fillTimeseries,
+  DEFAULT_TIMESERIES_DAYS,
+  MAX_TIMESERIES_DAYS,
+  TIMESERIES_GRANULARITIES,
+} from '../services/rule-timeseries.js';
 
 interface StatsQuerystring {
   workerName?: string;
 }
 
+interface TimeseriesQuerystring {
+  granularity?: string;
+  days?: string;
+  workerId?: string;
+}
+
+/** Days of daily hits shown in the rules table sparklines */
+const SPARKLINE_DAYS = 14;
+
 /**
  * Register stats routes
  */
@@ -86,6 +102,73 @@ export async function statsRoutes(fastify: FastifyInstance): Promise<void> {
     }
   });
 
+  /**
+   * GET /api/stats/rules/sparklines
+   * Get daily hit counts of every rule over the last days, for the rules table
+   * Rules without hits in the range are omitted
+   */
+  fastify.get('/rules/sparklines', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const db = getDatabase();
+      const statsRepository = new StatsRepository(db);
+
+      const to = Date.now();
+      const from = to - (SPARKLINE_DAYS - 1) * 24 * 60 * 60 * 1000;
+      const sparklines: Record<string, number[]> = {};
+      for (const [ruleId, points] of statsRepository.getDailyHitsByRule(new Date(from))) {
+        sparklines[ruleId] = fillTimeseries(points, 'day', from, to).map((point) => point.hits);
+      }
+      return reply.send({ sparklines, days: SPARKLINE_DAYS });
+    } catch (error) {
+      request.log.error(error, 'Error fetching rule sparklines');
+      return reply.status(500).send({ error: 'Internal error' });
+    }
+  });
+
+  /**
+   * GET /api/stats/rules/:id/timeseries
+   * Get hourly or daily hits of a rule, with zero for buckets without hits
+   * Query params: granularity (hour|day, default: day), days (range, default: 2 for hour, 30 for day),
+   * workerId (optional) - only hits on that worker, empty string for hits without a worker
+   */
+  fastify.get<{ Params: { id: string }; Querystring: TimeseriesQuerystring }>('/rules/:id/timeseries', async (request, reply) => {
+    try {
+      const db = getDatabase();
+      const statsRepository = new StatsRepository(db);
+      const ruleRepository = new RuleRepository(db);
+
+      const { id } = request.params;
+      const granularity = (request.query.granularity || 'day') as TimeseriesGranularity;
+      if (!TIMESERIES_GRANULARITIES.includes(granularity)) {
+        return reply.status(400).send({ error: 'Invalid granularity', message: `granularity must be one of: ${TIMESERIES_GRANULARITIES.join(', ')}` });
+      }
+      const days = request.query.days === undefined ? DEFAULT_TIMESERIES_DAYS[granularity] : Number(request.query.days);
+      if (!Number.isInteger(days) || days < 1 || days > MAX_TIMESERIES_DAYS[granularity]) {
+        return reply.status(400).send({ error: 'Invalid days', message: `days must be an integer between 1 and ${MAX_TIMESERIES_DAYS[granularity]}` });
+      }
+      if (!ruleRepository.findById(id)) {
+        return reply.status(404).send({ error: 'Rule not found' });
+      }
+
+      const { workerId } = request.query;
+      const to = Date.now();
+      const from = to - days * 24 * 60 * 60 * 1000;
+      const points = fillTimeseries(statsRepository.getRuleTimeseries(id, granularity, new Date(from), workerId), granularity, from, to);
+      return reply.send({
+        ruleId: id,
+        granularity,
+        days,
+        workerId: workerId ?? null,
+        totalHits: points.reduce((sum, point) => sum + point.hits, 0),
+        totalBlocked: points.reduce((sum, point) => sum + point.blocked, 0),
+        points,
+      });
+    } catch (error) {
+      request.log.error(error, 'Error fetching rule timeseries');
+      return reply.status(500).send({ error: 'Internal error' });
+    }
+  });
+
   /**
    * GET /api/stats/trending
    * Get top blocked rules in recent time period (auto-monitoring)
@@ -0,0 +1,460 @@
+/**
+ * Rule Transfer Routes
+ * Export and import filter rules, watch rules, monitoring rules, ratio monitors
+ * and forward configuration as a versioned JSON/YAML document, and filter rules
+ * as Sieve scripts
+ */
+
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import type { SubjectMatchMode, RatioTimeWindow } from '@email-filter/shared';
+import { getDatabase } from '../db/index.js';
+import { RuleRepository } from '../db/rule-repository.js';
+import { WorkerRepository, type WorkerInstance } from '../db/worker-repository.js';
+import { LogRepository } from '../db/log-repository.js';
+import { authMiddleware } from '../middleware/auth.js';
+import { getRuleCache } from '../services/rule-cache.instance.js';
+import { getForwardRuleCache } from '../services/forward-rule-cache.instance.js';
+import { sieveToRules, rulesToSieve, SieveSyntaxError, type SieveImportResult, type SieveIssue } from '../services/sieve-converter.js';
+import { validateCreateRuleDTO } from '../services/monitoring/rule.service.js';
+import {
+  RuleTransferService,
+  RULE_TRANSFER_VERSION,
+  parseTransferDocument,
+  serializeTransferDocument,
+  type RuleTransferDocument,
+  type TransferConflict,
+  type TransferFormat,
+  type ImportMode,
+  type ImportPlan,
+  type MonitoringRuleRef,
+  type TransferRatioMonitor,
+} from '../services/rule-transfer.service.js';
+import { validateCreateRule } from './rules.js';
+import { validateCreateDTO as validateCreateWatchRule } from './watch.js';
+import { validateCreateRuleBody as validateCreateMonitoringRule } from './monitoring.js';
+import { validateCreateForwardRule, validateForwardConfig } from './forward.js';
+
+const VALID_FORMATS: TransferFormat[] = ['json', 'yaml'];
+const VALID_IMPORT_MODES: ImportMode[] = ['merge', 'replace'];
+const VALID_SUBJECT_MATCH_MODES: SubjectMatchMode[] = ['exact', 'contains', 'startsWith', 'endsWith', 'regex'];
+const VALID_RATIO_TIME_WINDOWS: RatioTimeWindow[] = ['1h', '12h', '24h'];
+
+interface ExportQuery {
+  worker?: string;
+  format?: string;
+}
+
+/**
+ * Resolve a worker name to a worker; empty means the global scope
+ */
+function resolveWorker(name: unknown): { worker: WorkerInstance | null; error?: string } {
+  if (name === undefined || name === null || name === '' || name === 'global') {
+    return { worker: null };
+  }
+  if (typeof name !== 'string') {
+    return { worker: null, error: 'worker must be a worker name' };
+  }
+  const worker = new WorkerRepository(getDatabase()).findByName(name);
+  return worker ? { worker } : { worker: null, error: `Worker not found: ${name}` };
+}
+
+function isThreshold(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= 100;
+}
+
+function validateRuleRef(value: unknown): MonitoringRuleRef | null {
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+  const ref = value as Record<string, unknown>;
+  if (typeof ref.merchant !== 'string' || !ref.merchant || typeof ref.name !== 'string' || !ref.name) {
+    return null;
+  }
+  return { merchant: ref.merchant, name: ref.name };
+}
+
+/**
+ * Validate a ratio monitor entry the way the ratio monitoring routes do,
+ * with monitoring rules referenced by merchant and name
+ */
+function validateRatioMonitor(body: unknown): { valid: boolean; error?: string; data?: TransferRatioMonitor } {
+  if (!body || typeof body !== 'object') {
+    return { valid: false, error: 'Entry must be an object' };
+  }
+  const data = body as Record<string, unknown>;
+
+  if (typeof data.name !== 'string' || !data.name || typeof data.tag !== 'string' || !data.tag) {
+    return { valid: false, error: 'Missing required fields: name, tag' };
+  }
+  const firstRule = validateRuleRef(data.firstRule);
+  const secondRule = validateRuleRef(data.secondRule);
+  if (!firstRule || !secondRule) {
+    return { valid: false, error: 'firstRule and secondRule must reference a monitoring rule by merchant and name' };
+  }
+  if (!isThreshold(data.thresholdPercent)) {
+    return { valid: false, error: 'thresholdPercent must be between 0 and 100' };
+  }
+  if (!VALID_RATIO_TIME_WINDOWS.includes(data.timeWindow as RatioTimeWindow)) {
+    return { valid: false, error: `timeWindow must be one of: ${VALID_RATIO_TIME_WINDOWS.join(', ')}` };
+  }
+
+  const steps: NonNullable<TransferRatioMonitor['steps']> = [];
+  if (data.steps !== undefined) {
+    if (!Array.isArray(data.steps)) {
+      return { valid: false, error: 'steps must be an array' };
+    }
+    for (const value of data.steps) {
+      const step = (value || {}) as Record<string, unknown>;
+      const rule = validateRuleRef(step.rule);
+      if (!rule || !Number.isInteger(step.order) || !isThreshold(step.thresholdPercent)) {
+        return { valid: false, error: 'Each step needs a rule reference, an integer order and a thresholdPercent between 0 and 100' };
+      }
+      steps.push({ rule, order: step.order as number, thresholdPercent: step.thresholdPercent });
+    }
+  }
+
+  return {
+    valid: true,
+    data: {
+      name: data.name,
+      tag: data.tag,
+      firstRule,
+      secondRule,
+      steps,
+      thresholdPercent: data.thresholdPercent,
+      timeWindow: data.timeWindow as RatioTimeWindow,
+      enabled: data.enabled !== undefined ? Boolean(data.enabled) : true,
+    },
+  };
+}
+
+/**
+ * Validate every entry of a document with the validators of its own routes
+ * Invalid entries are reported as conflicts and left out of the document.
+ */
+function validateTransferDocument(raw: unknown): {
+  error?: string;
+  document?: RuleTransferDocument;
+  conflicts: TransferConflict[];
+} {
+  let value = raw;
+  if (typeof raw === 'string') {
+    try {
+      value = parseTransferDocument(raw);
+    } catch (error) {
+      return { error: `Invalid document: ${(error as Error).message}`, conflicts: [] };
+    }
+  }
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { error: 'document must be an object or a JSON/YAML string', conflicts: [] };
+  }
+
+  const data = value as Record<string, unknown>;
+  if (data.version !== RULE_TRANSFER_VERSION) {
+    return { error: `Unsupported document version: ${String(data.version)} (expected ${RULE_TRANSFER_VERSION})`, conflicts: [] };
+  }
+
+  const forward = (data.forward || {}) as Record<string, unknown>;
+  const sections = {
+    filterRules: data.filterRules ?? [],
+    watchRules: data.watchRules ?? [],
+    monitoringRules: data.monitoringRules ?? [],
+    ratioMonitors: data.ratioMonitors ?? [],
+    forwardRules: forward.rules ?? [],
+  };
+  for (const [name, entries] of Object.entries(sections)) {
+    if (!Array.isArray(entries)) {
+      return { error: `${name} must be an array`, conflicts: [] };
+    }
+  }
+
+  const conflicts: TransferConflict[] = [];
+  const document: RuleTransferDocument = {
+    version: RULE_TRANSFER_VERSION,
+    exportedAt: typeof data.exportedAt === 'string' ? data.exportedAt : new Date().toISOString(),
+    worker: typeof data.worker === 'string' && data.worker ? data.worker : null,
+    filterRules: [],
+    watchRules: [],
+    monitoringRules: [],
+    ratioMonitors: [],
+    forward: { rules: [] },
+  };
+
+  (sections.filterRules as unknown[]).forEach((entry, index) => {
+    const validation = validateCreateRule(entry);
+    if (!validation.valid || !validation.data) {
+      conflicts.push({ section: 'filterRules', key: `#${index + 1}`, message: validation.error || 'Invalid rule' });
+      return;
+    }
+    // Priorities are instance specific; imported rules are appended in document order
+    const rule = { ...validation.data };
+    delete rule.priority;
+    const tags = (entry as Record<string, unknown>).tags;
+    document.filterRules.push({
+      ...rule,
+      action: rule.action ?? 'drop',
+      mode: rule.mode ?? 'active',
+      normalize: rule.normalize || undefined,
+      tags: Array.isArray(tags) ? tags.filter((t): t is string => typeof t === 'string') : undefined,
+    });
+  });
+
+  (sections.watchRules as unknown[]).forEach((entry, index) => {
+    const validation = validateCreateWatchRule(entry);
+    if (!validation.valid || !validation.data) {
+      conflicts.push({ section: 'watchRules', key: `#${index + 1}`, message: validation.error || 'Invalid watch rule' });
+      return;
+    }
+    const enabled = (entry as Record<string, unknown>).enabled;
+    document.watchRules.push({
+      ...validation.data,
+      normalize: validation.data.normalize || undefined,
+      enabled: enabled !== undefined ? Boolean(enabled) : true,
+    });
+  });
+
+  (sections.monitoringRules as unknown[]).forEach((entry, index) => {
+    const validation = validateCreateMonitoringRule(entry);
+    const ruleValidation = validation.data ? validateCreateRuleDTO(validation.data) : null;
+    const matchMode = (entry as Record<string, unknown> | null)?.matchMode;
+    let error = validation.error || ruleValidation?.errors[0]?.message;
+    if (!error && matchMode !== undefined && !VALID_SUBJECT_MATCH_MODES.includes(matchMode as SubjectMatchMode)) {
+      error = `matchMode must be one of: ${VALID_SUBJECT_MATCH_MODES.join(', ')}`;
+    }
+    if (error || !validation.data) {
+      conflicts.push({ section: 'monitoringRules', key: `#${index + 1}`, message: error || 'Invalid monitoring rule' });
+      return;
+    }
+    const rule = { ...validation.data };
+    delete rule.workerScope;
+    document.monitoringRules.push({
+      ...rule,
+      matchMode: (matchMode as SubjectMatchMode | undefined) ?? 'contains',
+      normalize: rule.normalize || undefined,
+    });
+  });
+
+  (sections.ratioMonitors as unknown[]).forEach((entry, index) => {
+    const validation = validateRatioMonitor(entry);
+    if (!validation.valid || !validation.data) {
+      conflicts.push({ section: 'ratioMonitors', key: `#${index + 1}`, message: validation.error || 'Invalid ratio monitor' });
+      return;
+    }
+    document.ratioMonitors.push(validation.data);
+  });
+
+  (sections.forwardRules as unknown[]).forEach((entry, index) => {
+    // Forward rules take the scope of the document, not a worker ID
+    const body = { ...(entry || {}) } as Record<string, unknown>;
+    delete body.workerId;
+    const validation = validateCreateForwardRule(body);
+    if (!validation.valid || !validation.data) {
+      conflicts.push({ section: 'forwardRules', key: `#${index + 1}`, message: validation.error || 'Invalid forward rule' });
+      return;
+    }
+    document.forward.rules.push({
+      recipientPattern: validation.data.recipientPattern,
+      matchMode: validation.data.matchMode,
+      forwardTo: validation.data.forwardTo,
+      enabled: validation.data.enabled ?? true,
+    });
+  });
+
+  if (forward.defaultForwardTo !== undefined) {
+    const validation = validateForwardConfig({ defaultForwardTo: forward.defaultForwardTo });
+    if (!validation.valid || !validation.data) {
+      conflicts.push({ section: 'forwardConfig', key: 'defaultForwardTo', message: validation.error || 'Invalid address' });
+    } else {
+      document.forward.defaultForwardTo = validation.data.defaultForwardTo;
+    }
+  }
+
+  return { document, conflicts };
+}
+
+/**
+ * Build the import response, leaving out the entries themselves
+ */
+function toReport(plan: ImportPlan, worker: WorkerInstance | null, dryRun: boolean) {
+  return {
+    dryRun,
+    mode: plan.mode,
+    worker: worker ? worker.name : null,
+    summary: plan.summary,
+    changes: plan.changes.map(({ section, key, action }) => ({ section, key, action })),
+    conflicts: plan.conflicts,
+  };
+}
+
+/**
+ * Plan an import into the requested (or the document's) scope and apply it unless
+ * this is a dry run; a real import is refused while there are conflicts
+ */
+async function importDocument(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  raw: unknown,
+  options: { worker: unknown; mode: ImportMode; dryRun: boolean; source: 'document' | 'sieve'; unsupported?: SieveIssue[] }
+) {
+  const validation = validateTransferDocument(raw);
+  if (validation.error || !validation.document) {
+    return reply.status(400).send({ error: 'Invalid request', message: validation.error });
+  }
+
+  const { worker, error } = resolveWorker(options.worker !== undefined ? options.worker : validation.document.worker);
+  if (error) {
+    return reply.status(404).send({ error: 'Not found', message: error });
+  }
+
+  try {
+    const db = getDatabase();
+    const service = new RuleTransferService(db);
+    const plan = service.plan(validation.document, worker, options.mode);
+    plan.conflicts.unshift(...validation.conflicts);
+
+    const report = {
+      ...toReport(plan, worker, options.dryRun),
+      ...(options.unsupported ? { unsupported: options.unsupported } : {}),
+    };
+    if (options.dryRun) {
+      return reply.send(report);
+    }
+    if (plan.conflicts.length > 0) {
+      return reply.status(409).send({ error: 'Conflict', message: '导入内容存在冲突', ...report });
+    }
+
+    service.apply(plan, worker);
+    getRuleCache().invalidateAll();
+    getForwardRuleCache().invalidateAll();
+
+    new LogRepository(db).createAdminLog(options.source === 'sieve' ? '导入Sieve脚本' : '导入配置', {
+      action: 'import',
+      entityType: 'config',
+      source: options.source,
+      mode: options.mode,
+      worker: worker ? worker.name : null,
+      summary: plan.summary,
+    }, worker ? worker.name : 'global');
+
+    return reply.send(report);
+  } catch (err) {
+    request.log.error(err, 'Error importing rules');
+    return reply.status(500).send({ error: 'Internal error' });
+  }
+}
+
+/**
+ * Register rule transfer routes
+ */
+export async function transferRoutes(fastify: FastifyInstance): Promise<void> {
+  fastify.addHook('preHandler', authMiddleware);
+
+  /**
+   * GET /api/transfer/export?worker=<name>&format=json|yaml
+   * Export one scope; without a worker the global scope is exported
+   */
+  fastify.get('/export', async (request: FastifyRequest<{ Querystring: ExportQuery }>, reply: FastifyReply) => {
+    const format = (request.query.format || 'json') as TransferFormat;
+    if (!VALID_FORMATS.includes(format)) {
+      return reply.status(400).send({ error: 'Invalid request', message: `format must be one of: ${VALID_FORMATS.join(', ')}` });
+    }
+    const { worker, error } = resolveWorker(request.query.worker);
+    if (error) {
+      return reply.status(404).send({ error: 'Not found', message: error });
+    }
+
+    try {
+      const document = new RuleTransferService(getDatabase()).exportDocument(worker);
+      const date = document.exportedAt.slice(0, 10);
+      const filename = `email-filter-rules-${worker ? worker.name : 'global'}-${date}.${format}`;
+
+      reply.header('Content-Type', format === 'yaml' ? 'application/yaml; charset=utf-8' : 'application/json; charset=utf-8');
+      reply.header('Content-Disposition', `attachment; filename="${encodeURIComponent(filename)}"`);
+      return reply.send(serializeTransferDocument(document, format));
+    } catch (err) {
+      request.log.error(err, 'Error exporting rules');
+      return reply.status(500).send({ error: 'Internal error' });
+    }
+  });
+
+  /**
+   * POST /api/transfer/import
+   * Body: { document (object or JSON/YAML text), worker?, mode?: merge|replace, dryRun? }
+   * The target worker defaults to the document's worker. A dry run reports the
+   * creates, updates, deletes and conflicts without changing anything; a real
+   * import is refused while there are conflicts and otherwise runs in one transaction.
+   */
+  fastify.post('/import', async (request: FastifyRequest, reply: FastifyReply) => {
+    const body = (request.body || {}) as Record<string, unknown>;
+
+    const mode = (body.mode ?? 'merge') as ImportMode;
+    if (!VALID_IMPORT_MODES.includes(mode)) {
+      return reply.status(400).send({ error: 'Invalid request', message: `mode must be one of: ${VALID_IMPORT_MODES.join(', ')}` });
+    }
+
+    return importDocument(request, reply, body.document, {
+      worker: body.worker,
+      mode,
+      dryRun: body.dryRun === true,
+      source: 'document',
+    });
+  });
+
+  /**
+   * GET /api/transfer/sieve/export?worker=<name>
+   * Export the enabled rules that apply to a worker (its own and global rules),
+   * or the global rules without a worker, as a Sieve script
+   */
+  fastify.get('/sieve/export', async (request: FastifyRequest<{ Querystring: ExportQuery }>, reply: FastifyReply) => {
+    const { worker, error } = resolveWorker(request.query.worker);
+    if (error) {
+      return reply.status(404).send({ error: 'Not found', message: error });
+    }
+
+    try {
+      const ruleRepository = new RuleRepository(getDatabase());
+      const rules = worker ? ruleRepository.findEnabled(worker.id) : ruleRepository.findGlobal();
+      const { script } = rulesToSieve(rules);
+      const filename = `email-filter-${worker ? worker.name : 'global'}.sieve`;
+
+      reply.header('Content-Type', 'application/sieve; charset=utf-8');
+      reply.header('Content-Disposition', `attachment; filename="${encodeURIComponent(filename)}"`);
+      return reply.send(script);
+    } catch (err) {
+      request.log.error(err, 'Error exporting Sieve script');
+      return reply.status(500).send({ error: 'Internal error' });
+    }
+  });
+
+  /**
+   * POST /api/transfer/sieve/import
+   * Body: { script, worker?, dryRun? }
+   * Converts the script into filter rules and merges them into the scope;
+   * unsupported constructs are listed under unsupported and otherwise ignored
+   */
+  fastify.post('/sieve/import', async (request: FastifyRequest, reply: FastifyReply) => {
+    const body = (request.body || {}) as Record<string, unknown>;
+    if (typeof body.script !== 'string' || !body.script.trim()) {
+      return reply.status(400).send({ error: 'Invalid request', message: 'script is required' });
+    }
+
+    let converted: SieveImportResult;
+    try {
+      converted = sieveToRules(body.script);
+    } catch (err) {
+      if (err instanceof SieveSyntaxError) {
+        return reply.status(400).send({ error: 'Invalid script', message: err.message, line: err.line });
+      }
+      throw err;
+    }
+
+    // Only filter rules are in the document, so the import always merges
+    return importDocument(request, reply, { version: RULE_TRANSFER_VERSION, filterRules: converted.rules }, {
+      worker: body.worker,
+      mode: 'merge',
+      dryRun: body.dryRun === true,
+      source: 'sieve',
+      unsupported: converted.issues,
+    });
+  });
+}
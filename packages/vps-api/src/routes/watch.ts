@@ -4,14 +4,16 @@
  */
 
 import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { analyzeRegex } from '@email-filter/shared';
 import { WatchRepository, type CreateWatchRuleDTO } from '../db/watch-repository.js';
 import { getDatabase } from '../db/index.js';
 import { authMiddleware } from '../middleware/auth.js';
+import { validateDomainTreePattern } from './rules.js';
 
-const VALID_MATCH_TYPES = ['sender', 'subject', 'domain'];
-const VALID_MATCH_MODES = ['exact', 'contains', 'startsWith', 'endsWith', 'regex'];
+const VALID_MATCH_TYPES = ['sender', 'subject', 'domain', 'recipient', 'recipientDomain'];
+const VALID_MATCH_MODES = ['exact', 'contains', 'startsWith', 'endsWith', 'regex', 'domainTree'];
 
-function validateCreateDTO(body: unknown): { valid: boolean; error?: string; data?: CreateWatchRuleDTO } {
+export function validateCreateDTO(body: unknown): { valid: boolean; error?: string; data?: CreateWatchRuleDTO } {
   if (!body || typeof body !== 'object') {
     return { valid: false, error: 'Request body is required' };
   }
@@ -21,14 +23,29 @@ function validateCreateDTO(body: unknown): { valid: boolean; error?: string; dat
     return { valid: false, error: 'name is required' };
   }
   if (!data.matchType || !VALID_MATCH_TYPES.includes(data.matchType as string)) {
-    return { valid: false, error: 'matchType must be sender, subject, or domain' };
+    return { valid: false, error: 'matchType must be sender, subject, domain, recipient, or recipientDomain' };
   }
   if (!data.matchMode || !VALID_MATCH_MODES.includes(data.matchMode as string)) {
-    return { valid: false, error: 'matchMode must be exact, contains, startsWith, endsWith, or regex' };
+    return { valid: false, error: 'matchMode must be exact, contains, startsWith, endsWith, regex, or domainTree' };
   }
   if (!data.pattern || typeof data.pattern !== 'string') {
     return { valid: false, error: 'pattern is required' };
   }
+  if (data.normalize !== undefined && typeof data.normalize !== 'boolean') {
+    return { valid: false, error: 'normalize must be a boolean' };
+  }
+  if (data.matchMode === 'regex') {
+    const analysis = analyzeRegex(data.pattern);
+    if (!analysis.safe) {
+      return { valid: false, error: `pattern is not a valid regular expression: ${analysis.reason}` };
+    }
+  }
+  if (data.matchMode === 'domainTree') {
+    const domainTreeError = validateDomainTreePattern(data.matchType, data.pattern);
+    if (domainTreeError) {
+      return { valid: false, error: domainTreeError };
+    }
+  }
 
   return {
     valid: true,
@@ -37,6 +54,7 @@ function validateCreateDTO(body: unknown): { valid: boolean; error?: string; dat
       matchType: data.matchType as CreateWatchRuleDTO['matchType'],
       matchMode: data.matchMode as CreateWatchRuleDTO['matchMode'],
       pattern: data.pattern as string,
+      normalize: data.normalize as boolean | undefined,
     },
   };
 }
@@ -11,14 +11,18 @@
  */
 
 import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
-import type { EmailWebhookPayload, FilterDecision, FilterRule } from '@email-filter/shared';
-import { FilterService, type FilterResult, filterEmail } from '../services/filter.service.js';
+import type { EmailWebhookPayload, EmailAuthResults, FilterDecision, FilterRule } from '@email-filter/shared';
+import { FilterService, type FilterResult, type ShadowMatch, filterEmail, evaluateShadowRules } from '../services/filter.service.js';
 import { RuleRepository, type FilterRuleWithWorker } from '../db/rule-repository.js';
 import { WorkerRepository } from '../db/worker-repository.js';
+import { LogRepository } from '../db/log-repository.js';
+import { ForwardRuleRepository } from '../db/forward-rule-repository.js';
 import { getDatabase } from '../db/index.js';
 import { config } from '../config.js';
 import { authMiddleware } from '../middleware/auth.js';
 import { getRuleCache } from '../services/rule-cache.instance.js';
+import { getForwardRuleCache } from '../services/forward-rule-cache.instance.js';
+import { compileRuleSet } from '../services/compiled-matcher.js';
 import { getAsyncTaskProcessor } from '../services/async-task-processor.instance.js';
 import { DynamicRuleService } from '../services/dynamic-rule.service.js';
 import { getPerformanceMetrics } from '../services/performance-metrics.js';
@@ -34,7 +38,63 @@ function isValidWebhookPayload(body: unknown): body is EmailWebhookPayload {
     typeof payload.to === 'string' &&
     typeof payload.subject === 'string' &&
     typeof payload.messageId === 'string' &&
-    typeof payload.timestamp === 'number'
+    typeof payload.timestamp === 'number' &&
+    (payload.headers === undefined || isValidHeaders(payload.headers)) &&
+    (payload.auth === undefined || isValidAuthResults(payload.auth))
+  );
+}
+
+/**
+ * Validate forwarded headers: an object of header name to string value
+ */
+function isValidHeaders(headers: unknown): headers is Record<string, string> {
+  if (!headers || typeof headers !== 'object' || Array.isArray(headers)) return false;
+  return Object.values(headers).every((value) => typeof value === 'string');
+}
+
+/**
+ * Validate SPF/DKIM/DMARC verdicts: an object of method to verdict string
+ */
+function isValidAuthResults(auth: unknown): auth is EmailAuthResults {
+  if (!auth || typeof auth !== 'object' || Array.isArray(auth)) return false;
+  return Object.values(auth).every((value) => typeof value === 'string');
+}
+
+interface WorkerConfigQuery {
+  workerName?: string;
+}
+
+/**
+ * Forward delivery report sent by the worker when some destinations failed
+ */
+interface ForwardReportPayload {
+  messageId: string;
+  workerName?: string;
+  from?: string;
+  to?: string;
+  subject?: string;
+  delivered: string[];
+  failures: { forwardTo: string; error: string }[];
+}
+
+/**
+ * Validate forward delivery report
+ */
+function isValidForwardReport(body: unknown): body is ForwardReportPayload {
+  if (!body || typeof body !== 'object') return false;
+  const report = body as Record<string, unknown>;
+  return (
+    typeof report.messageId === 'string' &&
+    Array.isArray(report.delivered) &&
+    report.delivered.every((address) => typeof address === 'string') &&
+    Array.isArray(report.failures) &&
+    report.failures.length > 0 &&
+    report.failures.every((failure) =>
+      !!failure &&
+      typeof failure === 'object' &&
+      typeof (failure as Record<string, unknown>).forwardTo === 'string' &&
+      typeof (failure as Record<string, unknown>).error === 'string'
+    )
   );
 }
 
@@ -55,6 +115,8 @@ export interface Phase1Result {
   detectionLatencyMs?: number;
   /** Number of emails forwarded before blocking started */
   emailsForwardedBeforeBlock?: number;
+  /** Shadow rules that matched, with what they would have done */
+  shadowMatches: ShadowMatch[];
 }
 
 /**
@@ -63,8 +125,9 @@ export interface Phase1Result {
  * Performs only critical path operations:
  * 1. Worker config lookup
  * 2. Rule retrieval (with optional caching)
- * 3. Filter matching
+ * 3. Filter matching, with the forward destination picked by recipient forward rules
  * 4. Dynamic rule tracking (synchronous) - NEW
+ * 5. Shadow rule evaluation against the final decision (never changes it)
  * 
  * Requirements: 1.1, 1.2, 1.3 - Response time < 100ms (relaxed from 50ms to accommodate dynamic tracking)
  * 
@@ -96,9 +159,16 @@ export function processPhase1(payload: EmailWebhookPayload): Phase1Result {
     ruleCache.set(workerId, rules);
   }
 
-  // Step 3: Execute filter matching
-  const filterService = new FilterService(defaultForwardTo);
-  let filterResult = filterService.processEmail(payload, rules);
+  // Step 3: Execute filter matching with the compiled matcher cached alongside the rules
+  const forwardRuleCache = getForwardRuleCache();
+  let forwardRules = forwardRuleCache.get(workerId);
+  if (!forwardRules) {
+    forwardRules = new ForwardRuleRepository(db).findEnabled(workerId);
+    forwardRuleCache.set(workerId, forwardRules);
+  }
+  const filterService = new FilterService(defaultForwardTo, forwardRules);
+  const matcher = ruleCache.getMatcher(workerId) ?? compileRuleSet(rules);
+  let filterResult = filterService.processCompiled(payload, matcher);
   let decision = filterService.toApiResponse(filterResult);
 
   // Initialize dynamic rule tracking result
@@ -131,11 +201,15 @@ export function processPhase1(payload: EmailWebhookPayload): Phase1Result {
         ruleCache.set(workerId, updatedRules);
       }
       
-      filterResult = filterService.processEmail(payload, updatedRules);
+      const updatedMatcher = ruleCache.getMatcher(workerId) ?? compileRuleSet(updatedRules);
+      filterResult = filterService.processCompiled(payload, updatedMatcher);
       decision = filterService.toApiResponse(filterResult);
     }
   }
 
+  // Step 5: Shadow rules - recorded in Phase 2, the decision above is final
+  const shadowMatches = evaluateShadowRules(payload, rules, filterResult);
+
   return {
     decision,
     filterResult,
@@ -144,6 +218,7 @@ export function processPhase1(payload: EmailWebhookPayload): Phase1Result {
     dynamicRuleCreated,
     detectionLatencyMs,
     emailsForwardedBeforeBlock,
+    shadowMatches,
   };
 }
 
@@ -154,6 +229,20 @@ export async function webhookRoutes(fastify: FastifyInstance): Promise<void> {
   // Apply auth middleware to all routes in this plugin
   fastify.addHook('preHandler', authMiddleware);
 
+  /**
+   * GET /api/webhook/config
+   * Runtime configuration for a Cloudflare Worker, looked up by worker name
+   * Currently the list of email headers the worker should include in its payload
+   */
+  fastify.get('/config', async (request: FastifyRequest<{ Querystring: WorkerConfigQuery }>) => {
+    const { workerName } = request.query;
+    const worker = workerName ? new WorkerRepository(getDatabase()).findByName(workerName) : null;
+    return {
+      workerName: workerName || null,
+      forwardHeaders: worker?.forwardHeaders ?? [],
+    };
+  });
+
   /**
    * POST /api/webhook/email
    * Process incoming email webhook from Cloudflare Worker
@@ -245,6 +334,7 @@ export async function webhookRoutes(fastify: FastifyInstance): Promise<void> {
           filterResult: phase1Result.filterResult,
           workerId: phase1Result.workerId,
           defaultForwardTo: phase1Result.defaultForwardTo,
+          shadowMatches: phase1Result.shadowMatches,
         });
       });
 
@@ -258,4 +348,36 @@ export async function webhookRoutes(fastify: FastifyInstance): Promise<void> {
       });
     }
   });
+
+  /**
+   * POST /api/webhook/forward-report
+   * Record forward destinations that failed for a multi-destination email
+   * Logged as a system warning, or an error when every destination failed
+   */
+  fastify.post('/forward-report', async (request: FastifyRequest, reply: FastifyReply) => {
+    if (!isValidForwardReport(request.body)) {
+      return reply.status(400).send({
+        error: 'Invalid request',
+        message: 'Request body must include messageId, delivered, and a non-empty failures list',
+      });
+    }
+
+    const report = request.body;
+    try {
+      const level = report.delivered.length === 0 ? 'error' : 'warn';
+      new LogRepository(getDatabase()).create('system', `转发失败: ${report.subject ?? report.messageId}`, {
+        messageId: report.messageId,
+        from: report.from,
+        to: report.to,
+        subject: report.subject,
+        delivered: report.delivered,
+        failures: report.failures,
+      }, level, report.workerName || 'global');
+
+      return reply.send({ success: true });
+    } catch (error) {
+      request.log.error(error, 'Error recording forward report');
+      return reply.status(500).send({ error: 'Internal error' });
+    }
+  });
 }
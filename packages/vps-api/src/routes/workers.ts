@@ -6,6 +6,7 @@
  */
 
 import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { isValidHeaderName } from '@email-filter/shared';
 import { WorkerRepository, type CreateWorkerInput, type UpdateWorkerInput } from '../db/worker-repository.js';
 import { LogRepository } from '../db/log-repository.js';
 import { getDatabase } from '../db/index.js';
@@ -16,6 +17,35 @@ interface WorkerParams {
   id: string;
 }
 
+/** Maximum number of headers a worker can be configured to forward */
+const MAX_FORWARD_HEADERS = 20;
+
+/**
+ * Validate and normalize the list of headers a worker forwards
+ * Trims names and drops case-insensitive duplicates
+ */
+function validateForwardHeaders(value: unknown): { error?: string; headers?: string[] } {
+  if (!Array.isArray(value)) {
+    return { error: 'forwardHeaders must be an array of header names' };
+  }
+  const headers: string[] = [];
+  const seen = new Set<string>();
+  for (const item of value) {
+    const name = typeof item === 'string' ? item.trim() : '';
+    if (!isValidHeaderName(name)) {
+      return { error: `Invalid header name: ${String(item)}` };
+    }
+    if (!seen.has(name.toLowerCase())) {
+      seen.add(name.toLowerCase());
+      headers.push(name);
+    }
+  }
+  if (headers.length > MAX_FORWARD_HEADERS) {
+    return { error: `At most ${MAX_FORWARD_HEADERS} headers can be forwarded` };
+  }
+  return { headers };
+}
+
 /**
  * Register worker routes
  */
@@ -65,8 +95,17 @@ export async function workerRoutes(fastify: FastifyInstance): Promise<void> {
       });
     }
 
+    let forwardHeaders: string[] | undefined;
+    if (request.body.forwardHeaders !== undefined) {
+      const result = validateForwardHeaders(request.body.forwardHeaders);
+      if (result.error) {
+        return reply.status(400).send({ error: 'Invalid request', message: result.error });
+      }
+      forwardHeaders = result.headers;
+    }
+
     try {
-      const worker = getRepository().create({ name, domain, defaultForwardTo, workerUrl });
+      const worker = getRepository().create({ name, domain, defaultForwardTo, workerUrl, forwardHeaders });
       
       // Log admin action (Requirement 5.4)
       getLogRepository().createAdminLog('创建Worker', {
@@ -79,6 +118,7 @@ export async function workerRoutes(fastify: FastifyInstance): Promise<void> {
           defaultForwardTo: worker.defaultForwardTo,
           workerUrl: worker.workerUrl,
           enabled: worker.enabled,
+          forwardHeaders: worker.forwardHeaders,
         },
       }, worker.name);
       
@@ -108,8 +148,17 @@ export async function workerRoutes(fastify: FastifyInstance): Promise<void> {
     if (!existingWorker) {
       return reply.status(404).send({ error: 'Worker not found' });
     }
+
+    const input: UpdateWorkerInput = { ...request.body };
+    if (input.forwardHeaders !== undefined) {
+      const result = validateForwardHeaders(input.forwardHeaders);
+      if (result.error) {
+        return reply.status(400).send({ error: 'Invalid request', message: result.error });
+      }
+      input.forwardHeaders = result.headers;
+    }
     
-    const worker = repository.update(request.params.id, request.body);
+    const worker = repository.update(request.params.id, input);
     
     if (!worker) {
       return reply.status(404).send({ error: 'Worker not found' });
@@ -126,6 +175,7 @@ export async function workerRoutes(fastify: FastifyInstance): Promise<void> {
         defaultForwardTo: existingWorker.defaultForwardTo,
         workerUrl: existingWorker.workerUrl,
         enabled: existingWorker.enabled,
+        forwardHeaders: existingWorker.forwardHeaders,
       },
       after: {
         name: worker.name,
@@ -133,6 +183,7 @@ export async function workerRoutes(fastify: FastifyInstance): Promise<void> {
         defaultForwardTo: worker.defaultForwardTo,
         workerUrl: worker.workerUrl,
         enabled: worker.enabled,
+        forwardHeaders: worker.forwardHeaders,
       },
     }, worker.name);
     
@@ -171,6 +222,7 @@ export async function workerRoutes(fastify: FastifyInstance): Promise<void> {
         defaultForwardTo: worker.defaultForwardTo,
         workerUrl: worker.workerUrl,
         enabled: worker.enabled,
+        forwardHeaders: worker.forwardHeaders,
       },
     }, worker.name);
     
@@ -14,7 +14,7 @@
  */
 
 import type { EmailWebhookPayload } from '@email-filter/shared';
-import type { FilterResult } from './filter.service.js';
+import type { FilterResult, ShadowMatch } from './filter.service.js';
 
 /**
  * Types of async tasks that can be processed
@@ -35,6 +35,8 @@ export interface AsyncTaskData {
   filterResult: FilterResult;
   workerId?: string;
   defaultForwardTo: string;
+  /** Shadow rules that matched the email, recorded separately from real hits */
+  shadowMatches?: ShadowMatch[];
 }
 
 /**
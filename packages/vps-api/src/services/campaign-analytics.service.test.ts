@@ -10,7 +10,8 @@ import initSqlJs, { Database as SqlJsDatabase } from 'sql.js';
 import { readFileSync } from 'fs';
 import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
-import { extractDomain, calculateSubjectHash } from './campaign-analytics.service.js';
+import { normalizeText } from '@email-filter/shared';
+import { extractDomain, calculateSubjectHash, calculateLegacySubjectHash } from './campaign-analytics.service.js';
 import { v4 as uuidv4 } from 'uuid';
 
 const __filename = fileURLToPath(import.meta.url);
@@ -200,7 +201,15 @@ class TestCampaignAnalyticsService {
     const now = new Date().toISOString();
     const receivedAtStr = receivedAt.toISOString();
 
-    const existing = this.getCampaignByMerchantAndSubject(merchantId, subjectHash);
+    let existing = this.getCampaignByMerchantAndSubject(merchantId, subjectHash);
+
+    const legacyHash = calculateLegacySubjectHash(subject);
+    if (!existing && legacyHash !== subjectHash) {
+      existing = this.getCampaignByMerchantAndSubject(merchantId, legacyHash);
+      if (existing) {
+        this.db.run('UPDATE campaigns SET subject_hash = ? WHERE id = ?', [subjectHash, existing.id]);
+      }
+    }
 
     if (existing) {
       this.db.run(
@@ -823,6 +832,10 @@ describe('CampaignAnalyticsService', () => {
       expect(extractDomain('user@shop.amazon.co.uk')).toBe('amazon.co.uk');
       expect(extractDomain('user@mail.company.com.cn')).toBe('company.com.cn');
       expect(extractDomain('user@news.site.com.au')).toBe('site.com.au');
+
+      // Suffixes outside the old hard-coded list come from the public suffix list
+      expect(extractDomain('user@mail.shop.co.at')).toBe('shop.co.at');
+      expect(extractDomain('user@news.brand.kawasaki.jp')).toBe('news.brand.kawasaki.jp');
       
       // Test case insensitivity
       expect(extractDomain('USER@EXAMPLE.COM')).toBe('example.com');
@@ -1081,7 +1094,7 @@ describe('CampaignAnalyticsService', () => {
         fc.property(
           validEmailArb, // sender
           fc.array(fc.string({ minLength: 1, maxLength: 50 }), { minLength: 2, maxLength: 5 })
-            .filter(arr => new Set(arr).size === arr.length), // unique subjects
+            .filter(arr => new Set(arr.map(normalizeText)).size === arr.length), // unique subjects after normalization
           validEmailArb, // recipient
           (sender, subjects, recipient) => {
             // Create fresh database for each iteration
@@ -1121,6 +1134,41 @@ describe('CampaignAnalyticsService', () => {
         { numRuns: 100 }
       );
     });
+
+    it('should hash look-alike subject variants to the same campaign', () => {
+      const hash = calculateSubjectHash('Big Summer Sale');
+      expect(calculateSubjectHash('Ｂig  Summer\u200B Sale 🔥')).toBe(hash);
+      expect(calculateSubjectHash('Big Summеr Ѕale')).toBe(hash);
+      expect(calculateSubjectHash('Big Winter Sale')).not.toBe(hash);
+    });
+
+    it('should keep using campaigns stored under the raw subject hash', async () => {
+      const SQL = await initSqlJs();
+      const db = new SQL.Database();
+      db.run(readFileSync(join(__dirname, '../db/schema.sql'), 'utf-8'));
+      const service = new TestCampaignAnalyticsService(db);
+
+      try {
+        const subject = '🔥 Big  Summer Sale';
+        const { merchant } = service.getOrCreateMerchant('shop.com');
+        const now = new Date().toISOString();
+        db.run(
+          `INSERT INTO campaigns (id, merchant_id, subject, subject_hash, is_valuable, total_emails, unique_recipients,
+             first_seen_at, last_seen_at, created_at, updated_at)
+           VALUES ('legacy', ?, ?, ?, 0, 3, 0, ?, ?, ?, ?)`,
+          [merchant.id, subject, calculateLegacySubjectHash(subject), now, now, now, now]
+        );
+
+        const first = service.trackEmail({ sender: 'news@shop.com', subject, recipient: 'a@x.com' });
+        const variant = service.trackEmail({ sender: 'news@shop.com', subject: 'Big Summer Sale', recipient: 'b@x.com' });
+
+        expect(first).toMatchObject({ campaignId: 'legacy', isNewCampaign: false });
+        expect(variant).toMatchObject({ campaignId: 'legacy', isNewCampaign: false });
+        expect(service.getCampaignById('legacy').totalEmails).toBe(5);
+      } finally {
+        db.close();
+      }
+    });
   });
 
   /**
@@ -1572,7 +1620,7 @@ describe('CampaignAnalyticsService', () => {
         fc.property(
           validEmailArb, // sender
           fc.array(fc.string({ minLength: 1, maxLength: 50 }), { minLength: 2, maxLength: 10 })
-            .filter(arr => new Set(arr).size === arr.length), // unique subjects
+            .filter(arr => new Set(arr.map(normalizeText)).size === arr.length), // unique subjects after normalization
           validEmailArb, // recipient
           (sender, subjects, recipient) => {
             // Create fresh database for each iteration
@@ -1635,7 +1683,7 @@ describe('CampaignAnalyticsService', () => {
         fc.property(
           validEmailArb, // sender
           fc.array(fc.string({ minLength: 1, maxLength: 50 }), { minLength: 2, maxLength: 5 })
-            .filter(arr => new Set(arr).size === arr.length), // unique subjects
+            .filter(arr => new Set(arr.map(normalizeText)).size === arr.length), // unique subjects after normalization
           validEmailArb, // recipient
           (sender, subjects, recipient) => {
             // Create fresh database for each iteration
@@ -1886,7 +1934,7 @@ describe('CampaignAnalyticsService', () => {
         fc.property(
           validEmailArb, // sender
           fc.array(fc.string({ minLength: 1, maxLength: 50 }), { minLength: 2, maxLength: 5 })
-            .filter(arr => new Set(arr).size === arr.length), // unique subjects
+            .filter(arr => new Set(arr.map(normalizeText)).size === arr.length), // unique subjects after normalization
           fc.array(validEmailArb, { minLength: 2, maxLength: 5 })
             .filter(arr => new Set(arr).size === arr.length), // unique recipients
           (sender, subjects, recipients) => {
@@ -1964,7 +2012,7 @@ describe('CampaignAnalyticsService', () => {
         fc.property(
           validEmailArb, // sender
           fc.array(fc.string({ minLength: 1, maxLength: 50 }), { minLength: 2, maxLength: 5 })
-            .filter(arr => new Set(arr).size === arr.length), // unique subjects
+            .filter(arr => new Set(arr.map(normalizeText)).size === arr.length), // unique subjects after normalization
           validEmailArb, // single recipient
           (sender, subjects, recipient) => {
             // Create fresh database for each iteration
@@ -2020,7 +2068,7 @@ describe('CampaignAnalyticsService', () => {
         fc.property(
           validEmailArb, // sender
           fc.array(fc.string({ minLength: 1, maxLength: 50 }), { minLength: 2, maxLength: 4 })
-            .filter(arr => new Set(arr).size === arr.length), // unique subjects
+            .filter(arr => new Set(arr.map(normalizeText)).size === arr.length), // unique subjects after normalization
           fc.tuple(validEmailArb, validEmailArb)
             .filter(([a, b]) => a !== b), // two different recipients
           (sender, subjects, [recipient1, recipient2]) => {
@@ -2133,7 +2181,7 @@ describe('CampaignAnalyticsService', () => {
         fc.property(
           validEmailArb, // sender
           fc.array(fc.string({ minLength: 1, maxLength: 50 }), { minLength: 2, maxLength: 5 })
-            .filter(arr => new Set(arr).size === arr.length), // unique subjects
+            .filter(arr => new Set(arr.map(normalizeText)).size === arr.length), // unique subjects after normalization
           fc.array(validEmailArb, { minLength: 2, maxLength: 5 })
             .filter(arr => new Set(arr).size === arr.length), // unique recipients
           (sender, subjects, recipients) => {
@@ -2195,7 +2243,7 @@ describe('CampaignAnalyticsService', () => {
         fc.property(
           validEmailArb, // sender
           fc.array(fc.string({ minLength: 1, maxLength: 50 }), { minLength: 1, maxLength: 3 })
-            .filter(arr => new Set(arr).size === arr.length), // unique subjects
+            .filter(arr => new Set(arr.map(normalizeText)).size === arr.length), // unique subjects after normalization
           fc.array(validEmailArb, { minLength: 1, maxLength: 5 })
             .filter(arr => new Set(arr).size === arr.length), // unique recipients
           (sender, subjects, recipients) => {
@@ -2250,7 +2298,7 @@ describe('CampaignAnalyticsService', () => {
         fc.property(
           validEmailArb, // sender
           fc.array(fc.string({ minLength: 1, maxLength: 50 }), { minLength: 2, maxLength: 4 })
-            .filter(arr => new Set(arr).size === arr.length), // unique subjects
+            .filter(arr => new Set(arr.map(normalizeText)).size === arr.length), // unique subjects after normalization
           fc.tuple(validEmailArb, validEmailArb)
             .filter(([a, b]) => a !== b), // two different recipients
           (sender, subjects, [recipient1, recipient2]) => {
@@ -2327,7 +2375,7 @@ describe('CampaignAnalyticsService', () => {
         fc.property(
           validEmailArb, // sender
           fc.array(fc.string({ minLength: 1, maxLength: 50 }), { minLength: 2, maxLength: 5 })
-            .filter(arr => new Set(arr).size === arr.length), // unique subjects
+            .filter(arr => new Set(arr.map(normalizeText)).size === arr.length), // unique subjects after normalization
           fc.array(validEmailArb, { minLength: 2, maxLength: 5 })
             .filter(arr => new Set(arr).size === arr.length), // unique recipients
           (sender, subjects, recipients) => {
@@ -2444,7 +2492,7 @@ describe('CampaignAnalyticsService', () => {
         fc.property(
           validEmailArb, // sender
           fc.array(fc.string({ minLength: 1, maxLength: 50 }), { minLength: 2, maxLength: 4 })
-            .filter(arr => new Set(arr).size === arr.length), // unique subjects
+            .filter(arr => new Set(arr.map(normalizeText)).size === arr.length), // unique subjects after normalization
           fc.array(validEmailArb, { minLength: 2, maxLength: 5 })
             .filter(arr => new Set(arr).size === arr.length), // unique recipients
           (sender, subjects, recipients) => {
@@ -2524,7 +2572,7 @@ describe('CampaignAnalyticsService', () => {
         fc.property(
           validEmailArb, // sender
           fc.array(fc.string({ minLength: 1, maxLength: 50 }), { minLength: 2, maxLength: 4 })
-            .filter(arr => new Set(arr).size === arr.length), // unique subjects
+            .filter(arr => new Set(arr.map(normalizeText)).size === arr.length), // unique subjects after normalization
           validEmailArb, // recipient
           workerNameArb,
           workerNameArb.filter(w => w !== 'global'), // different worker
@@ -3865,7 +3913,7 @@ describe('Worker Data Isolation', () => {
         fc.property(
           validEmailArb, // sender (single merchant)
           fc.array(fc.string({ minLength: 1, maxLength: 50 }), { minLength: 2, maxLength: 5 })
-            .filter(arr => new Set(arr).size === arr.length), // unique subjects
+            .filter(arr => new Set(arr.map(normalizeText)).size === arr.length), // unique subjects after normalization
           validEmailArb, // recipient
           workerNameArb,
           workerNameArb,
@@ -5058,7 +5106,7 @@ describe('Statistics Update After Delete', () => {
         fc.property(
           validEmailArb, // sender
           fc.array(fc.string({ minLength: 1, maxLength: 50 }), { minLength: 2, maxLength: 4 })
-            .filter(arr => new Set(arr).size === arr.length), // unique subjects
+            .filter(arr => new Set(arr.map(normalizeText)).size === arr.length), // unique subjects after normalization
           validEmailArb, // recipient
           workerNameArb,
           workerNameArb,
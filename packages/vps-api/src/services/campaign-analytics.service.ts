@@ -56,54 +56,18 @@ import type {
   DeleteMerchantDataResult,
   MerchantByWorker,
 } from '@email-filter/shared';
-import { toMerchant, toCampaign, toAnalysisProject, ROOT_CAMPAIGN_KEYWORDS } from '@email-filter/shared';
-
-/**
- * Common second-level TLDs that should be treated as part of the TLD
- * e.g., .co.uk, .com.cn, .org.uk, etc.
- */
-const SECOND_LEVEL_TLDS = new Set([
-  // UK
-  'co.uk', 'org.uk', 'me.uk', 'net.uk', 'ac.uk', 'gov.uk', 'ltd.uk', 'plc.uk',
-  // China
-  'com.cn', 'net.cn', 'org.cn', 'gov.cn', 'edu.cn', 'ac.cn',
-  // Australia
-  'com.au', 'net.au', 'org.au', 'edu.au', 'gov.au', 'asn.au', 'id.au',
-  // Japan
-  'co.jp', 'or.jp', 'ne.jp', 'ac.jp', 'ad.jp', 'ed.jp', 'go.jp', 'gr.jp',
-  // Brazil
-  'com.br', 'net.br', 'org.br', 'gov.br', 'edu.br',
-  // India
-  'co.in', 'net.in', 'org.in', 'gen.in', 'firm.in', 'ind.in',
-  // New Zealand
-  'co.nz', 'net.nz', 'org.nz', 'govt.nz', 'ac.nz', 'school.nz',
-  // South Africa
-  'co.za', 'net.za', 'org.za', 'gov.za', 'edu.za',
-  // Hong Kong
-  'com.hk', 'net.hk', 'org.hk', 'gov.hk', 'edu.hk', 'idv.hk',
-  // Taiwan
-  'com.tw', 'net.tw', 'org.tw', 'gov.tw', 'edu.tw', 'idv.tw',
-  // Singapore
-  'com.sg', 'net.sg', 'org.sg', 'gov.sg', 'edu.sg',
-  // Korea
-  'co.kr', 'ne.kr', 'or.kr', 'go.kr', 'ac.kr', 're.kr',
-  // Russia
-  'com.ru', 'net.ru', 'org.ru',
-  // Mexico
-  'com.mx', 'net.mx', 'org.mx', 'gob.mx', 'edu.mx',
-  // Other common ones
-  'co.il', 'org.il', 'net.il', 'ac.il', 'gov.il', // Israel
-  'com.tr', 'net.tr', 'org.tr', 'gov.tr', 'edu.tr', // Turkey
-  'com.my', 'net.my', 'org.my', 'gov.my', 'edu.my', // Malaysia
-  'com.ph', 'net.ph', 'org.ph', 'gov.ph', 'edu.ph', // Philippines
-  'co.th', 'in.th', 'ac.th', 'go.th', 'or.th', 'net.th', // Thailand
-  'com.vn', 'net.vn', 'org.vn', 'gov.vn', 'edu.vn', // Vietnam
-  'co.id', 'or.id', 'ac.id', 'go.id', 'web.id', // Indonesia
-]);
+import {
+  toMerchant,
+  toCampaign,
+  toAnalysisProject,
+  ROOT_CAMPAIGN_KEYWORDS,
+  normalizeText,
+  getRegistrableDomain,
+} from '@email-filter/shared';
 
 /**
  * Extract root domain (registrable domain) from email address
- * Returns the primary domain without subdomains, handling special TLDs like .co.uk
+ * Returns the primary domain without subdomains, handling public suffixes like .co.uk
  * 
  * Examples:
  * - user@mail.example.com -> example.com
@@ -145,40 +109,37 @@ export function extractDomain(email: string): string | null {
 
 /**
  * Extract root domain from a full domain string
- * Handles subdomains and special TLDs like .co.uk
+ * Uses the bundled Public Suffix List, the same one domainTree filter rules use,
+ * so merchants and rules agree on what a domain is
  * 
  * @param fullDomain - Full domain string (e.g., mail.example.co.uk)
- * @returns Root domain (e.g., example.co.uk)
+ * @returns Root domain (e.g., example.co.uk), or the input itself when it is a public suffix
  */
 export function extractRootDomain(fullDomain: string): string {
-  const parts = fullDomain.split('.');
-  
-  if (parts.length <= 2) {
-    // Already a root domain (e.g., example.com)
-    return fullDomain;
-  }
-  
-  // Check if the last two parts form a known second-level TLD
-  const lastTwo = parts.slice(-2).join('.');
-  if (SECOND_LEVEL_TLDS.has(lastTwo)) {
-    // Need at least 3 parts for domains like example.co.uk
-    if (parts.length >= 3) {
-      return parts.slice(-3).join('.');
-    }
-    return fullDomain;
-  }
-  
-  // Standard TLD - return last two parts (e.g., example.com from mail.example.com)
-  return parts.slice(-2).join('.');
+  return getRegistrableDomain(fullDomain) ?? fullDomain;
 }
 
 /**
  * Calculate hash for subject string (for fast lookup)
+ * The subject is normalized first (see normalizeText), so look-alike variants of
+ * a subject land in the same campaign. Subjects that normalizeText changes (emoji,
+ * extra whitespace, look-alike letters) hash differently from campaigns stored
+ * before normalization, see calculateLegacySubjectHash
  * 
  * @param subject - Subject string to hash
- * @returns SHA-256 hash of the subject
+ * @returns SHA-256 hash of the normalized subject
  */
 export function calculateSubjectHash(subject: string): string {
+  return createHash('sha256').update(normalizeText(subject)).digest('hex');
+}
+
+/**
+ * Calculate the hash campaigns stored before subject normalization were keyed by
+ * 
+ * @param subject - Subject string to hash
+ * @returns SHA-256 hash of the raw subject
+ */
+export function calculateLegacySubjectHash(subject: string): string {
   return createHash('sha256').update(subject).digest('hex');
 }
 
@@ -922,7 +883,17 @@ export class CampaignAnalyticsService {
       SELECT * FROM campaigns 
       WHERE merchant_id = ? AND subject_hash = ?
     `);
-    const existing = findStmt.get(merchantId, subjectHash) as CampaignRow | undefined;
+    let existing = findStmt.get(merchantId, subjectHash) as CampaignRow | undefined;
+
+    // A campaign stored before normalization is still keyed by its raw subject hash;
+    // rekey it on first sight so its look-alike variants join it from now on
+    const legacyHash = calculateLegacySubjectHash(subject);
+    if (!existing && legacyHash !== subjectHash) {
+      existing = findStmt.get(merchantId, legacyHash) as CampaignRow | undefined;
+      if (existing) {
+        this.db.prepare('UPDATE campaigns SET subject_hash = ? WHERE id = ?').run(subjectHash, existing.id);
+      }
+    }
 
     if (existing) {
       // Update existing campaign
@@ -48,6 +48,7 @@ class TestCleanupConfigService {
       heartbeat_logs_retention_days: 'heartbeatLogsRetentionDays',
       subject_tracker_retention_hours: 'subjectTrackerRetentionHours',
       subject_stats_retention_days: 'subjectStatsRetentionDays',
+      rule_hit_rollup_retention_days: 'ruleHitRollupRetentionDays',
       cleanup_hour: 'cleanupHour',
       auto_cleanup_enabled: 'autoCleanupEnabled',
     };
@@ -85,6 +86,7 @@ class TestCleanupConfigService {
       heartbeatLogsRetentionDays: 'heartbeat_logs_retention_days',
       subjectTrackerRetentionHours: 'subject_tracker_retention_hours',
       subjectStatsRetentionDays: 'subject_stats_retention_days',
+      ruleHitRollupRetentionDays: 'rule_hit_rollup_retention_days',
       cleanupHour: 'cleanup_hour',
       autoCleanupEnabled: 'auto_cleanup_enabled',
     };
@@ -303,6 +305,25 @@ describe('CleanupConfigService', () => {
       );
     });
 
+    it('should reject ruleHitRollupRetentionDays outside valid range (7-365)', () => {
+      fc.assert(
+        fc.property(
+          fc.oneof(
+            fc.integer({ max: CONFIG_RANGES.ruleHitRollupRetentionDays.min - 1 }),
+            fc.integer({ min: CONFIG_RANGES.ruleHitRollupRetentionDays.max + 1 })
+          ),
+          (invalidValue) => {
+            const result = TestCleanupConfigService.validateConfig({
+              ruleHitRollupRetentionDays: invalidValue,
+            });
+            expect(result.valid).toBe(false);
+            expect(result.errors.some(e => e.includes('ruleHitRollupRetentionDays'))).toBe(true);
+          }
+        ),
+        { numRuns: 100 }
+      );
+    });
+
     it('should reject cleanupHour outside valid range', () => {
       fc.assert(
         fc.property(
@@ -339,8 +360,9 @@ describe('CleanupConfigService', () => {
           fc.integer({ min: CONFIG_RANGES.heartbeatLogsRetentionDays.min, max: CONFIG_RANGES.heartbeatLogsRetentionDays.max }),
           fc.integer({ min: CONFIG_RANGES.subjectTrackerRetentionHours.min, max: CONFIG_RANGES.subjectTrackerRetentionHours.max }),
           fc.integer({ min: CONFIG_RANGES.subjectStatsRetentionDays.min, max: CONFIG_RANGES.subjectStatsRetentionDays.max }),
+          fc.integer({ min: CONFIG_RANGES.ruleHitRollupRetentionDays.min, max: CONFIG_RANGES.ruleHitRollupRetentionDays.max }),
           fc.integer({ min: CONFIG_RANGES.cleanupHour.min, max: CONFIG_RANGES.cleanupHour.max }),
-          (sysLogs, hitLogs, alerts, heartbeat, subject, subjectStats, hour) => {
+          (sysLogs, hitLogs, alerts, heartbeat, subject, subjectStats, ruleHitRollups, hour) => {
             const config: CleanupConfig = {
               systemLogsRetentionDays: sysLogs,
               hitLogsRetentionHours: hitLogs,
@@ -348,6 +370,7 @@ describe('CleanupConfigService', () => {
               heartbeatLogsRetentionDays: heartbeat,
               subjectTrackerRetentionHours: subject,
               subjectStatsRetentionDays: subjectStats,
+              ruleHitRollupRetentionDays: ruleHitRollups,
               cleanupHour: hour,
               autoCleanupEnabled: true,
             };
@@ -365,6 +388,7 @@ describe('CleanupConfigService', () => {
             expect(loaded.heartbeatLogsRetentionDays).toBe(config.heartbeatLogsRetentionDays);
             expect(loaded.subjectTrackerRetentionHours).toBe(config.subjectTrackerRetentionHours);
             expect(loaded.subjectStatsRetentionDays).toBe(config.subjectStatsRetentionDays);
+            expect(loaded.ruleHitRollupRetentionDays).toBe(config.ruleHitRollupRetentionDays);
             expect(loaded.cleanupHour).toBe(config.cleanupHour);
             expect(loaded.autoCleanupEnabled).toBe(config.autoCleanupEnabled);
 
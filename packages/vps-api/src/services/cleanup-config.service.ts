@@ -16,6 +16,8 @@ export interface CleanupConfig {
   subjectTrackerRetentionHours: number;
   /** 邮件主题统计保留天数 (1-365) */
   subjectStatsRetentionDays: number;
+  /** 规则命中时间序列保留天数 (7-365) */
+  ruleHitRollupRetentionDays: number;
   /** 清理执行时间 (0-23) */
   cleanupHour: number;
   /** 是否启用自动清理 */
@@ -40,6 +42,7 @@ export const CONFIG_RANGES = {
   heartbeatLogsRetentionDays: { min: 1, max: 90 },
   subjectTrackerRetentionHours: { min: 1, max: 72 },
   subjectStatsRetentionDays: { min: 1, max: 365 },
+  ruleHitRollupRetentionDays: { min: 7, max: 365 },
   cleanupHour: { min: 0, max: 23 },
 } as const;
 
@@ -53,6 +56,7 @@ export const DEFAULT_CONFIG: CleanupConfig = {
   heartbeatLogsRetentionDays: 30,
   subjectTrackerRetentionHours: 24,
   subjectStatsRetentionDays: 30,
+  ruleHitRollupRetentionDays: 90,
   cleanupHour: 3,
   autoCleanupEnabled: true,
 };
@@ -67,6 +71,7 @@ const KEY_MAP: Record<string, keyof CleanupConfig> = {
   heartbeat_logs_retention_days: 'heartbeatLogsRetentionDays',
   subject_tracker_retention_hours: 'subjectTrackerRetentionHours',
   subject_stats_retention_days: 'subjectStatsRetentionDays',
+  rule_hit_rollup_retention_days: 'ruleHitRollupRetentionDays',
   cleanup_hour: 'cleanupHour',
   auto_cleanup_enabled: 'autoCleanupEnabled',
 };
@@ -81,6 +86,7 @@ const REVERSE_KEY_MAP: Record<keyof CleanupConfig, string> = {
   heartbeatLogsRetentionDays: 'heartbeat_logs_retention_days',
   subjectTrackerRetentionHours: 'subject_tracker_retention_hours',
   subjectStatsRetentionDays: 'subject_stats_retention_days',
+  ruleHitRollupRetentionDays: 'rule_hit_rollup_retention_days',
   cleanupHour: 'cleanup_hour',
   autoCleanupEnabled: 'auto_cleanup_enabled',
 };
@@ -38,6 +38,7 @@ const CLEANABLE_TABLES: TableConfig[] = [
   { name: 'heartbeat_logs', dateColumn: 'checked_at' },
   { name: 'email_subject_tracker', dateColumn: 'received_at' },
   { name: 'subject_stats', dateColumn: 'last_seen_at' },
+  { name: 'rule_hit_rollups', dateColumn: 'bucket_start' },
 ];
 
 /**
@@ -0,0 +1,188 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import type { EmailWebhookPayload, FilterRule, MatchMode, MatchType, RuleCategory, RuleConditionNode } from '@email-filter/shared';
+import { compileRuleSet } from './compiled-matcher.js';
+import { filterEmail, filterEmailCompiled } from './filter.service.js';
+import { makeRule } from '../test-utils/rule-fixtures.js';
+
+const NOW = new Date('2024-06-03T12:00:00Z');
+
+// Small alphabets so generated patterns actually hit generated emails, with characters normalization folds
+const textArb = fc.stringOf(fc.constantFrom('a', 'b', 'B', '.', 'x', ' ', 'а', '\u200B', 'Ｘ'), { maxLength: 5 });
+const emailArb = fc.tuple(textArb, textArb).map(([local, domain]) => `${local}@${domain}`);
+const matchTypeArb = fc.constantFrom<MatchType>('sender', 'subject', 'domain', 'recipient', 'recipientDomain', 'header', 'spf');
+const matchModeArb = fc.constantFrom<MatchMode>('exact', 'contains', 'startsWith', 'endsWith', 'regex', 'domainTree');
+
+const patternFor = (matchType: MatchType, text: string): string => (matchType === 'header' ? `List-Id: ${text}` : text);
+
+const conditionArb: fc.Arbitrary<RuleConditionNode> = fc
+  .record({ matchType: matchTypeArb, matchMode: matchModeArb, text: fc.oneof(textArb, fc.constant('[')) })
+  .map(({ matchType, matchMode, text }) => ({ matchType, matchMode, pattern: patternFor(matchType, text) }));
+
+const ruleArb: fc.Arbitrary<FilterRule> = fc
+  .record({
+    id: fc.uuid(),
+    category: fc.constantFrom<RuleCategory>('whitelist', 'blacklist', 'dynamic'),
+    condition: conditionArb,
+    priority: fc.option(fc.integer({ min: -2, max: 2 }), { nil: undefined }),
+    enabled: fc.boolean(),
+    mode: fc.constantFrom<'active' | 'shadow' | undefined>(undefined, 'active', 'shadow'),
+    normalize: fc.option(fc.boolean(), { nil: undefined }),
+    activeUntil: fc.option(fc.constantFrom(new Date('2024-01-01T00:00:00Z'), new Date('2025-01-01T00:00:00Z')), { nil: undefined }),
+    conditions: fc.option(fc.record({ operator: fc.constantFrom<'and' | 'or'>('and', 'or'), conditions: fc.array(conditionArb, { minLength: 1, maxLength: 3 }) }), { nil: undefined }),
+    exceptions: fc.option(fc.array(conditionArb, { minLength: 1, maxLength: 2 }), { nil: undefined }),
+  })
+  .map(({ condition, ...rule }) => ({ ...rule, ...condition, createdAt: NOW, updatedAt: NOW }));
+
+const payloadArb: fc.Arbitrary<EmailWebhookPayload> = fc.record({
+  from: emailArb,
+  to: emailArb,
+  subject: textArb,
+  messageId: fc.constant('m1'),
+  timestamp: fc.constant(0),
+  headers: fc.record({ 'list-id': textArb }),
+  auth: fc.record({ spf: fc.constantFrom('pass', 'fail') }),
+});
+
+/**
+ * A subject rule, the match type most matcher tests exercise
+ */
+function rule(id: string, overrides: Partial<FilterRule>): FilterRule {
+  return makeRule(id, { matchType: 'subject', ...overrides });
+}
+
+function payload(subject: string, from = 'someone@example.com'): EmailWebhookPayload {
+  return { from, to: 'me@example.com', subject, messageId: 'm1', timestamp: 0 };
+}
+
+/**
+ * Median time in milliseconds for one call of fn over several rounds
+ */
+function medianPerCallMs(fn: () => void, iterations: number, rounds = 5): number {
+  for (let i = 0; i < 5; i++) {
+    fn();
+  }
+  const durations: number[] = [];
+  for (let round = 0; round < rounds; round++) {
+    const startTime = performance.now();
+    for (let i = 0; i < iterations; i++) {
+      fn();
+    }
+    durations.push(performance.now() - startTime);
+  }
+  const sorted = [...durations].sort((left, right) => left - right);
+  return sorted[Math.floor(sorted.length / 2)] / iterations;
+}
+
+describe('Compiled Rule Matcher', () => {
+  it('should make the same decision as filterEmail', () => {
+    fc.assert(
+      fc.property(fc.array(ruleArb, { maxLength: 25 }), fc.array(payloadArb, { minLength: 1, maxLength: 5 }), (rules, payloads) => {
+        const matcher = compileRuleSet(rules);
+        for (const email of payloads) {
+          const expected = filterEmail(email, rules, 'default@example.com', [], NOW);
+          const actual = filterEmailCompiled(email, matcher, 'default@example.com', [], NOW);
+          expect(actual).toEqual(expected);
+        }
+      }),
+      { numRuns: 300 }
+    );
+  });
+
+  it('should find every overlapping contains pattern', () => {
+    const matcher = compileRuleSet([
+      rule('r1', { pattern: 'hers', priority: 1 }),
+      rule('r2', { pattern: 'his', priority: 2 }),
+      rule('r3', { pattern: 'she', priority: 3 }),
+      rule('r4', { pattern: 'he', priority: 4 }),
+    ]);
+
+    expect(matcher.findMatch(payload('USHERS'), 'blacklist', NOW)?.id).toBe('r1');
+    expect(matcher.findMatch(payload('ushe'), 'blacklist', NOW)?.id).toBe('r3');
+    expect(matcher.findMatch(payload('ahe'), 'blacklist', NOW)?.id).toBe('r4');
+    expect(matcher.findMatch(payload('hi'), 'blacklist', NOW)).toBeUndefined();
+  });
+
+  it('should match empty patterns, prefixes and suffixes like matchPattern', () => {
+    const matcher = compileRuleSet([
+      rule('prefix', { matchMode: 'startsWith', pattern: 'Re:', priority: 1 }),
+      rule('suffix', { matchMode: 'endsWith', pattern: '.RU', matchType: 'domain', priority: 2 }),
+      rule('empty', { matchMode: 'contains', pattern: '', priority: 3 }),
+    ]);
+
+    expect(matcher.findMatch(payload('re: hello'), 'blacklist', NOW)?.id).toBe('prefix');
+    expect(matcher.findMatch(payload('hello', 'a@mail.ru'), 'blacklist', NOW)?.id).toBe('suffix');
+    expect(matcher.findMatch(payload(''), 'blacklist', NOW)?.id).toBe('empty');
+  });
+
+  it('should match domain trees on the host and its parent domains', () => {
+    const matcher = compileRuleSet([
+      rule('tree', { matchType: 'domain', matchMode: 'domainTree', pattern: 'Shop.com', priority: 1 }),
+      rule('deep', { matchType: 'sender', matchMode: 'domainTree', pattern: 'news.shop.com', priority: 2 }),
+    ]);
+
+    expect(matcher.findMatch(payload('hi', 'a@shop.com'), 'blacklist', NOW)?.id).toBe('tree');
+    expect(matcher.findMatch(payload('hi', 'a@x.news.SHOP.com'), 'blacklist', NOW)?.id).toBe('tree');
+    expect(matcher.findMatch(payload('hi', 'a@evilshop.com'), 'blacklist', NOW)).toBeUndefined();
+    expect(compileRuleSet([rule('deep', { matchType: 'sender', matchMode: 'domainTree', pattern: 'news.shop.com' })])
+      .findMatch(payload('hi', 'a@shop.com'), 'blacklist', NOW)).toBeUndefined();
+  });
+
+  it('should build regexes once and skip invalid ones', () => {
+    const matcher = compileRuleSet([
+      rule('bad', { matchMode: 'regex', pattern: '[', priority: 1 }),
+      rule('good', { matchMode: 'regex', pattern: '^order #\\d+$', priority: 2 }),
+    ]);
+
+    expect(matcher.findMatch(payload('Order #42'), 'blacklist', NOW)?.id).toBe('good');
+    expect(matcher.findMatch(payload('Order #x'), 'blacklist', NOW)).toBeUndefined();
+  });
+
+  it('should never match stored lookaround patterns', () => {
+    const matcher = compileRuleSet([rule('legacy', { matchMode: 'regex', pattern: '^invoice(?! paid)' })]);
+
+    expect(matcher.findMatch(payload('Invoice due'), 'blacklist', NOW)).toBeUndefined();
+    expect(matcher.findMatch(payload('Invoice paid'), 'blacklist', NOW)).toBeUndefined();
+  });
+
+  it('should be faster than the linear path at 10k rules', () => {
+    const rules: FilterRule[] = [];
+    for (let i = 0; i < 10000; i++) {
+      const kind = i % 10;
+      if (kind < 6) {
+        // Mostly dynamic rules: exact subjects
+        rules.push(rule(`d${i}`, { category: 'dynamic', matchMode: 'exact', pattern: `Limited offer ${i} just for you` }));
+      } else if (kind < 8) {
+        rules.push(rule(`c${i}`, { matchMode: 'contains', pattern: `promo-${i}` }));
+      } else if (kind === 8) {
+        rules.push(rule(`e${i}`, { matchType: 'domain', matchMode: 'endsWith', pattern: `.spam${i}.com` }));
+      } else {
+        rules.push(rule(`s${i}`, { matchType: 'sender', matchMode: 'startsWith', pattern: `news${i}@` }));
+      }
+    }
+    rules.push(rule('re', { matchMode: 'regex', pattern: '^weekly digest \\d+$' }));
+    const emails = [payload('Hello from a friend'), payload('Limited offer 9990 just for you'), payload('Weekly digest 12')];
+
+    const startCompile = performance.now();
+    const matcher = compileRuleSet(rules);
+    // Compiling happens once per cache entry, it must stay well below a second
+    expect(performance.now() - startCompile).toBeLessThan(1000);
+
+    for (const email of emails) {
+      expect(filterEmailCompiled(email, matcher, 'me@example.com', [], NOW)).toEqual(filterEmail(email, rules, 'me@example.com', [], NOW));
+    }
+
+    const linearMs = medianPerCallMs(() => {
+      for (const email of emails) {
+        filterEmail(email, rules, 'me@example.com', [], NOW);
+      }
+    }, 5);
+    const compiledMs = medianPerCallMs(() => {
+      for (const email of emails) {
+        filterEmailCompiled(email, matcher, 'me@example.com', [], NOW);
+      }
+    }, 200);
+
+    expect(compiledMs * 10).toBeLessThan(linearMs);
+  });
+});
@@ -0,0 +1,432 @@
+/**
+ * Compiled Rule Matcher
+ *
+ * Pre-processes a worker's filter rules into lookup structures so Phase 1
+ * does not have to run every rule against every email:
+ * - exact rules: hash lookup on the lowercased field value
+ * - startsWith / endsWith rules: a prefix trie and a reversed (suffix) trie
+ * - contains rules: an Aho-Corasick automaton scanning the value once
+ * - domainTree rules: hash lookup on the host and each of its parent domains
+ * - regex rules: linear-time regexes built once at compile time; invalid and unsupported patterns never match
+ *
+ * Compound rules (condition trees) are evaluated with the shared matcher.
+ * The first matching rule is always the same one filterEmail would pick:
+ * candidates are resolved in evaluation order, exceptions and schedules are
+ * checked at match time.
+ */
+
+import type { EmailWebhookPayload, FilterRule, MatchType, RegexTester, RuleCategory } from '@email-filter/shared';
+import {
+  compileRegex,
+  getWebhookFieldValue,
+  isRuleActiveAt,
+  matchesConditionWebhook,
+  matchesRuleWebhook,
+  normalizeHost,
+  normalizeText,
+  parseHeaderPattern,
+  sortRulesByPriority,
+} from '@email-filter/shared';
+
+/**
+ * Node of a character trie; rules lists the rule indexes whose pattern ends here
+ */
+interface TrieNode {
+  children: Map<string, TrieNode>;
+  rules: number[];
+}
+
+function createTrieNode(): TrieNode {
+  return { children: new Map(), rules: [] };
+}
+
+/**
+ * Trie matching rules whose pattern is a prefix of the value
+ * Built over reversed patterns and walked from the end, it matches suffixes instead
+ */
+class PatternTrie {
+  private root = createTrieNode();
+
+  constructor(private reversed: boolean) {}
+
+  add(pattern: string, ruleIndex: number): void {
+    let node = this.root;
+    const length = pattern.length;
+    for (let i = 0; i < length; i++) {
+      const char = pattern[this.reversed ? length - 1 - i : i];
+      let child = node.children.get(char);
+      if (!child) {
+        child = createTrieNode();
+        node.children.set(char, child);
+      }
+      node = child;
+    }
+    node.rules.push(ruleIndex);
+  }
+
+  collect(value: string, out: number[]): void {
+    let node: TrieNode | undefined = this.root;
+    const length = value.length;
+    for (let i = 0; node; i++) {
+      out.push(...node.rules);
+      if (i === length) {
+        break;
+      }
+      node = node.children.get(value[this.reversed ? length - 1 - i : i]);
+    }
+  }
+}
+
+/**
+ * Aho-Corasick automaton state
+ * outputLink points at the nearest state on the failure chain that ends a pattern
+ */
+interface AutomatonState {
+  next: Map<string, number>;
+  fail: number;
+  outputLink: number;
+  rules: number[];
+}
+
+/**
+ * Aho-Corasick automaton matching rules whose pattern occurs anywhere in the value
+ */
+class ContainsAutomaton {
+  private states: AutomatonState[] = [{ next: new Map(), fail: 0, outputLink: -1, rules: [] }];
+  /** Empty patterns are contained in every value */
+  private always: number[] = [];
+
+  add(pattern: string, ruleIndex: number): void {
+    if (pattern.length === 0) {
+      this.always.push(ruleIndex);
+      return;
+    }
+    let state = 0;
+    for (let i = 0; i < pattern.length; i++) {
+      const char = pattern[i];
+      let next = this.states[state].next.get(char);
+      if (next === undefined) {
+        next = this.states.length;
+        this.states.push({ next: new Map(), fail: 0, outputLink: -1, rules: [] });
+        this.states[state].next.set(char, next);
+      }
+      state = next;
+    }
+    this.states[state].rules.push(ruleIndex);
+  }
+
+  /**
+   * Compute failure and output links breadth first, once all patterns are added
+   */
+  build(): void {
+    const queue: number[] = [];
+    for (const child of this.states[0].next.values()) {
+      this.states[child].fail = 0;
+      queue.push(child);
+    }
+    for (let head = 0; head < queue.length; head++) {
+      const current = this.states[queue[head]];
+      for (const [char, child] of current.next) {
+        let fail = current.fail;
+        while (fail !== 0 && !this.states[fail].next.has(char)) {
+          fail = this.states[fail].fail;
+        }
+        const target = this.states[fail].next.get(char);
+        const childState = this.states[child];
+        childState.fail = target !== undefined && target !== child ? target : 0;
+        const failState = this.states[childState.fail];
+        childState.outputLink = failState.rules.length > 0 ? childState.fail : failState.outputLink;
+        queue.push(child);
+      }
+    }
+  }
+
+  collect(value: string, out: number[]): void {
+    out.push(...this.always);
+    let state = 0;
+    for (let i = 0; i < value.length; i++) {
+      const char = value[i];
+      while (state !== 0 && !this.states[state].next.has(char)) {
+        state = this.states[state].fail;
+      }
+      state = this.states[state].next.get(char) ?? 0;
+      for (let output = state; output !== -1; output = this.states[output].outputLink) {
+        out.push(...this.states[output].rules);
+      }
+    }
+  }
+}
+
+/**
+ * Lookup structures for the simple rules on one email field
+ */
+interface FieldIndex {
+  exact: Map<string, number[]>;
+  prefix: PatternTrie;
+  suffix: PatternTrie;
+  contains: ContainsAutomaton;
+  /** domainTree rules keyed by their normalized root domain */
+  tree: Map<string, number[]>;
+}
+
+/**
+ * A rule that is evaluated one by one, in evaluation order: regex and compound rules
+ * regex is undefined for compound rules and null for an invalid regex (never matches)
+ */
+interface SequentialRule {
+  index: number;
+  field?: string;
+  regex?: RegexTester | null;
+}
+
+/**
+ * Compiled rules of one category
+ */
+interface CompiledCategory {
+  /** Rules in evaluation order; indexes refer to this list */
+  rules: FilterRule[];
+  fields: Map<string, FieldIndex>;
+  sequential: SequentialRule[];
+}
+
+/** Field key prefix for header rules, followed by the lowercased header name */
+const HEADER_FIELD_PREFIX = 'header:';
+/** Field key prefix for rules that compare normalized text, followed by the plain field key */
+const NORMALIZED_FIELD_PREFIX = 'normalized:';
+
+/**
+ * Get the field key and value pattern for a simple rule
+ * Header rules are keyed by header name; returns null for an invalid header pattern.
+ * Normalized rules get their own field keys, with the pattern normalized unless it is a regex
+ */
+function ruleField(rule: FilterRule): { field: string; pattern: string } | null {
+  let target: { field: string; pattern: string };
+  if (rule.matchType !== 'header') {
+    target = { field: rule.matchType, pattern: rule.pattern };
+  } else {
+    const parsed = parseHeaderPattern(rule.pattern);
+    if (!parsed) {
+      return null;
+    }
+    target = { field: HEADER_FIELD_PREFIX + parsed.headerName, pattern: parsed.pattern };
+  }
+  if (!rule.normalize) {
+    return target;
+  }
+  return {
+    field: NORMALIZED_FIELD_PREFIX + target.field,
+    pattern: rule.matchMode === 'regex' ? target.pattern : normalizeText(target.pattern),
+  };
+}
+
+function fieldValue(payload: EmailWebhookPayload, field: string): string {
+  if (field.startsWith(NORMALIZED_FIELD_PREFIX)) {
+    return normalizeText(fieldValue(payload, field.substring(NORMALIZED_FIELD_PREFIX.length)));
+  }
+  if (field.startsWith(HEADER_FIELD_PREFIX)) {
+    return getWebhookFieldValue(payload, 'header', field.substring(HEADER_FIELD_PREFIX.length));
+  }
+  return getWebhookFieldValue(payload, field as MatchType);
+}
+
+function getFieldIndex(fields: Map<string, FieldIndex>, field: string): FieldIndex {
+  let index = fields.get(field);
+  if (!index) {
+    index = {
+      exact: new Map(),
+      prefix: new PatternTrie(false),
+      suffix: new PatternTrie(true),
+      contains: new ContainsAutomaton(),
+      tree: new Map(),
+    };
+    fields.set(field, index);
+  }
+  return index;
+}
+
+function addToBucket(buckets: Map<string, number[]>, key: string, ruleIndex: number): void {
+  const bucket = buckets.get(key);
+  if (bucket) {
+    bucket.push(ruleIndex);
+  } else {
+    buckets.set(key, [ruleIndex]);
+  }
+}
+
+/**
+ * Collect domainTree rules rooted at the host or at any domain it is a subdomain of
+ */
+function collectTree(tree: Map<string, number[]>, value: string, out: number[]): void {
+  if (tree.size === 0) {
+    return;
+  }
+  const host = normalizeHost(value);
+  for (let start = 0; start !== -1; ) {
+    const bucket = tree.get(host.substring(start));
+    if (bucket) {
+      out.push(...bucket);
+    }
+    const dot = host.indexOf('.', start);
+    start = dot === -1 ? -1 : dot + 1;
+  }
+}
+
+function compileCategory(rules: FilterRule[]): CompiledCategory {
+  const compiled: CompiledCategory = { rules: sortRulesByPriority(rules), fields: new Map(), sequential: [] };
+
+  compiled.rules.forEach((rule, index) => {
+    if (rule.conditions) {
+      compiled.sequential.push({ index });
+      return;
+    }
+    const target = ruleField(rule);
+    if (!target) {
+      return;
+    }
+    if (rule.matchMode === 'regex') {
+      let regex: RegexTester | null;
+      try {
+        regex = compileRegex(target.pattern);
+      } catch {
+        regex = null;
+      }
+      compiled.sequential.push({ index, field: target.field, regex });
+      return;
+    }
+
+    const fieldIndex = getFieldIndex(compiled.fields, target.field);
+    const pattern = target.pattern.toLowerCase();
+    switch (rule.matchMode) {
+      case 'exact':
+        addToBucket(fieldIndex.exact, pattern, index);
+        break;
+      case 'startsWith':
+        fieldIndex.prefix.add(pattern, index);
+        break;
+      case 'endsWith':
+        fieldIndex.suffix.add(pattern, index);
+        break;
+      case 'contains':
+        fieldIndex.contains.add(pattern, index);
+        break;
+      case 'domainTree': {
+        const root = normalizeHost(pattern);
+        if (root !== '') {
+          addToBucket(fieldIndex.tree, root, index);
+        }
+        break;
+      }
+    }
+  });
+
+  for (const fieldIndex of compiled.fields.values()) {
+    fieldIndex.contains.build();
+  }
+  return compiled;
+}
+
+/**
+ * Check a candidate whose main pattern matched: schedule and exceptions
+ */
+function confirmCandidate(payload: EmailWebhookPayload, rule: FilterRule, at: Date): boolean {
+  if (!isRuleActiveAt(rule, at)) {
+    return false;
+  }
+  return (
+    !rule.exceptions ||
+    !rule.exceptions.some((exception) => matchesConditionWebhook(payload, exception, rule.normalize ?? false))
+  );
+}
+
+/**
+ * Rules compiled for fast matching, per category
+ * Only enabled active-mode rules are compiled; shadow rules never decide an email
+ */
+export class CompiledRuleSet {
+  private categories: Record<RuleCategory, CompiledCategory>;
+
+  constructor(rules: FilterRule[]) {
+    const live = rules.filter((rule) => rule.enabled && rule.mode !== 'shadow');
+    this.categories = {
+      whitelist: compileCategory(live.filter((rule) => rule.category === 'whitelist')),
+      blacklist: compileCategory(live.filter((rule) => rule.category === 'blacklist')),
+      dynamic: compileCategory(live.filter((rule) => rule.category === 'dynamic')),
+    };
+  }
+
+  /**
+   * Find the first rule of a category that matches the email, in evaluation order
+   * Gives the same result as findMatchingRuleWebhook over the rules that are in schedule
+   *
+   * @param payload - The email webhook payload
+   * @param category - Rule category to search
+   * @param at - Time used to evaluate rule schedules, defaults to now
+   */
+  findMatch(payload: EmailWebhookPayload, category: RuleCategory, at: Date = new Date()): FilterRule | undefined {
+    const compiled = this.categories[category];
+    const values = new Map<string, string>();
+    const valueOf = (field: string): string => {
+      let value = values.get(field);
+      if (value === undefined) {
+        value = fieldValue(payload, field);
+        values.set(field, value);
+      }
+      return value;
+    };
+
+    const candidates: number[] = [];
+    for (const [field, fieldIndex] of compiled.fields) {
+      const value = valueOf(field).toLowerCase();
+      const exact = fieldIndex.exact.get(value);
+      if (exact) {
+        candidates.push(...exact);
+      }
+      fieldIndex.prefix.collect(value, candidates);
+      fieldIndex.suffix.collect(value, candidates);
+      fieldIndex.contains.collect(value, candidates);
+      collectTree(fieldIndex.tree, value, candidates);
+    }
+    candidates.sort((a, b) => a - b);
+
+    // Merge the indexed candidates with the sequential rules in evaluation order
+    let next = 0;
+    let previous = -1;
+    for (const sequential of compiled.sequential) {
+      for (; next < candidates.length && candidates[next] < sequential.index; next++) {
+        if (candidates[next] !== previous) {
+          previous = candidates[next];
+          const rule = compiled.rules[previous];
+          if (confirmCandidate(payload, rule, at)) {
+            return rule;
+          }
+        }
+      }
+
+      const rule = compiled.rules[sequential.index];
+      if (sequential.field === undefined) {
+        if (isRuleActiveAt(rule, at) && matchesRuleWebhook(payload, rule)) {
+          return rule;
+        }
+      } else if (sequential.regex && sequential.regex.test(valueOf(sequential.field)) && confirmCandidate(payload, rule, at)) {
+        return rule;
+      }
+    }
+    for (; next < candidates.length; next++) {
+      if (candidates[next] !== previous) {
+        previous = candidates[next];
+        const rule = compiled.rules[previous];
+        if (confirmCandidate(payload, rule, at)) {
+          return rule;
+        }
+      }
+    }
+    return undefined;
+  }
+}
+
+/**
+ * Compile a worker's rule set for matching
+ */
+export function compileRuleSet(rules: FilterRule[]): CompiledRuleSet {
+  return new CompiledRuleSet(rules);
+}
@@ -11,19 +11,20 @@
  * Requirements: 3.1, 3.2 - Uses prepared statements for better performance
  */
 
-import type { Database } from 'better-sqlite3';
+import type { Database, Statement } from 'better-sqlite3';
 import type {
   FilterRule,
   DynamicConfig,
   CreateRuleDTO,
 } from '@email-filter/shared';
-import { DEFAULT_DYNAMIC_CONFIG } from '@email-filter/shared';
+import { DEFAULT_DYNAMIC_CONFIG, normalizeText } from '@email-filter/shared';
 import { RuleRepository } from '../db/rule-repository.js';
 import { LogRepository } from '../db/log-repository.js';
 import { getRuleCache } from './rule-cache.instance.js';
 import { getDynamicPatternCache } from './dynamic-pattern-cache.instance.js';
-import { getPreparedStatementManager } from '../db/prepared-statements.js';
+import { getPreparedStatementManager, SQL_STATEMENTS, type StatementKey } from '../db/prepared-statements.js';
 import type { FilterResult } from './filter.service.js';
+import { buildTemplate, buildWavePattern, fingerprintSubject, isNearDuplicate, type WavePattern } from './subject-fingerprint.js';
 
 /**
  * Subject tracker entry from database
@@ -44,6 +45,23 @@ export interface SubjectCount {
   count: number;
 }
 
+/**
+ * A cluster of near-duplicate subjects in the current time window
+ */
+export interface SubjectCluster {
+  subjectHash: string;
+  count: number;
+  firstSeen: string;
+  lastSeen: string;
+  /** Fingerprint template shared by the members, e.g. "Hi {name}, order #{num} shipped" */
+  template: string;
+  /** Pattern a dynamic rule created for this cluster would use */
+  matchMode: WavePattern['matchMode'];
+  pattern: string;
+  /** Distinct member subjects, latest first */
+  members: string[];
+}
+
 /**
  * Result of tracking a subject with metrics
  * Used for synchronous dynamic rule creation in Phase 1
@@ -197,11 +215,11 @@ export class DynamicRuleService {
   ];
 
   /**
-   * Normalize subject by removing common prefixes
+   * Normalize subject by folding look-alike characters (see normalizeText) and removing common prefixes
    * This helps group similar subjects together
    */
   private normalizeSubject(subject: string): string {
-    let normalized = subject.trim();
+    let normalized = normalizeText(subject);
     
     // Apply prefix removal multiple times (for chained prefixes like "RE: Don't miss!")
     for (let i = 0; i < 3; i++) {
@@ -224,7 +242,7 @@ export class DynamicRuleService {
   private static readonly FNV_OFFSET_BASIS = 0x811c9dc5;
 
   /**
-   * Generate a hash for a subject string using FNV-1a algorithm
+   * Generate a hash for a subject fingerprint using FNV-1a algorithm
    * Used for efficient grouping and lookup
    * 
    * Requirements: 3.3 - Use fast non-cryptographic hash function (FNV-1a)
@@ -233,12 +251,11 @@ export class DynamicRuleService {
    * - Good distribution for hash table lookups
    * - Fast computation without cryptographic overhead
    * 
-   * @param subject - The email subject to hash
+   * @param fingerprint - The subject fingerprint to hash
    * @returns Hexadecimal string representation of the hash
    */
-  private hashSubject(subject: string): string {
-    // Normalize subject before hashing to group similar subjects
-    const normalized = this.normalizeSubject(subject).toLowerCase();
+  private hashFingerprint(fingerprint: string): string {
+    const normalized = fingerprint.toLowerCase();
     
     // FNV-1a hash algorithm
     let hash = DynamicRuleService.FNV_OFFSET_BASIS;
@@ -277,6 +294,89 @@ export class DynamicRuleService {
     return (hash >>> 0).toString(16);
   }
 
+  /** Most recent clusters a new fingerprint is compared against when looking for near-duplicates */
+  private static readonly MAX_CLUSTER_CANDIDATES = 200;
+  /** Latest cluster members used to build rule patterns and previews */
+  private static readonly MAX_CLUSTER_MEMBERS = 50;
+  /** Distinct member subjects shown per cluster in the tracker stats */
+  private static readonly CLUSTER_PREVIEW_SIZE = 5;
+
+  /**
+   * Get a prepared statement, or prepare it directly when the manager is not initialized
+   */
+  private statement(key: StatementKey): Statement {
+    const stmtManager = getPreparedStatementManager();
+    return stmtManager.isInitialized() ? stmtManager.get(key) : this.db.prepare(SQL_STATEMENTS[key]);
+  }
+
+  /**
+   * Fingerprint a subject: normalize it, then mask names, numbers, emails and tokens
+   */
+  private getFingerprint(subject: string, recipientEmail?: string): string {
+    return fingerprintSubject(this.normalizeSubject(subject), recipientEmail);
+  }
+
+  /**
+   * Find the cluster a fingerprint belongs to within the time window
+   * A fingerprint already seen keeps its own hash; a new one joins the most
+   * recent cluster holding a near-duplicate, or starts a cluster of its own.
+   *
+   * @returns The subject hash of the cluster
+   */
+  private assignCluster(fingerprint: string, windowStartStr: string): string {
+    const subjectHash = this.hashFingerprint(fingerprint);
+    const countResult = this.statement('COUNT_SUBJECTS').get(subjectHash, windowStartStr) as { count: number };
+    if ((countResult?.count || 0) > 0) {
+      return subjectHash;
+    }
+
+    const candidates = this.statement('FIND_CLUSTER_CANDIDATES').all(
+      windowStartStr,
+      DynamicRuleService.MAX_CLUSTER_CANDIDATES
+    ) as { subject_hash: string; fingerprint: string }[];
+    return candidates.find((candidate) => isNearDuplicate(fingerprint, candidate.fingerprint))?.subject_hash ?? subjectHash;
+  }
+
+  /**
+   * Get the latest members of a cluster with their fingerprints
+   * Records tracked before fingerprinting fall back to their normalized subject
+   */
+  private getClusterMembers(subjectHash: string, windowStartStr: string): { subject: string; fingerprint: string }[] {
+    const rows = this.statement('GET_CLUSTER_MEMBERS').all(
+      subjectHash,
+      windowStartStr,
+      DynamicRuleService.MAX_CLUSTER_MEMBERS
+    ) as { subject: string; fingerprint: string | null }[];
+    return rows.map((row) => ({
+      subject: this.normalizeSubject(row.subject),
+      fingerprint: row.fingerprint ?? this.normalizeSubject(row.subject),
+    }));
+  }
+
+  /**
+   * Build the rule pattern covering the wave the current subject belongs to
+   * The current subject comes first, so it is the pattern when the cluster has no usable template
+   */
+  private getWavePattern(subject: string, fingerprint: string, subjectHash: string, windowStartStr: string): WavePattern {
+    const members = [{ subject: this.normalizeSubject(subject), fingerprint }, ...this.getClusterMembers(subjectHash, windowStartStr)];
+    return buildWavePattern(
+      members.map((member) => member.subject),
+      members.map((member) => member.fingerprint)
+    );
+  }
+
+  /**
+   * Find an existing dynamic rule for a wave pattern
+   * Contains patterns also reuse rules overlapping them; regex patterns only the same pattern
+   */
+  private findDynamicRuleForWave(wave: WavePattern): FilterRule | null {
+    if (wave.matchMode === 'contains') {
+      return this.findDynamicRuleBySubject(wave.pattern);
+    }
+    const row = this.statement('FIND_DYNAMIC_RULE_EXACT').get(wave.pattern) as Parameters<DynamicRuleService['mapRuleRow']>[0] | undefined;
+    return row ? this.mapRuleRow(row) : null;
+  }
+
   /**
    * Track an email subject for dynamic rule detection
    * 
@@ -305,23 +405,20 @@ export class DynamicRuleService {
       return null;
     }
 
-    const subjectHash = this.hashSubject(subject);
     const receivedAtStr = receivedAt.toISOString();
 
-    // Requirements 3.1: Use prepared statement for insert
-    const stmtManager = getPreparedStatementManager();
-    const insertStmt = stmtManager.isInitialized() 
-      ? stmtManager.get('INSERT_SUBJECT_TRACKER')
-      : this.db.prepare(
-          `INSERT INTO email_subject_tracker (subject_hash, subject, received_at)
-           VALUES (?, ?, ?)`
-        );
-    insertStmt.run(subjectHash, subject, receivedAtStr);
-
     // Requirements 2.1: Only consider emails within the configured time window
     const windowStart = new Date(receivedAt.getTime() - config.timeWindowMinutes * 60 * 1000);
     const windowStartStr = windowStart.toISOString();
 
+    // Count per cluster of near-duplicate subjects rather than per exact subject
+    const fingerprint = this.getFingerprint(subject);
+    const subjectHash = this.assignCluster(fingerprint, windowStartStr);
+
+    // Requirements 3.1: Use prepared statement for insert
+    const stmtManager = getPreparedStatementManager();
+    this.statement('INSERT_SUBJECT_TRACKER').run(subjectHash, subject, receivedAtStr, fingerprint);
+
     // Requirements 1.1, 3.1: First count the number of emails with the same subject using prepared statement
     const countStmt = stmtManager.isInitialized()
       ? stmtManager.get('COUNT_SUBJECTS')
@@ -355,23 +452,24 @@ export class DynamicRuleService {
         // Requirements 1.3: Create rule only if time span <= threshold
         // Requirements 1.4: Don't create rule if time span > threshold
         if (timeSpanMinutes <= config.timeSpanThresholdMinutes) {
-          // Use normalized subject for rule pattern (removes common prefixes)
-          const normalizedSubject = this.normalizeSubject(subject);
+          // Cover the whole wave: a regex built from the cluster's template, or the normalized subject
+          const wave = this.getWavePattern(subject, fingerprint, subjectHash, windowStartStr);
           
-          // Check if a dynamic rule for this subject already exists
-          const existingRule = this.findDynamicRuleBySubject(normalizedSubject);
+          // Check if a dynamic rule for this wave already exists
+          const existingRule = this.findDynamicRuleForWave(wave);
           if (existingRule) {
             // Update lastHitAt for existing rule
             this.ruleRepository.updateLastHit(existingRule.id);
             return existingRule;
           }
 
-          // Create new dynamic rule with normalized subject
+          // Create new dynamic rule for the wave, matching normalized text so look-alike variants are caught too
           const ruleDto: CreateRuleDTO = {
             category: 'dynamic',
             matchType: 'subject',
-            matchMode: 'contains',
-            pattern: normalizedSubject,
+            matchMode: wave.matchMode,
+            pattern: wave.pattern,
+            normalize: true,
             enabled: true,
           };
 
@@ -384,7 +482,7 @@ export class DynamicRuleService {
           
           // Requirements 4.2: Add pattern to in-memory cache immediately
           const patternCache = getDynamicPatternCache();
-          patternCache.add(normalizedSubject);
+          patternCache.add(wave.pattern);
           
           // Clean up old tracking records for this subject
           this.cleanupSubjectTracker(subjectHash, windowStart);
@@ -429,23 +527,20 @@ export class DynamicRuleService {
       return { rule: null };
     }
 
-    const subjectHash = this.hashSubject(subject);
     const receivedAtStr = receivedAt.toISOString();
 
-    // Requirements 3.1: Use prepared statement for insert
-    const stmtManager = getPreparedStatementManager();
-    const insertStmt = stmtManager.isInitialized()
-      ? stmtManager.get('INSERT_SUBJECT_TRACKER')
-      : this.db.prepare(
-          `INSERT INTO email_subject_tracker (subject_hash, subject, received_at)
-           VALUES (?, ?, ?)`
-        );
-    insertStmt.run(subjectHash, subject, receivedAtStr);
-
     // Only consider emails within the configured time window
     const windowStart = new Date(receivedAt.getTime() - config.timeWindowMinutes * 60 * 1000);
     const windowStartStr = windowStart.toISOString();
 
+    // Count per cluster of near-duplicate subjects; the recipient helps spot their name in the subject
+    const fingerprint = this.getFingerprint(subject, recipientEmail);
+    const subjectHash = this.assignCluster(fingerprint, windowStartStr);
+
+    // Requirements 3.1: Use prepared statement for insert
+    const stmtManager = getPreparedStatementManager();
+    this.statement('INSERT_SUBJECT_TRACKER').run(subjectHash, subject, receivedAtStr, fingerprint);
+
     // Requirements 3.1: Use prepared statement for count query
     const countStmt = stmtManager.isInitialized()
       ? stmtManager.get('COUNT_SUBJECTS')
@@ -478,11 +573,11 @@ export class DynamicRuleService {
         
         // Create rule only if time span <= threshold
         if (timeSpanMinutes <= config.timeSpanThresholdMinutes) {
-          // Use normalized subject for rule pattern (removes common prefixes)
-          const normalizedSubject = this.normalizeSubject(subject);
+          // Cover the whole wave: a regex built from the cluster's template, or the normalized subject
+          const wave = this.getWavePattern(subject, fingerprint, subjectHash, windowStartStr);
           
-          // Check if a dynamic rule for this subject already exists
-          const existingRule = this.findDynamicRuleBySubject(normalizedSubject);
+          // Check if a dynamic rule for this wave already exists
+          const existingRule = this.findDynamicRuleForWave(wave);
           if (existingRule) {
             // Update lastHitAt for existing rule
             this.ruleRepository.updateLastHit(existingRule.id);
@@ -499,12 +594,13 @@ export class DynamicRuleService {
           // Emails forwarded = count - 1 (current email will be blocked)
           const emailsForwardedBeforeBlock = count - 1;
 
-          // Create new dynamic rule with normalized subject
+          // Create new dynamic rule for the wave, matching normalized text so look-alike variants are caught too
           const ruleDto: CreateRuleDTO = {
             category: 'dynamic',
             matchType: 'subject',
-            matchMode: 'contains',
-            pattern: normalizedSubject,
+            matchMode: wave.matchMode,
+            pattern: wave.pattern,
+            normalize: true,
             enabled: true,
           };
 
@@ -517,7 +613,7 @@ export class DynamicRuleService {
           
           // Requirements 4.2: Add pattern to in-memory cache immediately
           const patternCache = getDynamicPatternCache();
-          patternCache.add(normalizedSubject);
+          patternCache.add(wave.pattern);
           
           // Log system event for dynamic rule creation - Requirements 6.1
           const logRepository = new LogRepository(this.db);
@@ -531,10 +627,12 @@ export class DynamicRuleService {
           
           logRepository.create(
             'system',
-            `动态规则已创建: ${normalizedSubject}`,
+            `动态规则已创建: ${wave.pattern}`,
             {
               ruleId: newRule.id,
-              pattern: normalizedSubject,
+              pattern: wave.pattern,
+              matchMode: wave.matchMode,
+              template: wave.template,
               detectionLatencyMs,
               emailsForwardedBeforeBlock,
               firstEmailTime: firstEmailTime.toISOString(),
@@ -882,6 +980,43 @@ export class DynamicRuleService {
     }));
   }
 
+  /**
+   * Get the largest subject clusters within the current time window
+   * Each cluster comes with a preview of its members and the pattern a dynamic rule would use
+   *
+   * @param limit - Maximum number of clusters, largest first
+   */
+  getSubjectClusters(limit: number = 10): SubjectCluster[] {
+    const config = this.getConfig();
+    const windowStartStr = new Date(Date.now() - config.timeWindowMinutes * 60 * 1000).toISOString();
+
+    const stmt = this.db.prepare(
+      `SELECT subject_hash, COUNT(*) as count, MIN(received_at) as first_seen, MAX(received_at) as last_seen
+       FROM email_subject_tracker
+       WHERE received_at >= ?
+       GROUP BY subject_hash
+       ORDER BY count DESC
+       LIMIT ?`
+    );
+    const rows = stmt.all(windowStartStr, limit) as { subject_hash: string; count: number; first_seen: string; last_seen: string }[];
+
+    return rows.map(row => {
+      const members = this.getClusterMembers(row.subject_hash, windowStartStr);
+      const fingerprints = members.map(member => member.fingerprint);
+      const wave = buildWavePattern(members.map(member => member.subject), fingerprints);
+      return {
+        subjectHash: row.subject_hash,
+        count: row.count,
+        firstSeen: row.first_seen,
+        lastSeen: row.last_seen,
+        template: wave.template ?? buildTemplate(fingerprints),
+        matchMode: wave.matchMode,
+        pattern: wave.pattern,
+        members: [...new Set(members.map(member => member.subject))].slice(0, DynamicRuleService.CLUSTER_PREVIEW_SIZE),
+      };
+    });
+  }
+
   /**
    * Check if dynamic rules feature is enabled
    */
@@ -8,7 +8,7 @@
  */
 
 import type { EmailWebhookPayload, FilterDecision, FilterRule } from '@email-filter/shared';
-import { FilterService, type FilterResult } from './filter.service.js';
+import { FilterService, type FilterResult, getEmailLogCategory, getEmailLogMessage } from './filter.service.js';
 import type { RuleRepository } from '../db/rule-repository.js';
 import type { StatsRepository } from '../db/stats-repository.js';
 import type { LogRepository } from '../db/log-repository.js';
@@ -83,10 +83,8 @@ export class EmailService {
   private logEmailProcessing(payload: EmailWebhookPayload, filterResult: FilterResult): void {
     if (!this.logRepository) return;
 
-    const category = filterResult.action === 'drop' ? 'email_drop' : 'email_forward';
-    const message = filterResult.action === 'drop' 
-      ? `拦截邮件: ${payload.subject}`
-      : `转发邮件: ${payload.subject}`;
+    const category = getEmailLogCategory(filterResult);
+    const message = getEmailLogMessage(filterResult, payload.subject);
     
     // Include workerName from payload (defaults to 'global' if not provided)
     const workerName = payload.workerName || 'global';
@@ -99,6 +97,8 @@ export class EmailService {
       forwardTo: filterResult.forwardTo,
       matchedRule: filterResult.matchedRule?.pattern,
       reason: filterResult.reason,
+      rejectReason: filterResult.rejectReason,
+      auth: payload.auth,
     }, 'info', workerName);
   }
 
@@ -112,6 +112,8 @@ export class EmailService {
     // Always update global stats
     if (filterResult.action === 'drop') {
       this.statsRepository.incrementGlobalDeleted();
+    } else if (filterResult.action === 'reject') {
+      this.statsRepository.incrementGlobalRejected();
     } else {
       this.statsRepository.incrementGlobalForwarded();
     }
@@ -122,8 +124,8 @@ export class EmailService {
       // Update lastHitAt on the rule
       this.ruleRepository.updateLastHit(ruleId);
 
-      // Update rule statistics based on action
-      if (filterResult.action === 'drop') {
+      // Update rule statistics based on action (rejects count as blocked)
+      if (filterResult.action !== 'forward') {
         this.statsRepository.incrementDeleted(ruleId);
       } else {
         this.statsRepository.incrementProcessed(ruleId);
@@ -1,7 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import * as fc from 'fast-check';
-import type { FilterRule, EmailWebhookPayload, RuleCategory, MatchType, MatchMode } from '@email-filter/shared';
-import { filterEmail, groupRulesByCategory, FilterService } from './filter.service.js';
+import type { FilterRule, ForwardRule, EmailWebhookPayload, RuleCategory, MatchType, MatchMode } from '@email-filter/shared';
+import { filterEmail, groupRulesByCategory, FilterService, toFilterDecision, getEmailLogCategory, DEFAULT_REJECT_REASON, evaluateShadowRules } from './filter.service.js';
 
 // Arbitraries for generating valid rule data
 const categoryArb = fc.constantFrom<RuleCategory>('whitelist', 'blacklist', 'dynamic');
@@ -417,4 +417,301 @@ describe('FilterService', () => {
       );
     });
   });
+
+  describe('compound rules', () => {
+    const payload: EmailWebhookPayload = {
+      from: 'promo@news.shop.com',
+      to: 'user@example.com',
+      subject: 'Your order confirmation',
+      messageId: 'msg-1',
+      timestamp: Date.now(),
+    };
+
+    it('should drop email matching every condition of an AND blacklist rule', () => {
+      const rule: FilterRule = {
+        id: 'compound',
+        category: 'blacklist',
+        matchType: 'domain',
+        matchMode: 'endsWith',
+        pattern: 'domain endsWith shop.com AND subject contains order',
+        conditions: {
+          operator: 'and',
+          conditions: [
+            { matchType: 'domain', matchMode: 'endsWith', pattern: 'shop.com' },
+            { matchType: 'subject', matchMode: 'contains', pattern: 'order' },
+          ],
+        },
+        enabled: true,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
+
+      expect(filterEmail(payload, [rule], defaultForwardTo).action).toBe('drop');
+      expect(filterEmail({ ...payload, subject: 'Weekly deals' }, [rule], defaultForwardTo).action).toBe('forward');
+    });
+
+    it('should forward email excepted from a blacklist rule', () => {
+      const rule: FilterRule = {
+        id: 'with-exception',
+        category: 'blacklist',
+        matchType: 'domain',
+        matchMode: 'endsWith',
+        pattern: 'shop.com',
+        exceptions: [{ matchType: 'subject', matchMode: 'contains', pattern: 'order' }],
+        enabled: true,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
+
+      const result = filterEmail(payload, [rule], defaultForwardTo);
+      expect(result.action).toBe('forward');
+      expect(result.matchedRule).toBeUndefined();
+    });
+
+    it('should drop spoofed email from a protected domain when dmarc fails', () => {
+      const rule: FilterRule = {
+        id: 'anti-spoof',
+        category: 'blacklist',
+        matchType: 'dmarc',
+        matchMode: 'exact',
+        pattern: 'dmarc exact fail AND domain endsWith shop.com',
+        conditions: {
+          operator: 'and',
+          conditions: [
+            { matchType: 'dmarc', matchMode: 'exact', pattern: 'fail' },
+            { matchType: 'domain', matchMode: 'endsWith', pattern: 'shop.com' },
+          ],
+        },
+        enabled: true,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
+      const spoofed = { ...payload, auth: { spf: 'fail' as const, dmarc: 'fail' as const } };
+
+      expect(filterEmail(spoofed, [rule], defaultForwardTo).action).toBe('drop');
+      expect(filterEmail({ ...spoofed, auth: { dmarc: 'pass' } }, [rule], defaultForwardTo).action).toBe('forward');
+      expect(filterEmail(payload, [rule], defaultForwardTo).action).toBe('forward');
+    });
+  });
+
+  describe('reject action', () => {
+    const payload: EmailWebhookPayload = {
+      from: 'spam@bulk.example.net',
+      to: 'user@example.com',
+      subject: 'Cheap offer',
+      messageId: 'msg-2',
+      timestamp: Date.now(),
+    };
+
+    const rejectRule = (overrides: Partial<FilterRule> = {}): FilterRule => ({
+      id: 'reject-rule',
+      category: 'blacklist',
+      matchType: 'domain',
+      matchMode: 'exact',
+      pattern: 'bulk.example.net',
+      action: 'reject',
+      enabled: true,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      ...overrides,
+    });
+
+    it('should reject email with the rule reason', () => {
+      const result = filterEmail(payload, [rejectRule({ rejectReason: 'Mailbox does not accept bulk mail' })], defaultForwardTo);
+
+      expect(result.action).toBe('reject');
+      expect(result.rejectReason).toBe('Mailbox does not accept bulk mail');
+      expect(result.matchedCategory).toBe('blacklist');
+      expect(getEmailLogCategory(result)).toBe('email_reject');
+
+      const decision = toFilterDecision(result);
+      expect(decision.action).toBe('reject');
+      expect(decision.rejectReason).toBe('Mailbox does not accept bulk mail');
+    });
+
+    it('should fall back to the default reason', () => {
+      const result = filterEmail(payload, [rejectRule()], defaultForwardTo);
+
+      expect(result.action).toBe('reject');
+      expect(toFilterDecision(result).rejectReason).toBe(DEFAULT_REJECT_REASON);
+    });
+
+    it('should still let whitelist rules override a reject rule', () => {
+      const whitelist = rejectRule({ id: 'allow', category: 'whitelist', matchType: 'sender', pattern: payload.from, action: undefined });
+      const result = filterEmail(payload, [rejectRule(), whitelist], defaultForwardTo);
+
+      expect(result.action).toBe('forward');
+      expect(toFilterDecision(result).rejectReason).toBeUndefined();
+    });
+  });
+
+  describe('forward rules', () => {
+    const payload: EmailWebhookPayload = {
+      from: 'school@edu.example.org',
+      to: 'kids@family.com',
+      subject: 'Term report',
+      messageId: 'msg-3',
+      timestamp: Date.now(),
+    };
+
+    const forwardRules: ForwardRule[] = [
+      { id: 'kids', recipientPattern: 'kids@family.com', matchMode: 'exact', forwardTo: 'parent@gmail.com', enabled: true, sortOrder: 0 },
+      { id: 'family', recipientPattern: '@family.com', matchMode: 'contains', forwardTo: 'family@gmail.com', enabled: true, sortOrder: 1 },
+    ];
+
+    it('should forward to the first forward rule matching the recipient', () => {
+      expect(filterEmail(payload, [], defaultForwardTo, forwardRules).forwardTo).toBe('parent@gmail.com');
+      expect(filterEmail({ ...payload, to: 'mum@family.com' }, [], defaultForwardTo, forwardRules).forwardTo).toBe('family@gmail.com');
+    });
+
+    it('should use the default address when no forward rule matches', () => {
+      expect(filterEmail({ ...payload, to: 'me@other.com' }, [], defaultForwardTo, forwardRules).forwardTo).toBe(defaultForwardTo);
+    });
+
+    it('should apply forward rules to whitelisted email', () => {
+      const whitelist = createMatchingRule(payload, 'whitelist', 'sender');
+      const service = new FilterService(defaultForwardTo, forwardRules);
+      const result = service.processEmail(payload, [whitelist]);
+
+      expect(result.matchedCategory).toBe('whitelist');
+      expect(result.forwardTo).toBe('parent@gmail.com');
+    });
+
+    it('should forward to the whitelist rule destinations instead of forward rules', () => {
+      const whitelist = { ...createMatchingRule(payload, 'whitelist', 'sender'), forwardTo: ['mum@gmail.com', 'dad@gmail.com'] };
+      const result = filterEmail(payload, [whitelist], defaultForwardTo, forwardRules);
+
+      expect(result.forwardTo).toEqual(['mum@gmail.com', 'dad@gmail.com']);
+      expect(toFilterDecision(result).forwardTo).toEqual(['mum@gmail.com', 'dad@gmail.com']);
+
+      const single = { ...whitelist, forwardTo: ['mum@gmail.com'] };
+      expect(filterEmail(payload, [single], defaultForwardTo, forwardRules).forwardTo).toBe('mum@gmail.com');
+    });
+  });
+
+  describe('rule priority', () => {
+    const payload: EmailWebhookPayload = {
+      from: 'deals@shop.com',
+      to: 'user@example.com',
+      subject: 'Flash sale',
+      messageId: 'msg-4',
+      timestamp: Date.now(),
+    };
+
+    it('should credit the overlapping rule with the lowest priority', () => {
+      fc.assert(
+        fc.property(fc.shuffledSubarray([0, 1, 2, 3], { minLength: 4, maxLength: 4 }), (priorities) => {
+          const rules: FilterRule[] = priorities.map((priority, index) => ({
+            ...createMatchingRule(payload, 'blacklist', index % 2 === 0 ? 'sender' : 'domain'),
+            id: 'rule-' + priority,
+            priority,
+          }));
+
+          expect(filterEmail(payload, rules, defaultForwardTo).matchedRule?.id).toBe('rule-0');
+        }),
+        { numRuns: 50 }
+      );
+    });
+  });
+
+  describe('rule schedules', () => {
+    const payload: EmailWebhookPayload = {
+      from: 'promo@shop.com',
+      to: 'user@example.com',
+      subject: 'Black Friday',
+      messageId: 'msg-5',
+      timestamp: Date.now(),
+    };
+
+    it('should ignore rules outside their active period', () => {
+      const rule: FilterRule = {
+        ...createMatchingRule(payload, 'blacklist', 'sender'),
+        activeFrom: new Date('2024-11-01T00:00:00Z'),
+        activeUntil: new Date('2024-12-01T00:00:00Z'),
+      };
+
+      expect(filterEmail(payload, [rule], defaultForwardTo, [], new Date('2024-11-15T00:00:00Z')).action).toBe('drop');
+      expect(filterEmail(payload, [rule], defaultForwardTo, [], new Date('2024-10-15T00:00:00Z')).action).toBe('forward');
+      expect(filterEmail(payload, [rule], defaultForwardTo, [], new Date('2024-12-01T00:00:00Z')).action).toBe('forward');
+    });
+
+    it('should only whitelist inside the weekly time windows of the rule timezone', () => {
+      const whitelist: FilterRule = {
+        ...createMatchingRule(payload, 'whitelist', 'sender'),
+        timeWindows: [{ days: [1, 2, 3, 4, 5], start: '09:00', end: '18:00' }],
+        timezone: 'Asia/Shanghai',
+      };
+      const blacklist = createMatchingRule(payload, 'blacklist', 'domain');
+
+      // Monday 10:00 and 20:00 in Shanghai
+      const inWindow = filterEmail(payload, [whitelist, blacklist], defaultForwardTo, [], new Date('2024-01-01T02:00:00Z'));
+      const outOfWindow = filterEmail(payload, [whitelist, blacklist], defaultForwardTo, [], new Date('2024-01-01T12:00:00Z'));
+
+      expect(inWindow.matchedCategory).toBe('whitelist');
+      expect(outOfWindow.matchedCategory).toBe('blacklist');
+    });
+  });
+
+  describe('shadow rules', () => {
+    const payload: EmailWebhookPayload = {
+      from: 'promo@shop.com',
+      to: 'user@example.com',
+      subject: 'Big sale',
+      messageId: 'msg-6',
+      timestamp: Date.now(),
+    };
+
+    /**
+     * Shadow rules never change the decision, whatever they match
+     */
+    it('should make the same decision with or without shadow rules', () => {
+      fc.assert(
+        fc.property(
+          emailPayloadArb,
+          fc.array(filterRuleArb(), { maxLength: 5 }),
+          fc.array(filterRuleArb(), { minLength: 1, maxLength: 5 }),
+          (payload, activeRules, candidates) => {
+            const shadowRules = candidates
+              .filter((rule) => rule.category !== 'dynamic')
+              .map((rule) => ({ ...rule, mode: 'shadow' as const }));
+
+            const withShadow = filterEmail(payload, [...activeRules, ...shadowRules], defaultForwardTo);
+            const without = filterEmail(payload, activeRules, defaultForwardTo);
+
+            expect(withShadow).toEqual(without);
+          }
+        ),
+        { numRuns: 100 }
+      );
+    });
+
+    it('should report what a matching shadow blacklist rule would have done', () => {
+      const shadow: FilterRule = { ...createMatchingRule(payload, 'blacklist', 'sender'), mode: 'shadow', action: 'reject' };
+      const result = filterEmail(payload, [shadow], defaultForwardTo);
+
+      expect(result.action).toBe('forward');
+      const matches = evaluateShadowRules(payload, [shadow], result);
+      expect(matches).toHaveLength(1);
+      expect(matches[0]).toMatchObject({ action: 'reject', wouldChange: true });
+      expect(matches[0].rule.id).toBe(shadow.id);
+    });
+
+    it('should not report a change when an active whitelist rule would still win', () => {
+      const whitelist = createMatchingRule(payload, 'whitelist', 'domain');
+      const shadow: FilterRule = { ...createMatchingRule(payload, 'blacklist', 'sender'), mode: 'shadow' };
+      const result = filterEmail(payload, [whitelist, shadow], defaultForwardTo);
+
+      const matches = evaluateShadowRules(payload, [whitelist, shadow], result);
+      expect(matches).toHaveLength(1);
+      expect(matches[0]).toMatchObject({ action: 'forward', wouldChange: false });
+    });
+
+    it('should only evaluate enabled shadow rules', () => {
+      const active = createMatchingRule(payload, 'blacklist', 'sender');
+      const disabled: FilterRule = { ...createMatchingRule(payload, 'blacklist', 'domain'), mode: 'shadow', enabled: false };
+      const result = filterEmail(payload, [active, disabled], defaultForwardTo);
+
+      expect(evaluateShadowRules(payload, [active, disabled], result)).toEqual([]);
+    });
+  });
 });
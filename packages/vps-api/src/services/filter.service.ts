@@ -10,9 +10,20 @@ import type {
   FilterRule,
   EmailWebhookPayload,
   FilterDecision,
+  FilterAction,
   RuleCategory,
+  ForwardRule,
 } from '@email-filter/shared';
-import { matchesRuleWebhook, findMatchingRuleWebhook } from '@email-filter/shared';
+import {
+  matchesRuleWebhook,
+  findMatchingRuleWebhook,
+  findForwardRule,
+  sortRulesByPriority,
+  compareRulePriority,
+  isRuleActiveAt,
+} from '@email-filter/shared';
+import type { LogCategory } from '../db/log-repository.js';
+import type { CompiledRuleSet } from './compiled-matcher.js';
 
 /**
  * Filter rules grouped by category
@@ -25,6 +36,8 @@ export interface GroupedRules {
 
 /**
  * Group rules by category for efficient processing
+ * Each group is in evaluation order (ascending priority), so the first
+ * matching rule is always the same one when several rules overlap
  */
 export function groupRulesByCategory(rules: FilterRule[]): GroupedRules {
   const grouped: GroupedRules = {
@@ -43,7 +56,11 @@ export function groupRulesByCategory(rules: FilterRule[]): GroupedRules {
     }
   }
 
-  return grouped;
+  return {
+    whitelist: sortRulesByPriority(grouped.whitelist),
+    blacklist: sortRulesByPriority(grouped.blacklist),
+    dynamic: sortRulesByPriority(grouped.dynamic),
+  };
 }
 
 /**
@@ -73,102 +90,308 @@ export function matchesDynamicList(payload: EmailWebhookPayload, dynamicRules: F
   return result.matched ? result.rule : undefined;
 }
 
+/** SMTP rejection reason used when a reject rule has no reason of its own */
+export const DEFAULT_REJECT_REASON = 'Message rejected by recipient policy';
+
 /**
  * Filter result with detailed information
  */
 export interface FilterResult {
-  action: 'forward' | 'drop';
+  action: FilterAction;
   matchedRule?: FilterRule;
   matchedCategory?: RuleCategory;
-  forwardTo?: string;
+  /** Forward destination, or a list when the email goes to several addresses */
+  forwardTo?: string | string[];
   reason?: string;
+  /** SMTP rejection reason, set when action is reject */
+  rejectReason?: string;
 }
 
 /**
- * Process an email through the filter engine
- * 
- * Priority order (Requirements 4.3):
- * 1. Whitelist - if matched, email is forwarded regardless of other rules
- * 2. Blacklist - if matched (and not whitelisted), email is dropped (Requirements 4.2)
- * 3. Dynamic list - if matched (and not whitelisted), email is dropped
- * 4. No match - email is forwarded to default destination (Requirements 4.4)
- * 
- * Note: Only enabled rules are considered for matching (Requirements 4.1)
- * 
- * @param payload - The email webhook payload to process
- * @param rules - All filter rules (will be grouped by category)
- * @param defaultForwardTo - Default forwarding address when no rules match
- * @returns FilterResult with action and matched rule info
+ * Pick the forward destination for a recipient
+ * The first matching forward rule wins, otherwise the default address is used
  */
-export function filterEmail(
+export function resolveForwardTo(recipient: string, defaultForwardTo: string, forwardRules: ForwardRule[] = []): string {
+  return findForwardRule(recipient, forwardRules)?.forwardTo || defaultForwardTo;
+}
+
+/**
+ * Pick the forward destination(s) for a whitelisted email
+ * The rule's own destinations win; a single destination is returned as a plain string
+ */
+function whitelistForwardTo(
+  rule: FilterRule,
+  recipient: string,
+  defaultForwardTo: string,
+  forwardRules: ForwardRule[]
+): string | string[] {
+  if (!rule.forwardTo || rule.forwardTo.length === 0) {
+    return resolveForwardTo(recipient, defaultForwardTo, forwardRules);
+  }
+  return rule.forwardTo.length === 1 ? rule.forwardTo[0] : [...rule.forwardTo];
+}
+
+/**
+ * Build the result for a matched blocking (blacklist/dynamic) rule
+ * Uses the rule's action: drop silently, or reject with its reason
+ */
+function blockedResult(rule: FilterRule, category: RuleCategory, reason: string): FilterResult {
+  if (rule.action === 'reject') {
+    return {
+      action: 'reject',
+      matchedRule: rule,
+      matchedCategory: category,
+      reason,
+      rejectReason: rule.rejectReason || DEFAULT_REJECT_REASON,
+    };
+  }
+  return {
+    action: 'drop',
+    matchedRule: rule,
+    matchedCategory: category,
+    reason,
+  };
+}
+
+/**
+ * Finds the first rule of a category matching the email, in evaluation order
+ */
+type CategoryMatcher = (category: RuleCategory) => FilterRule | undefined;
+
+/**
+ * Decide what happens to an email given a matcher for each category
+ * Categories are checked in priority order and only as far as needed
+ */
+function decideFilterResult(
   payload: EmailWebhookPayload,
-  rules: FilterRule[],
-  defaultForwardTo: string
+  findMatch: CategoryMatcher,
+  defaultForwardTo: string,
+  forwardRules: ForwardRule[]
 ): FilterResult {
-  // Group rules by category
-  const grouped = groupRulesByCategory(rules);
-
   // Step 1: Check whitelist first (highest priority) - Requirements 4.3
   // If email matches whitelist, it is forwarded regardless of other rules
-  const whitelistMatch = matchesWhitelist(payload, grouped.whitelist);
+  const whitelistMatch = findMatch('whitelist');
   if (whitelistMatch) {
     return {
       action: 'forward',
       matchedRule: whitelistMatch,
       matchedCategory: 'whitelist',
-      forwardTo: defaultForwardTo,
+      forwardTo: whitelistForwardTo(whitelistMatch, payload.to, defaultForwardTo, forwardRules),
       reason: `Matched whitelist rule: ${whitelistMatch.pattern}`,
     };
   }
 
   // Step 2: Check blacklist - Requirements 4.2
-  // If email matches blacklist (and not whitelisted), drop it
-  const blacklistMatch = matchesBlacklist(payload, grouped.blacklist);
+  // If email matches blacklist (and not whitelisted), drop or reject it
+  const blacklistMatch = findMatch('blacklist');
   if (blacklistMatch) {
-    return {
-      action: 'drop',
-      matchedRule: blacklistMatch,
-      matchedCategory: 'blacklist',
-      reason: `Matched blacklist rule: ${blacklistMatch.pattern}`,
-    };
+    return blockedResult(blacklistMatch, 'blacklist', `Matched blacklist rule: ${blacklistMatch.pattern}`);
   }
 
   // Step 3: Check dynamic list
-  // If email matches dynamic list (and not whitelisted), drop it
-  const dynamicMatch = matchesDynamicList(payload, grouped.dynamic);
+  // If email matches dynamic list (and not whitelisted), drop or reject it
+  const dynamicMatch = findMatch('dynamic');
   if (dynamicMatch) {
-    return {
-      action: 'drop',
-      matchedRule: dynamicMatch,
-      matchedCategory: 'dynamic',
-      reason: `Matched dynamic rule: ${dynamicMatch.pattern}`,
-    };
+    return blockedResult(dynamicMatch, 'dynamic', `Matched dynamic rule: ${dynamicMatch.pattern}`);
   }
 
   // Step 4: No match - forward to default destination - Requirements 4.4
   return {
     action: 'forward',
-    forwardTo: defaultForwardTo,
+    forwardTo: resolveForwardTo(payload.to, defaultForwardTo, forwardRules),
     reason: 'No matching rules, forwarding to default',
   };
 }
 
+/**
+ * Process an email through the filter engine
+ * 
+ * Priority order (Requirements 4.3):
+ * 1. Whitelist - if matched, email is forwarded regardless of other rules,
+ *    to the rule's own destinations when it has any
+ * 2. Blacklist - if matched (and not whitelisted), email is dropped (Requirements 4.2)
+ * 3. Dynamic list - if matched (and not whitelisted), email is dropped
+ *    Blocking rules with action 'reject' bounce the email with their reject reason instead
+ * 4. No match - email is forwarded to default destination (Requirements 4.4)
+ *    Forwarded emails go to the first forward rule matching the recipient, if any
+ * 
+ * Note: Only enabled rules are considered for matching (Requirements 4.1)
+ * Scheduled rules are skipped outside their active period and weekly time windows,
+ * and shadow rules are never used (see evaluateShadowRules).
+ * Compound rules match on their condition tree, and a blacklist rule with a
+ * matching exception is skipped so later rules (or the default) apply.
+ * 
+ * @param payload - The email webhook payload to process
+ * @param rules - All filter rules (will be grouped by category)
+ * @param defaultForwardTo - Default forwarding address when no rules match
+ * @param forwardRules - Recipient-based forward rules in evaluation order
+ * @param at - Time used to evaluate rule schedules, defaults to now
+ * @returns FilterResult with action and matched rule info
+ */
+export function filterEmail(
+  payload: EmailWebhookPayload,
+  rules: FilterRule[],
+  defaultForwardTo: string,
+  forwardRules: ForwardRule[] = [],
+  at: Date = new Date()
+): FilterResult {
+  // Group the active-mode rules that are currently in schedule by category
+  const grouped = groupRulesByCategory(rules.filter((rule) => rule.mode !== 'shadow' && isRuleActiveAt(rule, at)));
+  return decideFilterResult(
+    payload,
+    (category) => findMatchingRuleWebhook(payload, grouped[category]).rule,
+    defaultForwardTo,
+    forwardRules
+  );
+}
+
+/**
+ * Process an email through the filter engine using a compiled rule set
+ * Same decision as filterEmail over the rules the set was compiled from,
+ * without testing every rule one by one.
+ *
+ * @param payload - The email webhook payload to process
+ * @param matcher - Compiled rule set of the worker
+ * @param defaultForwardTo - Default forwarding address when no rules match
+ * @param forwardRules - Recipient-based forward rules in evaluation order
+ * @param at - Time used to evaluate rule schedules, defaults to now
+ */
+export function filterEmailCompiled(
+  payload: EmailWebhookPayload,
+  matcher: CompiledRuleSet,
+  defaultForwardTo: string,
+  forwardRules: ForwardRule[] = [],
+  at: Date = new Date()
+): FilterResult {
+  return decideFilterResult(
+    payload,
+    (category) => matcher.findMatch(payload, category, at),
+    defaultForwardTo,
+    forwardRules
+  );
+}
+
+/**
+ * What a shadow rule would have done to an email
+ */
+export interface ShadowMatch {
+  rule: FilterRule;
+  /** Action the email would have received had the rule been active */
+  action: FilterAction;
+  /** Whether that action differs from the real decision */
+  wouldChange: boolean;
+}
+
+/** Category evaluation order used by filterEmail, lower is checked first */
+const CATEGORY_ORDER: Record<RuleCategory, number> = {
+  whitelist: 0,
+  blacklist: 1,
+  dynamic: 2,
+};
+
+/**
+ * Work out the action an email would have received had a matching shadow rule been active
+ * The real matched rule still wins when its category is checked first, or when it
+ * is in the same category with an equal or lower priority
+ */
+function shadowOutcome(rule: FilterRule, result: FilterResult): FilterAction {
+  const real = result.matchedRule;
+  const realCategory = result.matchedCategory;
+  if (
+    real &&
+    realCategory &&
+    (CATEGORY_ORDER[realCategory] < CATEGORY_ORDER[rule.category] ||
+      (realCategory === rule.category && compareRulePriority(real, rule) <= 0))
+  ) {
+    return result.action;
+  }
+  if (rule.category === 'whitelist') {
+    return 'forward';
+  }
+  return rule.action === 'reject' ? 'reject' : 'drop';
+}
+
+/**
+ * Evaluate shadow rules against an email after the real decision has been made
+ * Shadow rules never change the decision; each matching one reports what it
+ * would have done, in evaluation order.
+ *
+ * @param payload - The email webhook payload
+ * @param rules - All filter rules; only enabled shadow rules in schedule are evaluated
+ * @param result - The real filter result for the email
+ * @param at - Time used to evaluate rule schedules, defaults to now
+ */
+export function evaluateShadowRules(
+  payload: EmailWebhookPayload,
+  rules: FilterRule[],
+  result: FilterResult,
+  at: Date = new Date()
+): ShadowMatch[] {
+  const shadowRules = rules.filter((rule) => rule.mode === 'shadow' && isRuleActiveAt(rule, at));
+  return sortRulesByPriority(shadowRules)
+    .filter((rule) => matchesRuleWebhook(payload, rule))
+    .map((rule) => {
+      const action = shadowOutcome(rule, result);
+      return { rule, action, wouldChange: action !== result.action };
+    });
+}
+
 /**
  * Convert FilterResult to FilterDecision for API response
  */
 export function toFilterDecision(result: FilterResult): FilterDecision {
-  return {
+  const decision: FilterDecision = {
     action: result.action,
     forwardTo: result.forwardTo,
     reason: result.reason,
   };
+  if (result.action === 'reject') {
+    decision.rejectReason = result.rejectReason || DEFAULT_REJECT_REASON;
+  }
+  return decision;
+}
+
+/**
+ * Get the system log category for a filter result
+ */
+export function getEmailLogCategory(filterResult: FilterResult): LogCategory {
+  switch (filterResult.action) {
+    case 'drop':
+      return 'email_drop';
+    case 'reject':
+      return 'email_reject';
+    default:
+      return 'email_forward';
+  }
+}
+
+/**
+ * Get the system log message for a filter result
+ */
+export function getEmailLogMessage(filterResult: FilterResult, subject: string): string {
+  switch (filterResult.action) {
+    case 'drop':
+      return `拦截邮件: ${subject}`;
+    case 'reject':
+      return `退回邮件: ${subject}`;
+    default:
+      return `转发邮件: ${subject}`;
+  }
+}
+
+/**
+ * Get the system log message for a shadow match
+ */
+export function getShadowLogMessage(match: ShadowMatch, subject: string): string {
+  const action = match.action === 'drop' ? '拦截' : match.action === 'reject' ? '退回' : '转发';
+  return `[影子] 规则将${action}邮件: ${subject}`;
 }
 
 /**
  * Filter Service class for dependency injection
  */
 export class FilterService {
-  constructor(private defaultForwardTo: string) {}
+  constructor(private defaultForwardTo: string, private forwardRules: ForwardRule[] = []) {}
 
   /**
    * Process an email through the filter engine using provided rules
@@ -178,7 +401,18 @@ export class FilterService {
    * @returns FilterResult with action and matched rule info
    */
   processEmail(payload: EmailWebhookPayload, rules: FilterRule[]): FilterResult {
-    return filterEmail(payload, rules, this.defaultForwardTo);
+    return filterEmail(payload, rules, this.defaultForwardTo, this.forwardRules);
+  }
+
+  /**
+   * Process an email through the filter engine using a compiled rule set
+   *
+   * @param payload - The email webhook payload
+   * @param matcher - Compiled rule set, see RuleCache.getMatcher
+   * @returns FilterResult with action and matched rule info
+   */
+  processCompiled(payload: EmailWebhookPayload, matcher: CompiledRuleSet): FilterResult {
+    return filterEmailCompiled(payload, matcher, this.defaultForwardTo, this.forwardRules);
   }
 
   /**
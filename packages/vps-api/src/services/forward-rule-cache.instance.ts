@@ -0,0 +1,23 @@
+/**
+ * Forward Rule Cache Singleton Instance
+ *
+ * Provides a global singleton instance of ForwardRuleCache for use across the application.
+ */
+
+import { ForwardRuleCache } from './forward-rule-cache.js';
+
+/**
+ * Global singleton instance of ForwardRuleCache
+ * Same TTL as the filter rule cache
+ */
+export const forwardRuleCache = new ForwardRuleCache({
+  ttlMs: 60000, // 60 seconds
+  maxEntries: 100,
+});
+
+/**
+ * Get the global forward rule cache instance
+ */
+export function getForwardRuleCache(): ForwardRuleCache {
+  return forwardRuleCache;
+}
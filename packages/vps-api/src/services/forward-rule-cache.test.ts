@@ -0,0 +1,69 @@
+/**
+ * Forward Rule Cache Tests
+ */
+
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import * as fc from 'fast-check';
+import type { ForwardRule } from '@email-filter/shared';
+import { ForwardRuleCache } from './forward-rule-cache.js';
+
+const forwardRuleArb: fc.Arbitrary<ForwardRule> = fc.record({
+  id: fc.uuid(),
+  workerId: fc.option(fc.uuid(), { nil: undefined }),
+  recipientPattern: fc.string({ minLength: 1, maxLength: 50 }),
+  matchMode: fc.constantFrom('exact', 'contains', 'regex') as fc.Arbitrary<ForwardRule['matchMode']>,
+  forwardTo: fc.emailAddress(),
+  enabled: fc.boolean(),
+  sortOrder: fc.nat(),
+});
+
+describe('ForwardRuleCache', () => {
+  let cache: ForwardRuleCache;
+
+  beforeEach(() => {
+    cache = new ForwardRuleCache({ ttlMs: 1000, maxEntries: 3 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should return the cached rules of each worker until they expire', () => {
+    fc.assert(
+      fc.property(fc.array(forwardRuleArb, { maxLength: 10 }), fc.option(fc.uuid(), { nil: undefined }), (rules, workerId) => {
+        cache.set(workerId, rules);
+        expect(cache.get(workerId)).toEqual(rules);
+      }),
+      { numRuns: 50 }
+    );
+
+    vi.useFakeTimers();
+    cache.set('w1', []);
+    vi.advanceTimersByTime(1000);
+    expect(cache.get('w1')).toBeNull();
+  });
+
+  it('should invalidate every worker when a global rule changes', () => {
+    cache.set('w1', []);
+    cache.set('w2', []);
+    cache.set(undefined, []);
+
+    cache.invalidate('w1');
+    expect(cache.get('w1')).toBeNull();
+    expect(cache.get('w2')).toEqual([]);
+
+    cache.invalidate(null);
+    expect(cache.getSize()).toBe(0);
+  });
+
+  it('should drop the oldest entry when full', () => {
+    cache.set('w1', []);
+    cache.set('w2', []);
+    cache.set('w3', []);
+    cache.set('w4', []);
+
+    expect(cache.getSize()).toBe(3);
+    expect(cache.get('w1')).toBeNull();
+    expect(cache.get('w4')).toEqual([]);
+  });
+});
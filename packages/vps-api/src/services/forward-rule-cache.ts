@@ -0,0 +1,122 @@
+/**
+ * Forward Rule Cache for Webhook Response Optimization
+ *
+ * Provides in-memory caching of each worker's enabled forward rules so Phase 1
+ * does not query SQLite for them on every email, like RuleCache does for filter rules.
+ * Implements TTL-based expiration.
+ */
+
+import type { ForwardRule } from '@email-filter/shared';
+
+/**
+ * Configuration for the forward rule cache
+ */
+export interface ForwardRuleCacheConfig {
+  /** Time-to-live in milliseconds (default: 60000ms = 60 seconds) */
+  ttlMs: number;
+  /** Maximum number of cache entries (default: 100) */
+  maxEntries: number;
+}
+
+/**
+ * A cached entry with metadata
+ */
+interface CacheEntry {
+  rules: ForwardRule[];
+  cachedAt: number;
+}
+
+/**
+ * Default configuration values
+ */
+const DEFAULT_CONFIG: ForwardRuleCacheConfig = {
+  ttlMs: 60000, // 60 seconds
+  maxEntries: 100,
+};
+
+/**
+ * Special key for the global rules list (no worker ID)
+ */
+const GLOBAL_RULES_KEY = '__global__';
+
+/**
+ * Forward Rule Cache
+ *
+ * Caches forward rules in evaluation order per worker. A worker's list includes
+ * the global rules, so changing a global rule invalidates every entry.
+ */
+export class ForwardRuleCache {
+  private cache: Map<string, CacheEntry> = new Map();
+  private config: ForwardRuleCacheConfig;
+
+  constructor(config: Partial<ForwardRuleCacheConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  private getCacheKey(workerId?: string): string {
+    return workerId || GLOBAL_RULES_KEY;
+  }
+
+  /**
+   * Get cached forward rules for a worker
+   *
+   * @param workerId - Worker ID or undefined for global rules only
+   * @returns Cached rules or null if not cached or expired
+   */
+  get(workerId?: string): ForwardRule[] | null {
+    const key = this.getCacheKey(workerId);
+    const entry = this.cache.get(key);
+    if (!entry) {
+      return null;
+    }
+    if (Date.now() - entry.cachedAt >= this.config.ttlMs) {
+      this.cache.delete(key);
+      return null;
+    }
+    return [...entry.rules];
+  }
+
+  /**
+   * Cache forward rules for a worker, dropping the oldest entry when full
+   *
+   * @param workerId - Worker ID or undefined for global rules only
+   * @param rules - Rules to cache, in evaluation order
+   */
+  set(workerId: string | undefined, rules: ForwardRule[]): void {
+    const key = this.getCacheKey(workerId);
+    if (!this.cache.has(key) && this.cache.size >= this.config.maxEntries) {
+      const oldestKey = this.cache.keys().next().value;
+      if (oldestKey !== undefined) {
+        this.cache.delete(oldestKey);
+      }
+    }
+    this.cache.set(key, { rules: [...rules], cachedAt: Date.now() });
+  }
+
+  /**
+   * Invalidate the cache after a forward rule of a worker changed
+   *
+   * @param workerId - Worker ID, or null/undefined for a global rule (invalidates every worker)
+   */
+  invalidate(workerId?: string | null): void {
+    if (workerId) {
+      this.cache.delete(this.getCacheKey(workerId));
+    } else {
+      this.cache.clear();
+    }
+  }
+
+  /**
+   * Invalidate all cache entries
+   */
+  invalidateAll(): void {
+    this.cache.clear();
+  }
+
+  /**
+   * Get current cache size
+   */
+  getSize(): number {
+    return this.cache.size;
+  }
+}
@@ -13,6 +13,9 @@ export * from './analysis-queue.service.js';
 export * from './async-task-processor.js';
 export * from './rule-cache.js';
 export * from './rule-cache.instance.js';
+export * from './forward-rule-cache.js';
+export * from './forward-rule-cache.instance.js';
+export * from './compiled-matcher.js';
 export * from './dynamic-pattern-cache.js';
 export * from './dynamic-pattern-cache.instance.js';
 export * from './user.service.js';
@@ -21,3 +24,7 @@ export * from './user-settings.service.js';
 export * from './backup.service.js';
 export * from './performance-metrics.js';
 export * from './subject-stats.service.js';
+export * from './rule-simulation.service.js';
+export * from './rule-transfer.service.js';
+export * from './sieve-converter.js';
+export * from './regex-audit.service.js';
@@ -23,6 +23,7 @@ export interface FullCleanupResult {
   heartbeatLogs: CleanupResult;
   subjectTracker: CleanupResult;
   subjectStats: CleanupResult;
+  ruleHitRollups: CleanupResult;
   totalDeleted: number;
   durationMs: number;
   executedAt: Date;
@@ -38,6 +39,7 @@ export interface FullCleanupResult {
  * - Heartbeat logs: 1-90 days retention
  * - Subject tracker: 1-72 hours retention
  * - Subject stats: 1-365 days retention
+ * - Rule hit rollups: 7-365 days retention
  */
 export class CleanupService {
   private hitLogRepository: HitLogRepository;
@@ -193,6 +195,30 @@ export class CleanupService {
     };
   }
 
+  /**
+   * Clean up rule hit buckets older than specified retention days
+   * 
+   * @param retentionDays - Number of days to retain (7-365)
+   * @returns CleanupResult with details of the operation
+   */
+  cleanupRuleHitRollups(retentionDays: number): CleanupResult {
+    if (retentionDays < 0) {
+      throw new Error('Retention days must be non-negative');
+    }
+
+    const cutoffDate = new Date();
+    cutoffDate.setTime(cutoffDate.getTime() - retentionDays * 24 * 60 * 60 * 1000);
+
+    const stmt = this.db.prepare('DELETE FROM rule_hit_rollups WHERE bucket_start < ?');
+    const result = stmt.run(cutoffDate.toISOString());
+
+    return {
+      deletedCount: result.changes,
+      cutoffDate,
+      executedAt: new Date(),
+    };
+  }
+
   /**
    * Run full cleanup with default retention policies
    * 
@@ -214,6 +240,7 @@ export class CleanupService {
     const heartbeatLogsResult = this.cleanupHeartbeatLogs(30);
     const subjectTrackerResult = this.cleanupSubjectTracker(24);
     const subjectStatsResult = this.cleanupSubjectStats(30);
+    const ruleHitRollupsResult = this.cleanupRuleHitRollups(90);
 
     const durationMs = Date.now() - startTime;
 
@@ -224,9 +251,11 @@ export class CleanupService {
       heartbeatLogs: heartbeatLogsResult,
       subjectTracker: subjectTrackerResult,
       subjectStats: subjectStatsResult,
+      ruleHitRollups: ruleHitRollupsResult,
       totalDeleted: hitLogsResult.deletedCount + alertsResult.deletedCount + 
                     systemLogsResult.deletedCount + heartbeatLogsResult.deletedCount + 
-                    subjectTrackerResult.deletedCount + subjectStatsResult.deletedCount,
+                    subjectTrackerResult.deletedCount + subjectStatsResult.deletedCount +
+                    ruleHitRollupsResult.deletedCount,
       durationMs,
       executedAt,
     };
@@ -239,6 +268,7 @@ export class CleanupService {
       heartbeatLogsDeleted: heartbeatLogsResult.deletedCount,
       subjectTrackerDeleted: subjectTrackerResult.deletedCount,
       subjectStatsDeleted: subjectStatsResult.deletedCount,
+      ruleHitRollupsDeleted: ruleHitRollupsResult.deletedCount,
       totalDeleted: result.totalDeleted,
       durationMs: result.durationMs,
       retentionConfig: {
@@ -248,6 +278,7 @@ export class CleanupService {
         heartbeatLogsRetentionDays: 30,
         subjectTrackerRetentionHours: 24,
         subjectStatsRetentionDays: 30,
+        ruleHitRollupRetentionDays: 90,
       },
     });
 
@@ -270,6 +301,7 @@ export class CleanupService {
     const heartbeatLogsResult = this.cleanupHeartbeatLogs(config.heartbeatLogsRetentionDays);
     const subjectTrackerResult = this.cleanupSubjectTracker(config.subjectTrackerRetentionHours);
     const subjectStatsResult = this.cleanupSubjectStats(config.subjectStatsRetentionDays);
+    const ruleHitRollupsResult = this.cleanupRuleHitRollups(config.ruleHitRollupRetentionDays);
 
     const durationMs = Date.now() - startTime;
 
@@ -280,9 +312,11 @@ export class CleanupService {
       heartbeatLogs: heartbeatLogsResult,
       subjectTracker: subjectTrackerResult,
       subjectStats: subjectStatsResult,
+      ruleHitRollups: ruleHitRollupsResult,
       totalDeleted: hitLogsResult.deletedCount + alertsResult.deletedCount + 
                     systemLogsResult.deletedCount + heartbeatLogsResult.deletedCount + 
-                    subjectTrackerResult.deletedCount + subjectStatsResult.deletedCount,
+                    subjectTrackerResult.deletedCount + subjectStatsResult.deletedCount +
+                    ruleHitRollupsResult.deletedCount,
       durationMs,
       executedAt,
     };
@@ -295,6 +329,7 @@ export class CleanupService {
       heartbeatLogsDeleted: heartbeatLogsResult.deletedCount,
       subjectTrackerDeleted: subjectTrackerResult.deletedCount,
       subjectStatsDeleted: subjectStatsResult.deletedCount,
+      ruleHitRollupsDeleted: ruleHitRollupsResult.deletedCount,
       totalDeleted: result.totalDeleted,
       durationMs: result.durationMs,
       retentionConfig: {
@@ -304,6 +339,7 @@ export class CleanupService {
         heartbeatLogsRetentionDays: config.heartbeatLogsRetentionDays,
         subjectTrackerRetentionHours: config.subjectTrackerRetentionHours,
         subjectStatsRetentionDays: config.subjectStatsRetentionDays,
+        ruleHitRollupRetentionDays: config.ruleHitRollupRetentionDays,
       },
     });
 
@@ -115,7 +115,7 @@ export class HitProcessor {
       }
 
       // Match subject against the rule's pattern using the rule's matchMode
-      const matchResult = matchSubject(rule.subjectPattern, email.subject, rule.matchMode || 'contains');
+      const matchResult = matchSubject(rule.subjectPattern, email.subject, rule.matchMode || 'contains', rule.normalize);
 
       if (matchResult.matched) {
         matchedRules.push(rule);
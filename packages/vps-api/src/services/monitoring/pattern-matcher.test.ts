@@ -116,6 +116,13 @@ describe('Property 4: 正则匹配正确性', () => {
         { numRuns: 100 }
       );
     });
+
+    it('should match look-alike subjects only when normalizing', () => {
+      const subject = 'Ｙour оrder\u200B has ѕhipped 📦';
+      expect(matchSubject('your order has shipped', subject, 'contains').matched).toBe(false);
+      expect(matchSubject('your order has shipped', subject, 'contains', true).matched).toBe(true);
+      expect(matchSubject('^your order has shipped$', subject, 'regex', true).matched).toBe(true);
+    });
   });
 
   describe('validatePattern', () => {
@@ -7,6 +7,8 @@
  * Requirements: 1.5
  */
 
+import { testRegex, analyzeRegex, normalizeText } from '@email-filter/shared';
+
 /**
  * Match mode for pattern matching
  */
@@ -34,10 +36,22 @@ export interface PatternValidationResult {
  * @param pattern - The pattern string
  * @param subject - The email subject to match
  * @param mode - Match mode: 'contains' (default) or 'regex'
+ * @param normalize - Compare normalized text (see normalizeText); regex patterns are used as written
  * @returns PatternMatchResult with matched status and optional error
  */
-export function matchSubject(pattern: string, subject: string, mode: MatchMode = 'contains'): PatternMatchResult {
+export function matchSubject(
+  pattern: string,
+  subject: string,
+  mode: MatchMode = 'contains',
+  normalize = false
+): PatternMatchResult {
   try {
+    if (normalize) {
+      subject = normalizeText(subject);
+      if (mode !== 'regex') {
+        pattern = normalizeText(pattern);
+      }
+    }
     const lowerSubject = subject.toLowerCase();
     const lowerPattern = pattern.toLowerCase();
     
@@ -51,8 +65,8 @@ export function matchSubject(pattern: string, subject: string, mode: MatchMode =
       case 'endsWith':
         return { matched: lowerSubject.endsWith(lowerPattern) };
       case 'regex':
-        const regex = new RegExp(pattern, 'i');
-        return { matched: regex.test(subject) };
+        // Linear-time engine with cached patterns; invalid and unsupported ones never match
+        return { matched: testRegex(pattern, subject) };
       default:
         return { matched: false, error: `Unknown match mode: ${mode}` };
     }
@@ -66,20 +80,28 @@ export function matchSubject(pattern: string, subject: string, mode: MatchMode =
 
 /**
  * Validate a regex pattern without matching
+ * Patterns used in regex mode must also pass the ReDoS analysis
  * 
  * @param pattern - The regex pattern string to validate
+ * @param mode - Match mode the pattern is used with
  * @returns PatternValidationResult with validity status and optional error
  */
-export function validatePattern(pattern: string): PatternValidationResult {
+export function validatePattern(pattern: string, mode: MatchMode = 'regex'): PatternValidationResult {
   try {
     new RegExp(pattern);
-    return { valid: true };
   } catch (error) {
     return {
       valid: false,
       error: error instanceof Error ? error.message : 'Invalid regex pattern',
     };
   }
+  if (mode === 'regex') {
+    const analysis = analyzeRegex(pattern);
+    if (!analysis.safe) {
+      return { valid: false, error: analysis.reason };
+    }
+  }
+  return { valid: true };
 }
 
 /**
@@ -108,8 +130,8 @@ export class PatternMatcherService {
   /**
    * Match a subject against a pattern
    */
-  matchSubject(pattern: string, subject: string, mode: MatchMode = 'contains'): PatternMatchResult {
-    return matchSubject(pattern, subject, mode);
+  matchSubject(pattern: string, subject: string, mode: MatchMode = 'contains', normalize = false): PatternMatchResult {
+    return matchSubject(pattern, subject, mode, normalize);
   }
 
   /**
@@ -399,6 +399,21 @@ describe('MonitoringRuleService', () => {
       expect(validation.errors.some((e) => e.code === 'INVALID_REGEX')).toBe(true);
     });
 
+    it('should reject super-linear regex patterns only in regex mode', () => {
+      const dto: CreateMonitoringRuleDTO = {
+        merchant: 'test',
+        name: 'Test Rule',
+        subjectPattern: '(a+)+$',
+        expectedIntervalMinutes: 60,
+        deadAfterMinutes: 120,
+      };
+
+      expect(validateCreateRuleDTO(dto).valid).toBe(true);
+      const validation = validateCreateRuleDTO({ ...dto, matchMode: 'regex' });
+      expect(validation.valid).toBe(false);
+      expect(validation.errors[0].message).toContain('Unsafe regular expression');
+    });
+
     it('should reject invalid threshold relationship', () => {
       const invalidDto: CreateMonitoringRuleDTO = {
         merchant: 'test',
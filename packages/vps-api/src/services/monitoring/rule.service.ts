@@ -58,7 +58,7 @@ export function validateCreateRuleDTO(dto: CreateMonitoringRuleDTO): RuleValidat
   if (!dto.subjectPattern || dto.subjectPattern.trim().length === 0) {
     errors.push(new RuleValidationError('Subject pattern is required', 'subjectPattern', 'REQUIRED'));
   } else {
-    const patternValidation = validatePattern(dto.subjectPattern);
+    const patternValidation = validatePattern(dto.subjectPattern, dto.matchMode || 'contains');
     if (!patternValidation.valid) {
       errors.push(new RuleValidationError(
         `Invalid regex pattern: ${patternValidation.error}`,
@@ -121,7 +121,7 @@ export function validateUpdateRuleDTO(dto: UpdateMonitoringRuleDTO, existingRule
     if (dto.subjectPattern.trim().length === 0) {
       errors.push(new RuleValidationError('Subject pattern cannot be empty', 'subjectPattern', 'INVALID_VALUE'));
     } else {
-      const patternValidation = validatePattern(dto.subjectPattern);
+      const patternValidation = validatePattern(dto.subjectPattern, dto.matchMode ?? existingRule?.matchMode ?? 'contains');
       if (!patternValidation.valid) {
         errors.push(new RuleValidationError(
           `Invalid regex pattern: ${patternValidation.error}`,
@@ -130,6 +130,16 @@ export function validateUpdateRuleDTO(dto: UpdateMonitoringRuleDTO, existingRule
         ));
       }
     }
+  } else if (dto.matchMode === 'regex' && existingRule) {
+    // Switching to regex mode runs the stored pattern as a regex
+    const patternValidation = validatePattern(existingRule.subjectPattern, 'regex');
+    if (!patternValidation.valid) {
+      errors.push(new RuleValidationError(
+        `Invalid regex pattern: ${patternValidation.error}`,
+        'subjectPattern',
+        'INVALID_REGEX'
+      ));
+    }
   }
 
   // Validate expectedIntervalMinutes if provided
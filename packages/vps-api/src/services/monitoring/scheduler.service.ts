@@ -4,6 +4,7 @@
  * Manages scheduled tasks for:
  * - Heartbeat checks (every 5 minutes) - Requirements: 4.1
  * - Data cleanup (daily) - Requirements: 7.2, 7.3, 7.4, 4.2 (data-cleanup-settings)
+ * - Filter rule expiry (every minute) - disables rules past their activeUntil
  *
  * Uses node-cron for scheduling tasks.
  * Supports dynamic configuration reload from CleanupConfigService.
@@ -14,6 +15,9 @@ import type { Database } from 'better-sqlite3';
 import { HeartbeatService } from './heartbeat.service.js';
 import { CleanupService } from './cleanup.service.js';
 import { CleanupConfigService, type CleanupConfig } from '../cleanup-config.service.js';
+import { RuleRepository } from '../../db/rule-repository.js';
+import { LogRepository } from '../../db/log-repository.js';
+import { getRuleCache } from '../rule-cache.instance.js';
 
 /**
  * Configuration for the scheduler
@@ -23,6 +27,8 @@ export interface SchedulerConfig {
   heartbeatCron: string;
   /** Cron expression for data cleanup (default: daily at 3 AM) */
   cleanupCron: string;
+  /** Cron expression for disabling expired filter rules (default: every minute) */
+  ruleExpiryCron: string;
   /** Hours to retain hit logs (default: 72) */
   hitLogRetentionHours: number;
   /** Days to retain alerts (default: 90) */
@@ -39,6 +45,7 @@ export interface SchedulerConfig {
 export const DEFAULT_SCHEDULER_CONFIG: SchedulerConfig = {
   heartbeatCron: '*/5 * * * *',      // Every 5 minutes
   cleanupCron: '0 3 * * *',           // Daily at 3 AM (low traffic period)
+  ruleExpiryCron: '* * * * *',        // Every minute
   hitLogRetentionHours: 72,           // 72 hours (within 48-72 range)
   alertRetentionDays: 90,             // 90 days (within 30-90 range)
   runHeartbeatOnStart: false,
@@ -59,6 +66,7 @@ export class SchedulerService {
   private cleanupConfig: CleanupConfig | null = null;
   private heartbeatTask: ScheduledTask | null = null;
   private cleanupTask: ScheduledTask | null = null;
+  private ruleExpiryTask: ScheduledTask | null = null;
   private isRunning: boolean = false;
   private db: Database;
 
@@ -145,6 +153,7 @@ export class SchedulerService {
    * This method starts:
    * 1. Heartbeat check task (every 5 minutes by default)
    * 2. Data cleanup task (daily at configured hour by default)
+   * 3. Filter rule expiry task (every minute by default)
    * 
    * Loads cleanup configuration from database on startup.
    */
@@ -171,6 +180,9 @@ export class SchedulerService {
       console.log('[Scheduler] Auto cleanup is disabled, skipping cleanup task');
     }
 
+    // Start filter rule expiry task
+    this.startRuleExpiryTask();
+
     this.isRunning = true;
 
     // Optionally run heartbeat immediately on start
@@ -203,6 +215,11 @@ export class SchedulerService {
       this.cleanupTask = null;
     }
 
+    if (this.ruleExpiryTask) {
+      this.ruleExpiryTask.stop();
+      this.ruleExpiryTask = null;
+    }
+
     this.isRunning = false;
     console.log('[Scheduler] All scheduled tasks stopped');
   }
@@ -236,6 +253,19 @@ export class SchedulerService {
     });
   }
 
+  /**
+   * Start the filter rule expiry task
+   *
+   * Runs every minute by default to disable rules whose activeUntil has passed.
+   */
+  private startRuleExpiryTask(): void {
+    console.log(`[Scheduler] Starting rule expiry task with cron: ${this.config.ruleExpiryCron}`);
+
+    this.ruleExpiryTask = cron.schedule(this.config.ruleExpiryCron, () => {
+      this.runRuleExpiry();
+    });
+  }
+
   /**
    * Run heartbeat check manually
    *
@@ -305,6 +335,49 @@ export class SchedulerService {
     }
   }
 
+  /**
+   * Disable expired filter rules manually
+   *
+   * Each disabled rule is logged as an admin action and the affected
+   * rule caches are invalidated. Can be called directly for testing or manual triggers.
+   *
+   * @returns Number of rules disabled
+   */
+  runRuleExpiry(now: Date = new Date()): number {
+    try {
+      const expired = new RuleRepository(this.db).disableExpired(now);
+      if (expired.length === 0) {
+        return 0;
+      }
+
+      const logRepository = new LogRepository(this.db);
+      const ruleCache = getRuleCache();
+      for (const rule of expired) {
+        logRepository.createAdminLog('规则已过期自动禁用', {
+          action: 'expire',
+          entityType: 'rule',
+          entityId: rule.id,
+          rule: {
+            category: rule.category,
+            matchType: rule.matchType,
+            matchMode: rule.matchMode,
+            pattern: rule.pattern,
+            activeUntil: rule.activeUntil || null,
+            workerId: rule.workerId || null,
+          },
+        }, rule.workerId || 'global');
+        ruleCache.invalidate(rule.workerId);
+      }
+      ruleCache.invalidate(undefined);
+
+      console.log(`[Scheduler] Disabled ${expired.length} expired filter rules`);
+      return expired.length;
+    } catch (error) {
+      console.error('[Scheduler] Rule expiry check failed:', error);
+      return 0;
+    }
+  }
+
   /**
    * Check if the scheduler is currently running
    */
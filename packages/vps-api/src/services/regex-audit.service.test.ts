@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import type { FilterRule } from '@email-filter/shared';
+import { makeRule } from '../test-utils/rule-fixtures.js';
+import { auditFilterRule } from './regex-audit.service.js';
+
+/**
+ * A subject regex rule with a safe pattern unless overridden
+ */
+function rule(overrides: Partial<FilterRule>): FilterRule {
+  return makeRule('r1', { matchType: 'subject', matchMode: 'regex', pattern: '^Invoice \\d+$', ...overrides });
+}
+
+describe('Regex Audit Service', () => {
+  describe('auditFilterRule', () => {
+    it('should accept safe regexes and ignore other match modes', () => {
+      expect(auditFilterRule(rule({}))).toEqual([]);
+      expect(auditFilterRule(rule({ matchMode: 'contains', pattern: '(a+)+' }))).toEqual([]);
+    });
+
+    it('should report the offending pattern with its reason', () => {
+      const [entry, ...rest] = auditFilterRule({ ...rule({ pattern: '(a+)+$' }), workerId: 'w1' });
+      expect(rest).toEqual([]);
+      expect(entry).toMatchObject({ source: 'filterRule', ruleId: 'r1', workerId: 'w1', pattern: '(a+)+$' });
+      expect(entry.reason).toMatch(/^Unsafe regular expression/);
+    });
+
+    it('should check header values without the header name', () => {
+      expect(auditFilterRule(rule({ matchType: 'header', pattern: 'List-Id: ^news\\.' }))).toEqual([]);
+      expect(auditFilterRule(rule({ matchType: 'header', pattern: 'List-Id: (x|x)+' }))).toHaveLength(1);
+    });
+
+    it('should check every condition and exception', () => {
+      const entries = auditFilterRule(rule({
+        pattern: 'compound',
+        conditions: {
+          operator: 'and',
+          conditions: [
+            { matchType: 'sender', matchMode: 'regex', pattern: 'a(?=b)' },
+            { operator: 'or', conditions: [{ matchType: 'subject', matchMode: 'regex', pattern: '(\\w+\\s?)+$' }] },
+          ],
+        },
+        exceptions: [{ matchType: 'subject', matchMode: 'regex', pattern: '(a)\\1' }],
+      }));
+
+      expect(entries.map((entry) => entry.reason)).toEqual([
+        'Lookahead and lookbehind assertions are not supported',
+        'Unsafe regular expression: nested quantifiers such as (a+)+ can take exponential time',
+        'Backreferences are not supported',
+      ]);
+      expect(entries.map((entry) => entry.unsupported)).toEqual([true, false, true]);
+      expect(entries.every((entry) => entry.label === 'compound')).toBe(true);
+    });
+  });
+});
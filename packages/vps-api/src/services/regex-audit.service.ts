@@ -0,0 +1,131 @@
+/**
+ * Regex Audit Service
+ * Finds stored rules whose regex patterns fail the ReDoS analysis, so admins
+ * can fix rules created before patterns were checked on creation.
+ * Such patterns still run on the linear-time engine, except backreferences and
+ * lookaround, which never match; rules holding those are disabled by migration.
+ */
+
+import type { Database } from 'better-sqlite3';
+import type { FilterRule, MatchType, MatchMode } from '@email-filter/shared';
+import { analyzeRegex, conditionLeaves, parseHeaderPattern } from '@email-filter/shared';
+import { RuleRepository } from '../db/rule-repository.js';
+import { WatchRepository } from '../db/watch-repository.js';
+import { MonitoringRuleRepository } from '../db/monitoring-rule-repository.js';
+import { ForwardRuleRepository } from '../db/forward-rule-repository.js';
+
+/**
+ * Kind of rule an offending pattern belongs to
+ */
+export type RegexAuditSource = 'filterRule' | 'watchRule' | 'monitoringRule' | 'forwardRule';
+
+/**
+ * A stored regex pattern that fails the analysis
+ */
+export interface RegexAuditEntry {
+  source: RegexAuditSource;
+  ruleId: string;
+  /** Rule name, or the rule pattern for filter rules */
+  label: string;
+  workerId?: string | null;
+  pattern: string;
+  reason: string;
+  /** The linear engine cannot run the pattern, so it never matches */
+  unsupported: boolean;
+}
+
+/**
+ * Why a pattern fails the analysis
+ */
+interface PatternFinding {
+  reason: string;
+  unsupported: boolean;
+}
+
+/**
+ * Analyze one pattern, returns why it is rejected or null
+ * Header patterns are analyzed without their "Header-Name:" prefix
+ */
+function auditPattern(matchType: MatchType | undefined, matchMode: MatchMode, pattern: string): PatternFinding | null {
+  if (matchMode !== 'regex') {
+    return null;
+  }
+  const analysis = analyzeRegex(matchType === 'header' ? parseHeaderPattern(pattern)?.pattern ?? '' : pattern);
+  return analysis.safe ? null : { reason: analysis.reason ?? 'Invalid regular expression', unsupported: analysis.unsupported === true };
+}
+
+/**
+ * Audit a filter rule: its own pattern, or its conditions, and its exceptions
+ * One entry per offending pattern
+ */
+export function auditFilterRule(rule: FilterRule & { workerId?: string | null }): RegexAuditEntry[] {
+  const leaves = [
+    ...(rule.conditions ? conditionLeaves(rule.conditions) : [rule]),
+    ...(rule.exceptions ?? []).flatMap(conditionLeaves),
+  ];
+  const entries: RegexAuditEntry[] = [];
+  for (const leaf of leaves) {
+    const finding = auditPattern(leaf.matchType, leaf.matchMode, leaf.pattern);
+    if (finding) {
+      entries.push({
+        source: 'filterRule',
+        ruleId: rule.id,
+        label: rule.pattern,
+        workerId: rule.workerId ?? null,
+        pattern: leaf.pattern,
+        ...finding,
+      });
+    }
+  }
+  return entries;
+}
+
+/**
+ * Regex Audit Service class
+ */
+export class RegexAuditService {
+  constructor(private db: Database) {}
+
+  /**
+   * Audit every stored rule that can hold a regex pattern
+   */
+  audit(): RegexAuditEntry[] {
+    const entries = new RuleRepository(this.db).findAll().flatMap(auditFilterRule);
+
+    for (const rule of new WatchRepository(this.db).findAllWithStats()) {
+      const finding = auditPattern(rule.matchType, rule.matchMode, rule.pattern);
+      if (finding) {
+        entries.push({ source: 'watchRule', ruleId: rule.id, label: rule.name, pattern: rule.pattern, ...finding });
+      }
+    }
+
+    for (const rule of new MonitoringRuleRepository(this.db).getAll()) {
+      const finding = auditPattern(undefined, rule.matchMode, rule.subjectPattern);
+      if (finding) {
+        entries.push({
+          source: 'monitoringRule',
+          ruleId: rule.id,
+          label: `${rule.merchant} / ${rule.name}`,
+          pattern: rule.subjectPattern,
+          ...finding,
+        });
+      }
+    }
+
+    for (const rule of new ForwardRuleRepository(this.db).findAll()) {
+      const finding = auditPattern(undefined, rule.matchMode, rule.recipientPattern);
+      if (finding) {
+        entries.push({
+          source: 'forwardRule',
+          ruleId: rule.id,
+          label: rule.recipientPattern,
+          workerId: rule.workerId ?? null,
+          pattern: rule.recipientPattern,
+          ...finding,
+        });
+      }
+    }
+
+    return entries;
+  }
+}
@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { matchPattern, type MatchMode } from '@email-filter/shared';
+import type { FilterRuleWithWorker } from '../db/rule-repository.js';
+import type { WorkerRuleInheritance } from '../db/rule-set-repository.js';
+import { makeRule as makeBaseRule } from '../test-utils/rule-fixtures.js';
+import { analyzeRules, patternSubsumes, regexAsLiteral } from './rule-analysis.service.js';
+
+const NOW = new Date('2024-06-30T00:00:00.000Z');
+const RECENT = new Date('2024-06-29T00:00:00.000Z');
+
+/**
+ * A rule hit recently, so it is not reported as stale
+ */
+function makeRule(id: string, overrides: Partial<FilterRuleWithWorker> = {}): FilterRuleWithWorker {
+  return makeBaseRule(id, { lastHitAt: RECENT, ...overrides });
+}
+
+const noInheritance: WorkerRuleInheritance = { ruleSetIds: new Map(), overrides: new Map() };
+
+function analyze(rules: FilterRuleWithWorker[], inheritance = noInheritance) {
+  return analyzeRules(rules, { workerIds: ['w1', 'w2'], inheritance, now: NOW, staleDays: 90 });
+}
+
+describe('Rule Analysis', () => {
+  describe('patternSubsumes', () => {
+    it('should find exact, prefix and suffix patterns inside contains patterns', () => {
+      const contains = makeRule('c', { pattern: 'Casino' });
+
+      expect(patternSubsumes(contains, makeRule('e', { matchMode: 'exact', pattern: 'win@casino.com' }))).toBe(true);
+      expect(patternSubsumes(contains, makeRule('s', { matchMode: 'startsWith', pattern: 'casino-' }))).toBe(true);
+      expect(patternSubsumes(contains, makeRule('o', { matchMode: 'exact', pattern: 'win@casin.com' }))).toBe(false);
+      expect(patternSubsumes(contains, makeRule('t', { matchType: 'subject', matchMode: 'exact', pattern: 'casino' }))).toBe(false);
+    });
+
+    it('should find domains and subdomain trees inside a domainTree pattern', () => {
+      const tree = makeRule('t', { matchType: 'domain', matchMode: 'domainTree', pattern: 'shop.com' });
+
+      expect(patternSubsumes(tree, makeRule('a', { matchType: 'domain', matchMode: 'exact', pattern: 'mail.shop.com' }))).toBe(true);
+      expect(patternSubsumes(tree, makeRule('b', { matchType: 'domain', matchMode: 'domainTree', pattern: 'eu.shop.com' }))).toBe(true);
+      expect(patternSubsumes(tree, makeRule('c', { matchType: 'domain', matchMode: 'exact', pattern: 'evilshop.com' }))).toBe(false);
+    });
+
+    it('should treat literal regexes like the equivalent match mode', () => {
+      expect(regexAsLiteral('^promo\\.example$')).toEqual({ matchMode: 'exact', pattern: 'promo.example' });
+      expect(regexAsLiteral('.*casino.*')).toEqual({ matchMode: 'contains', pattern: 'casino' });
+      expect(regexAsLiteral('casino|poker')).toBeNull();
+
+      const regex = makeRule('r', { matchType: 'subject', matchMode: 'regex', pattern: 'casino' });
+      expect(patternSubsumes(regex, makeRule('c', { matchType: 'subject', pattern: 'online casino' }))).toBe(true);
+      const alternation = makeRule('a', { matchType: 'subject', matchMode: 'regex', pattern: 'casino|poker' });
+      expect(patternSubsumes(alternation, makeRule('e', { matchType: 'subject', matchMode: 'exact', pattern: 'poker' }))).toBe(true);
+      expect(patternSubsumes(alternation, makeRule('c', { matchType: 'subject', pattern: 'poker night' }))).toBe(false);
+    });
+
+    it('should only report subsumption when every matching value matches both patterns', () => {
+      const modes: MatchMode[] = ['exact', 'contains', 'startsWith', 'endsWith'];
+      const text = fc.stringOf(fc.constantFrom('a', 'b', 'B'), { minLength: 1, maxLength: 4 });
+      fc.assert(
+        fc.property(fc.constantFrom(...modes), text, fc.constantFrom(...modes), text, text, (generalMode, generalPattern, specificMode, specificPattern, value) => {
+          const general = makeRule('g', { matchMode: generalMode, pattern: generalPattern });
+          const specific = makeRule('s', { matchMode: specificMode, pattern: specificPattern });
+          if (patternSubsumes(general, specific) && matchPattern(value, specificPattern, specificMode)) {
+            expect(matchPattern(value, generalPattern, generalMode)).toBe(true);
+          }
+        }),
+        { numRuns: 500 }
+      );
+    });
+  });
+
+  describe('analyzeRules', () => {
+    it('should delete worker copies of a global rule but only report copies across workers', () => {
+      const report = analyze([
+        makeRule('global', { pattern: 'spam' }),
+        makeRule('copy', { pattern: 'spam', workerId: 'w1' }),
+        makeRule('w1-own', { pattern: 'promo', workerId: 'w1' }),
+        makeRule('w2-own', { pattern: 'promo', workerId: 'w2' }),
+      ]);
+
+      const duplicates = report.findings.filter((finding) => finding.kind === 'duplicate');
+      expect(duplicates).toHaveLength(2);
+      expect(duplicates[0].fix).toEqual({ action: 'delete', ruleIds: ['copy'] });
+      expect(duplicates[1].fix).toBeUndefined();
+    });
+
+    it('should report blacklist rules a whitelist rule makes unreachable', () => {
+      const report = analyze([
+        makeRule('partner', { category: 'whitelist', matchType: 'domain', matchMode: 'domainTree', pattern: 'partner.com' }),
+        makeRule('blocked', { matchType: 'domain', matchMode: 'exact', pattern: 'news.partner.com', priority: -10 }),
+      ]);
+
+      expect(report.findings).toHaveLength(1);
+      expect(report.findings[0]).toMatchObject({ kind: 'whitelistConflict', fix: { action: 'delete', ruleIds: ['blocked'] } });
+      expect(report.findings[0].rules.map((rule) => rule.id)).toEqual(['blocked', 'partner']);
+    });
+
+    it('should only report shadowing by rules checked first and applying to the same workers', () => {
+      const general = makeRule('general', { pattern: 'shop' });
+
+      expect(analyze([general, makeRule('shop.com', { priority: 5 })]).summary.shadowed).toBe(1);
+      expect(analyze([makeRule('general', { pattern: 'shop', priority: 5 }), makeRule('shop.com')]).summary.shadowed).toBe(0);
+      expect(analyze([general, makeRule('shop.com', { action: 'reject' })]).summary.shadowed).toBe(0);
+      expect(analyze([makeRule('general', { pattern: 'shop', workerId: 'w1' }), makeRule('shop.com', { workerId: 'w2', priority: 5 })]).summary.shadowed).toBe(0);
+      expect(analyze([makeRule('general', { pattern: 'shop', timeWindows: [{ days: [1], start: '09:00', end: '17:00' }] }), makeRule('shop.com', { priority: 5 })]).summary.shadowed).toBe(0);
+    });
+
+    it('should not let an overridden inherited rule shadow a worker rule', () => {
+      const rules = [makeRule('general', { pattern: 'shop' }), makeRule('shop.com', { workerId: 'w1', priority: 5 })];
+      const inheritance: WorkerRuleInheritance = { ruleSetIds: new Map(), overrides: new Map([['w1', new Set(['general'])]]) };
+
+      expect(analyze(rules).summary.shadowed).toBe(1);
+      expect(analyze(rules, inheritance).summary.shadowed).toBe(0);
+    });
+
+    it('should list whitelist exceptions inside blocking rules without a fix', () => {
+      const report = analyze([
+        makeRule('shop.com', { matchType: 'domain', matchMode: 'domainTree' }),
+        makeRule('orders@shop.com', { category: 'whitelist', matchType: 'domain', matchMode: 'exact', pattern: 'orders.shop.com' }),
+      ]);
+
+      expect(report.findings).toEqual([expect.objectContaining({ kind: 'overlap', severity: 'info', fix: undefined })]);
+    });
+
+    it('should disable rules not hit within the stale period', () => {
+      const report = analyze([
+        makeRule('old', { lastHitAt: new Date('2024-01-15T00:00:00.000Z') }),
+        makeRule('never', { lastHitAt: undefined }),
+        makeRule('new', { lastHitAt: undefined, createdAt: new Date('2024-06-01T00:00:00.000Z') }),
+        makeRule('off', { lastHitAt: undefined, enabled: false }),
+      ]);
+
+      expect(report.findings.map((finding) => [finding.kind, finding.fix])).toEqual([
+        ['stale', { action: 'disable', ruleIds: ['old'] }],
+        ['neverHit', { action: 'disable', ruleIds: ['never'] }],
+      ]);
+    });
+  });
+});
@@ -0,0 +1,568 @@
+/**
+ * Rule Analysis Service
+ *
+ * Finds filter rules that are redundant or never used: exact duplicates across
+ * scopes, rules another rule provably shadows (an exact pattern inside a
+ * contains pattern, a domain inside a domainTree), blocking rules a whitelist
+ * rule makes unreachable or carves exceptions out of, and rules that have not
+ * been hit for a long time. Findings that can be fixed without changing what
+ * happens to any email carry a one-click fix, applied through the bulk service.
+ *
+ * Only provable relations are reported: rules with conditions, exceptions or
+ * schedules are never treated as covering another rule.
+ */
+
+import type { Database } from 'better-sqlite3';
+import type { MatchMode, RuleCategory } from '@email-filter/shared';
+import { matchesDomainTree, normalizeText, parseHeaderPattern, testRegex } from '@email-filter/shared';
+import type { RuleHistoryActor } from '../db/rule-history-repository.js';
+import { RuleRepository, type FilterRuleWithWorker } from '../db/rule-repository.js';
+import { WorkerRepository } from '../db/worker-repository.js';
+import { RuleSetRepository, type WorkerRuleInheritance } from '../db/rule-set-repository.js';
+import { RuleBulkService, type RuleBulkResult } from './rule-bulk.service.js';
+import { ruleAppliesToWorker } from './rule-set.service.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Default number of days without a hit after which a rule is reported as stale */
+export const DEFAULT_STALE_DAYS = 90;
+
+/** Categories in the order the filter checks them */
+const CATEGORY_ORDER: RuleCategory[] = ['whitelist', 'blacklist', 'dynamic'];
+
+export type RuleAnalysisKind = 'duplicate' | 'shadowed' | 'whitelistConflict' | 'overlap' | 'neverHit' | 'stale';
+
+export type RuleAnalysisSeverity = 'warning' | 'info';
+
+/**
+ * Change that resolves a finding
+ */
+export interface RuleAnalysisFix {
+  action: 'delete' | 'disable';
+  ruleIds: string[];
+}
+
+/**
+ * Rule fields listed with a finding
+ */
+export interface RuleAnalysisRule {
+  id: string;
+  category: RuleCategory;
+  matchType: FilterRuleWithWorker['matchType'];
+  matchMode: MatchMode;
+  pattern: string;
+  enabled: boolean;
+  workerId?: string;
+  ruleSetId?: string;
+  lastHitAt?: Date;
+}
+
+export interface RuleAnalysisFinding {
+  /** Stable ID derived from the kind and the rules, used to apply the fix */
+  id: string;
+  kind: RuleAnalysisKind;
+  severity: RuleAnalysisSeverity;
+  /** The rule the finding is about first, then the rules it relates to */
+  rules: RuleAnalysisRule[];
+  message: string;
+  fix?: RuleAnalysisFix;
+}
+
+export interface RuleAnalysisReport {
+  generatedAt: Date;
+  staleDays: number;
+  totalRules: number;
+  summary: Record<RuleAnalysisKind, number>;
+  findings: RuleAnalysisFinding[];
+}
+
+export interface RuleAnalysisOptions {
+  /** Workers the rules are evaluated for, used to compare rule scopes */
+  workerIds: string[];
+  inheritance: WorkerRuleInheritance;
+  now?: Date;
+  staleDays?: number;
+}
+
+export type RuleAnalysisErrorCode = 'NOT_FOUND' | 'NO_FIX';
+
+/**
+ * Error raised when a finding cannot be fixed
+ */
+export class RuleAnalysisError extends Error {
+  constructor(message: string, public code: RuleAnalysisErrorCode) {
+    super(message);
+    this.name = 'RuleAnalysisError';
+  }
+}
+
+/**
+ * What a rule matches, in a form patterns can be compared in
+ * Patterns are lowercased (and normalized when the rule normalizes) the way
+ * matchPattern compares them; regex patterns are kept as written.
+ */
+interface MatchForm {
+  /** Match type, with the header name for header rules */
+  field: string;
+  matchMode: MatchMode;
+  pattern: string;
+  normalize: boolean;
+}
+
+/**
+ * Convert a regex that is a plain literal, optionally anchored, to the equivalent
+ * match mode: "^abc$" is exact, "^abc" startsWith, "abc$" endsWith and "abc" contains
+ * Returns null for any other regex.
+ */
+export function regexAsLiteral(pattern: string): { matchMode: MatchMode; pattern: string } | null {
+  let body = pattern;
+  const anchoredStart = body.startsWith('^');
+  if (anchoredStart) {
+    body = body.slice(1);
+  } else if (body.startsWith('.*')) {
+    body = body.slice(2);
+  }
+  const anchoredEnd = body.endsWith('$') && !body.endsWith('\\$');
+  if (anchoredEnd) {
+    body = body.slice(0, -1);
+  } else if (body.endsWith('.*') && !body.endsWith('\\.*')) {
+    body = body.slice(0, -2);
+  }
+
+  let literal = '';
+  for (let i = 0; i < body.length; i++) {
+    const ch = body[i];
+    if (ch === '\\') {
+      const next = body[i + 1];
+      if (next === undefined || /[a-zA-Z0-9]/.test(next)) {
+        return null;
+      }
+      literal += next;
+      i++;
+    } else if ('.^$|?*+()[]{}'.includes(ch)) {
+      return null;
+    } else {
+      literal += ch;
+    }
+  }
+  if (literal === '') {
+    return null;
+  }
+
+  const matchMode: MatchMode = anchoredStart
+    ? (anchoredEnd ? 'exact' : 'startsWith')
+    : (anchoredEnd ? 'endsWith' : 'contains');
+  return { matchMode, pattern: literal };
+}
+
+/**
+ * Get the match form of a rule, or null when its pattern is not usable
+ */
+function toMatchForm(rule: FilterRuleWithWorker): MatchForm | null {
+  let field: string = rule.matchType;
+  let pattern = rule.pattern;
+  if (rule.matchType === 'header') {
+    const parsed = parseHeaderPattern(rule.pattern);
+    if (!parsed) {
+      return null;
+    }
+    field = `header:${parsed.headerName.toLowerCase()}`;
+    pattern = parsed.pattern;
+  }
+
+  const normalize = rule.normalize === true;
+  let matchMode = rule.matchMode;
+  if (matchMode === 'regex') {
+    const literal = regexAsLiteral(pattern);
+    // A normalizing regex is tested against normalized text but is not normalized itself
+    if (!literal || (normalize && normalizeText(literal.pattern) !== literal.pattern)) {
+      return { field, matchMode, pattern, normalize };
+    }
+    matchMode = literal.matchMode;
+    pattern = literal.pattern;
+  }
+  if (normalize) {
+    pattern = normalizeText(pattern);
+  }
+  return { field, matchMode, pattern: pattern.toLowerCase(), normalize };
+}
+
+/**
+ * Check whether every value matching the specific form also matches the general form
+ */
+function formSubsumes(general: MatchForm, specific: MatchForm): boolean {
+  if (general.field !== specific.field || general.normalize !== specific.normalize) {
+    return false;
+  }
+  const g = general.pattern;
+  const s = specific.pattern;
+
+  switch (general.matchMode) {
+    case 'exact':
+      return specific.matchMode === 'exact' && s === g;
+    case 'contains':
+      return specific.matchMode !== 'regex' && s.includes(g);
+    case 'startsWith':
+      return (specific.matchMode === 'exact' || specific.matchMode === 'startsWith') && s.startsWith(g);
+    case 'endsWith':
+      return (specific.matchMode === 'exact' || specific.matchMode === 'endsWith') && s.endsWith(g);
+    case 'domainTree':
+      if (specific.matchMode === 'exact' || specific.matchMode === 'domainTree') {
+        return matchesDomainTree(s, g);
+      }
+      // "@shop.com" and ".shop.com" suffixes only match hosts in the tree below them
+      return specific.matchMode === 'endsWith' && (s.startsWith('@') || s.startsWith('.')) && matchesDomainTree(s.slice(1), g);
+    case 'regex':
+      return specific.matchMode === 'exact' && testRegex(g, s);
+  }
+}
+
+/**
+ * Check whether every email a rule's pattern matches also matches another rule's pattern
+ * Compound rules never subsume or get subsumed.
+ */
+export function patternSubsumes(general: FilterRuleWithWorker, specific: FilterRuleWithWorker): boolean {
+  if (general.conditions || specific.conditions) {
+    return false;
+  }
+  const generalForm = toMatchForm(general);
+  const specificForm = toMatchForm(specific);
+  return generalForm !== null && specificForm !== null && formSubsumes(generalForm, specificForm);
+}
+
+function isGlobalRule(rule: FilterRuleWithWorker): boolean {
+  return !rule.workerId && !rule.ruleSetId;
+}
+
+/**
+ * Check whether a rule applies wherever another rule applies
+ */
+export function scopeCovers(
+  general: FilterRuleWithWorker,
+  specific: FilterRuleWithWorker,
+  workerIds: string[],
+  inheritance: WorkerRuleInheritance
+): boolean {
+  if (isGlobalRule(specific) && !isGlobalRule(general)) {
+    return false;
+  }
+  const applied = workerIds.filter((workerId) => ruleAppliesToWorker(specific, workerId, inheritance));
+  if (applied.length === 0) {
+    return isGlobalRule(general) || (!!general.ruleSetId && general.ruleSetId === specific.ruleSetId);
+  }
+  return applied.every((workerId) => ruleAppliesToWorker(general, workerId, inheritance));
+}
+
+function scopesIntersect(
+  a: FilterRuleWithWorker,
+  b: FilterRuleWithWorker,
+  workerIds: string[],
+  inheritance: WorkerRuleInheritance
+): boolean {
+  return (isGlobalRule(a) && isGlobalRule(b))
+    || workerIds.some((workerId) => ruleAppliesToWorker(a, workerId, inheritance) && ruleAppliesToWorker(b, workerId, inheritance));
+}
+
+/**
+ * Whether a rule matches every email its pattern matches, at any time
+ */
+function isUnconditional(rule: FilterRuleWithWorker, now: Date): boolean {
+  return rule.enabled
+    && rule.mode !== 'shadow'
+    && !rule.conditions
+    && !(rule.exceptions && rule.exceptions.length > 0)
+    && !rule.activeUntil
+    && !(rule.timeWindows && rule.timeWindows.length > 0)
+    && (!rule.activeFrom || new Date(rule.activeFrom).getTime() <= now.getTime());
+}
+
+/**
+ * Whether a rule takes part in filtering decisions at all
+ */
+function isLive(rule: FilterRuleWithWorker): boolean {
+  return rule.enabled && rule.mode !== 'shadow';
+}
+
+/**
+ * What a matching rule does to an email
+ */
+function effectKey(rule: FilterRuleWithWorker): string {
+  return JSON.stringify([rule.category, rule.action || 'drop', rule.rejectReason || null, rule.forwardTo || []]);
+}
+
+/**
+ * Everything that decides what a rule matches and does, but not where it applies
+ * or its priority, which is assigned on creation and so differs between copies
+ */
+function duplicateKey(rule: FilterRuleWithWorker): string {
+  return JSON.stringify([
+    rule.category,
+    rule.matchType,
+    rule.matchMode,
+    rule.matchMode === 'regex' ? rule.pattern : rule.pattern.toLowerCase(),
+    rule.normalize === true,
+    rule.conditions || null,
+    rule.exceptions || [],
+    rule.action || 'drop',
+    rule.rejectReason || null,
+    rule.forwardTo || [],
+    rule.activeFrom ? new Date(rule.activeFrom).toISOString() : null,
+    rule.activeUntil ? new Date(rule.activeUntil).toISOString() : null,
+    rule.timeWindows || [],
+    rule.timezone || null,
+    rule.mode || 'active',
+  ]);
+}
+
+/**
+ * Check whether a rule is checked before another rule matching the same emails gets a chance
+ * Rules of equal priority count only when they do the same, since their order is not fixed.
+ */
+function evaluatedFirst(general: FilterRuleWithWorker, specific: FilterRuleWithWorker): boolean {
+  const categoryDiff = CATEGORY_ORDER.indexOf(general.category) - CATEGORY_ORDER.indexOf(specific.category);
+  if (categoryDiff !== 0) {
+    return categoryDiff < 0;
+  }
+  const priorityDiff = (general.priority ?? 0) - (specific.priority ?? 0);
+  return priorityDiff < 0 || (priorityDiff === 0 && effectKey(general) === effectKey(specific));
+}
+
+function summarize(rule: FilterRuleWithWorker): RuleAnalysisRule {
+  return {
+    id: rule.id,
+    category: rule.category,
+    matchType: rule.matchType,
+    matchMode: rule.matchMode,
+    pattern: rule.pattern,
+    enabled: rule.enabled,
+    workerId: rule.workerId,
+    ruleSetId: rule.ruleSetId,
+    lastHitAt: rule.lastHitAt,
+  };
+}
+
+function makeFinding(
+  kind: RuleAnalysisKind,
+  severity: RuleAnalysisSeverity,
+  rules: FilterRuleWithWorker[],
+  message: string,
+  fix?: RuleAnalysisFix
+): RuleAnalysisFinding {
+  return { id: `${kind}:${rules.map((rule) => rule.id).join(',')}`, kind, severity, rules: rules.map(summarize), message, fix };
+}
+
+function scopeRank(rule: FilterRuleWithWorker): number {
+  if (isGlobalRule(rule)) {
+    return 0;
+  }
+  return rule.ruleSetId ? 1 : 2;
+}
+
+/**
+ * Find groups of identical rules in different scopes
+ * Copies that another copy covers (a global rule, a rule set the worker inherits)
+ * and is checked no later than are redundant, and the fix deletes them; copies
+ * spread over separate workers are reported without a fix, as candidates for a
+ * shared rule set.
+ */
+function findDuplicates(rules: FilterRuleWithWorker[], options: Required<RuleAnalysisOptions>): RuleAnalysisFinding[] {
+  const groups = new Map<string, FilterRuleWithWorker[]>();
+  for (const rule of rules) {
+    const key = duplicateKey(rule);
+    groups.set(key, [...(groups.get(key) || []), rule]);
+  }
+
+  const findings: RuleAnalysisFinding[] = [];
+  for (const group of groups.values()) {
+    if (group.length < 2) {
+      continue;
+    }
+    // Keep the widest scope, enabled rules and older rules first
+    const ordered = [...group].sort((a, b) =>
+      scopeRank(a) - scopeRank(b)
+      || Number(b.enabled) - Number(a.enabled)
+      || new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+    );
+    const kept: FilterRuleWithWorker[] = [];
+    const redundant: FilterRuleWithWorker[] = [];
+    for (const rule of ordered) {
+      const covered = kept.some((keeper) =>
+        (keeper.enabled || !rule.enabled)
+        && (keeper.priority ?? 0) <= (rule.priority ?? 0)
+        && scopeCovers(keeper, rule, options.workerIds, options.inheritance)
+      );
+      (covered ? redundant : kept).push(rule);
+    }
+
+    const message = redundant.length > 0
+      ? `${redundant.length} of ${group.length} identical rules for ${group[0].pattern} are covered by another copy`
+      : `${group.length} identical rules for ${group[0].pattern} in separate scopes; consider a shared rule set`;
+    findings.push(makeFinding(
+      'duplicate',
+      redundant.length > 0 ? 'warning' : 'info',
+      [...redundant, ...kept],
+      message,
+      redundant.length > 0 ? { action: 'delete', ruleIds: redundant.map((rule) => rule.id) } : undefined
+    ));
+  }
+  return findings;
+}
+
+/**
+ * Find rules other rules make unreachable, and whitelist rules carving exceptions out of blocking rules
+ */
+function findShadowing(rules: FilterRuleWithWorker[], options: Required<RuleAnalysisOptions>): RuleAnalysisFinding[] {
+  const findings: RuleAnalysisFinding[] = [];
+  const generalRules = rules.filter((rule) => isUnconditional(rule, options.now));
+
+  for (const rule of rules) {
+    if (!isLive(rule) || rule.conditions) {
+      continue;
+    }
+    const shadowing: FilterRuleWithWorker[] = [];
+    const whitelisting: FilterRuleWithWorker[] = [];
+    for (const general of generalRules) {
+      if (general.id === rule.id || !evaluatedFirst(general, rule)) {
+        continue;
+      }
+      // Identical rules of one category are reported as duplicates
+      if (general.category === rule.category && duplicateKey(general) === duplicateKey(rule)) {
+        continue;
+      }
+      if (!patternSubsumes(general, rule) || !scopeCovers(general, rule, options.workerIds, options.inheritance)) {
+        continue;
+      }
+      (general.category === 'whitelist' && rule.category !== 'whitelist' ? whitelisting : shadowing).push(general);
+    }
+
+    if (whitelisting.length > 0) {
+      findings.push(makeFinding(
+        'whitelistConflict',
+        'warning',
+        [rule, ...whitelisting],
+        `${rule.category} rule ${rule.pattern} never applies: whitelist rule ${whitelisting[0].pattern} forwards every email it matches`,
+        { action: 'delete', ruleIds: [rule.id] }
+      ));
+    } else if (shadowing.length > 0) {
+      findings.push(makeFinding(
+        'shadowed',
+        'warning',
+        [rule, ...shadowing],
+        `${rule.category} rule ${rule.pattern} is never reached: ${shadowing[0].category} rule ${shadowing[0].pattern} matches every email it matches first`,
+        { action: 'delete', ruleIds: [rule.id] }
+      ));
+    }
+  }
+
+  // Whitelist rules inside a blocking rule are exceptions to it, usually on purpose
+  for (const whitelist of rules) {
+    if (whitelist.category !== 'whitelist' || !isLive(whitelist) || whitelist.conditions) {
+      continue;
+    }
+    const blocking = rules.filter((rule) =>
+      rule.category !== 'whitelist'
+      && isLive(rule)
+      && patternSubsumes(rule, whitelist)
+      && !patternSubsumes(whitelist, rule)
+      && scopesIntersect(rule, whitelist, options.workerIds, options.inheritance)
+    );
+    if (blocking.length > 0) {
+      findings.push(makeFinding(
+        'overlap',
+        'info',
+        [whitelist, ...blocking],
+        `Whitelist rule ${whitelist.pattern} forwards part of what ${blocking.length} blocking rules match`
+      ));
+    }
+  }
+  return findings;
+}
+
+/**
+ * Find enabled rules not hit within the stale period; rules never hit count from their creation
+ */
+function findStale(rules: FilterRuleWithWorker[], options: Required<RuleAnalysisOptions>): RuleAnalysisFinding[] {
+  const cutoff = options.now.getTime() - options.staleDays * DAY_MS;
+  return rules
+    .filter((rule) => isLive(rule) && new Date(rule.lastHitAt ?? rule.createdAt).getTime() <= cutoff)
+    .map((rule) => rule.lastHitAt
+      ? makeFinding('stale', 'info', [rule], `Rule ${rule.pattern} has not been hit for over ${options.staleDays} days`, { action: 'disable', ruleIds: [rule.id] })
+      : makeFinding('neverHit', 'info', [rule], `Rule ${rule.pattern} has never been hit in over ${options.staleDays} days`, { action: 'disable', ruleIds: [rule.id] })
+    );
+}
+
+/**
+ * Analyze rules of every scope for duplicates, shadowing, whitelist conflicts and stale rules
+ * Warnings come before informational findings.
+ */
+export function analyzeRules(rules: FilterRuleWithWorker[], options: RuleAnalysisOptions): RuleAnalysisReport {
+  const resolved: Required<RuleAnalysisOptions> = {
+    ...options,
+    now: options.now ?? new Date(),
+    staleDays: options.staleDays ?? DEFAULT_STALE_DAYS,
+  };
+  const findings = [
+    ...findDuplicates(rules, resolved),
+    ...findShadowing(rules, resolved),
+    ...findStale(rules, resolved),
+  ].sort((a, b) => Number(a.severity === 'info') - Number(b.severity === 'info'));
+
+  const summary: Record<RuleAnalysisKind, number> = {
+    duplicate: 0,
+    shadowed: 0,
+    whitelistConflict: 0,
+    overlap: 0,
+    neverHit: 0,
+    stale: 0,
+  };
+  for (const finding of findings) {
+    summary[finding.kind]++;
+  }
+
+  return { generatedAt: resolved.now, staleDays: resolved.staleDays, totalRules: rules.length, summary, findings };
+}
+
+/**
+ * Service analyzing the stored filter rules
+ */
+export class RuleAnalysisService {
+  constructor(private db: Database) {}
+
+  /**
+   * Analyze every stored rule for every worker
+   */
+  analyze(staleDays: number = DEFAULT_STALE_DAYS, now: Date = new Date()): RuleAnalysisReport {
+    return analyzeRules(new RuleRepository(this.db).findAll(), {
+      workerIds: new WorkerRepository(this.db).findAll().map((worker) => worker.id),
+      inheritance: new RuleSetRepository(this.db).findInheritance(),
+      now,
+      staleDays,
+    });
+  }
+
+  /**
+   * Apply the fix of a finding
+   * The analysis is run again first, so a finding that no longer holds is not applied.
+   *
+   * @throws RuleAnalysisError if the finding is gone or has no fix
+   */
+  applyFix(
+    findingId: string,
+    options: { staleDays?: number; actor: RuleHistoryActor }
+  ): { finding: RuleAnalysisFinding; result: RuleBulkResult } {
+    const finding = this.analyze(options.staleDays).findings.find((candidate) => candidate.id === findingId);
+    if (!finding) {
+      throw new RuleAnalysisError(`Finding ${findingId} not found, the rules may have changed`, 'NOT_FOUND');
+    }
+    if (!finding.fix) {
+      throw new RuleAnalysisError(`Finding ${findingId} has no automatic fix`, 'NO_FIX');
+    }
+
+    const result = new RuleBulkService(this.db).run(
+      { ruleIds: finding.fix.ruleIds },
+      { action: finding.fix.action },
+      { dryRun: false, actor: options.actor }
+    );
+    return { finding, result };
+  }
+}
@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import * as fc from 'fast-check';
+import type { Database } from 'better-sqlite3';
+import type { CreateRuleDTO } from '@email-filter/shared';
+import { RuleRepository } from '../db/rule-repository.js';
+import { createTestDatabase } from '../test-utils/sql-js-database.js';
+import { makeRule } from '../test-utils/rule-fixtures.js';
+import { RuleBulkError, RuleBulkService, matchesBulkFilter, planBulkChange } from './rule-bulk.service.js';
+
+const NOW = new Date('2024-06-30T00:00:00.000Z');
+
+describe('Rule Bulk Operations', () => {
+  describe('matchesBulkFilter', () => {
+    it('should require every given criterion to match', () => {
+      const rule = makeRule('Promo@Shop.com', { tags: ['promo'], workerId: 'w1' });
+
+      expect(matchesBulkFilter(rule, { tag: 'promo', search: 'shop', workerId: 'w1' }, NOW)).toBe(true);
+      expect(matchesBulkFilter(rule, { tag: 'promo', category: 'whitelist' }, NOW)).toBe(false);
+      expect(matchesBulkFilter(rule, { workerId: 'global' }, NOW)).toBe(false);
+      expect(matchesBulkFilter(makeRule('a', { ruleSetId: 's1' }), { workerId: 'global' }, NOW)).toBe(false);
+    });
+
+    it('should count never-hit rules as stale only once they are old enough', () => {
+      const filter = { notHitInDays: 30 };
+
+      expect(matchesBulkFilter(makeRule('old', { lastHitAt: new Date('2024-05-01T00:00:00.000Z') }), filter, NOW)).toBe(true);
+      expect(matchesBulkFilter(makeRule('recent', { lastHitAt: new Date('2024-06-20T00:00:00.000Z') }), filter, NOW)).toBe(false);
+      expect(matchesBulkFilter(makeRule('never'), filter, NOW)).toBe(true);
+      expect(matchesBulkFilter(makeRule('new', { createdAt: new Date('2024-06-25T00:00:00.000Z') }), filter, NOW)).toBe(false);
+    });
+  });
+
+  describe('planBulkChange', () => {
+    it('should skip rules already in the requested state', () => {
+      expect(planBulkChange(makeRule('a'), { action: 'enable' })).toBeNull();
+      expect(planBulkChange(makeRule('a', { workerId: 'w1' }), { action: 'move', workerId: 'w1' })).toBeNull();
+      expect(planBulkChange(makeRule('a'), { action: 'changeCategory', category: 'blacklist' })).toBeNull();
+      expect(planBulkChange(makeRule('a', { enabled: false }), { action: 'enable' })).toEqual({ type: 'update', update: { enabled: true } });
+    });
+
+    it('should add and remove tags without duplicating them', () => {
+      fc.assert(
+        fc.property(
+          fc.uniqueArray(fc.constantFrom('a', 'b', 'c', 'd')),
+          fc.array(fc.constantFrom('a', 'b', 'c', 'd')),
+          fc.array(fc.constantFrom('a', 'b', 'c', 'd')),
+          (tags, addTags, removeTags) => {
+            const change = planBulkChange(makeRule('r', { tags }), { action: 'retag', addTags, removeTags });
+            const result = change && change.type === 'update' ? change.update.tags! : tags;
+            expect(new Set(result).size).toBe(result.length);
+            addTags.forEach((tag) => expect(result).toContain(tag));
+            removeTags.filter((tag) => !addTags.includes(tag)).forEach((tag) => expect(result).not.toContain(tag));
+          }
+        ),
+        { numRuns: 100 }
+      );
+    });
+
+    it('should clear fields the new category does not support', () => {
+      const rule = makeRule('a', { category: 'whitelist', forwardTo: ['team@example.com'] });
+      expect(planBulkChange(rule, { action: 'changeCategory', category: 'blacklist' })).toEqual({
+        type: 'update',
+        update: { category: 'blacklist', forwardTo: null },
+      });
+
+      const rejecting = makeRule('b', { action: 'reject', rejectReason: 'No', exceptions: [{ matchType: 'sender', matchMode: 'exact', pattern: 'x' }] });
+      expect(planBulkChange(rejecting, { action: 'changeCategory', category: 'whitelist' })).toEqual({
+        type: 'update',
+        update: { category: 'whitelist', action: 'drop', rejectReason: null, exceptions: null },
+      });
+    });
+
+    it('should take rules out of their rule set when moving them', () => {
+      expect(planBulkChange(makeRule('a', { ruleSetId: 's1' }), { action: 'move', workerId: null })).toEqual({
+        type: 'update',
+        update: { workerId: null, ruleSetId: null },
+      });
+    });
+  });
+
+  describe('RuleBulkService (sql.js)', () => {
+    const compound: CreateRuleDTO = {
+      category: 'blacklist',
+      matchType: 'sender',
+      matchMode: 'contains',
+      pattern: 'promo',
+      conditions: { operator: 'and', conditions: [{ matchType: 'subject', matchMode: 'contains', pattern: 'sale' }] },
+    };
+    const actor = { userId: 'u1', username: 'alice' };
+    let db: Database;
+    let rules: RuleRepository;
+    let service: RuleBulkService;
+
+    beforeEach(async () => {
+      db = await createTestDatabase();
+      const now = new Date().toISOString();
+      db.prepare('INSERT INTO worker_instances (id, name, default_forward_to, created_at, updated_at) VALUES (?, ?, ?, ?, ?)')
+        .run('w1', 'w1', 'a@example.com', now, now);
+      rules = new RuleRepository(db);
+      service = new RuleBulkService(db);
+    });
+
+    it("should report compound rules that would clash with a worker's rules and leave every rule in place", () => {
+      const existing = rules.create({ category: 'blacklist', matchType: 'sender', matchMode: 'contains', pattern: 'promo' }, 'w1');
+      const moved = rules.create(compound);
+
+      const dryRun = service.run({ ruleIds: [moved.id] }, { action: 'move', workerId: 'w1' }, { dryRun: true, actor });
+      expect(dryRun.conflicts).toEqual([{ ruleId: moved.id, pattern: 'promo', conflictsWith: existing.id }]);
+
+      expect(() => service.run({ ruleIds: [moved.id] }, { action: 'move', workerId: 'w1' }, { dryRun: false, actor })).toThrow(RuleBulkError);
+      expect(rules.findById(moved.id)?.workerId).toBeUndefined();
+    });
+  });
+});
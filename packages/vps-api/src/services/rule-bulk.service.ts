@@ -0,0 +1,315 @@
+/**
+ * Rule Bulk Service
+ *
+ * Applies one operation (enable, disable, delete, re-tag, move to a worker or
+ * change category) to every filter rule matching a filter. A dry run only
+ * reports what would change; a real run writes every rule in one transaction
+ * and invalidates the rule cache once.
+ */
+
+import type { Database } from 'better-sqlite3';
+import type { RuleCategory, UpdateRuleDTO } from '@email-filter/shared';
+import type { RuleHistoryActor, RuleHistoryAction } from '../db/rule-history-repository.js';
+import { RuleRepository, type FilterRuleWithWorker } from '../db/rule-repository.js';
+import { StatsRepository } from '../db/stats-repository.js';
+import { RuleHistoryService } from './rule-history.service.js';
+import { getRuleCache } from './rule-cache.instance.js';
+import { getDynamicPatternCache } from './dynamic-pattern-cache.instance.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Rules a bulk operation applies to; every given criterion must match
+ */
+export interface RuleBulkFilter {
+  /** Rules with these IDs */
+  ruleIds?: string[];
+  /** Rules carrying this tag */
+  tag?: string;
+  category?: RuleCategory;
+  /** A worker's own rules, or 'global' for the global rules */
+  workerId?: string;
+  /** Rules of a shared rule set */
+  ruleSetId?: string;
+  /** Case-insensitive substring of the pattern */
+  search?: string;
+  /**
+   * Rules not hit for this many days; rules never hit count when they were
+   * created at least this many days ago
+   */
+  notHitInDays?: number;
+}
+
+export type RuleBulkAction = 'enable' | 'disable' | 'delete' | 'retag' | 'move' | 'changeCategory';
+
+/**
+ * Operation applied to every matching rule
+ */
+export interface RuleBulkOperation {
+  action: RuleBulkAction;
+  /** retag: tags added to each rule */
+  addTags?: string[];
+  /** retag: tags removed from each rule */
+  removeTags?: string[];
+  /** move: target worker, null for the global rules */
+  workerId?: string | null;
+  /** changeCategory: target category */
+  category?: RuleCategory;
+}
+
+/**
+ * Change a bulk operation makes to one rule
+ */
+export type RuleBulkChange =
+  | { type: 'delete' }
+  | { type: 'update'; update: UpdateRuleDTO & { workerId?: string | null; ruleSetId?: string | null } };
+
+/**
+ * A rule a bulk operation would clash with in its new scope
+ */
+export interface RuleBulkConflict {
+  ruleId: string;
+  pattern: string;
+  conflictsWith: string;
+}
+
+export interface RuleBulkResult {
+  dryRun: boolean;
+  action: RuleBulkAction;
+  /** Rules matching the filter */
+  matched: number;
+  /** Matching rules the operation changes */
+  changed: number;
+  rules: { id: string; pattern: string; category: RuleCategory; workerId?: string; ruleSetId?: string }[];
+  conflicts: RuleBulkConflict[];
+}
+
+export type RuleBulkErrorCode = 'CONFLICT';
+
+/**
+ * Error raised when a bulk operation cannot be applied
+ */
+export class RuleBulkError extends Error {
+  constructor(
+    message: string,
+    public code: RuleBulkErrorCode,
+    public conflicts: RuleBulkConflict[] = []
+  ) {
+    super(message);
+    this.name = 'RuleBulkError';
+  }
+}
+
+/**
+ * Check whether a rule matches a bulk filter
+ */
+export function matchesBulkFilter(rule: FilterRuleWithWorker, filter: RuleBulkFilter, now: Date = new Date()): boolean {
+  if (filter.ruleIds !== undefined && !filter.ruleIds.includes(rule.id)) {
+    return false;
+  }
+  if (filter.tag !== undefined && !(rule.tags || []).includes(filter.tag)) {
+    return false;
+  }
+  if (filter.category !== undefined && rule.category !== filter.category) {
+    return false;
+  }
+  if (filter.workerId !== undefined) {
+    const isGlobal = !rule.workerId && !rule.ruleSetId;
+    if (filter.workerId === 'global' ? !isGlobal : rule.workerId !== filter.workerId) {
+      return false;
+    }
+  }
+  if (filter.ruleSetId !== undefined && rule.ruleSetId !== filter.ruleSetId) {
+    return false;
+  }
+  if (filter.search !== undefined && !rule.pattern.toLowerCase().includes(filter.search.toLowerCase())) {
+    return false;
+  }
+  if (filter.notHitInDays !== undefined) {
+    const cutoff = now.getTime() - filter.notHitInDays * DAY_MS;
+    const lastActivity = rule.lastHitAt ?? rule.createdAt;
+    if (new Date(lastActivity).getTime() > cutoff) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Work out the change a bulk operation makes to a rule, or null when it leaves the rule as is
+ * Changing category clears the fields the new category does not support
+ * (forwardTo outside whitelist, reject and exceptions on whitelist, shadow mode on dynamic).
+ */
+export function planBulkChange(rule: FilterRuleWithWorker, operation: RuleBulkOperation): RuleBulkChange | null {
+  switch (operation.action) {
+    case 'delete':
+      return { type: 'delete' };
+    case 'enable':
+    case 'disable': {
+      const enabled = operation.action === 'enable';
+      return rule.enabled === enabled ? null : { type: 'update', update: { enabled } };
+    }
+    case 'retag': {
+      const removed = new Set(operation.removeTags || []);
+      const tags = [...new Set([...(rule.tags || []).filter((tag) => !removed.has(tag)), ...(operation.addTags || [])])];
+      const current = rule.tags || [];
+      if (tags.length === current.length && tags.every((tag, i) => tag === current[i])) {
+        return null;
+      }
+      return { type: 'update', update: { tags } };
+    }
+    case 'move': {
+      const workerId = operation.workerId || null;
+      if ((rule.workerId || null) === workerId && !rule.ruleSetId) {
+        return null;
+      }
+      return { type: 'update', update: { workerId, ruleSetId: null } };
+    }
+    case 'changeCategory': {
+      const category = operation.category!;
+      if (rule.category === category) {
+        return null;
+      }
+      const update: UpdateRuleDTO = { category };
+      if (category !== 'whitelist' && rule.forwardTo && rule.forwardTo.length > 0) {
+        update.forwardTo = null;
+      }
+      if (category === 'whitelist' && rule.action === 'reject') {
+        update.action = 'drop';
+        update.rejectReason = null;
+      }
+      if (category !== 'blacklist' && rule.exceptions && rule.exceptions.length > 0) {
+        update.exceptions = null;
+      }
+      if (category === 'dynamic' && rule.mode === 'shadow') {
+        update.mode = 'active';
+      }
+      return { type: 'update', update };
+    }
+  }
+}
+
+function historyAction(operation: RuleBulkOperation): RuleHistoryAction {
+  if (operation.action === 'delete') {
+    return 'delete';
+  }
+  return operation.action === 'enable' || operation.action === 'disable' ? 'toggle' : 'update';
+}
+
+/**
+ * Service for bulk rule operations
+ */
+export class RuleBulkService {
+  constructor(private db: Database) {}
+
+  /**
+   * Get the rules matching a filter
+   */
+  findMatching(filter: RuleBulkFilter, now: Date = new Date()): FilterRuleWithWorker[] {
+    return new RuleRepository(this.db).findAll().filter((rule) => matchesBulkFilter(rule, filter, now));
+  }
+
+  /**
+   * Find the rules a move or category change would turn into duplicates of existing rules
+   * Compound rules are checked too: their listing fields are unique per scope like
+   * those of any rule, and the database enforces it within a worker.
+   */
+  private findConflicts(changes: { rule: FilterRuleWithWorker; change: RuleBulkChange }[]): RuleBulkConflict[] {
+    const ruleRepository = new RuleRepository(this.db);
+    const conflicts: RuleBulkConflict[] = [];
+    const claimed = new Map<string, string>();
+
+    for (const { rule, change } of changes) {
+      if (change.type !== 'update' || (change.update.workerId === undefined && change.update.category === undefined)) {
+        continue;
+      }
+      const category = change.update.category ?? rule.category;
+      const workerId = change.update.workerId !== undefined ? change.update.workerId || undefined : rule.workerId;
+      const ruleSetId = change.update.ruleSetId !== undefined ? change.update.ruleSetId || undefined : rule.ruleSetId;
+      const dto = { category, matchType: rule.matchType, matchMode: rule.matchMode, pattern: rule.pattern };
+
+      const duplicate = ruleRepository.findDuplicate(dto, workerId, ruleSetId);
+      const key = JSON.stringify([workerId || null, ruleSetId || null, category, rule.matchType, rule.matchMode, rule.pattern]);
+      const clash = duplicate && duplicate.id !== rule.id ? duplicate.id : claimed.get(key);
+      if (clash) {
+        conflicts.push({ ruleId: rule.id, pattern: rule.pattern, conflictsWith: clash });
+      } else {
+        claimed.set(key, rule.id);
+      }
+    }
+    return conflicts;
+  }
+
+  /**
+   * Apply an operation to every rule matching a filter
+   * A dry run reports the matching rules and conflicts without writing anything.
+   *
+   * @throws RuleBulkError if the operation would create duplicate rules
+   */
+  run(
+    filter: RuleBulkFilter,
+    operation: RuleBulkOperation,
+    options: { dryRun: boolean; actor: RuleHistoryActor }
+  ): RuleBulkResult {
+    const matching = this.findMatching(filter);
+    const changes = matching
+      .map((rule) => ({ rule, change: planBulkChange(rule, operation) }))
+      .filter((entry): entry is { rule: FilterRuleWithWorker; change: RuleBulkChange } => entry.change !== null);
+    const conflicts = this.findConflicts(changes);
+
+    const result: RuleBulkResult = {
+      dryRun: options.dryRun,
+      action: operation.action,
+      matched: matching.length,
+      changed: changes.length,
+      rules: changes.map(({ rule }) => ({
+        id: rule.id,
+        pattern: rule.pattern,
+        category: rule.category,
+        workerId: rule.workerId,
+        ruleSetId: rule.ruleSetId,
+      })),
+      conflicts,
+    };
+    if (options.dryRun || changes.length === 0) {
+      return result;
+    }
+    if (conflicts.length > 0) {
+      throw new RuleBulkError(`${conflicts.length} rules would duplicate existing rules`, 'CONFLICT', conflicts);
+    }
+
+    const ruleRepository = new RuleRepository(this.db);
+    const statsRepository = new StatsRepository(this.db);
+    const historyService = new RuleHistoryService(this.db);
+    const action = historyAction(operation);
+    const writes: { before: FilterRuleWithWorker; after: FilterRuleWithWorker | null }[] = [];
+
+    this.db.transaction(() => {
+      for (const { rule, change } of changes) {
+        let after: FilterRuleWithWorker | null = null;
+        if (change.type === 'delete') {
+          statsRepository.delete(rule.id);
+          ruleRepository.delete(rule.id);
+        } else {
+          after = ruleRepository.update(rule.id, change.update);
+        }
+        historyService.record('filter', rule.id, action, rule, after, options.actor);
+        writes.push({ before: rule, after });
+      }
+    })();
+
+    // Rules of any scope may have changed, so drop every worker's cached rules at once
+    getRuleCache().invalidateAll();
+    const patternCache = getDynamicPatternCache();
+    for (const { before, after } of writes) {
+      if (before.category === 'dynamic' && after?.category !== 'dynamic') {
+        patternCache.remove(before.pattern);
+      }
+      if (after?.category === 'dynamic' && before.category !== 'dynamic') {
+        patternCache.add(after.pattern);
+      }
+    }
+
+    return result;
+  }
+}
@@ -520,4 +520,37 @@ describe('RuleCache', () => {
       );
     });
   });
+
+  describe('getMatcher() Method', () => {
+    it('compiles once per cache entry and drops the matcher with the entry', () => {
+      fc.assert(
+        fc.property(workerIdArb, filterRulesArb, (workerId, rules) => {
+          cache.clear();
+          expect(cache.getMatcher(workerId)).toBeNull();
+
+          cache.set(workerId, rules);
+          const matcher = cache.getMatcher(workerId);
+          expect(matcher).not.toBeNull();
+          expect(cache.getMatcher(workerId)).toBe(matcher);
+
+          cache.invalidate(workerId);
+          expect(cache.getMatcher(workerId)).toBeNull();
+
+          cache.set(workerId, rules);
+          expect(cache.getMatcher(workerId)).not.toBe(matcher);
+        }),
+        { numRuns: 50 }
+      );
+    });
+
+    it('does not count towards statistics', () => {
+      cache.set('worker-1', []);
+      cache.getMatcher('worker-1');
+      cache.getMatcher('worker-2');
+
+      const stats = cache.getStats();
+      expect(stats.hits).toBe(0);
+      expect(stats.misses).toBe(0);
+    });
+  });
 });
@@ -9,6 +9,7 @@
 
 import type { FilterRule } from '@email-filter/shared';
 import type { FilterRuleWithWorker } from '../db/rule-repository.js';
+import { compileRuleSet, type CompiledRuleSet } from './compiled-matcher.js';
 
 /**
  * Configuration for the rule cache
@@ -25,6 +26,8 @@ export interface RuleCacheConfig {
  */
 interface CacheEntry {
   rules: FilterRuleWithWorker[];
+  /** Compiled on first use, dropped with the entry */
+  matcher?: CompiledRuleSet;
   cachedAt: number;
   lastAccessedAt: number;
 }
@@ -157,6 +160,28 @@ export class RuleCache {
     return [...entry.rules];
   }
 
+  /**
+   * Get the compiled matcher for a worker's cached rules
+   * Compiled on first use and kept until the entry expires or is invalidated.
+   * Does not count towards hit/miss statistics, call get first.
+   * 
+   * @param workerId - Worker ID or undefined for global rules
+   * @returns Compiled matcher or null if not cached or expired
+   */
+  getMatcher(workerId?: string): CompiledRuleSet | null {
+    const key = this.getCacheKey(workerId);
+    const entry = this.cache.get(key);
+
+    if (!entry || this.isExpired(entry)) {
+      return null;
+    }
+
+    if (!entry.matcher) {
+      entry.matcher = compileRuleSet(entry.rules);
+    }
+    return entry.matcher;
+  }
+
   /**
    * Cache rules for a worker
    * 
@@ -0,0 +1,187 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import * as fc from 'fast-check';
+import type { Database } from 'better-sqlite3';
+import type { CreateRuleDTO } from '@email-filter/shared';
+import { RuleRepository } from '../db/rule-repository.js';
+import type { RuleDraftChange } from '../db/rule-draft-repository.js';
+import { RuleHistoryRepository } from '../db/rule-history-repository.js';
+import { RuleSetVersionRepository } from '../db/rule-set-version-repository.js';
+import { createTestDatabase } from '../test-utils/sql-js-database.js';
+import { makeRule } from '../test-utils/rule-fixtures.js';
+import { RuleDraftError, RuleDraftService, mergeDraftChange, planRuleSetRestore, toRuleChangeSet } from './rule-draft.service.js';
+import { toRuleSnapshot } from './rule-history.service.js';
+
+function makeChange(id: number, change: Partial<RuleDraftChange>): RuleDraftChange {
+  return {
+    id,
+    operation: 'add',
+    createdAt: new Date('2024-06-01T00:00:00.000Z'),
+    updatedAt: new Date('2024-06-01T00:00:00.000Z'),
+    ...change,
+  };
+}
+
+describe('Rule Drafts', () => {
+  describe('mergeDraftChange', () => {
+    it('should accumulate edits to the same rule', () => {
+      const merged = mergeDraftChange(
+        { operation: 'update', ruleId: 'r1', payload: { pattern: 'spam', enabled: false } },
+        { operation: 'update', ruleId: 'r1', payload: { pattern: 'promo' } }
+      );
+      expect(merged).toEqual({ operation: 'update', ruleId: 'r1', payload: { pattern: 'promo', enabled: false } });
+    });
+
+    it('should let a delete replace a staged edit', () => {
+      expect(mergeDraftChange(
+        { operation: 'update', ruleId: 'r1', payload: { pattern: 'spam' } },
+        { operation: 'delete', ruleId: 'r1' }
+      )).toEqual({ operation: 'delete', ruleId: 'r1' });
+    });
+
+    it('should refuse to edit a rule staged for deletion', () => {
+      const staged = { operation: 'delete' as const, ruleId: 'r1' };
+      expect(() => mergeDraftChange(staged, { operation: 'update', ruleId: 'r1', payload: {} })).toThrow(RuleDraftError);
+      expect(mergeDraftChange(staged, { operation: 'delete', ruleId: 'r1' })).toEqual(staged);
+    });
+  });
+
+  describe('toRuleChangeSet', () => {
+    it('should assign added rules to the draft worker', () => {
+      const changeSet = toRuleChangeSet([
+        makeChange(1, { operation: 'add', payload: { category: 'blacklist', matchType: 'subject', matchMode: 'contains', pattern: 'spam' } }),
+        makeChange(2, { operation: 'update', ruleId: 'r1', payload: { enabled: false } }),
+        makeChange(3, { operation: 'delete', ruleId: 'r2' }),
+      ], 'w1');
+
+      expect(changeSet).toEqual({
+        add: [{ category: 'blacklist', matchType: 'subject', matchMode: 'contains', pattern: 'spam', workerId: 'w1' }],
+        update: [{ id: 'r1', enabled: false }],
+        delete: ['r2'],
+      });
+    });
+  });
+
+  describe('planRuleSetRestore', () => {
+    it('should leave rules that match the version alone', () => {
+      const kept = makeRule('r1');
+      const changed = makeRule('r2');
+      const added = makeRule('r3');
+      const target = [
+        { ...kept, updatedAt: new Date('2024-05-01T00:00:00.000Z') },
+        { ...changed, enabled: false },
+        makeRule('r4'),
+      ];
+
+      const plan = planRuleSetRestore([kept, changed, added], target);
+
+      expect(plan.restore.map((rule) => rule.id)).toEqual(['r2', 'r4']);
+      expect(plan.remove.map((rule) => rule.id)).toEqual(['r3']);
+    });
+
+    it('should end with exactly the rules of the version', () => {
+      const ruleArb = fc.record({ id: fc.constantFrom('r1', 'r2', 'r3', 'r4', 'r5'), pattern: fc.constantFrom('a', 'b') });
+      const rulesArb = fc.uniqueArray(ruleArb, { selector: (rule) => rule.id, maxLength: 5 });
+      fc.assert(
+        fc.property(rulesArb, rulesArb, (current, target) => {
+          const currentRules = current.map((rule) => makeRule(rule.id, { pattern: rule.pattern }));
+          const targetRules = target.map((rule) => makeRule(rule.id, { pattern: rule.pattern }));
+
+          const plan = planRuleSetRestore(currentRules, targetRules);
+
+          const removed = new Set(plan.remove.map((rule) => rule.id));
+          const result = new Map(currentRules.filter((rule) => !removed.has(rule.id)).map((rule) => [rule.id, rule.pattern]));
+          plan.restore.forEach((rule) => result.set(rule.id, rule.pattern));
+          expect(result).toEqual(new Map(target.map((rule) => [rule.id, rule.pattern])));
+        }),
+        { numRuns: 100 }
+      );
+    });
+  });
+
+  describe('RuleDraftService (sql.js)', () => {
+    const actor = { userId: 'u1', username: 'alice' };
+    let db: Database;
+    let rules: RuleRepository;
+    let service: RuleDraftService;
+
+    const blacklist = (pattern: string): CreateRuleDTO => ({ category: 'blacklist', matchType: 'sender', matchMode: 'contains', pattern });
+    const livePatterns = (workerId?: string) =>
+      (workerId ? rules.findByWorkerId(workerId) : rules.findGlobal()).map((rule) => rule.pattern).sort();
+
+    beforeEach(async () => {
+      db = await createTestDatabase();
+      db.prepare(
+        `INSERT INTO worker_instances (id, name, default_forward_to, created_at, updated_at) VALUES ('w1', 'w1', 'a@example.com', '', '')`
+      ).run();
+      rules = new RuleRepository(db);
+      service = new RuleDraftService(db);
+    });
+
+    it('should apply the whole draft, record history and store the baseline and published versions', () => {
+      const spam = rules.create(blacklist('spam'), 'w1');
+      const promo = rules.create(blacklist('promo'), 'w1');
+      service.stageChange('w1', { operation: 'update', ruleId: spam.id, payload: { pattern: 'spam.example.com' } }, actor);
+      service.stageChange('w1', { operation: 'delete', ruleId: promo.id }, actor);
+      service.stageChange('w1', { operation: 'add', payload: blacklist('newsletter') }, actor);
+
+      const result = service.publish('w1', actor);
+
+      expect(result.version.version).toBe(2);
+      expect(result.applied.map((change) => change.operation)).toEqual(['update', 'delete', 'add']);
+      expect(livePatterns('w1')).toEqual(['newsletter', 'spam.example.com']);
+      expect(service.getDraft('w1').changes).toEqual([]);
+      expect(service.getVersions('w1').map((version) => version.action)).toEqual(['publish', 'baseline']);
+      expect(new RuleHistoryRepository(db).findByRule('filter', promo.id).map((entry) => entry.action)).toEqual(['delete', 'baseline']);
+    });
+
+    it('should leave the live rules, history and draft unchanged when a change fails', () => {
+      const spam = rules.create(blacklist('spam'), 'w1');
+      rules.create(blacklist('promo'), 'w1');
+      service.stageChange('w1', { operation: 'update', ruleId: spam.id, payload: { pattern: 'spam.example.com' } }, actor);
+      service.stageChange('w1', { operation: 'add', payload: blacklist('promo') }, actor);
+
+      expect(() => service.publish('w1', actor)).toThrow(expect.objectContaining({ code: 'DUPLICATE_RULE' }));
+
+      expect(livePatterns('w1')).toEqual(['promo', 'spam']);
+      expect(new RuleHistoryRepository(db).findByRule('filter', spam.id)).toEqual([]);
+      expect(service.getVersions('w1')).toEqual([]);
+      expect(service.getDraft('w1').changes).toHaveLength(2);
+    });
+
+    it('should roll back to a version, restoring deleted rules with their original IDs', () => {
+      const spam = rules.create(blacklist('spam'), 'w1');
+      service.stageChange('w1', { operation: 'delete', ruleId: spam.id }, actor);
+      service.stageChange('w1', { operation: 'add', payload: blacklist('promo') }, actor);
+      service.publish('w1', actor);
+
+      const result = service.rollback('w1', 1, actor);
+
+      expect(result.version).toMatchObject({ version: 3, action: 'rollback', rolledBackTo: 1 });
+      expect(rules.findByWorkerId('w1').map((rule) => rule.id)).toEqual([spam.id]);
+      expect(new RuleHistoryRepository(db).findByRule('filter', spam.id).map((entry) => entry.action)).toEqual(['revert', 'delete', 'baseline']);
+    });
+
+    it('should leave the live rules unchanged when a rollback fails', () => {
+      const spam = rules.create(blacklist('spam'), 'w1');
+      const versions = new RuleSetVersionRepository(db);
+      // Two rules of one version that collide on the worker's unique rule key
+      const colliding = [makeRule('r1', { workerId: 'w1', pattern: 'promo' }), makeRule('r2', { workerId: 'w1', pattern: 'promo' })];
+      versions.create('w1', 'publish', colliding.map((rule) => toRuleSnapshot(rule)!), {}, {});
+
+      expect(() => service.rollback('w1', 1, actor)).toThrow();
+
+      expect(rules.findByWorkerId('w1').map((rule) => rule.id)).toEqual([spam.id]);
+      expect(new RuleHistoryRepository(db).findByRule('filter', spam.id)).toEqual([]);
+      expect(service.getVersions('w1')).toHaveLength(1);
+    });
+
+    it('should refuse to roll back to a version holding an invalid rule', () => {
+      const spam = rules.create(blacklist('spam'), 'w1');
+      const snapshot = { ...toRuleSnapshot(makeRule('r1', { workerId: 'w1' }))!, category: 'greylist' };
+      new RuleSetVersionRepository(db).create('w1', 'publish', [snapshot], {}, {});
+
+      expect(() => service.rollback('w1', 1, actor)).toThrow(expect.objectContaining({ code: 'INVALID_SNAPSHOT' }));
+      expect(rules.findByWorkerId('w1').map((rule) => rule.id)).toEqual([spam.id]);
+    });
+  });
+});
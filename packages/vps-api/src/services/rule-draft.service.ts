@@ -0,0 +1,513 @@
+/**
+ * Rule Draft Service
+ *
+ * Edits made through /api/rules go live for every worker as soon as the rule
+ * cache expires. A draft instead stages adds, edits and deletes for one worker
+ * (or for the global rules) outside filter_rules, so processPhase1 keeps serving
+ * the published rules while the draft is reviewed. Publishing applies the whole
+ * draft in one transaction, stores the worker's resulting rules as a numbered
+ * version and invalidates the rule cache; any earlier version can be rolled back to.
+ */
+
+import type { Database } from 'better-sqlite3';
+import type { CreateRuleDTO, UpdateRuleDTO } from '@email-filter/shared';
+import {
+  RuleDraftRepository,
+  type RuleDraftChange,
+  type RuleDraftOperation,
+  type RuleDraftPayload,
+  type RuleDraftSummary,
+} from '../db/rule-draft-repository.js';
+import {
+  RuleSetVersionRepository,
+  type AppliedRuleChange,
+  type RuleSetVersion,
+} from '../db/rule-set-version-repository.js';
+import type { RuleHistoryActor, RuleSnapshot } from '../db/rule-history-repository.js';
+import { RuleRepository, type FilterRuleWithWorker } from '../db/rule-repository.js';
+import { StatsRepository } from '../db/stats-repository.js';
+import { WorkerRepository } from '../db/worker-repository.js';
+import { RuleHistoryService, diffRuleSnapshots, toRuleSnapshot, type RuleFieldChange } from './rule-history.service.js';
+import {
+  RuleSimulationService,
+  applyRuleChanges,
+  PROPOSED_RULE_ID_PREFIX,
+  type RuleChangeSet,
+  type SimulationResult,
+} from './rule-simulation.service.js';
+import { getRuleCache } from './rule-cache.instance.js';
+import { getDynamicPatternCache } from './dynamic-pattern-cache.instance.js';
+import { InvalidRuleSnapshotError, decodeFilterRuleSnapshot } from './rule-snapshot.js';
+
+export type RuleDraftErrorCode =
+  | 'CHANGE_NOT_FOUND'
+  | 'RULE_NOT_FOUND'
+  | 'WRONG_WORKER'
+  | 'RULE_DELETED'
+  | 'EMPTY_DRAFT'
+  | 'STALE_CHANGE'
+  | 'DUPLICATE_RULE'
+  | 'VERSION_NOT_FOUND'
+  | 'INVALID_SNAPSHOT';
+
+/**
+ * Error raised when a change cannot be staged, or a draft published or rolled back
+ */
+export class RuleDraftError extends Error {
+  constructor(
+    message: string,
+    public code: RuleDraftErrorCode
+  ) {
+    super(message);
+    this.name = 'RuleDraftError';
+  }
+}
+
+/**
+ * A change to stage: payload is a full rule for add and the fields to change for update
+ */
+export interface StagedRuleChange {
+  operation: RuleDraftOperation;
+  ruleId?: string;
+  payload?: RuleDraftPayload;
+}
+
+/**
+ * A staged change next to the rule it would replace
+ */
+export interface RuleDraftChangePreview {
+  change: RuleDraftChange;
+  /** Rule as published, null for an add */
+  before: FilterRuleWithWorker | null;
+  /** Rule once the draft is published, null for a delete */
+  after: FilterRuleWithWorker | null;
+  fieldChanges: RuleFieldChange[];
+  /** The target rule was deleted or moved to another worker since the change was staged */
+  stale: boolean;
+}
+
+/**
+ * What publishing a draft would do
+ */
+export interface RuleDraftPreview {
+  workerId?: string;
+  changes: RuleDraftChangePreview[];
+  /** Logged email replayed against the published rules and against the draft */
+  simulation: SimulationResult;
+}
+
+/**
+ * Result of a publish or rollback
+ */
+export interface RuleSetPublishResult {
+  version: RuleSetVersion;
+  applied: AppliedRuleChange[];
+}
+
+/**
+ * Rules to write when restoring a version
+ */
+export interface RuleSetRestorePlan {
+  /** Rules of the version that are missing or differ from the current rule */
+  restore: FilterRuleWithWorker[];
+  /** Current rules the version did not have */
+  remove: FilterRuleWithWorker[];
+}
+
+/**
+ * A rule written by a publish or rollback, before and after
+ */
+interface RuleWrite {
+  operation: RuleDraftOperation;
+  before: FilterRuleWithWorker | null;
+  after: FilterRuleWithWorker | null;
+}
+
+/**
+ * Combine a change with the one already staged for the same rule
+ * Edits accumulate and a delete replaces a staged edit; a rule staged for
+ * deletion cannot be edited until the deletion is discarded.
+ *
+ * @throws RuleDraftError if the rule is staged for deletion
+ */
+export function mergeDraftChange(staged: StagedRuleChange | null, incoming: StagedRuleChange): StagedRuleChange {
+  if (!staged || incoming.operation === 'add') {
+    return incoming;
+  }
+  if (staged.operation === 'delete') {
+    if (incoming.operation === 'delete') {
+      return staged;
+    }
+    throw new RuleDraftError(`Rule ${incoming.ruleId} is staged for deletion`, 'RULE_DELETED');
+  }
+  if (incoming.operation === 'delete') {
+    return { operation: 'delete', ruleId: incoming.ruleId };
+  }
+  return { operation: 'update', ruleId: incoming.ruleId, payload: { ...staged.payload, ...incoming.payload } };
+}
+
+/**
+ * Turn a worker's staged changes into the change set the simulation replays
+ */
+export function toRuleChangeSet(changes: RuleDraftChange[], workerId?: string): RuleChangeSet {
+  const changeSet: RuleChangeSet = { add: [], update: [], delete: [] };
+  for (const change of changes) {
+    if (change.operation === 'add') {
+      changeSet.add.push({ ...(change.payload as CreateRuleDTO), workerId });
+    } else if (change.ruleId && change.operation === 'update') {
+      changeSet.update.push({ ...(change.payload as UpdateRuleDTO), id: change.ruleId });
+    } else if (change.ruleId) {
+      changeSet.delete.push(change.ruleId);
+    }
+  }
+  return changeSet;
+}
+
+/**
+ * Work out which rules to write back and which to delete to return a worker to a version
+ * Rules that already match the version, ignoring bookkeeping fields, are left alone.
+ *
+ * @param current - The worker's current rules
+ * @param target - The worker's rules as stored by the version
+ */
+export function planRuleSetRestore(current: FilterRuleWithWorker[], target: FilterRuleWithWorker[]): RuleSetRestorePlan {
+  const currentById = new Map(current.map((rule) => [rule.id, rule]));
+  const targetIds = new Set(target.map((rule) => rule.id));
+
+  return {
+    restore: target.filter((rule) => {
+      const existing = currentById.get(rule.id);
+      return !existing || diffRuleSnapshots(toRuleSnapshot(existing), toRuleSnapshot(rule)).length > 0;
+    }),
+    remove: current.filter((rule) => !targetIds.has(rule.id)),
+  };
+}
+
+/**
+ * Check that a rule belongs to a draft's scope: the worker's own rules, or the
+ * global rules for the global draft (rule set rules belong to neither)
+ */
+function inDraftScope(rule: FilterRuleWithWorker, workerId?: string): boolean {
+  return !rule.ruleSetId && (rule.workerId || undefined) === workerId;
+}
+
+function toAppliedChange(write: RuleWrite): AppliedRuleChange {
+  const rule = (write.after ?? write.before)!;
+  return { operation: write.operation, ruleId: rule.id, pattern: rule.pattern };
+}
+
+/**
+ * Service for staging, previewing, publishing and rolling back rule drafts
+ */
+export class RuleDraftService {
+  private draftRepository: RuleDraftRepository;
+  private versionRepository: RuleSetVersionRepository;
+
+  constructor(private db: Database) {
+    this.draftRepository = new RuleDraftRepository(db);
+    this.versionRepository = new RuleSetVersionRepository(db);
+  }
+
+  /**
+   * Get a worker's published rules, or the global rules
+   */
+  private findRules(workerId?: string): FilterRuleWithWorker[] {
+    const ruleRepository = new RuleRepository(this.db);
+    return workerId ? ruleRepository.findByWorkerId(workerId) : ruleRepository.findGlobal();
+  }
+
+  private snapshotRules(workerId?: string): RuleSnapshot[] {
+    return this.findRules(workerId).map((rule) => toRuleSnapshot(rule)!);
+  }
+
+  /**
+   * Get the changes staged for a worker and its latest published version
+   */
+  getDraft(workerId?: string): { workerId?: string; changes: RuleDraftChange[]; publishedVersion: number } {
+    return {
+      workerId,
+      changes: this.draftRepository.findByWorker(workerId),
+      publishedVersion: this.versionRepository.getLatestVersion(workerId),
+    };
+  }
+
+  /**
+   * List the workers with staged changes
+   */
+  listDrafts(): RuleDraftSummary[] {
+    return this.draftRepository.findSummaries();
+  }
+
+  /**
+   * Work out the change that staging would leave in the draft, with its target rule
+   * Lets callers validate an edit merged with the edits already staged.
+   *
+   * @throws RuleDraftError if the target rule does not exist, belongs to another worker or is staged for deletion
+   */
+  prepareChange(workerId: string | undefined, change: StagedRuleChange): { change: StagedRuleChange; rule: FilterRuleWithWorker | null } {
+    if (change.operation === 'add') {
+      return { change, rule: null };
+    }
+
+    const rule = new RuleRepository(this.db).findById(change.ruleId!);
+    if (!rule) {
+      throw new RuleDraftError(`Rule ${change.ruleId} not found`, 'RULE_NOT_FOUND');
+    }
+    if (!inDraftScope(rule, workerId)) {
+      throw new RuleDraftError(`Rule ${change.ruleId} does not belong to this worker`, 'WRONG_WORKER');
+    }
+    return { change: mergeDraftChange(this.draftRepository.findByRule(workerId, rule.id), change), rule };
+  }
+
+  /**
+   * Stage a change in a worker's draft, merging it with the change already staged for the rule
+   *
+   * @throws RuleDraftError if the change cannot be staged
+   */
+  stageChange(workerId: string | undefined, change: StagedRuleChange, actor: RuleHistoryActor): RuleDraftChange {
+    const { change: merged } = this.prepareChange(workerId, change);
+    const staged = merged.ruleId ? this.draftRepository.findByRule(workerId, merged.ruleId) : null;
+    if (staged) {
+      return this.draftRepository.replace(staged.id, merged.operation, merged.payload)!;
+    }
+    return this.draftRepository.create(workerId, merged.operation, merged.ruleId, merged.payload, actor);
+  }
+
+  /**
+   * Remove one staged change from a worker's draft
+   *
+   * @throws RuleDraftError if the change is not in the worker's draft
+   */
+  discardChange(workerId: string | undefined, changeId: number): void {
+    const change = this.draftRepository.findById(changeId);
+    if (!change || change.workerId !== workerId) {
+      throw new RuleDraftError(`Change ${changeId} not found`, 'CHANGE_NOT_FOUND');
+    }
+    this.draftRepository.delete(changeId);
+  }
+
+  /**
+   * Remove every change staged for a worker
+   * @returns Number of changes removed
+   */
+  discardDraft(workerId?: string): number {
+    return this.draftRepository.deleteByWorker(workerId);
+  }
+
+  /**
+   * Show each staged change against the published rule and replay logged email
+   * against the draft; stale changes are left out of the replay.
+   */
+  preview(workerId: string | undefined, options: { from: Date; to: Date; sampleLimit?: number }): RuleDraftPreview {
+    const changes = this.draftRepository.findByWorker(workerId);
+    const ruleRepository = new RuleRepository(this.db);
+
+    const targets = changes.map((change) => (change.ruleId ? ruleRepository.findById(change.ruleId) : null));
+    const isStale = (change: RuleDraftChange, rule: FilterRuleWithWorker | null) =>
+      change.operation !== 'add' && (rule ? !inDraftScope(rule, workerId) : change.operation === 'update');
+    const live = changes.filter((change, index) => !isStale(change, targets[index]));
+    const changeSet = toRuleChangeSet(live, workerId);
+
+    const proposed = new Map(applyRuleChanges(this.findRules(workerId), changeSet).map((rule) => [rule.id, rule]));
+    let addIndex = 0;
+    const previews = changes.map((change, index): RuleDraftChangePreview => {
+      const before = change.operation === 'add' ? null : targets[index];
+      const stale = isStale(change, before);
+      let after: FilterRuleWithWorker | null = null;
+      if (change.operation === 'add') {
+        after = proposed.get(`${PROPOSED_RULE_ID_PREFIX}${++addIndex}`) ?? null;
+      } else if (change.operation === 'update' && !stale) {
+        after = proposed.get(change.ruleId!) ?? null;
+      }
+      return {
+        change,
+        before,
+        after,
+        fieldChanges: stale ? [] : diffRuleSnapshots(toRuleSnapshot(before), toRuleSnapshot(after)),
+        stale,
+      };
+    });
+
+    const worker = workerId ? new WorkerRepository(this.db).findById(workerId) : null;
+    const simulation = new RuleSimulationService(this.db).simulate(changeSet, {
+      from: options.from,
+      to: options.to,
+      workerName: worker?.name,
+      sampleLimit: options.sampleLimit,
+    });
+
+    return { workerId, changes: previews, simulation };
+  }
+
+  /**
+   * Apply a worker's draft in one transaction and store the result as a new version
+   * The first publish also stores the rules as they were before it, so they can be
+   * rolled back to. Nothing is written if any change fails.
+   *
+   * @throws RuleDraftError if the draft is empty, a change is stale or an added rule already exists
+   */
+  publish(workerId: string | undefined, actor: RuleHistoryActor): RuleSetPublishResult {
+    const ruleRepository = new RuleRepository(this.db);
+    const statsRepository = new StatsRepository(this.db);
+    const historyService = new RuleHistoryService(this.db);
+    let writes: RuleWrite[] = [];
+
+    const publishAll = this.db.transaction(() => {
+      writes = [];
+      const changes = this.draftRepository.findByWorker(workerId);
+      if (changes.length === 0) {
+        throw new RuleDraftError('The draft has no changes', 'EMPTY_DRAFT');
+      }
+      if (this.versionRepository.getLatestVersion(workerId) === 0) {
+        this.versionRepository.create(workerId, 'baseline', this.snapshotRules(workerId), {}, {});
+      }
+
+      for (const change of changes) {
+        const before = change.ruleId ? ruleRepository.findById(change.ruleId) : null;
+        if ((before && !inDraftScope(before, workerId)) || (change.operation === 'update' && !before)) {
+          throw new RuleDraftError(`Rule ${change.ruleId} was deleted or moved since the change was staged`, 'STALE_CHANGE');
+        }
+
+        if (change.operation === 'add') {
+          const dto = change.payload as CreateRuleDTO;
+          let rule: FilterRuleWithWorker;
+          try {
+            rule = ruleRepository.create(dto, workerId);
+          } catch (error) {
+            if (error instanceof Error && error.message === 'DUPLICATE_RULE') {
+              throw new RuleDraftError(`A rule with pattern ${dto.pattern} already exists`, 'DUPLICATE_RULE');
+            }
+            throw error;
+          }
+          historyService.record('filter', rule.id, 'create', null, rule, actor);
+          writes.push({ operation: 'add', before: null, after: rule });
+        } else if (change.operation === 'update') {
+          const rule = ruleRepository.update(before!.id, change.payload as UpdateRuleDTO)!;
+          historyService.record('filter', rule.id, 'update', before, rule, actor);
+          writes.push({ operation: 'update', before, after: rule });
+        } else if (before) {
+          // A rule deleted directly since the change was staged is already gone
+          statsRepository.delete(before.id);
+          ruleRepository.delete(before.id);
+          historyService.record('filter', before.id, 'delete', before, null, actor);
+          writes.push({ operation: 'delete', before, after: null });
+        }
+      }
+
+      const applied = writes.map(toAppliedChange);
+      const version = this.versionRepository.create(workerId, 'publish', this.snapshotRules(workerId), { changes: applied }, actor);
+      this.draftRepository.deleteByWorker(workerId);
+      return { version, applied };
+    });
+
+    const result = publishAll();
+    this.applyToCaches(workerId, writes);
+    return result;
+  }
+
+  /**
+   * Get the published versions of a worker's rules, newest first
+   */
+  getVersions(workerId?: string): RuleSetVersion[] {
+    return this.versionRepository.findByWorker(workerId);
+  }
+
+  /**
+   * Get one published version of a worker's rules
+   */
+  getVersion(workerId: string | undefined, version: number): RuleSetVersion | null {
+    return this.versionRepository.findVersion(workerId, version);
+  }
+
+  /**
+   * Return a worker's rules to a published version in one transaction
+   * Rules added since are deleted and changed or deleted rules are written back
+   * with their original IDs; the result is stored as a new version. The draft is
+   * kept, and is checked again when it is published.
+   *
+   * @throws RuleDraftError if the version does not exist or holds a rule that cannot be restored
+   */
+  rollback(workerId: string | undefined, version: number, actor: RuleHistoryActor): RuleSetPublishResult {
+    const target = this.versionRepository.findVersion(workerId, version);
+    if (!target) {
+      throw new RuleDraftError(`Version ${version} not found`, 'VERSION_NOT_FOUND');
+    }
+    let targetRules: FilterRuleWithWorker[];
+    try {
+      targetRules = target.rules.map(decodeFilterRuleSnapshot);
+    } catch (error) {
+      if (error instanceof InvalidRuleSnapshotError) {
+        throw new RuleDraftError(`Version ${version} cannot be restored: ${error.message}`, 'INVALID_SNAPSHOT');
+      }
+      throw error;
+    }
+
+    const ruleRepository = new RuleRepository(this.db);
+    const statsRepository = new StatsRepository(this.db);
+    const historyService = new RuleHistoryService(this.db);
+    let writes: RuleWrite[] = [];
+
+    const rollbackAll = this.db.transaction(() => {
+      writes = [];
+      const plan = planRuleSetRestore(this.findRules(workerId), targetRules);
+
+      for (const rule of plan.remove) {
+        statsRepository.delete(rule.id);
+        ruleRepository.delete(rule.id);
+        historyService.record('filter', rule.id, 'delete', rule, null, actor);
+        writes.push({ operation: 'delete', before: rule, after: null });
+      }
+      for (const restored of plan.restore) {
+        const before = ruleRepository.findById(restored.id);
+        const rule = ruleRepository.restore(restored);
+        historyService.record('filter', rule.id, 'revert', before, rule, actor);
+        writes.push({ operation: before ? 'update' : 'add', before, after: rule });
+      }
+
+      const applied = writes.map(toAppliedChange);
+      const created = this.versionRepository.create(
+        workerId,
+        'rollback',
+        this.snapshotRules(workerId),
+        { changes: applied, rolledBackTo: version },
+        actor
+      );
+      return { version: created, applied };
+    });
+
+    const result = rollbackAll();
+    this.applyToCaches(workerId, writes);
+    return result;
+  }
+
+  /**
+   * Invalidate the rule cache of every worker a publish or rollback touched and
+   * keep the dynamic pattern cache in line with the written rules
+   */
+  private applyToCaches(workerId: string | undefined, writes: RuleWrite[]): void {
+    const workerIds = new Set<string | undefined>([workerId]);
+    for (const rule of writes.flatMap(({ before, after }) => [before, after])) {
+      if (rule) {
+        workerIds.add(rule.workerId || undefined);
+      }
+    }
+
+    const ruleCache = getRuleCache();
+    if (workerIds.has(undefined)) {
+      // Global rules are part of every worker's cached rule set
+      ruleCache.invalidateAll();
+    } else {
+      workerIds.forEach((id) => ruleCache.invalidate(id));
+    }
+
+    const patternCache = getDynamicPatternCache();
+    for (const { before, after } of writes) {
+      if (before?.category === 'dynamic') {
+        patternCache.remove(before.pattern);
+      }
+      if (after?.category === 'dynamic') {
+        patternCache.add(after.pattern);
+      }
+    }
+  }
+}
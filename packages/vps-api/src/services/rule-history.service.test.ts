@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { RuleRepository } from '../db/rule-repository.js';
+import { RuleSetRepository } from '../db/rule-set-repository.js';
+import { createTestDatabase } from '../test-utils/sql-js-database.js';
+import { RuleHistoryService, diffRuleSnapshots, getHistoryActor, toRuleSnapshot } from './rule-history.service.js';
+
+describe('Rule History', () => {
+  describe('toRuleSnapshot', () => {
+    it('should store dates as ISO strings and drop undefined fields', () => {
+      const snapshot = toRuleSnapshot({
+        pattern: 'spam',
+        activeFrom: new Date('2024-06-01T00:00:00.000Z'),
+        rejectReason: undefined,
+      });
+      expect(snapshot).toEqual({ pattern: 'spam', activeFrom: '2024-06-01T00:00:00.000Z' });
+      expect(toRuleSnapshot(null)).toBeNull();
+    });
+  });
+
+  describe('diffRuleSnapshots', () => {
+    it('should list changed fields and ignore bookkeeping fields', () => {
+      const before = { id: 'r1', pattern: 'spam', enabled: true, tags: ['a'], updatedAt: '2024-06-01T00:00:00.000Z' };
+      const after = { id: 'r1', pattern: 'promo', enabled: true, tags: ['a', 'b'], updatedAt: '2024-06-02T00:00:00.000Z' };
+
+      expect(diffRuleSnapshots(before, after)).toEqual([
+        { field: 'pattern', from: 'spam', to: 'promo' },
+        { field: 'tags', from: ['a'], to: ['a', 'b'] },
+      ]);
+    });
+
+    it('should treat missing fields and missing snapshots as null', () => {
+      expect(diffRuleSnapshots({ pattern: 'spam' }, { pattern: 'spam', forwardTo: ['a@example.com'] })).toEqual([
+        { field: 'forwardTo', from: null, to: ['a@example.com'] },
+      ]);
+      expect(diffRuleSnapshots(null, { pattern: 'spam' })).toEqual([{ field: 'pattern', from: null, to: 'spam' }]);
+    });
+
+    it('should report no changes between a snapshot and itself, and mirror when swapped', () => {
+      const snapshotArb = fc.dictionary(
+        fc.constantFrom('pattern', 'enabled', 'tags', 'priority', 'mode'),
+        fc.oneof(fc.string(), fc.boolean(), fc.integer(), fc.array(fc.string(), { maxLength: 3 }))
+      );
+      fc.assert(
+        fc.property(snapshotArb, snapshotArb, (left, right) => {
+          expect(diffRuleSnapshots(left, left)).toEqual([]);
+          const forward = diffRuleSnapshots(left, right);
+          const backward = diffRuleSnapshots(right, left);
+          expect(backward).toEqual(forward.map((change) => ({ field: change.field, from: change.to, to: change.from })));
+        }),
+        { numRuns: 100 }
+      );
+    });
+  });
+
+  describe('revertFilterRule', () => {
+    it('should only treat rules in the same rule set as duplicates', async () => {
+      const db = await createTestDatabase();
+      const rules = new RuleRepository(db);
+      const history = new RuleHistoryService(db);
+      const retail = new RuleSetRepository(db).create({ name: 'retail' });
+      const dto = { category: 'blacklist', matchType: 'sender', matchMode: 'contains', pattern: 'promo' } as const;
+
+      const setRule = rules.create(dto, undefined, retail.id);
+      history.record('filter', setRule.id, 'create', null, setRule, {});
+      const updated = rules.update(setRule.id, { pattern: 'sale' });
+      history.record('filter', setRule.id, 'update', setRule, updated, {});
+      // The same pattern outside the rule set does not block the revert
+      rules.create(dto);
+
+      const { rule } = history.revertFilterRule(setRule.id, 1, {});
+      expect(rule).toMatchObject({ pattern: 'promo', ruleSetId: retail.id });
+
+      rules.update(setRule.id, { pattern: 'sale' });
+      rules.create(dto, undefined, retail.id);
+      expect(() => history.revertFilterRule(setRule.id, 1, {})).toThrow('An identical rule already exists');
+    });
+  });
+
+  describe('getHistoryActor', () => {
+    it('should take the user from the JWT payload and leave legacy token requests anonymous', () => {
+      expect(getHistoryActor({ userId: 'u1', username: 'alice', role: 'admin', iat: 0, exp: 0 })).toEqual({
+        userId: 'u1',
+        username: 'alice',
+      });
+      expect(getHistoryActor(undefined)).toEqual({});
+    });
+  });
+});
@@ -0,0 +1,236 @@
+/**
+ * Rule History Service
+ *
+ * Every change to a filter or monitoring rule made through the API is stored as
+ * a new version holding the full rule before and after the change, with the
+ * user who made it. Versions can be diffed and a rule can be reverted to any
+ * version that still had the rule, including after it was deleted.
+ */
+
+import type { Database } from 'better-sqlite3';
+import type { MonitoringRule, TokenPayload } from '@email-filter/shared';
+import {
+  RuleHistoryRepository,
+  type RuleHistoryAction,
+  type RuleHistoryActor,
+  type RuleHistoryEntry,
+  type RuleHistoryType,
+  type RuleSnapshot,
+} from '../db/rule-history-repository.js';
+import { RuleRepository, type FilterRuleWithWorker } from '../db/rule-repository.js';
+import { MonitoringRuleRepository } from '../db/monitoring-rule-repository.js';
+import { getRuleCache } from './rule-cache.instance.js';
+import { getDynamicPatternCache } from './dynamic-pattern-cache.instance.js';
+import { InvalidRuleSnapshotError, decodeFilterRuleSnapshot, decodeMonitoringRuleSnapshot } from './rule-snapshot.js';
+
+/**
+ * Bookkeeping fields left out of diffs
+ */
+const DIFF_IGNORED_FIELDS = new Set(['id', 'createdAt', 'updatedAt', 'lastHitAt']);
+
+/**
+ * A field that differs between two versions
+ */
+export interface RuleFieldChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+/**
+ * Two versions of a rule and the fields that differ between them
+ */
+export interface RuleVersionDiff {
+  from: RuleHistoryEntry;
+  to: RuleHistoryEntry;
+  changes: RuleFieldChange[];
+}
+
+export type RuleRevertErrorCode = 'VERSION_NOT_FOUND' | 'VERSION_DELETED' | 'INVALID_SNAPSHOT' | 'DUPLICATE_RULE';
+
+/**
+ * Error raised when a rule cannot be reverted to a version
+ */
+export class RuleRevertError extends Error {
+  constructor(
+    message: string,
+    public code: RuleRevertErrorCode
+  ) {
+    super(message);
+    this.name = 'RuleRevertError';
+  }
+}
+
+/**
+ * Actor recorded for a request, from its JWT payload (none for the legacy API token)
+ */
+export function getHistoryActor(user?: TokenPayload): RuleHistoryActor {
+  return user ? { userId: user.userId, username: user.username } : {};
+}
+
+/**
+ * Convert a rule to the JSON snapshot stored in its history
+ */
+export function toRuleSnapshot(rule: object | null | undefined): RuleSnapshot | null {
+  return rule ? (JSON.parse(JSON.stringify(rule)) as RuleSnapshot) : null;
+}
+
+/**
+ * List the fields that differ between two snapshots, in a stable order
+ * A missing snapshot (rule not existing) counts as having no fields.
+ */
+export function diffRuleSnapshots(from: RuleSnapshot | null, to: RuleSnapshot | null): RuleFieldChange[] {
+  const fields = [...new Set([...Object.keys(from ?? {}), ...Object.keys(to ?? {})])]
+    .filter((field) => !DIFF_IGNORED_FIELDS.has(field))
+    .sort();
+
+  const changes: RuleFieldChange[] = [];
+  for (const field of fields) {
+    const before = from?.[field] ?? null;
+    const after = to?.[field] ?? null;
+    if (JSON.stringify(before) !== JSON.stringify(after)) {
+      changes.push({ field, from: before, to: after });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Service for recording, comparing and reverting rule versions
+ */
+export class RuleHistoryService {
+  private historyRepository: RuleHistoryRepository;
+
+  constructor(private db: Database) {
+    this.historyRepository = new RuleHistoryRepository(db);
+  }
+
+  /**
+   * Record a change to a rule
+   *
+   * @param before - Rule before the change, null when it was created
+   * @param after - Rule after the change, null when it was deleted
+   */
+  record(
+    ruleType: RuleHistoryType,
+    ruleId: string,
+    action: RuleHistoryAction,
+    before: object | null | undefined,
+    after: object | null | undefined,
+    actor: RuleHistoryActor
+  ): RuleHistoryEntry {
+    return this.historyRepository.record(ruleType, ruleId, action, toRuleSnapshot(before), toRuleSnapshot(after), actor);
+  }
+
+  /**
+   * Get the versions of a rule, newest first
+   */
+  getHistory(ruleType: RuleHistoryType, ruleId: string): RuleHistoryEntry[] {
+    return this.historyRepository.findByRule(ruleType, ruleId);
+  }
+
+  /**
+   * Compare the rule as it was after two versions
+   * Defaults to the latest version against the one before it.
+   *
+   * @returns null when a version does not exist
+   */
+  diffVersions(ruleType: RuleHistoryType, ruleId: string, fromVersion?: number, toVersion?: number): RuleVersionDiff | null {
+    const latest = this.historyRepository.getLatestVersion(ruleType, ruleId);
+    const toNumber = toVersion ?? latest;
+    const fromNumber = fromVersion ?? toNumber - 1;
+
+    const to = this.historyRepository.findVersion(ruleType, ruleId, toNumber);
+    const from = this.historyRepository.findVersion(ruleType, ruleId, fromNumber);
+    if (!to || !from) {
+      return null;
+    }
+    return { from, to, changes: diffRuleSnapshots(from.after, to.after) };
+  }
+
+  /**
+   * Get the rule state stored by a version, decoded into a rule
+   * @throws RuleRevertError if the version does not exist, is a deletion or does not hold a valid rule
+   */
+  private getRevertTarget<T>(
+    ruleType: RuleHistoryType,
+    ruleId: string,
+    version: number,
+    decode: (snapshot: RuleSnapshot) => T
+  ): T {
+    const entry = this.historyRepository.findVersion(ruleType, ruleId, version);
+    if (!entry) {
+      throw new RuleRevertError(`Version ${version} of rule ${ruleId} not found`, 'VERSION_NOT_FOUND');
+    }
+    if (!entry.after) {
+      throw new RuleRevertError(`Version ${version} of rule ${ruleId} is a deletion`, 'VERSION_DELETED');
+    }
+    try {
+      return decode(entry.after);
+    } catch (error) {
+      if (error instanceof InvalidRuleSnapshotError) {
+        throw new RuleRevertError(`Version ${version} of rule ${ruleId} cannot be restored: ${error.message}`, 'INVALID_SNAPSHOT');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Revert a filter rule to the state of a version, recreating it if deleted
+   * Invalidates the rule cache of the affected workers and keeps the dynamic
+   * pattern cache in line with the restored pattern.
+   *
+   * @throws RuleRevertError if the version cannot be restored
+   */
+  revertFilterRule(ruleId: string, version: number, actor: RuleHistoryActor): { rule: FilterRuleWithWorker; entry: RuleHistoryEntry } {
+    const target = this.getRevertTarget('filter', ruleId, version, decodeFilterRuleSnapshot);
+    const ruleRepository = new RuleRepository(this.db);
+    const current = ruleRepository.findById(ruleId);
+
+    const { category, matchType, matchMode, pattern } = target;
+    const duplicate = target.conditions ? null : ruleRepository.findDuplicate({ category, matchType, matchMode, pattern }, target.workerId, target.ruleSetId);
+    if (duplicate && duplicate.id !== ruleId) {
+      throw new RuleRevertError('An identical rule already exists', 'DUPLICATE_RULE');
+    }
+
+    // The revert is recorded in the same transaction so a restored rule is never left unlogged
+    const { rule, entry } = this.db.transaction(() => {
+      const restored = ruleRepository.restore({ ...target, id: ruleId });
+      return { rule: restored, entry: this.record('filter', ruleId, 'revert', current, restored, actor) };
+    })();
+
+    const ruleCache = getRuleCache();
+    if (!current?.workerId || !rule.workerId) {
+      // Global rules are part of every worker's cached rule set
+      ruleCache.invalidateAll();
+    } else {
+      ruleCache.invalidate(current.workerId);
+      ruleCache.invalidate(rule.workerId);
+    }
+
+    const patternCache = getDynamicPatternCache();
+    if (current?.category === 'dynamic') {
+      patternCache.remove(current.pattern);
+    }
+    if (rule.category === 'dynamic') {
+      patternCache.add(rule.pattern);
+    }
+    return { rule, entry };
+  }
+
+  /**
+   * Revert a monitoring rule to the state of a version, recreating it if deleted
+   *
+   * @throws RuleRevertError if the version cannot be restored
+   */
+  revertMonitoringRule(ruleId: string, version: number, actor: RuleHistoryActor): { rule: MonitoringRule; entry: RuleHistoryEntry } {
+    const target = this.getRevertTarget('monitoring', ruleId, version, decodeMonitoringRuleSnapshot);
+    const ruleRepository = new MonitoringRuleRepository(this.db);
+    const current = ruleRepository.getById(ruleId);
+
+    return this.db.transaction(() => {
+      const rule = ruleRepository.restore({ ...target, id: ruleId });
+      return { rule, entry: this.record('monitoring', ruleId, 'revert', current, rule, actor) };
+    })();
+  }
+}
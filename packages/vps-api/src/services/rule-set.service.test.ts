@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import type { WorkerRuleInheritance } from '../db/rule-set-repository.js';
+import { makeRule } from '../test-utils/rule-fixtures.js';
+import { resolveEffectiveRules, ruleAppliesToWorker } from './rule-set.service.js';
+
+function makeInheritance(
+  ruleSetIds: Record<string, string[]> = {},
+  overrides: Record<string, string[]> = {}
+): WorkerRuleInheritance {
+  const toMap = (entries: Record<string, string[]>) =>
+    new Map(Object.entries(entries).map(([workerId, ids]) => [workerId, new Set(ids)]));
+  return { ruleSetIds: toMap(ruleSetIds), overrides: toMap(overrides) };
+}
+
+describe('Rule Sets', () => {
+  const rules = [
+    makeRule('global'),
+    makeRule('shared', { ruleSetId: 'blacklist-set' }),
+    makeRule('other-set', { ruleSetId: 'other' }),
+    makeRule('own', { workerId: 'w1' }),
+    makeRule('foreign', { workerId: 'w2' }),
+  ];
+
+  describe('ruleAppliesToWorker', () => {
+    it('should apply global rules, attached set rules and the worker\'s own rules', () => {
+      const inheritance = makeInheritance({ w1: ['blacklist-set'] });
+
+      const applied = rules.filter((rule) => ruleAppliesToWorker(rule, 'w1', inheritance)).map((rule) => rule.id);
+
+      expect(applied).toEqual(['global', 'shared', 'own']);
+    });
+
+    it('should leave out inherited rules the worker overrides', () => {
+      const inheritance = makeInheritance({ w1: ['blacklist-set'] }, { w1: ['global', 'shared'] });
+
+      const applied = rules.filter((rule) => ruleAppliesToWorker(rule, 'w1', inheritance)).map((rule) => rule.id);
+
+      expect(applied).toEqual(['own']);
+    });
+
+    it('should only let an override affect its own worker', () => {
+      fc.assert(
+        fc.property(fc.subarray(['global', 'shared']), (overridden) => {
+          const inheritance = makeInheritance({ w1: ['blacklist-set'], w2: ['blacklist-set'] }, { w1: overridden });
+          const applied = rules.filter((rule) => ruleAppliesToWorker(rule, 'w2', inheritance)).map((rule) => rule.id);
+          expect(applied).toEqual(['global', 'shared', 'foreign']);
+        }),
+        { numRuns: 20 }
+      );
+    });
+  });
+
+  describe('resolveEffectiveRules', () => {
+    it('should report where each rule comes from and keep overridden rules flagged', () => {
+      const inheritance = makeInheritance({ w1: ['blacklist-set'] }, { w1: ['shared'] });
+
+      const effective = resolveEffectiveRules(rules, 'w1', inheritance, new Map([['blacklist-set', 'Shared blacklist']]));
+
+      expect(effective.map(({ id, source, ruleSetName, overridden }) => ({ id, source, ruleSetName, overridden }))).toEqual([
+        { id: 'global', source: 'global', ruleSetName: undefined, overridden: false },
+        { id: 'shared', source: 'ruleSet', ruleSetName: 'Shared blacklist', overridden: true },
+        { id: 'own', source: 'worker', ruleSetName: undefined, overridden: false },
+      ]);
+    });
+
+    it('should match ruleAppliesToWorker once overridden rules are removed', () => {
+      const workerArb = fc.constantFrom('w1', 'w2');
+      fc.assert(
+        fc.property(
+          workerArb,
+          fc.subarray(['blacklist-set', 'other']),
+          fc.subarray(rules.map((rule) => rule.id)),
+          (workerId, ruleSetIds, overridden) => {
+            const inheritance = makeInheritance({ [workerId]: ruleSetIds }, { [workerId]: overridden });
+            const effective = resolveEffectiveRules(rules, workerId, inheritance, new Map())
+              .filter((rule) => !rule.overridden)
+              .map((rule) => rule.id);
+            expect(effective).toEqual(
+              rules.filter((rule) => ruleAppliesToWorker(rule, workerId, inheritance)).map((rule) => rule.id)
+            );
+          }
+        ),
+        { numRuns: 100 }
+      );
+    });
+  });
+});
@@ -0,0 +1,298 @@
+/**
+ * Rule Set Service
+ *
+ * A rule set is a named group of filter rules that can be attached to any
+ * subset of workers, so rules several workers share are kept once instead of
+ * being copied to each worker. A worker's effective rules are the global rules,
+ * the rules of its attached sets and its own rules; it can override (disable)
+ * any rule it inherits without touching the other workers.
+ */
+
+import type { Database } from 'better-sqlite3';
+import type { RuleHistoryActor } from '../db/rule-history-repository.js';
+import { RuleRepository, type FilterRuleWithWorker } from '../db/rule-repository.js';
+import {
+  RuleSetRepository,
+  type CreateRuleSetInput,
+  type RuleSet,
+  type UpdateRuleSetInput,
+  type WorkerRuleInheritance,
+} from '../db/rule-set-repository.js';
+import { StatsRepository } from '../db/stats-repository.js';
+import { WorkerRepository } from '../db/worker-repository.js';
+import { RuleHistoryService } from './rule-history.service.js';
+import { getRuleCache } from './rule-cache.instance.js';
+
+export type RuleSetErrorCode =
+  | 'NOT_FOUND'
+  | 'DUPLICATE_NAME'
+  | 'WORKER_NOT_FOUND'
+  | 'RULE_NOT_FOUND'
+  | 'NOT_INHERITED';
+
+/**
+ * Error raised when a rule set or an override cannot be changed
+ */
+export class RuleSetError extends Error {
+  constructor(
+    message: string,
+    public code: RuleSetErrorCode
+  ) {
+    super(message);
+    this.name = 'RuleSetError';
+  }
+}
+
+/**
+ * Where a worker gets a rule from
+ */
+export type RuleSource = 'global' | 'ruleSet' | 'worker';
+
+/**
+ * A rule in a worker's effective rules, with where it comes from
+ */
+export interface EffectiveRule extends FilterRuleWithWorker {
+  source: RuleSource;
+  /** Name of the rule set the rule is inherited from */
+  ruleSetName?: string;
+  /** Whether the worker overrides (disables) the inherited rule */
+  overridden: boolean;
+}
+
+/**
+ * Get where a rule comes from, regardless of worker
+ */
+export function getRuleSource(rule: FilterRuleWithWorker): RuleSource {
+  if (rule.workerId) {
+    return 'worker';
+  }
+  return rule.ruleSetId ? 'ruleSet' : 'global';
+}
+
+/**
+ * Check whether a worker inherits a rule: a global rule or a rule of an attached set
+ * Overrides are not taken into account.
+ */
+export function isInheritedBy(rule: FilterRuleWithWorker, workerId: string, inheritance: WorkerRuleInheritance): boolean {
+  if (rule.workerId) {
+    return false;
+  }
+  return !rule.ruleSetId || (inheritance.ruleSetIds.get(workerId)?.has(rule.ruleSetId) ?? false);
+}
+
+/**
+ * Check whether a rule applies to a worker: its own rules plus the inherited
+ * rules it does not override
+ */
+export function ruleAppliesToWorker(rule: FilterRuleWithWorker, workerId: string, inheritance: WorkerRuleInheritance): boolean {
+  if (rule.workerId) {
+    return rule.workerId === workerId;
+  }
+  return isInheritedBy(rule, workerId, inheritance) && !(inheritance.overrides.get(workerId)?.has(rule.id) ?? false);
+}
+
+/**
+ * Resolve a worker's effective rules, keeping the order of the given rules
+ * Overridden rules are included and flagged so the admin UI can show them.
+ *
+ * @param rules - Rules of every scope
+ * @param ruleSetNames - Rule set names by ID
+ */
+export function resolveEffectiveRules(
+  rules: FilterRuleWithWorker[],
+  workerId: string,
+  inheritance: WorkerRuleInheritance,
+  ruleSetNames: Map<string, string>
+): EffectiveRule[] {
+  const overrides = inheritance.overrides.get(workerId);
+  return rules
+    .filter((rule) => rule.workerId === workerId || isInheritedBy(rule, workerId, inheritance))
+    .map((rule) => ({
+      ...rule,
+      source: getRuleSource(rule),
+      ruleSetName: rule.ruleSetId ? ruleSetNames.get(rule.ruleSetId) : undefined,
+      overridden: !rule.workerId && (overrides?.has(rule.id) ?? false),
+    }));
+}
+
+/**
+ * Service for shared rule sets and per-worker overrides
+ */
+export class RuleSetService {
+  private ruleSetRepository: RuleSetRepository;
+
+  constructor(private db: Database) {
+    this.ruleSetRepository = new RuleSetRepository(db);
+  }
+
+  /**
+   * Get all rule sets
+   */
+  listRuleSets(): RuleSet[] {
+    return this.ruleSetRepository.findAll();
+  }
+
+  /**
+   * Get a rule set with its rules
+   * @throws RuleSetError if the rule set does not exist
+   */
+  getRuleSet(id: string): RuleSet & { rules: FilterRuleWithWorker[] } {
+    const ruleSet = this.requireRuleSet(id);
+    return { ...ruleSet, rules: new RuleRepository(this.db).findByRuleSet(id) };
+  }
+
+  private requireRuleSet(id: string): RuleSet {
+    const ruleSet = this.ruleSetRepository.findById(id);
+    if (!ruleSet) {
+      throw new RuleSetError(`Rule set ${id} not found`, 'NOT_FOUND');
+    }
+    return ruleSet;
+  }
+
+  private requireUniqueName(name: string, id?: string): void {
+    const existing = this.ruleSetRepository.findByName(name);
+    if (existing && existing.id !== id) {
+      throw new RuleSetError(`A rule set named ${name} already exists`, 'DUPLICATE_NAME');
+    }
+  }
+
+  private requireWorkers(workerIds: string[]): void {
+    const workerRepository = new WorkerRepository(this.db);
+    const missing = workerIds.find((workerId) => !workerRepository.findById(workerId));
+    if (missing) {
+      throw new RuleSetError(`Worker ${missing} not found`, 'WORKER_NOT_FOUND');
+    }
+  }
+
+  /**
+   * Create a rule set, optionally attached to workers
+   * @throws RuleSetError if the name is taken or a worker does not exist
+   */
+  create(input: CreateRuleSetInput & { workerIds?: string[] }): RuleSet {
+    this.requireUniqueName(input.name);
+    this.requireWorkers(input.workerIds || []);
+
+    const ruleSet = this.db.transaction(() => {
+      const created = this.ruleSetRepository.create(input);
+      if (input.workerIds && input.workerIds.length > 0) {
+        this.ruleSetRepository.setWorkers(created.id, input.workerIds);
+      }
+      return this.ruleSetRepository.findById(created.id)!;
+    })();
+    return ruleSet;
+  }
+
+  /**
+   * Rename a rule set or change its description
+   * @throws RuleSetError if the rule set does not exist or the name is taken
+   */
+  update(id: string, input: UpdateRuleSetInput): RuleSet {
+    this.requireRuleSet(id);
+    if (input.name !== undefined) {
+      this.requireUniqueName(input.name, id);
+    }
+    return this.ruleSetRepository.update(id, input)!;
+  }
+
+  /**
+   * Delete a rule set together with its rules, recording each rule deletion in its history
+   * @throws RuleSetError if the rule set does not exist
+   * @returns The deleted rule set and its rules
+   */
+  delete(id: string, actor: RuleHistoryActor): { ruleSet: RuleSet; rules: FilterRuleWithWorker[] } {
+    const ruleSet = this.requireRuleSet(id);
+    const ruleRepository = new RuleRepository(this.db);
+    const statsRepository = new StatsRepository(this.db);
+    const historyService = new RuleHistoryService(this.db);
+    const rules = ruleRepository.findByRuleSet(id);
+
+    this.db.transaction(() => {
+      for (const rule of rules) {
+        statsRepository.delete(rule.id);
+        ruleRepository.delete(rule.id);
+        historyService.record('filter', rule.id, 'delete', rule, null, actor);
+      }
+      this.ruleSetRepository.delete(id);
+    })();
+
+    ruleSet.workerIds.forEach((workerId) => getRuleCache().invalidate(workerId));
+    return { ruleSet, rules };
+  }
+
+  /**
+   * Attach a rule set to exactly the given workers
+   * @throws RuleSetError if the rule set or a worker does not exist
+   */
+  setWorkers(id: string, workerIds: string[]): RuleSet {
+    const before = this.requireRuleSet(id);
+    const unique = [...new Set(workerIds)];
+    this.requireWorkers(unique);
+
+    this.ruleSetRepository.setWorkers(id, unique);
+
+    const ruleCache = getRuleCache();
+    new Set([...before.workerIds, ...unique]).forEach((workerId) => ruleCache.invalidate(workerId));
+    return this.ruleSetRepository.findById(id)!;
+  }
+
+  /**
+   * Check that a rule set exists, for rules being added to it
+   */
+  exists(id: string): boolean {
+    return this.ruleSetRepository.findById(id) !== null;
+  }
+
+  /**
+   * Invalidate the rule cache of every worker a rule set is attached to
+   */
+  invalidateRuleSetCaches(id: string | undefined): void {
+    if (!id) {
+      return;
+    }
+    const ruleCache = getRuleCache();
+    this.ruleSetRepository.findWorkerIds(id).forEach((workerId) => ruleCache.invalidate(workerId));
+  }
+
+  /**
+   * Get a worker's effective rules with where each one comes from
+   * @throws RuleSetError if the worker does not exist
+   */
+  getEffectiveRules(workerId: string): { ruleSets: RuleSet[]; rules: EffectiveRule[] } {
+    this.requireWorkers([workerId]);
+    const ruleSetNames = new Map(this.ruleSetRepository.findAll().map((ruleSet) => [ruleSet.id, ruleSet.name]));
+    return {
+      ruleSets: this.ruleSetRepository.findByWorker(workerId),
+      rules: resolveEffectiveRules(
+        new RuleRepository(this.db).findAll(),
+        workerId,
+        this.ruleSetRepository.findInheritance(),
+        ruleSetNames
+      ),
+    };
+  }
+
+  /**
+   * Disable or re-enable an inherited rule for one worker
+   * @throws RuleSetError if the worker or rule does not exist, or the worker does not inherit the rule
+   * @returns The rule
+   */
+  setOverride(workerId: string, ruleId: string, overridden: boolean): FilterRuleWithWorker {
+    this.requireWorkers([workerId]);
+    const rule = new RuleRepository(this.db).findById(ruleId);
+    if (!rule) {
+      throw new RuleSetError(`Rule ${ruleId} not found`, 'RULE_NOT_FOUND');
+    }
+
+    if (overridden) {
+      if (!isInheritedBy(rule, workerId, this.ruleSetRepository.findInheritance())) {
+        throw new RuleSetError(`Worker ${workerId} does not inherit rule ${ruleId}`, 'NOT_INHERITED');
+      }
+      this.ruleSetRepository.addOverride(workerId, ruleId);
+    } else {
+      this.ruleSetRepository.removeOverride(workerId, ruleId);
+    }
+
+    getRuleCache().invalidate(workerId);
+    return rule;
+  }
+}
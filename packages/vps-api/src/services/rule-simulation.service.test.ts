@@ -0,0 +1,151 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import type { EmailWebhookPayload } from '@email-filter/shared';
+import {
+  applyRuleChanges,
+  replayRuleChanges,
+  PROPOSED_RULE_ID_PREFIX,
+  type ReplayedEmail,
+  type RuleChangeSet,
+} from './rule-simulation.service.js';
+import { makeRule } from '../test-utils/rule-fixtures.js';
+
+const NOW = new Date('2024-06-01T00:00:00Z');
+const NO_CHANGES: RuleChangeSet = { add: [], update: [], delete: [] };
+
+function email(logId: number, from: string, workerName = 'worker-a', workerId: string | undefined = 'w-a'): ReplayedEmail {
+  const payload: EmailWebhookPayload = {
+    from,
+    to: 'me@example.com',
+    subject: `Message ${logId}`,
+    messageId: `log-${logId}`,
+    timestamp: NOW.getTime(),
+    workerName,
+  };
+  return { logId, createdAt: NOW, workerName, workerId, payload };
+}
+
+describe('Rule Simulation Service', () => {
+  describe('applyRuleChanges', () => {
+    it('should drop deleted rules, patch edited rules and append added rules', () => {
+      const rules = [
+        makeRule('r1', { category: 'blacklist', pattern: 'spam', priority: 0 }),
+        makeRule('r2', { category: 'blacklist', pattern: 'ads', priority: 1 }),
+        makeRule('r3', { category: 'whitelist', pattern: 'boss', forwardTo: ['a@example.com'] }),
+      ];
+      const proposed = applyRuleChanges(rules, {
+        add: [{ category: 'blacklist', matchType: 'subject', matchMode: 'contains', pattern: 'sale' }],
+        update: [{ id: 'r3', pattern: 'ceo', forwardTo: null }],
+        delete: ['r1'],
+      }, NOW);
+
+      expect(proposed.map((r) => r.id)).toEqual(['r2', 'r3', `${PROPOSED_RULE_ID_PREFIX}1`]);
+      expect(proposed[1].pattern).toBe('ceo');
+      expect(proposed[1].forwardTo).toBeUndefined();
+      expect(proposed[2]).toMatchObject({ category: 'blacklist', action: 'drop', mode: 'active', enabled: true, priority: 2 });
+      // The current rules are left untouched
+      expect(rules[2].pattern).toBe('boss');
+    });
+
+    it('should parse schedule dates on added and edited rules', () => {
+      const rules = [makeRule('r1', { category: 'blacklist', pattern: 'spam', activeUntil: NOW })];
+      const proposed = applyRuleChanges(rules, {
+        add: [{ category: 'blacklist', matchType: 'sender', matchMode: 'contains', pattern: 'x', activeFrom: '2024-07-01T00:00:00Z' }],
+        update: [{ id: 'r1', activeUntil: null }],
+        delete: [],
+      }, NOW);
+
+      expect(proposed[0].activeUntil).toBeUndefined();
+      expect(proposed[1].activeFrom).toEqual(new Date('2024-07-01T00:00:00Z'));
+    });
+  });
+
+  describe('replayRuleChanges', () => {
+    it('should report no flips when nothing changes', () => {
+      const rules = [
+        makeRule('r1', { category: 'blacklist', pattern: 'spam' }),
+        makeRule('r2', { category: 'whitelist', pattern: 'boss' }),
+      ];
+      fc.assert(
+        fc.property(fc.array(fc.emailAddress(), { maxLength: 20 }), (senders) => {
+          const emails = senders.map((from, index) => email(index + 1, from));
+          const result = replayRuleChanges(emails, rules, NO_CHANGES);
+          expect(result.totalEmails).toBe(emails.length);
+          expect(result.forwardToDrop).toBe(0);
+          expect(result.dropToForward).toBe(0);
+          expect(result.samples).toEqual([]);
+        }),
+        { numRuns: 50 }
+      );
+    });
+
+    it('should credit forward to drop flips to the rule that now blocks', () => {
+      const emails = [email(1, 'deals@shop.com'), email(2, 'friend@home.com'), email(3, 'promo@shop.com')];
+      const result = replayRuleChanges(emails, [], {
+        add: [{ category: 'blacklist', matchType: 'sender', matchMode: 'endsWith', pattern: '@shop.com' }],
+        update: [],
+        delete: [],
+      });
+
+      expect(result.forwardToDrop).toBe(2);
+      expect(result.dropToForward).toBe(0);
+      expect(result.byRule).toEqual([
+        expect.objectContaining({ ruleId: `${PROPOSED_RULE_ID_PREFIX}1`, changed: true, forwardToDrop: 2, dropToForward: 0 }),
+      ]);
+      expect(result.byWorker).toEqual([{ workerName: 'worker-a', forwardToDrop: 2, dropToForward: 0 }]);
+      expect(result.samples.map((s) => s.logId)).toEqual([1, 3]);
+      expect(result.samples[0].after).toMatchObject({ action: 'drop', ruleId: `${PROPOSED_RULE_ID_PREFIX}1` });
+    });
+
+    it('should credit drop to forward flips to the rule that no longer blocks or the new whitelist', () => {
+      const rules = [
+        makeRule('block-shop', { category: 'blacklist', pattern: '@shop.com' }),
+        makeRule('block-news', { category: 'blacklist', pattern: 'news@' }),
+      ];
+      const emails = [email(1, 'deals@shop.com'), email(2, 'news@paper.com')];
+      const result = replayRuleChanges(emails, rules, {
+        add: [{ category: 'whitelist', matchType: 'sender', matchMode: 'exact', pattern: 'news@paper.com' }],
+        update: [],
+        delete: ['block-shop'],
+      });
+
+      expect(result.dropToForward).toBe(2);
+      const credited = Object.fromEntries(result.byRule.map((r) => [r.ruleId, r.dropToForward]));
+      expect(credited).toEqual({ 'block-shop': 1, [`${PROPOSED_RULE_ID_PREFIX}1`]: 1 });
+    });
+
+    it('should count rejects as drops', () => {
+      const rules = [makeRule('r1', { category: 'blacklist', pattern: 'spam', action: 'reject' })];
+      const result = replayRuleChanges([email(1, 'spam@x.com')], rules, {
+        add: [],
+        update: [{ id: 'r1', action: 'drop' }],
+        delete: [],
+      });
+      expect(result.forwardToDrop + result.dropToForward).toBe(0);
+    });
+
+    it('should only apply a worker\'s own rules and global rules', () => {
+      const emails = [email(1, 'spam@x.com', 'worker-a', 'w-a'), email(2, 'spam@x.com', 'worker-b', 'w-b')];
+      const result = replayRuleChanges(emails, [], {
+        add: [{ category: 'blacklist', matchType: 'sender', matchMode: 'contains', pattern: 'spam', workerId: 'w-b' }],
+        update: [],
+        delete: [],
+      });
+
+      expect(result.forwardToDrop).toBe(1);
+      expect(result.byWorker).toEqual([{ workerName: 'worker-b', forwardToDrop: 1, dropToForward: 0 }]);
+    });
+
+    it('should cap samples but keep counting', () => {
+      const emails = Array.from({ length: 5 }, (_, index) => email(index + 1, 'spam@x.com'));
+      const result = replayRuleChanges(emails, [], {
+        add: [{ category: 'blacklist', matchType: 'sender', matchMode: 'contains', pattern: 'spam' }],
+        update: [],
+        delete: [],
+      }, 2);
+
+      expect(result.forwardToDrop).toBe(5);
+      expect(result.samples).toHaveLength(2);
+    });
+  });
+});
@@ -0,0 +1,376 @@
+/**
+ * Rule Simulation Service
+ * Replays logged emails through filterEmail to preview what a set of rule
+ * changes would do before it is saved
+ *
+ * Logged emails carry sender, recipient, subject and authentication verdicts,
+ * but not forwarded headers, so header conditions never match during replay.
+ */
+
+import type { Database } from 'better-sqlite3';
+import type {
+  CreateRuleDTO,
+  UpdateRuleDTO,
+  EmailWebhookPayload,
+  EmailAuthResults,
+  FilterAction,
+  RuleCategory,
+} from '@email-filter/shared';
+import { filterEmail, type FilterResult } from './filter.service.js';
+import { RuleRepository, type FilterRuleWithWorker } from '../db/rule-repository.js';
+import { LogRepository, type SystemLog } from '../db/log-repository.js';
+import { WorkerRepository } from '../db/worker-repository.js';
+import { RuleSetRepository, type WorkerRuleInheritance } from '../db/rule-set-repository.js';
+import { ruleAppliesToWorker } from './rule-set.service.js';
+
+/** Prefix of the IDs given to proposed (not yet created) rules */
+export const PROPOSED_RULE_ID_PREFIX = 'proposed-';
+
+/** Maximum number of logged emails replayed by one simulation */
+export const MAX_SIMULATION_EMAILS = 50000;
+
+/** Default number of flipped emails returned as samples */
+const DEFAULT_SAMPLE_LIMIT = 100;
+
+/**
+ * Proposed rule additions, edits and deletions
+ */
+export interface RuleChangeSet {
+  add: (CreateRuleDTO & { workerId?: string })[];
+  update: (UpdateRuleDTO & { id: string; workerId?: string | null })[];
+  delete: string[];
+}
+
+/**
+ * A logged email prepared for replay
+ */
+export interface ReplayedEmail {
+  logId: number;
+  createdAt: Date;
+  workerName: string;
+  /** Worker the email was processed for; when unknown every rule applies, as in processPhase1 */
+  workerId?: string;
+  payload: EmailWebhookPayload;
+}
+
+export type FlipDirection = 'forwardToDrop' | 'dropToForward';
+
+/**
+ * Flip counts; rejected emails count as dropped
+ */
+export interface FlipCounts {
+  forwardToDrop: number;
+  dropToForward: number;
+}
+
+/**
+ * Outcome of an email under the current or the proposed rules
+ */
+export interface SimulatedOutcome {
+  action: FilterAction;
+  ruleId?: string;
+  pattern?: string;
+}
+
+/**
+ * An email whose outcome flips between forwarded and dropped
+ */
+export interface SimulationFlip {
+  logId: number;
+  createdAt: Date;
+  workerName: string;
+  from: string;
+  to: string;
+  subject: string;
+  direction: FlipDirection;
+  before: SimulatedOutcome;
+  after: SimulatedOutcome;
+}
+
+export interface RuleFlipSummary extends FlipCounts {
+  ruleId: string;
+  pattern: string;
+  category: RuleCategory;
+  /** Whether the rule is added, edited or deleted by the change set */
+  changed: boolean;
+}
+
+export interface WorkerFlipSummary extends FlipCounts {
+  workerName: string;
+}
+
+/**
+ * Result of a simulation
+ */
+export interface SimulationResult extends FlipCounts {
+  totalEmails: number;
+  /** Whether the time range held more emails than were replayed */
+  truncated: boolean;
+  byRule: RuleFlipSummary[];
+  byWorker: WorkerFlipSummary[];
+  samples: SimulationFlip[];
+}
+
+/**
+ * Apply an update DTO to a rule in memory, the way RuleRepository.update stores it
+ */
+function applyRuleUpdate(
+  rule: FilterRuleWithWorker,
+  dto: UpdateRuleDTO & { workerId?: string | null },
+  now: Date
+): FilterRuleWithWorker {
+  const { activeFrom, activeUntil, workerId, ...fields } = dto;
+  const updated: FilterRuleWithWorker = { ...rule, updatedAt: now };
+
+  // null clears a field, undefined leaves it untouched
+  for (const [key, value] of Object.entries(fields)) {
+    if (value !== undefined) {
+      (updated as unknown as Record<string, unknown>)[key] = value ?? undefined;
+    }
+  }
+  if (activeFrom !== undefined) {
+    updated.activeFrom = activeFrom ? new Date(activeFrom) : undefined;
+  }
+  if (activeUntil !== undefined) {
+    updated.activeUntil = activeUntil ? new Date(activeUntil) : undefined;
+  }
+  if (workerId !== undefined) {
+    updated.workerId = workerId || undefined;
+  }
+  return updated;
+}
+
+/**
+ * Build the proposed rule set from the current rules and a change set
+ * Added rules get PROPOSED_RULE_ID_PREFIX IDs and, without a priority, go last in their category
+ */
+export function applyRuleChanges(
+  rules: FilterRuleWithWorker[],
+  changes: RuleChangeSet,
+  now: Date = new Date()
+): FilterRuleWithWorker[] {
+  const deleted = new Set(changes.delete);
+  const updates = new Map(changes.update.map((update) => [update.id, update]));
+
+  const proposed = rules
+    .filter((rule) => !deleted.has(rule.id))
+    .map((rule) => {
+      const update = updates.get(rule.id);
+      return update ? applyRuleUpdate(rule, update, now) : rule;
+    });
+
+  const nextPriority = new Map<RuleCategory, number>();
+  for (const rule of proposed) {
+    nextPriority.set(rule.category, Math.max(nextPriority.get(rule.category) ?? 0, (rule.priority ?? 0) + 1));
+  }
+
+  changes.add.forEach((dto, index) => {
+    const priority = dto.priority ?? nextPriority.get(dto.category) ?? 0;
+    nextPriority.set(dto.category, Math.max(nextPriority.get(dto.category) ?? 0, priority + 1));
+    proposed.push({
+      id: `${PROPOSED_RULE_ID_PREFIX}${index + 1}`,
+      workerId: dto.workerId,
+      category: dto.category,
+      matchType: dto.matchType,
+      matchMode: dto.matchMode,
+      pattern: dto.pattern,
+      conditions: dto.conditions,
+      exceptions: dto.exceptions,
+      action: dto.action || 'drop',
+      rejectReason: dto.rejectReason,
+      forwardTo: dto.forwardTo,
+      priority,
+      activeFrom: dto.activeFrom ? new Date(dto.activeFrom) : undefined,
+      activeUntil: dto.activeUntil ? new Date(dto.activeUntil) : undefined,
+      timeWindows: dto.timeWindows,
+      timezone: dto.timezone,
+      mode: dto.mode || 'active',
+      tags: dto.tags,
+      enabled: dto.enabled !== undefined ? dto.enabled : true,
+      createdAt: now,
+      updatedAt: now,
+    });
+  });
+
+  return proposed;
+}
+
+/**
+ * Get the rules that apply to a worker: its own rules, global rules and the
+ * rules of its attached rule sets, minus the ones it overrides
+ */
+function rulesForWorker(
+  rules: FilterRuleWithWorker[],
+  workerId: string | undefined,
+  inheritance: WorkerRuleInheritance
+): FilterRuleWithWorker[] {
+  return workerId ? rules.filter((rule) => ruleAppliesToWorker(rule, workerId, inheritance)) : rules;
+}
+
+function toOutcome(result: FilterResult): SimulatedOutcome {
+  return {
+    action: result.action,
+    ruleId: result.matchedRule?.id,
+    pattern: result.matchedRule?.pattern,
+  };
+}
+
+/**
+ * Replay emails through the current and the proposed rules and collect the flips
+ *
+ * Each email is evaluated at its logged time, so rule schedules apply as they would have.
+ * A flip is credited to the rule responsible for the new outcome: the rule that now
+ * blocks or whitelists the email, or otherwise the rule that no longer blocks it.
+ *
+ * @param emails - Logged emails in replay order
+ * @param rules - Current rules (all workers)
+ * @param changes - Proposed changes
+ * @param sampleLimit - Maximum number of flipped emails returned as samples
+ * @param inheritance - Rule sets attached to and rules overridden by each worker
+ */
+export function replayRuleChanges(
+  emails: ReplayedEmail[],
+  rules: FilterRuleWithWorker[],
+  changes: RuleChangeSet,
+  sampleLimit: number = DEFAULT_SAMPLE_LIMIT,
+  inheritance: WorkerRuleInheritance = { ruleSetIds: new Map(), overrides: new Map() }
+): Omit<SimulationResult, 'truncated'> {
+  const proposedRules = applyRuleChanges(rules, changes);
+  const changedRuleIds = new Set([...changes.delete, ...changes.update.map((update) => update.id)]);
+
+  const ruleSets = new Map<string, { current: FilterRuleWithWorker[]; proposed: FilterRuleWithWorker[] }>();
+  const byRule = new Map<string, RuleFlipSummary>();
+  const byWorker = new Map<string, WorkerFlipSummary>();
+  const samples: SimulationFlip[] = [];
+  const counts: FlipCounts = { forwardToDrop: 0, dropToForward: 0 };
+
+  for (const email of emails) {
+    const key = email.workerId || '';
+    let ruleSet = ruleSets.get(key);
+    if (!ruleSet) {
+      ruleSet = {
+        current: rulesForWorker(rules, email.workerId, inheritance),
+        proposed: rulesForWorker(proposedRules, email.workerId, inheritance),
+      };
+      ruleSets.set(key, ruleSet);
+    }
+
+    // Forward destinations are not compared, so no default address is needed
+    const before = filterEmail(email.payload, ruleSet.current, '', [], email.createdAt);
+    const after = filterEmail(email.payload, ruleSet.proposed, '', [], email.createdAt);
+    const wasForwarded = before.action === 'forward';
+    if (wasForwarded === (after.action === 'forward')) {
+      continue;
+    }
+
+    const direction: FlipDirection = wasForwarded ? 'forwardToDrop' : 'dropToForward';
+    counts[direction]++;
+
+    const responsible = after.matchedRule ?? before.matchedRule;
+    if (responsible) {
+      const summary = byRule.get(responsible.id) || {
+        ruleId: responsible.id,
+        pattern: responsible.pattern,
+        category: responsible.category,
+        changed: responsible.id.startsWith(PROPOSED_RULE_ID_PREFIX) || changedRuleIds.has(responsible.id),
+        forwardToDrop: 0,
+        dropToForward: 0,
+      };
+      summary[direction]++;
+      byRule.set(responsible.id, summary);
+    }
+
+    const workerSummary = byWorker.get(email.workerName) || { workerName: email.workerName, forwardToDrop: 0, dropToForward: 0 };
+    workerSummary[direction]++;
+    byWorker.set(email.workerName, workerSummary);
+
+    if (samples.length < sampleLimit) {
+      samples.push({
+        logId: email.logId,
+        createdAt: email.createdAt,
+        workerName: email.workerName,
+        from: email.payload.from,
+        to: email.payload.to,
+        subject: email.payload.subject,
+        direction,
+        before: toOutcome(before),
+        after: toOutcome(after),
+      });
+    }
+  }
+
+  const byTotal = (a: FlipCounts, b: FlipCounts) =>
+    b.forwardToDrop + b.dropToForward - (a.forwardToDrop + a.dropToForward);
+
+  return {
+    totalEmails: emails.length,
+    ...counts,
+    byRule: [...byRule.values()].sort(byTotal),
+    byWorker: [...byWorker.values()].sort(byTotal),
+    samples,
+  };
+}
+
+/**
+ * Turn an email log entry into a replayable email
+ * Returns null for entries without sender, recipient and subject
+ */
+function toReplayedEmail(log: SystemLog, workerIds: Map<string, string>): ReplayedEmail | null {
+  const details = log.details || {};
+  if (typeof details.from !== 'string' || typeof details.to !== 'string' || typeof details.subject !== 'string') {
+    return null;
+  }
+  return {
+    logId: log.id,
+    createdAt: log.createdAt,
+    workerName: log.workerName,
+    workerId: workerIds.get(log.workerName),
+    payload: {
+      from: details.from,
+      to: details.to,
+      subject: details.subject,
+      messageId: `log-${log.id}`,
+      timestamp: log.createdAt.getTime(),
+      workerName: log.workerName,
+      auth: details.auth as EmailAuthResults | undefined,
+    },
+  };
+}
+
+/**
+ * Rule Simulation Service class
+ */
+export class RuleSimulationService {
+  constructor(private db: Database) {}
+
+  /**
+   * Replay the emails logged in a time range against a proposed change set
+   *
+   * @param changes - Proposed rule additions, edits and deletions
+   * @param options - Time range, optional worker name filter and sample limit
+   */
+  simulate(
+    changes: RuleChangeSet,
+    options: { from: Date; to: Date; workerName?: string; sampleLimit?: number }
+  ): SimulationResult {
+    const logs = new LogRepository(this.db).findEmailLogsInRange(
+      options.from,
+      options.to,
+      options.workerName,
+      MAX_SIMULATION_EMAILS + 1
+    );
+    const truncated = logs.length > MAX_SIMULATION_EMAILS;
+
+    const workerIds = new Map(new WorkerRepository(this.db).findAll().map((worker) => [worker.name, worker.id]));
+    const emails = logs
+      .slice(0, MAX_SIMULATION_EMAILS)
+      .map((log) => toReplayedEmail(log, workerIds))
+      .filter((email): email is ReplayedEmail => email !== null);
+
+    const rules = new RuleRepository(this.db).findAll();
+    return {
+      ...replayRuleChanges(emails, rules, changes, options.sampleLimit, new RuleSetRepository(this.db).findInheritance()),
+      truncated,
+    };
+  }
+}
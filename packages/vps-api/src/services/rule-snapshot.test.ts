@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import type { MatchMode, MatchType, MonitoringRule, RuleCategory } from '@email-filter/shared';
+import type { FilterRuleWithWorker } from '../db/rule-repository.js';
+import { toRuleSnapshot } from './rule-history.service.js';
+import { InvalidRuleSnapshotError, decodeFilterRuleSnapshot, decodeMonitoringRuleSnapshot } from './rule-snapshot.js';
+
+const dateArb = fc.date({ min: new Date('2020-01-01T00:00:00.000Z'), max: new Date('2030-01-01T00:00:00.000Z') });
+
+const filterRuleArb: fc.Arbitrary<FilterRuleWithWorker> = fc.record(
+  {
+    id: fc.uuid(),
+    workerId: fc.uuid(),
+    category: fc.constantFrom<RuleCategory>('whitelist', 'blacklist', 'dynamic'),
+    matchType: fc.constantFrom<MatchType>('sender', 'subject', 'domain', 'header'),
+    matchMode: fc.constantFrom<MatchMode>('exact', 'contains', 'regex', 'domainTree'),
+    pattern: fc.string({ maxLength: 30 }),
+    conditions: fc.record({
+      operator: fc.constantFrom<'and' | 'or'>('and', 'or'),
+      conditions: fc.array(fc.record({ matchType: fc.constant<MatchType>('sender'), matchMode: fc.constant<MatchMode>('contains'), pattern: fc.string() }), { minLength: 1, maxLength: 3 }),
+    }),
+    action: fc.constantFrom<'drop' | 'reject'>('drop', 'reject'),
+    forwardTo: fc.array(fc.emailAddress(), { maxLength: 2 }),
+    priority: fc.nat(),
+    activeFrom: dateArb,
+    timeWindows: fc.constant([{ days: [1, 2, 3], start: '09:00', end: '17:00' }]),
+    timezone: fc.constantFrom('UTC', 'Europe/Berlin'),
+    mode: fc.constantFrom<'active' | 'shadow'>('active', 'shadow'),
+    normalize: fc.boolean(),
+    tags: fc.array(fc.string({ maxLength: 10 }), { maxLength: 3 }),
+    enabled: fc.boolean(),
+    createdAt: dateArb,
+    updatedAt: dateArb,
+  },
+  { requiredKeys: ['id', 'category', 'matchType', 'matchMode', 'pattern', 'enabled', 'createdAt', 'updatedAt'] }
+);
+
+const monitoringRule: MonitoringRule = {
+  id: 'm1',
+  merchant: 'shop.example.com',
+  name: 'Order confirmation',
+  subjectPattern: 'Your order',
+  matchMode: 'contains',
+  normalize: false,
+  expectedIntervalMinutes: 60,
+  deadAfterMinutes: 180,
+  tags: ['orders'],
+  workerScope: 'global',
+  enabled: true,
+  createdAt: new Date('2024-06-01T00:00:00.000Z'),
+  updatedAt: new Date('2024-06-02T00:00:00.000Z'),
+};
+
+describe('Rule Snapshot Decoding', () => {
+  describe('decodeFilterRuleSnapshot', () => {
+    it('should decode a stored filter rule back into the same rule', () => {
+      fc.assert(
+        fc.property(filterRuleArb, (rule) => {
+          expect(decodeFilterRuleSnapshot(toRuleSnapshot(rule)!)).toEqual(rule);
+        }),
+        { numRuns: 100 }
+      );
+    });
+
+    it('should treat null fields as absent', () => {
+      const snapshot = { ...toRuleSnapshot(fc.sample(filterRuleArb, 1)[0])!, workerId: null, conditions: null, lastHitAt: null };
+      const rule = decodeFilterRuleSnapshot(snapshot);
+      expect(rule).not.toHaveProperty('workerId');
+      expect(rule).not.toHaveProperty('conditions');
+      expect(rule).not.toHaveProperty('lastHitAt');
+    });
+
+    it('should refuse snapshots with missing or invalid fields', () => {
+      const snapshot = toRuleSnapshot({
+        id: 'r1',
+        category: 'blacklist',
+        matchType: 'sender',
+        matchMode: 'contains',
+        pattern: 'spam',
+        enabled: true,
+        createdAt: '2024-06-01T00:00:00.000Z',
+        updatedAt: '2024-06-01T00:00:00.000Z',
+      })!;
+      expect(() => decodeFilterRuleSnapshot(snapshot)).not.toThrow();
+
+      const invalid = [
+        { pattern: undefined },
+        { category: 'greylist' },
+        { enabled: 'yes' },
+        { createdAt: 'yesterday' },
+        { priority: -1 },
+        { conditions: { operator: 'xor', conditions: [] } },
+        { exceptions: [{ matchType: 'sender', matchMode: 'contains' }] },
+        { timeWindows: [{ days: [9], start: '09:00', end: '17:00' }] },
+        { timezone: 'Mars/Olympus' },
+        { forwardTo: 'a@example.com' },
+      ];
+      for (const change of invalid) {
+        expect(() => decodeFilterRuleSnapshot({ ...snapshot, ...change })).toThrow(InvalidRuleSnapshotError);
+      }
+    });
+  });
+
+  describe('decodeMonitoringRuleSnapshot', () => {
+    it('should decode a stored monitoring rule back into the same rule', () => {
+      expect(decodeMonitoringRuleSnapshot(toRuleSnapshot(monitoringRule)!)).toEqual(monitoringRule);
+    });
+
+    it('should refuse snapshots with missing or invalid fields', () => {
+      const snapshot = toRuleSnapshot(monitoringRule)!;
+      for (const change of [{ merchant: undefined }, { matchMode: 'domainTree' }, { expectedIntervalMinutes: 0 }, { tags: 'orders' }]) {
+        expect(() => decodeMonitoringRuleSnapshot({ ...snapshot, ...change })).toThrow(InvalidRuleSnapshotError);
+      }
+    });
+  });
+});
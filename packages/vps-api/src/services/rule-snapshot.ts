@@ -0,0 +1,162 @@
+/**
+ * Rule Snapshot Decoding
+ *
+ * Rule history versions and published rule set versions store rules as JSON.
+ * Before a stored rule is written back (revert, rollback) it is decoded here:
+ * every field is checked against the rule types and dates are revived, so a
+ * corrupt or outdated snapshot is refused instead of being written as a rule.
+ */
+
+import type {
+  MatchMode,
+  MatchType,
+  MonitoringRule,
+  RuleAction,
+  RuleCategory,
+  RuleConditionGroup,
+  RuleConditionNode,
+  RuleMode,
+  RuleTimeWindow,
+  SubjectMatchMode,
+} from '@email-filter/shared';
+import { isValidTimeWindow, isValidTimeZone } from '@email-filter/shared';
+import type { RuleSnapshot } from '../db/rule-history-repository.js';
+import type { FilterRuleWithWorker } from '../db/rule-repository.js';
+
+const CATEGORIES: RuleCategory[] = ['whitelist', 'blacklist', 'dynamic'];
+const MATCH_TYPES: MatchType[] = ['sender', 'subject', 'domain', 'recipient', 'recipientDomain', 'header', 'spf', 'dkim', 'dmarc'];
+const MATCH_MODES: MatchMode[] = ['exact', 'contains', 'startsWith', 'endsWith', 'regex', 'domainTree'];
+const SUBJECT_MATCH_MODES: SubjectMatchMode[] = ['exact', 'contains', 'startsWith', 'endsWith', 'regex'];
+const ACTIONS: RuleAction[] = ['drop', 'reject'];
+const MODES: RuleMode[] = ['active', 'shadow'];
+
+/**
+ * Thrown when a stored snapshot does not hold a valid rule
+ */
+export class InvalidRuleSnapshotError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidRuleSnapshotError';
+  }
+}
+
+/**
+ * Field readers over a snapshot; JSON null and missing fields both read as absent
+ */
+function reader(snapshot: RuleSnapshot) {
+  const fail = (field: string, expected: string): never => {
+    throw new InvalidRuleSnapshotError(`Rule snapshot field "${field}" must be ${expected}`);
+  };
+  const optional = <T>(field: string, check: (value: unknown) => boolean, expected: string): T | undefined => {
+    const value = snapshot[field];
+    if (value === undefined || value === null) {
+      return undefined;
+    }
+    return check(value) ? (value as T) : fail(field, expected);
+  };
+  const required = <T>(field: string, check: (value: unknown) => boolean, expected: string): T => {
+    const value = optional<T>(field, check, expected);
+    return value === undefined ? fail(field, expected) : value;
+  };
+  const oneOf = <T extends string>(values: T[]) => (value: unknown) => values.includes(value as T);
+  const date = (field: string, value: string | undefined): Date | undefined => {
+    if (value === undefined) {
+      return undefined;
+    }
+    const parsed = new Date(value);
+    return isNaN(parsed.getTime()) ? fail(field, 'an ISO 8601 timestamp') : parsed;
+  };
+  return { required, optional, oneOf, date };
+}
+
+const isString = (value: unknown) => typeof value === 'string';
+const isBoolean = (value: unknown) => typeof value === 'boolean';
+const isStringList = (value: unknown) => Array.isArray(value) && value.every(isString);
+
+/**
+ * Check a condition tree node: a leaf condition or an and/or group of nodes
+ */
+function isConditionNode(value: unknown): boolean {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const node = value as Record<string, unknown>;
+  if ('operator' in node) {
+    return (node.operator === 'and' || node.operator === 'or') &&
+      Array.isArray(node.conditions) && node.conditions.length > 0 && node.conditions.every(isConditionNode);
+  }
+  return MATCH_TYPES.includes(node.matchType as MatchType) &&
+    MATCH_MODES.includes(node.matchMode as MatchMode) &&
+    typeof node.pattern === 'string';
+}
+
+/**
+ * Decode a stored filter rule snapshot
+ * @throws InvalidRuleSnapshotError if a field is missing or has the wrong type
+ */
+export function decodeFilterRuleSnapshot(snapshot: RuleSnapshot): FilterRuleWithWorker {
+  const { required, optional, oneOf, date } = reader(snapshot);
+  const isTimeWindows = (value: unknown) =>
+    Array.isArray(value) && value.every((window) => !!window && typeof window === 'object' && isValidTimeWindow(window as RuleTimeWindow));
+
+  const rule: FilterRuleWithWorker = {
+    id: required<string>('id', isString, 'a string'),
+    category: required<RuleCategory>('category', oneOf(CATEGORIES), `one of: ${CATEGORIES.join(', ')}`),
+    matchType: required<MatchType>('matchType', oneOf(MATCH_TYPES), `one of: ${MATCH_TYPES.join(', ')}`),
+    matchMode: required<MatchMode>('matchMode', oneOf(MATCH_MODES), `one of: ${MATCH_MODES.join(', ')}`),
+    pattern: required<string>('pattern', isString, 'a string'),
+    enabled: required<boolean>('enabled', isBoolean, 'a boolean'),
+    createdAt: date('createdAt', required<string>('createdAt', isString, 'an ISO 8601 timestamp'))!,
+    updatedAt: date('updatedAt', required<string>('updatedAt', isString, 'an ISO 8601 timestamp'))!,
+  };
+
+  const optionalFields: Partial<FilterRuleWithWorker> = {
+    workerId: optional<string>('workerId', isString, 'a string'),
+    ruleSetId: optional<string>('ruleSetId', isString, 'a string'),
+    conditions: optional<RuleConditionGroup>('conditions', (value) => isConditionNode(value) && 'operator' in (value as object), 'a condition group'),
+    exceptions: optional<RuleConditionNode[]>('exceptions', (value) => Array.isArray(value) && value.every(isConditionNode), 'a list of conditions'),
+    action: optional<RuleAction>('action', oneOf(ACTIONS), `one of: ${ACTIONS.join(', ')}`),
+    rejectReason: optional<string>('rejectReason', isString, 'a string'),
+    forwardTo: optional<string[]>('forwardTo', isStringList, 'a list of addresses'),
+    priority: optional<number>('priority', (value) => Number.isInteger(value) && (value as number) >= 0, 'a non-negative integer'),
+    activeFrom: date('activeFrom', optional<string>('activeFrom', isString, 'an ISO 8601 timestamp')),
+    activeUntil: date('activeUntil', optional<string>('activeUntil', isString, 'an ISO 8601 timestamp')),
+    timeWindows: optional<RuleTimeWindow[]>('timeWindows', isTimeWindows, 'a list of time windows'),
+    timezone: optional<string>('timezone', (value) => isString(value) && isValidTimeZone(value as string), 'an IANA timezone'),
+    mode: optional<RuleMode>('mode', oneOf(MODES), `one of: ${MODES.join(', ')}`),
+    normalize: optional<boolean>('normalize', isBoolean, 'a boolean'),
+    tags: optional<string[]>('tags', isStringList, 'a list of strings'),
+    lastHitAt: date('lastHitAt', optional<string>('lastHitAt', isString, 'an ISO 8601 timestamp')),
+  };
+  for (const [field, value] of Object.entries(optionalFields)) {
+    if (value !== undefined) {
+      (rule as unknown as Record<string, unknown>)[field] = value;
+    }
+  }
+  return rule;
+}
+
+/**
+ * Decode a stored monitoring rule snapshot
+ * @throws InvalidRuleSnapshotError if a field is missing or has the wrong type
+ */
+export function decodeMonitoringRuleSnapshot(snapshot: RuleSnapshot): MonitoringRule {
+  const { required, optional, oneOf, date } = reader(snapshot);
+  const isPositiveInteger = (value: unknown) => Number.isInteger(value) && (value as number) > 0;
+
+  return {
+    id: required<string>('id', isString, 'a string'),
+    merchant: required<string>('merchant', isString, 'a string'),
+    name: required<string>('name', isString, 'a string'),
+    subjectPattern: required<string>('subjectPattern', isString, 'a string'),
+    matchMode: optional<SubjectMatchMode>('matchMode', oneOf(SUBJECT_MATCH_MODES), `one of: ${SUBJECT_MATCH_MODES.join(', ')}`) ?? 'contains',
+    normalize: optional<boolean>('normalize', isBoolean, 'a boolean') ?? false,
+    expectedIntervalMinutes: required<number>('expectedIntervalMinutes', isPositiveInteger, 'a positive integer'),
+    deadAfterMinutes: required<number>('deadAfterMinutes', isPositiveInteger, 'a positive integer'),
+    tags: optional<string[]>('tags', isStringList, 'a list of strings') ?? [],
+    workerScope: optional<string>('workerScope', isString, 'a string') ?? 'global',
+    enabled: required<boolean>('enabled', isBoolean, 'a boolean'),
+    createdAt: date('createdAt', required<string>('createdAt', isString, 'an ISO 8601 timestamp'))!,
+    updatedAt: date('updatedAt', required<string>('updatedAt', isString, 'an ISO 8601 timestamp'))!,
+  };
+}
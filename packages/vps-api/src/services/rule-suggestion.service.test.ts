@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import type { FilterRuleWithWorker } from '../db/rule-repository.js';
+import { suggestionKey } from '../db/rule-suggestion-repository.js';
+import { makeRule as makeBaseRule } from '../test-utils/rule-fixtures.js';
+import { rankSuggestions, textSimilarity, type ForwardedEmail } from './rule-suggestion.service.js';
+
+/**
+ * A domain tree rule, the kind accepted suggestions become
+ */
+function makeRule(id: string, overrides: Partial<FilterRuleWithWorker> = {}): FilterRuleWithWorker {
+  return makeBaseRule(id, { matchType: 'domain', matchMode: 'domainTree', ...overrides });
+}
+
+function emails(count: number, from: (i: number) => string, subject: (i: number) => string, workerName = 'w1'): ForwardedEmail[] {
+  return Array.from({ length: count }, (_, i) => ({ from: from(i), subject: subject(i), workerName }));
+}
+
+describe('Rule Suggestions', () => {
+  describe('textSimilarity', () => {
+    it('should be 1 for equal texts and symmetric between 0 and 1', () => {
+      fc.assert(
+        fc.property(fc.string({ maxLength: 20 }), fc.string({ maxLength: 20 }), (left, right) => {
+          const similarity = textSimilarity(left, right);
+          expect(similarity).toBeGreaterThanOrEqual(0);
+          expect(similarity).toBeLessThanOrEqual(1);
+          expect(textSimilarity(right, left)).toBeCloseTo(similarity, 10);
+        }),
+        { numRuns: 200 }
+      );
+      expect(textSimilarity('Weekly Deals', 'weekly deals')).toBe(1);
+      expect(textSimilarity('限时优惠活动', '限时优惠')).toBeGreaterThan(0.5);
+    });
+  });
+
+  describe('rankSuggestions', () => {
+    it('should suggest the sender domain and subject wave of high-volume forwarded mail', () => {
+      const traffic = [
+        ...emails(12, () => 'news@mail.deals.com', (i) => `Weekly deals for you #${1000 + i}`),
+        ...emails(2, () => 'friend@example.org', () => 'Lunch tomorrow?'),
+      ];
+
+      const suggestions = rankSuggestions(traffic, [], [], new Set(), { minCount: 5 });
+
+      expect(suggestions.map(({ matchType, matchMode, pattern }) => ({ matchType, matchMode, pattern }))).toEqual([
+        { matchType: 'domain', matchMode: 'domainTree', pattern: 'deals.com' },
+        { matchType: 'subject', matchMode: 'regex', pattern: expect.stringContaining('deals') },
+      ]);
+      expect(suggestions[0]).toMatchObject({ forwardedCount: 12, concentration: 1, topSource: 'news@mail.deals.com', samples: ['news@mail.deals.com'] });
+      expect(suggestions[1].normalize).toBe(true);
+    });
+
+    it('should rank concentrated senders above the same volume spread over many senders', () => {
+      const traffic = [
+        ...emails(10, () => 'bulk@promo.com', (i) => `Promo ${i}`),
+        ...emails(10, (i) => `user${i}@mailhost.com`, (i) => `Hello ${i}`),
+      ];
+
+      const suggestions = rankSuggestions(traffic, [], [], new Set(), { minCount: 5 });
+
+      expect(suggestions.map((suggestion) => suggestion.pattern)).toEqual(['promo.com', 'mailhost.com']);
+      expect(suggestions[1].concentration).toBe(0.1);
+    });
+
+    it('should rank candidates similar to existing blacklist patterns higher', () => {
+      const traffic = [
+        ...emails(8, () => 'a@casino-win.com', (i) => `A ${i}`),
+        ...emails(8, () => 'b@garden.com', (i) => `B ${i}`),
+      ];
+      const rules = [makeRule('casino.com')];
+
+      const suggestions = rankSuggestions(traffic, [], rules, new Set(), { minCount: 5 });
+
+      expect(suggestions[0]).toMatchObject({ pattern: 'casino-win.com', similarTo: { ruleId: 'casino.com', pattern: 'casino.com' } });
+      expect(suggestions[0].similarity).toBeGreaterThan(0);
+    });
+
+    it('should leave out dismissed candidates and candidates existing rules already cover', () => {
+      const traffic = [
+        ...emails(6, () => 'a@one.com', (i) => `One ${i}`),
+        ...emails(6, () => 'b@sub.two.com', (i) => `Two ${i}`),
+        ...emails(6, () => 'c@three.com', (i) => `Three ${i}`),
+      ];
+      const dismissed = new Set([suggestionKey({ matchType: 'domain', matchMode: 'domainTree', pattern: 'ONE.com' })]);
+      const rules = [
+        makeRule('two.com', { category: 'whitelist' }),
+        makeRule('three', { matchMode: 'contains', enabled: false }),
+      ];
+
+      const patterns = rankSuggestions(traffic, [], rules, dismissed, { minCount: 5 }).map((suggestion) => suggestion.pattern);
+
+      expect(patterns).toEqual(['three.com']);
+    });
+
+    it('should add the subject statistics volume of each candidate', () => {
+      const traffic = emails(5, () => 'x@shop.com', () => 'Flash sale today');
+      const volumes = [
+        { subject: 'Flash sale today', merchantDomain: 'mail.shop.com', workerName: 'w1', emailCount: 40 },
+        { subject: 'Other', merchantDomain: 'shop.com', workerName: 'w1', emailCount: 7 },
+        { subject: 'Flash sale today', merchantDomain: 'elsewhere.com', workerName: 'w2', emailCount: 3 },
+      ];
+
+      const suggestions = rankSuggestions(traffic, volumes, [], new Set(), { minCount: 5 });
+
+      expect(suggestions.find((suggestion) => suggestion.kind === 'senderDomain')?.trackedCount).toBe(47);
+      expect(suggestions.find((suggestion) => suggestion.kind === 'subject')?.trackedCount).toBe(43);
+    });
+  });
+});
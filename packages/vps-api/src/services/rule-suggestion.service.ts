@@ -0,0 +1,499 @@
+/**
+ * Rule Suggestion Service
+ *
+ * Mines blacklist rule candidates from traffic that is still being forwarded:
+ * emails forwarded by default (no rule matched) in the recent system logs are
+ * grouped by sender domain and by subject wave, and each group becomes a
+ * candidate rule. Candidates are ranked by volume, by how concentrated the
+ * volume is on a single sender, and by how similar they are to existing
+ * blacklist patterns. Subject statistics add the total volume seen for each
+ * candidate, blocked emails included.
+ *
+ * Accepting a suggestion creates the blacklist rule; dismissing it hides it for good.
+ */
+
+import type { Database } from 'better-sqlite3';
+import type { FilterRule, MatchMode, MatchType } from '@email-filter/shared';
+import {
+  getRegistrableDomain,
+  matchPattern,
+  matchesDomainTree,
+  normalizeHost,
+  normalizeText,
+} from '@email-filter/shared';
+import type { RuleHistoryActor } from '../db/rule-history-repository.js';
+import { RuleRepository, type FilterRuleWithWorker } from '../db/rule-repository.js';
+import { LogRepository } from '../db/log-repository.js';
+import {
+  RuleSuggestionRepository,
+  suggestionKey,
+  type DismissRuleSuggestionInput,
+  type RuleSuggestionDismissal,
+} from '../db/rule-suggestion-repository.js';
+import { SubjectStatsService } from './subject-stats.service.js';
+import { RuleHistoryService } from './rule-history.service.js';
+import { getRuleCache } from './rule-cache.instance.js';
+import { patternSubsumes } from './rule-analysis.service.js';
+import {
+  MIN_TEMPLATE_LITERAL_LENGTH,
+  buildWavePattern,
+  fingerprintSubject,
+  isNearDuplicate,
+} from './subject-fingerprint.js';
+
+/** Default time window scanned for forwarded emails, in hours */
+export const DEFAULT_SUGGESTION_HOURS = 168;
+
+/** Default minimum number of forwarded emails for a candidate */
+export const DEFAULT_SUGGESTION_MIN_COUNT = 5;
+
+/** Default number of suggestions returned */
+export const DEFAULT_SUGGESTION_LIMIT = 50;
+
+/** Most forwarded emails scanned per request */
+const MAX_SCANNED_EMAILS = 20000;
+
+/** Most subject statistics rows scanned per request */
+const MAX_SCANNED_SUBJECT_ROWS = 2000;
+
+/** Most distinct subject fingerprints clustered, the rest are too rare to matter */
+const MAX_SUBJECT_FINGERPRINTS = 2000;
+
+/** Number of sample senders or subjects listed with a suggestion */
+const SAMPLE_SIZE = 3;
+
+/**
+ * An email forwarded without matching any rule
+ */
+export interface ForwardedEmail {
+  from: string;
+  to?: string;
+  subject: string;
+  workerName: string;
+}
+
+/**
+ * Emails tracked for one subject, sender domain and worker in the subject statistics
+ */
+export interface SubjectVolume {
+  subject: string;
+  merchantDomain: string;
+  workerName: string;
+  emailCount: number;
+}
+
+export type RuleSuggestionKind = 'senderDomain' | 'subject';
+
+/**
+ * A candidate blacklist rule
+ */
+export interface RuleSuggestion {
+  kind: RuleSuggestionKind;
+  matchType: MatchType;
+  matchMode: MatchMode;
+  pattern: string;
+  /** Whether the rule should compare normalized text, as the subject pattern was built from it */
+  normalize: boolean;
+  /** Emails forwarded by default in the window that the rule would have matched */
+  forwardedCount: number;
+  /** Emails the subject statistics tracked for the pattern in the window, blocked ones included */
+  trackedCount: number;
+  /**
+   * Share of the forwarded emails coming from the largest single source:
+   * the top sender address for a domain, the top sender domain for a subject
+   */
+  concentration: number;
+  topSource: string;
+  /** Highest similarity (0 to 1) to an existing blacklist or dynamic pattern */
+  similarity: number;
+  similarTo?: { ruleId: string; pattern: string };
+  score: number;
+  workerBreakdown: { workerName: string; count: number }[];
+  /** A few sender addresses (domain suggestions) or subjects (subject suggestions) */
+  samples: string[];
+}
+
+export interface RuleSuggestionOptions {
+  /** Minimum number of forwarded emails for a candidate */
+  minCount?: number;
+  /** Maximum number of suggestions returned */
+  limit?: number;
+}
+
+export interface AcceptRuleSuggestionInput {
+  matchType: MatchType;
+  matchMode: MatchMode;
+  pattern: string;
+  normalize?: boolean;
+  /** Worker the rule is created for, global when unset */
+  workerId?: string;
+}
+
+/**
+ * Forwarded emails grouped under one candidate pattern
+ */
+interface CandidateGroup {
+  kind: RuleSuggestionKind;
+  matchType: MatchType;
+  matchMode: MatchMode;
+  pattern: string;
+  normalize: boolean;
+  emails: ForwardedEmail[];
+  /** Source each email is attributed to for the concentration */
+  sourceOf: (email: ForwardedEmail) => string;
+  /** Text compared with existing patterns for the similarity */
+  similarityText: string;
+  samples: string[];
+}
+
+function countBy<T>(items: T[], keyOf: (item: T) => string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const item of items) {
+    const key = keyOf(item);
+    counts.set(key, (counts.get(key) || 0) + 1);
+  }
+  return counts;
+}
+
+function topEntries(counts: Map<string, number>): [string, number][] {
+  return [...counts.entries()].sort((a, b) => b[1] - a[1]);
+}
+
+function senderHost(from: string): string {
+  return from.includes('@') ? normalizeHost(from) : '';
+}
+
+function bigrams(text: string): string[] {
+  const normalized = text.toLowerCase().replace(/\s+/g, ' ').trim();
+  if (normalized.length < 2) {
+    return normalized ? [normalized] : [];
+  }
+  return Array.from({ length: normalized.length - 1 }, (_, i) => normalized.slice(i, i + 2));
+}
+
+/**
+ * Similarity of two texts as the Dice coefficient of their character bigrams
+ * Works for spaced and unspaced (CJK) text alike; 1 for equal texts, 0 for nothing in common.
+ */
+export function textSimilarity(left: string, right: string): number {
+  const leftBigrams = bigrams(left);
+  const rightBigrams = bigrams(right);
+  if (leftBigrams.length === 0 || rightBigrams.length === 0) {
+    return 0;
+  }
+  const remaining = countBy(rightBigrams, (bigram) => bigram);
+  let shared = 0;
+  for (const bigram of leftBigrams) {
+    const count = remaining.get(bigram) || 0;
+    if (count > 0) {
+      shared++;
+      remaining.set(bigram, count - 1);
+    }
+  }
+  return (2 * shared) / (leftBigrams.length + rightBigrams.length);
+}
+
+/**
+ * Readable text of a pattern, with regex syntax and placeholders stripped
+ */
+function patternText(pattern: string, matchMode: MatchMode): string {
+  if (matchMode !== 'regex') {
+    return pattern;
+  }
+  return pattern
+    .replace(/\\[dDsSwWbB]|\[[^\]]*\]|\{\d*,?\d*\}/g, ' ')
+    .replace(/\\(.)/g, '$1')
+    .replace(/[()*+?|^$.]/g, ' ');
+}
+
+/**
+ * Registrable domain a domain or address pattern points at, e.g. "shop.com" for "@mail.shop.com"
+ */
+function domainOfPattern(rule: FilterRule): string | null {
+  if (rule.matchType !== 'domain' && rule.matchType !== 'sender') {
+    return null;
+  }
+  if (rule.matchMode !== 'exact' && rule.matchMode !== 'domainTree' && rule.matchMode !== 'endsWith') {
+    return null;
+  }
+  const host = normalizeHost(rule.pattern.replace(/^[.@]/, ''));
+  return getRegistrableDomain(host) ?? (host || null);
+}
+
+/**
+ * Find the existing blocking pattern most similar to a candidate
+ * Domain candidates compare with domain and address patterns: the same
+ * registrable domain is a full match, otherwise the name labels are compared.
+ * Subject candidates compare with subject patterns by text.
+ */
+function findSimilarRule(
+  group: CandidateGroup,
+  blockingRules: FilterRule[]
+): { similarity: number; rule?: FilterRule } {
+  let best: { similarity: number; rule?: FilterRule } = { similarity: 0 };
+  for (const rule of blockingRules) {
+    let similarity = 0;
+    if (group.kind === 'senderDomain') {
+      const domain = domainOfPattern(rule);
+      if (domain) {
+        similarity = domain === group.pattern ? 1 : textSimilarity(domain.split('.')[0], group.pattern.split('.')[0]);
+      }
+    } else if (rule.matchType === 'subject') {
+      similarity = textSimilarity(patternText(rule.pattern, rule.matchMode), group.similarityText);
+    }
+    if (similarity > best.similarity) {
+      best = { similarity, rule };
+    }
+  }
+  return best;
+}
+
+/**
+ * Group forwarded emails by the registrable domain of their sender
+ */
+function groupBySenderDomain(emails: ForwardedEmail[]): CandidateGroup[] {
+  const groups = new Map<string, ForwardedEmail[]>();
+  for (const email of emails) {
+    const host = senderHost(email.from);
+    if (!host) {
+      continue;
+    }
+    const domain = getRegistrableDomain(host) ?? host;
+    groups.set(domain, [...(groups.get(domain) || []), email]);
+  }
+
+  return [...groups.entries()].map(([domain, members]) => {
+    const senders = topEntries(countBy(members, (email) => email.from.toLowerCase()));
+    return {
+      kind: 'senderDomain',
+      matchType: 'domain',
+      // Hosts without a registrable domain (IP addresses, bare suffixes) cannot root a domain tree
+      matchMode: getRegistrableDomain(domain) ? 'domainTree' : 'exact',
+      pattern: domain,
+      normalize: false,
+      emails: members,
+      sourceOf: (email) => email.from.toLowerCase(),
+      similarityText: domain,
+      samples: senders.slice(0, SAMPLE_SIZE).map(([sender]) => sender),
+    };
+  });
+}
+
+/**
+ * Group forwarded emails into subject waves: subjects whose fingerprints are
+ * near-duplicates share a group, covered by a contains or regex pattern
+ * Patterns with too little literal text are left out as too broad, and so are
+ * waves no template covers, whose fallback pattern would only match one subject.
+ */
+function groupBySubjectWave(emails: ForwardedEmail[]): CandidateGroup[] {
+  const byFingerprint = new Map<string, { fingerprint: string; members: { email: ForwardedEmail; subject: string }[] }>();
+  for (const email of emails) {
+    const subject = normalizeText(email.subject).replace(/\s+/g, ' ').trim();
+    if (!subject) {
+      continue;
+    }
+    const fingerprint = fingerprintSubject(subject, email.to);
+    const key = fingerprint.toLowerCase();
+    const entry = byFingerprint.get(key) || { fingerprint, members: [] };
+    entry.members.push({ email, subject });
+    byFingerprint.set(key, entry);
+  }
+
+  // Busiest fingerprints first, each later one joins the first cluster it is a near-duplicate of
+  const clusters: { fingerprint: string; members: { email: ForwardedEmail; subject: string; fingerprint: string }[] }[] = [];
+  const ordered = [...byFingerprint.values()]
+    .sort((a, b) => b.members.length - a.members.length)
+    .slice(0, MAX_SUBJECT_FINGERPRINTS);
+  for (const entry of ordered) {
+    const members = entry.members.map((member) => ({ ...member, fingerprint: entry.fingerprint }));
+    const cluster = clusters.find((candidate) => isNearDuplicate(candidate.fingerprint, entry.fingerprint));
+    if (cluster) {
+      cluster.members.push(...members);
+    } else {
+      clusters.push({ fingerprint: entry.fingerprint, members });
+    }
+  }
+
+  const groups: CandidateGroup[] = [];
+  for (const cluster of clusters) {
+    const wave = buildWavePattern(
+      cluster.members.map((member) => member.subject),
+      cluster.members.map((member) => member.fingerprint)
+    );
+    if (wave.matchMode === 'contains' && (
+      wave.pattern.length < MIN_TEMPLATE_LITERAL_LENGTH
+      || cluster.members.some((member) => member.subject.toLowerCase() !== wave.pattern.toLowerCase())
+    )) {
+      continue;
+    }
+    groups.push({
+      kind: 'subject',
+      matchType: 'subject',
+      matchMode: wave.matchMode,
+      pattern: wave.pattern,
+      normalize: true,
+      emails: cluster.members.map((member) => member.email),
+      sourceOf: (email) => senderHost(email.from) || email.from.toLowerCase(),
+      similarityText: (wave.template ?? wave.pattern).replace(/\{(?:email|token|num|name|any)\}/g, ' '),
+      samples: [...new Set(cluster.members.map((member) => member.subject))].slice(0, SAMPLE_SIZE),
+    });
+  }
+  return groups;
+}
+
+/**
+ * Count the emails the subject statistics tracked for a candidate
+ */
+function trackedCountFor(group: CandidateGroup, volumes: SubjectVolume[]): number {
+  return volumes
+    .filter((volume) => group.kind === 'senderDomain'
+      ? (group.matchMode === 'domainTree' ? matchesDomainTree(volume.merchantDomain, group.pattern) : normalizeHost(volume.merchantDomain) === group.pattern)
+      : matchPattern(volume.subject, group.pattern, group.matchMode, group.normalize))
+    .reduce((sum, volume) => sum + volume.emailCount, 0);
+}
+
+/**
+ * Check whether an existing rule already has, or covers, a candidate pattern
+ */
+function isCoveredByRule(group: CandidateGroup, rules: FilterRuleWithWorker[]): boolean {
+  const key = suggestionKey(group);
+  const candidate = {
+    id: '',
+    category: 'blacklist',
+    matchType: group.matchType,
+    matchMode: group.matchMode,
+    pattern: group.pattern,
+    normalize: group.normalize,
+    enabled: true,
+    createdAt: new Date(0),
+    updatedAt: new Date(0),
+  } as FilterRuleWithWorker;
+  return rules.some((rule) => suggestionKey(rule) === key || (rule.enabled && patternSubsumes(rule, candidate)));
+}
+
+/**
+ * Rank candidate blacklist rules mined from emails forwarded by default
+ *
+ * score = log2(1 + forwarded) × (1 + concentration) × (1 + similarity)
+ *
+ * @param emails - Emails forwarded without matching a rule
+ * @param volumes - Subject statistics rows of the same window
+ * @param rules - Existing rules of every category; candidates they already have or cover are left out
+ * @param dismissed - Suggestion keys (see suggestionKey) of dismissed suggestions
+ */
+export function rankSuggestions(
+  emails: ForwardedEmail[],
+  volumes: SubjectVolume[],
+  rules: FilterRuleWithWorker[],
+  dismissed: Set<string>,
+  options: RuleSuggestionOptions = {}
+): RuleSuggestion[] {
+  const minCount = options.minCount ?? DEFAULT_SUGGESTION_MIN_COUNT;
+  const limit = options.limit ?? DEFAULT_SUGGESTION_LIMIT;
+  const blockingRules = rules.filter((rule) => rule.enabled && rule.category !== 'whitelist' && !rule.conditions);
+
+  const suggestions: RuleSuggestion[] = [];
+  for (const group of [...groupBySenderDomain(emails), ...groupBySubjectWave(emails)]) {
+    if (group.emails.length < minCount || dismissed.has(suggestionKey(group)) || isCoveredByRule(group, rules)) {
+      continue;
+    }
+    const [topSource, topCount] = topEntries(countBy(group.emails, group.sourceOf))[0];
+    const concentration = topCount / group.emails.length;
+    const similar = findSimilarRule(group, blockingRules);
+    const score = Math.log2(1 + group.emails.length) * (1 + concentration) * (1 + similar.similarity);
+
+    suggestions.push({
+      kind: group.kind,
+      matchType: group.matchType,
+      matchMode: group.matchMode,
+      pattern: group.pattern,
+      normalize: group.normalize,
+      forwardedCount: group.emails.length,
+      trackedCount: trackedCountFor(group, volumes),
+      concentration: Math.round(concentration * 100) / 100,
+      topSource,
+      similarity: Math.round(similar.similarity * 100) / 100,
+      similarTo: similar.rule ? { ruleId: similar.rule.id, pattern: similar.rule.pattern } : undefined,
+      score: Math.round(score * 100) / 100,
+      workerBreakdown: topEntries(countBy(group.emails, (email) => email.workerName)).map(([workerName, count]) => ({ workerName, count })),
+      samples: group.samples,
+    });
+  }
+
+  return suggestions.sort((a, b) => b.score - a.score).slice(0, limit);
+}
+
+/**
+ * Service mining, accepting and dismissing rule suggestions
+ */
+export class RuleSuggestionService {
+  constructor(private db: Database) {}
+
+  /**
+   * Get ranked suggestions from the emails forwarded by default in a time window
+   *
+   * @param hours - Time window in hours
+   * @param workerName - Only consider emails of this worker
+   */
+  suggest(
+    hours: number = DEFAULT_SUGGESTION_HOURS,
+    options: RuleSuggestionOptions & { workerName?: string } = {}
+  ): { suggestions: RuleSuggestion[]; scannedEmails: number } {
+    const emails = new LogRepository(this.db).findDefaultForwarded(hours, MAX_SCANNED_EMAILS, options.workerName);
+    const since = new Date(Date.now() - hours * 60 * 60 * 1000).toISOString();
+    const volumes = new SubjectStatsService(this.db).getRecentVolumes(since, MAX_SCANNED_SUBJECT_ROWS, options.workerName);
+    const suggestions = rankSuggestions(
+      emails,
+      volumes,
+      new RuleRepository(this.db).findAll(),
+      new RuleSuggestionRepository(this.db).findKeys(),
+      options
+    );
+    return { suggestions, scannedEmails: emails.length };
+  }
+
+  /**
+   * Accept a suggestion as an enabled blacklist rule
+   * @throws Error('DUPLICATE_RULE') if the rule already exists in the scope
+   */
+  accept(input: AcceptRuleSuggestionInput, actor: RuleHistoryActor): FilterRuleWithWorker {
+    const rule = new RuleRepository(this.db).create(
+      {
+        category: 'blacklist',
+        matchType: input.matchType,
+        matchMode: input.matchMode,
+        pattern: input.pattern,
+        normalize: input.normalize,
+      },
+      input.workerId
+    );
+    new RuleHistoryService(this.db).record('filter', rule.id, 'create', null, rule, actor);
+
+    // A global rule is part of every worker's cached rules
+    const ruleCache = getRuleCache();
+    if (input.workerId) {
+      ruleCache.invalidate(input.workerId);
+    } else {
+      ruleCache.invalidateAll();
+    }
+    return rule;
+  }
+
+  /**
+   * Dismiss a suggestion for good
+   */
+  dismiss(input: DismissRuleSuggestionInput, actor: RuleHistoryActor): RuleSuggestionDismissal {
+    return new RuleSuggestionRepository(this.db).dismiss(input, actor.username);
+  }
+
+  listDismissals(): RuleSuggestionDismissal[] {
+    return new RuleSuggestionRepository(this.db).findAll();
+  }
+
+  /**
+   * Undo a dismissal so the suggestion can come back
+   */
+  restore(id: string): boolean {
+    return new RuleSuggestionRepository(this.db).delete(id);
+  }
+}
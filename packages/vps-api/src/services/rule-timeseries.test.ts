@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { getBucketStart } from '../db/stats-repository.js';
+import { fillTimeseries, TIMESERIES_GRANULARITIES } from './rule-timeseries.js';
+
+describe('Rule Hit Time Series', () => {
+  describe('getBucketStart', () => {
+    it('should truncate timestamps to UTC hours and days', () => {
+      const timestamp = Date.parse('2024-06-01T13:45:12.345Z');
+      expect(getBucketStart(timestamp, 'hour')).toBe('2024-06-01T13:00:00.000Z');
+      expect(getBucketStart(timestamp, 'day')).toBe('2024-06-01T00:00:00.000Z');
+    });
+  });
+
+  describe('fillTimeseries', () => {
+    it('should return one point per bucket with zeros for quiet buckets', () => {
+      const series = fillTimeseries(
+        [{ bucketStart: '2024-06-02T00:00:00.000Z', hits: 4, blocked: 3 }],
+        'day',
+        Date.parse('2024-06-01T08:00:00.000Z'),
+        Date.parse('2024-06-03T08:00:00.000Z')
+      );
+
+      expect(series).toEqual([
+        { bucketStart: '2024-06-01T00:00:00.000Z', hits: 0, blocked: 0 },
+        { bucketStart: '2024-06-02T00:00:00.000Z', hits: 4, blocked: 3 },
+        { bucketStart: '2024-06-03T00:00:00.000Z', hits: 0, blocked: 0 },
+      ]);
+    });
+
+    it('should ignore stored buckets outside the range', () => {
+      const series = fillTimeseries(
+        [{ bucketStart: '2024-06-01T05:00:00.000Z', hits: 2, blocked: 0 }],
+        'hour',
+        Date.parse('2024-06-01T06:10:00.000Z'),
+        Date.parse('2024-06-01T07:10:00.000Z')
+      );
+
+      expect(series.map((point) => point.bucketStart)).toEqual(['2024-06-01T06:00:00.000Z', '2024-06-01T07:00:00.000Z']);
+      expect(series.every((point) => point.hits === 0)).toBe(true);
+    });
+
+    it('should produce consecutive buckets preserving the stored totals', () => {
+      fc.assert(
+        fc.property(
+          fc.constantFrom(...TIMESERIES_GRANULARITIES),
+          fc.integer({ min: 0, max: 4_000_000_000_000 }),
+          fc.integer({ min: 0, max: 72 }),
+          fc.array(fc.tuple(fc.nat(72), fc.nat(50))),
+          (granularity, from, length, stored) => {
+            const size = granularity === 'hour' ? 3_600_000 : 86_400_000;
+            const to = from + length * size;
+            const byBucket = new Map<string, number>();
+            for (const [offset, hits] of stored) {
+              byBucket.set(getBucketStart(from + offset * size, granularity), hits);
+            }
+            const points = [...byBucket].map(([bucketStart, hits]) => ({ bucketStart, hits, blocked: 0 }));
+
+            const series = fillTimeseries(points, granularity, from, to);
+
+            expect(series).toHaveLength(length + 1);
+            series.forEach((point, index) => {
+              expect(Date.parse(point.bucketStart)).toBe(Date.parse(series[0].bucketStart) + index * size);
+              expect(point.hits).toBe(byBucket.get(point.bucketStart) ?? 0);
+            });
+          }
+        ),
+        { numRuns: 100 }
+      );
+    });
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * Rule Hit Time Series
+ *
+ * rule_stats only keeps lifetime counters, so a rule that stopped matching months
+ * ago looks as busy as one hit this morning. Hits are therefore also rolled up
+ * into hourly and daily buckets per rule and worker (rule_hit_rollups) by
+ * StatsRepository; these helpers turn the stored buckets into a dense series
+ * where quiet buckets are zero.
+ */
+
+import {
+  getBucketStart,
+  TIMESERIES_BUCKET_MS,
+  type TimeseriesGranularity,
+  type TimeseriesPoint,
+} from '../db/stats-repository.js';
+
+export const TIMESERIES_GRANULARITIES: TimeseriesGranularity[] = ['hour', 'day'];
+
+/** Longest range that can be requested per granularity, in days */
+export const MAX_TIMESERIES_DAYS: Record<TimeseriesGranularity, number> = {
+  hour: 14,
+  day: 365,
+};
+
+/** Range returned when none is requested, in days */
+export const DEFAULT_TIMESERIES_DAYS: Record<TimeseriesGranularity, number> = {
+  hour: 2,
+  day: 30,
+};
+
+/**
+ * Build a dense series from stored buckets
+ * Every bucket from the one containing `from` to the one containing `to` is
+ * returned once, in order; buckets without a stored row get zero hits.
+ *
+ * @param points - Stored buckets, in any order
+ * @param granularity - Bucket size
+ * @param from - Start of the range (ms)
+ * @param to - End of the range (ms)
+ */
+export function fillTimeseries(
+  points: TimeseriesPoint[],
+  granularity: TimeseriesGranularity,
+  from: number,
+  to: number
+): TimeseriesPoint[] {
+  const byBucket = new Map(points.map((point) => [point.bucketStart, point]));
+  const size = TIMESERIES_BUCKET_MS[granularity];
+  const series: TimeseriesPoint[] = [];
+
+  for (let bucket = new Date(getBucketStart(from, granularity)).getTime(); bucket <= to; bucket += size) {
+    const bucketStart = new Date(bucket).toISOString();
+    const point = byBucket.get(bucketStart);
+    series.push({ bucketStart, hits: point?.hits ?? 0, blocked: point?.blocked ?? 0 });
+  }
+
+  return series;
+}
@@ -0,0 +1,192 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  planImport,
+  parseTransferDocument,
+  serializeTransferDocument,
+  snapshotToDocument,
+  RULE_TRANSFER_VERSION,
+  type RuleTransferDocument,
+  type TransferSnapshot,
+  type TransferFilterRule,
+} from './rule-transfer.service.js';
+
+const EMPTY_SNAPSHOT: TransferSnapshot = {
+  filterRules: [],
+  watchRules: [],
+  monitoringRules: [],
+  ratioMonitors: [],
+  forwardRules: [],
+  otherMonitoringRules: [],
+};
+
+function document(overrides: Partial<RuleTransferDocument> = {}): RuleTransferDocument {
+  return {
+    version: RULE_TRANSFER_VERSION,
+    exportedAt: '2024-06-01T00:00:00.000Z',
+    worker: null,
+    filterRules: [],
+    watchRules: [],
+    monitoringRules: [],
+    ratioMonitors: [],
+    forward: { rules: [] },
+    ...overrides,
+  };
+}
+
+const SPAM_RULE: TransferFilterRule = {
+  category: 'blacklist',
+  matchType: 'sender',
+  matchMode: 'contains',
+  pattern: 'spam',
+  action: 'drop',
+  mode: 'active',
+  enabled: true,
+};
+
+const SIGNUP = { merchant: 'shop', name: 'signup' };
+const ORDER = { merchant: 'shop', name: 'order' };
+
+const MONITORING_RULE = {
+  ...SIGNUP,
+  subjectPattern: 'Welcome',
+  matchMode: 'contains' as const,
+  expectedIntervalMinutes: 60,
+  deadAfterMinutes: 120,
+  enabled: true,
+};
+
+describe('Rule Transfer Service', () => {
+  describe('planImport', () => {
+    it('should create, update and leave unchanged entries by key', () => {
+      const existing: TransferSnapshot = {
+        ...EMPTY_SNAPSHOT,
+        filterRules: [
+          { ...SPAM_RULE, id: 'r1' },
+          { ...SPAM_RULE, id: 'r2', pattern: 'ads', tags: ['promo'] },
+        ],
+        defaultForwardTo: 'old@example.com',
+      };
+      const plan = planImport(document({
+        filterRules: [
+          SPAM_RULE,
+          { ...SPAM_RULE, pattern: 'ads', action: 'reject' },
+          { ...SPAM_RULE, pattern: 'new' },
+        ],
+        forward: { defaultForwardTo: 'new@example.com', rules: [] },
+      }), existing, 'merge');
+
+      expect(plan.conflicts).toEqual([]);
+      expect(plan.changes.map(({ section, action, id }) => [section, action, id])).toEqual([
+        ['filterRules', 'unchanged', 'r1'],
+        ['filterRules', 'update', 'r2'],
+        ['filterRules', 'create', undefined],
+        ['forwardConfig', 'update', undefined],
+      ]);
+      expect(plan.summary.filterRules).toEqual({ create: 1, update: 1, unchanged: 1, delete: 0 });
+    });
+
+    it('should ignore empty and missing optional fields when comparing', () => {
+      const existing: TransferSnapshot = { ...EMPTY_SNAPSHOT, filterRules: [{ ...SPAM_RULE, id: 'r1' }] };
+      const plan = planImport(document({ filterRules: [{ ...SPAM_RULE, tags: [], forwardTo: undefined }] }), existing, 'merge');
+      expect(plan.changes[0].action).toBe('unchanged');
+    });
+
+    it('should only delete missing entries in replace mode', () => {
+      fc.assert(
+        fc.property(fc.uniqueArray(fc.stringMatching(/^[a-z]{1,8}$/), { maxLength: 8 }), fc.boolean(), (patterns, replace) => {
+          const existing: TransferSnapshot = {
+            ...EMPTY_SNAPSHOT,
+            filterRules: patterns.map((pattern, index) => ({ ...SPAM_RULE, pattern, id: `r${index}` })),
+          };
+          const plan = planImport(document(), existing, replace ? 'replace' : 'merge');
+          expect(plan.summary.filterRules.delete).toBe(replace ? patterns.length : 0);
+        }),
+        { numRuns: 50 }
+      );
+    });
+
+    it('should report duplicates and dynamic rules as conflicts', () => {
+      const plan = planImport(document({
+        filterRules: [SPAM_RULE, SPAM_RULE, { ...SPAM_RULE, category: 'dynamic' }],
+      }), EMPTY_SNAPSHOT, 'merge');
+
+      expect(plan.conflicts.map((c) => c.message)).toEqual([
+        'Dynamic rules are generated automatically and cannot be imported',
+        'Duplicate entry in document',
+      ]);
+      expect(plan.summary.filterRules.create).toBe(1);
+    });
+
+    it('should refuse watch rules in a worker scope', () => {
+      const plan = planImport(document({
+        worker: 'worker-a',
+        watchRules: [{ name: 'w', matchType: 'subject', matchMode: 'contains', pattern: 'invoice', enabled: true }],
+      }), EMPTY_SNAPSHOT, 'merge');
+
+      expect(plan.conflicts).toHaveLength(1);
+      expect(plan.conflicts[0].section).toBe('watchRules');
+    });
+
+    it('should resolve ratio monitor references against the document and other scopes', () => {
+      const monitor = {
+        name: 'funnel',
+        tag: 'shop',
+        firstRule: SIGNUP,
+        secondRule: ORDER,
+        thresholdPercent: 50,
+        timeWindow: '24h' as const,
+        enabled: true,
+      };
+
+      const missing = planImport(document({ monitoringRules: [MONITORING_RULE], ratioMonitors: [monitor] }), EMPTY_SNAPSHOT, 'merge');
+      expect(missing.conflicts).toEqual([
+        { section: 'ratioMonitors', key: 'funnel', message: 'Monitoring rule not found: shop / order' },
+      ]);
+
+      const resolved = planImport(
+        document({ monitoringRules: [MONITORING_RULE], ratioMonitors: [monitor] }),
+        { ...EMPTY_SNAPSHOT, otherMonitoringRules: [ORDER] },
+        'merge'
+      );
+      expect(resolved.conflicts).toEqual([]);
+      expect(resolved.summary.ratioMonitors.create).toBe(1);
+    });
+
+    it('should not resolve references to scope rules that replace mode deletes', () => {
+      const monitor = {
+        name: 'funnel',
+        tag: 'shop',
+        firstRule: SIGNUP,
+        secondRule: SIGNUP,
+        thresholdPercent: 50,
+        timeWindow: '1h' as const,
+      };
+      const existing: TransferSnapshot = { ...EMPTY_SNAPSHOT, monitoringRules: [{ ...MONITORING_RULE, id: 'm1' }] };
+
+      expect(planImport(document({ ratioMonitors: [monitor] }), existing, 'merge').conflicts).toEqual([]);
+      expect(planImport(document({ ratioMonitors: [monitor] }), existing, 'replace').conflicts).toHaveLength(1);
+    });
+  });
+
+  describe('documents', () => {
+    it('should round trip through JSON and YAML', () => {
+      const snapshot: TransferSnapshot = {
+        ...EMPTY_SNAPSHOT,
+        filterRules: [{ ...SPAM_RULE, id: 'r1', activeUntil: '2024-12-01T00:00:00.000Z', timeWindows: [{ days: [1, 2], start: '09:00', end: '18:00' }] }],
+        forwardRules: [{ id: 'f1', recipientPattern: 'sales@', matchMode: 'contains', forwardTo: 'team@example.com', enabled: true }],
+        defaultForwardTo: 'me@example.com',
+      };
+      const exported = snapshotToDocument(snapshot, 'worker-a', new Date('2024-06-01T00:00:00Z'));
+      expect(exported.filterRules[0]).not.toHaveProperty('id');
+
+      for (const format of ['json', 'yaml'] as const) {
+        expect(parseTransferDocument(serializeTransferDocument(exported, format))).toEqual(exported);
+      }
+    });
+
+    it('should reject malformed YAML', () => {
+      expect(() => parseTransferDocument('filterRules: [\n  - {')).toThrow();
+    });
+  });
+});
@@ -0,0 +1,656 @@
+/**
+ * Rule Transfer Service
+ * Exports filter rules, watch rules, monitoring rules, ratio monitors and forward
+ * configuration of one scope as a versioned JSON/YAML document, and imports such
+ * documents into another scope or instance
+ *
+ * Documents refer to workers by name and to monitoring rules by merchant and name,
+ * so they can move between instances whose IDs differ.
+ */
+
+import type { Database } from 'better-sqlite3';
+import yaml from 'js-yaml';
+import type {
+  CreateRuleDTO,
+  CreateMonitoringRuleDTO,
+  CreateForwardRuleDTO,
+  MonitoringRule,
+  RatioTimeWindow,
+} from '@email-filter/shared';
+import { RuleRepository } from '../db/rule-repository.js';
+import { WatchRepository, type CreateWatchRuleDTO } from '../db/watch-repository.js';
+import { MonitoringRuleRepository } from '../db/monitoring-rule-repository.js';
+import { RatioMonitorRepository } from '../db/ratio-monitor-repository.js';
+import { ForwardRuleRepository } from '../db/forward-rule-repository.js';
+import { WorkerRepository, type WorkerInstance } from '../db/worker-repository.js';
+import { MonitoringRuleService } from './monitoring/rule.service.js';
+import { RatioMonitorService } from './monitoring/ratio-monitor.service.js';
+import { config } from '../config.js';
+
+/** Current document format version */
+export const RULE_TRANSFER_VERSION = 1;
+
+export type TransferFormat = 'json' | 'yaml';
+export type ImportMode = 'merge' | 'replace';
+export type TransferSection =
+  | 'filterRules'
+  | 'watchRules'
+  | 'monitoringRules'
+  | 'ratioMonitors'
+  | 'forwardRules'
+  | 'forwardConfig';
+export type TransferAction = 'create' | 'update' | 'unchanged' | 'delete';
+
+export const TRANSFER_SECTIONS: TransferSection[] = [
+  'filterRules',
+  'watchRules',
+  'monitoringRules',
+  'ratioMonitors',
+  'forwardRules',
+  'forwardConfig',
+];
+
+/**
+ * Filter rule as stored in a document; priority is not carried over,
+ * imported rules are appended in document order
+ */
+export type TransferFilterRule = Omit<CreateRuleDTO, 'priority'>;
+
+export type TransferWatchRule = CreateWatchRuleDTO & { enabled?: boolean };
+
+/** Monitoring rules take the scope of the document */
+export type TransferMonitoringRule = Omit<CreateMonitoringRuleDTO, 'workerScope'>;
+
+/**
+ * Reference to a monitoring rule by its merchant and name
+ */
+export interface MonitoringRuleRef {
+  merchant: string;
+  name: string;
+}
+
+export interface TransferRatioMonitor {
+  name: string;
+  tag: string;
+  firstRule: MonitoringRuleRef;
+  secondRule: MonitoringRuleRef;
+  steps?: { rule: MonitoringRuleRef; order: number; thresholdPercent: number }[];
+  thresholdPercent: number;
+  timeWindow: RatioTimeWindow;
+  enabled?: boolean;
+}
+
+/** Forward rules take the scope of the document */
+export type TransferForwardRule = Omit<CreateForwardRuleDTO, 'workerId'>;
+
+/**
+ * Portable rule document
+ */
+export interface RuleTransferDocument {
+  version: number;
+  exportedAt: string;
+  /** Worker name, null for the global scope */
+  worker: string | null;
+  filterRules: TransferFilterRule[];
+  /** Watch rules are global and only exported with the global scope */
+  watchRules: TransferWatchRule[];
+  monitoringRules: TransferMonitoringRule[];
+  ratioMonitors: TransferRatioMonitor[];
+  forward: {
+    /** Worker default forward address, or the global forward_config for the global scope */
+    defaultForwardTo?: string;
+    rules: TransferForwardRule[];
+  };
+}
+
+type WithId<T> = T & { id: string };
+
+/**
+ * Current contents of a scope, in document form with database IDs
+ */
+export interface TransferSnapshot {
+  filterRules: WithId<TransferFilterRule>[];
+  watchRules: WithId<TransferWatchRule>[];
+  monitoringRules: WithId<TransferMonitoringRule>[];
+  ratioMonitors: WithId<TransferRatioMonitor>[];
+  forwardRules: WithId<TransferForwardRule>[];
+  defaultForwardTo?: string;
+  /** Monitoring rules of other scopes that ratio monitors may refer to */
+  otherMonitoringRules: MonitoringRuleRef[];
+}
+
+interface ChangeOf<S extends TransferSection, T> {
+  section: S;
+  key: string;
+  action: TransferAction;
+  /** ID of the existing entity for updates and deletes */
+  id?: string;
+  /** Incoming entity for creates and updates */
+  item?: T;
+}
+
+export type TransferChange =
+  | ChangeOf<'filterRules', TransferFilterRule>
+  | ChangeOf<'watchRules', TransferWatchRule>
+  | ChangeOf<'monitoringRules', TransferMonitoringRule>
+  | ChangeOf<'ratioMonitors', TransferRatioMonitor>
+  | ChangeOf<'forwardRules', TransferForwardRule>
+  | ChangeOf<'forwardConfig', string>;
+
+/**
+ * Document entry that cannot be imported
+ */
+export interface TransferConflict {
+  section: TransferSection;
+  key: string;
+  message: string;
+}
+
+export type TransferSummary = Record<TransferSection, Record<TransferAction, number>>;
+
+/**
+ * What an import would do; it is only applied when there are no conflicts
+ */
+export interface ImportPlan {
+  mode: ImportMode;
+  changes: TransferChange[];
+  conflicts: TransferConflict[];
+  summary: TransferSummary;
+}
+
+/**
+ * Drop undefined, null and empty array fields so documents stay small and compare equal
+ */
+function compact<T extends object>(value: T): T {
+  const result: Record<string, unknown> = {};
+  for (const [key, field] of Object.entries(value)) {
+    if (field === undefined || field === null || (Array.isArray(field) && field.length === 0)) {
+      continue;
+    }
+    result[key] = field;
+  }
+  return result as T;
+}
+
+/**
+ * JSON with sorted keys, used to tell updated entries from unchanged ones
+ */
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, field: unknown) => {
+    if (field && typeof field === 'object' && !Array.isArray(field)) {
+      const source = compact(field as Record<string, unknown>);
+      return Object.fromEntries(Object.keys(source).sort().map((key) => [key, source[key]]));
+    }
+    return field;
+  });
+}
+
+export function filterRuleKey(rule: Pick<TransferFilterRule, 'category' | 'matchType' | 'matchMode' | 'pattern'>): string {
+  return `${rule.category}:${rule.matchType}:${rule.matchMode}:${rule.pattern}`;
+}
+
+export function watchRuleKey(rule: Pick<TransferWatchRule, 'matchType' | 'matchMode' | 'pattern'>): string {
+  return `${rule.matchType}:${rule.matchMode}:${rule.pattern}`;
+}
+
+export function monitoringRuleKey(rule: MonitoringRuleRef): string {
+  return `${rule.merchant} / ${rule.name}`;
+}
+
+export function forwardRuleKey(rule: Pick<TransferForwardRule, 'matchMode' | 'recipientPattern'>): string {
+  return `${rule.matchMode}:${rule.recipientPattern}`;
+}
+
+/**
+ * Plan one section: match incoming entries to existing ones by key
+ * In replace mode, existing entries missing from the document are deleted.
+ */
+function planSection<S extends Exclude<TransferSection, 'forwardConfig'>, T extends object>(
+  section: S,
+  incoming: T[],
+  existing: WithId<T>[],
+  keyOf: (item: T) => string,
+  mode: ImportMode,
+  changes: TransferChange[],
+  conflicts: TransferConflict[]
+): void {
+  const existingByKey = new Map(existing.map((item) => [keyOf(item), item]));
+  const seen = new Set<string>();
+
+  for (const item of incoming) {
+    const key = keyOf(item);
+    if (seen.has(key)) {
+      conflicts.push({ section, key, message: 'Duplicate entry in document' });
+      continue;
+    }
+    seen.add(key);
+
+    const current = existingByKey.get(key);
+    if (!current) {
+      changes.push({ section, key, action: 'create', item } as TransferChange);
+      continue;
+    }
+    const { id, ...currentItem } = current;
+    const action: TransferAction = canonicalJson(currentItem) === canonicalJson(item) ? 'unchanged' : 'update';
+    changes.push({ section, key, action, id, item } as TransferChange);
+  }
+
+  if (mode === 'replace') {
+    for (const [key, current] of existingByKey) {
+      if (!seen.has(key)) {
+        changes.push({ section, key, action: 'delete', id: current.id } as TransferChange);
+      }
+    }
+  }
+}
+
+/**
+ * Work out what importing a document into a scope would change
+ *
+ * @param document - Validated document
+ * @param existing - Current contents of the target scope
+ * @param mode - merge keeps entries missing from the document, replace deletes them
+ */
+export function planImport(document: RuleTransferDocument, existing: TransferSnapshot, mode: ImportMode): ImportPlan {
+  const changes: TransferChange[] = [];
+  const conflicts: TransferConflict[] = [];
+
+  const filterRules = document.filterRules.filter((rule) => {
+    if (rule.category === 'dynamic') {
+      conflicts.push({
+        section: 'filterRules',
+        key: filterRuleKey(rule),
+        message: 'Dynamic rules are generated automatically and cannot be imported',
+      });
+      return false;
+    }
+    return true;
+  });
+  planSection('filterRules', filterRules, existing.filterRules, filterRuleKey, mode, changes, conflicts);
+
+  if (document.worker !== null && document.watchRules.length > 0) {
+    for (const rule of document.watchRules) {
+      conflicts.push({ section: 'watchRules', key: watchRuleKey(rule), message: 'Watch rules are global and cannot be imported into a worker' });
+    }
+  } else {
+    planSection('watchRules', document.watchRules, existing.watchRules, watchRuleKey, mode, changes, conflicts);
+  }
+
+  planSection('monitoringRules', document.monitoringRules, existing.monitoringRules, monitoringRuleKey, mode, changes, conflicts);
+
+  // Ratio monitors may refer to monitoring rules kept in this scope or living in another one
+  const availableRules = new Set([
+    ...document.monitoringRules.map(monitoringRuleKey),
+    ...existing.otherMonitoringRules.map(monitoringRuleKey),
+    ...(mode === 'merge' ? existing.monitoringRules.map(monitoringRuleKey) : []),
+  ]);
+  const ratioMonitors = document.ratioMonitors.filter((monitor) => {
+    const refs = [monitor.firstRule, monitor.secondRule, ...(monitor.steps || []).map((step) => step.rule)];
+    const missing = refs.find((ref) => !availableRules.has(monitoringRuleKey(ref)));
+    if (missing) {
+      conflicts.push({ section: 'ratioMonitors', key: monitor.name, message: `Monitoring rule not found: ${monitoringRuleKey(missing)}` });
+      return false;
+    }
+    return true;
+  });
+  planSection('ratioMonitors', ratioMonitors, existing.ratioMonitors, (monitor) => monitor.name, mode, changes, conflicts);
+
+  planSection('forwardRules', document.forward.rules, existing.forwardRules, forwardRuleKey, mode, changes, conflicts);
+
+  const defaultForwardTo = document.forward.defaultForwardTo;
+  if (defaultForwardTo !== undefined) {
+    changes.push({
+      section: 'forwardConfig',
+      key: 'defaultForwardTo',
+      action: defaultForwardTo === (existing.defaultForwardTo ?? '') ? 'unchanged' : 'update',
+      item: defaultForwardTo,
+    });
+  }
+
+  const summary = Object.fromEntries(
+    TRANSFER_SECTIONS.map((section) => [section, { create: 0, update: 0, unchanged: 0, delete: 0 }])
+  ) as TransferSummary;
+  for (const change of changes) {
+    summary[change.section][change.action]++;
+  }
+
+  return { mode, changes, conflicts, summary };
+}
+
+/**
+ * Parse a JSON or YAML document (JSON is valid YAML)
+ * @throws Error if the text is not valid YAML
+ */
+export function parseTransferDocument(text: string): unknown {
+  return yaml.load(text);
+}
+
+/**
+ * Serialize a document in the requested format
+ */
+export function serializeTransferDocument(document: RuleTransferDocument, format: TransferFormat): string {
+  if (format === 'yaml') {
+    return yaml.dump(document, { noRefs: true, lineWidth: -1 });
+  }
+  return JSON.stringify(document, null, 2);
+}
+
+/**
+ * Strip the database IDs from a snapshot to get a document
+ */
+export function snapshotToDocument(snapshot: TransferSnapshot, worker: string | null, now: Date = new Date()): RuleTransferDocument {
+  const withoutId = <T extends object>(item: WithId<T>): T => {
+    const copy: Partial<WithId<T>> = { ...item };
+    delete copy.id;
+    return copy as T;
+  };
+  return {
+    version: RULE_TRANSFER_VERSION,
+    exportedAt: now.toISOString(),
+    worker,
+    filterRules: snapshot.filterRules.map(withoutId),
+    watchRules: snapshot.watchRules.map(withoutId),
+    monitoringRules: snapshot.monitoringRules.map(withoutId),
+    ratioMonitors: snapshot.ratioMonitors.map(withoutId),
+    forward: compact({
+      defaultForwardTo: snapshot.defaultForwardTo,
+      rules: snapshot.forwardRules.map(withoutId),
+    }) as RuleTransferDocument['forward'],
+  };
+}
+
+/**
+ * Rule Transfer Service class
+ */
+export class RuleTransferService {
+  constructor(private db: Database) {}
+
+  /**
+   * Read the current contents of a scope
+   * @param worker - Worker to read, null for the global scope
+   */
+  snapshot(worker: WorkerInstance | null): TransferSnapshot {
+    const scope = worker ? worker.name : 'global';
+
+    // Dynamic rules are generated from traffic and stay with their instance
+    const filterRules = (worker
+      ? new RuleRepository(this.db).findByWorkerId(worker.id)
+      : new RuleRepository(this.db).findGlobal())
+      .filter((rule) => rule.category !== 'dynamic')
+      .sort((a, b) => a.category.localeCompare(b.category) || (a.priority ?? 0) - (b.priority ?? 0))
+      .map((rule) => compact({
+        id: rule.id,
+        category: rule.category,
+        matchType: rule.matchType,
+        matchMode: rule.matchMode,
+        pattern: rule.pattern,
+        conditions: rule.conditions,
+        exceptions: rule.exceptions,
+        action: rule.action,
+        rejectReason: rule.rejectReason,
+        forwardTo: rule.forwardTo,
+        activeFrom: rule.activeFrom?.toISOString(),
+        activeUntil: rule.activeUntil?.toISOString(),
+        timeWindows: rule.timeWindows,
+        timezone: rule.timezone,
+        mode: rule.mode,
+        normalize: rule.normalize || undefined,
+        tags: rule.tags,
+        enabled: rule.enabled,
+      }));
+
+    const watchRules = worker
+      ? []
+      : new WatchRepository(this.db).findAllWithStats().map((rule) => compact({
+          id: rule.id,
+          name: rule.name,
+          matchType: rule.matchType,
+          matchMode: rule.matchMode,
+          pattern: rule.pattern,
+          normalize: rule.normalize || undefined,
+          enabled: rule.enabled,
+        }));
+
+    const allMonitoringRules = new MonitoringRuleRepository(this.db).getAll();
+    const refsById = new Map<string, MonitoringRuleRef>(
+      allMonitoringRules.map((rule) => [rule.id, { merchant: rule.merchant, name: rule.name }])
+    );
+    const monitoringRules = allMonitoringRules
+      .filter((rule) => rule.workerScope === scope)
+      .map((rule: MonitoringRule) => compact({
+        id: rule.id,
+        merchant: rule.merchant,
+        name: rule.name,
+        subjectPattern: rule.subjectPattern,
+        matchMode: rule.matchMode,
+        normalize: rule.normalize || undefined,
+        expectedIntervalMinutes: rule.expectedIntervalMinutes,
+        deadAfterMinutes: rule.deadAfterMinutes,
+        tags: rule.tags,
+        enabled: rule.enabled,
+      }));
+
+    // Monitors whose rules were deleted cannot be described portably
+    const ratioMonitors: WithId<TransferRatioMonitor>[] = [];
+    for (const monitor of new RatioMonitorRepository(this.db).getAll({ workerScope: scope })) {
+      const firstRule = refsById.get(monitor.firstRuleId);
+      const secondRule = refsById.get(monitor.secondRuleId);
+      const steps = monitor.steps.map((step) => ({ rule: refsById.get(step.ruleId), order: step.order, thresholdPercent: step.thresholdPercent }));
+      if (!firstRule || !secondRule || steps.some((step) => !step.rule)) {
+        continue;
+      }
+      ratioMonitors.push(compact({
+        id: monitor.id,
+        name: monitor.name,
+        tag: monitor.tag,
+        firstRule,
+        secondRule,
+        steps: steps as TransferRatioMonitor['steps'],
+        thresholdPercent: monitor.thresholdPercent,
+        timeWindow: monitor.timeWindow,
+        enabled: monitor.enabled,
+      }));
+    }
+
+    const forwardRules = new ForwardRuleRepository(this.db).findAll(worker ? worker.id : null).map((rule) => ({
+      id: rule.id,
+      recipientPattern: rule.recipientPattern,
+      matchMode: rule.matchMode,
+      forwardTo: rule.forwardTo,
+      enabled: rule.enabled,
+    }));
+
+    return {
+      filterRules,
+      watchRules,
+      monitoringRules,
+      ratioMonitors,
+      forwardRules,
+      defaultForwardTo: worker ? worker.defaultForwardTo : this.getGlobalDefaultForwardTo(),
+      otherMonitoringRules: allMonitoringRules
+        .filter((rule) => rule.workerScope !== scope)
+        .map((rule) => ({ merchant: rule.merchant, name: rule.name })),
+    };
+  }
+
+  /**
+   * Export a scope as a document
+   * @param worker - Worker to export, null for the global scope
+   */
+  exportDocument(worker: WorkerInstance | null): RuleTransferDocument {
+    return snapshotToDocument(this.snapshot(worker), worker ? worker.name : null);
+  }
+
+  /**
+   * Plan an import into a scope without changing anything
+   * @param worker - Target worker, null for the global scope
+   */
+  plan(document: RuleTransferDocument, worker: WorkerInstance | null, mode: ImportMode): ImportPlan {
+    return planImport({ ...document, worker: worker ? worker.name : null }, this.snapshot(worker), mode);
+  }
+
+  /**
+   * Apply a conflict-free plan in a single transaction
+   * @param worker - Target worker, null for the global scope
+   * @throws Error if the plan has conflicts
+   */
+  apply(plan: ImportPlan, worker: WorkerInstance | null): void {
+    if (plan.conflicts.length > 0) {
+      throw new Error('IMPORT_CONFLICTS');
+    }
+
+    const scope = worker ? worker.name : 'global';
+    const ruleRepository = new RuleRepository(this.db);
+    const watchRepository = new WatchRepository(this.db);
+    const monitoringRuleRepository = new MonitoringRuleRepository(this.db);
+    const monitoringRuleService = new MonitoringRuleService(monitoringRuleRepository);
+    const ratioMonitorService = new RatioMonitorService(this.db);
+    const forwardRuleRepository = new ForwardRuleRepository(this.db);
+
+    this.db.transaction(() => {
+      // Monitors go first so no monitor is left pointing at a deleted rule
+      const deletes = [...plan.changes]
+        .filter((change) => change.action === 'delete')
+        .sort((a, b) => (a.section === 'ratioMonitors' ? 0 : 1) - (b.section === 'ratioMonitors' ? 0 : 1));
+      for (const change of deletes) {
+        const id = change.id as string;
+        switch (change.section) {
+          case 'filterRules': ruleRepository.delete(id); break;
+          case 'watchRules': watchRepository.delete(id); break;
+          case 'monitoringRules': monitoringRuleService.deleteRule(id); break;
+          case 'ratioMonitors': ratioMonitorService.delete(id); break;
+          case 'forwardRules': forwardRuleRepository.delete(id); break;
+        }
+      }
+
+      const writes = plan.changes.filter((change) => change.action === 'create' || change.action === 'update');
+      for (const change of writes) {
+        if (change.section === 'filterRules' && change.item) {
+          const rule = change.item;
+          if (change.action === 'create') {
+            ruleRepository.create(rule, worker?.id);
+          } else {
+            ruleRepository.update(change.id as string, {
+              conditions: rule.conditions ?? null,
+              exceptions: rule.exceptions ?? null,
+              action: rule.action ?? 'drop',
+              rejectReason: rule.rejectReason ?? null,
+              forwardTo: rule.forwardTo ?? null,
+              activeFrom: rule.activeFrom ?? null,
+              activeUntil: rule.activeUntil ?? null,
+              timeWindows: rule.timeWindows ?? null,
+              timezone: rule.timezone ?? null,
+              mode: rule.mode ?? 'active',
+              normalize: rule.normalize ?? false,
+              tags: rule.tags ?? [],
+              enabled: rule.enabled ?? true,
+            });
+          }
+        }
+      }
+
+      for (const change of writes) {
+        if (change.section === 'watchRules' && change.item) {
+          const rule = change.item;
+          if (change.action === 'create') {
+            const created = watchRepository.create(rule);
+            if (rule.enabled === false) {
+              watchRepository.toggleEnabled(created.id);
+            }
+          } else {
+            watchRepository.update(change.id as string, {
+              name: rule.name,
+              enabled: rule.enabled ?? true,
+              normalize: rule.normalize ?? false,
+            });
+          }
+        }
+      }
+
+      for (const change of writes) {
+        if (change.section === 'monitoringRules' && change.item) {
+          const rule = change.item;
+          if (change.action === 'create') {
+            monitoringRuleService.createRule({ ...rule, workerScope: scope });
+          } else {
+            monitoringRuleService.updateRule(change.id as string, {
+              ...rule,
+              normalize: rule.normalize ?? false,
+              tags: rule.tags ?? [],
+              enabled: rule.enabled ?? true,
+            });
+          }
+        }
+      }
+
+      // Resolve monitor references once the monitoring rules are in place,
+      // preferring rules of the target scope over global and other scopes
+      const rank = (rule: MonitoringRule) => (rule.workerScope === scope ? 0 : rule.workerScope === 'global' ? 1 : 2);
+      const ruleIdsByKey = new Map<string, string>();
+      for (const rule of monitoringRuleRepository.getAll().sort((a, b) => rank(b) - rank(a))) {
+        ruleIdsByKey.set(monitoringRuleKey(rule), rule.id);
+      }
+      const resolve = (ref: MonitoringRuleRef) => ruleIdsByKey.get(monitoringRuleKey(ref)) as string;
+
+      for (const change of writes) {
+        if (change.section === 'ratioMonitors' && change.item) {
+          const monitor = change.item;
+          const dto = {
+            name: monitor.name,
+            tag: monitor.tag,
+            firstRuleId: resolve(monitor.firstRule),
+            secondRuleId: resolve(monitor.secondRule),
+            steps: (monitor.steps || []).map((step) => ({
+              ruleId: resolve(step.rule),
+              order: step.order,
+              thresholdPercent: step.thresholdPercent,
+            })),
+            thresholdPercent: monitor.thresholdPercent,
+            timeWindow: monitor.timeWindow,
+            enabled: monitor.enabled ?? true,
+          };
+          if (change.action === 'create') {
+            ratioMonitorService.create({ ...dto, workerScope: scope });
+          } else {
+            ratioMonitorService.update(change.id as string, dto);
+          }
+        }
+      }
+
+      for (const change of writes) {
+        if (change.section === 'forwardRules' && change.item) {
+          const rule = change.item;
+          if (change.action === 'create') {
+            forwardRuleRepository.create({ ...rule, workerId: worker?.id });
+          } else {
+            forwardRuleRepository.update(change.id as string, { forwardTo: rule.forwardTo, enabled: rule.enabled ?? true });
+          }
+        }
+        if (change.section === 'forwardConfig' && change.item !== undefined) {
+          if (worker) {
+            new WorkerRepository(this.db).update(worker.id, { defaultForwardTo: change.item });
+          } else {
+            this.setGlobalDefaultForwardTo(change.item);
+          }
+        }
+      }
+    })();
+  }
+
+  private getGlobalDefaultForwardTo(): string {
+    const row = this.db.prepare('SELECT default_forward_to FROM forward_config WHERE id = 1').get() as
+      | { default_forward_to: string }
+      | undefined;
+    return row ? row.default_forward_to : config.defaultForwardTo;
+  }
+
+  private setGlobalDefaultForwardTo(defaultForwardTo: string): void {
+    this.db.prepare(`
+      INSERT INTO forward_config (id, default_forward_to, updated_at)
+      VALUES (1, ?, ?)
+      ON CONFLICT(id) DO UPDATE SET
+        default_forward_to = excluded.default_forward_to,
+        updated_at = excluded.updated_at
+    `).run(defaultForwardTo, new Date().toISOString());
+  }
+}
@@ -0,0 +1,218 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import type { MatchMode, MatchType, EmailWebhookPayload } from '@email-filter/shared';
+import { sieveToRules, rulesToSieve, SieveSyntaxError } from './sieve-converter.js';
+import { filterEmail } from './filter.service.js';
+import { makeRule } from '../test-utils/rule-fixtures.js';
+
+const NOW = new Date('2024-06-01T00:00:00Z');
+
+describe('Sieve Converter', () => {
+  describe('sieveToRules', () => {
+    it('should convert the supported tests and actions', () => {
+      const { rules, issues } = sieveToRules(`
+        require ["regex", "reject"];
+        # Newsletters
+        if address :domain :is "from" "news.example.com" { discard; stop; }
+        if header :contains "subject" "invoice" { redirect "billing@example.com"; }
+        if address :matches "from" "*@partner.com" { keep; }
+        if header :regex "List-Id" "^promo" { reject "No promotions"; }
+      `);
+
+      // The discard-and-stop on line 4 runs before the deliveries on lines 5 and 6
+      expect(issues.map((issue) => issue.line)).toEqual([5, 6, 7]);
+      expect(issues[2]).toEqual({ line: 7, message: 'Header rules on "list-id" only match when the worker forwards that header' });
+      expect(rules).toEqual([
+        { category: 'blacklist', action: 'drop', matchType: 'domain', matchMode: 'exact', pattern: 'news.example.com', conditions: undefined },
+        { category: 'whitelist', forwardTo: ['billing@example.com'], matchType: 'subject', matchMode: 'contains', pattern: 'invoice', conditions: undefined },
+        { category: 'whitelist', forwardTo: undefined, matchType: 'sender', matchMode: 'endsWith', pattern: '@partner.com', conditions: undefined },
+        { category: 'blacklist', action: 'reject', rejectReason: 'No promotions', matchType: 'header', matchMode: 'regex', pattern: 'list-id: ^promo', conditions: undefined },
+      ]);
+    });
+
+    it('should turn anyof/allof and key lists into condition groups', () => {
+      const { rules } = sieveToRules(`
+        if allof (address :is "to" "sales@me.com", header :contains "subject" ["quote", "offer"]) { discard; }
+      `);
+
+      expect(rules[0].conditions).toEqual({
+        operator: 'and',
+        conditions: [
+          { matchType: 'recipient', matchMode: 'exact', pattern: 'sales@me.com' },
+          {
+            operator: 'or',
+            conditions: [
+              { matchType: 'subject', matchMode: 'contains', pattern: 'quote' },
+              { matchType: 'subject', matchMode: 'contains', pattern: 'offer' },
+            ],
+          },
+        ],
+      });
+      expect(rules[0]).toMatchObject({ matchType: 'recipient', matchMode: 'exact', pattern: 'sales@me.com' });
+    });
+
+    it('should convert globs that are not a plain prefix, suffix or infix to anchored regexes', () => {
+      const { rules } = sieveToRules('if header :matches "subject" "Order ?* shipped." { keep; }');
+      expect(rules[0]).toMatchObject({ matchMode: 'regex', pattern: '^Order ..* shipped\\.$' });
+    });
+
+    it('should report unsupported constructs with their line and keep going', () => {
+      const { rules, issues } = sieveToRules([
+        'require "fileinto";',
+        'if header :contains "subject" "x" { fileinto "Junk"; }',
+        'if not address :is "from" "a@b.com" { discard; }',
+        'if size :over 100K { discard; }',
+        'if address :is "cc" "a@b.com" { discard; }',
+        'if header :contains "subject" "y" { discard; keep; }',
+        'if header :contains "subject" "ok" { keep; }',
+        'else { discard; }',
+      ].join('\n'));
+
+      expect(issues.map((issue) => issue.line)).toEqual([2, 3, 4, 5, 6, 8]);
+      expect(issues[0].message).toBe('Unsupported action "fileinto"');
+      expect(rules).toHaveLength(1);
+    });
+
+    it('should report elsif chains and block-then-keep order the rules cannot preserve', () => {
+      const { rules, issues } = sieveToRules([
+        'if header :contains "subject" "sale" { discard; }',
+        'elsif address :is "from" "boss@shop.com" { keep; }',
+        'if address :domain :is "from" "spam.com" { discard; stop; }',
+        'if header :contains "subject" "invoice" { keep; }',
+        'if size :over 100K { discard; }',
+        'elsif header :contains "subject" "news" { discard; }',
+      ].join('\n'));
+
+      expect(rules).toHaveLength(5);
+      expect(issues.map((issue) => issue.line)).toEqual([2, 4, 5, 6]);
+      expect(issues[0].message).toContain('line 1');
+      expect(issues[1].message).toContain('line 3');
+      expect(issues[3].message).toContain('skipped branch on line 5');
+    });
+
+    it('should not report order the rules preserve', () => {
+      const { issues } = sieveToRules([
+        'if address :is "from" "boss@shop.com" { keep; stop; }',
+        'elsif header :contains "subject" "sale" { discard; }',
+        'if header :contains "subject" "promo" { discard; }',
+        'if header :contains "subject" "invoice" { keep; }',
+      ].join('\n'));
+
+      expect(issues).toEqual([]);
+    });
+
+    it('should parse comments, escapes and multi-line strings', () => {
+      const { rules } = sieveToRules([
+        '/* block',
+        '   comment */',
+        'if header :is "subject" "say \\"hi\\"" {',
+        '  reject text:',
+        'Go away',
+        '..dot',
+        '.',
+        ';',
+        '}',
+      ].join('\n'));
+
+      expect(rules[0]).toMatchObject({ pattern: 'say "hi"', rejectReason: 'Go away\n.dot' });
+    });
+
+    it('should throw syntax errors with the line number', () => {
+      expect(() => sieveToRules('if header :is "subject" "x" {\n  discard;\n')).toThrow(SieveSyntaxError);
+      try {
+        sieveToRules('if header :is "subject" "x" discard;');
+      } catch (error) {
+        expect((error as SieveSyntaxError).line).toBe(1);
+      }
+    });
+  });
+
+  describe('rulesToSieve', () => {
+    it('should put whitelist rules first and require the extensions used', () => {
+      const { script, skipped } = rulesToSieve([
+        makeRule('b1', { category: 'blacklist', matchType: 'subject', matchMode: 'regex', pattern: 'win.*prize', action: 'reject' }),
+        makeRule('w1', { category: 'whitelist', matchType: 'domain', matchMode: 'exact', pattern: 'boss.com', forwardTo: ['a@x.com'] }),
+        makeRule('s1', { category: 'blacklist', matchType: 'sender', matchMode: 'contains', pattern: 'x', mode: 'shadow' }),
+        makeRule('a1', { category: 'blacklist', matchType: 'spf', matchMode: 'exact', pattern: 'fail' }),
+      ], NOW);
+
+      expect(script).toContain('require ["regex", "reject"];');
+      expect(script.indexOf('# whitelist w1')).toBeLessThan(script.indexOf('# blacklist b1'));
+      expect(script).toContain('if address :domain :is "from" "boss.com" {\n  redirect "a@x.com";\n  stop;\n}');
+      expect(script).toContain('reject "Message rejected by recipient policy";');
+      expect(skipped.map((s) => s.ruleId)).toEqual(['s1', 'a1']);
+      expect(script).toContain('# Skipped s1: Shadow rules do not change delivery');
+    });
+
+    it('should express exceptions with not', () => {
+      const { script } = rulesToSieve([
+        makeRule('b1', {
+          category: 'blacklist',
+          matchType: 'domain',
+          matchMode: 'exact',
+          pattern: 'shop.com',
+          exceptions: [{ matchType: 'subject', matchMode: 'contains', pattern: 'receipt' }],
+        }),
+      ], NOW);
+      expect(script).toContain('if allof(address :domain :is "from" "shop.com", not header :contains "subject" "receipt") {');
+    });
+
+    it('should round trip rules into equivalent rules', () => {
+      const matchTypeArb = fc.constantFrom<MatchType>('sender', 'subject', 'domain', 'recipient', 'recipientDomain');
+      const matchModeArb = fc.constantFrom<MatchMode>('exact', 'contains', 'startsWith', 'endsWith');
+      const patternArb = fc.string({ minLength: 1, maxLength: 20 }).filter((s) => !s.includes('\n'));
+
+      fc.assert(
+        fc.property(fc.constantFrom('whitelist', 'blacklist') as fc.Arbitrary<'whitelist' | 'blacklist'>, matchTypeArb, matchModeArb, patternArb, (category, matchType, matchMode, pattern) => {
+          const { script } = rulesToSieve([makeRule('r1', { category, matchType, matchMode, pattern })], NOW);
+          const { rules, issues } = sieveToRules(script);
+          expect(issues).toEqual([]);
+          expect(rules).toHaveLength(1);
+          expect(rules[0]).toMatchObject({ category, matchType, pattern });
+        }),
+        { numRuns: 100 }
+      );
+    });
+
+    it('should keep the filtering decision through a round trip', () => {
+      const rules = [
+        makeRule('w1', { category: 'whitelist', matchType: 'sender', matchMode: 'startsWith', pattern: 'boss@' }),
+        makeRule('b1', { category: 'blacklist', matchType: 'subject', matchMode: 'contains', pattern: 'sale' }),
+        makeRule('b2', { category: 'blacklist', matchType: 'domain', matchMode: 'endsWith', pattern: '.ru' }),
+      ];
+      const imported = sieveToRules(rulesToSieve(rules, NOW).script).rules.map((dto, index) =>
+        makeRule(`i${index}`, dto)
+      );
+
+      const payloadArb: fc.Arbitrary<EmailWebhookPayload> = fc.record({
+        from: fc.constantFrom('boss@corp.com', 'ads@spam.ru', 'friend@home.com'),
+        to: fc.constant('me@example.com'),
+        subject: fc.constantFrom('Big sale', 'Hello', 'sale at boss'),
+        messageId: fc.constant('m1'),
+        timestamp: fc.constant(0),
+      });
+      fc.assert(
+        fc.property(payloadArb, (payload) => {
+          expect(filterEmail(payload, imported, '').action).toBe(filterEmail(payload, rules, '').action);
+        }),
+        { numRuns: 50 }
+      );
+    });
+
+    it('should export domain trees as the domain or any subdomain of it', () => {
+      const tree = makeRule('t1', { category: 'blacklist', matchType: 'domain', matchMode: 'domainTree', pattern: 'shop.com' });
+      const { script, skipped } = rulesToSieve([
+        tree,
+        makeRule('t2', { category: 'blacklist', matchType: 'subject', matchMode: 'domainTree', pattern: 'shop.com' }),
+      ], NOW);
+      expect(script).toContain('if anyof(address :domain :is "from" "shop.com", address :domain :matches "from" "*.shop.com") {');
+      expect(skipped.map((entry) => entry.ruleId)).toEqual(['t2']);
+
+      const imported = sieveToRules(script).rules.map((dto, index) => makeRule(`i${index}`, dto));
+      for (const from of ['a@shop.com', 'a@mail.shop.com', 'a@evilshop.com']) {
+        const payload = { from, to: 'me@example.com', subject: 'Hi', messageId: 'm1', timestamp: 0 };
+        expect(filterEmail(payload, imported, '').action).toBe(filterEmail(payload, [tree], '').action);
+      }
+    });
+  });
+});
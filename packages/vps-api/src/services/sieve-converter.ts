@@ -0,0 +1,779 @@
+/**
+ * Sieve Converter
+ * Converts between Sieve scripts (RFC 5228) and filter rules
+ *
+ * Supported when importing:
+ * - tests: address / envelope ("from", "sender", "to"; :all or :domain),
+ *   header ("subject" or any other header), anyof, allof
+ * - match types: :is, :contains, :matches, :regex (default comparator only)
+ * - actions: discard, reject (blacklist), keep, redirect (whitelist), stop
+ * Anything else (else blocks, not, fileinto, nested ifs, ...) is reported and skipped.
+ *
+ * Sieve runs tests in order and stops at the first match, whereas filter rules
+ * let whitelist rules win over blacklist rules; scripts that rely on a blocking
+ * rule running before a keep/redirect rule can behave differently once imported.
+ * elsif branches become rules of their own. Both are reported as issues
+ * wherever the imported rules can decide differently from the script.
+ */
+
+import type {
+  CreateRuleDTO,
+  FilterRule,
+  MatchMode,
+  MatchType,
+  RuleCondition,
+  RuleConditionNode,
+} from '@email-filter/shared';
+import { parseHeaderPattern } from '@email-filter/shared';
+import { DEFAULT_REJECT_REASON } from './filter.service.js';
+
+/**
+ * Script that cannot be parsed at all
+ */
+export class SieveSyntaxError extends Error {
+  constructor(message: string, public line: number) {
+    super(`Line ${line}: ${message}`);
+    this.name = 'SieveSyntaxError';
+  }
+}
+
+/**
+ * Construct that was skipped or converted approximately
+ */
+export interface SieveIssue {
+  line: number;
+  message: string;
+}
+
+export interface SieveImportResult {
+  rules: CreateRuleDTO[];
+  issues: SieveIssue[];
+}
+
+export interface SieveExportResult {
+  script: string;
+  skipped: { ruleId: string; reason: string }[];
+}
+
+// ============================================================================
+// Lexer
+// ============================================================================
+
+type TokenType = 'identifier' | 'tag' | 'string' | 'number' | 'punct';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  line: number;
+}
+
+const PUNCTUATION = '[](){},;';
+
+function tokenize(script: string): Token[] {
+  const tokens: Token[] = [];
+  let line = 1;
+  let i = 0;
+
+  while (i < script.length) {
+    const char = script[i];
+
+    if (char === '\n') {
+      line++;
+      i++;
+    } else if (/\s/.test(char)) {
+      i++;
+    } else if (char === '#') {
+      while (i < script.length && script[i] !== '\n') i++;
+    } else if (script.startsWith('/*', i)) {
+      const end = script.indexOf('*/', i + 2);
+      if (end === -1) {
+        throw new SieveSyntaxError('Unterminated comment', line);
+      }
+      line += script.slice(i, end).split('\n').length - 1;
+      i = end + 2;
+    } else if (char === '"') {
+      const start = line;
+      let value = '';
+      i++;
+      while (i < script.length && script[i] !== '"') {
+        if (script[i] === '\\' && i + 1 < script.length) {
+          i++;
+        }
+        if (script[i] === '\n') line++;
+        value += script[i];
+        i++;
+      }
+      if (i >= script.length) {
+        throw new SieveSyntaxError('Unterminated string', start);
+      }
+      i++;
+      tokens.push({ type: 'string', value, line: start });
+    } else if (/^text:/i.test(script.slice(i, i + 5))) {
+      // Multi-line string: runs until a line holding a single dot, with dot-stuffing
+      const start = line;
+      const bodyStart = script.indexOf('\n', i);
+      if (bodyStart === -1) {
+        throw new SieveSyntaxError('Unterminated multi-line string', start);
+      }
+      const lines: string[] = [];
+      let position = bodyStart + 1;
+      line++;
+      for (;;) {
+        if (position >= script.length) {
+          throw new SieveSyntaxError('Unterminated multi-line string', start);
+        }
+        const next = script.indexOf('\n', position);
+        const text = script.slice(position, next === -1 ? script.length : next).replace(/\r$/, '');
+        position = next === -1 ? script.length : next + 1;
+        if (text === '.') {
+          break;
+        }
+        line++;
+        lines.push(text.startsWith('..') ? text.slice(1) : text);
+      }
+      line++;
+      i = position;
+      tokens.push({ type: 'string', value: lines.join('\n'), line: start });
+    } else if (char === ':' && /[A-Za-z_]/.test(script[i + 1] || '')) {
+      const match = /^:[A-Za-z_][A-Za-z0-9_]*/.exec(script.slice(i)) as RegExpExecArray;
+      tokens.push({ type: 'tag', value: match[0].slice(1).toLowerCase(), line });
+      i += match[0].length;
+    } else if (/[0-9]/.test(char)) {
+      const match = /^[0-9]+[KMG]?/i.exec(script.slice(i)) as RegExpExecArray;
+      tokens.push({ type: 'number', value: match[0], line });
+      i += match[0].length;
+    } else if (/[A-Za-z_]/.test(char)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(script.slice(i)) as RegExpExecArray;
+      tokens.push({ type: 'identifier', value: match[0].toLowerCase(), line });
+      i += match[0].length;
+    } else if (PUNCTUATION.includes(char)) {
+      tokens.push({ type: 'punct', value: char, line });
+      i++;
+    } else {
+      throw new SieveSyntaxError(`Unexpected character "${char}"`, line);
+    }
+  }
+
+  return tokens;
+}
+
+// ============================================================================
+// Parser
+// ============================================================================
+
+type SieveArgument =
+  | { type: 'tag'; value: string }
+  | { type: 'number'; value: string }
+  | { type: 'strings'; value: string[] };
+
+interface SieveTest {
+  name: string;
+  line: number;
+  args: SieveArgument[];
+  tests: SieveTest[];
+}
+
+interface SieveCommand extends SieveTest {
+  block?: SieveCommand[];
+}
+
+class Parser {
+  private position = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  private peek(): Token | undefined {
+    return this.tokens[this.position];
+  }
+
+  private lastLine(): number {
+    return this.tokens[this.tokens.length - 1]?.line ?? 1;
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.position++];
+    if (!token) {
+      throw new SieveSyntaxError('Unexpected end of script', this.lastLine());
+    }
+    return token;
+  }
+
+  private expect(value: string): void {
+    const token = this.next();
+    if (token.type !== 'punct' || token.value !== value) {
+      throw new SieveSyntaxError(`Expected "${value}" but found "${token.value}"`, token.line);
+    }
+  }
+
+  private isPunct(value: string): boolean {
+    const token = this.peek();
+    return token?.type === 'punct' && token.value === value;
+  }
+
+  parseScript(): SieveCommand[] {
+    const commands: SieveCommand[] = [];
+    while (this.peek()) {
+      commands.push(this.parseCommand());
+    }
+    return commands;
+  }
+
+  private parseCommand(): SieveCommand {
+    const token = this.next();
+    if (token.type !== 'identifier') {
+      throw new SieveSyntaxError(`Expected a command but found "${token.value}"`, token.line);
+    }
+    const command: SieveCommand = { ...this.parseArguments(token) };
+    if (this.isPunct('{')) {
+      this.next();
+      command.block = [];
+      while (!this.isPunct('}')) {
+        if (!this.peek()) {
+          throw new SieveSyntaxError('Unterminated block', token.line);
+        }
+        command.block.push(this.parseCommand());
+      }
+      this.next();
+    } else {
+      this.expect(';');
+    }
+    return command;
+  }
+
+  private parseTest(): SieveTest {
+    const token = this.next();
+    if (token.type !== 'identifier') {
+      throw new SieveSyntaxError(`Expected a test but found "${token.value}"`, token.line);
+    }
+    return this.parseArguments(token);
+  }
+
+  private parseArguments(name: Token): SieveTest {
+    const test: SieveTest = { name: name.value, line: name.line, args: [], tests: [] };
+
+    for (let token = this.peek(); token; token = this.peek()) {
+      if (token.type === 'tag' || token.type === 'number') {
+        this.next();
+        test.args.push({ type: token.type, value: token.value });
+      } else if (token.type === 'string') {
+        this.next();
+        test.args.push({ type: 'strings', value: [token.value] });
+      } else if (this.isPunct('[')) {
+        this.next();
+        const values: string[] = [];
+        do {
+          const item = this.next();
+          if (item.type !== 'string') {
+            throw new SieveSyntaxError(`Expected a string but found "${item.value}"`, item.line);
+          }
+          values.push(item.value);
+        } while (this.isPunct(',') && this.next());
+        this.expect(']');
+        test.args.push({ type: 'strings', value: values });
+      } else {
+        break;
+      }
+    }
+
+    if (this.peek()?.type === 'identifier') {
+      test.tests.push(this.parseTest());
+    } else if (this.isPunct('(')) {
+      this.next();
+      do {
+        test.tests.push(this.parseTest());
+      } while (this.isPunct(',') && this.next());
+      this.expect(')');
+    }
+    return test;
+  }
+}
+
+// ============================================================================
+// Sieve -> rules
+// ============================================================================
+
+type Converted<T> = { value: T; error?: undefined } | { value?: undefined; error: string };
+
+/**
+ * Convert a :matches glob (with "\" escapes) to a match mode and pattern
+ */
+function convertGlob(glob: string): Converted<{ matchMode: MatchMode; pattern: string }> {
+  const parts: { literal: string; wildcard?: '*' | '?' }[] = [{ literal: '' }];
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '\\' && i + 1 < glob.length) {
+      parts[parts.length - 1].literal += glob[++i];
+    } else if (char === '*' || char === '?') {
+      parts.push({ literal: '', wildcard: char });
+    } else {
+      parts[parts.length - 1].literal += char;
+    }
+  }
+
+  const wildcards = parts.filter((part) => part.wildcard);
+  const literals = parts.map((part) => part.literal);
+  if (wildcards.every((part) => part.wildcard === '*')) {
+    if (wildcards.length === 0) {
+      return { value: { matchMode: 'exact', pattern: literals[0] } };
+    }
+    if (wildcards.length === 1 && literals[0] && !literals[1]) {
+      return { value: { matchMode: 'startsWith', pattern: literals[0] } };
+    }
+    if (wildcards.length === 1 && !literals[0] && literals[1]) {
+      return { value: { matchMode: 'endsWith', pattern: literals[1] } };
+    }
+    if (wildcards.length === 2 && !literals[0] && literals[1] && !literals[2]) {
+      return { value: { matchMode: 'contains', pattern: literals[1] } };
+    }
+    if (literals.every((literal) => !literal)) {
+      return { error: ':matches "*" matches every email' };
+    }
+  }
+
+  const escape = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const pattern = parts
+    .map((part) => (part.wildcard === '*' ? '.*' : part.wildcard === '?' ? '.' : '') + escape(part.literal))
+    .join('');
+  return { value: { matchMode: 'regex', pattern: `^${pattern}$` } };
+}
+
+/**
+ * Read the match type, comparator and address part tags of a test
+ */
+function readTags(test: SieveTest): Converted<{ match: string; addressPart: string; strings: string[][] }> {
+  let match = 'is';
+  let addressPart = 'all';
+  const strings: string[][] = [];
+
+  for (let i = 0; i < test.args.length; i++) {
+    const arg = test.args[i];
+    if (arg.type === 'strings') {
+      strings.push(arg.value);
+    } else if (arg.type === 'number') {
+      return { error: `Unexpected number in ${test.name} test` };
+    } else if (['is', 'contains', 'matches', 'regex'].includes(arg.value)) {
+      match = arg.value;
+    } else if (['all', 'localpart', 'domain'].includes(arg.value)) {
+      addressPart = arg.value;
+    } else if (arg.value === 'comparator') {
+      const comparator = test.args[++i];
+      if (comparator?.type !== 'strings' || comparator.value[0] !== 'i;ascii-casemap') {
+        return { error: 'Only the default i;ascii-casemap comparator is supported (rules match case-insensitively)' };
+      }
+    } else {
+      return { error: `Unsupported tag :${arg.value} in ${test.name} test` };
+    }
+  }
+
+  if (strings.length !== 2) {
+    return { error: `${test.name} test needs a header list and a key list` };
+  }
+  return { value: { match, addressPart, strings } };
+}
+
+function convertKey(match: string, key: string): Converted<{ matchMode: MatchMode; pattern: string }> {
+  switch (match) {
+    case 'is': return { value: { matchMode: 'exact', pattern: key } };
+    case 'contains': return { value: { matchMode: 'contains', pattern: key } };
+    case 'regex': return { value: { matchMode: 'regex', pattern: key } };
+    default: return convertGlob(key);
+  }
+}
+
+const ADDRESS_FIELDS: Record<string, { all: MatchType; domain: MatchType }> = {
+  from: { all: 'sender', domain: 'domain' },
+  sender: { all: 'sender', domain: 'domain' },
+  'return-path': { all: 'sender', domain: 'domain' },
+  to: { all: 'recipient', domain: 'recipientDomain' },
+};
+
+/**
+ * Combine the leaves of a header/key cross product; several leaves match if any does
+ */
+function anyOf(leaves: RuleCondition[]): RuleConditionNode {
+  return leaves.length === 1 ? leaves[0] : { operator: 'or', conditions: leaves };
+}
+
+function convertTest(test: SieveTest, headers: Map<string, number>): Converted<RuleConditionNode> {
+  if (test.name === 'anyof' || test.name === 'allof') {
+    if (test.tests.length === 0) {
+      return { error: `${test.name} needs at least one test` };
+    }
+    const conditions: RuleConditionNode[] = [];
+    for (const child of test.tests) {
+      const converted = convertTest(child, headers);
+      if (converted.error !== undefined) {
+        return converted;
+      }
+      conditions.push(converted.value);
+    }
+    return { value: { operator: test.name === 'anyof' ? 'or' : 'and', conditions } };
+  }
+
+  if (test.name !== 'header' && test.name !== 'address' && test.name !== 'envelope') {
+    return { error: `Unsupported test "${test.name}"` };
+  }
+
+  const tags = readTags(test);
+  if (tags.error !== undefined) {
+    return tags;
+  }
+  const { match, addressPart, strings: [names, keys] } = tags.value;
+
+  const leaves: RuleCondition[] = [];
+  for (const name of names.map((n) => n.toLowerCase())) {
+    for (const key of keys) {
+      const converted = convertKey(match, key);
+      if (converted.error !== undefined) {
+        return converted;
+      }
+      const { matchMode, pattern } = converted.value;
+
+      if (test.name === 'header') {
+        if (name === 'subject') {
+          leaves.push({ matchType: 'subject', matchMode, pattern });
+        } else {
+          if (!headers.has(name)) {
+            headers.set(name, test.line);
+          }
+          leaves.push({ matchType: 'header', matchMode, pattern: `${name}: ${pattern}` });
+        }
+        continue;
+      }
+
+      const field = ADDRESS_FIELDS[name];
+      if (!field) {
+        return { error: `${test.name} "${name}" is not supported (only from, sender, return-path and to)` };
+      }
+      if (addressPart === 'localpart') {
+        return { error: `${test.name} :localpart is not supported` };
+      }
+      leaves.push({ matchType: addressPart === 'domain' ? field.domain : field.all, matchMode, pattern });
+    }
+  }
+  return { value: anyOf(leaves) };
+}
+
+type RuleOutcome = Pick<CreateRuleDTO, 'category' | 'action' | 'rejectReason' | 'forwardTo'>;
+
+function convertActions(block: SieveCommand[], issues: SieveIssue[]): Converted<RuleOutcome> {
+  let discard = false;
+  let reject: string | undefined;
+  let keep = false;
+  const redirects: string[] = [];
+
+  for (const command of block) {
+    const text = command.args.find((arg) => arg.type === 'strings')?.value[0];
+    switch (command.name) {
+      case 'discard':
+        discard = true;
+        break;
+      case 'reject':
+        reject = text ?? '';
+        break;
+      case 'keep':
+        keep = true;
+        break;
+      case 'redirect':
+        if (!text) {
+          return { error: 'redirect needs an address' };
+        }
+        redirects.push(text);
+        break;
+      case 'stop':
+        break;
+      default:
+        return { error: `Unsupported action "${command.name}"` };
+    }
+  }
+
+  const blocking = discard || reject !== undefined;
+  const forwarding = keep || redirects.length > 0;
+  if (blocking && forwarding) {
+    return { error: 'Block both delivers and discards the email' };
+  }
+  if (discard && reject !== undefined) {
+    return { error: 'Block both discards and rejects the email' };
+  }
+  if (reject !== undefined) {
+    return { value: { category: 'blacklist', action: 'reject', rejectReason: reject.trim() || undefined } };
+  }
+  if (discard) {
+    return { value: { category: 'blacklist', action: 'drop' } };
+  }
+  if (!forwarding) {
+    return { error: 'Block has no actions' };
+  }
+  if (keep && redirects.length > 0) {
+    issues.push({
+      line: block[0].line,
+      message: 'keep together with redirect: the email goes to the redirect addresses only, not the default address',
+    });
+  }
+  return { value: { category: 'whitelist', forwardTo: redirects.length > 0 ? redirects : undefined } };
+}
+
+/**
+ * An if/elsif block, kept to spot order the imported rules cannot preserve
+ */
+interface SieveBranch {
+  line: number;
+  /** Undefined when the block was skipped */
+  outcome?: RuleOutcome;
+  /** Whether Sieve stops after this block (stop, or reject which ends delivery) */
+  stops: boolean;
+}
+
+function firstLeaf(node: RuleConditionNode): RuleCondition {
+  return 'operator' in node ? firstLeaf(node.conditions[0]) : node;
+}
+
+/**
+ * Convert a Sieve script into rule DTOs
+ * Unsupported constructs are skipped and reported as issues.
+ *
+ * @throws SieveSyntaxError if the script cannot be parsed
+ */
+export function sieveToRules(script: string): SieveImportResult {
+  const commands = new Parser(tokenize(script)).parseScript();
+  const rules: CreateRuleDTO[] = [];
+  const issues: SieveIssue[] = [];
+  const headers = new Map<string, number>();
+  // Blocks of the current if/elsif chain, and converted blocking blocks seen so far
+  let chain: SieveBranch[] = [];
+  const blockers: SieveBranch[] = [];
+
+  for (const command of commands) {
+    if (command.name !== 'elsif' && command.name !== 'else') {
+      chain = [];
+    }
+    switch (command.name) {
+      case 'require':
+        continue;
+      case 'keep':
+      case 'stop':
+        // Delivering everything else is already the default
+        continue;
+      case 'if':
+      case 'elsif':
+        break;
+      case 'else':
+        issues.push({ line: command.line, message: 'else blocks have no equivalent, rules cannot match every remaining email' });
+        continue;
+      default:
+        issues.push({ line: command.line, message: `Unsupported command "${command.name}" outside an if block` });
+        continue;
+    }
+
+    const skip = (message: string): void => {
+      issues.push({ line: command.line, message });
+      chain.push({ line: command.line, stops: false });
+    };
+
+    const test = command.tests[0];
+    const nested = command.block?.find((child) => child.block);
+    if (!test || !command.block || nested) {
+      skip(nested ? 'Nested if blocks are not supported' : `Malformed ${command.name} command`);
+      continue;
+    }
+
+    const condition = convertTest(test, headers);
+    if (condition.error !== undefined) {
+      skip(condition.error);
+      continue;
+    }
+    const outcome = convertActions(command.block, issues);
+    if (outcome.error !== undefined) {
+      skip(outcome.error);
+      continue;
+    }
+
+    const branch: SieveBranch = {
+      line: command.line,
+      outcome: outcome.value,
+      stops: command.block.some((child) => child.name === 'stop') || outcome.value.action === 'reject',
+    };
+    // An elsif only runs when no earlier branch matched, but its rule applies on its own
+    const skipped = command.name === 'elsif' ? chain.find((earlier) => !earlier.outcome) : undefined;
+    // Sieve blocks these emails first, but whitelist rules win over blacklist rules
+    const blocker = branch.outcome?.category === 'whitelist'
+      ? blockers.find((earlier) => earlier.stops || chain.includes(earlier))
+      : undefined;
+    if (skipped) {
+      issues.push({
+        line: command.line,
+        message: `elsif is imported as a separate rule: it also applies to emails the skipped branch on line ${skipped.line} would have handled`,
+      });
+    } else if (blocker) {
+      issues.push({
+        line: command.line,
+        message: `Emails also matching the blocking rule on line ${blocker.line} are blocked by the script but delivered once imported, since whitelist rules win over blacklist rules`,
+      });
+    }
+    if (branch.outcome?.category === 'blacklist') {
+      blockers.push(branch);
+    }
+    chain.push(branch);
+
+    const node = condition.value;
+    const leaf = firstLeaf(node);
+    rules.push({
+      ...outcome.value,
+      matchType: leaf.matchType,
+      matchMode: leaf.matchMode,
+      pattern: leaf.pattern,
+      conditions: 'operator' in node ? node : undefined,
+    });
+  }
+
+  for (const [header, line] of headers) {
+    issues.push({ line, message: `Header rules on "${header}" only match when the worker forwards that header` });
+  }
+
+  return { rules, issues };
+}
+
+// ============================================================================
+// Rules -> Sieve
+// ============================================================================
+
+function quote(value: string): string {
+  return `"${value.replace(/[\\"]/g, '\\$&')}"`;
+}
+
+function escapeGlob(value: string): string {
+  return value.replace(/[\\*?]/g, '\\$&');
+}
+
+const CATEGORY_ORDER: Record<string, number> = { whitelist: 0, blacklist: 1, dynamic: 2 };
+
+/**
+ * Convert a condition node into a Sieve test, null if it has no Sieve equivalent
+ */
+function toSieveTest(node: RuleConditionNode, requires: Set<string>): string | null {
+  if ('operator' in node) {
+    const tests = node.conditions.map((child) => toSieveTest(child, requires));
+    if (tests.some((test) => test === null)) {
+      return null;
+    }
+    return `${node.operator === 'and' ? 'allof' : 'anyof'}(${tests.join(', ')})`;
+  }
+
+  let pattern = node.pattern;
+  let headerName = 'subject';
+  if (node.matchType === 'header') {
+    const header = parseHeaderPattern(node.pattern);
+    if (!header) {
+      return null;
+    }
+    headerName = header.headerName;
+    pattern = header.pattern;
+  }
+
+  if (node.matchMode === 'domainTree') {
+    // The domain itself or any subdomain of it; only addresses have a domain part
+    const address = { sender: 'from', domain: 'from', recipient: 'to', recipientDomain: 'to' }[node.matchType as string];
+    if (!address) {
+      return null;
+    }
+    return `anyof(address :domain :is ${quote(address)} ${quote(pattern)}, address :domain :matches ${quote(address)} ${quote(`*.${escapeGlob(pattern)}`)})`;
+  }
+
+  let match: string;
+  switch (node.matchMode) {
+    case 'exact': match = ':is'; break;
+    case 'contains': match = ':contains'; break;
+    case 'startsWith': match = ':matches'; pattern = `${escapeGlob(pattern)}*`; break;
+    case 'endsWith': match = ':matches'; pattern = `*${escapeGlob(pattern)}`; break;
+    case 'regex': match = ':regex'; requires.add('regex'); break;
+  }
+
+  switch (node.matchType) {
+    case 'sender': return `address :all ${match} "from" ${quote(pattern)}`;
+    case 'domain': return `address :domain ${match} "from" ${quote(pattern)}`;
+    case 'recipient': return `address :all ${match} "to" ${quote(pattern)}`;
+    case 'recipientDomain': return `address :domain ${match} "to" ${quote(pattern)}`;
+    case 'subject':
+    case 'header': return `header ${match} ${quote(headerName)} ${quote(pattern)}`;
+    default: return null;
+  }
+}
+
+/**
+ * Export rules as a Sieve script
+ * Whitelist rules come first since they win over blocking rules. Disabled, shadow
+ * and scheduled rules, authentication (spf/dkim/dmarc) conditions and domainTree
+ * conditions on subjects or headers cannot be
+ * expressed; they are returned as skipped and listed in comments at the end.
+ */
+export function rulesToSieve(rules: FilterRule[], now: Date = new Date()): SieveExportResult {
+  const requires = new Set<string>();
+  const blocks: string[] = [];
+  const skipped: SieveExportResult['skipped'] = [];
+
+  const ordered = [...rules].sort((a, b) =>
+    CATEGORY_ORDER[a.category] - CATEGORY_ORDER[b.category] || (a.priority ?? 0) - (b.priority ?? 0)
+  );
+
+  for (const rule of ordered) {
+    if (!rule.enabled) {
+      skipped.push({ ruleId: rule.id, reason: 'Rule is disabled' });
+      continue;
+    }
+    if (rule.mode === 'shadow') {
+      skipped.push({ ruleId: rule.id, reason: 'Shadow rules do not change delivery' });
+      continue;
+    }
+    if (rule.activeFrom || rule.activeUntil || (rule.timeWindows && rule.timeWindows.length > 0)) {
+      skipped.push({ ruleId: rule.id, reason: 'Schedules cannot be expressed in Sieve' });
+      continue;
+    }
+
+    const ruleRequires = new Set<string>();
+    let test = toSieveTest(rule.conditions ?? rule, ruleRequires);
+    const exceptions = (rule.exceptions || []).map((node) => toSieveTest(node, ruleRequires));
+    if (test === null || exceptions.some((exception) => exception === null)) {
+      skipped.push({
+        ruleId: rule.id,
+        reason: 'Conditions on authentication results or domain trees of non-address fields have no Sieve equivalent',
+      });
+      continue;
+    }
+    if (exceptions.length > 0) {
+      const excluded = exceptions.length === 1 ? exceptions[0] : `anyof(${exceptions.join(', ')})`;
+      test = `allof(${test}, not ${excluded})`;
+    }
+
+    const actions: string[] = [];
+    if (rule.category === 'whitelist') {
+      if (rule.forwardTo && rule.forwardTo.length > 0) {
+        actions.push(...rule.forwardTo.map((address) => `redirect ${quote(address)};`));
+      } else {
+        actions.push('keep;');
+      }
+    } else if (rule.action === 'reject') {
+      ruleRequires.add('reject');
+      actions.push(`reject ${quote(rule.rejectReason || DEFAULT_REJECT_REASON)};`);
+    } else {
+      actions.push('discard;');
+    }
+    actions.push('stop;');
+
+    ruleRequires.forEach((extension) => requires.add(extension));
+    blocks.push([
+      `# ${rule.category} ${rule.id}`,
+      `if ${test} {`,
+      ...actions.map((action) => `  ${action}`),
+      '}',
+    ].join('\n'));
+  }
+
+  const header = [`# Exported from email-filter on ${now.toISOString()}`];
+  if (requires.size > 0) {
+    header.push(`require [${[...requires].sort().map(quote).join(', ')}];`);
+  }
+  if (skipped.length > 0) {
+    blocks.push(skipped.map(({ ruleId, reason }) => `# Skipped ${ruleId}: ${reason}`).join('\n'));
+  }
+  return { script: [header.join('\n'), ...blocks].join('\n\n') + '\n', skipped };
+}
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { analyzeRegex, matchPattern } from '@email-filter/shared';
+import { buildTemplate, buildWavePattern, fingerprintSubject, isNearDuplicate, templateToRegex } from './subject-fingerprint.js';
+
+describe('Subject Fingerprinting', () => {
+  describe('fingerprintSubject', () => {
+    it('should mask names, numbers, emails and random tokens', () => {
+      expect(fingerprintSubject('Hi Anna, your order #48213 ships today')).toBe('Hi {name}, your order #{num} ships today');
+      expect(fingerprintSubject('Invoice 2024-06-01 for anna@example.com')).toBe('Invoice {num} for {email}');
+      expect(fingerprintSubject('Your code A8X92KQ7 expires in 3 days')).toBe('Your code {token} expires in {num} days');
+      expect(fingerprintSubject('Ref 9f86d081884c7d65 confirmed')).toBe('Ref {token} confirmed');
+      expect(fingerprintSubject('亲爱的张三，您的订单已发货')).toBe('亲爱的{name}，您的订单已发货');
+    });
+
+    it('should mask the recipient name taken from their address', () => {
+      expect(fingerprintSubject('Special deal for Anna Smith only', 'anna.smith90@example.com')).toBe(
+        'Special deal for {name} {name} only'
+      );
+    });
+
+    it('should leave plain subjects unchanged', () => {
+      expect(fingerprintSubject('Highlights of the week')).toBe('Highlights of the week');
+      expect(fingerprintSubject('Weekly newsletter: iPhone deals')).toBe('Weekly newsletter: iPhone deals');
+    });
+  });
+
+  describe('isNearDuplicate', () => {
+    it('should cluster fingerprints differing in at most a quarter of their words', () => {
+      expect(isNearDuplicate('Big summer sale on shoes today', 'Big summer sale on bags today')).toBe(true);
+      expect(isNearDuplicate('Big summer sale on shoes today', 'Small winter sale on bags today')).toBe(false);
+      expect(isNearDuplicate('Big summer sale on shoes', 'Big summer sale on shoes today')).toBe(false);
+      expect(isNearDuplicate('Sale on shoes', 'Sale on bags')).toBe(false);
+      expect(isNearDuplicate('Sale on shoes', 'SALE on shoes')).toBe(true);
+    });
+  });
+
+  describe('buildWavePattern', () => {
+    it('should keep a contains pattern for identical subjects', () => {
+      expect(buildWavePattern(['Flash sale', 'flash SALE'], ['Flash sale', 'flash SALE'])).toEqual({
+        matchMode: 'contains',
+        pattern: 'Flash sale',
+      });
+    });
+
+    it('should build a regex covering the whole wave', () => {
+      const subjects = ['Hi Anna, your order #48213 ships today', 'Hi Bob, your order #9981 ships today'];
+      const wave = buildWavePattern(subjects, subjects.map((subject) => fingerprintSubject(subject)));
+
+      expect(wave).toMatchObject({ matchMode: 'regex', template: 'Hi {name}, your order #{num} ships today' });
+      expect(matchPattern('Hi Carla, your order #1,200 ships today', wave.pattern, 'regex', true)).toBe(true);
+      expect(matchPattern('Hi Carla, your order shipped', wave.pattern, 'regex', true)).toBe(false);
+    });
+
+    it('should turn words that differ between members into wildcards', () => {
+      expect(buildTemplate(['Big sale on shoes today', 'Big sale on bags today', 'Big sale'])).toBe('Big sale on {any} today');
+    });
+
+    it('should fall back to the latest subject when the template is too broad', () => {
+      const subjects = ['Hi Anna', 'Hi Bob'];
+      expect(buildWavePattern(subjects, subjects.map((subject) => fingerprintSubject(subject)))).toEqual({
+        matchMode: 'contains',
+        pattern: 'Hi Anna',
+      });
+    });
+
+    it('should produce safe regexes that match the templated subjects', () => {
+      const wordArb = fc.constantFrom('Hi', 'Anna', 'order', '#123', 'a@b.co', 'X9Y8Z7W6', '(sale)', 'v1.2', 'now!', '$5');
+      fc.assert(
+        fc.property(fc.array(wordArb, { minLength: 1, maxLength: 8 }), (words) => {
+          const subject = words.join(' ');
+          const pattern = templateToRegex(fingerprintSubject(subject));
+          expect(analyzeRegex(pattern).safe).toBe(true);
+          expect(matchPattern(subject, pattern, 'regex')).toBe(true);
+        }),
+        { numRuns: 100 }
+      );
+    });
+  });
+});
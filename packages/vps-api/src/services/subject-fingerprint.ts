@@ -0,0 +1,160 @@
+/**
+ * Subject Fingerprinting
+ *
+ * Spam waves personalize every subject with the recipient's name, order numbers
+ * or random tokens, so identical-subject counting never reaches the threshold.
+ * A fingerprint masks those variable parts:
+ *   "Hi Anna, order #48213 ships today" -> "Hi {name}, order #{num} ships today"
+ * Fingerprints that still differ in a few words are near-duplicates and join the
+ * same cluster; a cluster's members are merged into a template whose variable
+ * positions become wildcards, and the template is turned into a regex covering
+ * the whole wave.
+ */
+
+import { analyzeRegex } from '@email-filter/shared';
+
+/**
+ * Regex each placeholder stands for once a template is turned into a rule pattern
+ */
+const PLACEHOLDER_PATTERNS: Record<string, string> = {
+  '{email}': '[^\\s@]+@[^\\s@]+',
+  '{token}': '[A-Za-z0-9_-]+',
+  '{num}': '\\d[\\d.,:/-]*',
+  '{name}': '[^\\s,.!?:;]+',
+  '{any}': '\\S+',
+};
+
+const PLACEHOLDER_REGEX = /\{(?:email|token|num|name|any)\}/g;
+
+const EMAIL_REGEX = /[^\s@]+@[^\s@]+\.[^\s@]+/g;
+/** Order ids, hex ids and random tokens: 8+ letters/digits with at least one letter and two digits */
+const TOKEN_REGEX = /(?<![A-Za-z0-9_-])(?=[A-Za-z0-9_-]*[A-Za-z])(?=[A-Za-z0-9_-]*\d[A-Za-z0-9_-]*\d)[A-Za-z0-9_-]{8,}(?![A-Za-z0-9_-])/g;
+const NUMBER_REGEX = /\d+(?:[.,:/-]\d+)*/g;
+/** Name right after a greeting at the start of the subject */
+const GREETING_REGEXES = [/^((?:hi|hello|hey|dear)\s+)[^\s,.!?:;]+/i, /^((?:亲爱的|尊敬的)\s*)[^\s,.!?:;，。！？：；]+/];
+/** Separators and digits splitting an address local part into name parts */
+const LOCAL_PART_SEPARATOR_REGEX = /[._+-]|\d+/;
+const MIN_NAME_PART_LENGTH = 3;
+
+/** Near-duplicates need this many tokens; shorter fingerprints only cluster when identical */
+const MIN_CLUSTER_TOKENS = 4;
+/** Share of token positions two fingerprints must have in common to be near-duplicates */
+export const CLUSTER_SIMILARITY = 0.75;
+/** Templates with fewer literal characters than this are too broad to become a rule */
+export const MIN_TEMPLATE_LITERAL_LENGTH = 6;
+
+/**
+ * Rule pattern generated for a cluster of subjects
+ */
+export interface WavePattern {
+  matchMode: 'contains' | 'regex';
+  pattern: string;
+  /** Template the regex was built from, for regex patterns */
+  template?: string;
+}
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Name parts of a recipient address, e.g. "anna.smith90@example.com" -> ["anna", "smith"]
+ */
+function recipientNameParts(recipientEmail: string): string[] {
+  const atIndex = recipientEmail.lastIndexOf('@');
+  const localPart = atIndex === -1 ? recipientEmail : recipientEmail.substring(0, atIndex);
+  return localPart
+    .split(LOCAL_PART_SEPARATOR_REGEX)
+    .filter((part) => part.length >= MIN_NAME_PART_LENGTH && /^[a-z]+$/i.test(part));
+}
+
+/**
+ * Mask the variable parts of a subject
+ * Expects a normalized subject (see DynamicRuleService); names are masked when they
+ * follow a greeting or match a part of the recipient's address
+ *
+ * @param subject - Normalized subject
+ * @param recipientEmail - Recipient address, used to spot the recipient's name
+ */
+export function fingerprintSubject(subject: string, recipientEmail?: string): string {
+  let fingerprint = subject;
+  for (const part of recipientEmail ? recipientNameParts(recipientEmail) : []) {
+    fingerprint = fingerprint.replace(new RegExp(`\\b${escapeRegex(part)}\\b`, 'gi'), '{name}');
+  }
+  for (const greeting of GREETING_REGEXES) {
+    fingerprint = fingerprint.replace(greeting, '$1{name}');
+  }
+  return fingerprint
+    .replace(EMAIL_REGEX, '{email}')
+    .replace(TOKEN_REGEX, '{token}')
+    .replace(NUMBER_REGEX, '{num}');
+}
+
+function tokenize(fingerprint: string): string[] {
+  return fingerprint.toLowerCase().split(' ');
+}
+
+/**
+ * Check if two fingerprints belong to the same wave: identical, or the same
+ * number of words with at most a quarter of them different
+ */
+export function isNearDuplicate(left: string, right: string): boolean {
+  const leftTokens = tokenize(left);
+  const rightTokens = tokenize(right);
+  if (leftTokens.length !== rightTokens.length || leftTokens.length < MIN_CLUSTER_TOKENS) {
+    return left.toLowerCase() === right.toLowerCase();
+  }
+  const same = leftTokens.filter((token, index) => token === rightTokens[index]).length;
+  return same / leftTokens.length >= CLUSTER_SIMILARITY;
+}
+
+/**
+ * Merge the fingerprints of a cluster into one template
+ * Words shared by every member are kept, the others become {any}.
+ * Members with a different word count than the first one are ignored.
+ */
+export function buildTemplate(fingerprints: string[]): string {
+  const [first, ...rest] = fingerprints.map((fingerprint) => fingerprint.split(' '));
+  if (!first) {
+    return '';
+  }
+  const members = rest.filter((tokens) => tokens.length === first.length);
+  return first
+    .map((token, index) =>
+      members.every((tokens) => tokens[index].toLowerCase() === token.toLowerCase()) ? token : '{any}'
+    )
+    .join(' ');
+}
+
+/**
+ * Turn a template into a regex: literal text is escaped, placeholders become their patterns
+ */
+export function templateToRegex(template: string): string {
+  const parts = template.split(PLACEHOLDER_REGEX);
+  const placeholders = template.match(PLACEHOLDER_REGEX) ?? [];
+  return parts
+    .map((part, index) => escapeRegex(part).replace(/ /g, '\\s+') + (placeholders[index] ? PLACEHOLDER_PATTERNS[placeholders[index]] : ''))
+    .join('');
+}
+
+/**
+ * Build the rule pattern covering a cluster
+ * A cluster of identical subjects keeps the plain contains pattern; otherwise the
+ * merged template becomes a regex, unless it is too broad or fails the ReDoS
+ * analysis, in which case the latest subject is used as a contains pattern.
+ *
+ * @param subjects - Normalized subjects of the cluster, latest first
+ * @param fingerprints - Their fingerprints, in the same order
+ */
+export function buildWavePattern(subjects: string[], fingerprints: string[]): WavePattern {
+  const fallback: WavePattern = { matchMode: 'contains', pattern: subjects[0] ?? '' };
+  if (subjects.every((subject) => subject.toLowerCase() === fallback.pattern.toLowerCase())) {
+    return fallback;
+  }
+  const template = buildTemplate(fingerprints);
+  if (template.replace(PLACEHOLDER_REGEX, '').replace(/\s/g, '').length < MIN_TEMPLATE_LITERAL_LENGTH) {
+    return fallback;
+  }
+  const pattern = templateToRegex(template);
+  return analyzeRegex(pattern).safe ? { matchMode: 'regex', pattern, template } : fallback;
+}
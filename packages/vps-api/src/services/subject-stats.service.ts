@@ -601,6 +601,38 @@ export class SubjectStatsService {
     return result.changes;
   }
 
+  /**
+   * Get subjects seen since a time with their merchant domain and email count, busiest first
+   *
+   * @param since - ISO timestamp; rows last seen before it are left out
+   * @param limit - Maximum number of rows returned
+   * @param workerName - Optional worker name filter
+   */
+  getRecentVolumes(since: string, limit: number, workerName?: string): { subject: string; merchantDomain: string; workerName: string; emailCount: number }[] {
+    const params: (string | number)[] = [since];
+    let workerFilter = '';
+    if (workerName) {
+      workerFilter = ' AND worker_name = ?';
+      params.push(workerName);
+    }
+    params.push(limit);
+
+    const stmt = this.db.prepare(`
+      SELECT subject, merchant_domain, worker_name, email_count
+      FROM subject_stats
+      WHERE last_seen_at >= ?${workerFilter}
+      ORDER BY email_count DESC
+      LIMIT ?
+    `);
+    const rows = stmt.all(...params) as Array<{ subject: string; merchant_domain: string; worker_name: string; email_count: number }>;
+    return rows.map((row) => ({
+      subject: row.subject,
+      merchantDomain: row.merchant_domain,
+      workerName: row.worker_name,
+      emailCount: row.email_count,
+    }));
+  }
+
   /**
    * Get all unique merchant domains (base domains only, without subdomains)
    * For example: "o3820.m.emailbychurch.com" -> "emailbychurch.com"
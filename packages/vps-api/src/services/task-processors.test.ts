@@ -0,0 +1,62 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { Database } from 'better-sqlite3';
+import type { FilterRule } from '@email-filter/shared';
+import type { PendingTask } from './async-task-processor.js';
+import type { FilterResult } from './filter.service.js';
+import { processStatsTasks } from './task-processors.js';
+import { RuleRepository } from '../db/rule-repository.js';
+import { StatsRepository } from '../db/stats-repository.js';
+import { createTestDatabase } from '../test-utils/sql-js-database.js';
+
+function statsTask(filterResult: FilterResult, shadowRule?: FilterRule): PendingTask {
+  return {
+    type: 'stats',
+    data: {
+      payload: { from: 'news@shop.com', to: 'me@example.com', subject: 'Sale', messageId: 'm1', timestamp: Date.now() },
+      filterResult,
+      defaultForwardTo: 'me@example.com',
+      shadowMatches: shadowRule ? [{ rule: shadowRule, action: 'drop', wouldChange: true }] : undefined,
+    },
+    timestamp: Date.now(),
+    retryCount: 0,
+  };
+}
+
+describe('processStatsTasks', () => {
+  let db: Database;
+  let rules: RuleRepository;
+  let stats: StatsRepository;
+
+  beforeEach(async () => {
+    db = await createTestDatabase();
+    db.pragma('foreign_keys = ON');
+    rules = new RuleRepository(db);
+    stats = new StatsRepository(db);
+  });
+
+  it('should record hits, rollups and shadow matches of existing rules', async () => {
+    const rule = rules.create({ category: 'blacklist', matchType: 'sender', matchMode: 'contains', pattern: 'shop' });
+    const shadow = rules.create({ category: 'blacklist', matchType: 'subject', matchMode: 'contains', pattern: 'Sale', mode: 'shadow' });
+
+    await processStatsTasks([statsTask({ action: 'drop', matchedRule: rule }, shadow)], stats, rules);
+
+    expect(stats.getOverallStats()).toMatchObject({ totalProcessed: 1, totalDeleted: 1 });
+    expect(stats.findByRuleId(rule.id)).toMatchObject({ totalProcessed: 1, deletedCount: 1 });
+    expect(stats.findShadowStats(shadow.id)).toMatchObject({ matchedCount: 1, wouldChangeCount: 1 });
+    expect(db.prepare('SELECT COUNT(*) AS count FROM rule_hit_rollups WHERE rule_id = ?').get(rule.id)).toEqual({ count: 2 });
+  });
+
+  it('should count a flush once when its rules were deleted while queued', async () => {
+    const rule = rules.create({ category: 'blacklist', matchType: 'sender', matchMode: 'contains', pattern: 'shop' });
+    const shadow = rules.create({ category: 'blacklist', matchType: 'subject', matchMode: 'contains', pattern: 'Sale', mode: 'shadow' });
+    const tasks = [statsTask({ action: 'drop', matchedRule: rule }, shadow)];
+    rules.delete(rule.id);
+    rules.delete(shadow.id);
+
+    await expect(processStatsTasks(tasks, stats, rules)).resolves.toBeUndefined();
+
+    expect(stats.getOverallStats()).toMatchObject({ totalProcessed: 1, totalDeleted: 1 });
+    expect(db.prepare('SELECT COUNT(*) AS count FROM rule_hit_rollups').get()).toEqual({ count: 0 });
+    expect(db.prepare('SELECT COUNT(*) AS count FROM shadow_rule_stats').get()).toEqual({ count: 0 });
+  });
+});
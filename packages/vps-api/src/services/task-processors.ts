@@ -14,7 +14,7 @@
 
 import type { Database } from 'better-sqlite3';
 import type { PendingTask, AsyncTaskData } from './async-task-processor.js';
-import type { StatsRepository } from '../db/stats-repository.js';
+import type { StatsRepository, RuleHitEntry } from '../db/stats-repository.js';
 import type { LogRepository, LogCategory } from '../db/log-repository.js';
 import type { WatchRepository, WatchRule } from '../db/watch-repository.js';
 import type { RuleRepository } from '../db/rule-repository.js';
@@ -22,7 +22,8 @@ import { DynamicRuleService } from './dynamic-rule.service.js';
 import { CampaignAnalyticsService } from './campaign-analytics.service.js';
 import { HitProcessor } from './monitoring/hit-processor.js';
 import { SubjectStatsService } from './subject-stats.service.js';
-import { matchesRuleWebhook } from '@email-filter/shared';
+import { matchesRuleWebhook, extractDomain, matchPattern } from '@email-filter/shared';
+import { getEmailLogCategory, getEmailLogMessage, getShadowLogMessage } from './filter.service.js';
 
 /**
  * Aggregated stats for batch processing
@@ -30,7 +31,10 @@ import { matchesRuleWebhook } from '@email-filter/shared';
 interface AggregatedStats {
   globalForwarded: number;
   globalDeleted: number;
+  globalRejected: number;
   ruleStats: Map<string, { processed: number; deleted: number }>;
+  ruleHits: RuleHitEntry[];
+  shadowStats: Map<string, { matched: number; wouldChange: number }>;
 }
 
 /**
@@ -64,7 +68,10 @@ export async function processStatsTasks(
   const aggregated: AggregatedStats = {
     globalForwarded: 0,
     globalDeleted: 0,
+    globalRejected: 0,
     ruleStats: new Map(),
+    ruleHits: [],
+    shadowStats: new Map(),
   };
 
   for (const task of tasks) {
@@ -73,6 +80,8 @@ export async function processStatsTasks(
     // Aggregate global stats
     if (filterResult.action === 'drop') {
       aggregated.globalDeleted++;
+    } else if (filterResult.action === 'reject') {
+      aggregated.globalRejected++;
     } else {
       aggregated.globalForwarded++;
     }
@@ -81,12 +90,31 @@ export async function processStatsTasks(
     const ruleId = filterResult.matchedRule?.id;
     if (ruleId) {
       const existing = aggregated.ruleStats.get(ruleId) || { processed: 0, deleted: 0 };
-      if (filterResult.action === 'drop') {
+      // Rejected emails are blocked by the rule just like dropped ones
+      const blocked = filterResult.action !== 'forward';
+      if (blocked) {
         existing.deleted++;
       } else {
         existing.processed++;
       }
       aggregated.ruleStats.set(ruleId, existing);
+      aggregated.ruleHits.push({
+        ruleId,
+        workerId: task.data.workerId || '',
+        timestamp: task.timestamp,
+        hits: 1,
+        blocked: blocked ? 1 : 0,
+      });
+    }
+
+    // Aggregate shadow matches apart from real rule hits
+    for (const match of task.data.shadowMatches || []) {
+      const existing = aggregated.shadowStats.get(match.rule.id) || { matched: 0, wouldChange: 0 };
+      existing.matched++;
+      if (match.wouldChange) {
+        existing.wouldChange++;
+      }
+      aggregated.shadowStats.set(match.rule.id, existing);
     }
   }
 
@@ -97,6 +125,9 @@ export async function processStatsTasks(
   if (aggregated.globalDeleted > 0) {
     statsRepository.incrementGlobalDeletedBatch(aggregated.globalDeleted);
   }
+  if (aggregated.globalRejected > 0) {
+    statsRepository.incrementGlobalRejectedBatch(aggregated.globalRejected);
+  }
 
   // Batch update rule-specific stats and lastHitAt
   for (const [ruleId, stats] of aggregated.ruleStats) {
@@ -109,6 +140,14 @@ export async function processStatsTasks(
     // Update lastHitAt for the rule
     ruleRepository.updateLastHit(ruleId);
   }
+
+  // Roll rule hits up into hour and day buckets
+  statsRepository.recordRuleHitsBatch(aggregated.ruleHits);
+
+  // Batch update shadow rule stats
+  for (const [ruleId, stats] of aggregated.shadowStats) {
+    statsRepository.incrementShadowBatch(ruleId, stats.matched, stats.wouldChange);
+  }
 }
 
 /**
@@ -125,16 +164,14 @@ export async function processLogTasks(
 ): Promise<void> {
   if (tasks.length === 0) return;
 
-  // Convert tasks to log entries
-  const logEntries: LogEntry[] = tasks.map((task) => {
+  // Convert tasks to log entries, followed by one entry per shadow match
+  const logEntries: LogEntry[] = tasks.flatMap((task) => {
     const { payload, filterResult } = task.data;
-    const category: LogCategory = filterResult.action === 'drop' ? 'email_drop' : 'email_forward';
-    const message = filterResult.action === 'drop'
-      ? `拦截邮件: ${payload.subject}`
-      : `转发邮件: ${payload.subject}`;
+    const category = getEmailLogCategory(filterResult);
+    const message = getEmailLogMessage(filterResult, payload.subject);
     const workerName = payload.workerName || 'global';
 
-    return {
+    const entry: LogEntry = {
       category,
       message,
       details: {
@@ -145,10 +182,32 @@ export async function processLogTasks(
         forwardTo: filterResult.forwardTo,
         matchedRule: filterResult.matchedRule?.pattern,
         reason: filterResult.reason,
+        rejectReason: filterResult.rejectReason,
+        auth: payload.auth,
       },
-      level: 'info' as const,
+      level: 'info',
       workerName,
     };
+
+    const shadowEntries: LogEntry[] = (task.data.shadowMatches || []).map((match) => ({
+      category: 'email_shadow',
+      message: getShadowLogMessage(match, payload.subject),
+      details: {
+        ruleId: match.rule.id,
+        matchedRule: match.rule.pattern,
+        ruleCategory: match.rule.category,
+        from: payload.from,
+        to: payload.to,
+        subject: payload.subject,
+        action: match.action,
+        actualAction: filterResult.action,
+        wouldChange: match.wouldChange,
+      },
+      level: 'info',
+      workerName,
+    }));
+
+    return [entry, ...shadowEntries];
   });
 
   // Batch insert logs
@@ -215,33 +274,18 @@ function matchesWatchRule(
       const atIndex = payload.from.lastIndexOf('@');
       value = atIndex !== -1 ? payload.from.substring(atIndex + 1).toLowerCase() : '';
       break;
+    case 'recipient':
+      value = payload.to;
+      break;
+    case 'recipientDomain':
+      value = extractDomain(payload.to);
+      break;
     default:
       return false;
   }
 
-  const pattern = rule.pattern;
-  const valueLower = value.toLowerCase();
-  const patternLower = pattern.toLowerCase();
-
-  switch (rule.matchMode) {
-    case 'exact':
-      return valueLower === patternLower;
-    case 'contains':
-      return valueLower.includes(patternLower);
-    case 'startsWith':
-      return valueLower.startsWith(patternLower);
-    case 'endsWith':
-      return valueLower.endsWith(patternLower);
-    case 'regex':
-      try {
-        const regex = new RegExp(pattern, 'i');
-        return regex.test(value);
-      } catch {
-        return false;
-      }
-    default:
-      return false;
-  }
+  // Same comparison as filter rules; regex runs on the linear-time engine
+  return matchPattern(value, rule.pattern, rule.matchMode, rule.normalize);
 }
 
 /**
@@ -0,0 +1,22 @@
+/**
+ * Filter Rule Test Fixtures
+ */
+
+import type { FilterRuleWithWorker } from '../db/rule-repository.js';
+
+/**
+ * Build a filter rule, a global sender blacklist rule unless overridden
+ */
+export function makeRule(id: string, overrides: Partial<FilterRuleWithWorker> = {}): FilterRuleWithWorker {
+  return {
+    id,
+    category: 'blacklist',
+    matchType: 'sender',
+    matchMode: 'contains',
+    pattern: id,
+    enabled: true,
+    createdAt: new Date('2024-01-01T00:00:00.000Z'),
+    updatedAt: new Date('2024-01-01T00:00:00.000Z'),
+    ...overrides,
+  };
+}
@@ -0,0 +1,108 @@
+/**
+ * sql.js Test Database
+ *
+ * Wraps an in-memory sql.js database in the part of the better-sqlite3 API the
+ * repositories use (prepare/run/get/all, exec, pragma and nested transactions),
+ * so repositories and services can be tested against the real schema without
+ * the native better-sqlite3 binding.
+ */
+
+import type { Database } from 'better-sqlite3';
+import initSqlJs, { Database as SqlJsDatabase } from 'sql.js';
+import { readFileSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+type SqlValue = string | number | Uint8Array | null;
+type BindValue = SqlValue | SqlValue[];
+
+/**
+ * Flatten bind parameters, refusing the values better-sqlite3 cannot bind either
+ */
+function toBindParams(params: BindValue[]): SqlValue[] {
+  return params.flat().map((value) => {
+    if (value === undefined || typeof value === 'boolean') {
+      throw new TypeError(`SQLite3 can only bind numbers, strings, buffers and null, got ${typeof value}`);
+    }
+    return value;
+  });
+}
+
+/**
+ * Wrap a sql.js database in the better-sqlite3 API
+ */
+export function wrapSqlJsDatabase(sqlJs: SqlJsDatabase): Database {
+  let depth = 0;
+
+  const query = (sql: string, params: BindValue[]): Record<string, SqlValue>[] => {
+    const stmt = sqlJs.prepare(sql);
+    try {
+      stmt.bind(toBindParams(params));
+      const rows: Record<string, SqlValue>[] = [];
+      while (stmt.step()) {
+        rows.push(stmt.getAsObject());
+      }
+      return rows;
+    } finally {
+      stmt.free();
+    }
+  };
+
+  const db = {
+    prepare(sql: string) {
+      return {
+        run(...params: BindValue[]) {
+          sqlJs.run(sql, toBindParams(params));
+          const changes = sqlJs.getRowsModified();
+          const lastInsertRowid = sqlJs.exec('SELECT last_insert_rowid()')[0].values[0][0] as number;
+          return { changes, lastInsertRowid };
+        },
+        get: (...params: BindValue[]) => query(sql, params)[0],
+        all: (...params: BindValue[]) => query(sql, params),
+      };
+    },
+    exec(sql: string) {
+      sqlJs.exec(sql);
+      return db;
+    },
+    pragma(source: string, options: { simple?: boolean } = {}) {
+      const rows = query(`PRAGMA ${source}`, []);
+      return options.simple ? (rows[0] ? Object.values(rows[0])[0] : undefined) : rows;
+    },
+    transaction<T extends unknown[], R>(fn: (...args: T) => R) {
+      return (...args: T): R => {
+        // Nested transactions become savepoints, as in better-sqlite3
+        const savepoint = `sp_${depth}`;
+        sqlJs.run(depth === 0 ? 'BEGIN' : `SAVEPOINT ${savepoint}`);
+        depth++;
+        try {
+          const result = fn(...args);
+          depth--;
+          sqlJs.run(depth === 0 ? 'COMMIT' : `RELEASE ${savepoint}`);
+          return result;
+        } catch (error) {
+          depth--;
+          sqlJs.run(depth === 0 ? 'ROLLBACK' : `ROLLBACK TO ${savepoint}; RELEASE ${savepoint}`);
+          throw error;
+        }
+      };
+    },
+    close() {
+      sqlJs.close();
+    },
+  };
+  return db as unknown as Database;
+}
+
+/**
+ * Create an in-memory database with the current schema, or with the given one
+ */
+export async function createTestDatabase(schema: string = readFileSync(join(__dirname, '../db/schema.sql'), 'utf-8')): Promise<Database> {
+  const SQL = await initSqlJs();
+  const sqlJs = new SQL.Database();
+  sqlJs.run(schema);
+  return wrapSqlJsDatabase(sqlJs);
+}